@@ -38,6 +38,11 @@ export const config = {
     }
   },
 
+  /** Ключ шифрования ключей бирж пользователей (exchange_credentials). Без него сохранение ключей недоступно */
+  get credentialsSecret(): string {
+    return envStr('CREDENTIALS_SECRET');
+  },
+
   /** Включить исполнение ордеров через OKX при авто-трейдинге. Без флага — только сигналы. */
   get autoTradingExecutionEnabled(): boolean {
     return envBool('AUTO_TRADING_EXECUTION_ENABLED', false);
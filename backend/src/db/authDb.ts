@@ -27,7 +27,7 @@ const memoryUsers: UserRow[] = [];
 const memoryGroups: GroupRow[] = [
   { id: 1, name: 'user', allowed_tabs: '["dashboard","settings","activate"]' },
   { id: 2, name: 'viewer', allowed_tabs: '["dashboard","signals","chart"]' },
-  { id: 3, name: 'admin', allowed_tabs: '["dashboard","signals","chart","demo","autotrade","scanner","pnl","settings","admin"]' },
+  { id: 3, name: 'admin', allowed_tabs: '["dashboard","signals","chart","demo","autotrade","scanner","backtest","pnl","settings","admin"]' },
   { id: 4, name: 'PREMIUM', allowed_tabs: '["dashboard","signals","chart","demo","autotrade","scanner","pnl","settings","activate"]' }
 ];
 const memorySessions: Map<string, string> = new Map(); // token -> userId
@@ -438,3 +438,83 @@ export function getTotalUsersCount(): number {
   const row = db.prepare('SELECT COUNT(*) AS cnt FROM users').get() as { cnt: number } | undefined;
   return row?.cnt ?? 0;
 }
+
+/** Ключи биржи пользователя (поля api_key / secret / passphrase — зашифрованы) */
+export interface ExchangeCredentialRow {
+  user_id: string;
+  exchange: string;
+  use_testnet: number;
+  api_key: string;
+  secret: string;
+  passphrase: string | null;
+  key_hint: string;
+  created_at: number;
+  updated_at: number;
+}
+
+const memoryExchangeCredentials: ExchangeCredentialRow[] = [];
+
+function sameCredentialKey(row: ExchangeCredentialRow, userId: string, exchange: string, useTestnet: boolean): boolean {
+  return row.user_id === userId && row.exchange === exchange && row.use_testnet === (useTestnet ? 1 : 0);
+}
+
+export function saveExchangeCredentials(row: ExchangeCredentialRow): void {
+  ensureAuthTables();
+  if (isMemoryStore()) {
+    const idx = memoryExchangeCredentials.findIndex((r) => sameCredentialKey(r, row.user_id, row.exchange, row.use_testnet === 1));
+    if (idx >= 0) memoryExchangeCredentials[idx] = { ...row, created_at: memoryExchangeCredentials[idx].created_at };
+    else memoryExchangeCredentials.push({ ...row });
+    return;
+  }
+  const db = getDb();
+  if (!db) throw new Error('DB unavailable');
+  db.prepare(`
+    INSERT INTO exchange_credentials (user_id, exchange, use_testnet, api_key, secret, passphrase, key_hint, created_at, updated_at)
+    VALUES (@user_id, @exchange, @use_testnet, @api_key, @secret, @passphrase, @key_hint, @created_at, @updated_at)
+    ON CONFLICT(user_id, exchange, use_testnet) DO UPDATE SET
+      api_key = excluded.api_key, secret = excluded.secret, passphrase = excluded.passphrase,
+      key_hint = excluded.key_hint, updated_at = excluded.updated_at
+  `).run(row);
+}
+
+export function getExchangeCredentials(userId: string, exchange: string, useTestnet: boolean): ExchangeCredentialRow | null {
+  ensureAuthTables();
+  if (isMemoryStore()) {
+    const row = memoryExchangeCredentials.find((r) => sameCredentialKey(r, userId, exchange, useTestnet));
+    return row ? { ...row } : null;
+  }
+  const db = getDb();
+  if (!db) return null;
+  const row = db
+    .prepare('SELECT * FROM exchange_credentials WHERE user_id = ? AND exchange = ? AND use_testnet = ?')
+    .get(userId, exchange, useTestnet ? 1 : 0);
+  return (row as ExchangeCredentialRow) ?? null;
+}
+
+/** Ключи пользователя или всех пользователей (без userId) */
+export function listExchangeCredentials(userId?: string): ExchangeCredentialRow[] {
+  ensureAuthTables();
+  if (isMemoryStore()) {
+    return memoryExchangeCredentials.filter((r) => !userId || r.user_id === userId).map((r) => ({ ...r }));
+  }
+  const db = getDb();
+  if (!db) return [];
+  return (userId
+    ? db.prepare('SELECT * FROM exchange_credentials WHERE user_id = ? ORDER BY exchange, use_testnet DESC').all(userId)
+    : db.prepare('SELECT * FROM exchange_credentials ORDER BY user_id, exchange, use_testnet DESC').all()) as ExchangeCredentialRow[];
+}
+
+export function deleteExchangeCredentials(userId: string, exchange: string, useTestnet: boolean): boolean {
+  ensureAuthTables();
+  if (isMemoryStore()) {
+    const idx = memoryExchangeCredentials.findIndex((r) => sameCredentialKey(r, userId, exchange, useTestnet));
+    if (idx >= 0) memoryExchangeCredentials.splice(idx, 1);
+    return idx >= 0;
+  }
+  const db = getDb();
+  if (!db) return false;
+  const info = db
+    .prepare('DELETE FROM exchange_credentials WHERE user_id = ? AND exchange = ? AND use_testnet = ?')
+    .run(userId, exchange, useTestnet ? 1 : 0);
+  return info.changes > 0;
+}
@@ -1,11 +1,13 @@
 /**
- * SQLite DB: инициализация, ордера (все пользователи).
+ * SQLite DB: инициализация, ордера (все пользователи), исторические свечи, импортированные наборы данных, прогоны бэктеста, paper trading,
+ * live-позиции, входы OKX, прогоны сверки ордеров с OKX, сигналы с исходами и настройки сервисов (key/value).
  * При ошибке загрузки better-sqlite3 (например в Electron — другая версия Node)
  * используется in-memory хранилище, чтобы приложение и админка работали.
  */
 
 import path from 'path';
 import fs from 'fs';
+import { OHLCVCandle } from '../types/candle';
 
 const DB_DIR = process.env.DATABASE_PATH
   ? path.dirname(process.env.DATABASE_PATH)
@@ -37,6 +39,13 @@ interface MemoryOrderRow {
   auto_opened: number;
   confidence_at_open: number | null;
   created_at: string;
+  source: 'client' | 'exchange';
+  fee: number | null;
+  funding: number | null;
+  exchange_orders: string | null;
+  recon_status: OrderReconStatus | null;
+  recon_ref: string | null;
+  recon_note: string | null;
 }
 
 function getSchemaPath(): string {
@@ -97,6 +106,277 @@ export function initDb(): any {
         CREATE INDEX IF NOT EXISTS idx_activation_keys_used ON activation_keys(used_at);
       `);
     } catch {}
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS candles (
+          symbol TEXT NOT NULL,
+          timeframe TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          open REAL NOT NULL,
+          high REAL NOT NULL,
+          low REAL NOT NULL,
+          close REAL NOT NULL,
+          volume REAL NOT NULL DEFAULT 0,
+          PRIMARY KEY (symbol, timeframe, timestamp)
+        ) WITHOUT ROWID;
+      `);
+    } catch {}
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS datasets (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          timeframe TEXT NOT NULL,
+          source TEXT,
+          candle_count INTEGER NOT NULL DEFAULT 0,
+          trade_count INTEGER NOT NULL DEFAULT 0,
+          first_ts INTEGER,
+          last_ts INTEGER,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+        CREATE TABLE IF NOT EXISTS dataset_trades (
+          dataset_id TEXT NOT NULL,
+          seq INTEGER NOT NULL,
+          time INTEGER NOT NULL,
+          price REAL NOT NULL,
+          amount REAL NOT NULL,
+          is_buy INTEGER NOT NULL,
+          PRIMARY KEY (dataset_id, seq)
+        ) WITHOUT ROWID;
+        CREATE INDEX IF NOT EXISTS idx_dataset_trades_time ON dataset_trades(dataset_id, time);
+      `);
+    } catch {}
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS backtest_runs (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          timeframe TEXT NOT NULL,
+          strategy TEXT NOT NULL,
+          params TEXT NOT NULL,
+          code_version TEXT,
+          dataset_id TEXT,
+          range_from INTEGER,
+          range_to INTEGER,
+          metrics TEXT NOT NULL,
+          result TEXT NOT NULL,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS idx_backtest_runs_created ON backtest_runs(created_at);
+      `);
+    } catch {}
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS paper_accounts (
+          user_id TEXT PRIMARY KEY,
+          balance REAL NOT NULL,
+          initial_balance REAL NOT NULL,
+          settings TEXT NOT NULL,
+          updated_at TEXT DEFAULT (datetime('now'))
+        );
+        CREATE TABLE IF NOT EXISTS paper_positions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+          status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+          margin REAL NOT NULL,
+          leverage INTEGER NOT NULL,
+          entry_price REAL NOT NULL,
+          qty REAL NOT NULL,
+          stop_loss REAL,
+          take_profit TEXT,
+          trailing_stop_pct REAL NOT NULL DEFAULT 0,
+          high_water REAL NOT NULL,
+          low_water REAL NOT NULL,
+          last_price REAL NOT NULL,
+          fees REAL NOT NULL DEFAULT 0,
+          signal_id TEXT,
+          confidence REAL,
+          auto_opened INTEGER NOT NULL DEFAULT 0,
+          close_price REAL,
+          pnl REAL,
+          pnl_percent REAL,
+          close_reason TEXT,
+          open_time INTEGER NOT NULL,
+          close_time INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_paper_positions_user ON paper_positions(user_id, status, open_time);
+        CREATE INDEX IF NOT EXISTS idx_paper_positions_status ON paper_positions(status);
+        CREATE TABLE IF NOT EXISTS paper_fills (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          position_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+          price REAL NOT NULL,
+          qty REAL NOT NULL,
+          fee REAL NOT NULL DEFAULT 0,
+          reason TEXT NOT NULL,
+          time INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_paper_fills_user ON paper_fills(user_id, time);
+      `);
+    } catch {}
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS live_positions (
+          id TEXT PRIMARY KEY,
+          symbol TEXT NOT NULL,
+          direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+          status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+          use_testnet INTEGER NOT NULL DEFAULT 1,
+          leverage INTEGER NOT NULL,
+          entry_price REAL NOT NULL,
+          amount REAL NOT NULL,
+          remaining REAL NOT NULL,
+          stop_loss REAL,
+          take_profit TEXT,
+          tp_filled INTEGER NOT NULL DEFAULT 0,
+          trail_step_pct REAL NOT NULL,
+          activation_profit_pct REAL NOT NULL,
+          breakeven INTEGER NOT NULL DEFAULT 0,
+          sl_algo_id TEXT,
+          last_price REAL NOT NULL,
+          realized_pnl REAL NOT NULL DEFAULT 0,
+          signal_id TEXT,
+          close_reason TEXT,
+          open_time INTEGER NOT NULL,
+          close_time INTEGER,
+          user_id TEXT,
+          exchange TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_live_positions_status ON live_positions(status, open_time);
+      `);
+    } catch {}
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS entry_orders (
+          id TEXT PRIMARY KEY,
+          symbol TEXT NOT NULL,
+          direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+          mode TEXT NOT NULL CHECK (mode IN ('market', 'limit', 'post_only')),
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done')),
+          outcome TEXT,
+          use_testnet INTEGER NOT NULL DEFAULT 1,
+          leverage INTEGER NOT NULL,
+          orders TEXT NOT NULL,
+          requested REAL NOT NULL,
+          filled REAL NOT NULL DEFAULT 0,
+          avg_price REAL,
+          ref_price REAL NOT NULL,
+          invalidation_price REAL,
+          expires_at INTEGER,
+          signal TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          closed_at INTEGER,
+          user_id TEXT,
+          exchange TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_entry_orders_status ON entry_orders(status, created_at);
+      `);
+    } catch {}
+    for (const col of [
+      "source TEXT NOT NULL DEFAULT 'client' CHECK(source IN ('client', 'exchange'))",
+      'fee REAL',
+      'funding REAL',
+      'exchange_orders TEXT',
+      "recon_status TEXT CHECK(recon_status IN ('matched', 'mismatch', 'unmatched'))",
+      'recon_ref TEXT',
+      'recon_note TEXT'
+    ]) {
+      try {
+        db.prepare(`ALTER TABLE orders ADD COLUMN ${col}`).run();
+      } catch {}
+    }
+    try {
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_orders_source ON orders(source, open_time);
+        CREATE TABLE IF NOT EXISTS reconciliation_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at INTEGER NOT NULL,
+          finished_at INTEGER NOT NULL,
+          since INTEGER NOT NULL,
+          ok INTEGER NOT NULL,
+          error TEXT,
+          summary TEXT
+        );
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          time INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          details TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_log_time ON audit_log(time);
+        CREATE TABLE IF NOT EXISTS exchange_credentials (
+          user_id TEXT NOT NULL,
+          exchange TEXT NOT NULL,
+          use_testnet INTEGER NOT NULL,
+          api_key TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          passphrase TEXT,
+          key_hint TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (user_id, exchange, use_testnet)
+        );
+        CREATE TABLE IF NOT EXISTS auto_trading_sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT,
+          name TEXT NOT NULL,
+          config TEXT NOT NULL,
+          status TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          last_run_at INTEGER,
+          last_error TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_auto_trading_sessions_user ON auto_trading_sessions(user_id);
+        CREATE TABLE IF NOT EXISTS auto_trading_session_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          time INTEGER NOT NULL,
+          level TEXT NOT NULL,
+          message TEXT NOT NULL,
+          details TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_auto_trading_session_logs ON auto_trading_session_logs(session_id, id);
+      `);
+    } catch {}
+    for (const table of ['live_positions', 'entry_orders']) {
+      for (const col of ['user_id TEXT', 'exchange TEXT']) {
+        try {
+          db.prepare(`ALTER TABLE ${table} ADD COLUMN ${col}`).run();
+        } catch {}
+      }
+    }
+    for (const col of [
+      'triggers TEXT',
+      'signal TEXT',
+      'created_at INTEGER',
+      'expires_at INTEGER',
+      'status_reason TEXT',
+      'status_at INTEGER',
+      'triggered_at INTEGER',
+      'outcome TEXT',
+      'first_hit TEXT',
+      'tp_reached INTEGER NOT NULL DEFAULT 0',
+      'outcome_at INTEGER',
+      'max_favorable_pct REAL',
+      'max_adverse_pct REAL',
+      'checked_until INTEGER',
+      'superseded_by TEXT'
+    ]) {
+      try {
+        db.prepare(`ALTER TABLE signals ADD COLUMN ${col}`).run();
+      } catch {}
+    }
+    try {
+      db.exec('CREATE INDEX IF NOT EXISTS idx_signals_created ON signals(created_at)');
+    } catch {}
     return db;
   } catch {
     useMemoryStore = true;
@@ -116,6 +396,9 @@ export function isMemoryStore(): boolean {
   return useMemoryStore;
 }
 
+/** Результат сверки записи с OKX: matched — совпало, mismatch — есть расхождения, unmatched — пары нет */
+export type OrderReconStatus = 'matched' | 'mismatch' | 'unmatched';
+
 export interface OrderRow {
   id: string;
   client_id: string;
@@ -135,6 +418,13 @@ export interface OrderRow {
   auto_opened: number;
   confidence_at_open: number | null;
   created_at: string;
+  source: 'client' | 'exchange';
+  fee: number | null;
+  funding: number | null;
+  exchange_orders: string | null;
+  recon_status: OrderReconStatus | null;
+  recon_ref: string | null;
+  recon_note: string | null;
 }
 
 export function insertOrder(order: {
@@ -172,7 +462,14 @@ export function insertOrder(order: {
       status: order.status ?? 'open',
       auto_opened: order.autoOpened ? 1 : 0,
       confidence_at_open: order.confidenceAtOpen ?? null,
-      created_at: new Date().toISOString()
+      created_at: new Date().toISOString(),
+      source: 'client',
+      fee: null,
+      funding: null,
+      exchange_orders: null,
+      recon_status: null,
+      recon_ref: null,
+      recon_note: null
     };
     const i = memoryOrders.findIndex((o) => o.id === order.id);
     if (i >= 0) memoryOrders[i] = row;
@@ -239,12 +536,26 @@ export function updateOrderClose(order: {
   });
 }
 
-export function listOrders(opts?: { clientId?: string; status?: 'open' | 'closed'; limit?: number }): OrderRow[] {
+/**
+ * Ордера (новые первыми). since — ISO-время открытия «не раньше»;
+ * preferExchange — без клиентских записей, сопоставленных со сделкой OKX (их заменяет биржевая запись).
+ */
+export function listOrders(opts?: {
+  clientId?: string;
+  status?: 'open' | 'closed';
+  source?: 'client' | 'exchange';
+  since?: string;
+  preferExchange?: boolean;
+  limit?: number;
+}): OrderRow[] {
   if (!initAttempted) initDb();
   if (useMemoryStore) {
     let list = [...memoryOrders];
     if (opts?.clientId) list = list.filter((o) => o.client_id === opts.clientId);
     if (opts?.status) list = list.filter((o) => o.status === opts.status);
+    if (opts?.source) list = list.filter((o) => o.source === opts.source);
+    if (opts?.since) list = list.filter((o) => o.open_time >= opts.since!);
+    if (opts?.preferExchange) list = list.filter((o) => !(o.source === 'client' && o.recon_ref != null));
     list.sort((a, b) => (b.open_time || '').localeCompare(a.open_time || ''));
     const limit = opts?.limit ?? 100;
     return list.slice(0, limit) as OrderRow[];
@@ -261,6 +572,17 @@ export function listOrders(opts?: { clientId?: string; status?: 'open' | 'closed
     sql += ' AND status = @status';
     params.status = opts.status;
   }
+  if (opts?.source) {
+    sql += ' AND source = @source';
+    params.source = opts.source;
+  }
+  if (opts?.since) {
+    sql += ' AND open_time >= @since';
+    params.since = opts.since;
+  }
+  if (opts?.preferExchange) {
+    sql += " AND NOT (source = 'client' AND recon_ref IS NOT NULL)";
+  }
   sql += ' ORDER BY open_time DESC';
   if (opts?.limit) {
     sql += ' LIMIT @limit';
@@ -269,3 +591,1221 @@ export function listOrders(opts?: { clientId?: string; status?: 'open' | 'closed
   const stmt = d.prepare(sql);
   return stmt.all(params) as OrderRow[];
 }
+
+/** Вставка или перезапись сделки OKX (сверка); результат сверки пишется отдельно — setOrderRecon */
+export function saveExchangeOrder(row: Omit<OrderRow, 'created_at' | 'source' | 'recon_status' | 'recon_ref' | 'recon_note'>): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const prev = memoryOrders.find((o) => o.id === row.id);
+    const next: MemoryOrderRow = {
+      ...row,
+      source: 'exchange',
+      created_at: prev?.created_at ?? new Date().toISOString(),
+      recon_status: prev?.recon_status ?? null,
+      recon_ref: prev?.recon_ref ?? null,
+      recon_note: prev?.recon_note ?? null
+    };
+    const i = memoryOrders.findIndex((o) => o.id === row.id);
+    if (i >= 0) memoryOrders[i] = next;
+    else memoryOrders.unshift(next);
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT INTO orders (
+      id, client_id, pair, direction, size, leverage, open_price, close_price, stop_loss, take_profit, pnl, pnl_percent,
+      open_time, close_time, status, auto_opened, confidence_at_open, source, fee, funding, exchange_orders
+    ) VALUES (
+      @id, @client_id, @pair, @direction, @size, @leverage, @open_price, @close_price, @stop_loss, @take_profit, @pnl, @pnl_percent,
+      @open_time, @close_time, @status, @auto_opened, @confidence_at_open, 'exchange', @fee, @funding, @exchange_orders
+    )
+    ON CONFLICT(id) DO UPDATE SET
+      size = excluded.size, leverage = excluded.leverage, open_price = excluded.open_price, close_price = excluded.close_price,
+      pnl = excluded.pnl, pnl_percent = excluded.pnl_percent, close_time = excluded.close_time, status = excluded.status,
+      fee = excluded.fee, funding = excluded.funding, exchange_orders = excluded.exchange_orders
+  `).run(row);
+}
+
+/** Результат сверки для записи ордера */
+export function setOrderRecon(id: string, recon: { status: OrderReconStatus; ref: string | null; note: string | null }): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const row = memoryOrders.find((o) => o.id === id);
+    if (row) {
+      row.recon_status = recon.status;
+      row.recon_ref = recon.ref;
+      row.recon_note = recon.note;
+    }
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare('UPDATE orders SET recon_status = ?, recon_ref = ?, recon_note = ? WHERE id = ?')
+    .run(recon.status, recon.ref, recon.note, id);
+}
+
+/** Свечи в памяти (если нет SQLite): ключ symbol|timeframe → timestamp → свеча */
+const memoryCandles = new Map<string, Map<number, OHLCVCandle>>();
+
+function memoryCandleSeries(symbol: string, timeframe: string): Map<number, OHLCVCandle> {
+  const key = `${symbol}|${timeframe}`;
+  let series = memoryCandles.get(key);
+  if (!series) {
+    series = new Map();
+    memoryCandles.set(key, series);
+  }
+  return series;
+}
+
+/** Сохранить свечи (перезапись по ключу — последняя незакрытая свеча обновляется) */
+export function upsertCandles(symbol: string, timeframe: string, candles: OHLCVCandle[]): void {
+  if (!candles.length) return;
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const series = memoryCandleSeries(symbol, timeframe);
+    for (const c of candles) series.set(c.timestamp, { ...c });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  const stmt = d.prepare(`
+    INSERT OR REPLACE INTO candles (symbol, timeframe, timestamp, open, high, low, close, volume)
+    VALUES (@symbol, @timeframe, @timestamp, @open, @high, @low, @close, @volume)
+  `);
+  const tx = d.transaction((rows: OHLCVCandle[]) => {
+    for (const c of rows) stmt.run({ symbol, timeframe, ...c, volume: c.volume ?? 0 });
+  });
+  tx(candles);
+}
+
+/**
+ * Свечи из хранилища по возрастанию времени. from/to — включительно (ms);
+ * limit — последние N в диапазоне.
+ */
+export function listCandles(
+  symbol: string,
+  timeframe: string,
+  opts?: { from?: number; to?: number; limit?: number }
+): OHLCVCandle[] {
+  if (!initAttempted) initDb();
+  const from = opts?.from ?? 0;
+  const to = opts?.to ?? Number.MAX_SAFE_INTEGER;
+  if (useMemoryStore) {
+    const list = [...memoryCandleSeries(symbol, timeframe).values()]
+      .filter((c) => c.timestamp >= from && c.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return opts?.limit ? list.slice(-opts.limit) : list;
+  }
+  const d = getDb();
+  if (!d) return [];
+  const rows = d.prepare(`
+    SELECT timestamp, open, high, low, close, volume FROM candles
+    WHERE symbol = @symbol AND timeframe = @timeframe AND timestamp >= @from AND timestamp <= @to
+    ORDER BY timestamp DESC
+    ${opts?.limit ? 'LIMIT @limit' : ''}
+  `).all({ symbol, timeframe, from, to, ...(opts?.limit ? { limit: opts.limit } : {}) }) as OHLCVCandle[];
+  return rows.reverse();
+}
+
+/** Покрытие хранилища: первая/последняя свеча и количество */
+export function getCandleCoverage(
+  symbol: string,
+  timeframe: string
+): { first: number; last: number; count: number } | null {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const keys = [...memoryCandleSeries(symbol, timeframe).keys()];
+    if (!keys.length) return null;
+    return { first: Math.min(...keys), last: Math.max(...keys), count: keys.length };
+  }
+  const d = getDb();
+  if (!d) return null;
+  const row = d.prepare(`
+    SELECT MIN(timestamp) AS first, MAX(timestamp) AS last, COUNT(*) AS count FROM candles
+    WHERE symbol = ? AND timeframe = ?
+  `).get(symbol, timeframe) as { first: number | null; last: number | null; count: number };
+  if (!row || row.first == null || row.last == null) return null;
+  return { first: row.first, last: row.last, count: row.count };
+}
+
+/** Время открытия сохранённых свечей (для поиска пропусков) */
+export function listCandleTimestamps(symbol: string, timeframe: string, from: number, to: number): number[] {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    return [...memoryCandleSeries(symbol, timeframe).keys()]
+      .filter((t) => t >= from && t <= to)
+      .sort((a, b) => a - b);
+  }
+  const d = getDb();
+  if (!d) return [];
+  const rows = d.prepare(`
+    SELECT timestamp FROM candles
+    WHERE symbol = ? AND timeframe = ? AND timestamp >= ? AND timestamp <= ?
+    ORDER BY timestamp ASC
+  `).all(symbol, timeframe, from, to) as { timestamp: number }[];
+  return rows.map((r) => r.timestamp);
+}
+
+/** Удалить свечи ключа (используется при удалении набора данных) */
+export function deleteCandles(symbol: string, timeframe?: string): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    for (const key of [...memoryCandles.keys()]) {
+      const [sym, tf] = key.split('|');
+      if (sym === symbol && (!timeframe || tf === timeframe)) memoryCandles.delete(key);
+    }
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  if (timeframe) d.prepare('DELETE FROM candles WHERE symbol = ? AND timeframe = ?').run(symbol, timeframe);
+  else d.prepare('DELETE FROM candles WHERE symbol = ?').run(symbol);
+}
+
+export interface DatasetRow {
+  id: string;
+  name: string;
+  symbol: string;
+  timeframe: string;
+  source: string | null;
+  candle_count: number;
+  trade_count: number;
+  first_ts: number | null;
+  last_ts: number | null;
+  created_at: string;
+}
+
+export interface DatasetTradeRow {
+  time: number;
+  price: number;
+  amount: number;
+  isBuy: boolean;
+}
+
+const memoryDatasets: DatasetRow[] = [];
+const memoryDatasetTrades = new Map<string, DatasetTradeRow[]>();
+
+export function insertDataset(row: Omit<DatasetRow, 'created_at'>): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const full: DatasetRow = { ...row, created_at: new Date().toISOString() };
+    const i = memoryDatasets.findIndex((d) => d.id === row.id);
+    if (i >= 0) memoryDatasets[i] = full;
+    else memoryDatasets.unshift(full);
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT OR REPLACE INTO datasets (id, name, symbol, timeframe, source, candle_count, trade_count, first_ts, last_ts)
+    VALUES (@id, @name, @symbol, @timeframe, @source, @candle_count, @trade_count, @first_ts, @last_ts)
+  `).run(row);
+}
+
+export function getDataset(id: string): DatasetRow | null {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return memoryDatasets.find((d) => d.id === id) ?? null;
+  const d = getDb();
+  if (!d) return null;
+  return (d.prepare('SELECT * FROM datasets WHERE id = ?').get(id) as DatasetRow | undefined) ?? null;
+}
+
+export function listDatasets(): DatasetRow[] {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return [...memoryDatasets];
+  const d = getDb();
+  if (!d) return [];
+  return d.prepare('SELECT * FROM datasets ORDER BY created_at DESC').all() as DatasetRow[];
+}
+
+export function deleteDataset(id: string): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const i = memoryDatasets.findIndex((d) => d.id === id);
+    if (i >= 0) memoryDatasets.splice(i, 1);
+    memoryDatasetTrades.delete(id);
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare('DELETE FROM dataset_trades WHERE dataset_id = ?').run(id);
+  d.prepare('DELETE FROM datasets WHERE id = ?').run(id);
+}
+
+/** Заменить ленту сделок набора (по возрастанию времени) */
+export function replaceDatasetTrades(datasetId: string, trades: DatasetTradeRow[]): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryDatasetTrades.set(datasetId, trades.map((t) => ({ ...t })));
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  const del = d.prepare('DELETE FROM dataset_trades WHERE dataset_id = ?');
+  const ins = d.prepare(`
+    INSERT INTO dataset_trades (dataset_id, seq, time, price, amount, is_buy)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const tx = d.transaction((rows: DatasetTradeRow[]) => {
+    del.run(datasetId);
+    rows.forEach((t, seq) => ins.run(datasetId, seq, t.time, t.price, t.amount, t.isBuy ? 1 : 0));
+  });
+  tx(trades);
+}
+
+export function listDatasetTrades(datasetId: string, opts?: { from?: number; to?: number }): DatasetTradeRow[] {
+  if (!initAttempted) initDb();
+  const from = opts?.from ?? 0;
+  const to = opts?.to ?? Number.MAX_SAFE_INTEGER;
+  if (useMemoryStore) {
+    return (memoryDatasetTrades.get(datasetId) ?? []).filter((t) => t.time >= from && t.time <= to);
+  }
+  const d = getDb();
+  if (!d) return [];
+  const rows = d.prepare(`
+    SELECT time, price, amount, is_buy FROM dataset_trades
+    WHERE dataset_id = ? AND time >= ? AND time <= ?
+    ORDER BY seq ASC
+  `).all(datasetId, from, to) as { time: number; price: number; amount: number; is_buy: number }[];
+  return rows.map((r) => ({ time: r.time, price: r.price, amount: r.amount, isBuy: r.is_buy === 1 }));
+}
+
+/** Прогон бэктеста; params / metrics / result — JSON */
+export interface BacktestRunRow {
+  id: string;
+  kind: string;
+  symbol: string;
+  timeframe: string;
+  strategy: string;
+  params: string;
+  code_version: string | null;
+  dataset_id: string | null;
+  range_from: number | null;
+  range_to: number | null;
+  metrics: string;
+  result: string;
+  created_at: string;
+}
+
+export type BacktestRunSummaryRow = Omit<BacktestRunRow, 'result'>;
+
+const memoryBacktestRuns: BacktestRunRow[] = [];
+const MEMORY_BACKTEST_RUNS_MAX = 200;
+
+export function insertBacktestRun(row: Omit<BacktestRunRow, 'created_at'>): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryBacktestRuns.unshift({ ...row, created_at: new Date().toISOString() });
+    if (memoryBacktestRuns.length > MEMORY_BACKTEST_RUNS_MAX) memoryBacktestRuns.length = MEMORY_BACKTEST_RUNS_MAX;
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT INTO backtest_runs (id, kind, symbol, timeframe, strategy, params, code_version, dataset_id, range_from, range_to, metrics, result)
+    VALUES (@id, @kind, @symbol, @timeframe, @strategy, @params, @code_version, @dataset_id, @range_from, @range_to, @metrics, @result)
+  `).run(row);
+}
+
+export function getBacktestRun(id: string): BacktestRunRow | null {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return memoryBacktestRuns.find((r) => r.id === id) ?? null;
+  const d = getDb();
+  if (!d) return null;
+  return (d.prepare('SELECT * FROM backtest_runs WHERE id = ?').get(id) as BacktestRunRow | undefined) ?? null;
+}
+
+/** Список прогонов без result (новые первыми) */
+export function listBacktestRuns(opts?: { symbol?: string; kind?: string; limit?: number; offset?: number }): BacktestRunSummaryRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts?.limit ?? 50;
+  const offset = opts?.offset ?? 0;
+  if (useMemoryStore) {
+    return memoryBacktestRuns
+      .filter((r) => (!opts?.symbol || r.symbol === opts.symbol) && (!opts?.kind || r.kind === opts.kind))
+      .slice(offset, offset + limit)
+      .map(({ result: _result, ...rest }) => rest);
+  }
+  const d = getDb();
+  if (!d) return [];
+  const where: string[] = [];
+  const args: unknown[] = [];
+  if (opts?.symbol) {
+    where.push('symbol = ?');
+    args.push(opts.symbol);
+  }
+  if (opts?.kind) {
+    where.push('kind = ?');
+    args.push(opts.kind);
+  }
+  return d.prepare(`
+    SELECT id, kind, symbol, timeframe, strategy, params, code_version, dataset_id, range_from, range_to, metrics, created_at
+    FROM backtest_runs ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
+    ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?
+  `).all(...args, limit, offset) as BacktestRunSummaryRow[];
+}
+
+export function deleteBacktestRun(id: string): boolean {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const i = memoryBacktestRuns.findIndex((r) => r.id === id);
+    if (i < 0) return false;
+    memoryBacktestRuns.splice(i, 1);
+    return true;
+  }
+  const d = getDb();
+  if (!d) return false;
+  return d.prepare('DELETE FROM backtest_runs WHERE id = ?').run(id).changes > 0;
+}
+
+/** Paper trading: счёт пользователя; settings — JSON */
+export interface PaperAccountRow {
+  user_id: string;
+  balance: number;
+  initial_balance: number;
+  settings: string;
+  updated_at: string;
+}
+
+export interface PaperPositionRow {
+  id: string;
+  user_id: string;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  status: 'open' | 'closed';
+  margin: number;
+  leverage: number;
+  entry_price: number;
+  qty: number;
+  stop_loss: number | null;
+  /** JSON массив уровней */
+  take_profit: string | null;
+  trailing_stop_pct: number;
+  high_water: number;
+  low_water: number;
+  last_price: number;
+  fees: number;
+  signal_id: string | null;
+  confidence: number | null;
+  auto_opened: number;
+  close_price: number | null;
+  pnl: number | null;
+  pnl_percent: number | null;
+  close_reason: string | null;
+  open_time: number;
+  close_time: number | null;
+}
+
+export interface PaperFillRow {
+  id?: number;
+  position_id: string;
+  user_id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  price: number;
+  qty: number;
+  fee: number;
+  reason: string;
+  time: number;
+}
+
+const memoryPaperAccounts = new Map<string, PaperAccountRow>();
+const memoryPaperPositions = new Map<string, PaperPositionRow>();
+const memoryPaperFills: PaperFillRow[] = [];
+let memoryPaperFillSeq = 0;
+
+export function getPaperAccount(userId: string): PaperAccountRow | null {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const row = memoryPaperAccounts.get(userId);
+    return row ? { ...row } : null;
+  }
+  const d = getDb();
+  if (!d) return null;
+  return (d.prepare('SELECT * FROM paper_accounts WHERE user_id = ?').get(userId) as PaperAccountRow | undefined) ?? null;
+}
+
+export function listPaperAccounts(): PaperAccountRow[] {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return [...memoryPaperAccounts.values()].map((r) => ({ ...r }));
+  const d = getDb();
+  if (!d) return [];
+  return d.prepare('SELECT * FROM paper_accounts').all() as PaperAccountRow[];
+}
+
+export function savePaperAccount(row: Omit<PaperAccountRow, 'updated_at'>): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryPaperAccounts.set(row.user_id, { ...row, updated_at: new Date().toISOString() });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT INTO paper_accounts (user_id, balance, initial_balance, settings, updated_at)
+    VALUES (@user_id, @balance, @initial_balance, @settings, datetime('now'))
+    ON CONFLICT(user_id) DO UPDATE SET
+      balance = excluded.balance, initial_balance = excluded.initial_balance,
+      settings = excluded.settings, updated_at = excluded.updated_at
+  `).run(row);
+}
+
+/** Вставка или полная перезапись позиции */
+export function savePaperPosition(row: PaperPositionRow): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryPaperPositions.set(row.id, { ...row });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT OR REPLACE INTO paper_positions (
+      id, user_id, symbol, direction, status, margin, leverage, entry_price, qty, stop_loss, take_profit,
+      trailing_stop_pct, high_water, low_water, last_price, fees, signal_id, confidence, auto_opened,
+      close_price, pnl, pnl_percent, close_reason, open_time, close_time
+    ) VALUES (
+      @id, @user_id, @symbol, @direction, @status, @margin, @leverage, @entry_price, @qty, @stop_loss, @take_profit,
+      @trailing_stop_pct, @high_water, @low_water, @last_price, @fees, @signal_id, @confidence, @auto_opened,
+      @close_price, @pnl, @pnl_percent, @close_reason, @open_time, @close_time
+    )
+  `).run(row);
+}
+
+export function getPaperPosition(id: string): PaperPositionRow | null {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const row = memoryPaperPositions.get(id);
+    return row ? { ...row } : null;
+  }
+  const d = getDb();
+  if (!d) return null;
+  return (d.prepare('SELECT * FROM paper_positions WHERE id = ?').get(id) as PaperPositionRow | undefined) ?? null;
+}
+
+/** Позиции (новые первыми); без userId — все пользователи (восстановление открытых при старте) */
+export function listPaperPositions(opts: { userId?: string; status?: 'open' | 'closed'; limit?: number }): PaperPositionRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts.limit ?? 100;
+  if (useMemoryStore) {
+    return [...memoryPaperPositions.values()]
+      .filter((p) => (!opts.userId || p.user_id === opts.userId) && (!opts.status || p.status === opts.status))
+      .sort((a, b) => (b.close_time ?? b.open_time) - (a.close_time ?? a.open_time))
+      .slice(0, limit)
+      .map((p) => ({ ...p }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  const where: string[] = [];
+  const args: unknown[] = [];
+  if (opts.userId) {
+    where.push('user_id = ?');
+    args.push(opts.userId);
+  }
+  if (opts.status) {
+    where.push('status = ?');
+    args.push(opts.status);
+  }
+  return d.prepare(`
+    SELECT * FROM paper_positions ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
+    ORDER BY COALESCE(close_time, open_time) DESC LIMIT ?
+  `).all(...args, limit) as PaperPositionRow[];
+}
+
+export function insertPaperFill(row: Omit<PaperFillRow, 'id'>): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryPaperFills.unshift({ ...row, id: ++memoryPaperFillSeq });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT INTO paper_fills (position_id, user_id, symbol, side, price, qty, fee, reason, time)
+    VALUES (@position_id, @user_id, @symbol, @side, @price, @qty, @fee, @reason, @time)
+  `).run(row);
+}
+
+export function listPaperFills(userId: string, limit = 100): PaperFillRow[] {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return memoryPaperFills.filter((f) => f.user_id === userId).slice(0, limit);
+  const d = getDb();
+  if (!d) return [];
+  return d.prepare('SELECT * FROM paper_fills WHERE user_id = ? ORDER BY time DESC, id DESC LIMIT ?').all(userId, limit) as PaperFillRow[];
+}
+
+/** Сброс счёта: удалить позиции и исполнения пользователя */
+export function deletePaperHistory(userId: string): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    for (const [id, p] of memoryPaperPositions) if (p.user_id === userId) memoryPaperPositions.delete(id);
+    for (let i = memoryPaperFills.length - 1; i >= 0; i--) if (memoryPaperFills[i].user_id === userId) memoryPaperFills.splice(i, 1);
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare('DELETE FROM paper_positions WHERE user_id = ?').run(userId);
+  d.prepare('DELETE FROM paper_fills WHERE user_id = ?').run(userId);
+}
+
+/** Live-позиция OKX под управлением positionManager */
+export interface LivePositionRow {
+  id: string;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  status: 'open' | 'closed';
+  use_testnet: number;
+  leverage: number;
+  entry_price: number;
+  amount: number;
+  remaining: number;
+  stop_loss: number | null;
+  /** JSON массив уровней */
+  take_profit: string | null;
+  tp_filled: number;
+  trail_step_pct: number;
+  activation_profit_pct: number;
+  breakeven: number;
+  sl_algo_id: string | null;
+  last_price: number;
+  realized_pnl: number;
+  signal_id: string | null;
+  close_reason: string | null;
+  open_time: number;
+  close_time: number | null;
+  /** Владелец счёта исполнения (null — серверный аккаунт из .env) */
+  user_id: string | null;
+  /** Биржа исполнения (null — OKX, записи до появления других бирж) */
+  exchange: string | null;
+}
+
+const memoryLivePositions = new Map<string, LivePositionRow>();
+
+/** Вставка или полная перезапись live-позиции */
+export function saveLivePosition(row: LivePositionRow): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryLivePositions.set(row.id, { ...row });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT OR REPLACE INTO live_positions (
+      id, symbol, direction, status, use_testnet, leverage, entry_price, amount, remaining, stop_loss, take_profit,
+      tp_filled, trail_step_pct, activation_profit_pct, breakeven, sl_algo_id, last_price, realized_pnl, signal_id,
+      close_reason, open_time, close_time, user_id, exchange
+    ) VALUES (
+      @id, @symbol, @direction, @status, @use_testnet, @leverage, @entry_price, @amount, @remaining, @stop_loss, @take_profit,
+      @tp_filled, @trail_step_pct, @activation_profit_pct, @breakeven, @sl_algo_id, @last_price, @realized_pnl, @signal_id,
+      @close_reason, @open_time, @close_time, @user_id, @exchange
+    )
+  `).run(row);
+}
+
+/** Live-позиции (новые первыми); userId — только счёт владельца (null — серверный), без userId — все */
+export function listLivePositions(opts: { status?: 'open' | 'closed'; userId?: string | null; limit?: number } = {}): LivePositionRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts.limit ?? 100;
+  if (useMemoryStore) {
+    return [...memoryLivePositions.values()]
+      .filter((p) => !opts.status || p.status === opts.status)
+      .filter((p) => opts.userId === undefined || (p.user_id ?? null) === opts.userId)
+      .sort((a, b) => (b.close_time ?? b.open_time) - (a.close_time ?? a.open_time))
+      .slice(0, limit)
+      .map((p) => ({ ...p }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (opts.status) {
+    where.push('status = ?');
+    params.push(opts.status);
+  }
+  if (opts.userId !== undefined) {
+    where.push('user_id IS ?');
+    params.push(opts.userId);
+  }
+  return d.prepare(`
+    SELECT * FROM live_positions ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY COALESCE(close_time, open_time) DESC LIMIT ?
+  `).all(...params, limit) as LivePositionRow[];
+}
+
+/** Вход autoTrader (market или лимитная лесенка) */
+export interface EntryOrderRow {
+  id: string;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  mode: 'market' | 'limit' | 'post_only';
+  status: 'pending' | 'done';
+  outcome: string | null;
+  use_testnet: number;
+  leverage: number;
+  /** JSON массив ордеров лесенки */
+  orders: string;
+  requested: number;
+  filled: number;
+  avg_price: number | null;
+  ref_price: number;
+  invalidation_price: number | null;
+  expires_at: number | null;
+  /** JSON исходного сигнала */
+  signal: string;
+  created_at: number;
+  closed_at: number | null;
+  /** Владелец счёта исполнения (null — серверный аккаунт из .env) */
+  user_id: string | null;
+  /** Биржа исполнения (null — OKX, записи до появления других бирж) */
+  exchange: string | null;
+}
+
+const memoryEntryOrders = new Map<string, EntryOrderRow>();
+
+export function saveEntryOrder(row: EntryOrderRow): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryEntryOrders.set(row.id, { ...row });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT OR REPLACE INTO entry_orders (
+      id, symbol, direction, mode, status, outcome, use_testnet, leverage, orders, requested, filled, avg_price,
+      ref_price, invalidation_price, expires_at, signal, created_at, closed_at, user_id, exchange
+    ) VALUES (
+      @id, @symbol, @direction, @mode, @status, @outcome, @use_testnet, @leverage, @orders, @requested, @filled, @avg_price,
+      @ref_price, @invalidation_price, @expires_at, @signal, @created_at, @closed_at, @user_id, @exchange
+    )
+  `).run(row);
+}
+
+/** Входы (новые первыми); userId — только счёт владельца (null — серверный), без userId — все */
+export function listEntryOrders(opts: { status?: 'pending' | 'done'; userId?: string | null; limit?: number } = {}): EntryOrderRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts.limit ?? 100;
+  if (useMemoryStore) {
+    return [...memoryEntryOrders.values()]
+      .filter((r) => !opts.status || r.status === opts.status)
+      .filter((r) => opts.userId === undefined || (r.user_id ?? null) === opts.userId)
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (opts.status) {
+    where.push('status = ?');
+    params.push(opts.status);
+  }
+  if (opts.userId !== undefined) {
+    where.push('user_id IS ?');
+    params.push(opts.userId);
+  }
+  return d.prepare(`
+    SELECT * FROM entry_orders ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY created_at DESC LIMIT ?
+  `).all(...params, limit) as EntryOrderRow[];
+}
+
+/** Прогон сверки ордеров с OKX */
+export interface ReconciliationRunRow {
+  id: number;
+  started_at: number;
+  finished_at: number;
+  since: number;
+  ok: number;
+  error: string | null;
+  /** JSON итогов прогона */
+  summary: string | null;
+}
+
+const memoryReconciliationRuns: ReconciliationRunRow[] = [];
+let memoryReconciliationSeq = 0;
+
+export function insertReconciliationRun(row: Omit<ReconciliationRunRow, 'id'>): number {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const id = ++memoryReconciliationSeq;
+    memoryReconciliationRuns.unshift({ id, ...row });
+    memoryReconciliationRuns.splice(200);
+    return id;
+  }
+  const d = getDb();
+  if (!d) return 0;
+  const info = d.prepare(`
+    INSERT INTO reconciliation_runs (started_at, finished_at, since, ok, error, summary)
+    VALUES (@started_at, @finished_at, @since, @ok, @error, @summary)
+  `).run(row);
+  return Number(info.lastInsertRowid);
+}
+
+/** Прогоны сверки (новые первыми) */
+export function listReconciliationRuns(limit = 20): ReconciliationRunRow[] {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return memoryReconciliationRuns.slice(0, limit).map((r) => ({ ...r }));
+  const d = getDb();
+  if (!d) return [];
+  return d.prepare('SELECT * FROM reconciliation_runs ORDER BY id DESC LIMIT ?').all(limit) as ReconciliationRunRow[];
+}
+
+/** Сессия авто-торговли */
+export interface AutoTradingSessionRow {
+  id: string;
+  user_id: string | null;
+  name: string;
+  /** JSON конфига сессии */
+  config: string;
+  status: 'running' | 'paused' | 'stopped';
+  created_at: number;
+  updated_at: number;
+  last_run_at: number | null;
+  last_error: string | null;
+}
+
+const memoryAutoSessions = new Map<string, AutoTradingSessionRow>();
+
+export function saveAutoTradingSession(row: AutoTradingSessionRow): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryAutoSessions.set(row.id, { ...row });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT OR REPLACE INTO auto_trading_sessions (id, user_id, name, config, status, created_at, updated_at, last_run_at, last_error)
+    VALUES (@id, @user_id, @name, @config, @status, @created_at, @updated_at, @last_run_at, @last_error)
+  `).run(row);
+}
+
+/** Сессии (новые первыми); userId — только сессии владельца (null — анонимные), без userId — все */
+export function listAutoTradingSessions(opts: { userId?: string | null } = {}): AutoTradingSessionRow[] {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    return [...memoryAutoSessions.values()]
+      .filter((r) => opts.userId === undefined || r.user_id === opts.userId)
+      .sort((a, b) => b.created_at - a.created_at)
+      .map((r) => ({ ...r }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  if (opts.userId !== undefined) {
+    return d.prepare('SELECT * FROM auto_trading_sessions WHERE user_id IS ? ORDER BY created_at DESC').all(opts.userId) as AutoTradingSessionRow[];
+  }
+  return d.prepare('SELECT * FROM auto_trading_sessions ORDER BY created_at DESC').all() as AutoTradingSessionRow[];
+}
+
+/** Удалить сессию вместе с журналом */
+export function deleteAutoTradingSession(id: string): boolean {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    for (let i = memoryAutoSessionLogs.length - 1; i >= 0; i--) {
+      if (memoryAutoSessionLogs[i].session_id === id) memoryAutoSessionLogs.splice(i, 1);
+    }
+    return memoryAutoSessions.delete(id);
+  }
+  const d = getDb();
+  if (!d) return false;
+  d.prepare('DELETE FROM auto_trading_session_logs WHERE session_id = ?').run(id);
+  return d.prepare('DELETE FROM auto_trading_sessions WHERE id = ?').run(id).changes > 0;
+}
+
+/** Запись журнала сессии авто-торговли */
+export interface AutoTradingSessionLogRow {
+  id: number;
+  session_id: string;
+  time: number;
+  level: 'info' | 'warn' | 'error' | 'signal';
+  message: string;
+  /** JSON подробностей (для signal — сигнал) */
+  details: string | null;
+}
+
+const memoryAutoSessionLogs: AutoTradingSessionLogRow[] = [];
+let memoryAutoSessionLogSeq = 0;
+
+export function insertAutoTradingSessionLog(row: Omit<AutoTradingSessionLogRow, 'id'>): number {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const id = ++memoryAutoSessionLogSeq;
+    memoryAutoSessionLogs.unshift({ id, ...row });
+    memoryAutoSessionLogs.splice(5000);
+    return id;
+  }
+  const d = getDb();
+  if (!d) return 0;
+  const info = d.prepare(`
+    INSERT INTO auto_trading_session_logs (session_id, time, level, message, details)
+    VALUES (@session_id, @time, @level, @message, @details)
+  `).run(row);
+  return Number(info.lastInsertRowid);
+}
+
+/** Журнал сессии (новые первыми), опционально по уровням */
+export function listAutoTradingSessionLogs(
+  sessionId: string,
+  opts: { levels?: AutoTradingSessionLogRow['level'][]; limit?: number } = {}
+): AutoTradingSessionLogRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts.limit ?? 100;
+  const levels = opts.levels?.length ? opts.levels : null;
+  if (useMemoryStore) {
+    return memoryAutoSessionLogs
+      .filter((r) => r.session_id === sessionId && (!levels || levels.includes(r.level)))
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  const levelWhere = levels ? ` AND level IN (${levels.map(() => '?').join(', ')})` : '';
+  return d.prepare(`
+    SELECT * FROM auto_trading_session_logs WHERE session_id = ?${levelWhere} ORDER BY id DESC LIMIT ?
+  `).all(sessionId, ...(levels ?? []), limit) as AutoTradingSessionLogRow[];
+}
+
+/** Удалить старые записи журналов сессий */
+export function pruneAutoTradingSessionLogs(before: number): number {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const len = memoryAutoSessionLogs.length;
+    for (let i = len - 1; i >= 0; i--) {
+      if (memoryAutoSessionLogs[i].time < before) memoryAutoSessionLogs.splice(i, 1);
+    }
+    return len - memoryAutoSessionLogs.length;
+  }
+  const d = getDb();
+  if (!d) return 0;
+  return d.prepare('DELETE FROM auto_trading_session_logs WHERE time < ?').run(before).changes;
+}
+
+/** Запись журнала действий администратора */
+export interface AuditLogRow {
+  id: number;
+  time: number;
+  action: string;
+  actor: string;
+  /** JSON подробностей */
+  details: string | null;
+}
+
+const memoryAuditLog: AuditLogRow[] = [];
+let memoryAuditSeq = 0;
+
+export function insertAuditEntry(row: Omit<AuditLogRow, 'id'>): number {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const id = ++memoryAuditSeq;
+    memoryAuditLog.unshift({ id, ...row });
+    memoryAuditLog.splice(500);
+    return id;
+  }
+  const d = getDb();
+  if (!d) return 0;
+  const info = d.prepare(`
+    INSERT INTO audit_log (time, action, actor, details) VALUES (@time, @action, @actor, @details)
+  `).run(row);
+  return Number(info.lastInsertRowid);
+}
+
+/** Журнал действий (новые первыми), опционально по списку action */
+export function listAuditEntries(opts: { actions?: string[]; limit?: number } = {}): AuditLogRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts.limit ?? 50;
+  const actions = opts.actions?.length ? opts.actions : null;
+  if (useMemoryStore) {
+    return memoryAuditLog
+      .filter((r) => !actions || actions.includes(r.action))
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  const where = actions ? `WHERE action IN (${actions.map(() => '?').join(', ')})` : '';
+  return d.prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`).all(...(actions ?? []), limit) as AuditLogRow[];
+}
+
+/** Сигнал анализа: параметры, разбор анализа, жизненный цикл и исход по движению цены */
+export interface SignalRow {
+  id: string;
+  /** Символ BTC-USDT */
+  pair: string;
+  direction: 'LONG' | 'SHORT';
+  entry_price: number;
+  stop_loss: number;
+  /** JSON массив TP1–TP3 */
+  take_profits: string;
+  risk_reward: number | null;
+  confidence: number;
+  /** ISO время сигнала */
+  timestamp: string;
+  /** Первый триггер сигнала */
+  trigger_type: string | null;
+  exchange: string | null;
+  timeframe: string | null;
+  status: 'active' | 'triggered' | 'expired' | 'invalidated';
+  /** JSON AnalysisBreakdown */
+  analysis_data: string | null;
+  /** JSON массив триггеров */
+  triggers: string;
+  /** JSON исходного TradingSignal */
+  signal: string;
+  created_at: number;
+  expires_at: number | null;
+  status_reason: string | null;
+  status_at: number | null;
+  triggered_at: number | null;
+  /** null — исход ещё отслеживается */
+  outcome: 'sl' | 'tp1' | 'tp2' | 'tp3' | 'timeout' | 'none' | null;
+  /** Уровень, достигнутый первым (sl / tp1…) */
+  first_hit: string | null;
+  /** Сколько TP достигнуто до стопа */
+  tp_reached: number;
+  outcome_at: number | null;
+  /** Макс. движение в пользу / против сигнала от входа, % */
+  max_favorable_pct: number | null;
+  max_adverse_pct: number | null;
+  /** Свечи обработаны до этого времени (ms) */
+  checked_until: number | null;
+  /** Сигнал противоположного направления, сменивший этот (services/signalGate) */
+  superseded_by: string | null;
+}
+
+const memorySignals = new Map<string, SignalRow>();
+
+/** Вставка или полная перезапись сигнала */
+export function saveSignal(row: SignalRow): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memorySignals.set(row.id, { ...row });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT OR REPLACE INTO signals (
+      id, pair, direction, entry_price, stop_loss, take_profits, risk_reward, confidence, timestamp, trigger_type, exchange,
+      timeframe, status, analysis_data, triggers, signal, created_at, expires_at, status_reason, status_at, triggered_at,
+      outcome, first_hit, tp_reached, outcome_at, max_favorable_pct, max_adverse_pct, checked_until, superseded_by
+    ) VALUES (
+      @id, @pair, @direction, @entry_price, @stop_loss, @take_profits, @risk_reward, @confidence, @timestamp, @trigger_type, @exchange,
+      @timeframe, @status, @analysis_data, @triggers, @signal, @created_at, @expires_at, @status_reason, @status_at, @triggered_at,
+      @outcome, @first_hit, @tp_reached, @outcome_at, @max_favorable_pct, @max_adverse_pct, @checked_until, @superseded_by
+    )
+  `).run(row);
+}
+
+export function getSignalRow(id: string): SignalRow | null {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const row = memorySignals.get(id);
+    return row ? { ...row } : null;
+  }
+  const d = getDb();
+  if (!d) return null;
+  return (d.prepare('SELECT * FROM signals WHERE id = ?').get(id) as SignalRow | undefined) ?? null;
+}
+
+/** Фильтры выборки сигналов; before — курсор (created_at, id) последнего элемента предыдущей страницы */
+export interface SignalQuery {
+  /** created_at не раньше (ms) */
+  since?: number;
+  /** created_at раньше (ms) */
+  until?: number;
+  /** Только отслеживаемые: active или triggered без исхода */
+  tracking?: boolean;
+  pair?: string;
+  direction?: 'LONG' | 'SHORT';
+  minConfidence?: number;
+  maxConfidence?: number;
+  /** Любой из триггеров сигнала */
+  trigger?: string;
+  timeframe?: string;
+  status?: SignalRow['status'][];
+  before?: { createdAt: number; id: string };
+  limit?: number;
+}
+
+function matchesSignalQuery(r: SignalRow, q: SignalQuery): boolean {
+  if (q.since != null && r.created_at < q.since) return false;
+  if (q.until != null && r.created_at >= q.until) return false;
+  if (q.tracking && !(r.status === 'active' || (r.status === 'triggered' && r.outcome == null))) return false;
+  if (q.pair && r.pair !== q.pair) return false;
+  if (q.direction && r.direction !== q.direction) return false;
+  if (q.minConfidence != null && r.confidence < q.minConfidence) return false;
+  if (q.maxConfidence != null && r.confidence > q.maxConfidence) return false;
+  if (q.trigger && !(JSON.parse(r.triggers) as string[]).includes(q.trigger)) return false;
+  if (q.timeframe && r.timeframe !== q.timeframe) return false;
+  if (q.status?.length && !q.status.includes(r.status)) return false;
+  if (q.before && !(r.created_at < q.before.createdAt || (r.created_at === q.before.createdAt && r.id < q.before.id))) return false;
+  return true;
+}
+
+/** Сигналы по фильтрам, новые первыми (created_at DESC, id DESC) */
+export function listSignalRows(opts: SignalQuery = {}): SignalRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts.limit ?? 100;
+  if (useMemoryStore) {
+    return [...memorySignals.values()]
+      .filter((r) => matchesSignalQuery(r, opts))
+      .sort((a, b) => b.created_at - a.created_at || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  const where: string[] = [];
+  const params: unknown[] = [];
+  const add = (clause: string, ...values: unknown[]) => {
+    where.push(clause);
+    params.push(...values);
+  };
+  if (opts.since != null) add('created_at >= ?', opts.since);
+  if (opts.until != null) add('created_at < ?', opts.until);
+  if (opts.tracking) add("(status = 'active' OR (status = 'triggered' AND outcome IS NULL))");
+  if (opts.pair) add('pair = ?', opts.pair);
+  if (opts.direction) add('direction = ?', opts.direction);
+  if (opts.minConfidence != null) add('confidence >= ?', opts.minConfidence);
+  if (opts.maxConfidence != null) add('confidence <= ?', opts.maxConfidence);
+  if (opts.trigger) add('EXISTS (SELECT 1 FROM json_each(signals.triggers) WHERE value = ?)', opts.trigger);
+  if (opts.timeframe) add('timeframe = ?', opts.timeframe);
+  if (opts.status?.length) add(`status IN (${opts.status.map(() => '?').join(', ')})`, ...opts.status);
+  if (opts.before) add('(created_at < ? OR (created_at = ? AND id < ?))', opts.before.createdAt, opts.before.createdAt, opts.before.id);
+  return d.prepare(`
+    SELECT * FROM signals ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY created_at DESC, id DESC LIMIT ?
+  `).all(...params, limit) as SignalRow[];
+}
+
+/** Есть ли сигналы в таблице (однократный импорт signals.json) */
+export function hasSignals(): boolean {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return memorySignals.size > 0;
+  const d = getDb();
+  if (!d) return false;
+  return d.prepare('SELECT 1 FROM signals LIMIT 1').get() != null;
+}
+
+/** Подавленный повтор сигнала: причина и сигнал, который он повторяет */
+export interface SignalSuppressionRow {
+  id: number;
+  time: number;
+  signal_id: string;
+  pair: string;
+  exchange: string | null;
+  direction: 'LONG' | 'SHORT';
+  confidence: number;
+  entry_price: number;
+  reason: string;
+  duplicate_of: string | null;
+}
+
+const memorySignalSuppressions: SignalSuppressionRow[] = [];
+let memorySignalSuppressionSeq = 0;
+
+export function insertSignalSuppression(row: Omit<SignalSuppressionRow, 'id'>): number {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    const id = ++memorySignalSuppressionSeq;
+    memorySignalSuppressions.unshift({ id, ...row });
+    memorySignalSuppressions.splice(500);
+    return id;
+  }
+  const d = getDb();
+  if (!d) return 0;
+  const info = d.prepare(`
+    INSERT INTO signal_suppressions (time, signal_id, pair, exchange, direction, confidence, entry_price, reason, duplicate_of)
+    VALUES (@time, @signal_id, @pair, @exchange, @direction, @confidence, @entry_price, @reason, @duplicate_of)
+  `).run(row);
+  return Number(info.lastInsertRowid);
+}
+
+/** Подавленные сигналы (новые первыми), опционально по символу */
+export function listSignalSuppressions(opts: { pair?: string; limit?: number } = {}): SignalSuppressionRow[] {
+  if (!initAttempted) initDb();
+  const limit = opts.limit ?? 50;
+  if (useMemoryStore) {
+    return memorySignalSuppressions
+      .filter((r) => !opts.pair || r.pair === opts.pair)
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+  const d = getDb();
+  if (!d) return [];
+  const where = opts.pair ? 'WHERE pair = ?' : '';
+  return d.prepare(`SELECT * FROM signal_suppressions ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...(opts.pair ? [opts.pair] : []), limit) as SignalSuppressionRow[];
+}
+
+const memorySettings = new Map<string, string>();
+
+/** Настройка сервиса (таблица settings, значение — строка/JSON) */
+export function getSetting(key: string): string | null {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return memorySettings.get(key) ?? null;
+  const d = getDb();
+  if (!d) return null;
+  const row = d.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+export function setSetting(key: string, value: string): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memorySettings.set(key, value);
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT INTO settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(key, value);
+}
+
+/** Правиловая стратегия: definition — JSON определения на DSL (services/ruleStrategies) */
+export interface RuleStrategyRow {
+  id: string;
+  name: string;
+  definition: string;
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+const memoryRuleStrategies = new Map<string, RuleStrategyRow>();
+
+export function saveRuleStrategy(row: RuleStrategyRow): void {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) {
+    memoryRuleStrategies.set(row.id, { ...row });
+    return;
+  }
+  const d = getDb();
+  if (!d) return;
+  d.prepare(`
+    INSERT OR REPLACE INTO rule_strategies (id, name, definition, created_by, created_at, updated_at)
+    VALUES (@id, @name, @definition, @created_by, @created_at, @updated_at)
+  `).run(row);
+}
+
+export function listRuleStrategies(): RuleStrategyRow[] {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return [...memoryRuleStrategies.values()].sort((a, b) => a.created_at - b.created_at).map((r) => ({ ...r }));
+  const d = getDb();
+  if (!d) return [];
+  return d.prepare('SELECT * FROM rule_strategies ORDER BY created_at').all() as RuleStrategyRow[];
+}
+
+export function deleteRuleStrategy(id: string): boolean {
+  if (!initAttempted) initDb();
+  if (useMemoryStore) return memoryRuleStrategies.delete(id);
+  const d = getDb();
+  if (!d) return false;
+  return d.prepare('DELETE FROM rule_strategies WHERE id = ?').run(id).changes > 0;
+}
@@ -15,7 +15,22 @@ CREATE TABLE IF NOT EXISTS signals (
     exchange TEXT,
     timeframe TEXT,
     status TEXT DEFAULT 'active',
-    analysis_data TEXT
+    analysis_data TEXT,
+    triggers TEXT,
+    signal TEXT,
+    created_at INTEGER,
+    expires_at INTEGER,
+    status_reason TEXT,
+    status_at INTEGER,
+    triggered_at INTEGER,
+    outcome TEXT,
+    first_hit TEXT,
+    tp_reached INTEGER NOT NULL DEFAULT 0,
+    outcome_at INTEGER,
+    max_favorable_pct REAL,
+    max_adverse_pct REAL,
+    checked_until INTEGER,
+    superseded_by TEXT
 );
 
 -- Таблица демо-сделок
@@ -70,7 +85,17 @@ CREATE TABLE IF NOT EXISTS orders (
     status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'closed')),
     auto_opened INTEGER NOT NULL DEFAULT 0,
     confidence_at_open REAL,
-    created_at TEXT DEFAULT (datetime('now'))
+    created_at TEXT DEFAULT (datetime('now')),
+    -- Сверка с OKX: source = 'exchange' — сделка из истории позиций OKX (client_id = 'okx'),
+    -- fee/funding со знаком (минус — списано), exchange_orders — JSON id ордеров биржи;
+    -- recon_ref — id сопоставленной записи с другой стороны, recon_note — найденные расхождения
+    source TEXT NOT NULL DEFAULT 'client' CHECK(source IN ('client', 'exchange')),
+    fee REAL,
+    funding REAL,
+    exchange_orders TEXT,
+    recon_status TEXT CHECK(recon_status IN ('matched', 'mismatch', 'unmatched')),
+    recon_ref TEXT,
+    recon_note TEXT
 );
 
 CREATE INDEX IF NOT EXISTS idx_orders_client_id ON orders(client_id);
@@ -90,7 +115,7 @@ CREATE TABLE IF NOT EXISTS groups (
 INSERT OR IGNORE INTO groups (id, name, allowed_tabs) VALUES
 (1, 'user', '["dashboard","settings","activate"]'),
 (2, 'viewer', '["dashboard","signals","chart"]'),
-(3, 'admin', '["dashboard","signals","chart","demo","autotrade","scanner","pnl","settings","admin"]');
+(3, 'admin', '["dashboard","signals","chart","demo","autotrade","scanner","backtest","pnl","settings","admin"]');
 
 -- Пользователи (регистрация без подтверждения почты)
 CREATE TABLE IF NOT EXISTS users (
@@ -132,3 +157,257 @@ CREATE INDEX IF NOT EXISTS idx_activation_keys_used ON activation_keys(used_at);
 -- PREMIUM группа (после активации). Вкладка activate доступна всегда.
 INSERT OR IGNORE INTO groups (id, name, allowed_tabs) VALUES
 (4, 'PREMIUM', '["dashboard","signals","chart","demo","autotrade","scanner","pnl","settings","activate"]');
+
+-- Исторические свечи (кэш OKX + backfill), ключ: символ, таймфрейм, время открытия (ms)
+CREATE TABLE IF NOT EXISTS candles (
+    symbol TEXT NOT NULL,
+    timeframe TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    open REAL NOT NULL,
+    high REAL NOT NULL,
+    low REAL NOT NULL,
+    close REAL NOT NULL,
+    volume REAL NOT NULL DEFAULT 0,
+    PRIMARY KEY (symbol, timeframe, timestamp)
+) WITHOUT ROWID;
+
+-- Импортированные наборы данных для бэктеста (CSV/JSON Binance/OKX); свечи — в candles под ключом ds:<id>
+CREATE TABLE IF NOT EXISTS datasets (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    timeframe TEXT NOT NULL,
+    source TEXT,
+    candle_count INTEGER NOT NULL DEFAULT 0,
+    trade_count INTEGER NOT NULL DEFAULT 0,
+    first_ts INTEGER,
+    last_ts INTEGER,
+    created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Ленты сделок импортированных наборов
+CREATE TABLE IF NOT EXISTS dataset_trades (
+    dataset_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    time INTEGER NOT NULL,
+    price REAL NOT NULL,
+    amount REAL NOT NULL,
+    is_buy INTEGER NOT NULL,
+    PRIMARY KEY (dataset_id, seq)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_dataset_trades_time ON dataset_trades(dataset_id, time);
+
+-- Сохранённые прогоны бэктеста: параметры, версия кода, период; result — полный BacktestResult (JSON)
+CREATE TABLE IF NOT EXISTS backtest_runs (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    timeframe TEXT NOT NULL,
+    strategy TEXT NOT NULL,
+    params TEXT NOT NULL,
+    code_version TEXT,
+    dataset_id TEXT,
+    range_from INTEGER,
+    range_to INTEGER,
+    metrics TEXT NOT NULL,
+    result TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_backtest_runs_created ON backtest_runs(created_at);
+
+-- Paper trading: виртуальный счёт пользователя; settings — PaperSettings (JSON)
+CREATE TABLE IF NOT EXISTS paper_accounts (
+    user_id TEXT PRIMARY KEY,
+    balance REAL NOT NULL,
+    initial_balance REAL NOT NULL,
+    settings TEXT NOT NULL,
+    updated_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Paper trading: позиции; margin — маржа (USDT), qty — объём в базовой валюте, take_profit — JSON массив
+CREATE TABLE IF NOT EXISTS paper_positions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    margin REAL NOT NULL,
+    leverage INTEGER NOT NULL,
+    entry_price REAL NOT NULL,
+    qty REAL NOT NULL,
+    stop_loss REAL,
+    take_profit TEXT,
+    trailing_stop_pct REAL NOT NULL DEFAULT 0,
+    high_water REAL NOT NULL,
+    low_water REAL NOT NULL,
+    last_price REAL NOT NULL,
+    fees REAL NOT NULL DEFAULT 0,
+    signal_id TEXT,
+    confidence REAL,
+    auto_opened INTEGER NOT NULL DEFAULT 0,
+    close_price REAL,
+    pnl REAL,
+    pnl_percent REAL,
+    close_reason TEXT,
+    open_time INTEGER NOT NULL,
+    close_time INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_paper_positions_user ON paper_positions(user_id, status, open_time);
+CREATE INDEX IF NOT EXISTS idx_paper_positions_status ON paper_positions(status);
+
+-- Paper trading: исполнения (открытие/закрытие позиции)
+CREATE TABLE IF NOT EXISTS paper_fills (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    position_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    price REAL NOT NULL,
+    qty REAL NOT NULL,
+    fee REAL NOT NULL DEFAULT 0,
+    reason TEXT NOT NULL,
+    time INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_paper_fills_user ON paper_fills(user_id, time);
+
+-- Live-позиции OKX под управлением positionManager (частичный TP, безубыток, трейлинг SL-ордера)
+-- amount/remaining — в контрактах ccxt; sl_algo_id — id стоп-ордера на бирже
+CREATE TABLE IF NOT EXISTS live_positions (
+    id TEXT PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    use_testnet INTEGER NOT NULL DEFAULT 1,
+    leverage INTEGER NOT NULL,
+    entry_price REAL NOT NULL,
+    amount REAL NOT NULL,
+    remaining REAL NOT NULL,
+    stop_loss REAL,
+    take_profit TEXT,
+    tp_filled INTEGER NOT NULL DEFAULT 0,
+    trail_step_pct REAL NOT NULL,
+    activation_profit_pct REAL NOT NULL,
+    breakeven INTEGER NOT NULL DEFAULT 0,
+    sl_algo_id TEXT,
+    last_price REAL NOT NULL,
+    realized_pnl REAL NOT NULL DEFAULT 0,
+    signal_id TEXT,
+    close_reason TEXT,
+    open_time INTEGER NOT NULL,
+    close_time INTEGER,
+    user_id TEXT,
+    exchange TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_live_positions_status ON live_positions(status, open_time);
+
+-- Входы autoTrader: market или лимитная/post-only лесенка в зоне пробоя; orders — JSON ордеров лесенки,
+-- ref_price — рыночная цена в момент входа (сравнение цены исполнения с маркет-входом)
+CREATE TABLE IF NOT EXISTS entry_orders (
+    id TEXT PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+    mode TEXT NOT NULL CHECK (mode IN ('market', 'limit', 'post_only')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done')),
+    outcome TEXT,
+    use_testnet INTEGER NOT NULL DEFAULT 1,
+    leverage INTEGER NOT NULL,
+    orders TEXT NOT NULL,
+    requested REAL NOT NULL,
+    filled REAL NOT NULL DEFAULT 0,
+    avg_price REAL,
+    ref_price REAL NOT NULL,
+    invalidation_price REAL,
+    expires_at INTEGER,
+    signal TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    closed_at INTEGER,
+    user_id TEXT,
+    exchange TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_entry_orders_status ON entry_orders(status, created_at);
+
+-- Прогоны сверки ордеров с OKX; summary — JSON итогов прогона
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at INTEGER NOT NULL,
+    finished_at INTEGER NOT NULL,
+    since INTEGER NOT NULL,
+    ok INTEGER NOT NULL,
+    error TEXT,
+    summary TEXT
+);
+
+-- Журнал действий администратора (kill switch, re-arm); details — JSON
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    time INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    details TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_audit_log_time ON audit_log(time);
+
+-- Ключи бирж пользователей (счёт исполнения: пользователь + биржа + демо/реальный);
+-- api_key / secret / passphrase зашифрованы (lib/secretBox, CREDENTIALS_SECRET), key_hint — последние символы API key
+CREATE TABLE IF NOT EXISTS exchange_credentials (
+    user_id TEXT NOT NULL,
+    exchange TEXT NOT NULL,
+    use_testnet INTEGER NOT NULL,
+    api_key TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    passphrase TEXT,
+    key_hint TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, exchange, use_testnet)
+);
+
+-- Сессии авто-торговли (services/autoTradingSessions): владелец, конфиг (JSON: символы, таймфрейм, режим, исполнение), статус
+CREATE TABLE IF NOT EXISTS auto_trading_sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    name TEXT NOT NULL,
+    config TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    last_run_at INTEGER,
+    last_error TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_auto_trading_sessions_user ON auto_trading_sessions(user_id);
+
+-- Журнал сессии авто-торговли: циклы, ошибки, исполнение; level = signal — поток сигналов сессии (details — JSON)
+CREATE TABLE IF NOT EXISTS auto_trading_session_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    time INTEGER NOT NULL,
+    level TEXT NOT NULL,
+    message TEXT NOT NULL,
+    details TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_auto_trading_session_logs ON auto_trading_session_logs(session_id, id);
+
+-- Подавленные сигналы (services/signalGate): повтор того же символа и направления в окне без существенных изменений
+CREATE TABLE IF NOT EXISTS signal_suppressions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    time INTEGER NOT NULL,
+    signal_id TEXT NOT NULL,
+    pair TEXT NOT NULL,
+    exchange TEXT,
+    direction TEXT NOT NULL,
+    confidence REAL NOT NULL,
+    entry_price REAL NOT NULL,
+    reason TEXT NOT NULL,
+    duplicate_of TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_signal_suppressions_time ON signal_suppressions(time);
+
+-- Правиловые стратегии (services/ruleStrategies): определение на JSON-DSL, компилируется в стратегию реестра
+CREATE TABLE IF NOT EXISTS rule_strategies (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    definition TEXT NOT NULL,
+    created_by TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
@@ -18,22 +18,38 @@ import { config } from './config';
 import { logger } from './lib/logger';
 import { errorHandler } from './middleware/errorHandler';
 import signalsRouter from './routes/signals';
-import marketRouter from './routes/market';
+import marketRouter, { runSessionCycle } from './routes/market';
 import mlRouter from './routes/ml';
 import connectionsRouter from './routes/connections';
 import notifyRouter from './routes/notify';
 import scannerRouter from './routes/scanner';
 import tradingRouter from './routes/trading';
 import backtestRouter from './routes/backtest';
+import datasetsRouter from './routes/datasets';
 import ordersRouter from './routes/orders';
 import authRouter from './routes/auth';
 import statsRouter from './routes/stats';
 import adminRouter from './routes/admin';
+import paperRouter from './routes/paper';
+import accountsRouter from './routes/accounts';
+import autoSessionsRouter from './routes/autoSessions';
+import strategiesRouter from './routes/strategies';
 import { createWebSocketServer, getBroadcastBreakout } from './websocket';
 import { initDb, isMemoryStore } from './db';
 import { seedDefaultAdmin } from './db/seed';
 import { notifyBreakoutAlert } from './services/notificationService';
 import { startBreakoutMonitor } from './services/breakoutMonitor';
+import { paperTrading } from './services/paperTrading';
+import { positionManager } from './services/positionManager';
+import { riskGate } from './services/riskGate';
+import { killSwitch } from './services/killSwitch';
+import { entryOrders } from './services/entryOrders';
+import { orderReconciler } from './services/orderReconciliation';
+import { autoTradingSessions } from './services/autoTradingSessions';
+import { marketCompare } from './services/marketCompare';
+import { signalTracker } from './services/signalTracker';
+import { signalGate } from './services/signalGate';
+import { ruleStrategies } from './services/ruleStrategies';
 
 const app = express();
 const server = createServer(app);
@@ -65,10 +81,15 @@ app.use('/api/notify', notifyRouter);
 app.use('/api/scanner', scannerRouter);
 app.use('/api/trading', tradingRouter);
 app.use('/api/backtest', backtestRouter);
+app.use('/api/datasets', datasetsRouter);
 app.use('/api/orders', ordersRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/stats', statsRouter);
 app.use('/api/admin', adminRouter);
+app.use('/api/paper', paperRouter);
+app.use('/api/accounts', accountsRouter);
+app.use('/api/auto-sessions', autoSessionsRouter);
+app.use('/api/strategies', strategiesRouter);
 
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', service: 'CryptoSignal Pro API', exchange: 'OKX' });
@@ -123,6 +144,17 @@ if (frontendPath) {
 export async function startServer(port: number = config.port): Promise<void> {
   initDb();
   seedDefaultAdmin();
+  paperTrading.init();
+  killSwitch.init();
+  riskGate.init();
+  positionManager.init();
+  entryOrders.init();
+  orderReconciler.init();
+  ruleStrategies.init();
+  autoTradingSessions.init(runSessionCycle);
+  marketCompare.init();
+  signalTracker.init();
+  signalGate.init();
   logger.info('Server', isMemoryStore() ? 'Database: in-memory (native SQLite unavailable)' : 'Database: SQLite initialized');
   return new Promise((resolve) => {
     server.listen(port, () => {
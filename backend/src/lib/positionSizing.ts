@@ -0,0 +1,130 @@
+/**
+ * Размер позиции для исполнения на бирже (autoTrader.executeSignal)
+ * - fixed — доля баланса как маржа
+ * - risk — риск % депозита на дистанцию стопа (Schwager, calcPositionSizeFromRisk)
+ * - volatility — fixed × множитель волатильности (Sinclair, volatilitySizeMultiplier)
+ * - kelly — риск = доля Келли по уверенности и R:R сигнала, не выше RISK_MAX_PCT
+ * Маржа не больше MAX_SINGLE_ASSET_PCT баланса; объём — в контрактах с шагом лота и минимумами рынка.
+ */
+
+import { calcPositionSizeFromRisk, MAX_SINGLE_ASSET_PCT, RISK_MAX_PCT, RISK_PCT_PER_TRADE } from './tradingPrinciples';
+
+export type SizingMode = 'fixed' | 'risk' | 'volatility' | 'kelly';
+
+export const SIZING_MODES: SizingMode[] = ['fixed', 'risk', 'volatility', 'kelly'];
+
+/** Доля Келли по умолчанию — половина (полный Келли слишком агрессивен) */
+export const DEFAULT_KELLY_FRACTION = 0.5;
+
+export interface SizingParams {
+  mode: SizingMode;
+  /** Доля баланса на маржу (0–100) — fixed, volatility */
+  sizePercent: number;
+  /** Риск на сделку, % депозита — risk */
+  riskPercent?: number;
+  /** Доля Келли (0–1) — kelly */
+  kellyFraction?: number;
+  leverage: number;
+}
+
+export interface SizingInput {
+  balance: number;
+  entryPrice: number;
+  stopLoss: number;
+  /** Уверенность сигнала 0–1 (вероятность выигрыша для Келли) */
+  confidence: number;
+  riskReward: number;
+  /** volatilitySizeMultiplier из breakdown анализа */
+  volatilityMultiplier?: number;
+}
+
+/** Метаданные рынка OKX: размер контракта, шаг лота, минимальный объём и номинал */
+export interface MarketLimits {
+  contractSize: number;
+  amountStep: number;
+  minAmount: number;
+  minNotional: number;
+}
+
+export interface PositionSize {
+  /** Объём ордера в контрактах */
+  contracts: number;
+  /** Номинал позиции и маржа, USDT */
+  notional: number;
+  margin: number;
+  /** Потеря при срабатывании стопа, USDT */
+  riskUsd: number;
+  /** Урезано лимитом MAX_SINGLE_ASSET_PCT */
+  capped: boolean;
+}
+
+/** Келли: f = p − (1 − p) / R */
+export function kellyFraction(winProbability: number, riskReward: number): number {
+  if (!(riskReward > 0)) return 0;
+  return winProbability - (1 - winProbability) / riskReward;
+}
+
+function floorToStep(value: number, step: number): number {
+  if (!(step > 0)) return value;
+  // Поправка на погрешность float (0.3 / 0.1 = 2.9999999999999996)
+  return Number((Math.floor(value / step + 1e-9) * step).toPrecision(12));
+}
+
+export function calcOrderSize(
+  params: SizingParams,
+  input: SizingInput,
+  limits: MarketLimits
+): { ok: true; data: PositionSize } | { ok: false; error: string } {
+  const { balance, entryPrice, stopLoss } = input;
+  if (!(balance > 0) || !(entryPrice > 0)) return { ok: false, error: 'Invalid balance or entry price' };
+  const leverage = Math.max(1, params.leverage);
+  const stopPct = stopLoss > 0 ? Math.abs(entryPrice - stopLoss) / entryPrice : 0;
+
+  let notional: number;
+  switch (params.mode) {
+    case 'fixed':
+      notional = ((balance * params.sizePercent) / 100) * leverage;
+      break;
+    case 'volatility':
+      notional = ((balance * params.sizePercent) / 100) * leverage * (input.volatilityMultiplier ?? 1);
+      break;
+    case 'risk': {
+      const riskPct = (params.riskPercent ?? RISK_PCT_PER_TRADE * 100) / 100;
+      notional = calcPositionSizeFromRisk(balance, entryPrice, stopLoss, riskPct).sizeUsd;
+      if (!(notional > 0)) return { ok: false, error: 'Risk sizing needs a stop loss away from entry' };
+      break;
+    }
+    case 'kelly': {
+      const kelly = kellyFraction(input.confidence, input.riskReward);
+      if (!(kelly > 0)) return { ok: false, error: `Kelly fraction ${kelly.toFixed(3)} ≤ 0: no edge` };
+      const riskPct = Math.min(kelly * (params.kellyFraction ?? DEFAULT_KELLY_FRACTION), RISK_MAX_PCT);
+      notional = calcPositionSizeFromRisk(balance, entryPrice, stopLoss, riskPct).sizeUsd;
+      if (!(notional > 0)) return { ok: false, error: 'Kelly sizing needs a stop loss away from entry' };
+      break;
+    }
+  }
+
+  const maxNotional = balance * MAX_SINGLE_ASSET_PCT * leverage;
+  const capped = notional > maxNotional;
+  if (capped) notional = maxNotional;
+
+  const contractValue = entryPrice * (limits.contractSize > 0 ? limits.contractSize : 1);
+  const contracts = floorToStep(notional / contractValue, limits.amountStep);
+  if (!(contracts > 0) || contracts < limits.minAmount) {
+    return { ok: false, error: `Position size below exchange minimum (${limits.minAmount} contracts)` };
+  }
+  const finalNotional = contracts * contractValue;
+  if (limits.minNotional > 0 && finalNotional < limits.minNotional) {
+    return { ok: false, error: `Position notional ${finalNotional.toFixed(2)} below exchange minimum ${limits.minNotional}` };
+  }
+  return {
+    ok: true,
+    data: {
+      contracts,
+      notional: finalNotional,
+      margin: finalNotional / leverage,
+      riskUsd: finalNotional * stopPct,
+      capped
+    }
+  };
+}
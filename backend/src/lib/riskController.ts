@@ -26,13 +26,22 @@ export const DEFAULT_RISK_CONFIG: RiskConfig = {
   minBalanceCritical: 50
 };
 
+/** Счётчики дневных сделок — для сохранения между перезапусками */
+export interface RiskControllerState {
+  dailyTradeCount: Record<string, number>;
+  lastTradeDate: string | null;
+}
+
 export class RiskController {
   private config: RiskConfig;
   private dailyTradeCount: Record<string, number> = {};
   private lastTradeDate: string | null = null;
+  /** Источник времени (ms): Date.now, в бэктесте — время бара */
+  private now: () => number;
 
-  constructor(config?: Partial<RiskConfig>) {
+  constructor(config?: Partial<RiskConfig>, now: () => number = Date.now) {
     this.config = { ...DEFAULT_RISK_CONFIG, ...config };
+    this.now = now;
   }
 
   /** Проверка лимита позиций */
@@ -52,7 +61,7 @@ export class RiskController {
 
   /** Проверка дневного лимита сделок (crypto-trading-open) */
   checkDailyTradeLimit(): { ok: boolean; reason?: string; count?: number } {
-    const today = new Date().toISOString().slice(0, 10);
+    const today = new Date(this.now()).toISOString().slice(0, 10);
     if (this.lastTradeDate !== today) {
       this.dailyTradeCount = {};
       this.lastTradeDate = today;
@@ -66,7 +75,7 @@ export class RiskController {
 
   /** Записать сделку */
   recordTrade(): void {
-    const today = new Date().toISOString().slice(0, 10);
+    const today = new Date(this.now()).toISOString().slice(0, 10);
     this.dailyTradeCount[today] = (this.dailyTradeCount[today] ?? 0) + 1;
     this.lastTradeDate = today;
   }
@@ -75,8 +84,7 @@ export class RiskController {
   checkPositionDuration(openTime: Date): { ok: boolean; hours?: number; reason?: string } {
     const maxHours = this.config.maxPositionDurationHours;
     if (maxHours <= 0) return { ok: true };
-    const now = new Date();
-    const hours = (now.getTime() - openTime.getTime()) / (1000 * 3600);
+    const hours = (this.now() - openTime.getTime()) / (1000 * 3600);
     if (hours > maxHours) {
       return { ok: false, hours, reason: `position_duration: ${hours.toFixed(1)}h > ${maxHours}h` };
     }
@@ -104,4 +112,13 @@ export class RiskController {
   getConfig(): RiskConfig {
     return { ...this.config };
   }
+
+  getState(): RiskControllerState {
+    return { dailyTradeCount: { ...this.dailyTradeCount }, lastTradeDate: this.lastTradeDate };
+  }
+
+  restoreState(state: Partial<RiskControllerState>): void {
+    if (state.dailyTradeCount && typeof state.dailyTradeCount === 'object') this.dailyTradeCount = { ...state.dailyTradeCount };
+    if (typeof state.lastTradeDate === 'string') this.lastTradeDate = state.lastTradeDate;
+  }
 }
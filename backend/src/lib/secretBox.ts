@@ -0,0 +1,39 @@
+/**
+ * Шифрование секретов в БД (ключи бирж пользователей): AES-256-GCM, ключ — scrypt от CREDENTIALS_SECRET.
+ * Формат: v1:<iv>:<tag>:<ciphertext> (base64).
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+
+const VERSION = 'v1';
+const SALT = 'cryptosignal-credentials';
+
+let cachedKey: { secret: string; key: Buffer } | null = null;
+
+function getKey(): Buffer {
+  const secret = config.credentialsSecret;
+  if (!secret) throw new Error('CREDENTIALS_SECRET not set');
+  if (cachedKey?.secret !== secret) cachedKey = { secret, key: crypto.scryptSync(secret, SALT, 32) };
+  return cachedKey.key;
+}
+
+export function isSecretBoxConfigured(): boolean {
+  return Boolean(config.credentialsSecret);
+}
+
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+}
+
+/** Расшифровать; ошибка при неверном ключе или повреждённых данных */
+export function decryptSecret(box: string): string {
+  const [version, iv, tag, data] = box.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) throw new Error('Unsupported secret format');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -1,10 +1,11 @@
 /**
- * OKX symbol normalization — single source of truth.
- * OKX futures: BTC-USDT-SWAP, instId: BTC-USDT-SWAP
+ * Symbol normalization — single source of truth.
+ * Internal: BTC-USDT; OKX futures: BTC-USDT-SWAP, instId: BTC-USDT-SWAP
+ * Символы остальных бирж — services/exchangeAdapters.ts
  */
 
 /** Маппинг символов для OKX (переименования/отсутствующие пары) */
-const OKX_SYMBOL_MAP: Record<string, string> = {
+export const OKX_SYMBOL_MAP: Record<string, string> = {
   MATIC: 'POL' // Polygon rebrand на OKX
 };
 
@@ -20,16 +21,23 @@ export function normalizeSymbol(symbol: string): string {
 }
 
 /**
- * Convert to OKX ccxt format: BTC/USDT:USDT (с учётом маппинга для OKX)
+ * Convert to ccxt USDT-M perpetual format: BTC/USDT:USDT (baseMap — переименования базы на бирже)
  */
-export function toOkxCcxtSymbol(symbol: string): string {
+export function toCcxtSwapSymbol(symbol: string, baseMap: Record<string, string> = {}): string {
   const s = normalizeSymbol(symbol);
   if (!s || !s.includes('-')) return '';
   let [base, quote] = s.split('-');
-  base = OKX_SYMBOL_MAP[base] ?? base;
+  base = baseMap[base] ?? base;
   return `${base}/${quote}:USDT`;
 }
 
+/**
+ * Convert to OKX ccxt format: BTC/USDT:USDT (с учётом маппинга для OKX)
+ */
+export function toOkxCcxtSymbol(symbol: string): string {
+  return toCcxtSwapSymbol(symbol, OKX_SYMBOL_MAP);
+}
+
 /**
  * Convert to OKX WebSocket instId: BTC-USDT-SWAP
  */
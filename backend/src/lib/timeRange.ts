@@ -0,0 +1,12 @@
+/**
+ * Разбор границ периода из query/body: ms (число или строка из цифр) либо ISO-дата
+ */
+
+export function parseTimestamp(value: unknown): number | undefined {
+  if (value == null || value === '') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const s = String(value).trim();
+  if (/^\d+$/.test(s)) return Number(s);
+  const t = Date.parse(s);
+  return Number.isFinite(t) ? t : undefined;
+}
@@ -0,0 +1,95 @@
+/**
+ * Счета исполнения пользователя — ключи бирж на сервере (зашифрованы, services/exchangeCredentials).
+ * Секреты в ответах не возвращаются; баланс и позиции счёта — GET /api/trading/positions с Bearer-токеном.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './auth';
+import {
+  parseCredentials,
+  saveUserCredentials,
+  listUserCredentials,
+  removeUserCredentials
+} from '../services/exchangeCredentials';
+import { buildExchange, dropTradingExchanges } from '../services/tradingExchange';
+import { parseExchangeId, getExchangeAdapter } from '../services/exchangeAdapters';
+import { isSecretBoxConfigured } from '../lib/secretBox';
+import { config } from '../config';
+import { logger } from '../lib/logger';
+
+const router = Router();
+
+router.use(requireAuth);
+
+function userIdOf(req: Request): string {
+  return (req as any).userId as string;
+}
+
+function parseTestnet(raw: unknown): boolean {
+  return raw !== false && raw !== 'false';
+}
+
+/** GET /api/accounts — сохранённые ключи (биржа, демо/реальный, последние символы key) */
+router.get('/', (req: Request, res: Response) => {
+  res.json({
+    encryptionConfigured: isSecretBoxConfigured(),
+    executionEnabled: config.autoTradingExecutionEnabled,
+    accounts: listUserCredentials(userIdOf(req))
+  });
+});
+
+/**
+ * PUT /api/accounts/:exchange — сохранить ключи биржи (okx, bingx, binance, bybit).
+ * Body: { apiKey, secret, passphrase (OKX), useTestnet }. Перед сохранением ключи проверяются запросом баланса.
+ */
+router.put('/:exchange', async (req: Request, res: Response) => {
+  const exchange = parseExchangeId(req.params.exchange);
+  if (!exchange.ok) {
+    res.status(400).json({ error: exchange.error });
+    return;
+  }
+  const parsed = parseCredentials(req.body, exchange.data);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  if (!isSecretBoxConfigured()) {
+    res.status(400).json({ error: 'CREDENTIALS_SECRET not set on server' });
+    return;
+  }
+  const userId = userIdOf(req);
+  const useTestnet = parseTestnet(req.body?.useTestnet);
+  try {
+    await buildExchange(useTestnet, parsed.data, exchange.data).fetchBalance();
+  } catch (e) {
+    res.status(400).json({ error: `${getExchangeAdapter(exchange.data).name}: ${(e as Error).message}` });
+    return;
+  }
+  try {
+    const saved = saveUserCredentials(userId, exchange.data, useTestnet, parsed.data);
+    if (!saved.ok) {
+      res.status(400).json({ error: saved.error });
+      return;
+    }
+    dropTradingExchanges(userId);
+    res.json({ ok: true, account: saved.data });
+  } catch (e) {
+    logger.error('Accounts', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/accounts/:exchange?useTestnet=true|false — удалить ключи счёта */
+router.delete('/:exchange', (req: Request, res: Response) => {
+  const exchange = parseExchangeId(req.params.exchange);
+  if (!exchange.ok) {
+    res.status(400).json({ error: exchange.error });
+    return;
+  }
+  const userId = userIdOf(req);
+  const removed = removeUserCredentials(userId, exchange.data, parseTestnet(req.query.useTestnet));
+  dropTradingExchanges(userId);
+  res.json({ ok: true, removed });
+});
+
+export default router;
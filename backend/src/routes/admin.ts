@@ -20,6 +20,12 @@ import {
   unbanUser
 } from '../db/authDb';
 import { getSignals } from './signals';
+import { orderReconciler, MAX_LOOKBACK_DAYS } from '../services/orderReconciliation';
+import { killSwitch } from '../services/killSwitch';
+import { riskGate, parseRiskConfig } from '../services/riskGate';
+import { signalGate, parseSignalGateConfig } from '../services/signalGate';
+import { marketCompare, parseCompareConfig } from '../services/marketCompare';
+import { autoTradingSessions } from '../services/autoTradingSessions';
 import { logger, getRecentLogs } from '../lib/logger';
 
 const router = Router();
@@ -74,7 +80,7 @@ router.get('/system/status', requireAdmin, async (_req: Request, res: Response)
 /** POST /api/admin/trading/stop — остановить авто-торговлю */
 router.post('/trading/stop', requireAdmin, (_req: Request, res: Response) => {
   try {
-    stopAutoAnalyze();
+    stopAutoAnalyze(undefined, 'Stopped by admin');
     res.json({ ok: true, status: 'stopped' });
   } catch (e) {
     logger.error('Admin', (e as Error).message);
@@ -82,23 +88,93 @@ router.post('/trading/stop', requireAdmin, (_req: Request, res: Response) => {
   }
 });
 
-/** POST /api/admin/trading/emergency — экстренная остановка (стоп анализа + сброс эмоц. фильтра не делаем по умолчанию) */
-router.post('/trading/emergency', requireAdmin, (_req: Request, res: Response) => {
+/**
+ * POST /api/admin/trading/emergency — kill switch: стоп авто-анализа, снятие ордеров и закрытие позиций,
+ * которые ведёт бот (reduce-only маркетом), блокировка исполнения до re-arm.
+ * Body: { reason?, useTestnet? } — useTestnet: закрыть весь серверный счёт OKX (демо / реальный), все ордера и позиции
+ */
+router.post('/trading/emergency', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    stopAutoAnalyze(undefined, 'Kill switch engaged');
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 200) : undefined;
+    const accounts = typeof req.body?.useTestnet === 'boolean' ? [{ exchange: 'okx' as const, userId: null, useTestnet: req.body.useTestnet }] : undefined;
+    const report = await killSwitch.engage({ actor: `admin@${req.ip}`, reason, accounts });
+    res.json({ ok: true, status: 'emergency_stop', report });
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** POST /api/admin/trading/rearm — снова разрешить исполнение после kill switch */
+router.post('/trading/rearm', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const result = killSwitch.rearm({ actor: `admin@${req.ip}` });
+    if (!result.ok) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+    res.json({ ok: true, state: result.data });
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * PUT /api/admin/trading/risk — изменить лимиты RiskController (частично); действуют на все аккаунты
+ * Body: { maxPositionsTotal?, maxPositionsPerSymbol?, maxDailyTrades?, maxPositionDurationHours?, minBalanceWarning?, minBalanceCritical? }
+ */
+router.put('/trading/risk', requireAdmin, (req: Request, res: Response) => {
   try {
-    stopAutoAnalyze();
-    res.json({ ok: true, status: 'emergency_stop' });
+    const parsed = parseRiskConfig(req.body);
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    res.json(riskGate.updateConfig(parsed.data));
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/admin/trading/kill-switch — состояние kill switch и журнал срабатываний */
+router.get('/trading/kill-switch', requireAdmin, (_req: Request, res: Response) => {
+  try {
+    res.json({ state: killSwitch.status(), audit: killSwitch.audit() });
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/admin/trading/sessions — сессии авто-торговли всех владельцев */
+router.get('/trading/sessions', requireAdmin, (_req: Request, res: Response) => {
+  try {
+    res.json({ sessions: autoTradingSessions.list(), counts: autoTradingSessions.status() });
   } catch (e) {
     logger.error('Admin', (e as Error).message);
     res.status(500).json({ error: (e as Error).message });
   }
 });
 
+/** POST /api/admin/trading/sessions/:id/stop — остановить сессию любого владельца */
+router.post('/trading/sessions/:id/stop', requireAdmin, (req: Request, res: Response) => {
+  const result = autoTradingSessions.stop(req.params.id, undefined, 'Stopped by admin');
+  if (!result.ok) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  res.json({ ok: true, session: result.data });
+});
+
 /** GET /api/admin/trades/history — история сделок из БД */
 router.get('/trades/history', requireAdmin, (req: Request, res: Response) => {
   try {
     const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
     const clientId = req.query.clientId as string | undefined;
-    const orders = listOrders({ clientId, status: 'closed', limit });
+    const orders = listOrders({ clientId, status: 'closed', preferExchange: !clientId, limit });
     const history = orders.map((o) => ({
       id: o.id,
       clientId: o.client_id,
@@ -114,7 +190,12 @@ router.get('/trades/history', requireAdmin, (req: Request, res: Response) => {
       pnlPercent: o.pnl_percent,
       openTime: o.open_time,
       closeTime: o.close_time,
-      status: o.status
+      status: o.status,
+      source: o.source,
+      fee: o.fee,
+      funding: o.funding,
+      reconStatus: o.recon_status,
+      reconNote: o.recon_note
     }));
     res.json(history);
   } catch (e) {
@@ -135,11 +216,47 @@ router.get('/signals/history', requireAdmin, (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/admin/signals/gate — изменить фильтр повторов сигналов (частично); действует на все сессии
+ * Body: { enabled?, windowMinutes?, minConfidenceDelta?, minEntryChangePct? }
+ */
+router.put('/signals/gate', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const parsed = parseSignalGateConfig(req.body);
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    res.json(signalGate.updateConfig(parsed.data));
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * PUT /api/admin/market/compare-alerts — изменить пороги алертов расхождения бирж (частично)
+ * Body: { priceSpreadPct?, fundingDiff?, basisPct?, cooldownMinutes?, watchSymbols?, watchIntervalSec? }
+ */
+router.put('/market/compare-alerts', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const parsed = parseCompareConfig(req.body);
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    res.json(marketCompare.updateConfig(parsed.data));
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
 /** GET /api/admin/analytics — аналитика по ордерам */
 router.get('/analytics', requireAdmin, (req: Request, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 500;
-    const orders = listOrders({ status: 'closed', limit });
+    const orders = listOrders({ status: 'closed', preferExchange: true, limit });
     const withPnl = orders.filter((o) => o.close_price != null && o.close_price > 0 && o.pnl != null);
     const wins = withPnl.filter((o) => (o.pnl ?? 0) > 0);
     const losses = withPnl.filter((o) => (o.pnl ?? 0) < 0);
@@ -167,6 +284,36 @@ router.get('/analytics', requireAdmin, (req: Request, res: Response) => {
   }
 });
 
+/** GET /api/admin/reconciliation — отчёт сверки ордеров с OKX */
+router.get('/reconciliation', requireAdmin, (_req: Request, res: Response) => {
+  try {
+    res.json(orderReconciler.report());
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** POST /api/admin/reconciliation/run — запустить сверку сейчас; body.days — окно назад (по умолчанию с прошлого прогона) */
+router.post('/reconciliation/run', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const days = req.body?.days != null ? Number(req.body.days) : undefined;
+    if (days != null && (!Number.isFinite(days) || days <= 0 || days > MAX_LOOKBACK_DAYS)) {
+      res.status(400).json({ error: `days: 1–${MAX_LOOKBACK_DAYS}` });
+      return;
+    }
+    const result = await orderReconciler.run({ days });
+    if (!result.ok) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+    res.json(result.data);
+  } catch (e) {
+    logger.error('Admin', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
 /** GET /api/admin/logs — последние логи сервера из буфера */
 router.get('/logs', requireAdmin, (req: Request, res: Response) => {
   try {
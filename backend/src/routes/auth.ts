@@ -44,6 +44,12 @@ function getBearerToken(req: Request): string | null {
   return auth.slice(7).trim() || null;
 }
 
+/** userId по Bearer-токену, если он передан и действителен (необязательная авторизация) */
+export function getRequestUserId(req: Request): string | null {
+  const token = getBearerToken(req);
+  return token ? findSessionUserId(token) : null;
+}
+
 export function requireAuth(req: Request, res: Response, next: () => void): void {
   const token = getBearerToken(req);
   if (!token) {
@@ -0,0 +1,110 @@
+/**
+ * Сессии авто-торговли (services/autoTradingSessions): несколько одновременных сессий владельца.
+ * Владелец — пользователь по Bearer-токену или анонимный клиент; чужие сессии не видны (404).
+ * Поток событий сессии — WebSocket { type: 'subscribe_auto_session', sessionId, token? }.
+ */
+
+import { Router, Request, Response } from 'express';
+import { autoTradingSessions, parseSessionConfig, AutoSessionLogLevel } from '../services/autoTradingSessions';
+import { getRequestUserId } from './auth';
+
+const router = Router();
+
+const LOG_LEVELS: AutoSessionLogLevel[] = ['info', 'warn', 'error', 'signal'];
+
+function sendResult<T>(res: Response, result: { ok: true; data: T } | { ok: false; error: string }): void {
+  if (!result.ok) {
+    res.status(result.error === 'Session not found' ? 404 : 400).json({ error: result.error });
+    return;
+  }
+  res.json({ ok: true, session: result.data });
+}
+
+/** GET /api/auto-sessions — сессии владельца */
+router.get('/', (req: Request, res: Response) => {
+  res.json({ sessions: autoTradingSessions.list(getRequestUserId(req)) });
+});
+
+/**
+ * POST /api/auto-sessions — создать и запустить сессию.
+ * Body: { name?, symbols, timeframe?, mode?, intervalMs?, fullAuto?, useScanner?,
+ *   execution?: { executeOrders, useTestnet, maxPositions, sizePercent, leverage, entryMode, ladderSteps, sizingMode, riskPercent, kellyFraction } }
+ */
+router.post('/', (req: Request, res: Response) => {
+  const parsed = parseSessionConfig(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const name = typeof req.body?.name === 'string' ? req.body.name : undefined;
+  sendResult(res, autoTradingSessions.create(getRequestUserId(req), parsed.data, name));
+});
+
+/** GET /api/auto-sessions/:id */
+router.get('/:id', (req: Request, res: Response) => {
+  const session = autoTradingSessions.get(req.params.id, getRequestUserId(req));
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  res.json({ session });
+});
+
+/** POST /api/auto-sessions/:id/start — запустить остановленную или приостановленную; body с настройками заменяет конфиг */
+router.post('/:id/start', (req: Request, res: Response) => {
+  let sessionConfig;
+  if (req.body && Object.keys(req.body).length > 0) {
+    const parsed = parseSessionConfig(req.body);
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    sessionConfig = parsed.data;
+  }
+  sendResult(res, autoTradingSessions.start(req.params.id, getRequestUserId(req), sessionConfig));
+});
+
+/** POST /api/auto-sessions/:id/pause */
+router.post('/:id/pause', (req: Request, res: Response) => {
+  sendResult(res, autoTradingSessions.pause(req.params.id, getRequestUserId(req)));
+});
+
+/** POST /api/auto-sessions/:id/stop — позиции и ордера на бирже остаются */
+router.post('/:id/stop', (req: Request, res: Response) => {
+  sendResult(res, autoTradingSessions.stop(req.params.id, getRequestUserId(req)));
+});
+
+/** DELETE /api/auto-sessions/:id — удалить остановленную сессию вместе с журналом */
+router.delete('/:id', (req: Request, res: Response) => {
+  const result = autoTradingSessions.remove(req.params.id, getRequestUserId(req));
+  if (!result.ok) {
+    res.status(result.error === 'Session not found' ? 404 : 400).json({ error: result.error });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+/** GET /api/auto-sessions/:id/logs?level=warn,error&limit= — журнал сессии (новые первыми) */
+router.get('/:id/logs', (req: Request, res: Response) => {
+  if (!autoTradingSessions.get(req.params.id, getRequestUserId(req))) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  const levels = String(req.query.level ?? '')
+    .split(',')
+    .filter((l): l is AutoSessionLogLevel => LOG_LEVELS.includes(l as AutoSessionLogLevel));
+  const limit = parseInt(String(req.query.limit)) || 100;
+  res.json({ logs: autoTradingSessions.logs(req.params.id, { levels, limit }) });
+});
+
+/** GET /api/auto-sessions/:id/signals?limit= — сигналы сессии (новые первыми) */
+router.get('/:id/signals', (req: Request, res: Response) => {
+  if (!autoTradingSessions.get(req.params.id, getRequestUserId(req))) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  const limit = Math.min(parseInt(String(req.query.limit)) || 50, 500);
+  res.json({ signals: autoTradingSessions.signals(req.params.id, limit) });
+});
+
+export default router;
@@ -1,15 +1,265 @@
 /**
- * Backtest API — запуск бэктеста по историческим данным
+ * Backtest API — запуск бэктеста по историческим данным, сохранённые прогоны и их сравнение,
+ * сравнение стратегий на одних данных
  */
 
 import { Router, Request, Response } from 'express';
-import { DataAggregator } from '../services/dataAggregator';
-import { runBacktest } from '../services/backtester';
+import { DataAggregator, getDataAggregator } from '../services/dataAggregator';
+import { parseExchangeId } from '../services/exchangeAdapters';
+import {
+  runBacktest,
+  BacktestMarketData,
+  BacktestCostModel,
+  FundingPoint,
+  RecordedOrderBook,
+  BacktestParams
+} from '../services/backtester';
+import {
+  optimizeBacktest,
+  countParamSets,
+  OPTIMIZABLE_PARAMS,
+  MAX_OPTIMIZE_RUNS,
+  OptimizeObjective,
+  ParamRange,
+  ParamSpace,
+  WalkForwardConfig
+} from '../services/backtestOptimizer';
+import { runPortfolioBacktest, PortfolioSymbolData, EmotionalFilterOptions } from '../services/portfolioBacktester';
+import { CoinScanner } from '../services/coinScanner';
+import { MtfTimeframe, MTF_LIMITS, TIMEFRAME_MS } from '../services/analysisPipeline';
+import {
+  Strategy,
+  StrategyParams,
+  parseStrategySelection,
+  strategyLookback,
+  supportsTimeframe
+} from '../services/strategies';
+import { RiskConfig } from '../lib/riskController';
+import { TradeInput } from '../services/marketAnalysis';
+import { OHLCVCandle } from '../types/candle';
+import { config } from '../config';
 import { normalizeSymbol } from '../lib/symbol';
 import { logger } from '../lib/logger';
+import { parseTimestamp } from '../lib/timeRange';
+import { isStoredTimeframe } from '../services/candleStore';
+import { loadDatasetForBacktest } from '../services/datasetImport';
+import { runMonteCarlo, MonteCarloOptions, MAX_MONTE_CARLO_ITERATIONS } from '../services/backtestRobustness';
+import {
+  saveBacktestRun,
+  listRuns,
+  getRun,
+  removeRun,
+  compareRuns,
+  runEquityCurve,
+  tradesToCsv
+} from '../services/backtestRuns';
 
 const router = Router();
-const dataAgg = new DataAggregator();
+
+/** Свечи TF стратегий (кроме входного), покрывающие период бэктеста + прогрев MTF_LIMITS */
+async function fetchMtfCandles(
+  dataAgg: DataAggregator,
+  symbol: string,
+  timeframe: MtfTimeframe,
+  timeframes: MtfTimeframe[],
+  limit: number,
+  range?: { from: number; to?: number }
+): Promise<BacktestMarketData['mtfCandles']> {
+  const baseMs = TIMEFRAME_MS[timeframe];
+  const others = timeframes.filter((tf) => tf !== timeframe);
+  const series = await Promise.all(
+    others.map((tf) => {
+      const warmup = MTF_LIMITS[tf] ?? 150;
+      if (range) {
+        return dataAgg.getOHLCVRange(symbol, tf, { from: range.from - warmup * TIMEFRAME_MS[tf], to: range.to });
+      }
+      const needed = Math.ceil((limit * baseMs) / TIMEFRAME_MS[tf]) + warmup;
+      return dataAgg.getOHLCV(symbol, tf, Math.min(needed, config.limits.candlesMax));
+    })
+  );
+  const out: BacktestMarketData['mtfCandles'] = {};
+  others.forEach((tf, idx) => {
+    out[tf] = series[idx];
+  });
+  return out;
+}
+
+/** Числовые поля costs с ограничением диапазонов (leverage 1..125, sizePercent 0..100) */
+function parseCosts(raw: unknown): Partial<BacktestCostModel> | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const src = raw as Record<string, unknown>;
+  const out: Partial<BacktestCostModel> = {};
+  const num = (key: keyof BacktestCostModel, min: number, max: number) => {
+    const v = Number(src[key]);
+    if (src[key] != null && Number.isFinite(v)) (out as Record<string, number>)[key] = Math.min(max, Math.max(min, v));
+  };
+  num('makerFee', -0.01, 0.01);
+  num('takerFee', 0, 0.01);
+  num('slippageBps', 0, 500);
+  num('slippageAtrFraction', 0, 5);
+  num('fundingRate', -0.01, 0.01);
+  num('leverage', 1, 125);
+  num('sizePercent', 0, 100);
+  if (typeof src.tpAsMaker === 'boolean') out.tpAsMaker = src.tpAsMaker;
+  return out;
+}
+
+interface BacktestRequestBody {
+  symbol?: string;
+  /** Биржа свечей (okx | bingx | binance | bybit, по умолчанию OKX) */
+  exchange?: string;
+  datasetId?: string;
+  /** id стратегии (GET /api/strategies), default "default" */
+  strategy?: string;
+  /** Переопределения параметров стратегии */
+  strategyParams?: StrategyParams;
+  timeframe?: string;
+  mode?: string;
+  limit?: number;
+  from?: number | string;
+  to?: number | string;
+  initialBalance?: number;
+  minConfidence?: number;
+  riskRewardRatio?: number;
+  atrSlMultiplier?: number;
+  tpFractions?: number[];
+  breakevenAfterTp1?: boolean;
+  trailingStop?: boolean;
+  costs?: Partial<BacktestCostModel>;
+  funding?: FundingPoint[];
+  orderBooks?: RecordedOrderBook[];
+  trades?: TradeInput[];
+  /** Сохранить прогон в /api/backtest/runs (default true) */
+  save?: boolean;
+  /** Monte Carlo по сделкам прогона */
+  monteCarlo?: MonteCarloOptions;
+}
+
+type LoadedParams = Partial<BacktestParams> & { symbol: string; timeframe: string };
+
+type LoadedBacktest =
+  | { error: { status: number; body: Record<string, unknown> } }
+  | {
+      candles: OHLCVCandle[];
+      params: LoadedParams;
+      marketData: BacktestMarketData;
+    };
+
+/**
+ * Общий разбор тела /run и /optimize: свечи, MTF, стакан/лента/фандинг, параметры выхода и издержек.
+ * compared — стратегии сравнения: данные грузятся под объединение их требований, в params — первая
+ */
+async function loadBacktest(body: BacktestRequestBody, compared?: Strategy[]): Promise<LoadedBacktest> {
+  const dataset = body.datasetId ? loadDatasetForBacktest(String(body.datasetId)) : null;
+  if (body.datasetId && !dataset) {
+    return { error: { status: 404, body: { error: 'Dataset not found', datasetId: body.datasetId } } };
+  }
+  const exchange = parseExchangeId(body.exchange);
+  if (!exchange.ok) return { error: { status: 400, body: { error: exchange.error } } };
+  const dataAgg = getDataAggregator(exchange.data);
+  const symbol = dataset?.dataset.symbol ?? (normalizeSymbol(body.symbol || 'BTC-USDT') || 'BTC-USDT');
+  let strategies = compared ?? [];
+  let strategyParams: StrategyParams | undefined;
+  if (!compared) {
+    const selection = parseStrategySelection(body.strategy, body.strategyParams);
+    if (!selection.ok) return { error: { status: 400, body: { error: selection.error } } };
+    strategies = [selection.data.strategy];
+    strategyParams = selection.data.params;
+  }
+  const timeframe = dataset?.dataset.timeframe ?? (body.timeframe || (strategies[0].requires.entryTimeframe ?? '15m'));
+  const limit = Math.min(Math.max(body.limit ?? 500, 100), 2000);
+  const tpFractions = Array.isArray(body.tpFractions)
+    ? body.tpFractions.slice(0, 3).map((f) => Math.min(1, Math.max(0, Number(f) || 0)))
+    : undefined;
+
+  const unsupported = strategies.find((s) => !supportsTimeframe(s, timeframe));
+  if (unsupported) {
+    return { error: { status: 400, body: { error: `Strategy ${unsupported.id} does not support timeframe ${timeframe}` } } };
+  }
+  const mtfTimeframes = [...new Set(strategies.flatMap((s) => s.requires.timeframes))];
+
+  const from = parseTimestamp(body.from);
+  const to = parseTimestamp(body.to);
+  // С from: период из хранилища свечей (с прогревом до from), без ограничения limit
+  const range = from != null ? { from, to } : undefined;
+  if (range && !dataset && !isStoredTimeframe(timeframe)) {
+    return { error: { status: 400, body: { error: `Date range is not supported for timeframe ${timeframe}` } } };
+  }
+  const warmupBars = Math.max(...strategies.map((s) => Math.max(strategyLookback(s, timeframe), s.requires.minBars)));
+  let candles: OHLCVCandle[];
+  if (dataset) {
+    // Набор данных: все его свечи, окно from/to применяет runBacktest
+    candles = dataset.candles;
+  } else if (range) {
+    candles = await dataAgg.getOHLCVRange(symbol, timeframe, {
+      from: range.from - warmupBars * TIMEFRAME_MS[timeframe as MtfTimeframe],
+      to: range.to
+    });
+  } else {
+    candles = await dataAgg.getOHLCV(symbol, timeframe, limit);
+  }
+  if (!candles.length) {
+    return { error: { status: 404, body: { error: 'No candle data', symbol, timeframe } } };
+  }
+
+  const marketData: BacktestMarketData = {};
+  if (Array.isArray(body.funding)) marketData.funding = body.funding;
+  if (mtfTimeframes.length) {
+    marketData.mtfCandles = dataset
+      ? dataset.mtfCandles
+      : await fetchMtfCandles(dataAgg, symbol, timeframe as MtfTimeframe, mtfTimeframes, limit, range);
+  }
+  if (strategies.some((s) => s.requires.orderBook) && Array.isArray(body.orderBooks)) marketData.orderBooks = body.orderBooks;
+  if (strategies.some((s) => s.requires.trades)) {
+    if (dataset?.trades.length) marketData.trades = dataset.trades;
+    else if (Array.isArray(body.trades)) marketData.trades = body.trades;
+  }
+
+  return {
+    candles,
+    marketData,
+    params: {
+      symbol,
+      timeframe,
+      strategy: strategies[0].id,
+      strategyParams,
+      mode: body.mode,
+      from,
+      to,
+      initialBalance: body.initialBalance,
+      minConfidence: body.minConfidence,
+      riskRewardRatio: body.riskRewardRatio,
+      atrSlMultiplier: body.atrSlMultiplier,
+      tpFractions,
+      breakevenAfterTp1: typeof body.breakevenAfterTp1 === 'boolean' ? body.breakevenAfterTp1 : undefined,
+      trailingStop: typeof body.trailingStop === 'boolean' ? body.trailingStop : undefined,
+      costs: parseCosts(body.costs)
+    }
+  };
+}
+
+/** Параметры Monte Carlo: iterations 1..MAX, method bootstrap|shuffle, ruinPct 1..100 */
+function parseMonteCarlo(raw: unknown): MonteCarloOptions | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const src = raw as Record<string, unknown>;
+  const num = (v: unknown) => (v != null && v !== '' && Number.isFinite(Number(v)) ? Number(v) : undefined);
+  const iterations = num(src.iterations);
+  const ruinPct = num(src.ruinPct);
+  return {
+    iterations: iterations != null ? Math.min(Math.max(Math.floor(iterations), 1), MAX_MONTE_CARLO_ITERATIONS) : undefined,
+    method: src.method === 'shuffle' ? 'shuffle' : 'bootstrap',
+    ruinPct: ruinPct != null ? Math.min(Math.max(ruinPct, 1), 100) : undefined,
+    seed: num(src.seed)
+  };
+}
+
+/** Период прогона для истории: from/to запроса либо границы загруженных свечей */
+function runRange(params: LoadedParams, candles: OHLCVCandle[]): { from: number | null; to: number | null } {
+  return {
+    from: params.from ?? candles[0]?.timestamp ?? null,
+    to: params.to ?? candles[candles.length - 1]?.timestamp ?? null
+  };
+}
 
 /**
  * POST /api/backtest/run
@@ -18,48 +268,398 @@ const dataAgg = new DataAggregator();
  * Body:
  * {
  *   symbol: string,       // e.g. "BTC-USDT"
- *   timeframe?: string,   // default "15m"
+ *   exchange?: string,    // okx | bingx | binance | bybit, default "okx"
+ *   datasetId?: string,   // импортированный набор (/api/datasets) вместо OKX: symbol/timeframe — из набора
+ *   strategy?: string,    // id из GET /api/strategies, default "default" (как runAnalysis)
+ *   strategyParams?: { [key]: number }, // переопределения параметров стратегии в границах схемы
+ *   timeframe?: string,   // default — entryTimeframe стратегии ("5m" у default), иначе "15m"
+ *   mode?: string,        // режим SignalGenerator, default "default"
  *   limit?: number,       // candles, default 500
+ *   from?: number | string,      // ms или ISO: период из хранилища свечей (limit игнорируется)
+ *   to?: number | string,        // default — сейчас
  *   initialBalance?: number,
  *   minConfidence?: number,
  *   riskRewardRatio?: number,
- *   atrSlMultiplier?: number
+ *   atrSlMultiplier?: number,
+ *   tpFractions?: number[],      // доли на TP1/TP2/TP3, default [0.3, 0.4, 0.3]
+ *   breakevenAfterTp1?: boolean, // default true
+ *   trailingStop?: boolean,      // default true
+ *   costs?: {                    // модель издержек, default DEFAULT_COST_MODEL
+ *     makerFee?, takerFee?, tpAsMaker?, slippageBps?, slippageAtrFraction?,
+ *     fundingRate?, leverage?, sizePercent?
+ *   },
+ *   funding?: { timestamp, rate }[],          // история фандинга, иначе costs.fundingRate
+ *   orderBooks?: { timestamp, bids, asks }[], // записанный стакан (стратегиям со стаканом), иначе нейтрален
+ *   trades?: { price, amount, time, isBuy }[], // записанная лента (стратегиям с лентой), иначе нейтральна
+ *   save?: boolean,              // default true: прогон сохраняется, в ответе runId
+ *   monteCarlo?: {               // распределения DD / капитала и вероятность разорения (в ответе monteCarlo)
+ *     iterations?: number,       // default 1000, max 10000
+ *     method?: "bootstrap" | "shuffle", // default "bootstrap"
+ *     ruinPct?: number,          // разорение — падение капитала на ruinPct %, default 50
+ *     seed?: number
+ *   }
  * }
  */
 router.post('/run', async (req: Request, res: Response) => {
   try {
-    const body = req.body as {
-      symbol?: string;
-      timeframe?: string;
-      limit?: number;
-      initialBalance?: number;
-      minConfidence?: number;
-      riskRewardRatio?: number;
-      atrSlMultiplier?: number;
+    const loaded = await loadBacktest(req.body as BacktestRequestBody);
+    if ('error' in loaded) {
+      res.status(loaded.error.status).json(loaded.error.body);
+      return;
+    }
+    const body = req.body as BacktestRequestBody;
+    const result = await runBacktest(loaded.candles, loaded.params, loaded.marketData);
+    const saved = body.save === false
+      ? null
+      : saveBacktestRun('run', result, {
+          params: loaded.params,
+          datasetId: body.datasetId ?? null,
+          range: runRange(loaded.params, loaded.candles)
+        });
+    const mc = parseMonteCarlo(body.monteCarlo);
+    const monteCarlo = mc
+      ? runMonteCarlo(result.equityCurve, result.initialBalance, result.costModel, mc)
+      : undefined;
+    res.json({ ...result, runId: saved?.id ?? null, monteCarlo });
+  } catch (error) {
+    logger.error('Backtest', '/run error', { error });
+    res.status(500).json({ error: 'Backtest failed' });
+  }
+});
+
+function parseRange(raw: unknown): ParamRange | undefined {
+  if (Array.isArray(raw)) {
+    const values = raw.map(Number).filter((v) => Number.isFinite(v));
+    return values.length ? values : undefined;
+  }
+  if (raw && typeof raw === 'object') {
+    const { min, max, step } = raw as Record<string, unknown>;
+    const range = { min: Number(min), max: Number(max), step: Number(step) };
+    if ([range.min, range.max, range.step].every(Number.isFinite) && range.step > 0 && range.max >= range.min) {
+      return range;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * POST /api/backtest/optimize
+ * Перебор параметров + walk-forward. Тело как у /run (параметры из params перекрывают базовые), плюс:
+ * {
+ *   params: {                    // диапазоны: [v1, v2, ...] или { min, max, step }
+ *     minConfidence?, riskRewardRatio?, atrSlMultiplier?
+ *   },
+ *   search?: "grid" | "random",  // default "grid"
+ *   samples?: number,            // random: количество точек, default 30
+ *   objective?: "sharpe" | "profitFactor" | "totalPnlPct", // default "sharpe"
+ *   minTrades?: number,          // default 5
+ *   walkForward?: { folds: number, inSamplePct: number },  // напр. { folds: 3, inSamplePct: 0.7 }
+ *   from?, to?,                  // период, как в /run
+ *   top?: number                 // строк в таблице, default 20
+ * }
+ */
+router.post('/optimize', async (req: Request, res: Response) => {
+  try {
+    const body = req.body as BacktestRequestBody & {
+      params?: Record<string, unknown>;
+      search?: string;
+      samples?: number;
+      objective?: string;
+      minTrades?: number;
+      walkForward?: Partial<WalkForwardConfig>;
+      top?: number;
     };
-    const symbol = normalizeSymbol(body.symbol || 'BTC-USDT') || 'BTC-USDT';
-    const timeframe = body.timeframe || '15m';
-    const limit = Math.min(Math.max(body.limit ?? 500, 100), 2000);
+    const space: ParamSpace = {};
+    for (const key of OPTIMIZABLE_PARAMS) {
+      const range = parseRange(body.params?.[key]);
+      if (range) space[key] = range;
+    }
+    if (!Object.keys(space).length) {
+      res.status(400).json({ error: `params must define ranges for: ${OPTIMIZABLE_PARAMS.join(', ')}` });
+      return;
+    }
+    const search = body.search === 'random' ? 'random' : 'grid';
+    const samples = Math.min(Math.max(Math.floor(Number(body.samples) || 30), 1), MAX_OPTIMIZE_RUNS);
+    const objective: OptimizeObjective = body.objective === 'profitFactor' || body.objective === 'totalPnlPct'
+      ? body.objective
+      : 'sharpe';
+    const walkForward: WalkForwardConfig | undefined = body.walkForward
+      ? {
+          folds: Math.min(Math.max(Math.floor(Number(body.walkForward.folds) || 3), 1), 10),
+          inSamplePct: Math.min(Math.max(Number(body.walkForward.inSamplePct) || 0.7, 0.1), 0.9)
+        }
+      : undefined;
+    const runs = countParamSets(space, search, samples) * (walkForward ? walkForward.folds * 2 : 1);
+    if (runs > MAX_OPTIMIZE_RUNS) {
+      res.status(400).json({ error: `Too many runs: ${runs} > ${MAX_OPTIMIZE_RUNS}` });
+      return;
+    }
 
-    const candles = await dataAgg.getOHLCV(symbol, timeframe, limit);
-    if (!candles.length) {
-      res.status(404).json({ error: 'No candle data', symbol, timeframe });
+    const loaded = await loadBacktest(body);
+    if ('error' in loaded) {
+      res.status(loaded.error.status).json(loaded.error.body);
       return;
     }
+    const result = await optimizeBacktest(loaded.candles, loaded.params, {
+      space,
+      search,
+      samples,
+      objective,
+      minTrades: body.minTrades != null ? Math.max(0, Number(body.minTrades) || 0) : undefined,
+      walkForward,
+      top: Math.min(Math.max(Math.floor(Number(body.top) || 20), 1), 100)
+    }, loaded.marketData);
+    res.json(result);
+  } catch (error) {
+    logger.error('Backtest', '/optimize error', { error });
+    res.status(500).json({ error: 'Optimization failed' });
+  }
+});
 
-    const result = await runBacktest(candles, {
-      symbol,
-      timeframe,
-      initialBalance: body.initialBalance,
-      minConfidence: body.minConfidence,
-      riskRewardRatio: body.riskRewardRatio,
-      atrSlMultiplier: body.atrSlMultiplier
-    });
+/** Макс. символов в портфельном бэктесте (pipeline ~10 мс/бар на символ) */
+const MAX_PORTFOLIO_SYMBOLS = 10;
 
-    res.json(result);
+/**
+ * POST /api/backtest/portfolio
+ * Корзина символов на общем балансе с лимитами RiskController и EmotionalFilter.
+ * Тело как у /run (symbol игнорируется), плюс:
+ * {
+ *   symbols?: string[],          // default CoinScanner.getDefaultSymbols() (первые 10)
+ *   risk?: { maxPositionsTotal?, maxPositionsPerSymbol?, maxDailyTrades? },
+ *   emotional?: { cooldownMs?, maxLossStreak?, maxDailyDrawdownPct? }
+ * }
+ * costs.sizePercent по умолчанию = 100 / maxPositionsTotal
+ */
+router.post('/portfolio', async (req: Request, res: Response) => {
+  try {
+    const body = req.body as BacktestRequestBody & {
+      symbols?: string[];
+      risk?: Partial<RiskConfig>;
+      emotional?: EmotionalFilterOptions;
+    };
+    const requested = Array.isArray(body.symbols) && body.symbols.length
+      ? body.symbols
+      : CoinScanner.getDefaultSymbols();
+    const symbols = [...new Set(requested.map((s) => normalizeSymbol(String(s))).filter(Boolean))]
+      .slice(0, MAX_PORTFOLIO_SYMBOLS);
+
+    const basket: PortfolioSymbolData[] = [];
+    let baseParams: Omit<LoadedParams, 'symbol'> | null = null;
+    for (const symbol of symbols) {
+      const loaded = await loadBacktest({ ...body, symbol, datasetId: undefined });
+      if ('error' in loaded) {
+        if (loaded.error.status === 400) {
+          res.status(400).json(loaded.error.body);
+          return;
+        }
+        logger.warn('Backtest', `portfolio: skip ${symbol}`, loaded.error.body);
+        continue;
+      }
+      const { symbol: _symbol, ...params } = loaded.params;
+      baseParams = baseParams ?? params;
+      basket.push({ symbol, candles: loaded.candles, data: loaded.marketData });
+    }
+    if (!basket.length || !baseParams) {
+      res.status(404).json({ error: 'No candle data', symbols });
+      return;
+    }
+
+    const num = (v: unknown, min: number, max: number) =>
+      v != null && Number.isFinite(Number(v)) ? Math.min(max, Math.max(min, Number(v))) : undefined;
+    const risk: Partial<RiskConfig> = {};
+    const maxPositionsTotal = num(body.risk?.maxPositionsTotal, 1, 50);
+    const maxPositionsPerSymbol = num(body.risk?.maxPositionsPerSymbol, 1, 10);
+    const maxDailyTrades = num(body.risk?.maxDailyTrades, 1, 1000);
+    if (maxPositionsTotal != null) risk.maxPositionsTotal = Math.floor(maxPositionsTotal);
+    if (maxPositionsPerSymbol != null) risk.maxPositionsPerSymbol = Math.floor(maxPositionsPerSymbol);
+    if (maxDailyTrades != null) risk.maxDailyTrades = Math.floor(maxDailyTrades);
+    const emotional: EmotionalFilterOptions = {
+      cooldownMs: num(body.emotional?.cooldownMs, 0, 7 * 24 * 3600 * 1000),
+      maxLossStreak: num(body.emotional?.maxLossStreak, 1, 100),
+      maxDailyDrawdownPct: num(body.emotional?.maxDailyDrawdownPct, 0.1, 100)
+    };
+
+    const result = await runPortfolioBacktest(basket, { ...baseParams, risk, emotional });
+    const starts = basket.map((b) => b.candles[0].timestamp);
+    const ends = basket.map((b) => b.candles[b.candles.length - 1].timestamp);
+    const saved = body.save === false
+      ? null
+      : saveBacktestRun('portfolio', result, {
+          params: { ...baseParams, symbols: result.symbols, risk, emotional },
+          range: { from: baseParams.from ?? Math.min(...starts), to: baseParams.to ?? Math.max(...ends) }
+        });
+    res.json({ ...result, runId: saved?.id ?? null });
   } catch (error) {
-    logger.error('Backtest', '/run error', { error });
-    res.status(500).json({ error: 'Backtest failed' });
+    logger.error('Backtest', '/portfolio error', { error });
+    res.status(500).json({ error: 'Portfolio backtest failed' });
+  }
+});
+
+/** Макс. прогонов в одном сравнении */
+const MAX_COMPARE_RUNS = 5;
+
+/**
+ * GET /api/backtest/runs?symbol=&kind=run|portfolio&limit=50&offset=0
+ * Сохранённые прогоны (без сделок): параметры, версия кода, набор данных, период, метрики
+ */
+router.get('/runs', (req: Request, res: Response) => {
+  try {
+    const symbol = req.query.symbol ? normalizeSymbol(String(req.query.symbol)) : undefined;
+    const kind = req.query.kind === 'run' || req.query.kind === 'portfolio' ? req.query.kind : undefined;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 500);
+    const offset = Math.max(parseInt(String(req.query.offset), 10) || 0, 0);
+    res.json(listRuns({ symbol, kind, limit, offset }));
+  } catch (error) {
+    logger.error('Backtest', '/runs error', { error });
+    res.status(500).json({ error: 'Failed to list backtest runs' });
+  }
+});
+
+/**
+ * GET /api/backtest/runs/compare?ids=a,b,c
+ * Сравнение 2..5 прогонов: кривые капитала и просадки по времени, разница метрик относительно первого
+ */
+router.get('/runs/compare', (req: Request, res: Response) => {
+  try {
+    const ids = [...new Set(String(req.query.ids ?? '').split(',').map((s) => s.trim()).filter(Boolean))];
+    if (ids.length < 2 || ids.length > MAX_COMPARE_RUNS) {
+      res.status(400).json({ error: `ids: from 2 to ${MAX_COMPARE_RUNS} run ids, comma-separated` });
+      return;
+    }
+    const comparison = compareRuns(ids);
+    if ('missing' in comparison) {
+      res.status(404).json({ error: 'Run not found', ids: comparison.missing });
+      return;
+    }
+    res.json(comparison);
+  } catch (error) {
+    logger.error('Backtest', '/runs/compare error', { error });
+    res.status(500).json({ error: 'Comparison failed' });
+  }
+});
+
+/**
+ * POST /api/backtest/strategies/compare
+ * 2..5 стратегий на одних и тех же свечах (данные — под объединение требований). Тело как у /run
+ * (strategy/strategyParams игнорируются), плюс:
+ * {
+ *   strategies: { id: string, params?: { [key]: number } }[]
+ * }
+ * Каждый прогон сохраняется; ответ — как у GET /runs/compare (метрики, кривые капитала, разница к первой)
+ */
+router.post('/strategies/compare', async (req: Request, res: Response) => {
+  try {
+    const body = req.body as BacktestRequestBody & { strategies?: { id?: unknown; params?: unknown }[] };
+    if (!Array.isArray(body.strategies) || body.strategies.length < 2 || body.strategies.length > MAX_COMPARE_RUNS) {
+      res.status(400).json({ error: `strategies: from 2 to ${MAX_COMPARE_RUNS} items { id, params? }` });
+      return;
+    }
+    const selections: { strategy: Strategy; params: StrategyParams }[] = [];
+    for (const item of body.strategies) {
+      const parsed = parseStrategySelection(item?.id ?? null, item?.params);
+      if (!parsed.ok) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      selections.push(parsed.data);
+    }
+
+    const loaded = await loadBacktest(body, selections.map((s) => s.strategy));
+    if ('error' in loaded) {
+      res.status(loaded.error.status).json(loaded.error.body);
+      return;
+    }
+    const ids: string[] = [];
+    for (const { strategy, params: strategyParams } of selections) {
+      const params = { ...loaded.params, strategy: strategy.id, strategyParams };
+      const result = await runBacktest(loaded.candles, params, loaded.marketData);
+      const saved = saveBacktestRun('run', result, {
+        params,
+        datasetId: body.datasetId ?? null,
+        range: runRange(params, loaded.candles)
+      });
+      if (!saved) {
+        res.status(500).json({ error: 'Failed to save backtest run', strategy: strategy.id });
+        return;
+      }
+      ids.push(saved.id);
+    }
+    res.json(compareRuns(ids));
+  } catch (error) {
+    logger.error('Backtest', '/strategies/compare error', { error });
+    res.status(500).json({ error: 'Strategy comparison failed' });
+  }
+});
+
+/** GET /api/backtest/runs/:id — прогон с полным результатом и кривой капитала по времени */
+router.get('/runs/:id', (req: Request, res: Response) => {
+  try {
+    const run = getRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+    res.json({ ...run, equity: runEquityCurve(run) });
+  } catch (error) {
+    logger.error('Backtest', '/runs/:id error', { error });
+    res.status(500).json({ error: 'Failed to load backtest run' });
+  }
+});
+
+/**
+ * GET /api/backtest/runs/:id/monte-carlo?iterations=1000&method=bootstrap|shuffle&ruinPct=50&seed=
+ * Monte Carlo по сделкам сохранённого прогона (плечо и размер — из его costModel)
+ */
+router.get('/runs/:id/monte-carlo', (req: Request, res: Response) => {
+  try {
+    const run = getRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+    const { result } = run;
+    const balances = 'symbols' in result ? result.equityCurve.map((p) => p.balance) : result.equityCurve;
+    res.json(runMonteCarlo(balances, result.initialBalance, result.costModel, parseMonteCarlo(req.query) ?? {}));
+  } catch (error) {
+    logger.error('Backtest', '/runs/:id/monte-carlo error', { error });
+    res.status(500).json({ error: 'Monte Carlo failed' });
+  }
+});
+
+/** GET /api/backtest/runs/:id/trades?format=csv|json — экспорт сделок (default json) */
+router.get('/runs/:id/trades', (req: Request, res: Response) => {
+  try {
+    const run = getRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+    const filename = `backtest_${run.id}_trades`;
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      res.send(tradesToCsv(run.result.trades, run.symbol));
+      return;
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+    res.json(run.result.trades);
+  } catch (error) {
+    logger.error('Backtest', '/runs/:id/trades error', { error });
+    res.status(500).json({ error: 'Export failed' });
+  }
+});
+
+/** DELETE /api/backtest/runs/:id */
+router.delete('/runs/:id', (req: Request, res: Response) => {
+  try {
+    if (!removeRun(req.params.id)) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (error) {
+    logger.error('Backtest', 'DELETE /runs/:id error', { error });
+    res.status(500).json({ error: 'Failed to delete backtest run' });
   }
 });
 
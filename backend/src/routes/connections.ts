@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import ccxt from 'ccxt';
 import { config } from '../config';
+import { getExchangeAdapter, isExchangeId } from '../services/exchangeAdapters';
 
 const router = Router();
 
@@ -64,7 +65,24 @@ router.post('/check', async (req, res) => {
       return;
     }
 
-    res.status(400).json({ ok: false, message: `Поддерживается только OKX` });
+    if (isExchangeId(exId)) {
+      const adapter = getExchangeAdapter(exId);
+      const key = (apiKey || '').trim();
+      const secret = (apiSecret || '').trim();
+      if (!key || !secret) {
+        res.status(400).json({ ok: false, message: `API Key и API Secret обязательны для ${adapter.name}` });
+        return;
+      }
+      const ex = adapter.createClient({
+        credentials: { apiKey: key, secret, passphrase: '' },
+        useTestnet: req.body?.useTestnet === true
+      });
+      await ex.fetchBalance();
+      res.json({ ok: true, message: `${adapter.name}: подключение успешно` });
+      return;
+    }
+
+    res.status(400).json({ ok: false, message: `Поддерживаются: OKX, BingX, Binance, Bybit` });
   } catch (e: any) {
     const msg = e?.message || String(e);
     res.status(200).json({ ok: false, message: msg });
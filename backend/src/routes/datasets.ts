@@ -0,0 +1,108 @@
+/**
+ * Datasets API — импорт офлайн-данных (CSV/JSON Binance/OKX) для бэктеста
+ * Большие файлы — сырым телом (Content-Type: text/csv | text/plain), параметры — в query.
+ * Небольшие — JSON { symbol, timeframe?, name?, format?, candles: "<csv|json>", trades?: "<csv|json>" }.
+ * Импортированный набор используется в POST /api/backtest/run через datasetId.
+ * Импорт и удаление — только с Bearer-токеном.
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { listDatasets, getDataset } from '../db';
+import { importDataset, importDatasetTrades, removeDataset, DatasetFormat } from '../services/datasetImport';
+import { normalizeSymbol } from '../lib/symbol';
+import { logger } from '../lib/logger';
+import { requireAuth } from './auth';
+
+const router = Router();
+
+/** Сырое тело для файлов (глобальный express.json ограничен 64kb); разбор целиком в памяти — не больше 20mb */
+const rawFile = express.text({ type: ['text/*', 'application/csv', 'application/octet-stream'], limit: '20mb' });
+
+function parseFormat(raw: unknown): DatasetFormat {
+  return raw === 'binance' || raw === 'okx' ? raw : 'auto';
+}
+
+router.get('/', (_req: Request, res: Response) => {
+  res.json(listDatasets());
+});
+
+router.get('/:id', (req: Request, res: Response) => {
+  const dataset = getDataset(req.params.id);
+  if (!dataset) {
+    res.status(404).json({ error: 'Dataset not found' });
+    return;
+  }
+  res.json(dataset);
+});
+
+/**
+ * POST /api/datasets?symbol=BTC-USDT&timeframe=5m&name=...&format=binance|okx
+ * Тело — файл свечей; либо JSON (см. заголовок модуля)
+ */
+router.post('/', requireAuth, rawFile, (req: Request, res: Response) => {
+  try {
+    const raw = typeof req.body === 'string';
+    const meta = (raw ? req.query : req.body ?? {}) as Record<string, unknown>;
+    const candles = raw ? (req.body as string) : meta.candles;
+    const symbol = normalizeSymbol(String(meta.symbol ?? ''));
+    if (!symbol) {
+      res.status(400).json({ error: 'symbol is required' });
+      return;
+    }
+    if (typeof candles !== 'string' || !candles.trim()) {
+      res.status(400).json({ error: 'candles file content is required' });
+      return;
+    }
+    const result = importDataset({
+      symbol,
+      name: meta.name != null ? String(meta.name) : undefined,
+      timeframe: meta.timeframe ? String(meta.timeframe) : undefined,
+      format: parseFormat(meta.format),
+      candles,
+      trades: !raw && typeof meta.trades === 'string' ? meta.trades : undefined
+    });
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Dataset validation failed', details: result.errors });
+      return;
+    }
+    res.status(201).json(result.dataset);
+  } catch (error) {
+    logger.error('Datasets', 'import error', { error });
+    res.status(500).json({ error: 'Dataset import failed' });
+  }
+});
+
+/** POST /api/datasets/:id/trades?format=binance|okx — тело: файл сделок (заменяет ленту набора) */
+router.post('/:id/trades', requireAuth, rawFile, (req: Request, res: Response) => {
+  try {
+    const raw = typeof req.body === 'string';
+    const content = raw ? (req.body as string) : (req.body as { trades?: unknown })?.trades;
+    if (typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ error: 'trades file content is required' });
+      return;
+    }
+    if (!getDataset(req.params.id)) {
+      res.status(404).json({ error: 'Dataset not found' });
+      return;
+    }
+    const result = importDatasetTrades(req.params.id, content, parseFormat(raw ? req.query.format : req.body?.format));
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Trades validation failed', details: result.errors });
+      return;
+    }
+    res.json(result.dataset);
+  } catch (error) {
+    logger.error('Datasets', 'trades import error', { error });
+    res.status(500).json({ error: 'Trades import failed' });
+  }
+});
+
+router.delete('/:id', requireAuth, (req: Request, res: Response) => {
+  if (!removeDataset(req.params.id)) {
+    res.status(404).json({ error: 'Dataset not found' });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+export default router;
@@ -1,43 +1,90 @@
-import { Router } from 'express';
-import { DataAggregator } from '../services/dataAggregator';
+import { Router, Request, Response } from 'express';
+import { getDataAggregator } from '../services/dataAggregator';
+import { ExchangeId, DEFAULT_EXCHANGE, parseExchangeId, getExchangeAdapter, listExchangeAdapters } from '../services/exchangeAdapters';
 import { getBroadcastSignal } from '../websocket';
 import { CandleAnalyzer } from '../services/candleAnalyzer';
 import { SignalGenerator } from '../services/signalGenerator';
 import { addSignal, getSignalsSince } from './signals';
-import { CandlePattern } from '../types/candle';
+import { TradingSignal } from '../types/signal';
 import {
   analyzeOrderBook,
   analyzeTape,
-  analyzeCandles,
-  computeSignal,
   buildAnalysisBreakdown
 } from '../services/marketAnalysis';
+import { MtfTimeframe, MTF_ORDER, MTF_LIMITS } from '../services/analysisPipeline';
+import {
+  Strategy,
+  StrategyParams,
+  DEFAULT_STRATEGY_ID,
+  getStrategy,
+  parseStrategySelection,
+  resolveStrategyParams,
+  strategyLookback,
+  strategyTimeframes
+} from '../services/strategies';
+import { OHLCVCandle } from '../types/candle';
 import { config } from '../config';
 import { normalizeSymbol } from '../lib/symbol';
 import { logger } from '../lib/logger';
-import { VOLUME_BREAKOUT_MULTIPLIER, volatilitySizeMultiplier, isPotentialFalseBreakout } from '../lib/tradingPrinciples';
-import { FundamentalFilter } from '../services/fundamentalFilter';
 import { adjustConfidence, update as mlUpdate } from '../services/onlineMLService';
 import { calcLiquidationPrice, calcLiquidationPriceSimple } from '../lib/liquidationPrice';
 import { executeSignal } from '../services/autoTrader';
+import { hasAccountCredentials } from '../services/tradingExchange';
+import {
+  autoTradingSessions,
+  parseSessionConfig,
+  AutoTradingSession,
+  SessionCycleContext,
+  MAX_SESSION_SYMBOLS
+} from '../services/autoTradingSessions';
+import { getRequestUserId } from './auth';
+import { LevelDetector } from '../services/levelDetector';
+import { BreakoutDetector } from '../services/breakoutDetector';
+import { getBackfillJob, listBackfillJobs, isStoredTimeframe, MAX_RANGE_CANDLES } from '../services/candleStore';
+import { parseTimestamp } from '../lib/timeRange';
+import { marketCompare } from '../services/marketCompare';
+import { signalTracker } from '../services/signalTracker';
+import { signalGate } from '../services/signalGate';
 
 const router = Router();
 
-/** Флаги исполнения при авто-анализе (устанавливаются из POST /auto-analyze/start) */
-let autoAnalyzeExecuteOrders = false;
-let autoAnalyzeUseTestnet = true;
-let autoAnalyzeMaxPositions = 2;
-let autoAnalyzeSizePercent = 5;
-let autoAnalyzeLeverage = 25;
-const faFilter = new FundamentalFilter();
-const aggregator = new DataAggregator();
 const candleAnalyzer = new CandleAnalyzer();
 const signalGenerator = new SignalGenerator();
+const levelDetector = new LevelDetector();
+const breakoutDetector = new BreakoutDetector();
+
+/**
+ * Биржа запроса: ?exchange= или body.exchange (okx | bingx | binance | bybit, по умолчанию OKX).
+ * null — неизвестная биржа, ответ 400 уже отправлен.
+ */
+export function requestExchange(req: Request, res: Response): ExchangeId | null {
+  const parsed = parseExchangeId(req.query.exchange ?? req.body?.exchange);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return null;
+  }
+  return parsed.data;
+}
 
+/** Свечи: ?timeframe=&limit= (последние N) или ?from=&to= (ms или ISO) — из хранилища с догрузкой с биржи (?exchange=) */
 router.get('/candles/:symbol', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const aggregator = getDataAggregator(exchange);
   try {
     const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
     const timeframe = (req.query.timeframe as string) || '5m';
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from != null || to != null) {
+      if (!isStoredTimeframe(timeframe)) {
+        res.status(400).json({ error: `Date range is not supported for timeframe ${timeframe}` });
+        return;
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || MAX_RANGE_CANDLES, MAX_RANGE_CANDLES);
+      res.json(await aggregator.getOHLCVRange(symbol, timeframe, { from, to }, limit));
+      return;
+    }
     const limit = Math.min(parseInt(req.query.limit as string) || candlesFor48h(timeframe), config.limits.candlesMax);
     const candles = await aggregator.getOHLCVByExchange(symbol, timeframe, limit);
     res.json(candles);
@@ -46,25 +93,110 @@ router.get('/candles/:symbol', async (req, res) => {
   }
 });
 
+/** Покрытие хранилища и пропуски: ?timeframe=&from=&to=&exchange= */
+router.get('/candles/:symbol/gaps', (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const aggregator = getDataAggregator(exchange);
+  const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
+  const timeframe = (req.query.timeframe as string) || '5m';
+  if (!isStoredTimeframe(timeframe)) {
+    res.status(400).json({ error: `Unsupported timeframe ${timeframe}` });
+    return;
+  }
+  const range = { from: parseTimestamp(req.query.from), to: parseTimestamp(req.query.to) };
+  res.json({
+    symbol,
+    timeframe,
+    coverage: aggregator.candleStore.getCoverage(symbol, timeframe),
+    gaps: aggregator.candleStore.detectGaps(symbol, timeframe, range)
+  });
+});
+
+/** Фоновая загрузка истории биржи назад: body { timeframe, from, to?, exchange? } */
+router.post('/candles/:symbol/backfill', (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const aggregator = getDataAggregator(exchange);
+  const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
+  const timeframe = (req.body?.timeframe as string) || '5m';
+  const from = parseTimestamp(req.body?.from);
+  const to = parseTimestamp(req.body?.to);
+  if (!isStoredTimeframe(timeframe)) {
+    res.status(400).json({ error: `Unsupported timeframe ${timeframe}` });
+    return;
+  }
+  if (from == null || (to != null && to <= from)) {
+    res.status(400).json({ error: 'from is required and must be before to' });
+    return;
+  }
+  res.status(202).json(aggregator.candleStore.startBackfillJob(symbol, timeframe, from, to));
+});
+
+/** Ремонт пропусков: body { timeframe, from?, to?, exchange? } */
+router.post('/candles/:symbol/repair', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const aggregator = getDataAggregator(exchange);
+  try {
+    const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
+    const timeframe = (req.body?.timeframe as string) || '5m';
+    if (!isStoredTimeframe(timeframe)) {
+      res.status(400).json({ error: `Unsupported timeframe ${timeframe}` });
+      return;
+    }
+    const range = { from: parseTimestamp(req.body?.from), to: parseTimestamp(req.body?.to) };
+    const repaired = await aggregator.candleStore.repairGaps(symbol, timeframe, range);
+    res.json({ symbol, timeframe, repaired, gaps: aggregator.candleStore.detectGaps(symbol, timeframe, range) });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+router.get('/backfill', (_req, res) => {
+  res.json(listBackfillJobs());
+});
+
+router.get('/backfill/:id', (req, res) => {
+  const job = getBackfillJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Backfill job not found' });
+    return;
+  }
+  res.json(job);
+});
+
+/** Поддерживаемые биржи (значения параметра exchange) */
 router.get('/exchanges', (_req, res) => {
-  res.json(aggregator.getExchangeIds());
+  res.json(
+    listExchangeAdapters().map((a) => ({
+      id: a.id,
+      name: a.name,
+      requiresPassphrase: a.requiresPassphrase,
+      default: a.id === DEFAULT_EXCHANGE
+    }))
+  );
 });
 
 router.get('/ticker/:symbol', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
-    const price = await aggregator.getCurrentPrice(symbol);
-    res.json({ price, symbol, exchange: 'okx' });
+    const price = await getDataAggregator(exchange).getCurrentPrice(symbol);
+    res.json({ price, symbol, exchange });
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
   }
 });
 
-/** Цена с OKX */
+/** Цена с биржи (?exchange=, по умолчанию OKX) */
 router.get('/price/:symbol', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
-    const price = await aggregator.getCurrentPrice(symbol);
+    const price = await getDataAggregator(exchange).getCurrentPrice(symbol);
     res.json({ price, symbol });
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
@@ -72,10 +204,12 @@ router.get('/price/:symbol', async (req, res) => {
 });
 
 router.get('/trades/:symbol', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
     const limit = Math.min(parseInt(req.query.limit as string) || 30, config.limits.trades);
-    const trades = await aggregator.getTrades(symbol, limit);
+    const trades = await getDataAggregator(exchange).getTrades(symbol, limit);
     res.json(trades);
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
@@ -83,134 +217,129 @@ router.get('/trades/:symbol', async (req, res) => {
 });
 
 router.get('/orderbook/:symbol', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
     const limit = Math.min(parseInt(req.query.limit as string) || 50, config.limits.orderBook);
-    const data = await aggregator.getOrderBookByExchange(symbol, limit);
+    const data = await getDataAggregator(exchange).getOrderBookByExchange(symbol, limit);
     res.json(data);
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
   }
 });
 
-function detectThreeWhiteSoldiers(candles: { open: number; high: number; close: number }[]): boolean {
-  if (candles.length < 3) return false;
-  const [a, b, c] = candles.slice(-3);
-  return a.close > a.open && b.close > b.open && c.close > c.open &&
-    b.high > a.high && c.high > b.high && a.close < b.open && b.close < c.open;
-}
+/**
+ * Сравнение символа между биржами: цена, бид/аск, фандинг, открытый интерес, базис perp − spot.
+ * Query: exchanges=okx,binance (по умолчанию все), notify=true — разослать алерты выше порогов
+ */
+router.get('/compare/:symbol', async (req, res) => {
+  const raw = typeof req.query.exchanges === 'string' && req.query.exchanges.trim() ? req.query.exchanges.split(',') : [];
+  const exchanges: ExchangeId[] = [];
+  for (const item of raw) {
+    const parsed = parseExchangeId(item);
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    if (!exchanges.includes(parsed.data)) exchanges.push(parsed.data);
+  }
+  if (exchanges.length === 1) {
+    res.status(400).json({ error: 'exchanges: at least 2 required' });
+    return;
+  }
+  try {
+    const symbol = normalizeSymbol(decodeURIComponent(req.params.symbol || 'BTC-USDT')) || 'BTC-USDT';
+    res.json(await marketCompare.compare(symbol, { exchanges, notify: req.query.notify === 'true' }));
+  } catch (e) {
+    logger.error('Market', '/compare error', { error: (e as Error).message });
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
 
-let autoAnalyzeTimer: NodeJS.Timeout | null = null;
+/** Пороги алертов расхождения, наблюдаемые символы и последние разосланные алерты (изменение — PUT /api/admin/market/compare-alerts) */
+router.get('/compare-alerts', (_req, res) => {
+  res.json(marketCompare.status());
+});
 
 function candlesFor48h(timeframe: string): number {
   const needed = config.timeframes[timeframe] ?? 192;
   return Math.min(Math.max(needed, 100), config.limits.candles);
 }
 
-/** Лимиты свечей для глубокого Multi-TF анализа (HTF-first) */
-const MTF_LIMITS: Record<string, number> = { '1m': 500, '5m': 600, '15m': 400, '1h': 250, '4h': 150, '1d': 150 };
-
-/** Веса: HTF (1d, 4h) определяют тренд, MTF (1h) — подтверждение, LTF (15m, 5m, 1m) — вход */
-const MTF_WEIGHTS: Record<string, number> = { '1d': 0.25, '4h': 0.20, '1h': 0.20, '15m': 0.15, '5m': 0.10, '1m': 0.10 };
-
-/** Рыночная структура: HH/HL = бычий, LH/LL = медвежий. Swing = локальный экстремум в окне 3 */
-function detectMarketStructure(candles: { high: number; low: number; close: number }[]): 'bullish' | 'bearish' | 'neutral' {
-  if (candles.length < 15) return 'neutral';
-  const lookback = 3;
-  const swingHighs: number[] = [];
-  const swingLows: number[] = [];
-  for (let i = lookback; i < candles.length - lookback; i++) {
-    const h = candles[i].high;
-    const l = candles[i].low;
-    let isSH = true, isSL = true;
-    for (let j = 1; j <= lookback; j++) {
-      if (candles[i - j].high >= h || candles[i + j].high >= h) isSH = false;
-      if (candles[i - j].low <= l || candles[i + j].low <= l) isSL = false;
-    }
-    if (isSH) swingHighs.push(h);
-    if (isSL) swingLows.push(l);
-  }
-  const shLast = swingHighs.slice(-4);
-  const slLast = swingLows.slice(-4);
-  if (shLast.length < 2 || slLast.length < 2) return 'neutral';
-  const hh = shLast[shLast.length - 1] > shLast[shLast.length - 2];
-  const hl = slLast[slLast.length - 1] > slLast[slLast.length - 2];
-  const lh = shLast[shLast.length - 1] < shLast[shLast.length - 2];
-  const ll = slLast[slLast.length - 1] < slLast[slLast.length - 2];
-  if (hh && hl) return 'bullish';
-  if (lh && ll) return 'bearish';
-  return 'neutral';
+/** Гейт повторов (services/signalGate), затем сохранение и рассылка; при отказе — причина подавления */
+function publishSignal(signal: TradingSignal, breakdown: unknown): { ok: true } | { ok: false; error: string } {
+  const gate = signalGate.admit(signal);
+  if (!gate.ok) return gate;
+  addSignal(signal, breakdown);
+  getBroadcastSignal()?.(signal, breakdown);
+  return { ok: true };
 }
 
-function detectPatterns(candles: { open: number; high: number; low: number; close: number; volume?: number }[], analyzer: CandleAnalyzer): CandlePattern[] {
-  const patterns: CandlePattern[] = [];
-  if (candles.length < 2) return patterns;
-  const lastCandle = candles[candles.length - 1];
-  const engulfing = analyzer.detectEngulfing(candles as any);
-  if (engulfing !== 'none') patterns.push(engulfing);
-  const prev3 = candles.slice(-4, -1);
-  const priorDown = prev3.filter((c) => c.close < c.open).length >= 2;
-  if (analyzer.detectHammer(lastCandle as any)) patterns.push(priorDown ? 'hammer' : 'hanging_man');
-  if (analyzer.detectInvertedHammer(lastCandle as any)) patterns.push(priorDown ? 'inverted_hammer' : 'shooting_star');
-  if (analyzer.detectDoji(lastCandle as any)) {
-    if (analyzer.detectDragonflyDoji(lastCandle as any)) patterns.push('dragonfly_doji');
-    else if (analyzer.detectGravestoneDoji(lastCandle as any)) patterns.push('gravestone_doji');
-    else patterns.push('doji');
-  }
-  if (analyzer.detectSpinningTop(lastCandle as any)) patterns.push('spinning_top');
-  if (analyzer.detectTweezerTops(candles as any)) patterns.push('tweezer_tops');
-  if (analyzer.detectTweezerBottoms(candles as any)) patterns.push('tweezer_bottoms');
-  const harami = analyzer.detectHarami(candles as any);
-  if (harami !== 'none') patterns.push(harami);
-  if (analyzer.detectPiercingLine(candles as any)) patterns.push('piercing_line');
-  if (analyzer.detectDarkCloudCover(candles as any)) patterns.push('dark_cloud_cover');
-  if (analyzer.detectMorningStar(candles as any)) patterns.push('morning_star');
-  if (analyzer.detectEveningStar(candles as any)) patterns.push('evening_star');
-  if (detectThreeWhiteSoldiers(candles)) patterns.push('three_white_soldiers');
-  if (analyzer.detectThreeBlackCrows(candles as any)) patterns.push('three_black_crows');
-  if (analyzer.detectBullMarubozu(lastCandle as any)) patterns.push('bull_marubozu');
-  if (analyzer.detectBearMarubozu(lastCandle as any)) patterns.push('bear_marubozu');
-  return patterns;
+/** Параметры runAnalysis: стратегия реестра (по умолчанию default) и её параметры */
+export interface RunAnalysisOptions {
+  silent?: boolean;
+  exchange?: ExchangeId;
+  strategy?: Strategy;
+  strategyParams?: StrategyParams;
 }
 
-export async function runAnalysis(symbol: string, timeframe = '5m', mode = 'default', opts?: { silent?: boolean }) {
+export async function runAnalysis(
+  symbol: string,
+  timeframe = '5m',
+  mode = 'default',
+  opts?: RunAnalysisOptions
+) {
   const sym = normalizeSymbol(symbol) || 'BTC-USDT';
   const { limits } = config;
-
-  const [orderBook, trades, entryPrice, candles1m, candles5m, candles15m, candles1h, candles4h, candles1d] = await Promise.all([
-    aggregator.getOrderBook(sym, limits.orderBook),
-    aggregator.getTrades(sym, limits.trades),
+  const aggregator = getDataAggregator(opts?.exchange);
+  const strategy = opts?.strategy ?? getStrategy(DEFAULT_STRATEGY_ID)!;
+  const { requires } = strategy;
+  const entryTimeframe = requires.entryTimeframe ?? (MTF_ORDER.includes(timeframe as MtfTimeframe) ? (timeframe as MtfTimeframe) : '5m');
+  const timeframes = strategyTimeframes(strategy, entryTimeframe);
+
+  const [orderBook, trades, entryPrice, funding, ...series] = await Promise.all([
+    requires.orderBook ? aggregator.getOrderBook(sym, limits.orderBook) : Promise.resolve(null),
+    requires.trades ? aggregator.getTrades(sym, limits.trades) : Promise.resolve(null),
     aggregator.getCurrentPrice(sym),
-    aggregator.getOHLCV(sym, '1m', MTF_LIMITS['1m'] ?? 500),
-    aggregator.getOHLCV(sym, '5m', MTF_LIMITS['5m'] ?? 600),
-    aggregator.getOHLCV(sym, '15m', MTF_LIMITS['15m'] ?? 400),
-    aggregator.getOHLCV(sym, '1h', MTF_LIMITS['1h'] ?? 250),
-    aggregator.getOHLCV(sym, '4h', MTF_LIMITS['4h'] ?? 150),
-    aggregator.getOHLCV(sym, '1d', MTF_LIMITS['1d'] ?? 150)
+    requires.funding
+      ? getExchangeAdapter(opts?.exchange ?? DEFAULT_EXCHANGE).fetchFundingRate(sym).catch((e: Error) => {
+          logger.warn('runAnalysis', `Funding rate unavailable: ${e.message}`, { symbol: sym });
+          return null;
+        })
+      : Promise.resolve(null),
+    ...timeframes.map((tf) =>
+      aggregator.getOHLCV(sym, tf, tf === entryTimeframe ? strategyLookback(strategy, tf) : MTF_LIMITS[tf] ?? 500)
+    )
   ]);
+  const candles: Partial<Record<MtfTimeframe, OHLCVCandle[]>> = {};
+  timeframes.forEach((tf, idx) => {
+    candles[tf] = series[idx];
+  });
+  const entryCandles = candles[entryTimeframe] ?? [];
 
   // Data validation (crypto-trading-open + freqtrade startup_candle_count)
   const MIN_OB_LEVELS = 5;
   const MIN_TRADES = 5;
-  const MIN_CANDLES_5M = 50;
-  const obValid = (orderBook.bids?.length ?? 0) >= MIN_OB_LEVELS && (orderBook.asks?.length ?? 0) >= MIN_OB_LEVELS;
-  const tradesValid = (trades?.length ?? 0) >= MIN_TRADES;
-  const candles5mValid = (candles5m?.length ?? 0) >= MIN_CANDLES_5M;
-  if (!obValid || !tradesValid || !candles5mValid) {
-    logger.warn('runAnalysis', 'Insufficient OKX data', {
+  const obValid = !orderBook || ((orderBook.bids?.length ?? 0) >= MIN_OB_LEVELS && (orderBook.asks?.length ?? 0) >= MIN_OB_LEVELS);
+  const tradesValid = !trades || trades.length >= MIN_TRADES;
+  const candlesValid = entryCandles.length >= requires.minBars;
+  if (!obValid || !tradesValid || !candlesValid) {
+    logger.warn('runAnalysis', `Insufficient ${aggregator.exchangeName} data`, {
       symbol: sym,
-      ob: `${orderBook.bids?.length ?? 0}/${orderBook.asks?.length ?? 0}`,
-      trades: trades?.length ?? 0,
-      candles5m: candles5m?.length ?? 0
+      strategy: strategy.id,
+      ob: orderBook ? `${orderBook.bids?.length ?? 0}/${orderBook.asks?.length ?? 0}` : undefined,
+      trades: trades?.length,
+      [`candles${entryTimeframe}`]: entryCandles.length
     });
-    if (!candles5mValid && !opts?.silent) {
-      const emptyOb = analyzeOrderBook({ bids: orderBook.bids || [], asks: orderBook.asks || [] });
+    if (!candlesValid && !opts?.silent) {
+      const emptyOb = analyzeOrderBook({ bids: orderBook?.bids || [], asks: orderBook?.asks || [] });
       const emptyTape = analyzeTape([]);
       const emptyCandles = { direction: 'NEUTRAL' as const, score: 0, patterns: [], rsi: null, emaTrend: null, volumeConfirm: false, bbSqueeze: false, highVolatility: false };
       const emptyBreakdown = buildAnalysisBreakdown(emptyOb, emptyTape, emptyCandles, { direction: null, confidence: 0, reason: 'Insufficient candles' });
       const emptySignal = signalGenerator.generateSignal({
         symbol: sym.replace('-', '/'),
-        exchange: 'OKX',
+        exchange: aggregator.exchangeName,
         direction: 'LONG',
         entryPrice: entryPrice || 0,
         patterns: ['none'],
@@ -222,264 +351,72 @@ export async function runAnalysis(symbol: string, timeframe = '5m', mode = 'defa
     }
   }
 
-  const obSignal = analyzeOrderBook({ bids: orderBook.bids || [], asks: orderBook.asks || [] });
-
-  const tradesMapped = (trades || []).map((t: any) => ({
-    price: t.price,
-    amount: t.amount,
-    time: t.time,
-    isBuy: t.isBuy ?? false,
-    quoteQuantity: t.quoteQuantity ?? t.price * t.amount
-  }));
-  const tapeSignal = analyzeTape(tradesMapped);
-
-  const now = Date.now();
-  const TAPE_WINDOWS_MS = { '1m': 60000, '5m': 300000, '15m': 900000, '1h': 3600000 } as const;
-  const TAPE_WEIGHTS = { '1m': 0.25, '5m': 0.35, '15m': 0.25, '1h': 0.15 } as const;
-  let tapeLongW = 0;
-  let tapeShortW = 0;
-  const tapeWindowResults: Record<string, { direction: string; delta: number }> = {};
-  for (const w of ['1m', '5m', '15m', '1h'] as const) {
-    const windowTrades = tradesMapped.filter((t) => t.time >= now - TAPE_WINDOWS_MS[w]);
-    if (windowTrades.length < 5) continue;
-    const res = analyzeTape(windowTrades);
-    tapeWindowResults[w] = { direction: res.direction, delta: res.delta };
-    const wgt = TAPE_WEIGHTS[w];
-    if (res.direction === 'LONG') tapeLongW += wgt;
-    else if (res.direction === 'SHORT') tapeShortW += wgt;
-  }
-  const tapeWindowDir = tapeLongW > tapeShortW + 0.2 ? 'LONG' : tapeShortW > tapeLongW + 0.2 ? 'SHORT' : tapeSignal.direction;
-
-  const candles = candles5m;
-  const mtfCandles = { '1m': candles1m, '5m': candles5m, '15m': candles15m, '1h': candles1h, '4h': candles4h, '1d': candles1d } as const;
-
-  let longWeight = 0;
-  let shortWeight = 0;
-  const mtfResults: Record<string, { direction: string; score: number }> = {};
-  const tfOrder: (keyof typeof mtfCandles)[] = ['1d', '4h', '1h', '15m', '5m', '1m'];
-
-  for (const tf of tfOrder) {
-    const cs = mtfCandles[tf];
-    if (!cs?.length || cs.length < 5) continue;
-    const closes = cs.map((c) => c.close);
-    const patterns = detectPatterns(cs, candleAnalyzer);
-    const rsi = candleAnalyzer.getRSI(closes);
-    const macd = candleAnalyzer.getMACD(closes);
-    const bb = candleAnalyzer.getBollingerBands(closes);
-    const ema = candleAnalyzer.getEMA(closes);
-    const bbWidth = candleAnalyzer.getBollingerBandsWidth(closes);
-    const res = analyzeCandles(cs, patterns, rsi ?? null, macd, bb, {
-      patterns, rsi: rsi ?? null, macd, bb, ema, atr: null, macdCrossover: candleAnalyzer.getMACDCrossover(closes),
-      bbWidth: bbWidth?.width, avgBbWidth: bbWidth?.avgWidth
-    });
-    const lastClose = cs[cs.length - 1].close;
-    if (ema && (tf === '1h' || tf === '4h' || tf === '1d')) {
-      if (lastClose > ema.ema21 && lastClose > ema.ema50 && res.direction === 'NEUTRAL') res.direction = 'LONG';
-      else if (lastClose < ema.ema21 && lastClose < ema.ema50 && res.direction === 'NEUTRAL') res.direction = 'SHORT';
-    }
-    const structure = cs.length >= 15 ? detectMarketStructure(cs) : 'neutral';
-    if (structure === 'bullish' && res.direction === 'NEUTRAL') res.direction = 'LONG';
-    if (structure === 'bearish' && res.direction === 'NEUTRAL') res.direction = 'SHORT';
-    mtfResults[tf] = { direction: res.direction, score: res.score };
-    const w = MTF_WEIGHTS[tf] ?? 0.2;
-    if (res.direction === 'LONG') longWeight += w;
-    else if (res.direction === 'SHORT') shortWeight += w;
-  }
-
-  const mtfDir: 'LONG' | 'SHORT' | 'NEUTRAL' = longWeight > shortWeight + 0.15 ? 'LONG' : shortWeight > longWeight + 0.15 ? 'SHORT' : 'NEUTRAL';
-  const mtfScore = Math.max(longWeight, shortWeight) * 15;
-  const mtfAlignCount = Object.values(mtfResults).filter((r) => r.direction === mtfDir).length;
-
-  const htf1d = candles1d.length >= 15 ? detectMarketStructure(candles1d) : 'neutral';
-  const htf4h = candles4h.length >= 15 ? detectMarketStructure(candles4h) : 'neutral';
-  const htfBull = htf1d === 'bullish' || htf4h === 'bullish';
-  const htfBear = htf1d === 'bearish' || htf4h === 'bearish';
-  const againstHTF = (mtfDir === 'LONG' && htfBear) || (mtfDir === 'SHORT' && htfBull);
-
-  const rsi = candles5m.length ? candleAnalyzer.getRSI(candles5m.map((c) => c.close)) : null;
-  let patterns = detectPatterns(candles5m, candleAnalyzer);
-  // Freqtrade-strategies: BinHV45, ClucMay72018, HLHB, VolatilitySystem, BinHV27 (ADX/emarsi)
-  if (candleAnalyzer.detectBinHV45LowerBB(candles5m as any)) patterns = [...patterns, 'binhv45_lower_bb_reversal'];
-  if (candleAnalyzer.detectClucLowVolumeDip(candles5m as any)) patterns = [...patterns, 'cluc_low_volume_dip'];
-  const hlhbDir = candleAnalyzer.detectHLHBCross(candles5m as any);
-  if (hlhbDir) patterns = [...patterns, hlhbDir === 'LONG' ? 'hlhb_ema_rsi_cross' : 'hlhb_ema_rsi_cross_bear'];
-  const volBreakout = candleAnalyzer.detectVolatilityBreakout(candles5m);
-  if (volBreakout) patterns = [...patterns, volBreakout === 'LONG' ? 'volatility_breakout' : 'volatility_breakout_bear'];
-  const adx = candleAnalyzer.getADX(candles5m);
-  if (adx != null && adx > 25) patterns = [...patterns, 'adx_trend'];
-  const emarsi = candleAnalyzer.getEMARSI(candles5m.map((c) => c.close));
-  if (emarsi != null && emarsi <= 20) patterns = [...patterns, 'emarsi_oversold'];
-  const supertrendDir = candleAnalyzer.getSupertrend(candles5m);
-  if (supertrendDir) patterns = [...patterns, supertrendDir === 'up' ? 'supertrend_up' : 'supertrend_down'];
-  const lastC5 = candles5m[candles5m.length - 1];
-  const highVolatility = lastC5 && lastC5.close > 0
-    ? (lastC5.high - lastC5.low) / lastC5.close > 0.03
-    : false;
-  const candlesSignal = {
-    direction: mtfDir !== 'NEUTRAL' ? mtfDir : (Object.values(mtfResults)[0]?.direction as 'LONG' | 'SHORT') ?? 'NEUTRAL',
-    score: mtfScore,
-    volumeConfirm: candles5m.length >= 20 &&
-      (candles5m[candles5m.length - 1]?.volume ?? 0) > candles5m.slice(-20).reduce((s, c) => s + (c.volume ?? 0), 0) / 20 * VOLUME_BREAKOUT_MULTIPLIER,
-    bbSqueeze: false,
-    patterns,
-    rsi,
-    emaTrend: null as 'bullish' | 'bearish' | null,
-    highVolatility,
-    freqtrade: { adx, emarsi, supertrendDir, hlhbDir, volBreakout }
-  };
-  const atr = candleAnalyzer.getATR(candles5m);
-  const avgAtr = candleAnalyzer.getATRAvg(candles5m);
-  const volatilityMultiplier = volatilitySizeMultiplier(atr ?? null, avgAtr ?? null);
-  const currVol = candles5m.length ? (candles5m[candles5m.length - 1]?.volume ?? 0) : 0;
-  const avgVol20 = candles5m.length >= 20 ? candles5m.slice(-20).reduce((s, c) => s + (c.volume ?? 0), 0) / 20 : 0;
-  const falseBreakoutHint = patterns.some((p) => p.includes('engulfing') || p.includes('breakout'))
-    ? isPotentialFalseBreakout(currVol, avgVol20, true)
-    : false;
-
-  // Layer 2: Fundamental Filter (generate-complete-guide, Burniske) — блок при слабом рынке
-  if (!faFilter.isValid(obSignal.spreadPct)) {
-    if (!opts?.silent) logger.info('runAnalysis', 'FA Failed: spread/liquidity', { symbol: sym, spreadPct: obSignal.spreadPct });
-    const emptyBreakdown = buildAnalysisBreakdown(obSignal, tapeSignal, candlesSignal, { direction: null, confidence: 0, reason: 'FA Failed: spread/liquidity' });
-    const emptySignal = signalGenerator.generateSignal({
-      symbol: sym.replace('-', '/'),
-      exchange: 'OKX',
-      direction: 'LONG',
-      entryPrice,
-      patterns: ['none'],
-      confidence: 0,
-      timeframe,
-      mode
-    });
-    return { signal: emptySignal, analysis: {}, breakdown: emptyBreakdown, faBlocked: true };
-  }
-
-  const tapeForSignal = tapeWindowDir !== 'NEUTRAL'
-    ? { ...tapeSignal, direction: tapeWindowDir as 'LONG' | 'SHORT' }
-    : tapeSignal;
-  const signalResult = computeSignal(
-    {
-      candles: { direction: candlesSignal.direction, score: candlesSignal.score },
-      orderBook: obSignal,
-      tape: tapeForSignal
-    },
-    {
-      spreadPct: obSignal.spreadPct,
-      volumeConfirm: candlesSignal.volumeConfirm,
-      bbSqueeze: candlesSignal.bbSqueeze,
-      tapeDelta: tapeSignal.delta,
-      tapeRecentDelta: tapeSignal.recentDelta,
-      obDomScore: obSignal.domScore,
-      cvdDivergence: tapeSignal.cvdDivergence,
-      highVolatility: candlesSignal.highVolatility,
-      falseBreakoutHint
-    }
-  );
-  const { direction: confluentDir, confidence: confluentConf, confluence } = signalResult;
-
-  let direction: 'LONG' | 'SHORT' = 'LONG';
-  let confidence = 0.65;
-
-  if (confluence && confluentDir) {
-    direction = confluentDir;
-    confidence = confluentConf;
-
-    // Multi-TF alignment bonus — 6 TFs (1d, 4h, 1h, 15m, 5m, 1m) в одном направлении
-    // Корректировка: требуем 4+ TFs для высокого confidence, строже за 2–3
-    if (mtfAlignCount >= 5) confidence = Math.min(0.96, confidence + 0.10);
-    else if (mtfAlignCount >= 4) confidence = Math.min(0.95, confidence + 0.06);
-    else if (mtfAlignCount >= 3) confidence = Math.min(0.90, confidence + 0.02);
-    if (mtfAlignCount < 3 && Object.keys(mtfResults).length >= 5) {
-      confidence = Math.max(0.55, confidence - 0.08);
-    }
-    if (mtfAlignCount < 4 && Object.keys(mtfResults).length >= 5) {
-      confidence = Math.min(confidence, 0.88);
-    }
-    // Усиленный штраф против HTF — часто приводит к убыткам
-    if (againstHTF) confidence = Math.max(0.50, Math.min(confidence - 0.15, 0.70));
-    // Freqtrade: бонус при совпадении HLHB/VolatilityBreakout/Supertrend
-    if (hlhbDir === direction) confidence = Math.min(0.96, confidence + 0.04);
-    if (volBreakout === direction) confidence = Math.min(0.96, confidence + 0.03);
-    if (supertrendDir === (direction === 'LONG' ? 'up' : 'down')) confidence = Math.min(0.95, confidence + 0.02);
-    if (adx != null && adx > 30) confidence = Math.min(0.94, confidence + 0.02);
-  }
-
-  let fallbackReason: string | undefined;
-  if (!confluence || !confluentDir) {
-    const dirs = [obSignal.direction, tapeSignal.direction, candlesSignal.direction];
-    let longCount = dirs.filter((d) => d === 'LONG').length;
-    let shortCount = dirs.filter((d) => d === 'SHORT').length;
-    // Freqtrade: HLHB и VolatilityBreakout добавляют вес направлению
-    if (hlhbDir === 'LONG') longCount += 0.5; else if (hlhbDir === 'SHORT') shortCount += 0.5;
-    if (volBreakout === 'LONG') longCount += 0.5; else if (volBreakout === 'SHORT') shortCount += 0.5;
-    const hasConflict = (longCount > 0 && shortCount > 0);
-    if (hasConflict) {
-      // Аналитика: при конфликте снижаем уверенность — такие сделки чаще убыточны
-      direction = shortCount >= longCount ? 'SHORT' : 'LONG';
-      confidence = 0.55;
-      fallbackReason = `Конфликт компонентов — направление по большинству (${direction}), уверенность снижена. Не рекомендуется к авто-входу.`;
-    } else if (shortCount > longCount) {
-      direction = 'SHORT';
-      confidence = Math.min(0.75, 0.6 + shortCount * 0.04);
-      fallbackReason = `Fallback: направление по голосам компонентов (SHORT), без полной конfluence.`;
-    } else {
-      direction = 'LONG';
-      confidence = Math.min(0.75, 0.6 + Math.max(longCount, 1) * 0.04);
-      fallbackReason = `Fallback: направление по голосам компонентов (LONG), без полной конfluence.`;
+  const result = strategy.analyze({
+    symbol: sym,
+    timeframe,
+    mode,
+    entryPrice,
+    candles,
+    entryTimeframe,
+    orderBook: orderBook ? { bids: orderBook.bids || [], asks: orderBook.asks || [] } : null,
+    trades,
+    now: Date.now(),
+    exchange: aggregator.exchangeName,
+    fundingRate: funding?.rate ?? null,
+    params: resolveStrategyParams(strategy, opts?.strategyParams),
+    signalGenerator
+  });
+  if (!result) {
+    return { signal: null, analysis: {}, breakdown: null, noSignal: true };
+  }
+  const { breakdown, patterns, rsi } = result;
+  if (result.blocked) {
+    if (!opts?.silent) {
+      const spreadPct = (breakdown as { orderBook?: { spreadPct?: number } }).orderBook?.spreadPct;
+      logger.info('runAnalysis', `FA Failed: ${result.blocked}`, { symbol: sym, spreadPct });
     }
+    return { signal: result.signal, analysis: {}, breakdown, faBlocked: true };
   }
 
-  const breakdownInput = { ...signalResult, direction, confidence, reason: fallbackReason ?? signalResult.reason };
-  const breakdown = buildAnalysisBreakdown(obSignal, tapeSignal, candlesSignal, breakdownInput);
-  (breakdown as any).multiTF = { ...mtfResults, alignCount: mtfAlignCount };
-  (breakdown as any).tapeWindows = tapeWindowResults;
-  (breakdown as any).volatilityMultiplier = volatilityMultiplier; // Sinclair: уменьшить размер при высокой волатильности
-
-  const macd = candles5m.length ? candleAnalyzer.getMACD(candles5m.map((c) => c.close)) : null;
-  const bb = candles5m.length ? candleAnalyzer.getBollingerBands(candles5m.map((c) => c.close)) : null;
+  const closes = entryCandles.map((c) => c.close);
+  const macd = closes.length ? candleAnalyzer.getMACD(closes) : null;
+  const bb = closes.length ? candleAnalyzer.getBollingerBands(closes) : null;
 
-  // Schwager: направление цены для detectFailedSignalHint (последние 5 свечей 5m)
-  const priceDirection: 'up' | 'down' =
-    candles5m.length >= 5
-      ? candles5m[candles5m.length - 1].close >= candles5m[candles5m.length - 5].close
-        ? 'up'
-        : 'down'
-      : 'up';
-
-  let signal = signalGenerator.generateSignal({
-    symbol: sym.replace('-', '/'),
-    exchange: 'OKX',
-    direction,
-    entryPrice,
-    patterns: patterns.length ? patterns : ['none'],
-    rsi: rsi ?? undefined,
-    confidence,
-    timeframe,
-    mode,
-    atr: atr ?? undefined,
-    priceDirection,
-    falseBreakoutRisk: falseBreakoutHint
-  });
+  let signal = result.signal;
   const mlFeatures = {
     confidence: signal.confidence ?? 0,
-    direction: direction === 'LONG' ? 1 : 0,
+    direction: signal.direction === 'LONG' ? 1 : 0,
     riskReward: signal.risk_reward ?? 1,
     triggersCount: (signal.triggers ?? []).length,
     rsiBucket: rsi != null ? (rsi < 35 ? 1 : rsi > 65 ? -1 : 0) : undefined,
-    volumeConfirm: candlesSignal.volumeConfirm ? 1 : 0
+    volumeConfirm: result.volumeConfirm ? 1 : 0
   };
   signal = {
     ...signal,
     confidence: Math.round(adjustConfidence(signal.confidence ?? 0, mlFeatures) * 100) / 100
   };
-  if (!opts?.silent) {
-    addSignal(signal);
-    getBroadcastSignal()?.(signal, breakdown);
+  // Пробой уровня (15m) в направлении сигнала — зона для лимитного входа (executeSignal entryMode); нужны стакан и лента
+  const candles15m = candles['15m'] ?? [];
+  const nearestLevel = candles15m.length && orderBook && trades && !signal.entry_zone
+    ? levelDetector.findNearestLevel(entryPrice, levelDetector.detectLevels(candles15m, 'medium'), 0.02)
+    : null;
+  const breakout = nearestLevel && orderBook && trades
+    ? breakoutDetector.detectBreakout(entryPrice, nearestLevel, orderBook, trades, candles15m)
+    : null;
+  if (breakout && breakout.direction === signal.direction) {
+    signal = { ...signal, entry_zone: breakout.entryZone, invalidation_price: breakout.invalidationPrice };
   }
-  return { signal, analysis: { patterns, rsi, macd: macd ?? undefined, bb: bb ?? undefined }, breakdown };
+  // silent — сигнал публикует вызывающий (авто-цикл выбирает лучший)
+  const published = opts?.silent ? null : publishSignal(signal, breakdown);
+  const suppressed = published && !published.ok ? published.error : undefined;
+  return { signal, analysis: { patterns, rsi, macd: macd ?? undefined, bb: bb ?? undefined }, breakdown, suppressed };
 }
 
-/** Проверка данных OKX перед анализом */
+/** Проверка данных биржи (?exchange=) перед анализом */
 router.get('/analysis-preview/:symbol', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const aggregator = getDataAggregator(exchange);
   try {
     const symbol = (req.params.symbol || 'BTC-USDT').replace(/_/g, '-');
     const timeframe = (req.query.timeframe as string) || '5m';
@@ -494,7 +431,7 @@ router.get('/analysis-preview/:symbol', async (req, res) => {
     res.json({
       ok: true,
       symbol: sym,
-      exchange: 'OKX',
+      exchange: aggregator.exchangeName,
       data: {
         candles: { count: candles.length, latest: candles[candles.length - 1] },
         orderBook: { bidsCount: orderBook.bids?.length ?? 0, asksCount: orderBook.asks?.length ?? 0, spread: bestBid && bestAsk ? ((bestAsk - bestBid) / ((bestBid + bestAsk) / 2) * 100).toFixed(4) + '%' : null },
@@ -506,19 +443,27 @@ router.get('/analysis-preview/:symbol', async (req, res) => {
   }
 });
 
+/** Анализ символа: body { timeframe?, exchange?, strategy?, strategyParams? } */
 router.post('/analyze/:symbol', async (req, res) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const selection = parseStrategySelection(req.body?.strategy, req.body?.strategyParams);
+  if (!selection.ok) return res.status(400).json({ error: selection.error });
   try {
     const symbol = (req.params.symbol || 'BTC-USDT').replace(/_/g, '-');
     const timeframe = (req.body?.timeframe as string) || '5m';
-    const result = await runAnalysis(symbol, timeframe);
+    const result = await runAnalysis(symbol, timeframe, 'default', {
+      exchange,
+      strategy: selection.data.strategy,
+      strategyParams: selection.data.params
+    });
     res.json(result);
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
   }
 });
 
-const MAX_SYMBOLS = 5;
-/** Сигналы 85%+ дают лучший результат — мин. порог 82% для авто-цикла */
+/** Сигналы 85%+ дают лучший результат — мин. порог 82% для авто-цикла (проверять через POST /api/backtest/optimize) */
 const AUTO_MIN_CONFIDENCE = 0.82;
 const AUTO_SCORE_WEIGHTS = { confidence: 0.5, riskReward: 0.35, confluence: 0.15 };
 
@@ -533,14 +478,18 @@ function scannerSymbolToMarket(s: string): string {
  * Если useScanner === true — сначала получаем топ монет из скринера (волатильность, объём, BB squeeze).
  * TP/SL, leverage, mode — определяются по анализу (ATR, волатильность, confluence).
  */
-async function runAutoTradingBestCycle(symbols: string[], timeframe = '5m', useScanner = false): Promise<void> {
-  let syms = symbols.slice(0, MAX_SYMBOLS);
+async function runAutoTradingBestCycle(session: AutoTradingSession, ctx: SessionCycleContext): Promise<void> {
+  const { exchange, symbols, timeframe, useScanner, execution } = session.config;
+  const { name: exchangeName } = getExchangeAdapter(exchange);
+  const strategy = sessionStrategy(session, ctx);
+  if (!strategy) return;
+  let syms = symbols.slice(0, MAX_SESSION_SYMBOLS);
   if (useScanner) {
     try {
       const { CoinScanner } = await import('../services/coinScanner');
-      const scanner = new CoinScanner();
+      const scanner = new CoinScanner(exchange);
       const defaultSymbols = CoinScanner.getDefaultSymbols();
-      const topCoins = await scanner.getTopCandidates(defaultSymbols, MAX_SYMBOLS, {
+      const topCoins = await scanner.getTopCandidates(defaultSymbols, MAX_SESSION_SYMBOLS, {
         minVolume24h: 500_000,
         minVolatility24h: 4,
         checkBBSqueeze: true,
@@ -548,19 +497,25 @@ async function runAutoTradingBestCycle(symbols: string[], timeframe = '5m', useS
       });
       const fromScanner = topCoins.map((c) => scannerSymbolToMarket(c.symbol)).filter(Boolean);
       if (fromScanner.length > 0) syms = fromScanner;
-      else logger.warn('runAutoTradingBestCycle', 'Scanner returned no coins, using fallback symbols');
+      else ctx.log('warn', 'Scanner returned no coins, using fallback symbols');
     } catch (e) {
-      logger.warn('runAutoTradingBestCycle', (e as Error).message, { useScanner: true });
+      ctx.log('warn', `Scanner failed: ${(e as Error).message}`);
     }
   }
   if (syms.length === 0) syms = ['BTC-USDT', 'ETH-USDT', 'SOL-USDT'];
 
-  const results: Array<{ signal: Awaited<ReturnType<typeof runAnalysis>>['signal']; breakdown: any; score: number }> = [];
+  const results: Array<{ signal: TradingSignal; breakdown: any; score: number }> = [];
   await Promise.all(
     syms.map(async (sym) => {
       try {
-        const r = await runAnalysis(sym, timeframe, 'futures25x', { silent: true });
+        const r = await runAnalysis(sym, timeframe, 'futures25x', {
+          silent: true,
+          exchange,
+          strategy,
+          strategyParams: session.config.strategyParams
+        });
         const sig = r.signal;
+        if (!sig) return;
         const conf = sig.confidence ?? 0;
         const rr = sig.risk_reward ?? 1;
         const alignCount = (r.breakdown as any)?.multiTF?.alignCount ?? 0;
@@ -573,100 +528,165 @@ async function runAutoTradingBestCycle(symbols: string[], timeframe = '5m', useS
           results.push({ signal: sig, breakdown: r.breakdown, score });
         }
       } catch (e) {
-        logger.warn('runAutoTradingBestCycle', (e as Error).message, { symbol: sym });
+        ctx.log('warn', `${sym}: ${(e as Error).message}`);
       }
     })
   );
-  if (results.length === 0) return;
+  if (results.length === 0) {
+    ctx.log('info', `No signal ≥${AUTO_MIN_CONFIDENCE * 100}% among ${syms.join(', ')}`);
+    return;
+  }
   results.sort((a, b) => b.score - a.score);
-  const best = results[0];
-  addSignal(best.signal);
-  (best.breakdown as any).autoSettings = { leverage: autoAnalyzeLeverage, sizePercent: autoAnalyzeSizePercent, minConfidence: 82 };
-  getBroadcastSignal()?.(best.signal, best.breakdown);
+  // Лучший кандидат, не повторяющий недавний сигнал (повторы не наращивают входы)
+  let best: (typeof results)[number] | undefined;
+  for (const candidate of results) {
+    candidate.breakdown.autoSettings = { leverage: execution.leverage, sizePercent: execution.sizePercent, minConfidence: 82 };
+    const published = publishSignal(candidate.signal, candidate.breakdown);
+    if (published.ok) {
+      best = candidate;
+      break;
+    }
+    ctx.log('info', `${candidate.signal.symbol}: ${published.error}`);
+  }
+  if (!best) return;
+  ctx.signal(best.signal, { score: Number(best.score.toFixed(3)), candidates: results.length });
   logger.info('runAutoTradingBestCycle', `Best: ${best.signal.symbol} ${best.signal.direction} conf=${((best.signal.confidence ?? 0) * 100).toFixed(0)}% score=${best.score.toFixed(3)}`);
 
-  if (config.autoTradingExecutionEnabled && autoAnalyzeExecuteOrders && config.okx.hasCredentials) {
-    executeSignal(best.signal, {
-      sizePercent: autoAnalyzeSizePercent,
-      leverage: autoAnalyzeLeverage,
-      maxPositions: autoAnalyzeMaxPositions,
-      useTestnet: autoAnalyzeUseTestnet
-    }).then((result) => {
-      if (result.ok) {
-        logger.info('runAutoTradingBestCycle', `OKX order placed: ${result.orderId}`);
-      } else {
-        logger.warn('runAutoTradingBestCycle', `OKX execution skipped: ${result.error}`);
-      }
-    }).catch((e) => logger.error('runAutoTradingBestCycle', 'OKX execute failed', { error: (e as Error).message }));
+  if (!execution.executeOrders) return;
+  if (!config.autoTradingExecutionEnabled) {
+    ctx.log('warn', 'Execution disabled on server (AUTO_TRADING_EXECUTION_ENABLED)');
+    return;
+  }
+  // Серверный счёт из .env сессиям недоступен — только ключи владельца
+  if (!session.userId) {
+    ctx.log('warn', 'Anonymous session: execution skipped (sign in and save API keys)');
+    return;
+  }
+  if (!hasAccountCredentials(execution.useTestnet, session.userId, exchange)) {
+    ctx.log('warn', `${exchangeName} ${execution.useTestnet ? 'demo' : 'live'} credentials not set: execution skipped`);
+    return;
+  }
+  try {
+    const result = await executeSignal(best.signal, {
+      sizingMode: execution.sizingMode,
+      sizePercent: execution.sizePercent,
+      riskPercent: execution.riskPercent,
+      kellyFraction: execution.kellyFraction,
+      volatilityMultiplier: Number((best.breakdown as any)?.volatilityMultiplier) || 1,
+      leverage: execution.leverage,
+      maxPositions: execution.maxPositions,
+      exchange,
+      useTestnet: execution.useTestnet,
+      userId: session.userId,
+      entryMode: execution.entryMode,
+      ladderSteps: execution.ladderSteps,
+      source: 'auto'
+    });
+    if (result.ok) ctx.log('info', `${exchangeName} order placed: ${result.orderId}`, { symbol: best.signal.symbol });
+    else ctx.log('warn', `${exchangeName} execution skipped: ${result.error}`, { symbol: best.signal.symbol });
+  } catch (e) {
+    ctx.log('error', `${exchangeName} execute failed: ${(e as Error).message}`, { symbol: best.signal.symbol });
   }
 }
 
-router.post('/auto-analyze/start', (req, res) => {
-  if (autoAnalyzeTimer) {
-    res.json({ status: 'already_running' });
+/** Стратегия сессии; удалённая из реестра — ошибка в журнал, цикл пропускается */
+function sessionStrategy(session: AutoTradingSession, ctx: SessionCycleContext): Strategy | null {
+  const strategy = getStrategy(session.config.strategy);
+  if (!strategy) ctx.log('error', `Unknown strategy ${session.config.strategy}: cycle skipped`);
+  return strategy;
+}
+
+/** Цикл сессии авто-торговли (services/autoTradingSessions): fullAuto — лучший сигнал и исполнение, иначе анализ каждой пары */
+export async function runSessionCycle(session: AutoTradingSession, ctx: SessionCycleContext): Promise<void> {
+  if (session.config.fullAuto) {
+    await runAutoTradingBestCycle(session, ctx);
     return;
   }
-  const symbolsRaw = req.body?.symbols ?? req.body?.symbol;
-  const symbols: string[] = Array.isArray(symbolsRaw)
-    ? symbolsRaw.slice(0, MAX_SYMBOLS).map((s: string) => String(s || '').replace(/_/g, '-')).filter(Boolean)
-    : [String(symbolsRaw || 'BTC-USDT').replace(/_/g, '-')];
-  const syms = [...new Set(symbols)].slice(0, MAX_SYMBOLS);
-  if (syms.length === 0) syms.push('BTC-USDT');
-  const timeframe = (req.body?.timeframe as string) || '5m';
-  const mode = (req.body?.mode as string) || 'default';
-  const intervalMs = Math.max(30000, Math.min(300000, parseInt(String(req.body?.intervalMs)) || 60000));
-  const fullAuto = Boolean(req.body?.fullAuto);
-  const useScanner = Boolean(req.body?.useScanner);
-  const executeOrders = Boolean(req.body?.executeOrders);
-  const useTestnet = req.body?.useTestnet !== false;
-  const maxPositions = Math.max(1, Math.min(10, parseInt(String(req.body?.maxPositions)) || 2));
-  const sizePercent = Math.max(1, Math.min(50, parseInt(String(req.body?.sizePercent)) || 5));
-  const leverage = Math.max(1, Math.min(125, parseInt(String(req.body?.leverage)) || 25));
-
-  autoAnalyzeExecuteOrders = fullAuto && executeOrders;
-  autoAnalyzeUseTestnet = useTestnet;
-  autoAnalyzeMaxPositions = maxPositions;
-  autoAnalyzeSizePercent = sizePercent;
-  autoAnalyzeLeverage = leverage;
-
-  const runAll = () => {
-    if (fullAuto) {
-      runAutoTradingBestCycle(syms, timeframe, useScanner).catch((e) => logger.error('auto-analyze', (e as Error).message));
-    } else {
-      for (const sym of syms) {
-        runAnalysis(sym, timeframe, mode).catch((e) => logger.error('auto-analyze', (e as Error).message));
+  const { exchange, symbols, timeframe, mode, strategyParams } = session.config;
+  const strategy = sessionStrategy(session, ctx);
+  if (!strategy) return;
+  await Promise.all(
+    symbols.map(async (sym) => {
+      try {
+        const r = await runAnalysis(sym, timeframe, mode, { exchange, strategy, strategyParams });
+        if (!r.signal) ctx.log('info', `${sym}: no ${strategy.id} setup`);
+        else if ('dataInsufficient' in r || 'faBlocked' in r) ctx.log('info', `${sym}: no signal (${'faBlocked' in r ? 'spread/liquidity' : 'insufficient data'})`);
+        else if (r.suppressed) ctx.log('info', `${sym}: ${r.suppressed}`);
+        else ctx.signal(r.signal);
+      } catch (e) {
+        ctx.log('warn', `${sym}: ${(e as Error).message}`);
       }
-    }
-  };
-  runAll();
-  autoAnalyzeTimer = setInterval(runAll, intervalMs);
+    })
+  );
+}
+
+/** Сессия, которой управляют POST /auto-analyze/start | stop (одна на владельца, страница «Авто») */
+const LEGACY_SESSION_NAME = 'auto-analyze';
+
+function legacySession(userId: string | null): AutoTradingSession | undefined {
+  return autoTradingSessions.list(userId).find((s) => s.name === LEGACY_SESSION_NAME);
+}
+
+/**
+ * POST /auto-analyze/start — запустить сессию «Авто» владельца (при уже запущенной — already_running).
+ * Несколько сессий со своими настройками — /api/auto-sessions
+ */
+router.post('/auto-analyze/start', (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = legacySession(userId);
+  if (existing?.status === 'running') {
+    res.json({ status: 'already_running', sessionId: existing.id });
+    return;
+  }
+  const parsed = parseSessionConfig(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const started = existing
+    ? autoTradingSessions.start(existing.id, userId, parsed.data)
+    : autoTradingSessions.create(userId, parsed.data, LEGACY_SESSION_NAME);
+  if (!started.ok) {
+    res.status(400).json({ error: started.error });
+    return;
+  }
+  const { config: c } = started.data;
   res.json({
     status: 'started',
-    symbols: syms,
-    timeframe,
-    intervalMs,
-    mode,
-    fullAuto,
-    useScanner: fullAuto ? useScanner : undefined,
-    executeOrders: fullAuto ? autoAnalyzeExecuteOrders : undefined,
-    useTestnet: fullAuto ? autoAnalyzeUseTestnet : undefined
+    sessionId: started.data.id,
+    exchange: c.exchange,
+    symbols: c.symbols,
+    timeframe: c.timeframe,
+    intervalMs: c.intervalMs,
+    mode: c.mode,
+    fullAuto: c.fullAuto,
+    useScanner: c.fullAuto ? c.useScanner : undefined,
+    executeOrders: c.fullAuto ? c.execution.executeOrders : undefined,
+    useTestnet: c.fullAuto ? c.execution.useTestnet : undefined,
+    account: c.fullAuto ? (userId ? 'user' : 'server') : undefined,
+    entryMode: c.fullAuto ? c.execution.entryMode : undefined,
+    ladderSteps: c.fullAuto ? c.execution.ladderSteps : undefined,
+    sizingMode: c.fullAuto ? c.execution.sizingMode : undefined,
+    riskPercent: c.fullAuto && c.execution.sizingMode === 'risk' ? c.execution.riskPercent : undefined,
+    kellyFraction: c.fullAuto && c.execution.sizingMode === 'kelly' ? c.execution.kellyFraction : undefined
   });
 });
 
-export function stopAutoAnalyze(): void {
-  if (autoAnalyzeTimer) {
-    clearInterval(autoAnalyzeTimer);
-    autoAnalyzeTimer = null;
-  }
+/** Остановить сессии владельца (userId, null — анонимные); без аргумента — все сессии (админка, kill switch) */
+export function stopAutoAnalyze(userId?: string | null, reason?: string): number {
+  return autoTradingSessions.stopAll(userId, reason);
 }
 
-router.post('/auto-analyze/stop', (_req, res) => {
-  stopAutoAnalyze();
+/** POST /auto-analyze/stop — остановить сессию «Авто» владельца */
+router.post('/auto-analyze/stop', (req, res) => {
+  const session = legacySession(getRequestUserId(req));
+  if (session) autoTradingSessions.stop(session.id);
   res.json({ status: 'stopped' });
 });
 
-export function getAutoAnalyzeStatus(): { running: boolean } {
-  return { running: !!autoAnalyzeTimer };
+export function getAutoAnalyzeStatus(): { running: boolean; sessions: number; paused: number } {
+  const counts = autoTradingSessions.status();
+  return { running: counts.running > 0, sessions: counts.running, paused: counts.paused };
 }
 
 router.get('/auto-analyze/status', (_req, res) => {
@@ -759,6 +779,7 @@ router.get('/signals-night', (req, res) => {
     const hours = Math.min(168, Math.max(1, parseInt(String(req.query.hours)) || 12));
     const limit = Math.min(500, parseInt(String(req.query.limit)) || 200);
     const signals = getSignalsSince(hours, limit);
+    const outcomes = signalTracker.stats({ since: Date.now() - hours * 60 * 60 * 1000 });
 
     const longSignals = signals.filter((s) => s.direction === 'LONG');
     const shortSignals = signals.filter((s) => s.direction === 'SHORT');
@@ -783,6 +804,9 @@ router.get('/signals-night', (req, res) => {
       if (lowConf > 0) suggestions.push('Часть сигналов имела низкую уверенность — не открывать сделки при confidence < 60%.');
       if (highConf < signals.length * 0.5) suggestions.push('Мало сигналов с высокой уверенностью — дождаться конfluence 3/3 или 4+ таймфреймов.');
       if (longSignals.length > 0 && shortSignals.length > 0) suggestions.push('И LONG, и SHORT за период — учитывать HTF и не входить против старшего тренда.');
+      if (outcomes.overall.hitRate != null && outcomes.overall.hitRate < 0.5) {
+        suggestions.push(`Hit rate сигналов ${Math.round(outcomes.overall.hitRate * 100)}% — смотреть /api/signals/stats по триггерам и часам.`);
+      }
     }
 
     res.json({
@@ -794,6 +818,7 @@ router.get('/signals-night', (req, res) => {
       highConfidenceCount: highConf,
       lowConfidenceCount: lowConf,
       bySymbol,
+      outcomes: { overall: outcomes.overall, byTrigger: outcomes.byTrigger },
       signals: signals.slice(0, 50),
       suggestions
     });
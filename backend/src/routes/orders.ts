@@ -103,7 +103,12 @@ router.get('/', (req: Request, res: Response) => {
       status: r.status,
       autoOpened: Boolean(r.auto_opened),
       confidenceAtOpen: r.confidence_at_open,
-      createdAt: r.created_at
+      createdAt: r.created_at,
+      source: r.source,
+      fee: r.fee,
+      funding: r.funding,
+      reconStatus: r.recon_status,
+      reconNote: r.recon_note
     }));
     res.json(orders);
   } catch (e) {
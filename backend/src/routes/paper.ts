@@ -0,0 +1,119 @@
+/**
+ * Paper trading API — виртуальный счёт текущего пользователя (services/paperTrading.ts)
+ * События в реальном времени — WebSocket: { type: 'subscribe_paper', token }
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './auth';
+import { paperTrading, PaperSettings, PAPER_INITIAL_BALANCE } from '../services/paperTrading';
+import { logger } from '../lib/logger';
+
+const router = Router();
+
+router.use(requireAuth);
+
+function userIdOf(req: Request): string {
+  return (req as any).userId as string;
+}
+
+function parseLevels(raw: unknown): number[] | null | undefined {
+  if (raw === undefined) return undefined;
+  if (raw === null) return null;
+  return Array.isArray(raw) ? raw.map(Number).filter((n) => Number.isFinite(n) && n > 0) : undefined;
+}
+
+function parseOptionalPrice(raw: unknown): number | null | undefined {
+  if (raw === undefined) return undefined;
+  if (raw === null || raw === '') return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function parseLimit(raw: unknown, fallback: number): number {
+  const n = parseInt(String(raw ?? ''), 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** GET /api/paper/account — баланс, equity, настройки */
+router.get('/account', (req: Request, res: Response) => {
+  res.json(paperTrading.getAccount(userIdOf(req)));
+});
+
+/** PUT /api/paper/settings — частичное обновление настроек авто-торговли */
+router.put('/settings', (req: Request, res: Response) => {
+  const body = (req.body ?? {}) as Partial<PaperSettings>;
+  res.json(paperTrading.updateSettings(userIdOf(req), body));
+});
+
+/** POST /api/paper/reset { initialBalance? } — сбросить счёт и историю */
+router.post('/reset', (req: Request, res: Response) => {
+  const raw = Number(req.body?.initialBalance);
+  const initialBalance = Number.isFinite(raw) && raw > 0 ? raw : PAPER_INITIAL_BALANCE;
+  res.json(paperTrading.resetAccount(userIdOf(req), initialBalance));
+});
+
+/** GET /api/paper/positions?status=open|closed&limit= */
+router.get('/positions', (req: Request, res: Response) => {
+  const status = req.query.status === 'open' || req.query.status === 'closed' ? req.query.status : undefined;
+  res.json(paperTrading.listPositions(userIdOf(req), { status, limit: parseLimit(req.query.limit, 100) }));
+});
+
+/**
+ * POST /api/paper/positions — открыть позицию
+ * Body: { symbol, direction, margin? | sizePercent?, leverage?, stopLoss?, takeProfit?, trailingStopPct? }
+ */
+router.post('/positions', async (req: Request, res: Response) => {
+  try {
+    const body = req.body ?? {};
+    const result = await paperTrading.openPosition(userIdOf(req), {
+      symbol: String(body.symbol ?? ''),
+      direction: body.direction,
+      margin: body.margin != null ? Number(body.margin) : undefined,
+      sizePercent: body.sizePercent != null ? Number(body.sizePercent) : undefined,
+      leverage: body.leverage != null ? Number(body.leverage) : undefined,
+      stopLoss: parseOptionalPrice(body.stopLoss),
+      takeProfit: parseLevels(body.takeProfit),
+      trailingStopPct: body.trailingStopPct != null ? Number(body.trailingStopPct) : undefined
+    });
+    if (!result.ok) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+    res.status(201).json(result.data);
+  } catch (e) {
+    logger.error('Paper', (e as Error).message);
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** PATCH /api/paper/positions/:id { stopLoss?, takeProfit?, trailingStopPct? } — null снимает уровень */
+router.patch('/positions/:id', (req: Request, res: Response) => {
+  const body = req.body ?? {};
+  const result = paperTrading.updatePosition(userIdOf(req), req.params.id, {
+    stopLoss: parseOptionalPrice(body.stopLoss),
+    takeProfit: parseLevels(body.takeProfit),
+    trailingStopPct: body.trailingStopPct != null ? Number(body.trailingStopPct) : undefined
+  });
+  if (!result.ok) {
+    res.status(404).json({ error: result.error });
+    return;
+  }
+  res.json(result.data);
+});
+
+/** POST /api/paper/positions/:id/close — закрыть по последней цене */
+router.post('/positions/:id/close', (req: Request, res: Response) => {
+  const result = paperTrading.closePositionById(userIdOf(req), req.params.id);
+  if (!result.ok) {
+    res.status(404).json({ error: result.error });
+    return;
+  }
+  res.json(result.data);
+});
+
+/** GET /api/paper/fills?limit= — исполнения (новые первыми) */
+router.get('/fills', (req: Request, res: Response) => {
+  res.json(paperTrading.listFills(userIdOf(req), parseLimit(req.query.limit, 100)));
+});
+
+export default router;
@@ -6,18 +6,39 @@ import { Router, Request, Response } from 'express';
 import { CoinScanner, ScanCriteria, CoinScore } from '../services/coinScanner';
 import { LevelDetector } from '../services/levelDetector';
 import { BreakoutDetector } from '../services/breakoutDetector';
-import { DataAggregator } from '../services/dataAggregator';
+import { getDataAggregator } from '../services/dataAggregator';
 import { FundingRateMonitor } from '../services/fundingRateMonitor';
+import { ExchangeId } from '../services/exchangeAdapters';
 import { buildVolumeProfile } from '../services/clusterAnalyzer';
 import { runMTFAnalysis } from '../services/mtfAnalyzer';
 import { logger } from '../lib/logger';
+import { requestExchange } from './market';
 
 const router = Router();
-const scanner = new CoinScanner();
 const levelDetector = new LevelDetector();
 const breakoutDetector = new BreakoutDetector();
-const dataAgg = new DataAggregator();
-const fundingMonitor = new FundingRateMonitor();
+
+/** Сканер и монитор фандинга — по экземпляру на биржу (параметр ?exchange= / body.exchange) */
+const scanners = new Map<ExchangeId, CoinScanner>();
+const fundingMonitors = new Map<ExchangeId, FundingRateMonitor>();
+
+function getScanner(exchange: ExchangeId): CoinScanner {
+  let scanner = scanners.get(exchange);
+  if (!scanner) {
+    scanner = new CoinScanner(exchange);
+    scanners.set(exchange, scanner);
+  }
+  return scanner;
+}
+
+function getFundingMonitor(exchange: ExchangeId): FundingRateMonitor {
+  let monitor = fundingMonitors.get(exchange);
+  if (!monitor) {
+    monitor = new FundingRateMonitor(exchange);
+    fundingMonitors.set(exchange, monitor);
+  }
+  return monitor;
+}
 
 /**
  * POST /api/scanner/scan
@@ -35,6 +56,8 @@ const fundingMonitor = new FundingRateMonitor();
  * }
  */
 router.post('/scan', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const { symbols, criteria } = req.body;
 
@@ -42,7 +65,7 @@ router.post('/scan', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'symbols array required' });
     }
 
-    const results = await scanner.quickScan(symbols, criteria);
+    const results = await getScanner(exchange).quickScan(symbols, criteria);
 
     res.json({
       success: true,
@@ -65,6 +88,8 @@ router.post('/scan', async (req: Request, res: Response) => {
  * - minVolatility24h: мин. волатильность (default 5%)
  */
 router.get('/top', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const limit = parseInt(req.query.limit as string) || 10;
     const criteria: Partial<ScanCriteria> = {
@@ -75,7 +100,7 @@ router.get('/top', async (req: Request, res: Response) => {
     };
 
     const symbols = CoinScanner.getDefaultSymbols();
-    const results = await scanner.getTopCandidates(symbols, limit, criteria);
+    const results = await getScanner(exchange).getTopCandidates(symbols, limit, criteria);
 
     res.json({
       success: true,
@@ -101,6 +126,9 @@ router.get('/top', async (req: Request, res: Response) => {
  * - sensitivity: low | medium | high (default medium)
  */
 router.get('/levels/:symbol', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const dataAgg = getDataAggregator(exchange);
   try {
     const symbol = req.params.symbol;
     const timeframe = (req.query.timeframe as string) || '15m';
@@ -143,6 +171,9 @@ router.get('/levels/:symbol', async (req: Request, res: Response) => {
  * - timeframe: таймфрейм (default 15m)
  */
 router.get('/breakout/:symbol', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const dataAgg = getDataAggregator(exchange);
   try {
     const symbol = req.params.symbol;
     const timeframe = (req.query.timeframe as string) || '15m';
@@ -184,7 +215,7 @@ router.get('/breakout/:symbol', async (req: Request, res: Response) => {
     // Funding rate как контриндикатор (Phase 2)
     let fundingHint: { shouldAvoidLong: boolean; shouldAvoidShort: boolean } | undefined;
     try {
-      const funding = await fundingMonitor.getFundingRate(symbol);
+      const funding = await getFundingMonitor(exchange).getFundingRate(symbol);
       if (funding) fundingHint = { shouldAvoidLong: funding.shouldAvoidLong, shouldAvoidShort: funding.shouldAvoidShort };
     } catch {
       // ignore
@@ -233,13 +264,16 @@ router.get('/breakout/:symbol', async (req: Request, res: Response) => {
  * }
  */
 router.post('/full-analysis', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const dataAgg = getDataAggregator(exchange);
   try {
     const topN = req.body.topN || 5;
     const criteria = req.body.criteria || {};
 
     // 1. Сканирование топ монет
     const symbols = CoinScanner.getDefaultSymbols();
-    const topCoins = await scanner.getTopCandidates(symbols, topN, criteria);
+    const topCoins = await getScanner(exchange).getTopCandidates(symbols, topN, criteria);
 
     // 2. Для каждой монеты: уровни + пробой
     const analysis = [];
@@ -296,12 +330,14 @@ router.post('/full-analysis', async (req: Request, res: Response) => {
  * Query: timeframes=1m,5m,15m,1h (default)
  */
 router.get('/mtf/:symbol', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const raw = (req.params.symbol || '').replace(/_/g, '-');
     const symbol = raw.includes('-') ? raw : `${raw}-USDT`;
     const tfQuery = (req.query.timeframes as string) || '1m,5m,15m,1h';
     const timeframes = tfQuery.split(',').map((s) => s.trim()).filter(Boolean);
-    const result = await runMTFAnalysis(symbol, timeframes.length ? timeframes : ['1m', '5m', '15m', '1h']);
+    const result = await runMTFAnalysis(symbol, timeframes.length ? timeframes : ['1m', '5m', '15m', '1h'], exchange);
     res.json(result);
   } catch (error) {
     logger.error('Scanner', '/mtf error', { error });
@@ -314,10 +350,12 @@ router.get('/mtf/:symbol', async (req: Request, res: Response) => {
  * Ставка финансирования (MaksBaks Урок 5)
  */
 router.get('/funding/:symbol', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
     const raw = (req.params.symbol || '').replace(/_/g, '-');
     const symbol = raw.includes('-') ? raw : `${raw}-USDT`;
-    const result = await fundingMonitor.getFundingRate(symbol);
+    const result = await getFundingMonitor(exchange).getFundingRate(symbol);
     if (!result) return res.status(404).json({ error: 'Funding rate not available' });
     res.json(result);
   } catch (error) {
@@ -331,6 +369,9 @@ router.get('/funding/:symbol', async (req: Request, res: Response) => {
  * Volume Profile: POC, HVN, LVN (MaksBaks Урок 8)
  */
 router.get('/volume-profile/:symbol', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
+  const dataAgg = getDataAggregator(exchange);
   try {
     const raw = (req.params.symbol || '').replace(/_/g, '-');
     const symbol = raw.includes('-') ? raw : `${raw}-USDT`;
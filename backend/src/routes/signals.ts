@@ -1,79 +1,51 @@
 import { Router, Request, Response } from 'express';
-import * as fs from 'fs';
-import * as path from 'path';
 import { TradingSignal } from '../types/signal';
+import { signalTracker, TrackedSignal, parseSignalFilter } from '../services/signalTracker';
+import { signalGate } from '../services/signalGate';
 import { updateTrailingStop, DEFAULT_TRAILING_CONFIG } from '../lib/trailingStop';
 
 const router = Router();
-const MAX_SIGNALS = 200;
 
-function getDataDir(): string {
-  if (process.env.DATA_DIR) return path.join(process.env.DATA_DIR, 'data');
-  try {
-    if (typeof process !== 'undefined' && (process as NodeJS.Process & { versions?: { electron?: string } }).versions?.electron) {
-      const { app } = require('electron');
-      return path.join(app.getPath('userData'), 'data');
-    }
-  } catch {}
-  return path.join(process.cwd(), 'data');
+/** Сохранить сигнал (SQLite, с разбором анализа) и поставить на отслеживание исхода */
+export function addSignal(signal: TradingSignal, breakdown?: unknown) {
+  signalTracker.record(signal, breakdown);
 }
 
-function getSignalsPath(): string {
-  return path.join(getDataDir(), 'signals.json');
-}
-
-function loadSignals(): TradingSignal[] {
-  try {
-    const p = getSignalsPath();
-    if (fs.existsSync(p)) {
-      const raw = fs.readFileSync(p, 'utf-8');
-      const arr = JSON.parse(raw);
-      return Array.isArray(arr) ? arr : [];
-    }
-  } catch (e) {
-    console.error('loadSignals error:', e);
-  }
-  return [];
-}
-
-function saveSignals(arr: TradingSignal[]): void {
-  try {
-    const dir = getDataDir();
-    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(getSignalsPath(), JSON.stringify(arr, null, 2), 'utf-8');
-  } catch (e) {
-    console.error('saveSignals error:', e);
-  }
-}
-
-let signalsStore: TradingSignal[] = loadSignals();
-
-export function addSignal(signal: TradingSignal) {
-  if (signalsStore.some((s) => s.id === signal.id)) return;
-  signalsStore.unshift(signal);
-  if (signalsStore.length > MAX_SIGNALS) signalsStore = signalsStore.slice(0, MAX_SIGNALS);
-  saveSignals(signalsStore);
-}
-
-export function getSignals(limit = 50): TradingSignal[] {
-  return signalsStore.slice(0, limit);
+export function getSignals(limit = 50): TrackedSignal[] {
+  return signalTracker.list({ limit });
 }
 
 /** Сигналы за последние N часов (для анализа за ночь) */
-export function getSignalsSince(hoursAgo: number, limit = 500): TradingSignal[] {
-  const since = Date.now() - hoursAgo * 60 * 60 * 1000;
-  return signalsStore
-    .filter((s) => new Date(s.timestamp).getTime() >= since)
-    .slice(0, limit);
+export function getSignalsSince(hoursAgo: number, limit = 500): TrackedSignal[] {
+  return signalTracker.list({ since: Date.now() - hoursAgo * 60 * 60 * 1000, limit });
 }
 
+/**
+ * GET /api/signals?symbol=&direction=&minConfidence=&maxConfidence=&trigger=&timeframe=&from=&to=&status=&cursor=&limit=50
+ * Новые первыми; следующая страница — cursor=nextCursor
+ */
 router.get('/', (req, res) => {
-  const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-  res.json(getSignals(limit));
+  const parsed = parseSignalFilter(req.query as Record<string, unknown>);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+  res.json(signalTracker.query(parsed.data));
+});
+
+/** GET /api/signals/stats — hit rate по триггерам, символам, полосам confidence и часу (UTC); те же фильтры */
+router.get('/stats', (req, res) => {
+  const parsed = parseSignalFilter(req.query as Record<string, unknown>);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+  res.json(signalTracker.stats(parsed.data));
+});
+
+/** GET /api/signals/gate?symbol=&limit=50 — конфиг фильтра повторов и подавленные сигналы с причиной (изменение — PUT /api/admin/signals/gate) */
+router.get('/gate', (req, res) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 500);
+  res.json(signalGate.status({ symbol: req.query.symbol ? String(req.query.symbol) : undefined, limit }));
 });
 
+/** Сигнал с разбором анализа (breakdown), статусом и исходом */
 router.get('/:id', (req, res) => {
-  const s = signalsStore.find(x => x.id === req.params.id);
+  const s = signalTracker.get(req.params.id);
   if (!s) return res.status(404).json({ error: 'Signal not found' });
   res.json(s);
 });
@@ -85,7 +57,7 @@ router.get('/:id', (req, res) => {
  * Returns: { newTrailingStop: number }
  */
 router.post('/:id/update-trailing-stop', (req: Request, res: Response) => {
-  const s = signalsStore.find(x => x.id === req.params.id);
+  const s = signalTracker.get(req.params.id);
   if (!s) return res.status(404).json({ error: 'Signal not found' });
   const currentPrice = Number(req.body?.currentPrice);
   const currentStop = req.body?.currentStop != null ? Number(req.body.currentStop) : s.stop_loss;
@@ -1,6 +1,7 @@
 /**
  * Публичная статистика для главной страницы приложения.
  * Ордера (плюс/минус), пользователи, объём заработанных денег, статус.
+ * Сделки OKX из сверки заменяют сопоставленные с ними клиентские записи.
  */
 
 import { Router, Request, Response } from 'express';
@@ -32,8 +33,8 @@ export interface StatsResponse {
 /** GET /api/stats — агрегированная статистика для главной страницы */
 router.get('/', (_req: Request, res: Response) => {
   try {
-    const closed = listOrders({ status: 'closed', limit: 5000 });
-    const open = listOrders({ status: 'open', limit: 100 });
+    const closed = listOrders({ status: 'closed', preferExchange: true, limit: 5000 });
+    const open = listOrders({ status: 'open', preferExchange: true, limit: 100 });
     const withPnl = closed.filter((o) => o.close_price != null && o.close_price > 0 && o.pnl != null);
     const wins = withPnl.filter((o) => (o.pnl ?? 0) > 0);
     const losses = withPnl.filter((o) => (o.pnl ?? 0) < 0);
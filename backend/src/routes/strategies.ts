@@ -0,0 +1,115 @@
+/**
+ * Strategies API — реестр стратегий сигналов (services/strategies): требования к данным и схема параметров.
+ * Выбор стратегии — strategy / strategyParams в сессиях авто-торговли, /api/backtest/run и /api/backtest/strategies/compare
+ * /rules — правиловые стратегии на JSON-DSL (services/ruleStrategies): каталог операндов, проверка, сохранение.
+ * Создание — с авторизацией; изменение и удаление — автор или админ (X-Admin-Token)
+ */
+
+import { Router, Request, Response } from 'express';
+import { getStrategy, listStrategies } from '../services/strategies';
+import { ruleStrategies, ruleCatalog } from '../services/ruleStrategies';
+import { requireAuth } from './auth';
+import { validateAdminToken } from '../services/adminService';
+
+const router = Router();
+
+function userIdOf(req: Request): string {
+  return (req as any).userId as string;
+}
+
+/** Менять правило может автор; правила без автора и чужие — только админ */
+function canModifyRule(req: Request, createdBy: string | null): boolean {
+  return (createdBy != null && createdBy === userIdOf(req)) || validateAdminToken(req.headers['x-admin-token'] as string | undefined);
+}
+
+router.get('/', (_req: Request, res: Response) => {
+  res.json(listStrategies());
+});
+
+/** GET /api/strategies/rules/catalog — индикаторы (с параметрами), паттерны, операторы и TF для редактора */
+router.get('/rules/catalog', (_req: Request, res: Response) => {
+  res.json(ruleCatalog());
+});
+
+router.get('/rules', (_req: Request, res: Response) => {
+  res.json(ruleStrategies.list());
+});
+
+router.get('/rules/:id', (req: Request, res: Response) => {
+  const record = ruleStrategies.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: 'Rule strategy not found' });
+    return;
+  }
+  res.json(record);
+});
+
+/** Проверка без сохранения. 400: { error, errors: [{ path, message }] }; 200 — описание стратегии (требования, параметры) */
+router.post('/rules/validate', (req: Request, res: Response) => {
+  const result = ruleStrategies.validate(req.body);
+  if (!result.ok) {
+    res.status(400).json({ error: result.error, errors: result.errors });
+    return;
+  }
+  res.json(result.data);
+});
+
+/** Body: определение правил ({ id, name, timeframe?, params?, long?, short?, confidence?, exit? }) */
+router.post('/rules', requireAuth, (req: Request, res: Response) => {
+  const result = ruleStrategies.save(req.body, { userId: userIdOf(req), mode: 'create' });
+  if (!result.ok) {
+    res.status(400).json({ error: result.error, errors: result.errors });
+    return;
+  }
+  res.status(201).json(result.data);
+});
+
+/** Заменить определение; id в теле должен совпадать с id в пути */
+router.put('/rules/:id', requireAuth, (req: Request, res: Response) => {
+  const record = ruleStrategies.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: 'Rule strategy not found' });
+    return;
+  }
+  if (!canModifyRule(req, record.createdBy)) {
+    res.status(403).json({ error: 'Only the author or an admin can change this rule strategy' });
+    return;
+  }
+  const body = req.body as { id?: unknown } | null;
+  if (body && typeof body === 'object' && body.id != null && body.id !== req.params.id) {
+    res.status(400).json({ error: 'id cannot be changed', errors: [{ path: 'id', message: 'must match the URL' }] });
+    return;
+  }
+  const result = ruleStrategies.save({ ...(body ?? {}), id: req.params.id }, { userId: userIdOf(req), mode: 'update' });
+  if (!result.ok) {
+    res.status(400).json({ error: result.error, errors: result.errors });
+    return;
+  }
+  res.json(result.data);
+});
+
+router.delete('/rules/:id', requireAuth, (req: Request, res: Response) => {
+  const record = ruleStrategies.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: 'Rule strategy not found' });
+    return;
+  }
+  if (!canModifyRule(req, record.createdBy)) {
+    res.status(403).json({ error: 'Only the author or an admin can delete this rule strategy' });
+    return;
+  }
+  ruleStrategies.remove(record.id);
+  res.json({ ok: true });
+});
+
+router.get('/:id', (req: Request, res: Response) => {
+  const strategy = getStrategy(req.params.id);
+  if (!strategy) {
+    res.status(404).json({ error: 'Strategy not found' });
+    return;
+  }
+  const { analyze: _analyze, ...info } = strategy;
+  res.json(info);
+});
+
+export default router;
@@ -1,11 +1,19 @@
 /**
- * Trading state API — Emotional Filter (cooldown, drawdown, streak)
+ * Trading state API — Emotional Filter (cooldown, drawdown, streak), RiskController (лимиты перед исполнением)
  */
 
 import { Router, Request, Response } from 'express';
 import { emotionalFilterInstance } from '../services/emotionalFilter';
 import { setNotificationConfig, getNotificationConfig } from '../services/notificationService';
 import { fetchPositionsForApi, getTradingBalance, getOpenPositionsCount } from '../services/autoTrader';
+import { positionManager } from '../services/positionManager';
+import { entryOrders } from '../services/entryOrders';
+import { riskGate } from '../services/riskGate';
+import { hasAccountCredentials } from '../services/tradingExchange';
+import { EXCHANGE_IDS, getExchangeAdapter, ExchangeId } from '../services/exchangeAdapters';
+import { requestExchange } from './market';
+import { getRequestUserId } from './auth';
+import { validateAdminToken } from '../services/adminService';
 import { config } from '../config';
 import { logger } from '../lib/logger';
 
@@ -95,26 +103,33 @@ router.get('/notifications', (_req: Request, res: Response) => {
 
 /**
  * GET /api/trading/positions
- * Позиции на OKX (при включённом исполнении). Query: useTestnet=true|false
+ * Позиции на бирже (при включённом исполнении). Query: useTestnet=true|false, exchange (по умолчанию okx)
+ * С Bearer-токеном — счёт пользователя (его ключи), без — серверный счёт из .env (только с x-admin-token)
  */
 router.get('/positions', async (req: Request, res: Response) => {
+  const exchange = requestExchange(req, res);
+  if (!exchange) return;
   try {
-    if (!config.okx.hasCredentials) {
-      res.json({ positions: [], balance: 0, openCount: 0, executionAvailable: false });
+    const userId = getRequestUserId(req);
+    const useTestnet = req.query.useTestnet !== 'false';
+    const serverAllowed = userId != null || validateAdminToken(req.headers['x-admin-token'] as string | undefined);
+    if (!serverAllowed || !hasAccountCredentials(useTestnet, userId, exchange)) {
+      res.json({ positions: [], balance: 0, openCount: 0, executionAvailable: false, exchange, useTestnet, account: userId ? 'user' : 'server' });
       return;
     }
-    const useTestnet = req.query.useTestnet !== 'false';
     const [positions, balance, openCount] = await Promise.all([
-      fetchPositionsForApi(useTestnet),
-      getTradingBalance(useTestnet),
-      getOpenPositionsCount(useTestnet)
+      fetchPositionsForApi(useTestnet, userId, exchange),
+      getTradingBalance(useTestnet, userId, exchange),
+      getOpenPositionsCount(useTestnet, userId, exchange)
     ]);
     res.json({
       positions,
       balance,
       openCount,
       executionAvailable: config.autoTradingExecutionEnabled,
-      useTestnet
+      exchange,
+      useTestnet,
+      account: userId ? 'user' : 'server'
     });
   } catch (error) {
     logger.error('Trading', '/positions error', { error });
@@ -122,14 +137,68 @@ router.get('/positions', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/trading/live-positions
+ * Позиции под управлением positionManager (TP1–TP3, безубыток, трейлинг). Query: status=open|closed, limit
+ * Счёт — как в /positions: пользователя по Bearer-токену или серверный
+ */
+router.get('/live-positions', (req: Request, res: Response) => {
+  const status = req.query.status === 'open' || req.query.status === 'closed' ? req.query.status : undefined;
+  const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit ?? '100'), 10) || 100));
+  res.json(positionManager.list({ status, userId: getRequestUserId(req), limit }));
+});
+
+/**
+ * GET /api/trading/entries
+ * Входы autoTrader: market и лимитные лесенки (ордера, исполнение, итог). Query: status=pending|done, limit
+ */
+router.get('/entries', (req: Request, res: Response) => {
+  const status = req.query.status === 'pending' || req.query.status === 'done' ? req.query.status : undefined;
+  const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit ?? '100'), 10) || 100));
+  res.json(entryOrders.list({ status, userId: getRequestUserId(req), limit }));
+});
+
+/**
+ * GET /api/trading/entry-stats
+ * Доля исполнения и выигрыш к цене сигнала (б.п.) по режимам входа: market / limit / post_only
+ */
+router.get('/entry-stats', (_req: Request, res: Response) => {
+  res.json(entryOrders.stats());
+});
+
+/**
+ * GET /api/trading/risk
+ * Конфиг RiskController, сделки за сегодня и последние решения перед исполнением
+ */
+router.get('/risk', (_req: Request, res: Response) => {
+  try {
+    res.json(riskGate.status());
+  } catch (error) {
+    logger.error('Trading', '/risk error', { error });
+    res.status(500).json({ error: 'Failed to get risk state' });
+  }
+});
+
 /**
  * GET /api/trading/execution-config
- * Доступно ли исполнение и testnet (без секретов)
+ * Доступно ли исполнение и testnet (без секретов); ключи — счёта пользователя по Bearer-токену или серверные (только с x-admin-token).
+ * hasCredentials / credentials — OKX, exchanges — наличие ключей по каждой бирже
  */
-router.get('/execution-config', (_req: Request, res: Response) => {
+router.get('/execution-config', (req: Request, res: Response) => {
+  const userId = getRequestUserId(req);
+  const serverAllowed = userId != null || validateAdminToken(req.headers['x-admin-token'] as string | undefined);
+  const has = (useTestnet: boolean, exchange?: ExchangeId) => serverAllowed && hasAccountCredentials(useTestnet, userId, exchange);
   res.json({
     executionEnabled: config.autoTradingExecutionEnabled,
-    hasCredentials: config.okx.hasCredentials,
+    hasCredentials: has(config.okx.sandbox),
+    credentials: { demo: has(true), live: has(false) },
+    exchanges: EXCHANGE_IDS.map((id) => ({
+      id,
+      name: getExchangeAdapter(id).name,
+      demo: has(true, id),
+      live: has(false, id)
+    })),
+    account: userId ? 'user' : 'server',
     defaultTestnet: config.okx.sandbox
   });
 });
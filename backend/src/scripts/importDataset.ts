@@ -0,0 +1,50 @@
+/**
+ * CLI: импорт CSV/JSON (Binance/OKX) в хранилище наборов данных для бэктеста
+ *
+ *   npm run build && npm run import-dataset -- --symbol BTC-USDT --candles ./BTCUSDT-5m-2024-01.csv \
+ *     [--timeframe 5m] [--trades ./BTCUSDT-trades-2024-01.csv] [--format binance|okx] [--name "Jan 2024"]
+ *
+ * Выводит созданный набор (id — для POST /api/backtest/run { datasetId }).
+ */
+
+import fs from 'fs';
+import { importDataset, DatasetFormat } from '../services/datasetImport';
+import { normalizeSymbol } from '../lib/symbol';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (let k = 0; k < argv.length; k++) {
+    const arg = argv[k];
+    if (!arg.startsWith('--')) continue;
+    const [key, inline] = arg.slice(2).split('=', 2);
+    out[key] = inline ?? argv[++k] ?? '';
+  }
+  return out;
+}
+
+function main(): number {
+  const args = parseArgs(process.argv.slice(2));
+  const symbol = normalizeSymbol(args.symbol ?? '');
+  if (!symbol || !args.candles) {
+    console.error('Usage: import-dataset --symbol BTC-USDT --candles <file> [--timeframe 5m] [--trades <file>] [--format binance|okx] [--name <name>]');
+    return 1;
+  }
+  const format: DatasetFormat = args.format === 'binance' || args.format === 'okx' ? args.format : 'auto';
+  const result = importDataset({
+    symbol,
+    name: args.name,
+    timeframe: args.timeframe,
+    format,
+    candles: fs.readFileSync(args.candles, 'utf8'),
+    trades: args.trades ? fs.readFileSync(args.trades, 'utf8') : undefined
+  });
+  if ('errors' in result) {
+    console.error('Validation failed:');
+    for (const e of result.errors) console.error(`  - ${e}`);
+    return 2;
+  }
+  console.log(JSON.stringify(result.dataset, null, 2));
+  return 0;
+}
+
+process.exitCode = main();
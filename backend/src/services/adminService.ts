@@ -67,7 +67,7 @@ export interface DashboardData {
 const startTime = Date.now();
 
 export async function getDashboardData(): Promise<DashboardData> {
-  const orders = listOrders({ status: 'closed', limit: 500 });
+  const orders = listOrders({ status: 'closed', preferExchange: true, limit: 500 });
   const since24h = Date.now() - 24 * 60 * 60 * 1000;
   const orders24h = orders.filter((o) => new Date(o.open_time).getTime() >= since24h);
   const withPnl = orders24h.filter((o) => o.close_price != null && o.close_price > 0 && o.pnl != null);
@@ -84,7 +84,7 @@ export async function getDashboardData(): Promise<DashboardData> {
     bestTrade = { pnl: best.pnl ?? 0, pair: best.pair };
     worstTrade = { pnl: worst.pnl ?? 0, pair: worst.pair };
   }
-  const openOrders = listOrders({ status: 'open', limit: 20 });
+  const openOrders = listOrders({ status: 'open', preferExchange: true, limit: 20 });
   const efState = emotionalFilter.getState();
   const canOpen = emotionalFilter.canOpenTrade();
   const signals = getSignals(10);
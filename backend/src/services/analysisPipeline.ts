@@ -0,0 +1,449 @@
+/**
+ * Analysis Pipeline — общий конвейер решения для live-анализа и бэктеста
+ * Multi-TF (HTF-first), паттерны, freqtrade-индикаторы, computeSignal, SL/TP-лестница SignalGenerator.
+ * На вход — срез рынка (свечи всех TF, стакан, лента); сетевых запросов нет.
+ */
+
+import { OHLCVCandle, CandlePattern } from '../types/candle';
+import { TradingSignal } from '../types/signal';
+import { CandleAnalyzer } from './candleAnalyzer';
+import { SignalGenerator } from './signalGenerator';
+import { FundamentalFilter } from './fundamentalFilter';
+import {
+  analyzeOrderBook,
+  analyzeTape,
+  analyzeCandles,
+  computeSignal,
+  buildAnalysisBreakdown,
+  AnalysisBreakdown,
+  OrderBookInput,
+  OrderBookResult,
+  TradeInput
+} from './marketAnalysis';
+import { VOLUME_BREAKOUT_MULTIPLIER, volatilitySizeMultiplier, isPotentialFalseBreakout } from '../lib/tradingPrinciples';
+
+export type MtfTimeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+/** Порядок анализа: HTF → LTF */
+export const MTF_ORDER: MtfTimeframe[] = ['1d', '4h', '1h', '15m', '5m', '1m'];
+
+/** Лимиты свечей для глубокого Multi-TF анализа (HTF-first) */
+export const MTF_LIMITS: Record<string, number> = { '1m': 500, '5m': 600, '15m': 400, '1h': 250, '4h': 150, '1d': 150 };
+
+/** Веса: HTF (1d, 4h) определяют тренд, MTF (1h) — подтверждение, LTF (15m, 5m, 1m) — вход */
+export const MTF_WEIGHTS: Record<string, number> = { '1d': 0.25, '4h': 0.20, '1h': 0.20, '15m': 0.15, '5m': 0.10, '1m': 0.10 };
+
+/**
+ * Константы решения конвейера (параметры стратегии default, services/strategies):
+ * веса TF, порог направления Multi-TF, бонусы за согласие TF, штрафы
+ */
+export interface PipelineTuning {
+  mtfWeights: Record<MtfTimeframe, number>;
+  /** Перевес суммы весов TF, с которого Multi-TF задаёт направление */
+  mtfDirectionMargin: number;
+  /** Бонус confidence при согласии 5+ / 4 / 3 TF */
+  alignBonus5: number;
+  alignBonus4: number;
+  alignBonus3: number;
+  /** Штраф при согласии < 3 TF из 5+ */
+  weakAlignPenalty: number;
+  /** Штраф за сигнал против старшего тренда (1d / 4h) */
+  counterHtfPenalty: number;
+}
+
+export const DEFAULT_PIPELINE_TUNING: PipelineTuning = {
+  mtfWeights: { ...MTF_WEIGHTS } as Record<MtfTimeframe, number>,
+  mtfDirectionMargin: 0.15,
+  alignBonus5: 0.10,
+  alignBonus4: 0.06,
+  alignBonus3: 0.02,
+  weakAlignPenalty: 0.08,
+  counterHtfPenalty: 0.15
+};
+
+/** Длительность свечи по TF (ms) */
+export const TIMEFRAME_MS: Record<string, number> = {
+  '1m': 60000, '5m': 300000, '15m': 900000,
+  '1h': 3600000, '4h': 14400000, '1d': 86400000
+};
+
+const TAPE_WINDOWS_MS = { '1m': 60000, '5m': 300000, '15m': 900000, '1h': 3600000 } as const;
+const TAPE_WEIGHTS = { '1m': 0.25, '5m': 0.35, '15m': 0.25, '1h': 0.15 } as const;
+
+export interface TimeframeResult {
+  direction: 'LONG' | 'SHORT' | 'NEUTRAL';
+  score: number;
+}
+
+/** Срез рынка на момент `now` */
+export interface MarketSnapshot {
+  /** Символ в формате BTC-USDT */
+  symbol: string;
+  timeframe: string;
+  mode: string;
+  entryPrice: number;
+  /** Свечи по TF; отсутствующие или короткие (< 5) TF пропускаются */
+  candles: Partial<Record<MtfTimeframe, OHLCVCandle[]>>;
+  /** TF для паттернов, ATR и входа (live — 5m) */
+  entryTimeframe?: MtfTimeframe;
+  /** null — стакан нейтрализован (бэктест без записанного стакана) */
+  orderBook: OrderBookInput | null;
+  /** null — лента нейтрализована */
+  trades: TradeInput[] | null;
+  /** Время среза (ms) — для окон ленты */
+  now: number;
+  /** Биржа в сигнале (по умолчанию OKX) */
+  exchange?: string;
+}
+
+export interface PipelineOptions {
+  /** Кэш результатов по TF (ключ — TF + timestamp последней свечи): HTF не пересчитываются на каждом баре */
+  tfCache?: Map<string, TimeframeResult>;
+  /** По умолчанию DEFAULT_PIPELINE_TUNING */
+  tuning?: PipelineTuning;
+}
+
+export interface PipelineResult {
+  signal: TradingSignal;
+  breakdown: AnalysisBreakdown;
+  patterns: CandlePattern[];
+  rsi: number | null;
+  volumeConfirm: boolean;
+  atr: number | null;
+  /** Заблокировано фундаментальным фильтром (спред/ликвидность) */
+  faBlocked?: boolean;
+}
+
+const candleAnalyzer = new CandleAnalyzer();
+const faFilter = new FundamentalFilter();
+
+/** Нейтральный стакан: не голосует и не блокирует по спреду */
+const NEUTRAL_ORDER_BOOK: OrderBookResult = { direction: 'NEUTRAL', score: 0, spreadPct: 0, domScore: 0, imbalance: 0, bidWalls: 0, askWalls: 0 };
+
+export function detectThreeWhiteSoldiers(candles: { open: number; high: number; close: number }[]): boolean {
+  if (candles.length < 3) return false;
+  const [a, b, c] = candles.slice(-3);
+  return a.close > a.open && b.close > b.open && c.close > c.open &&
+    b.high > a.high && c.high > b.high && a.close < b.open && b.close < c.open;
+}
+
+/** Рыночная структура: HH/HL = бычий, LH/LL = медвежий. Swing = локальный экстремум в окне 3 */
+export function detectMarketStructure(candles: { high: number; low: number; close: number }[]): 'bullish' | 'bearish' | 'neutral' {
+  if (candles.length < 15) return 'neutral';
+  const lookback = 3;
+  const swingHighs: number[] = [];
+  const swingLows: number[] = [];
+  for (let i = lookback; i < candles.length - lookback; i++) {
+    const h = candles[i].high;
+    const l = candles[i].low;
+    let isSH = true, isSL = true;
+    for (let j = 1; j <= lookback; j++) {
+      if (candles[i - j].high >= h || candles[i + j].high >= h) isSH = false;
+      if (candles[i - j].low <= l || candles[i + j].low <= l) isSL = false;
+    }
+    if (isSH) swingHighs.push(h);
+    if (isSL) swingLows.push(l);
+  }
+  const shLast = swingHighs.slice(-4);
+  const slLast = swingLows.slice(-4);
+  if (shLast.length < 2 || slLast.length < 2) return 'neutral';
+  const hh = shLast[shLast.length - 1] > shLast[shLast.length - 2];
+  const hl = slLast[slLast.length - 1] > slLast[slLast.length - 2];
+  const lh = shLast[shLast.length - 1] < shLast[shLast.length - 2];
+  const ll = slLast[slLast.length - 1] < slLast[slLast.length - 2];
+  if (hh && hl) return 'bullish';
+  if (lh && ll) return 'bearish';
+  return 'neutral';
+}
+
+export function detectPatterns(candles: { open: number; high: number; low: number; close: number; volume?: number }[], analyzer: CandleAnalyzer = candleAnalyzer): CandlePattern[] {
+  const patterns: CandlePattern[] = [];
+  if (candles.length < 2) return patterns;
+  const lastCandle = candles[candles.length - 1];
+  const engulfing = analyzer.detectEngulfing(candles as any);
+  if (engulfing !== 'none') patterns.push(engulfing);
+  const prev3 = candles.slice(-4, -1);
+  const priorDown = prev3.filter((c) => c.close < c.open).length >= 2;
+  if (analyzer.detectHammer(lastCandle as any)) patterns.push(priorDown ? 'hammer' : 'hanging_man');
+  if (analyzer.detectInvertedHammer(lastCandle as any)) patterns.push(priorDown ? 'inverted_hammer' : 'shooting_star');
+  if (analyzer.detectDoji(lastCandle as any)) {
+    if (analyzer.detectDragonflyDoji(lastCandle as any)) patterns.push('dragonfly_doji');
+    else if (analyzer.detectGravestoneDoji(lastCandle as any)) patterns.push('gravestone_doji');
+    else patterns.push('doji');
+  }
+  if (analyzer.detectSpinningTop(lastCandle as any)) patterns.push('spinning_top');
+  if (analyzer.detectTweezerTops(candles as any)) patterns.push('tweezer_tops');
+  if (analyzer.detectTweezerBottoms(candles as any)) patterns.push('tweezer_bottoms');
+  const harami = analyzer.detectHarami(candles as any);
+  if (harami !== 'none') patterns.push(harami);
+  if (analyzer.detectPiercingLine(candles as any)) patterns.push('piercing_line');
+  if (analyzer.detectDarkCloudCover(candles as any)) patterns.push('dark_cloud_cover');
+  if (analyzer.detectMorningStar(candles as any)) patterns.push('morning_star');
+  if (analyzer.detectEveningStar(candles as any)) patterns.push('evening_star');
+  if (detectThreeWhiteSoldiers(candles)) patterns.push('three_white_soldiers');
+  if (analyzer.detectThreeBlackCrows(candles as any)) patterns.push('three_black_crows');
+  if (analyzer.detectBullMarubozu(lastCandle as any)) patterns.push('bull_marubozu');
+  if (analyzer.detectBearMarubozu(lastCandle as any)) patterns.push('bear_marubozu');
+  return patterns;
+}
+
+/** Направление одного TF: свечной анализ + EMA (HTF) + рыночная структура */
+export function analyzeTimeframe(tf: string, cs: OHLCVCandle[]): TimeframeResult {
+  const closes = cs.map((c) => c.close);
+  const patterns = detectPatterns(cs, candleAnalyzer);
+  const rsi = candleAnalyzer.getRSI(closes);
+  const macd = candleAnalyzer.getMACD(closes);
+  const bb = candleAnalyzer.getBollingerBands(closes);
+  const ema = candleAnalyzer.getEMA(closes);
+  const bbWidth = candleAnalyzer.getBollingerBandsWidth(closes);
+  const res = analyzeCandles(cs, patterns, rsi ?? null, macd, bb, {
+    patterns, rsi: rsi ?? null, macd, bb, ema, atr: null, macdCrossover: candleAnalyzer.getMACDCrossover(closes),
+    bbWidth: bbWidth?.width, avgBbWidth: bbWidth?.avgWidth
+  });
+  const lastClose = cs[cs.length - 1].close;
+  if (ema && (tf === '1h' || tf === '4h' || tf === '1d')) {
+    if (lastClose > ema.ema21 && lastClose > ema.ema50 && res.direction === 'NEUTRAL') res.direction = 'LONG';
+    else if (lastClose < ema.ema21 && lastClose < ema.ema50 && res.direction === 'NEUTRAL') res.direction = 'SHORT';
+  }
+  const structure = cs.length >= 15 ? detectMarketStructure(cs) : 'neutral';
+  if (structure === 'bullish' && res.direction === 'NEUTRAL') res.direction = 'LONG';
+  if (structure === 'bearish' && res.direction === 'NEUTRAL') res.direction = 'SHORT';
+  return { direction: res.direction, score: res.score };
+}
+
+/**
+ * Полный расчёт сигнала по срезу рынка — та же логика, что в runAnalysis.
+ * ML-корректировка confidence и публикация сигнала остаются на стороне вызывающего.
+ */
+export function evaluateMarket(
+  snapshot: MarketSnapshot,
+  signalGenerator: SignalGenerator,
+  opts?: PipelineOptions
+): PipelineResult {
+  const { symbol: sym, timeframe, mode, entryPrice, now } = snapshot;
+  const entryTf = snapshot.entryTimeframe ?? '5m';
+  const entryCandles = snapshot.candles[entryTf] ?? [];
+  const tuning = opts?.tuning ?? DEFAULT_PIPELINE_TUNING;
+
+  const obSignal = snapshot.orderBook
+    ? analyzeOrderBook({ bids: snapshot.orderBook.bids || [], asks: snapshot.orderBook.asks || [] })
+    : NEUTRAL_ORDER_BOOK;
+
+  const tradesMapped = (snapshot.trades || []).map((t) => ({
+    price: t.price,
+    amount: t.amount,
+    time: t.time,
+    isBuy: t.isBuy ?? false,
+    quoteQuantity: t.quoteQuantity ?? t.price * t.amount
+  }));
+  const tapeSignal = analyzeTape(tradesMapped);
+
+  let tapeLongW = 0;
+  let tapeShortW = 0;
+  const tapeWindowResults: Record<string, { direction: string; delta: number }> = {};
+  for (const w of ['1m', '5m', '15m', '1h'] as const) {
+    const windowTrades = tradesMapped.filter((t) => t.time >= now - TAPE_WINDOWS_MS[w] && t.time <= now);
+    if (windowTrades.length < 5) continue;
+    const res = analyzeTape(windowTrades);
+    tapeWindowResults[w] = { direction: res.direction, delta: res.delta };
+    const wgt = TAPE_WEIGHTS[w];
+    if (res.direction === 'LONG') tapeLongW += wgt;
+    else if (res.direction === 'SHORT') tapeShortW += wgt;
+  }
+  const tapeWindowDir = tapeLongW > tapeShortW + 0.2 ? 'LONG' : tapeShortW > tapeLongW + 0.2 ? 'SHORT' : tapeSignal.direction;
+
+  let longWeight = 0;
+  let shortWeight = 0;
+  const mtfResults: Record<string, TimeframeResult> = {};
+
+  for (const tf of MTF_ORDER) {
+    const cs = snapshot.candles[tf];
+    if (!cs?.length || cs.length < 5) continue;
+    const cacheKey = `${tf}:${cs[cs.length - 1].timestamp}:${cs.length}`;
+    let res = opts?.tfCache?.get(cacheKey);
+    if (!res) {
+      res = analyzeTimeframe(tf, cs);
+      opts?.tfCache?.set(cacheKey, res);
+    }
+    mtfResults[tf] = res;
+    const w = tuning.mtfWeights[tf] ?? 0.2;
+    if (res.direction === 'LONG') longWeight += w;
+    else if (res.direction === 'SHORT') shortWeight += w;
+  }
+
+  const margin = tuning.mtfDirectionMargin;
+  const mtfDir: 'LONG' | 'SHORT' | 'NEUTRAL' = longWeight > shortWeight + margin ? 'LONG' : shortWeight > longWeight + margin ? 'SHORT' : 'NEUTRAL';
+  const mtfScore = Math.max(longWeight, shortWeight) * 15;
+  const mtfAlignCount = Object.values(mtfResults).filter((r) => r.direction === mtfDir).length;
+
+  const candles1d = snapshot.candles['1d'] ?? [];
+  const candles4h = snapshot.candles['4h'] ?? [];
+  const htf1d = candles1d.length >= 15 ? detectMarketStructure(candles1d) : 'neutral';
+  const htf4h = candles4h.length >= 15 ? detectMarketStructure(candles4h) : 'neutral';
+  const htfBull = htf1d === 'bullish' || htf4h === 'bullish';
+  const htfBear = htf1d === 'bearish' || htf4h === 'bearish';
+  const againstHTF = (mtfDir === 'LONG' && htfBear) || (mtfDir === 'SHORT' && htfBull);
+
+  const entryCloses = entryCandles.map((c) => c.close);
+  const rsi = entryCandles.length ? candleAnalyzer.getRSI(entryCloses) : null;
+  let patterns = detectPatterns(entryCandles, candleAnalyzer);
+  // Freqtrade-strategies: BinHV45, ClucMay72018, HLHB, VolatilitySystem, BinHV27 (ADX/emarsi)
+  if (candleAnalyzer.detectBinHV45LowerBB(entryCandles as any)) patterns = [...patterns, 'binhv45_lower_bb_reversal'];
+  if (candleAnalyzer.detectClucLowVolumeDip(entryCandles as any)) patterns = [...patterns, 'cluc_low_volume_dip'];
+  const hlhbDir = candleAnalyzer.detectHLHBCross(entryCandles as any);
+  if (hlhbDir) patterns = [...patterns, hlhbDir === 'LONG' ? 'hlhb_ema_rsi_cross' : 'hlhb_ema_rsi_cross_bear'];
+  const volBreakout = candleAnalyzer.detectVolatilityBreakout(entryCandles);
+  if (volBreakout) patterns = [...patterns, volBreakout === 'LONG' ? 'volatility_breakout' : 'volatility_breakout_bear'];
+  const adx = candleAnalyzer.getADX(entryCandles);
+  if (adx != null && adx > 25) patterns = [...patterns, 'adx_trend'];
+  const emarsi = candleAnalyzer.getEMARSI(entryCloses);
+  if (emarsi != null && emarsi <= 20) patterns = [...patterns, 'emarsi_oversold'];
+  const supertrendDir = candleAnalyzer.getSupertrend(entryCandles);
+  if (supertrendDir) patterns = [...patterns, supertrendDir === 'up' ? 'supertrend_up' : 'supertrend_down'];
+  const lastEntry = entryCandles[entryCandles.length - 1];
+  const highVolatility = lastEntry && lastEntry.close > 0
+    ? (lastEntry.high - lastEntry.low) / lastEntry.close > 0.03
+    : false;
+  const candlesSignal = {
+    direction: mtfDir !== 'NEUTRAL' ? mtfDir : (Object.values(mtfResults)[0]?.direction as 'LONG' | 'SHORT') ?? 'NEUTRAL',
+    score: mtfScore,
+    volumeConfirm: entryCandles.length >= 20 &&
+      (entryCandles[entryCandles.length - 1]?.volume ?? 0) > entryCandles.slice(-20).reduce((s, c) => s + (c.volume ?? 0), 0) / 20 * VOLUME_BREAKOUT_MULTIPLIER,
+    bbSqueeze: false,
+    patterns,
+    rsi,
+    emaTrend: null as 'bullish' | 'bearish' | null,
+    highVolatility,
+    freqtrade: { adx, emarsi, supertrendDir, hlhbDir, volBreakout }
+  };
+  const atr = candleAnalyzer.getATR(entryCandles);
+  const avgAtr = candleAnalyzer.getATRAvg(entryCandles);
+  const volatilityMultiplier = volatilitySizeMultiplier(atr ?? null, avgAtr ?? null);
+  const currVol = entryCandles.length ? (entryCandles[entryCandles.length - 1]?.volume ?? 0) : 0;
+  const avgVol20 = entryCandles.length >= 20 ? entryCandles.slice(-20).reduce((s, c) => s + (c.volume ?? 0), 0) / 20 : 0;
+  const falseBreakoutHint = patterns.some((p) => p.includes('engulfing') || p.includes('breakout'))
+    ? isPotentialFalseBreakout(currVol, avgVol20, true)
+    : false;
+
+  // Layer 2: Fundamental Filter (generate-complete-guide, Burniske) — блок при слабом рынке
+  if (!faFilter.isValid(obSignal.spreadPct)) {
+    const emptyBreakdown = buildAnalysisBreakdown(obSignal, tapeSignal, candlesSignal, { direction: null, confidence: 0, reason: 'FA Failed: spread/liquidity' });
+    const emptySignal = signalGenerator.generateSignal({
+      symbol: sym.replace('-', '/'),
+      exchange: snapshot.exchange ?? 'OKX',
+      direction: 'LONG',
+      entryPrice,
+      patterns: ['none'],
+      confidence: 0,
+      timeframe,
+      mode
+    });
+    return { signal: emptySignal, breakdown: emptyBreakdown, patterns, rsi, volumeConfirm: candlesSignal.volumeConfirm, atr: atr ?? null, faBlocked: true };
+  }
+
+  const tapeForSignal = tapeWindowDir !== 'NEUTRAL'
+    ? { ...tapeSignal, direction: tapeWindowDir as 'LONG' | 'SHORT' }
+    : tapeSignal;
+  const signalResult = computeSignal(
+    {
+      candles: { direction: candlesSignal.direction, score: candlesSignal.score },
+      orderBook: obSignal,
+      tape: tapeForSignal
+    },
+    {
+      spreadPct: obSignal.spreadPct,
+      volumeConfirm: candlesSignal.volumeConfirm,
+      bbSqueeze: candlesSignal.bbSqueeze,
+      tapeDelta: tapeSignal.delta,
+      tapeRecentDelta: tapeSignal.recentDelta,
+      obDomScore: obSignal.domScore,
+      cvdDivergence: tapeSignal.cvdDivergence,
+      highVolatility: candlesSignal.highVolatility,
+      falseBreakoutHint
+    }
+  );
+  const { direction: confluentDir, confidence: confluentConf, confluence } = signalResult;
+
+  let direction: 'LONG' | 'SHORT' = 'LONG';
+  let confidence = 0.65;
+
+  if (confluence && confluentDir) {
+    direction = confluentDir;
+    confidence = confluentConf;
+
+    // Multi-TF alignment bonus — 6 TFs (1d, 4h, 1h, 15m, 5m, 1m) в одном направлении
+    // Корректировка: требуем 4+ TFs для высокого confidence, строже за 2–3
+    if (mtfAlignCount >= 5) confidence = Math.min(0.96, confidence + tuning.alignBonus5);
+    else if (mtfAlignCount >= 4) confidence = Math.min(0.95, confidence + tuning.alignBonus4);
+    else if (mtfAlignCount >= 3) confidence = Math.min(0.90, confidence + tuning.alignBonus3);
+    if (mtfAlignCount < 3 && Object.keys(mtfResults).length >= 5) {
+      confidence = Math.max(0.55, confidence - tuning.weakAlignPenalty);
+    }
+    if (mtfAlignCount < 4 && Object.keys(mtfResults).length >= 5) {
+      confidence = Math.min(confidence, 0.88);
+    }
+    // Усиленный штраф против HTF — часто приводит к убыткам
+    if (againstHTF) confidence = Math.max(0.50, Math.min(confidence - tuning.counterHtfPenalty, 0.70));
+    // Freqtrade: бонус при совпадении HLHB/VolatilityBreakout/Supertrend
+    if (hlhbDir === direction) confidence = Math.min(0.96, confidence + 0.04);
+    if (volBreakout === direction) confidence = Math.min(0.96, confidence + 0.03);
+    if (supertrendDir === (direction === 'LONG' ? 'up' : 'down')) confidence = Math.min(0.95, confidence + 0.02);
+    if (adx != null && adx > 30) confidence = Math.min(0.94, confidence + 0.02);
+  }
+
+  let fallbackReason: string | undefined;
+  if (!confluence || !confluentDir) {
+    const dirs = [obSignal.direction, tapeSignal.direction, candlesSignal.direction];
+    let longCount = dirs.filter((d) => d === 'LONG').length;
+    let shortCount = dirs.filter((d) => d === 'SHORT').length;
+    // Freqtrade: HLHB и VolatilityBreakout добавляют вес направлению
+    if (hlhbDir === 'LONG') longCount += 0.5; else if (hlhbDir === 'SHORT') shortCount += 0.5;
+    if (volBreakout === 'LONG') longCount += 0.5; else if (volBreakout === 'SHORT') shortCount += 0.5;
+    const hasConflict = (longCount > 0 && shortCount > 0);
+    if (hasConflict) {
+      // Аналитика: при конфликте снижаем уверенность — такие сделки чаще убыточны
+      direction = shortCount >= longCount ? 'SHORT' : 'LONG';
+      confidence = 0.55;
+      fallbackReason = `Конфликт компонентов — направление по большинству (${direction}), уверенность снижена. Не рекомендуется к авто-входу.`;
+    } else if (shortCount > longCount) {
+      direction = 'SHORT';
+      confidence = Math.min(0.75, 0.6 + shortCount * 0.04);
+      fallbackReason = `Fallback: направление по голосам компонентов (SHORT), без полной конfluence.`;
+    } else {
+      direction = 'LONG';
+      confidence = Math.min(0.75, 0.6 + Math.max(longCount, 1) * 0.04);
+      fallbackReason = `Fallback: направление по голосам компонентов (LONG), без полной конfluence.`;
+    }
+  }
+
+  const breakdownInput = { ...signalResult, direction, confidence, reason: fallbackReason ?? signalResult.reason };
+  const breakdown = buildAnalysisBreakdown(obSignal, tapeSignal, candlesSignal, breakdownInput);
+  (breakdown as any).multiTF = { ...mtfResults, alignCount: mtfAlignCount };
+  (breakdown as any).tapeWindows = tapeWindowResults;
+  (breakdown as any).volatilityMultiplier = volatilityMultiplier; // Sinclair: уменьшить размер при высокой волатильности
+
+  // Schwager: направление цены для detectFailedSignalHint (последние 5 свечей входного TF)
+  const priceDirection: 'up' | 'down' =
+    entryCandles.length >= 5
+      ? entryCandles[entryCandles.length - 1].close >= entryCandles[entryCandles.length - 5].close
+        ? 'up'
+        : 'down'
+      : 'up';
+
+  const signal = signalGenerator.generateSignal({
+    symbol: sym.replace('-', '/'),
+    exchange: snapshot.exchange ?? 'OKX',
+    direction,
+    entryPrice,
+    patterns: patterns.length ? patterns : ['none'],
+    rsi: rsi ?? undefined,
+    confidence,
+    timeframe,
+    mode,
+    atr: atr ?? undefined,
+    priceDirection,
+    falseBreakoutRisk: falseBreakoutHint
+  });
+
+  return { signal, breakdown, patterns, rsi, volumeConfirm: candlesSignal.volumeConfirm, atr: atr ?? null };
+}
@@ -1,54 +1,75 @@
 /**
- * Auto-Trader — исполнение ордеров через OKX (флаг + testnet)
+ * Auto-Trader — исполнение ордеров на бирже (OKX по умолчанию, BingX, Binance USDT-M, Bybit — exchangeAdapters)
  * ROADMAP: полная автоматизация с рисками — только при AUTO_TRADING_EXECUTION_ENABLED и опционально OKX_SANDBOX.
  */
 
-import ccxt, { Exchange } from 'ccxt';
+import { Exchange } from 'ccxt';
 import { config } from '../config';
-import { toOkxCcxtSymbol } from '../lib/symbol';
 import { normalizeSymbol } from '../lib/symbol';
 import { TradingSignal } from '../types/signal';
 import { emotionalFilterInstance } from './emotionalFilter';
 import { logger } from '../lib/logger';
+import { buildExchange, getTradingExchange, getAccountCredentials, hasAccountCredentials } from './tradingExchange';
+import { positionManager } from './positionManager';
+import { entryOrders, EntryMode } from './entryOrders';
+import { calcOrderSize, MarketLimits, SizingMode } from '../lib/positionSizing';
+import { riskGate, RiskDecisionSource } from './riskGate';
+import { killSwitch } from './killSwitch';
+import { ExchangeId, DEFAULT_EXCHANGE, getExchangeAdapter } from './exchangeAdapters';
 
 export interface ExecuteOptions {
-  /** Доля баланса на позицию (0–100) */
+  /** Режим расчёта размера (по умолчанию fixed — sizePercent баланса как маржа) */
+  sizingMode?: SizingMode;
+  /** Доля баланса на позицию (0–100) — fixed, volatility */
   sizePercent: number;
+  /** Риск на сделку, % депозита — режим risk */
+  riskPercent?: number;
+  /** Доля Келли (0–1) — режим kelly */
+  kellyFraction?: number;
+  /** Множитель волатильности из breakdown анализа — режим volatility */
+  volatilityMultiplier?: number;
   /** Плечо */
   leverage: number;
   /** Макс. открытых позиций */
   maxPositions: number;
-  /** Использовать testnet (OKX demo) */
+  /** Биржа исполнения (по умолчанию OKX) */
+  exchange?: ExchangeId;
+  /** Использовать testnet / демо-счёт биржи */
   useTestnet?: boolean;
+  /** Счёт пользователя (ключи из exchange_credentials); без userId — серверный аккаунт из .env */
+  userId?: string | null;
+  /** Вход: market (по умолчанию) или limit / post_only в зоне пробоя (signal.entry_zone) */
+  entryMode?: EntryMode;
+  /** Кол-во ордеров лесенки в зоне входа (1 — только optimal) */
+  ladderSteps?: number;
+  /** Кто исполняет — для журнала RiskGate (по умолчанию manual) */
+  source?: RiskDecisionSource;
 }
 
 export interface ExecuteResult {
   ok: boolean;
   orderId?: string;
+  /** Номинал позиции, USDT */
   positionSize?: number;
+  /** Объём ордера, контракты */
+  contracts?: number;
   error?: string;
 }
 
-function buildExchange(useTestnet: boolean): Exchange {
-  const opts: Record<string, unknown> = {
-    apiKey: config.okx.apiKey,
-    secret: config.okx.secret,
-    password: config.okx.passphrase,
-    enableRateLimit: true,
-    options: {
-      defaultType: 'swap',
-      sandboxMode: useTestnet
-    },
-    timeout: 20000
-  };
-  if (config.proxy) (opts as any).httpsProxy = config.proxy;
-  return new ccxt.okx(opts);
+/** Позиции USDT-M perpetual счёта (OKX — фильтр по типу инструмента) */
+function fetchSwapPositions(exchange: Exchange, exchangeId: ExchangeId) {
+  return exchange.fetchPositions(exchangeId === 'okx' ? ['swap'] : undefined);
 }
 
 /** Получить доступный баланс (USDT) для маржи */
-export async function getTradingBalance(useTestnet: boolean): Promise<number> {
-  if (!config.okx.hasCredentials) return 0;
-  const exchange = buildExchange(useTestnet);
+export async function getTradingBalance(
+  useTestnet: boolean,
+  userId: string | null = null,
+  exchangeId: ExchangeId = DEFAULT_EXCHANGE
+): Promise<number> {
+  const credentials = getAccountCredentials(useTestnet, userId, exchangeId);
+  if (!credentials) return 0;
+  const exchange = buildExchange(useTestnet, credentials, exchangeId);
   try {
     const balance = await exchange.fetchBalance();
     const usdt = (balance as any).USDT ?? balance?.usdt;
@@ -56,39 +77,62 @@ export async function getTradingBalance(useTestnet: boolean): Promise<number> {
     const free = usdt?.free ?? total;
     return typeof free === 'number' ? free : 0;
   } catch (e) {
-    logger.warn('AutoTrader', 'fetchBalance failed', { error: (e as Error).message });
+    logger.warn('AutoTrader', 'fetchBalance failed', { exchange: exchangeId, error: (e as Error).message });
     return 0;
   }
 }
 
-/** Количество открытых позиций (swap) с ненулевым размером */
-export async function getOpenPositionsCount(useTestnet: boolean): Promise<number> {
-  if (!config.okx.hasCredentials) return 0;
-  const exchange = buildExchange(useTestnet);
+/** Символы открытых позиций (swap) с ненулевым размером — по одному на позицию */
+export async function getOpenPositionSymbols(
+  useTestnet: boolean,
+  userId: string | null = null,
+  exchangeId: ExchangeId = DEFAULT_EXCHANGE
+): Promise<string[]> {
+  const credentials = getAccountCredentials(useTestnet, userId, exchangeId);
+  if (!credentials) return [];
+  const exchange = buildExchange(useTestnet, credentials, exchangeId);
   try {
-    const positions = await exchange.fetchPositions(['swap']);
+    const positions = await fetchSwapPositions(exchange, exchangeId);
     const withSize = positions.filter((p: any) => {
       const contracts = Number(p.contracts ?? p.contractSize ?? 0);
       const size = Number(p.info?.pos ?? p.contracts ?? 0);
       return (contracts !== 0 || size !== 0) && (p.side === 'long' || p.side === 'short');
     });
-    return withSize.length;
+    return withSize.map((p: any) => normalizeSymbol(p.symbol ?? p.info?.instId ?? ''));
   } catch (e) {
-    logger.warn('AutoTrader', 'fetchPositions failed', { error: (e as Error).message });
-    return 0;
+    logger.warn('AutoTrader', 'fetchPositions failed', { exchange: exchangeId, error: (e as Error).message });
+    return [];
   }
 }
 
+/** Количество открытых позиций (swap) с ненулевым размером */
+export async function getOpenPositionsCount(
+  useTestnet: boolean,
+  userId: string | null = null,
+  exchangeId: ExchangeId = DEFAULT_EXCHANGE
+): Promise<number> {
+  return (await getOpenPositionSymbols(useTestnet, userId, exchangeId)).length;
+}
+
 /**
- * Исполнить сигнал: маркет-ордер + SL/TP (TP1).
- * Проверяет: credentials, emotional filter, max positions, баланс.
+ * Исполнить сигнал: маркет-ордер (или лимитная лесенка — entryOrders), затем сопровождение в positionManager
+ * (стоп-ордер, TP1–TP3, трейлинг). Счёт — options.userId (ключи пользователя) или серверный.
+ * Проверяет: credentials счёта, kill switch, emotional filter, max positions (с учётом ожидающих входов), баланс,
+ * RiskGate (лимиты RiskController) — обязательно для авто и ручного исполнения.
  */
 export async function executeSignal(
   signal: TradingSignal,
   options: ExecuteOptions
 ): Promise<ExecuteResult> {
-  if (!config.okx.hasCredentials) {
-    return { ok: false, error: 'OKX credentials not set' };
+  const useTestnet = options.useTestnet ?? config.okx.sandbox;
+  const userId = options.userId ?? null;
+  const adapter = getExchangeAdapter(options.exchange);
+  if (!hasAccountCredentials(useTestnet, userId, adapter.id)) {
+    return { ok: false, error: userId ? `${adapter.name} keys not saved for this account` : `${adapter.name} credentials not set` };
+  }
+
+  if (killSwitch.isEngaged()) {
+    return { ok: false, error: 'Kill switch engaged: execution disabled until re-armed' };
   }
 
   const canOpen = emotionalFilterInstance.canOpenTrade();
@@ -96,58 +140,110 @@ export async function executeSignal(
     return { ok: false, error: canOpen.reason ?? 'Emotional filter: trading paused' };
   }
 
-  const useTestnet = options.useTestnet ?? config.okx.sandbox;
-  const openCount = await getOpenPositionsCount(useTestnet);
-  if (openCount >= options.maxPositions) {
+  const symbol = normalizeSymbol(signal.symbol);
+  const openSymbols = [
+    ...(await getOpenPositionSymbols(useTestnet, userId, adapter.id)),
+    ...entryOrders.pendingSymbols(userId, adapter.id)
+  ];
+  if (openSymbols.length >= options.maxPositions) {
     return { ok: false, error: `Max positions (${options.maxPositions}) reached` };
   }
 
-  const balance = await getTradingBalance(useTestnet);
+  const balance = await getTradingBalance(useTestnet, userId, adapter.id);
   if (balance <= 0) {
     return { ok: false, error: 'No balance available' };
   }
 
-  const symbol = normalizeSymbol(signal.symbol);
-  const ccxtSymbol = toOkxCcxtSymbol(symbol) || 'BTC/USDT:USDT';
-  const entryPrice = signal.entry_price ?? 0;
-  const stopLoss = signal.stop_loss ?? 0;
-  const takeProfit1 = Array.isArray(signal.take_profit) && signal.take_profit.length
-    ? signal.take_profit[0]
-    : entryPrice * (signal.direction === 'LONG' ? 1.02 : 0.98);
-
-  const margin = (balance * options.sizePercent) / 100;
-  const positionValue = margin * options.leverage;
-  const amount = positionValue / entryPrice; // контракты в базе (BTC и т.д.)
+  const gate = riskGate.check({
+    source: options.source ?? 'manual',
+    symbol,
+    direction: signal.direction,
+    positions: openSymbols.length,
+    positionsForSymbol: openSymbols.filter((s) => s === symbol).length,
+    balance
+  });
+  if (!gate.ok) return { ok: false, error: gate.error };
 
-  if (amount <= 0 || !Number.isFinite(amount)) {
-    return { ok: false, error: 'Invalid position size' };
+  const ccxtSymbol = adapter.toCcxtSymbol(symbol) || 'BTC/USDT:USDT';
+  const entryPrice = signal.entry_price ?? 0;
+  const stopLoss = signal.trailing_stop_config?.initial_stop ?? signal.stop_loss ?? 0;
+  if (!(stopLoss > 0)) {
+    return { ok: false, error: 'Signal has no stop loss' };
   }
 
-  const exchange = buildExchange(useTestnet);
+  let exchange: Exchange;
+  let limits: MarketLimits;
+  try {
+    exchange = await getTradingExchange(useTestnet, userId, adapter.id);
+    const market = exchange.market(ccxtSymbol);
+    limits = {
+      contractSize: Number(market.contractSize) || 1,
+      amountStep: Number(market.precision?.amount) || 0,
+      minAmount: Number(market.limits?.amount?.min) || 0,
+      minNotional: Number(market.limits?.cost?.min) || 0
+    };
+  } catch (e) {
+    return { ok: false, error: `Market metadata unavailable: ${(e as Error).message}` };
+  }
+  const sized = calcOrderSize(
+    {
+      mode: options.sizingMode ?? 'fixed',
+      sizePercent: options.sizePercent,
+      riskPercent: options.riskPercent,
+      kellyFraction: options.kellyFraction,
+      leverage: options.leverage
+    },
+    {
+      balance,
+      entryPrice,
+      stopLoss,
+      confidence: signal.confidence ?? 0,
+      riskReward: signal.risk_reward ?? 0,
+      volatilityMultiplier: options.volatilityMultiplier
+    },
+    limits
+  );
+  if (!sized.ok) return { ok: false, error: sized.error };
+  const amount = sized.data.contracts;
+  const positionValue = sized.data.notional;
+  logger.info('AutoTrader', `Sized ${symbol} (${options.sizingMode ?? 'fixed'})`, {
+    contracts: amount,
+    notional: positionValue,
+    riskUsd: sized.data.riskUsd,
+    capped: sized.data.capped
+  });
 
   try {
-    await exchange.setLeverage(options.leverage, ccxtSymbol, { marginMode: 'isolated' });
+    await adapter.prepareSymbol(exchange, ccxtSymbol, options.leverage);
   } catch (e) {
     logger.warn('AutoTrader', 'setLeverage failed', { symbol: ccxtSymbol, error: (e as Error).message });
   }
 
-  const side = signal.direction === 'LONG' ? 'buy' : 'sell';
-  const params: Record<string, unknown> = {
-    tdMode: 'isolated'
-  };
-  if (stopLoss > 0) {
-    params.stopLoss = {
-      triggerPrice: stopLoss,
-      type: 'market'
-    };
-  }
-  if (takeProfit1 > 0 && takeProfit1 !== entryPrice) {
-    params.takeProfit = {
-      triggerPrice: takeProfit1,
-      type: 'market'
-    };
+  if (options.entryMode === 'limit' || options.entryMode === 'post_only') {
+    try {
+      const placed = await entryOrders.place({
+        signal,
+        amount,
+        leverage: options.leverage,
+        exchange: adapter.id,
+        useTestnet,
+        userId,
+        mode: options.entryMode,
+        ladderSteps: options.ladderSteps ?? 1
+      });
+      if (!placed.ok) return { ok: false, error: placed.error };
+      riskGate.recordTrade();
+      return { ok: true, orderId: placed.data.id, positionSize: positionValue, contracts: amount };
+    } catch (e) {
+      const errMsg = (e as Error).message;
+      logger.error('AutoTrader', 'limit entry failed', { symbol: signal.symbol, error: errMsg });
+      return { ok: false, error: errMsg };
+    }
   }
 
+  const side = signal.direction === 'LONG' ? 'buy' : 'sell';
+  const params = adapter.orderParams();
+
   try {
     const order = await exchange.createOrder(
       ccxtSymbol,
@@ -157,14 +253,39 @@ export async function executeSignal(
       undefined,
       params
     );
-    const orderId = (order as any).id ?? (order as any).orderId;
+    const orderId = String((order as any).id ?? (order as any).orderId);
+    let filled = amount;
+    let avgPrice = entryPrice;
+    try {
+      const fill = await exchange.fetchOrder(orderId, ccxtSymbol);
+      if (Number(fill.filled) > 0) filled = Number(fill.filled);
+      if (Number(fill.average) > 0) avgPrice = Number(fill.average);
+    } catch (e) {
+      logger.warn('AutoTrader', 'fetchOrder failed, using requested size', { orderId, error: (e as Error).message });
+    }
     logger.info('AutoTrader', `Order placed: ${signal.symbol} ${signal.direction}`, {
       orderId,
-      amount,
-      entryPrice: entryPrice,
+      amount: filled,
+      entryPrice: avgPrice,
+      exchange: adapter.id,
       useTestnet
     });
-    return { ok: true, orderId, positionSize: positionValue };
+    riskGate.recordTrade();
+    entryOrders.recordMarket({ orderId, signal, amount: filled, avgPrice, leverage: options.leverage, exchange: adapter.id, useTestnet, userId });
+    const managed = await positionManager.track({
+      orderId,
+      signal,
+      amount: filled,
+      entryPrice: avgPrice,
+      leverage: options.leverage,
+      exchange: adapter.id,
+      useTestnet,
+      userId
+    });
+    if (!managed) {
+      return { ok: false, orderId, error: 'Stop-loss order rejected, position closed' };
+    }
+    return { ok: true, orderId, positionSize: positionValue, contracts: filled };
   } catch (e: any) {
     const errMsg = e?.message ?? String(e);
     logger.error('AutoTrader', 'createOrder failed', { symbol: signal.symbol, error: errMsg });
@@ -173,9 +294,13 @@ export async function executeSignal(
 }
 
 /**
- * Список позиций с OKX (для UI).
+ * Список позиций счёта на бирже (для UI).
  */
-export async function fetchPositionsForApi(useTestnet: boolean): Promise<Array<{
+export async function fetchPositionsForApi(
+  useTestnet: boolean,
+  userId: string | null = null,
+  exchangeId: ExchangeId = DEFAULT_EXCHANGE
+): Promise<Array<{
   symbol: string;
   side: string;
   contracts: number;
@@ -184,10 +309,11 @@ export async function fetchPositionsForApi(useTestnet: boolean): Promise<Array<{
   unrealizedPnl?: number;
   leverage: number;
 }>> {
-  if (!config.okx.hasCredentials) return [];
-  const exchange = buildExchange(useTestnet);
+  const credentials = getAccountCredentials(useTestnet, userId, exchangeId);
+  if (!credentials) return [];
+  const exchange = buildExchange(useTestnet, credentials, exchangeId);
   try {
-    const positions = await exchange.fetchPositions(['swap']);
+    const positions = await fetchSwapPositions(exchange, exchangeId);
     return positions
       .filter((p: any) => {
         const sz = Number(p.contracts ?? p.info?.pos ?? 0);
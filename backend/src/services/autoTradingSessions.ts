@@ -0,0 +1,502 @@
+/**
+ * Сессии авто-торговли — несколько одновременных сессий со своими настройками
+ * - Сессия: владелец (пользователь или анонимный клиент), символы, таймфрейм, режим, настройки исполнения, статус
+ * - Статус (running / paused / stopped) и конфиг — в SQLite; после перезапуска running-сессии возобновляются
+ * - Журнал и поток сигналов сессии — auto_trading_session_logs и события подписчикам (WebSocket)
+ * - Сам цикл анализа и исполнения передаётся в init (routes/market.ts runSessionCycle)
+ */
+
+import {
+  saveAutoTradingSession,
+  listAutoTradingSessions,
+  deleteAutoTradingSession,
+  insertAutoTradingSessionLog,
+  listAutoTradingSessionLogs,
+  pruneAutoTradingSessionLogs,
+  AutoTradingSessionRow,
+  AutoTradingSessionLogRow
+} from '../db';
+import { EntryMode, MAX_LADDER_STEPS } from './entryOrders';
+import { hasAccountCredentials } from './tradingExchange';
+import { killSwitch } from './killSwitch';
+import { ExchangeId, DEFAULT_EXCHANGE, parseExchangeId, getExchangeAdapter } from './exchangeAdapters';
+import { StrategyParams, DEFAULT_STRATEGY_ID, parseStrategySelection, supportsTimeframe } from './strategies';
+import { SizingMode, SIZING_MODES, DEFAULT_KELLY_FRACTION } from '../lib/positionSizing';
+import { RISK_PCT_PER_TRADE, RISK_MAX_PCT } from '../lib/tradingPrinciples';
+import { TradingSignal } from '../types/signal';
+import { config } from '../config';
+import { logger } from '../lib/logger';
+
+export const MAX_SESSION_SYMBOLS = 5;
+/** Активных (running / paused) сессий на владельца */
+export const MAX_ACTIVE_SESSIONS_PER_OWNER = 5;
+const LOG_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const ANALYSIS_MODES = ['default', 'scalping', 'futures25x'];
+
+export type AutoSessionStatus = AutoTradingSessionRow['status'];
+export type AutoSessionLogLevel = AutoTradingSessionLogRow['level'];
+
+/** Настройки исполнения на бирже сессии (только fullAuto) */
+export interface AutoSessionExecution {
+  executeOrders: boolean;
+  useTestnet: boolean;
+  maxPositions: number;
+  sizePercent: number;
+  leverage: number;
+  entryMode: EntryMode;
+  ladderSteps: number;
+  sizingMode: SizingMode;
+  riskPercent: number;
+  kellyFraction: number;
+}
+
+export interface AutoSessionConfig {
+  /** Биржа данных и исполнения */
+  exchange: ExchangeId;
+  symbols: string[];
+  timeframe: string;
+  /** Режим анализа: default / scalping / futures25x (fullAuto всегда futures25x) */
+  mode: string;
+  /** Стратегия сигналов (services/strategies) */
+  strategy: string;
+  /** Переопределения параметров стратегии */
+  strategyParams: StrategyParams;
+  intervalMs: number;
+  /** Полный автомат: лучший сигнал по всем парам, опционально исполнение */
+  fullAuto: boolean;
+  useScanner: boolean;
+  execution: AutoSessionExecution;
+}
+
+export interface AutoTradingSession {
+  id: string;
+  /** Владелец (null — анонимный клиент, исполнение на серверном счёте) */
+  userId: string | null;
+  name: string;
+  status: AutoSessionStatus;
+  config: AutoSessionConfig;
+  createdAt: number;
+  updatedAt: number;
+  lastRunAt: number | null;
+  lastError: string | null;
+}
+
+export interface AutoSessionLogEntry {
+  id: number;
+  sessionId: string;
+  time: number;
+  level: AutoSessionLogLevel;
+  message: string;
+  details: unknown;
+}
+
+export interface AutoSessionEvent {
+  sessionId: string;
+  userId: string | null;
+  /** status — изменение сессии, log / signal — запись журнала, removed — сессия удалена */
+  type: 'status' | 'log' | 'signal' | 'removed';
+  data: AutoTradingSession | AutoSessionLogEntry | null;
+}
+
+/** Журнал и поток сигналов для цикла сессии */
+export interface SessionCycleContext {
+  log(level: Exclude<AutoSessionLogLevel, 'signal'>, message: string, details?: unknown): void;
+  signal(signal: TradingSignal, details?: unknown): void;
+}
+
+export type SessionCycleRunner = (session: AutoTradingSession, ctx: SessionCycleContext) => Promise<void>;
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+function clampInt(raw: unknown, min: number, max: number, fallback: number): number {
+  return Math.max(min, Math.min(max, parseInt(String(raw)) || fallback));
+}
+
+function clampNumber(raw: unknown, min: number, max: number, fallback: number): number {
+  return Math.max(min, Math.min(max, Number(raw) || fallback));
+}
+
+/**
+ * Конфиг сессии из тела запроса (поля как у POST /api/market/auto-analyze/start: exchange, symbols | symbol, timeframe,
+ * mode, strategy, strategyParams, intervalMs, fullAuto, useScanner и настройки исполнения на верхнем уровне или в execution)
+ */
+export function parseSessionConfig(body: unknown): Result<AutoSessionConfig> {
+  if (!body || typeof body !== 'object') return { ok: false, error: 'Body must be an object' };
+  const b = body as Record<string, any>;
+  const exec: Record<string, any> = b.execution && typeof b.execution === 'object' ? { ...b, ...b.execution } : b;
+  const exchange = parseExchangeId(b.exchange);
+  if (!exchange.ok) return exchange;
+
+  const symbolsRaw = b.symbols ?? b.symbol;
+  const symbols = (Array.isArray(symbolsRaw) ? symbolsRaw : [symbolsRaw ?? 'BTC-USDT'])
+    .map((s: unknown) => String(s || '').trim().toUpperCase().replace(/_/g, '-'))
+    .filter(Boolean);
+  const syms = [...new Set(symbols)].slice(0, MAX_SESSION_SYMBOLS);
+  if (syms.length === 0) syms.push('BTC-USDT');
+
+  const timeframe = typeof b.timeframe === 'string' && b.timeframe ? b.timeframe : '5m';
+  if (!(timeframe in config.timeframes)) return { ok: false, error: `Unknown timeframe ${timeframe}` };
+  const mode = typeof b.mode === 'string' && b.mode ? b.mode : 'default';
+  if (!ANALYSIS_MODES.includes(mode)) return { ok: false, error: `mode: ${ANALYSIS_MODES.join(' | ')}` };
+  const strategy = parseStrategySelection(b.strategy, b.strategyParams);
+  if (!strategy.ok) return strategy;
+  if (!supportsTimeframe(strategy.data.strategy, timeframe)) {
+    return { ok: false, error: `Strategy ${strategy.data.strategy.id} does not support timeframe ${timeframe}` };
+  }
+
+  const fullAuto = Boolean(b.fullAuto);
+  const entryMode: EntryMode = exec.entryMode === 'limit' || exec.entryMode === 'post_only' ? exec.entryMode : 'market';
+  return {
+    ok: true,
+    data: {
+      exchange: exchange.data,
+      symbols: syms,
+      timeframe,
+      mode: fullAuto ? 'futures25x' : mode,
+      strategy: strategy.data.strategy.id,
+      strategyParams: strategy.data.params,
+      intervalMs: clampInt(b.intervalMs, 30000, 300000, 60000),
+      fullAuto,
+      useScanner: fullAuto && Boolean(b.useScanner),
+      execution: {
+        executeOrders: fullAuto && Boolean(exec.executeOrders),
+        useTestnet: exec.useTestnet !== false,
+        maxPositions: clampInt(exec.maxPositions, 1, 10, 2),
+        sizePercent: clampInt(exec.sizePercent, 1, 50, 5),
+        leverage: clampInt(exec.leverage, 1, 125, 25),
+        entryMode,
+        ladderSteps: clampInt(exec.ladderSteps, 1, MAX_LADDER_STEPS, 1),
+        sizingMode: SIZING_MODES.includes(exec.sizingMode) ? exec.sizingMode : 'fixed',
+        riskPercent: clampNumber(exec.riskPercent, 0.1, RISK_MAX_PCT * 100, RISK_PCT_PER_TRADE * 100),
+        kellyFraction: clampNumber(exec.kellyFraction, 0.05, 1, DEFAULT_KELLY_FRACTION)
+      }
+    }
+  };
+}
+
+function fromRow(row: AutoTradingSessionRow): AutoTradingSession | null {
+  try {
+    return {
+      id: row.id,
+      userId: row.user_id ?? null,
+      name: row.name,
+      status: row.status,
+      // Сессии до появления других бирж — OKX, до стратегий — default
+      config: {
+        exchange: DEFAULT_EXCHANGE,
+        strategy: DEFAULT_STRATEGY_ID,
+        strategyParams: {},
+        ...(JSON.parse(row.config) as Partial<AutoSessionConfig>)
+      } as AutoSessionConfig,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      lastRunAt: row.last_run_at,
+      lastError: row.last_error
+    };
+  } catch (e) {
+    logger.warn('AutoSessions', `Session ${row.id}: invalid config`, { error: (e as Error).message });
+    return null;
+  }
+}
+
+function toRow(s: AutoTradingSession): AutoTradingSessionRow {
+  return {
+    id: s.id,
+    user_id: s.userId,
+    name: s.name,
+    config: JSON.stringify(s.config),
+    status: s.status,
+    created_at: s.createdAt,
+    updated_at: s.updatedAt,
+    last_run_at: s.lastRunAt,
+    last_error: s.lastError
+  };
+}
+
+function toLogEntry(row: AutoTradingSessionLogRow): AutoSessionLogEntry {
+  let details: unknown = null;
+  try {
+    details = row.details ? JSON.parse(row.details) : null;
+  } catch {
+    details = row.details;
+  }
+  return { id: row.id, sessionId: row.session_id, time: row.time, level: row.level, message: row.message, details };
+}
+
+function signalSummary(signal: TradingSignal) {
+  return {
+    id: signal.id,
+    symbol: signal.symbol,
+    direction: signal.direction,
+    confidence: signal.confidence,
+    entry_price: signal.entry_price,
+    stop_loss: signal.stop_loss,
+    take_profit: signal.take_profit,
+    risk_reward: signal.risk_reward,
+    timeframe: signal.timeframe
+  };
+}
+
+export class AutoTradingSessionManager {
+  private sessions = new Map<string, AutoTradingSession>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  /** Сессии с незавершённым циклом — следующий тик пропускается */
+  private busy = new Set<string>();
+  private runner: SessionCycleRunner | null = null;
+  private loaded = false;
+  private listeners = new Set<(e: AutoSessionEvent) => void>();
+
+  /** Загрузить сессии из БД и возобновить running */
+  init(runner: SessionCycleRunner): void {
+    this.runner = runner;
+    if (this.loaded) return;
+    this.loaded = true;
+    pruneAutoTradingSessionLogs(Date.now() - LOG_RETENTION_MS);
+    for (const row of listAutoTradingSessions()) {
+      const session = fromRow(row);
+      if (session) this.sessions.set(session.id, session);
+    }
+    const resumed = [...this.sessions.values()].filter((s) => s.status === 'running');
+    for (const session of resumed) {
+      this.log(session, 'info', 'Resumed after restart');
+      this.schedule(session);
+    }
+    if (resumed.length > 0) logger.info('AutoSessions', `Resumed ${resumed.length} session(s)`);
+  }
+
+  onEvent(listener: (e: AutoSessionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Сессии владельца (userId, null — анонимные); без аргумента — все */
+  list(userId?: string | null): AutoTradingSession[] {
+    return [...this.sessions.values()]
+      .filter((s) => userId === undefined || s.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((s) => this.snapshot(s));
+  }
+
+  /** Сессия владельца; чужая — как несуществующая */
+  get(id: string, userId?: string | null): AutoTradingSession | null {
+    const session = this.sessions.get(id);
+    if (!session || (userId !== undefined && session.userId !== userId)) return null;
+    return this.snapshot(session);
+  }
+
+  /** Создать и запустить сессию */
+  create(userId: string | null, sessionConfig: AutoSessionConfig, name?: string): Result<AutoTradingSession> {
+    const active = [...this.sessions.values()].filter((s) => s.userId === userId && s.status !== 'stopped').length;
+    if (active >= MAX_ACTIVE_SESSIONS_PER_OWNER) {
+      return { ok: false, error: `Too many active sessions (max ${MAX_ACTIVE_SESSIONS_PER_OWNER}): stop one first` };
+    }
+    const startable = this.checkStartable(userId, sessionConfig);
+    if (!startable.ok) return startable;
+    const now = Date.now();
+    const session: AutoTradingSession = {
+      id: `as_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      name: (name ?? '').trim().slice(0, 60) || sessionConfig.symbols.join(', '),
+      status: 'running',
+      config: sessionConfig,
+      createdAt: now,
+      updatedAt: now,
+      lastRunAt: null,
+      lastError: null
+    };
+    this.sessions.set(session.id, session);
+    this.persist(session);
+    this.log(session, 'info', 'Session started', sessionConfig);
+    this.schedule(session);
+    this.emitStatus(session);
+    return { ok: true, data: this.snapshot(session) };
+  }
+
+  /** Запустить остановленную / приостановленную сессию; config — заменить настройки перед запуском */
+  start(id: string, userId?: string | null, sessionConfig?: AutoSessionConfig): Result<AutoTradingSession> {
+    const session = this.owned(id, userId);
+    if (!session) return { ok: false, error: 'Session not found' };
+    if (session.status === 'running') return { ok: false, error: 'Session is already running' };
+    const next = sessionConfig ?? session.config;
+    if (session.status === 'stopped') {
+      const active = [...this.sessions.values()].filter((s) => s.userId === session.userId && s.status !== 'stopped').length;
+      if (active >= MAX_ACTIVE_SESSIONS_PER_OWNER) {
+        return { ok: false, error: `Too many active sessions (max ${MAX_ACTIVE_SESSIONS_PER_OWNER}): stop one first` };
+      }
+    }
+    const startable = this.checkStartable(session.userId, next);
+    if (!startable.ok) return startable;
+    session.config = next;
+    this.setStatus(session, 'running', sessionConfig ? 'Session restarted with new settings' : 'Session started', sessionConfig);
+    this.schedule(session);
+    return { ok: true, data: this.snapshot(session) };
+  }
+
+  /** Приостановить: циклы не выполняются, сессия остаётся активной и не возобновляется после перезапуска */
+  pause(id: string, userId?: string | null): Result<AutoTradingSession> {
+    const session = this.owned(id, userId);
+    if (!session) return { ok: false, error: 'Session not found' };
+    if (session.status !== 'running') return { ok: false, error: 'Session is not running' };
+    this.unschedule(session.id);
+    this.setStatus(session, 'paused', 'Session paused');
+    return { ok: true, data: this.snapshot(session) };
+  }
+
+  /** Остановить сессию (позиции и ордера на бирже не трогаются) */
+  stop(id: string, userId?: string | null, reason = 'Session stopped'): Result<AutoTradingSession> {
+    const session = this.owned(id, userId);
+    if (!session) return { ok: false, error: 'Session not found' };
+    if (session.status === 'stopped') return { ok: true, data: this.snapshot(session) };
+    this.unschedule(session.id);
+    this.setStatus(session, 'stopped', reason);
+    return { ok: true, data: this.snapshot(session) };
+  }
+
+  /** Остановить все активные сессии владельца; без userId — все (админка, kill switch) */
+  stopAll(userId?: string | null, reason = 'Session stopped'): number {
+    let stopped = 0;
+    for (const session of this.sessions.values()) {
+      if (session.status === 'stopped' || (userId !== undefined && session.userId !== userId)) continue;
+      this.stop(session.id, undefined, reason);
+      stopped++;
+    }
+    return stopped;
+  }
+
+  /** Удалить остановленную сессию вместе с журналом */
+  remove(id: string, userId?: string | null): Result<{ id: string }> {
+    const session = this.owned(id, userId);
+    if (!session) return { ok: false, error: 'Session not found' };
+    if (session.status !== 'stopped') return { ok: false, error: 'Stop the session before deleting it' };
+    this.sessions.delete(id);
+    deleteAutoTradingSession(id);
+    this.emit({ sessionId: id, userId: session.userId, type: 'removed', data: null });
+    return { ok: true, data: { id } };
+  }
+
+  /** Журнал сессии (новые первыми) */
+  logs(id: string, opts: { levels?: AutoSessionLogLevel[]; limit?: number } = {}): AutoSessionLogEntry[] {
+    return listAutoTradingSessionLogs(id, { levels: opts.levels, limit: Math.min(opts.limit ?? 100, 500) }).map(toLogEntry);
+  }
+
+  /** Поток сигналов сессии (новые первыми) */
+  signals(id: string, limit = 50): AutoSessionLogEntry[] {
+    return this.logs(id, { levels: ['signal'], limit });
+  }
+
+  status(): { running: number; paused: number; stopped: number } {
+    const counts = { running: 0, paused: 0, stopped: 0 };
+    for (const s of this.sessions.values()) counts[s.status]++;
+    return counts;
+  }
+
+  private checkStartable(userId: string | null, sessionConfig: AutoSessionConfig): { ok: true } | { ok: false; error: string } {
+    const { executeOrders, useTestnet } = sessionConfig.execution;
+    if (!sessionConfig.fullAuto || !executeOrders) return { ok: true };
+    if (killSwitch.isEngaged()) return { ok: false, error: 'Kill switch engaged: re-arm execution in the admin panel first' };
+    if (!userId) return { ok: false, error: 'Sign in to execute orders: sessions trade only on your own exchange API keys' };
+    if (!hasAccountCredentials(useTestnet, userId, sessionConfig.exchange)) {
+      const { name } = getExchangeAdapter(sessionConfig.exchange);
+      return { ok: false, error: `Save ${name} ${useTestnet ? 'demo' : 'live'} API keys in Settings to execute orders` };
+    }
+    return { ok: true };
+  }
+
+  private owned(id: string, userId?: string | null): AutoTradingSession | null {
+    const session = this.sessions.get(id);
+    if (!session || (userId !== undefined && session.userId !== userId)) return null;
+    return session;
+  }
+
+  private schedule(session: AutoTradingSession): void {
+    this.unschedule(session.id);
+    this.runCycle(session.id);
+    this.timers.set(session.id, setInterval(() => this.runCycle(session.id), session.config.intervalMs));
+  }
+
+  private unschedule(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) clearInterval(timer);
+    this.timers.delete(id);
+  }
+
+  private runCycle(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session || session.status !== 'running' || !this.runner) return;
+    if (this.busy.has(id)) {
+      this.log(session, 'warn', 'Previous cycle still running: tick skipped');
+      return;
+    }
+    this.busy.add(id);
+    const ctx: SessionCycleContext = {
+      log: (level, message, details) => this.log(session, level, message, details),
+      signal: (signal, details) => this.log(session, 'signal', `${signal.symbol} ${signal.direction}`, { signal: signalSummary(signal), ...(details ? { details } : {}) })
+    };
+    session.lastRunAt = Date.now();
+    this.runner(this.snapshot(session), ctx)
+      .then(() => {
+        session.lastError = null;
+      })
+      .catch((e) => {
+        session.lastError = (e as Error).message;
+        this.log(session, 'error', `Cycle failed: ${session.lastError}`);
+      })
+      .finally(() => {
+        this.busy.delete(id);
+        if (this.sessions.get(id) === session) this.persist(session);
+      });
+  }
+
+  private setStatus(session: AutoTradingSession, status: AutoSessionStatus, message: string, details?: unknown): void {
+    session.status = status;
+    session.updatedAt = Date.now();
+    this.persist(session);
+    this.log(session, 'info', message, details);
+    this.emitStatus(session);
+  }
+
+  private log(session: AutoTradingSession, level: AutoSessionLogLevel, message: string, details?: unknown): void {
+    const row = {
+      session_id: session.id,
+      time: Date.now(),
+      level,
+      message,
+      details: details === undefined ? null : JSON.stringify(details)
+    };
+    const id = insertAutoTradingSessionLog(row);
+    if (level === 'warn' || level === 'error') logger[level]('AutoSessions', `[${session.id}] ${message}`);
+    this.emit({
+      sessionId: session.id,
+      userId: session.userId,
+      type: level === 'signal' ? 'signal' : 'log',
+      data: toLogEntry({ id, ...row })
+    });
+  }
+
+  private persist(session: AutoTradingSession): void {
+    saveAutoTradingSession(toRow(session));
+  }
+
+  private snapshot(session: AutoTradingSession): AutoTradingSession {
+    return {
+      ...session,
+      config: { ...session.config, symbols: [...session.config.symbols], execution: { ...session.config.execution } }
+    };
+  }
+
+  private emitStatus(session: AutoTradingSession): void {
+    this.emit({ sessionId: session.id, userId: session.userId, type: 'status', data: this.snapshot(session) });
+  }
+
+  private emit(event: AutoSessionEvent): void {
+    this.listeners.forEach((cb) => {
+      try {
+        cb(event);
+      } catch (e) {
+        logger.warn('AutoSessions', 'Event listener failed', { error: (e as Error).message });
+      }
+    });
+  }
+}
+
+export const autoTradingSessions = new AutoTradingSessionManager();
@@ -0,0 +1,285 @@
+/**
+ * Backtest optimizer — перебор параметров (grid / random) и walk-forward (in-sample / out-of-sample)
+ * Вместо ручной подгонки констант вроде AUTO_MIN_CONFIDENCE: прогоняет runBacktest по сетке
+ * minConfidence / riskRewardRatio / atrSlMultiplier и ранжирует результаты.
+ * Конвейер (pipeline) считается один раз на бар — PipelineSignalCache общий для всех прогонов.
+ */
+
+import { OHLCVCandle } from '../types/candle';
+import {
+  runBacktest,
+  BacktestParams,
+  BacktestMarketData,
+  BacktestResult,
+  PipelineSignalCache
+} from './backtester';
+
+/** Параметры, которые можно перебирать (расширять здесь — новые числовые поля BacktestParams) */
+export const OPTIMIZABLE_PARAMS = ['minConfidence', 'riskRewardRatio', 'atrSlMultiplier'] as const;
+export type OptimizableParam = (typeof OPTIMIZABLE_PARAMS)[number];
+
+/** Диапазон значений параметра: явный список или min..max с шагом */
+export type ParamRange = number[] | { min: number; max: number; step: number };
+export type ParamSpace = Partial<Record<OptimizableParam, ParamRange>>;
+export type ParamSet = Partial<Record<OptimizableParam, number>>;
+
+export type OptimizeSearch = 'grid' | 'random';
+export type OptimizeObjective = 'sharpe' | 'profitFactor' | 'totalPnlPct';
+
+export interface WalkForwardConfig {
+  /** Количество последовательных окон */
+  folds: number;
+  /** Доля окна под in-sample (остальное — out-of-sample) */
+  inSamplePct: number;
+}
+
+export interface OptimizeOptions {
+  space: ParamSpace;
+  search?: OptimizeSearch;
+  /** Количество случайных точек (random) */
+  samples?: number;
+  objective?: OptimizeObjective;
+  /** Прогоны с меньшим числом сделок ранжируются в конце */
+  minTrades?: number;
+  walkForward?: WalkForwardConfig;
+  /** Размер таблицы в ответе */
+  top?: number;
+}
+
+/** Метрики одного прогона */
+export interface OptimizeMetrics {
+  profitFactor: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+  totalTrades: number;
+  winrate: number;
+  totalPnlPct: number;
+}
+
+export interface OptimizeRow {
+  rank: number;
+  params: ParamSet;
+  /** Весь период (без walk-forward) или среднее по in-sample окнам */
+  inSample: OptimizeMetrics;
+  /** Среднее по out-of-sample окнам (только walk-forward) */
+  outOfSample?: OptimizeMetrics;
+  score: number;
+}
+
+export interface WalkForwardFold {
+  fold: number;
+  inSample: { from: number; to: number };
+  outOfSample: { from: number; to: number };
+  /** Лучший набор на in-sample и его результат на out-of-sample */
+  best: ParamSet;
+  inSampleMetrics: OptimizeMetrics;
+  outOfSampleMetrics: OptimizeMetrics;
+}
+
+export interface OptimizeResult {
+  symbol: string;
+  timeframe: string;
+  search: OptimizeSearch;
+  objective: OptimizeObjective;
+  combinations: number;
+  rows: OptimizeRow[];
+  folds?: WalkForwardFold[];
+}
+
+/** Предел прогонов на запрос (комбинации × окна) */
+export const MAX_OPTIMIZE_RUNS = 400;
+
+const DEFAULT_SAMPLES = 30;
+const DEFAULT_MIN_TRADES = 5;
+
+/** Ось перебора без развёртки: число значений и значение по индексу (диапазон не материализуется) */
+interface ParamAxis {
+  key: OptimizableParam;
+  size: number;
+  at(index: number): number;
+}
+
+function toAxis(key: OptimizableParam, range: ParamRange): ParamAxis {
+  if (Array.isArray(range)) {
+    const values = [...new Set(range.filter((v) => Number.isFinite(v)))];
+    return { key, size: values.length, at: (k) => values[k] };
+  }
+  const { min, max, step } = range;
+  if (!Number.isFinite(min) || !Number.isFinite(max) || !(step > 0) || max < min) return { key, size: 0, at: () => min };
+  return { key, size: Math.floor((max - min) / step + 1e-9) + 1, at: (k) => Number((min + k * step).toFixed(6)) };
+}
+
+function paramAxes(space: ParamSpace): ParamAxis[] {
+  return OPTIMIZABLE_PARAMS
+    .filter((key) => space[key] != null)
+    .map((key) => toAxis(key, space[key]!))
+    .filter((axis) => axis.size > 0);
+}
+
+/** Число наборов без построения: grid — произведение длин осей, random — не больше samples */
+export function countParamSets(space: ParamSpace, search: OptimizeSearch, samples = DEFAULT_SAMPLES): number {
+  const axes = paramAxes(space);
+  if (!axes.length) return 1;
+  const total = axes.reduce((n, axis) => n * axis.size, 1);
+  return search === 'random' ? Math.min(samples, total) : total;
+}
+
+/**
+ * Все комбинации (grid) либо samples случайных без повторов (random).
+ * Grid больше MAX_OPTIMIZE_RUNS не строится; random — ограниченное число попыток (значения могут совпасть после округления)
+ */
+export function buildParamSets(space: ParamSpace, search: OptimizeSearch, samples = DEFAULT_SAMPLES): ParamSet[] {
+  const axes = paramAxes(space);
+  if (!axes.length) return [{}];
+  const total = countParamSets(space, search, samples);
+
+  if (search === 'random') {
+    const seen = new Set<string>();
+    const out: ParamSet[] = [];
+    for (let attempt = 0; out.length < total && attempt < total * 20; attempt++) {
+      const set: ParamSet = {};
+      for (const axis of axes) set[axis.key] = axis.at(Math.floor(Math.random() * axis.size));
+      const id = JSON.stringify(set);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      out.push(set);
+    }
+    return out;
+  }
+
+  if (total > MAX_OPTIMIZE_RUNS) throw new Error(`Too many runs: ${total} > ${MAX_OPTIMIZE_RUNS}`);
+  let sets: ParamSet[] = [{}];
+  for (const axis of axes) {
+    const values = [...new Set(Array.from({ length: axis.size }, (_, k) => axis.at(k)))];
+    sets = sets.flatMap((set) => values.map((v) => ({ ...set, [axis.key]: v })));
+  }
+  return sets;
+}
+
+function toMetrics(r: BacktestResult): OptimizeMetrics {
+  return {
+    profitFactor: r.profitFactor,
+    maxDrawdownPct: r.maxDrawdownPct,
+    sharpe: r.sharpe,
+    totalTrades: r.totalTrades,
+    winrate: r.winrate,
+    totalPnlPct: r.totalPnlPct
+  };
+}
+
+function averageMetrics(list: OptimizeMetrics[]): OptimizeMetrics {
+  const n = list.length || 1;
+  const avg = (pick: (m: OptimizeMetrics) => number) => list.reduce((s, m) => s + pick(m), 0) / n;
+  return {
+    profitFactor: avg((m) => m.profitFactor),
+    maxDrawdownPct: list.reduce((max, m) => Math.max(max, m.maxDrawdownPct), 0),
+    sharpe: avg((m) => m.sharpe),
+    totalTrades: list.reduce((s, m) => s + m.totalTrades, 0),
+    winrate: avg((m) => m.winrate),
+    totalPnlPct: list.reduce((s, m) => s + m.totalPnlPct, 0)
+  };
+}
+
+function score(m: OptimizeMetrics, objective: OptimizeObjective, minTrades: number): number {
+  if (m.totalTrades < minTrades) return -Infinity;
+  return m[objective];
+}
+
+/** Окна walk-forward: период [from, to] делится на folds частей, каждая — IS + OOS */
+function buildFolds(candles: OHLCVCandle[], from: number, to: number, wf: WalkForwardConfig) {
+  const inRange = candles.filter((c) => c.timestamp >= from && c.timestamp <= to);
+  const folds = Math.max(1, Math.floor(wf.folds));
+  const size = Math.floor(inRange.length / folds);
+  const out: { inSample: { from: number; to: number }; outOfSample: { from: number; to: number } }[] = [];
+  for (let f = 0; f < folds; f++) {
+    const chunk = inRange.slice(f * size, f === folds - 1 ? inRange.length : (f + 1) * size);
+    const split = Math.floor(chunk.length * wf.inSamplePct);
+    if (split < 2 || chunk.length - split < 2) continue;
+    out.push({
+      inSample: { from: chunk[0].timestamp, to: chunk[split - 1].timestamp },
+      outOfSample: { from: chunk[split].timestamp, to: chunk[chunk.length - 1].timestamp }
+    });
+  }
+  return out;
+}
+
+export async function optimizeBacktest(
+  candles: OHLCVCandle[],
+  base: Partial<BacktestParams> & { symbol: string; timeframe?: string },
+  options: OptimizeOptions,
+  data: BacktestMarketData = {}
+): Promise<OptimizeResult> {
+  const search = options.search ?? 'grid';
+  const objective = options.objective ?? 'sharpe';
+  const minTrades = options.minTrades ?? DEFAULT_MIN_TRADES;
+  const folds = options.walkForward && candles.length
+    ? buildFolds(candles, base.from ?? candles[0].timestamp, base.to ?? Infinity, options.walkForward)
+    : [];
+  const runsPerSet = folds.length ? folds.length * 2 : 1;
+  const planned = countParamSets(options.space, search, options.samples) * runsPerSet;
+  if (planned > MAX_OPTIMIZE_RUNS) {
+    throw new Error(`Too many runs: ${planned} > ${MAX_OPTIMIZE_RUNS}`);
+  }
+  const sets = buildParamSets(options.space, search, options.samples);
+
+  const signalCache: PipelineSignalCache = new Map();
+  const run = (set: ParamSet, from?: number, to?: number) =>
+    runBacktest(candles, { ...base, ...set, ...(from != null ? { from, to } : {}) }, data, signalCache).then(toMetrics);
+
+  const rows: Omit<OptimizeRow, 'rank'>[] = [];
+  const perFold: { is: OptimizeMetrics; oos: OptimizeMetrics }[][] = [];
+  for (const set of sets) {
+    if (!folds.length) {
+      const m = await run(set);
+      rows.push({ params: set, inSample: m, score: score(m, objective, minTrades) });
+      continue;
+    }
+    const results: { is: OptimizeMetrics; oos: OptimizeMetrics }[] = [];
+    for (const fold of folds) {
+      results.push({
+        is: await run(set, fold.inSample.from, fold.inSample.to),
+        oos: await run(set, fold.outOfSample.from, fold.outOfSample.to)
+      });
+    }
+    perFold.push(results);
+    const oos = averageMetrics(results.map((r) => r.oos));
+    rows.push({
+      params: set,
+      inSample: averageMetrics(results.map((r) => r.is)),
+      outOfSample: oos,
+      score: score(oos, objective, minTrades)
+    });
+  }
+
+  const ranked = [...rows]
+    .sort((a, b) => (a.score === b.score ? b.inSample.totalTrades - a.inSample.totalTrades : b.score - a.score))
+    .map((row, k) => ({ ...row, rank: k + 1, score: Number.isFinite(row.score) ? row.score : 0 }));
+
+  // Классический walk-forward: лучший на IS окна → его результат на OOS того же окна
+  const wfFolds: WalkForwardFold[] | undefined = folds.length
+    ? folds.map((fold, f) => {
+        let bestIdx = 0;
+        for (let k = 1; k < sets.length; k++) {
+          if (score(perFold[k][f].is, objective, minTrades) > score(perFold[bestIdx][f].is, objective, minTrades)) bestIdx = k;
+        }
+        return {
+          fold: f + 1,
+          inSample: fold.inSample,
+          outOfSample: fold.outOfSample,
+          best: sets[bestIdx],
+          inSampleMetrics: perFold[bestIdx][f].is,
+          outOfSampleMetrics: perFold[bestIdx][f].oos
+        };
+      })
+    : undefined;
+
+  return {
+    symbol: base.symbol,
+    timeframe: base.timeframe ?? '',
+    search,
+    objective,
+    combinations: sets.length,
+    rows: ranked.slice(0, options.top ?? 20),
+    folds: wfFolds
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Backtest robustness — статистика устойчивости результата бэктеста
+ * - Метрики: Sortino, Calmar (CAGR / max DD), expectancy, SQN, средний R, время в рынке, серии
+ * - Monte Carlo: bootstrap (с возвращением) или перестановка последовательности сделок →
+ *   распределения итогового капитала и max drawdown, вероятность разорения при текущем плече и размере
+ * Доходность сделки — к капиталу перед её закрытием (как в tradeSharpe), поэтому плечо и
+ * sizePercent уже учтены; ликвидация — потеря маржи остатка.
+ */
+
+import { BacktestTrade } from './backtester';
+
+export interface BacktestStats {
+  /** Годовой Sortino по доходностям сделок (отклонение только убыточных) */
+  sortino: number;
+  /** CAGR / maxDrawdownPct */
+  calmar: number;
+  /** Годовая доходность; период < 30 дней — доходность за период без аннуализации */
+  cagrPct: number;
+  /** Средний net PnL на сделку, USDT */
+  expectancy: number;
+  /** Средний net ROE на сделку, % от маржи */
+  expectancyPct: number;
+  avgWin: number;
+  avgLoss: number;
+  /** Средний R-multiple: PnL / риск до начального стопа */
+  avgR: number;
+  /** System Quality Number: √min(N, 100) × mean(R) / std(R) */
+  sqn: number;
+  /** Доля времени периода с открытой позицией, % */
+  exposurePct: number;
+  longestLosingStreak: number;
+  longestWinningStreak: number;
+}
+
+export type MonteCarloMethod = 'bootstrap' | 'shuffle';
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  method?: MonteCarloMethod;
+  /** Разорение — капитал хотя бы раз опустился на ruinPct % ниже начального (default 50) */
+  ruinPct?: number;
+  /** Seed генератора — для воспроизводимости */
+  seed?: number;
+}
+
+export interface Distribution {
+  mean: number;
+  min: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  max: number;
+}
+
+export interface MonteCarloResult {
+  method: MonteCarloMethod;
+  iterations: number;
+  trades: number;
+  leverage: number;
+  sizePercent: number;
+  ruinPct: number;
+  finalEquity: Distribution;
+  totalReturnPct: Distribution;
+  maxDrawdownPct: Distribution;
+  /** Доля путей с разорением (0..1) */
+  probabilityOfRuin: number;
+  /** Доля путей с итоговым убытком (0..1) */
+  probabilityOfLoss: number;
+}
+
+export const MAX_MONTE_CARLO_ITERATIONS = 10000;
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_RUIN_PCT = 50;
+const YEAR_MS = 365 * 24 * 3600 * 1000;
+const MIN_ANNUALIZE_MS = 30 * 24 * 3600 * 1000;
+/** Van Tharp: выборка для SQN ограничивается 100 сделками */
+const SQN_MAX_TRADES = 100;
+
+/** Доходности сделок к капиталу перед закрытием (кривая — в порядке закрытия) */
+export function equityReturns(equityCurve: number[]): number[] {
+  const returns: number[] = [];
+  for (let k = 1; k < equityCurve.length; k++) {
+    if (equityCurve[k - 1] > 0) returns.push(equityCurve[k] / equityCurve[k - 1] - 1);
+  }
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+function stdev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((s, v) => s + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+/** Суммарная длина объединения интервалов [entryTime, exitTime] */
+function exposureMs(trades: BacktestTrade[]): number {
+  const spans = trades.map((t) => [t.entryTime, t.exitTime]).sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let start = -Infinity;
+  let end = -Infinity;
+  for (const [s, e] of spans) {
+    if (s > end) {
+      if (end > start) total += end - start;
+      start = s;
+      end = e;
+    } else {
+      end = Math.max(end, e);
+    }
+  }
+  if (end > start) total += end - start;
+  return total;
+}
+
+/** Риск сделки до начального стопа, USDT (без издержек) */
+function tradeRisk(t: BacktestTrade): number {
+  return t.entryFillPrice > 0 ? (t.notional * Math.abs(t.entryFillPrice - t.sl)) / t.entryFillPrice : 0;
+}
+
+export function computeBacktestStats(input: {
+  trades: BacktestTrade[];
+  equityCurve: number[];
+  initialBalance: number;
+  finalBalance: number;
+  maxDrawdownPct: number;
+  spanMs: number;
+}): BacktestStats {
+  const { trades, equityCurve, initialBalance, finalBalance, maxDrawdownPct, spanMs } = input;
+  const byExit = [...trades].sort((a, b) => a.exitTime - b.exitTime);
+
+  const returns = equityReturns(equityCurve);
+  const m = mean(returns);
+  const downside = returns.length > 1
+    ? Math.sqrt(returns.reduce((s, r) => s + Math.min(0, r) ** 2, 0) / (returns.length - 1))
+    : 0;
+  const tradesPerYear = spanMs > 0 ? returns.length / (spanMs / YEAR_MS) : 0;
+  const sortino = downside > 0 ? (m / downside) * Math.sqrt(tradesPerYear) : 0;
+
+  const growth = initialBalance > 0 ? finalBalance / initialBalance : 0;
+  const cagr = growth <= 0 ? -1 : spanMs >= MIN_ANNUALIZE_MS ? Math.pow(growth, YEAR_MS / spanMs) - 1 : growth - 1;
+  const cagrPct = Number.isFinite(cagr) ? cagr * 100 : 0;
+
+  const rMultiples = trades.map((t) => {
+    const risk = tradeRisk(t);
+    return risk > 0 ? t.pnl / risk : 0;
+  });
+  const sqnSample = rMultiples.slice(-SQN_MAX_TRADES);
+  const rStd = stdev(sqnSample);
+
+  let losing = 0;
+  let winning = 0;
+  let longestLosingStreak = 0;
+  let longestWinningStreak = 0;
+  for (const t of byExit) {
+    losing = t.win ? 0 : losing + 1;
+    winning = t.win ? winning + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, losing);
+    longestWinningStreak = Math.max(longestWinningStreak, winning);
+  }
+
+  const wins = trades.filter((t) => t.pnl > 0);
+  const losses = trades.filter((t) => t.pnl <= 0);
+  return {
+    sortino,
+    calmar: maxDrawdownPct > 0 ? cagrPct / maxDrawdownPct : 0,
+    cagrPct,
+    expectancy: mean(trades.map((t) => t.pnl)),
+    expectancyPct: mean(trades.map((t) => t.pnlPct)),
+    avgWin: mean(wins.map((t) => t.pnl)),
+    avgLoss: mean(losses.map((t) => t.pnl)),
+    avgR: mean(rMultiples),
+    sqn: rStd > 0 ? (Math.sqrt(sqnSample.length) * mean(sqnSample)) / rStd : 0,
+    exposurePct: spanMs > 0 ? Math.min(100, (exposureMs(trades) / spanMs) * 100) : 0,
+    longestLosingStreak,
+    longestWinningStreak
+  };
+}
+
+/** mulberry32 — детерминированный PRNG */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: mean(sorted),
+    min: sorted[0] ?? 0,
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95),
+    max: sorted[sorted.length - 1] ?? 0
+  };
+}
+
+/**
+ * Monte Carlo по доходностям сделок: каждый путь — N сделок (bootstrap: выборка с возвращением,
+ * shuffle: перестановка — итоговый капитал тот же, меняется только путь и просадка).
+ */
+export function runMonteCarlo(
+  equityCurve: number[],
+  initialBalance: number,
+  sizing: { leverage: number; sizePercent: number },
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const method: MonteCarloMethod = options.method ?? 'bootstrap';
+  const iterations = Math.min(Math.max(Math.floor(options.iterations ?? DEFAULT_ITERATIONS), 1), MAX_MONTE_CARLO_ITERATIONS);
+  const ruinPct = options.ruinPct ?? DEFAULT_RUIN_PCT;
+  const ruinLevel = initialBalance * (1 - ruinPct / 100);
+  const random = createRandom(options.seed ?? Date.now());
+  const returns = equityReturns(equityCurve);
+  const n = returns.length;
+
+  const finals: number[] = [];
+  const drawdowns: number[] = [];
+  let ruined = 0;
+  let lost = 0;
+  const path = [...returns];
+  for (let it = 0; it < iterations; it++) {
+    if (method === 'shuffle') {
+      for (let k = n - 1; k > 0; k--) {
+        const j = Math.floor(random() * (k + 1));
+        [path[k], path[j]] = [path[j], path[k]];
+      }
+    } else {
+      for (let k = 0; k < n; k++) path[k] = returns[Math.floor(random() * n)];
+    }
+    let equity = initialBalance;
+    let peak = equity;
+    let maxDd = 0;
+    let hitRuin = false;
+    for (let k = 0; k < n; k++) {
+      equity = Math.max(0, equity * (1 + path[k]));
+      if (equity > peak) peak = equity;
+      if (peak > 0) maxDd = Math.max(maxDd, ((peak - equity) / peak) * 100);
+      if (equity <= ruinLevel) hitRuin = true;
+    }
+    finals.push(equity);
+    drawdowns.push(maxDd);
+    if (hitRuin) ruined++;
+    if (equity < initialBalance) lost++;
+  }
+
+  return {
+    method,
+    iterations,
+    trades: n,
+    leverage: sizing.leverage,
+    sizePercent: sizing.sizePercent,
+    ruinPct,
+    finalEquity: distribution(finals),
+    totalReturnPct: distribution(finals.map((f) => (initialBalance > 0 ? (f / initialBalance - 1) * 100 : 0))),
+    maxDrawdownPct: distribution(drawdowns),
+    probabilityOfRuin: n ? ruined / iterations : 0,
+    probabilityOfLoss: n ? lost / iterations : 0
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Backtest runs — сохранение прогонов бэктеста (db/index.ts) и их сравнение
+ * - Прогон: параметры запроса, версия кода (git commit), набор данных и период, метрики, полный результат
+ * - Сравнение: кривые капитала/просадки по времени и разница метрик относительно первого прогона
+ * - Экспорт сделок в CSV/JSON
+ */
+
+import { execSync } from 'child_process';
+import path from 'path';
+import {
+  insertBacktestRun,
+  getBacktestRun,
+  listBacktestRuns,
+  deleteBacktestRun,
+  BacktestRunSummaryRow
+} from '../db';
+import { BacktestResult, BacktestTrade } from './backtester';
+import { PortfolioBacktestResult } from './portfolioBacktester';
+import { logger } from '../lib/logger';
+
+export type BacktestRunKind = 'run' | 'portfolio';
+
+export type StoredBacktestResult = BacktestResult | PortfolioBacktestResult;
+
+/** Метрики для списка и сравнения (числовые поля результата) */
+export const RUN_METRIC_KEYS = [
+  'totalTrades',
+  'winrate',
+  'totalPnl',
+  'totalPnlPct',
+  'profitFactor',
+  'maxDrawdownPct',
+  'sharpe',
+  'sortino',
+  'calmar',
+  'sqn',
+  'expectancy',
+  'totalFees',
+  'finalBalance'
+] as const;
+export type RunMetricKey = (typeof RUN_METRIC_KEYS)[number];
+export type BacktestRunMetrics = Record<RunMetricKey, number>;
+
+export interface BacktestRunSummary {
+  id: string;
+  kind: BacktestRunKind;
+  symbol: string;
+  timeframe: string;
+  strategy: string;
+  params: Record<string, unknown>;
+  codeVersion: string | null;
+  datasetId: string | null;
+  /** Период бэктеста (ms) */
+  range: { from: number | null; to: number | null };
+  metrics: BacktestRunMetrics;
+  createdAt: string;
+}
+
+export interface BacktestRun extends BacktestRunSummary {
+  result: StoredBacktestResult;
+}
+
+export interface EquityPoint {
+  time: number;
+  balance: number;
+  /** Просадка от пика, % */
+  drawdownPct: number;
+}
+
+export interface BacktestRunComparison {
+  /** Базовый прогон — первый в ids; deltas = прогон − база */
+  baseId: string;
+  runs: BacktestRunSummary[];
+  equity: { id: string; points: EquityPoint[] }[];
+  deltas: { id: string; metrics: BacktestRunMetrics }[];
+}
+
+let cachedVersion: string | undefined;
+
+/** Версия кода: GIT_COMMIT (сборка) → git rev-parse → версия package.json */
+export function getCodeVersion(): string {
+  if (cachedVersion) return cachedVersion;
+  let version = (process.env.GIT_COMMIT ?? '').trim().slice(0, 12);
+  if (!version) {
+    try {
+      version = execSync('git rev-parse --short HEAD', {
+        cwd: path.join(__dirname, '..', '..'),
+        stdio: ['ignore', 'pipe', 'ignore'],
+        timeout: 2000
+      }).toString().trim();
+    } catch {
+      version = '';
+    }
+  }
+  if (!version) {
+    try {
+      version = `v${require(path.join(__dirname, '..', '..', 'package.json')).version}`;
+    } catch {
+      version = 'unknown';
+    }
+  }
+  cachedVersion = version;
+  return version;
+}
+
+function pickMetrics(result: StoredBacktestResult): BacktestRunMetrics {
+  const source: Record<string, unknown> = { ...result.stats, ...result };
+  const out = {} as BacktestRunMetrics;
+  for (const key of RUN_METRIC_KEYS) out[key] = Number(source[key]) || 0;
+  return out;
+}
+
+function toSummary(row: BacktestRunSummaryRow): BacktestRunSummary {
+  return {
+    id: row.id,
+    kind: row.kind as BacktestRunKind,
+    symbol: row.symbol,
+    timeframe: row.timeframe,
+    strategy: row.strategy,
+    params: JSON.parse(row.params),
+    codeVersion: row.code_version,
+    datasetId: row.dataset_id,
+    range: { from: row.range_from, to: row.range_to },
+    metrics: JSON.parse(row.metrics),
+    createdAt: row.created_at
+  };
+}
+
+/** Сохранить результат; ошибки БД не ломают ответ бэктеста — возвращается null */
+export function saveBacktestRun(
+  kind: BacktestRunKind,
+  result: StoredBacktestResult,
+  meta: { params: Record<string, unknown>; datasetId?: string | null; range: { from?: number | null; to?: number | null } }
+): BacktestRunSummary | null {
+  const id = `bt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const row = {
+    id,
+    kind,
+    symbol: 'symbols' in result ? result.symbols.join(',') : result.symbol,
+    timeframe: result.timeframe,
+    strategy: result.strategy,
+    params: JSON.stringify(meta.params),
+    code_version: getCodeVersion(),
+    dataset_id: meta.datasetId ?? null,
+    range_from: meta.range.from ?? null,
+    range_to: meta.range.to ?? null,
+    metrics: JSON.stringify(pickMetrics(result)),
+    result: JSON.stringify(result)
+  };
+  try {
+    insertBacktestRun(row);
+  } catch (e) {
+    logger.warn('BacktestRuns', 'Failed to save run', { error: (e as Error).message });
+    return null;
+  }
+  return toSummary({ ...row, created_at: new Date().toISOString() });
+}
+
+export function listRuns(opts?: { symbol?: string; kind?: string; limit?: number; offset?: number }): BacktestRunSummary[] {
+  return listBacktestRuns(opts).map(toSummary);
+}
+
+export function getRun(id: string): BacktestRun | null {
+  const row = getBacktestRun(id);
+  if (!row) return null;
+  return { ...toSummary(row), result: JSON.parse(row.result) };
+}
+
+export function removeRun(id: string): boolean {
+  return deleteBacktestRun(id);
+}
+
+/** Кривая капитала по времени закрытия сделок + просадка от пика */
+export function runEquityCurve(run: BacktestRun): EquityPoint[] {
+  const { result } = run;
+  const trades = [...result.trades].sort((a, b) => a.exitTime - b.exitTime);
+  const start = run.range.from ?? trades[0]?.entryTime ?? Date.parse(run.createdAt);
+  let balance = result.initialBalance;
+  let peak = balance;
+  const points: EquityPoint[] = [{ time: start, balance, drawdownPct: 0 }];
+  for (const t of trades) {
+    balance += t.pnl;
+    peak = Math.max(peak, balance);
+    points.push({ time: t.exitTime, balance, drawdownPct: peak > 0 ? ((peak - balance) / peak) * 100 : 0 });
+  }
+  return points;
+}
+
+export function compareRuns(ids: string[]): BacktestRunComparison | { missing: string[] } {
+  const runs = ids.map((id) => getRun(id));
+  const missing = ids.filter((_, k) => !runs[k]);
+  if (missing.length) return { missing };
+  const found = runs as BacktestRun[];
+  const base = found[0].metrics;
+  return {
+    baseId: found[0].id,
+    runs: found.map(({ result: _result, ...summary }) => summary),
+    equity: found.map((run) => ({ id: run.id, points: runEquityCurve(run) })),
+    deltas: found.map((run) => {
+      const metrics = {} as BacktestRunMetrics;
+      for (const key of RUN_METRIC_KEYS) metrics[key] = (run.metrics[key] ?? 0) - (base[key] ?? 0);
+      return { id: run.id, metrics };
+    })
+  };
+}
+
+const CSV_COLUMNS = [
+  'symbol', 'direction', 'entryTime', 'exitTime', 'entryPrice', 'entryFillPrice', 'exitPrice',
+  'margin', 'notional', 'leverage', 'sl', 'tp', 'grossPnl', 'fees', 'slippage', 'funding',
+  'pnl', 'pnlPct', 'win', 'liquidated', 'confidence', 'exitReasons'
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value == null) return '';
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** CSV сделок: время — ISO, exitReasons — причины ног через | */
+export function tradesToCsv(trades: (BacktestTrade & { symbol?: string })[], symbol: string): string {
+  const lines: string[] = [CSV_COLUMNS.join(',')];
+  for (const t of trades) {
+    const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      symbol: t.symbol ?? symbol,
+      direction: t.direction,
+      entryTime: new Date(t.entryTime).toISOString(),
+      exitTime: new Date(t.exitTime).toISOString(),
+      entryPrice: t.entryPrice,
+      entryFillPrice: t.entryFillPrice,
+      exitPrice: t.exitPrice,
+      margin: t.margin,
+      notional: t.notional,
+      leverage: t.leverage,
+      sl: t.sl,
+      tp: t.tp,
+      grossPnl: t.grossPnl,
+      fees: t.fees,
+      slippage: t.slippage,
+      funding: t.funding,
+      pnl: t.pnl,
+      pnlPct: t.pnlPct,
+      win: t.win,
+      liquidated: t.liquidated,
+      confidence: t.confidence,
+      exitReasons: t.legs.map((l) => l.reason).join('|')
+    };
+    lines.push(CSV_COLUMNS.map((c) => csvCell(row[c])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
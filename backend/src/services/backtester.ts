@@ -1,48 +1,218 @@
 /**
  * Backtester — симуляция по историческим свечам и сигналам (MaksBaks)
- * Метрики: winrate, profit factor, max drawdown.
- * Сигнал: по RSI + направлению свечи (без стакана/ленты).
+ * Метрики: winrate, profit factor, max drawdown, Sharpe.
+ * Сигнал (strategy) — стратегия из реестра services/strategies (default — тот же конвейер, что runAnalysis;
+ * pipeline — прежнее название default): срез свечей нужных TF, стакан/лента — из записанных данных или нейтрализованы,
+ * фандинг — из ряда funding.
+ * Выход: частичное закрытие на TP1/TP2/TP3, безубыток после TP1, трейлинг (lib/trailingStop).
+ * Издержки: комиссии maker/taker, проскальзывание, фандинг каждые 8ч, плечо и ликвидация (calcLiquidationPrice).
  */
 
 import { OHLCVCandle } from '../types/candle';
-import { CandleAnalyzer } from './candleAnalyzer';
+import { SignalGenerator } from './signalGenerator';
+import { OrderBookInput, TradeInput } from './marketAnalysis';
+import { MtfTimeframe, MTF_LIMITS, TIMEFRAME_MS, TimeframeResult } from './analysisPipeline';
+import {
+  Strategy,
+  StrategyParams,
+  StrategyResult,
+  getStrategy,
+  resolveStrategyParams,
+  strategyLookback,
+  strategyTimeframes,
+  supportsTimeframe
+} from './strategies';
+import { config } from '../config';
+import { updateTrailingStop, DEFAULT_TRAILING_CONFIG, TrailingStopConfig } from '../lib/trailingStop';
+import { calcLiquidationPrice } from '../lib/liquidationPrice';
+import { computeBacktestStats, equityReturns, BacktestStats } from './backtestRobustness';
+
+/** id стратегии (services/strategies) */
+export type BacktestStrategy = string;
 
 export interface BacktestParams {
   symbol: string;
   timeframe: string;
   /** Количество свечей (или передать candles напрямую) */
   limit?: number;
+  /** Окно торговли (ms): входы с бара from, свечи после to отбрасываются. Свечи до from — прогрев */
+  from?: number;
+  to?: number;
   /** Начальный баланс (виртуальный) */
   initialBalance?: number;
   /** Мин. confidence для входа (0–1) */
   minConfidence?: number;
-  /** R:R для TP (множитель к риску) */
+  /** R:R для TP (множитель к риску). В pipeline — только если задан явно, иначе TP1 сигнала */
   riskRewardRatio?: number;
-  /** ATR множитель для SL */
+  /** ATR множитель для SL. В pipeline — только если задан явно, иначе SL сигнала */
   atrSlMultiplier?: number;
+  /** Источник сигналов (default: стратегия default) */
+  strategy?: BacktestStrategy;
+  /** Переопределения параметров стратегии (в границах её схемы) */
+  strategyParams?: StrategyParams;
+  /** Режим SignalGenerator: default | futures25x | scalping */
+  mode?: string;
+  /** Доли позиции на TP1/TP2/TP3 (последний TP закрывает остаток). PDF: 30% / 40% / 30% */
+  tpFractions?: number[];
+  /** Перенос стопа в безубыток после TP1 */
+  breakevenAfterTp1?: boolean;
+  /** Трейлинг-стоп (updateTrailingStop) по закрытию бара */
+  trailingStop?: boolean;
+  /** Модель издержек (частично — поверх DEFAULT_COST_MODEL) */
+  costs?: Partial<BacktestCostModel>;
+}
+
+/** Комиссии, проскальзывание, фандинг, плечо */
+export interface BacktestCostModel {
+  /** Комиссия мейкера (доля от объёма): OKX swap ~0.02% */
+  makerFee: number;
+  /** Комиссия тейкера: OKX swap ~0.05% */
+  takerFee: number;
+  /** TP исполняются лимитными ордерами (мейкер). Live: TP — триггер market, т.е. тейкер */
+  tpAsMaker: boolean;
+  /** Проскальзывание рыночных исполнений (вход, стоп), б.п. от цены */
+  slippageBps: number;
+  /** Проскальзывание как доля ATR на входе — если задано, вместо slippageBps */
+  slippageAtrFraction?: number;
+  /** Ставка фандинга за 8ч (доля), если не передан ряд funding */
+  fundingRate: number;
+  /** Плечо (isolated) */
+  leverage: number;
+  /** Маржа на сделку, % от реализованного баланса (не больше свободной маржи при открытых сделках) */
+  sizePercent: number;
+}
+
+export const DEFAULT_COST_MODEL: BacktestCostModel = {
+  makerFee: 0.0002,
+  takerFee: 0.0005,
+  tpAsMaker: false,
+  slippageBps: 2,
+  fundingRate: 0.0001,
+  leverage: 1,
+  sizePercent: 100
+};
+
+/** Расчёт фандинга OKX: 00:00, 08:00, 16:00 UTC */
+const FUNDING_INTERVAL_MS = 8 * 3600 * 1000;
+
+/**
+ * Результаты стратегии по timestamp бара: не зависят от minConfidence/riskRewardRatio/atrSlMultiplier,
+ * поэтому переиспользуются между прогонами оптимизатора. Ключ — один symbol/timeframe/mode/стратегия/набор данных.
+ */
+export type PipelineSignalCache = Map<number, StrategyResult | null>;
+
+/** Ставка фандинга, действовавшая с timestamp (ms) */
+export interface FundingPoint {
+  timestamp: number;
+  rate: number;
+}
+
+/** Политика выхода — для сравнения вариантов в отчёте */
+export interface BacktestExitPolicy {
+  tpFractions: number[];
+  breakevenAfterTp1: boolean;
+  trailingStop: boolean;
+}
+
+export const DEFAULT_TP_FRACTIONS = [0.3, 0.4, 0.3];
+
+export type BacktestExitReason = 'tp1' | 'tp2' | 'tp3' | 'sl' | 'breakeven' | 'trailing' | 'liquidation' | 'end_of_data';
+
+/** Частичный выход (нога) */
+export interface BacktestExitLeg {
+  bar: number;
+  /** Уровень (триггер) выхода */
+  price: number;
+  /** Цена исполнения с проскальзыванием */
+  fillPrice: number;
+  /** Доля исходной позиции */
+  fraction: number;
+  reason: BacktestExitReason;
+  /** Gross PnL ноги (по уровню, без издержек) */
+  pnl: number;
+  fee: number;
+}
+
+/** Снимок стакана на момент timestamp (ms) */
+export interface RecordedOrderBook extends OrderBookInput {
+  timestamp: number;
+}
+
+/** Данные рынка для pipeline: другие TF, записанные стакан и лента */
+export interface BacktestMarketData {
+  /** Свечи остальных TF для Multi-TF (TF бэктеста берётся из candles) */
+  mtfCandles?: Partial<Record<MtfTimeframe, OHLCVCandle[]>>;
+  /** Записанные снимки стакана; без них стакан нейтрализован */
+  orderBooks?: RecordedOrderBook[];
+  /** Записанная лента; без неё лента нейтрализована */
+  trades?: TradeInput[];
+  /** История ставок фандинга; без неё — costs.fundingRate */
+  funding?: FundingPoint[];
 }
 
 export interface BacktestTrade {
   entryBar: number;
   exitBar: number;
+  /** Закрытие бара входа / бара последнего выхода (ms) */
+  entryTime: number;
+  exitTime: number;
   direction: 'LONG' | 'SHORT';
+  /** Цена сигнала (close бара входа) */
   entryPrice: number;
+  /** Цена исполнения входа с проскальзыванием */
+  entryFillPrice: number;
   exitPrice: number;
+  /** Маржа и объём позиции (USDT) */
+  margin: number;
+  notional: number;
+  leverage: number;
+  liquidationPrice: number;
+  /** Начальный стоп */
   sl: number;
+  /** TP1 */
   tp: number;
+  /** Лестница TP (TP1..TP3) */
+  tps: number[];
+  /** Средневзвешенная цена выхода — exitPrice; ноги по порядку исполнения */
+  legs: BacktestExitLeg[];
+  /** PnL по уровням, без издержек */
+  grossPnl: number;
+  fees: number;
+  slippage: number;
+  /** Фандинг: > 0 — уплачен, < 0 — получен */
+  funding: number;
+  /** Net PnL = gross − fees − slippage − funding */
   pnl: number;
+  /** Net ROE, % от маржи */
   pnlPct: number;
   win: boolean;
+  liquidated: boolean;
+  /** Confidence сигнала на входе */
+  confidence?: number;
+  /** Триггеры сигнала (pipeline) */
+  triggers?: string[];
 }
 
 export interface BacktestResult {
   symbol: string;
   timeframe: string;
+  strategy: BacktestStrategy;
+  /** Параметры стратегии с подставленными значениями по умолчанию */
+  strategyParams: StrategyParams;
+  exitPolicy: BacktestExitPolicy;
+  costModel: BacktestCostModel;
   bars: number;
   initialBalance: number;
   finalBalance: number;
+  /** PnL без издержек */
+  grossPnl: number;
+  /** Net PnL (после комиссий, проскальзывания и фандинга) */
   totalPnl: number;
   totalPnlPct: number;
+  totalFees: number;
+  totalSlippage: number;
+  totalFunding: number;
+  liquidations: number;
   trades: BacktestTrade[];
   totalTrades: number;
   wins: number;
@@ -51,120 +221,419 @@ export interface BacktestResult {
   profitFactor: number;
   maxDrawdown: number;
   maxDrawdownPct: number;
+  /** Sharpe по доходностям сделок (к капиталу), годовой: × sqrt(сделок в год) */
+  sharpe: number;
+  /** Sortino, Calmar, expectancy, SQN, R, время в рынке, серии (backtestRobustness) */
+  stats: BacktestStats;
   equityCurve: number[];
 }
 
-const candleAnalyzer = new CandleAnalyzer();
+/** Кандидат на вход, найденный стратегией на баре i */
+export interface EntryCandidate {
+  direction: 'LONG' | 'SHORT';
+  sl: number;
+  /** TP1..TP3 по мере удаления от входа */
+  tps: number[];
+  confidence: number;
+  triggers?: string[];
+  /** Трейлинг из сигнала (trailing_stop_config); иначе DEFAULT_TRAILING_CONFIG */
+  trailing?: TrailingStopConfig;
+  /** ATR на входе — для проскальзывания в долях ATR */
+  atr?: number | null;
+}
 
-export async function runBacktest(
+/** Индекс первого элемента с key(x) > value (массив отсортирован по key) */
+function upperBound<T>(arr: T[], value: number, key: (x: T) => number): number {
+  let lo = 0;
+  let hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (key(arr[mid]) <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Стратегия бэктеста по id; неизвестный id и неподходящий TF — ошибка */
+export function resolveBacktestStrategy(id: string | undefined, timeframe: string): Strategy {
+  const strategy = getStrategy(id);
+  if (!strategy) throw new Error(`Unknown strategy: ${id}`);
+  if (!supportsTimeframe(strategy, timeframe)) throw new Error(`Unsupported ${strategy.id} timeframe: ${timeframe}`);
+  return strategy;
+}
+
+/**
+ * Вход по стратегии. На баре i видны только закрытые к его закрытию свечи нужных TF,
+ * последний снимок стакана, сделки и ставка фандинга до этого момента — без заглядывания вперёд.
+ * ML-корректировка confidence не применяется: модель обучена на текущих исходах, а не на истории.
+ */
+function createStrategyEntry(
   candles: OHLCVCandle[],
-  params: Partial<BacktestParams> & { symbol: string; timeframe?: string }
-): Promise<BacktestResult> {
+  params: Partial<BacktestParams> & { symbol: string },
+  strategy: Strategy,
+  entryTf: MtfTimeframe,
+  data: BacktestMarketData,
+  signalCache: PipelineSignalCache = new Map()
+): (i: number) => EntryCandidate | null {
+  const signalGenerator = new SignalGenerator();
+  const tfCache = new Map<string, TimeframeResult>();
+  const entryTfMs = TIMEFRAME_MS[entryTf] ?? 0;
+  const { requires } = strategy;
+  const orderBooks = requires.orderBook ? [...(data.orderBooks ?? [])].sort((a, b) => a.timestamp - b.timestamp) : [];
+  const trades = requires.trades && data.trades ? [...data.trades].sort((a, b) => a.time - b.time) : null;
+  const funding = requires.funding ? [...(data.funding ?? [])].sort((a, b) => a.timestamp - b.timestamp) : [];
   const minConfidence = params.minConfidence ?? 0.6;
-  const riskRewardRatio = params.riskRewardRatio ?? 2;
-  const atrSlMultiplier = params.atrSlMultiplier ?? 1.5;
-  const initialBalance = params.initialBalance ?? 100;
-
-  const trades: BacktestTrade[] = [];
-  let balance = initialBalance;
-  const equityCurve: number[] = [initialBalance];
-  let peak = initialBalance;
-  let maxDrawdown = 0;
-  let maxDrawdownPct = 0;
+  const strategyParams = resolveStrategyParams(strategy, params.strategyParams);
+  const timeframes = strategyTimeframes(strategy, entryTf);
 
-  const minBars = 30; // нужно для ATR и RSI
-  for (let i = minBars; i < candles.length - 1; i++) {
-    const slice = candles.slice(0, i + 1);
-    const closes = slice.map((c) => c.close);
-    const rsi = candleAnalyzer.getRSI(closes, 14);
-    const last = slice[slice.length - 1];
-    let direction: 'LONG' | 'SHORT' | null = null;
-    let score = 0;
-    if (rsi != null) {
-      if (rsi < 35) {
-        direction = 'LONG';
-        score = 1 - rsi / 35; // 0..1
-      } else if (rsi > 65) {
-        direction = 'SHORT';
-        score = (rsi - 65) / 35;
+  const evaluate = (i: number): StrategyResult | null => {
+    const now = candles[i].timestamp + entryTfMs;
+    const series: Partial<Record<MtfTimeframe, OHLCVCandle[]>> = {};
+    for (const tf of timeframes) {
+      if (tf === entryTf) {
+        series[tf] = candles.slice(Math.max(0, i + 1 - strategyLookback(strategy, entryTf)), i + 1);
+        continue;
       }
+      const cs = data.mtfCandles?.[tf];
+      if (!cs?.length) continue;
+      const tfMs = TIMEFRAME_MS[tf];
+      const end = upperBound(cs, now, (c) => c.timestamp + tfMs);
+      if (end === 0) continue;
+      series[tf] = cs.slice(Math.max(0, end - (MTF_LIMITS[tf] ?? 500)), end);
+    }
+
+    let orderBook: OrderBookInput | null = null;
+    if (orderBooks.length) {
+      const idx = upperBound(orderBooks, now, (ob) => ob.timestamp) - 1;
+      if (idx >= 0) orderBook = orderBooks[idx];
+    }
+    let tradesWindow: TradeInput[] | null = null;
+    if (trades) {
+      const end = upperBound(trades, now, (t) => t.time);
+      tradesWindow = trades.slice(Math.max(0, end - config.limits.trades), end);
     }
-    if (!direction || score < minConfidence) continue;
-    // дополнительно: направление последней свечи должно совпадать
-    if (direction === 'LONG' && last.close < last.open) continue;
-    if (direction === 'SHORT' && last.close > last.open) continue;
+    const fundingIdx = funding.length ? upperBound(funding, now, (p) => p.timestamp) - 1 : -1;
 
+    const result = strategy.analyze({
+      symbol: params.symbol,
+      timeframe: entryTf,
+      mode: params.mode ?? 'default',
+      entryPrice: candles[i].close,
+      candles: series,
+      entryTimeframe: entryTf,
+      orderBook,
+      trades: tradesWindow,
+      now,
+      fundingRate: fundingIdx >= 0 ? funding[fundingIdx].rate : null,
+      params: strategyParams,
+      signalGenerator,
+      tfCache
+    });
+    return result && !result.blocked ? result : null;
+  };
+
+  return (i) => {
+    const key = candles[i].timestamp;
+    let result = signalCache.get(key);
+    if (result === undefined) {
+      result = evaluate(i);
+      signalCache.set(key, result);
+    }
+    if (!result) return null;
     const entryPrice = candles[i].close;
-    const atr = candleAnalyzer.getATR(slice, 14);
-    const riskDist = atr != null && atr > 0 ? atr * atrSlMultiplier : entryPrice * 0.01;
-    const sl =
-      direction === 'LONG'
-        ? entryPrice - riskDist
-        : entryPrice + riskDist;
-    const tp =
-      direction === 'LONG'
-        ? entryPrice + riskDist * riskRewardRatio
-        : entryPrice - riskDist * riskRewardRatio;
-
-    // Симуляция выхода на следующих барах
-    for (let j = i + 1; j < candles.length; j++) {
-      const bar = candles[j];
-      const hitTpLong = direction === 'LONG' && bar.high >= tp;
-      const hitSlLong = direction === 'LONG' && bar.low <= sl;
-      const hitTpShort = direction === 'SHORT' && bar.low <= tp;
-      const hitSlShort = direction === 'SHORT' && bar.high >= sl;
-
-      let exitPrice: number;
-      let win: boolean;
-      if (direction === 'LONG') {
-        if (hitTpLong && hitSlLong) {
-          // оба достигнуты в одном баре — смотрим кто раньше по тикам (упрощение: по open)
-          exitPrice = bar.open <= sl ? sl : tp;
-          win = exitPrice === tp;
-        } else if (hitTpLong) {
-          exitPrice = tp;
-          win = true;
-        } else if (hitSlLong) {
-          exitPrice = sl;
-          win = false;
-        } else continue;
-      } else {
-        if (hitTpShort && hitSlShort) {
-          exitPrice = bar.open >= sl ? sl : tp;
-          win = exitPrice === tp;
-        } else if (hitTpShort) {
-          exitPrice = tp;
-          win = true;
-        } else if (hitSlShort) {
-          exitPrice = sl;
-          win = false;
-        } else continue;
+    const { signal } = result;
+    if ((signal.confidence ?? 0) < minConfidence) return null;
+
+    const direction = signal.direction;
+    let sl = signal.stop_loss;
+    if (params.atrSlMultiplier != null && result.atr != null && result.atr > 0) {
+      const riskDist = result.atr * params.atrSlMultiplier;
+      sl = direction === 'LONG' ? entryPrice - riskDist : entryPrice + riskDist;
+    }
+    let tps = signal.take_profit.length ? [...signal.take_profit] : [entryPrice];
+    if (params.riskRewardRatio != null) {
+      // Та же лестница, что в SignalGenerator: TP1 = R:R, TP2 = +1.2R, TP3 = +2.5R (столько TP, сколько у стратегии)
+      const riskDist = Math.abs(entryPrice - sl);
+      const sign = direction === 'LONG' ? 1 : -1;
+      tps = [0, 1.2, 2.5].slice(0, tps.length).map((extra) => entryPrice + sign * riskDist * (params.riskRewardRatio! + extra));
+    }
+    const validLevels = direction === 'LONG'
+      ? sl < entryPrice && tps.every((tp) => tp > entryPrice)
+      : sl > entryPrice && tps.every((tp) => tp < entryPrice);
+    if (!validLevels) return null;
+    const tsc = signal.trailing_stop_config;
+    const trailing: TrailingStopConfig | undefined = tsc
+      ? {
+          initialStopPct: entryPrice > 0 ? Math.abs(entryPrice - sl) / entryPrice : DEFAULT_TRAILING_CONFIG.initialStopPct,
+          trailStepPct: tsc.trail_step_pct,
+          activationProfitPct: tsc.activation_profit_pct
+        }
+      : undefined;
+    return { direction, sl, tps, confidence: signal.confidence, triggers: signal.triggers, trailing, atr: result.atr };
+  };
+}
+
+/** Доли на каждую ногу: первые n-1 из fractions, последняя закрывает остаток */
+function legFractions(tpCount: number, fractions: number[]): number[] {
+  const out: number[] = [];
+  let left = 1;
+  for (let k = 0; k < tpCount - 1; k++) {
+    const f = Math.min(left, Math.max(0, fractions[k] ?? 0));
+    out.push(f);
+    left -= f;
+  }
+  out.push(left);
+  return out;
+}
+
+/** Ставка фандинга на момент t: последняя точка ряда с timestamp <= t, иначе константа */
+function fundingRateAt(t: number, series: FundingPoint[], fallback: number): number {
+  const idx = upperBound(series, t, (p) => p.timestamp) - 1;
+  return idx >= 0 ? series[idx].rate : fallback;
+}
+
+/**
+ * Симуляция сделки от закрытия бара i: частичные выходы на TP1..TP3, безубыток после TP1,
+ * трейлинг по закрытию бара. Если в одном баре достигнуты и стоп, и TP — порядок по open
+ * (open за стопом → стоп первым). Остаток на последнем баре закрывается по close (end_of_data).
+ * Издержки: вход, стоп и end_of_data — тейкер + проскальзывание; TP — по costs.tpAsMaker.
+ * Ликвидация (isolated): если цена ликвидации ближе стопа — теряется маржа остатка позиции.
+ */
+export function simulateTrade(
+  candles: OHLCVCandle[],
+  i: number,
+  entry: EntryCandidate,
+  policy: BacktestExitPolicy,
+  margin: number,
+  costs: BacktestCostModel = DEFAULT_COST_MODEL,
+  funding: FundingPoint[] = []
+): BacktestTrade | null {
+  if (i >= candles.length - 1 || margin <= 0) return null;
+  const { direction, sl, tps } = entry;
+  const entryPrice = candles[i].close;
+  const isLong = direction === 'LONG';
+  const sign = isLong ? 1 : -1;
+  const leverage = Math.max(1, costs.leverage);
+  const notional = margin * leverage;
+  const qty = notional / entryPrice;
+  const slip = costs.slippageAtrFraction != null && entry.atr != null && entry.atr > 0
+    ? entry.atr * costs.slippageAtrFraction
+    : entryPrice * costs.slippageBps / 10000;
+  const entryFillPrice = entryPrice + sign * slip;
+  const liquidationPrice = leverage > 1 ? calcLiquidationPrice(entryFillPrice, leverage, direction) : 0;
+  const fractions = legFractions(tps.length, policy.tpFractions);
+  const legs: BacktestExitLeg[] = [];
+  const tpReasons: BacktestExitReason[] = ['tp1', 'tp2', 'tp3'];
+
+  let stop = sl;
+  let stopReason: BacktestExitReason = 'sl';
+  let nextTp = 0;
+  let remaining = 1;
+  let exitBar = i;
+
+  const addLeg = (j: number, price: number, fraction: number, reason: BacktestExitReason, market: boolean) => {
+    const fillPrice = market ? price - sign * slip : price;
+    const fee = qty * fraction * fillPrice * (market ? costs.takerFee : costs.makerFee);
+    legs.push({ bar: j, price, fillPrice, fraction, reason, pnl: qty * fraction * sign * (price - entryPrice), fee });
+    remaining -= fraction;
+    exitBar = j;
+  };
+  const stopHit = (bar: OHLCVCandle) => (isLong ? bar.low <= stop : bar.high >= stop);
+  const liqHit = (bar: OHLCVCandle) => liquidationPrice > 0 &&
+    (isLong ? bar.low <= liquidationPrice && stop <= liquidationPrice : bar.high >= liquidationPrice && stop >= liquidationPrice);
+
+  for (let j = i + 1; j < candles.length && remaining > 1e-9; j++) {
+    const bar = candles[j];
+    if (liqHit(bar)) {
+      // Isolated: теряется маржа остатка, комиссии выхода нет
+      legs.push({ bar: j, price: liquidationPrice, fillPrice: liquidationPrice, fraction: remaining, reason: 'liquidation', pnl: -margin * remaining, fee: 0 });
+      remaining = 0;
+      exitBar = j;
+      break;
+    }
+    const openBeyondStop = isLong ? bar.open <= stop : bar.open >= stop;
+    const tpHitInBar = nextTp < tps.length && (isLong ? bar.high >= tps[nextTp] : bar.low <= tps[nextTp]);
+
+    if (stopHit(bar) && (openBeyondStop || !tpHitInBar)) {
+      addLeg(j, stop, remaining, stopReason, true);
+      break;
+    }
+
+    while (nextTp < tps.length && (isLong ? bar.high >= tps[nextTp] : bar.low <= tps[nextTp])) {
+      const fraction = Math.min(remaining, fractions[nextTp]);
+      if (fraction > 0) addLeg(j, tps[nextTp], fraction, tpReasons[nextTp] ?? 'tp3', !costs.tpAsMaker);
+      if (nextTp === 0 && policy.breakevenAfterTp1 && (isLong ? stop < entryPrice : stop > entryPrice)) {
+        stop = entryPrice;
+        stopReason = 'breakeven';
       }
+      nextTp++;
+    }
+    if (remaining <= 1e-9) break;
 
-      const pnl = direction === 'LONG' ? exitPrice - entryPrice : entryPrice - exitPrice;
-      const pnlPct = (pnl / entryPrice) * 100;
-      balance += pnl;
-      equityCurve.push(balance);
-      if (balance > peak) peak = balance;
-      const dd = peak - balance;
-      const ddPct = peak > 0 ? (dd / peak) * 100 : 0;
-      if (dd > maxDrawdown) maxDrawdown = dd;
-      if (ddPct > maxDrawdownPct) maxDrawdownPct = ddPct;
-
-      trades.push({
-        entryBar: i,
-        exitBar: j,
-        direction,
-        entryPrice,
-        exitPrice,
-        sl,
-        tp,
-        pnl,
-        pnlPct,
-        win
-      });
+    // После TP в том же баре цена могла вернуться к новому стопу (консервативно)
+    if (legs.length && legs[legs.length - 1].bar === j && stopHit(bar)) {
+      addLeg(j, stop, remaining, stopReason, true);
       break;
     }
+
+    if (policy.trailingStop) {
+      const trailed = updateTrailingStop(entryPrice, bar.close, direction, stop, entry.trailing ?? DEFAULT_TRAILING_CONFIG);
+      if (trailed !== stop) {
+        stop = trailed;
+        stopReason = 'trailing';
+      }
+    }
+  }
+
+  if (remaining > 1e-9) {
+    const last = candles.length - 1;
+    addLeg(last, candles[last].close, remaining, 'end_of_data', true);
+  }
+
+  // Фандинг: каждый 8ч-расчёт между входом (закрытие бара i) и выходом ноги — на открытый остаток
+  const entryTime = candles[i + 1].timestamp;
+  const exitTime = candles[exitBar].timestamp;
+  let fundingPaid = 0;
+  for (let t = Math.floor(entryTime / FUNDING_INTERVAL_MS + 1) * FUNDING_INTERVAL_MS; t <= exitTime; t += FUNDING_INTERVAL_MS) {
+    const openFraction = legs.reduce((left, l) => (candles[l.bar].timestamp < t ? left - l.fraction : left), 1);
+    if (openFraction <= 1e-9) break;
+    fundingPaid += sign * qty * openFraction * entryPrice * fundingRateAt(t, funding, costs.fundingRate);
+  }
+
+  const grossPnl = legs.reduce((sum, l) => sum + l.pnl, 0);
+  const fees = qty * entryFillPrice * costs.takerFee + legs.reduce((sum, l) => sum + l.fee, 0);
+  const slippage = qty * Math.abs(entryFillPrice - entryPrice) +
+    legs.reduce((sum, l) => sum + qty * l.fraction * Math.abs(l.price - l.fillPrice), 0);
+  const pnl = grossPnl - fees - slippage - fundingPaid;
+  const exitPrice = legs.reduce((sum, l) => sum + l.fillPrice * l.fraction, 0);
+  return {
+    entryBar: i,
+    exitBar,
+    entryTime,
+    exitTime: exitBar + 1 < candles.length ? candles[exitBar + 1].timestamp : exitTime + entryTime - candles[i].timestamp,
+    direction,
+    entryPrice,
+    entryFillPrice,
+    exitPrice,
+    margin,
+    notional,
+    leverage,
+    liquidationPrice,
+    sl,
+    tp: tps[0],
+    tps,
+    legs,
+    grossPnl,
+    fees,
+    slippage,
+    funding: fundingPaid,
+    pnl,
+    pnlPct: (pnl / margin) * 100,
+    win: pnl > 0,
+    liquidated: legs.some((l) => l.reason === 'liquidation'),
+    confidence: entry.confidence,
+    triggers: entry.triggers
+  };
+}
+
+/** Годовой Sharpe по доходностям сделок относительно капитала перед закрытием */
+export function tradeSharpe(equityCurve: number[], spanMs: number): number {
+  const returns = equityReturns(equityCurve);
+  if (returns.length < 2 || spanMs <= 0) return 0;
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1);
+  if (variance <= 0) return 0;
+  const tradesPerYear = returns.length / (spanMs / (365 * 24 * 3600 * 1000));
+  return (mean / Math.sqrt(variance)) * Math.sqrt(tradesPerYear);
+}
+
+/** Подготовленный прогон по одному символу: окно свечей, источник входов, политика выхода, издержки */
+export interface BacktestSetup {
+  strategy: BacktestStrategy;
+  strategyParams: StrategyParams;
+  timeframe: string;
+  /** Свечи, обрезанные по params.to */
+  candles: OHLCVCandle[];
+  findEntry: (i: number) => EntryCandidate | null;
+  /** Первый бар, на котором разрешён вход (прогрев + params.from) */
+  startBar: number;
+  exitPolicy: BacktestExitPolicy;
+  costModel: BacktestCostModel;
+  funding: FundingPoint[];
+}
+
+export function prepareBacktest(
+  allCandles: OHLCVCandle[],
+  params: Partial<BacktestParams> & { symbol: string; timeframe?: string },
+  data: BacktestMarketData = {},
+  signalCache?: PipelineSignalCache
+): BacktestSetup {
+  const timeframe = params.timeframe ?? getStrategy(params.strategy)?.requires.entryTimeframe ?? '15m';
+  const strategy = resolveBacktestStrategy(params.strategy, timeframe);
+  const candles = params.to != null
+    ? allCandles.slice(0, upperBound(allCandles, params.to, (c) => c.timestamp))
+    : allCandles;
+  const findEntry = createStrategyEntry(candles, params, strategy, timeframe as MtfTimeframe, data, signalCache);
+  const startBar = Math.max(
+    strategy.requires.minBars,
+    params.from != null ? upperBound(candles, params.from - 1, (c) => c.timestamp) : 0
+  );
+  return {
+    strategy: strategy.id,
+    strategyParams: resolveStrategyParams(strategy, params.strategyParams),
+    timeframe,
+    candles,
+    findEntry,
+    startBar,
+    exitPolicy: {
+      tpFractions: params.tpFractions ?? DEFAULT_TP_FRACTIONS,
+      breakevenAfterTp1: params.breakevenAfterTp1 ?? true,
+      trailingStop: params.trailingStop ?? true
+    },
+    costModel: { ...DEFAULT_COST_MODEL, ...params.costs },
+    funding: [...(data.funding ?? [])].sort((a, b) => a.timestamp - b.timestamp)
+  };
+}
+
+export async function runBacktest(
+  allCandles: OHLCVCandle[],
+  params: Partial<BacktestParams> & { symbol: string; timeframe?: string },
+  data: BacktestMarketData = {},
+  signalCache?: PipelineSignalCache
+): Promise<BacktestResult> {
+  const initialBalance = params.initialBalance ?? 100;
+  const setup = prepareBacktest(allCandles, params, data, signalCache);
+  const { strategy, strategyParams, timeframe, candles, findEntry, startBar, exitPolicy, costModel, funding } = setup;
+
+  const trades: BacktestTrade[] = [];
+  for (let i = startBar; i < candles.length - 1; i++) {
+    const entry = findEntry(i);
+    if (!entry) continue;
+    // Размер — от баланса, реализованного к закрытию бара i (без заглядывания в открытые сделки),
+    // но не больше свободной маржи: сделки пересекаются, сумма маржи открытых не превышает баланс (как portfolioBacktester)
+    const realized = initialBalance + trades.reduce((sum, t) => (t.exitBar <= i ? sum + t.pnl : sum), 0);
+    if (realized <= 0) break;
+    const used = trades.reduce((sum, t) => (t.exitBar > i ? sum + t.margin : sum), 0);
+    const margin = Math.min(realized * costModel.sizePercent / 100, realized - used);
+    if (margin <= 0) continue;
+    const trade = simulateTrade(candles, i, entry, exitPolicy, margin, costModel, funding);
+    if (trade) trades.push(trade);
+  }
+
+  // Кривая капитала — в порядке закрытия сделок
+  let balance = initialBalance;
+  const equityCurve: number[] = [initialBalance];
+  let peak = initialBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const trade of [...trades].sort((a, b) => a.exitBar - b.exitBar)) {
+    balance += trade.pnl;
+    equityCurve.push(balance);
+    if (balance > peak) peak = balance;
+    const dd = peak - balance;
+    const ddPct = peak > 0 ? (dd / peak) * 100 : 0;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+    if (ddPct > maxDrawdownPct) maxDrawdownPct = ddPct;
   }
 
   const wins = trades.filter((t) => t.win).length;
@@ -174,15 +643,25 @@ export async function runBacktest(
   const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0;
   const totalPnl = balance - initialBalance;
   const totalPnlPct = initialBalance > 0 ? (totalPnl / initialBalance) * 100 : 0;
+  const spanMs = candles.length > startBar ? candles[candles.length - 1].timestamp - candles[startBar].timestamp : 0;
 
   return {
     symbol: params.symbol ?? 'unknown',
-    timeframe: params.timeframe ?? '15m',
-    bars: candles.length,
+    timeframe,
+    strategy,
+    strategyParams,
+    exitPolicy,
+    costModel,
+    bars: Math.max(0, candles.length - startBar),
     initialBalance,
     finalBalance: balance,
+    grossPnl: trades.reduce((s, t) => s + t.grossPnl, 0),
     totalPnl,
     totalPnlPct,
+    totalFees: trades.reduce((s, t) => s + t.fees, 0),
+    totalSlippage: trades.reduce((s, t) => s + t.slippage, 0),
+    totalFunding: trades.reduce((s, t) => s + t.funding, 0),
+    liquidations: trades.filter((t) => t.liquidated).length,
     trades,
     totalTrades: trades.length,
     wins,
@@ -191,6 +670,8 @@ export async function runBacktest(
     profitFactor,
     maxDrawdown,
     maxDrawdownPct,
+    sharpe: tradeSharpe(equityCurve, spanMs),
+    stats: computeBacktestStats({ trades, equityCurve, initialBalance, finalBalance: balance, maxDrawdownPct, spanMs }),
     equityCurve
   };
 }
@@ -0,0 +1,106 @@
+/**
+ * Binance USDT-M WebSocket — стакан (top-5), сделки (aggTrade) и марк-цена (публичные данные)
+ * С автопереподключением при разрыве; ping/pong сервера обрабатывает ws
+ */
+import WebSocket from 'ws';
+import { normalizeSymbol } from '../lib/symbol';
+import { logger } from '../lib/logger';
+
+const BINANCE_WS = 'wss://fstream.binance.com/ws';
+const RECONNECT_DELAY_MS = 3000;
+
+type Handler = (data: unknown) => void;
+type StreamType = 'orderbook' | 'trade' | 'mark';
+
+/** Символ Binance для потоков: btcusdt */
+function streamName(type: StreamType, id: string): string {
+  const s = id.toLowerCase();
+  if (type === 'orderbook') return `${s}@depth5@100ms`;
+  if (type === 'trade') return `${s}@aggTrade`;
+  return `${s}@markPrice@1s`;
+}
+
+/** symbol — внутренний (BTC-USDT), id — символ Binance (BTCUSDT) */
+export function createBinanceStream(symbol: string, id: string) {
+  const norm = normalizeSymbol(symbol);
+  let ws: WebSocket | null = null;
+  const subs: Record<StreamType, Set<Handler>> = { orderbook: new Set(), trade: new Set(), mark: new Set() };
+  let refCount = 0;
+  let requestId = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function safeSend(socket: WebSocket | null, data: string) {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+  }
+
+  function subscribeMessage(types: StreamType[]): string {
+    return JSON.stringify({ method: 'SUBSCRIBE', params: types.map((t) => streamName(t, id)), id: ++requestId });
+  }
+
+  function connect() {
+    if (refCount <= 0) return;
+    if (ws?.readyState === WebSocket.OPEN) return;
+    if (ws?.readyState === WebSocket.CONNECTING) return;
+
+    ws = new WebSocket(BINANCE_WS);
+
+    ws.on('open', () => {
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      const types = (Object.keys(subs) as StreamType[]).filter((type) => subs[type].size);
+      if (types.length) safeSend(ws, subscribeMessage(types));
+    });
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        const json = JSON.parse(data.toString());
+        if (json.e === 'depthUpdate') {
+          const bids = (json.b || []).map((b: string[]) => [Number(b[0]), Number(b[1])]);
+          const asks = (json.a || []).map((a: string[]) => [Number(a[0]), Number(a[1])]);
+          subs.orderbook.forEach((cb) => cb({ bids, asks }));
+        } else if (json.e === 'aggTrade') {
+          // m — покупатель мейкер, т.е. агрессор — продавец
+          const trade = { price: Number(json.p), amount: Number(json.q ?? 0), time: Number(json.T ?? Date.now()), isBuy: json.m === false };
+          subs.trade.forEach((cb) => cb(trade));
+        } else if (json.e === 'markPriceUpdate') {
+          const mark = { price: Number(json.p), time: Number(json.E ?? Date.now()) };
+          if (mark.price > 0) subs.mark.forEach((cb) => cb(mark));
+        }
+      } catch {
+        // ignore parse errors
+      }
+    });
+
+    ws.on('close', () => {
+      ws = null;
+      if (refCount > 0) {
+        reconnectTimer = setTimeout(() => {
+          logger.debug('Binance-WS', `Reconnecting ${norm}`);
+          connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    });
+    ws.on('error', (err) => {
+      logger.warn('Binance-WS', 'WebSocket error', { symbol: norm, error: (err as Error).message });
+    });
+  }
+
+  function subscribe(type: StreamType, cb: Handler): () => void {
+    subs[type].add(cb);
+    refCount++;
+    if (subs[type].size === 1) safeSend(ws, subscribeMessage([type]));
+    connect();
+    return () => {
+      subs[type].delete(cb);
+      refCount--;
+      if (refCount <= 0 && ws) {
+        ws.close();
+        ws = null;
+      }
+    };
+  }
+
+  return { subscribe, symbol: norm };
+}
@@ -31,15 +31,20 @@ export function createBingXStream(symbol: string) {
     if (socket?.readyState === WebSocket.OPEN) socket.send(data);
   }
 
+  function sendSub(type: 'orderbook' | 'trade') {
+    const depthInterval = /^(BTC|ETH)-USDT$/.test(sym) ? '200ms' : '500ms';
+    const dataType = type === 'orderbook' ? `${sym}@depth20@${depthInterval}` : `${sym}@trade`;
+    safeSend(ws, JSON.stringify({ id: `${type === 'orderbook' ? 'ob' : 'tr'}-${Date.now()}`, reqType: 'sub', dataType }));
+  }
+
   function connect() {
     if (ws?.readyState === WebSocket.OPEN) return;
     if (ws?.readyState === WebSocket.CONNECTING) return;
     ws = new WebSocket(BINGX_WS, { perMessageDeflate: false });
 
     ws.on('open', () => {
-      const depthInterval = /^(BTC|ETH)-USDT$/.test(sym) ? '200ms' : '500ms';
-      if (subs.orderbook.size) safeSend(ws, JSON.stringify({ id: `ob-${Date.now()}`, reqType: 'sub', dataType: `${sym}@depth20@${depthInterval}` }));
-      if (subs.trade.size) safeSend(ws, JSON.stringify({ id: `tr-${Date.now()}`, reqType: 'sub', dataType: `${sym}@trade` }));
+      if (subs.orderbook.size) sendSub('orderbook');
+      if (subs.trade.size) sendSub('trade');
     });
     ws.on('close', () => {
       ws = null;
@@ -87,6 +92,8 @@ export function createBingXStream(symbol: string) {
   function subscribe(type: 'orderbook' | 'trade', cb: Handler): () => void {
     subs[type].add(cb);
     refCount++;
+    // Сокет уже открыт другими подписчиками — досписаться на новый канал
+    if (subs[type].size === 1) sendSub(type);
     connect();
     return () => {
       subs[type].delete(cb);
@@ -0,0 +1,133 @@
+/**
+ * Bybit linear WebSocket — стакан (top-5), сделки и марк-цена (публичные данные, v5)
+ * Стакан приходит снимком и дельтами — локальная книга; с автопереподключением при разрыве
+ */
+import WebSocket from 'ws';
+import { normalizeSymbol } from '../lib/symbol';
+import { logger } from '../lib/logger';
+
+const BYBIT_WS = 'wss://stream.bybit.com/v5/public/linear';
+const RECONNECT_DELAY_MS = 3000;
+const PING_INTERVAL_MS = 20000;
+const BOOK_LEVELS = 5;
+
+type Handler = (data: unknown) => void;
+type StreamType = 'orderbook' | 'trade' | 'mark';
+
+/** symbol — внутренний (BTC-USDT), id — символ Bybit (BTCUSDT) */
+export function createBybitStream(symbol: string, id: string) {
+  const norm = normalizeSymbol(symbol);
+  const topics: Record<StreamType, string> = {
+    orderbook: `orderbook.50.${id}`,
+    trade: `publicTrade.${id}`,
+    mark: `tickers.${id}`
+  };
+  let ws: WebSocket | null = null;
+  const subs: Record<StreamType, Set<Handler>> = { orderbook: new Set(), trade: new Set(), mark: new Set() };
+  const book = { bids: new Map<number, number>(), asks: new Map<number, number>() };
+  let refCount = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  function safeSend(socket: WebSocket | null, data: string) {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+  }
+
+  function clearTimers() {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (pingTimer) {
+      clearInterval(pingTimer);
+      pingTimer = null;
+    }
+  }
+
+  function applyBook(side: Map<number, number>, levels: string[][] | undefined) {
+    for (const [p, q] of levels ?? []) {
+      const price = Number(p);
+      const size = Number(q);
+      if (size > 0) side.set(price, size);
+      else side.delete(price);
+    }
+  }
+
+  function topLevels(side: Map<number, number>, desc: boolean): [number, number][] {
+    return [...side.entries()].sort((a, b) => (desc ? b[0] - a[0] : a[0] - b[0])).slice(0, BOOK_LEVELS);
+  }
+
+  function connect() {
+    if (refCount <= 0) return;
+    if (ws?.readyState === WebSocket.OPEN) return;
+    if (ws?.readyState === WebSocket.CONNECTING) return;
+
+    ws = new WebSocket(BYBIT_WS);
+
+    ws.on('open', () => {
+      clearTimers();
+      const args = (Object.keys(subs) as StreamType[]).filter((type) => subs[type].size).map((type) => topics[type]);
+      if (args.length) safeSend(ws, JSON.stringify({ op: 'subscribe', args }));
+      pingTimer = setInterval(() => safeSend(ws, JSON.stringify({ op: 'ping' })), PING_INTERVAL_MS);
+    });
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        const json = JSON.parse(data.toString());
+        if (!json.topic) return;
+        if (json.topic === topics.orderbook && json.data) {
+          if (json.type === 'snapshot') {
+            book.bids.clear();
+            book.asks.clear();
+          }
+          applyBook(book.bids, json.data.b);
+          applyBook(book.asks, json.data.a);
+          const snapshot = { bids: topLevels(book.bids, true), asks: topLevels(book.asks, false) };
+          subs.orderbook.forEach((cb) => cb(snapshot));
+        } else if (json.topic === topics.trade && Array.isArray(json.data)) {
+          for (const t of json.data) {
+            const trade = { price: Number(t.p), amount: Number(t.v ?? 0), time: Number(t.T ?? Date.now()), isBuy: t.S === 'Buy' };
+            subs.trade.forEach((cb) => cb(trade));
+          }
+        } else if (json.topic === topics.mark && json.data?.markPrice != null) {
+          // Дельты tickers приходят без markPrice, если он не менялся
+          const mark = { price: Number(json.data.markPrice), time: Number(json.ts ?? Date.now()) };
+          if (mark.price > 0) subs.mark.forEach((cb) => cb(mark));
+        }
+      } catch {
+        // ignore parse errors
+      }
+    });
+
+    ws.on('close', () => {
+      ws = null;
+      clearTimers();
+      if (refCount > 0) {
+        reconnectTimer = setTimeout(() => {
+          logger.debug('Bybit-WS', `Reconnecting ${norm}`);
+          connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    });
+    ws.on('error', (err) => {
+      logger.warn('Bybit-WS', 'WebSocket error', { symbol: norm, error: (err as Error).message });
+    });
+  }
+
+  function subscribe(type: StreamType, cb: Handler): () => void {
+    subs[type].add(cb);
+    refCount++;
+    if (subs[type].size === 1) safeSend(ws, JSON.stringify({ op: 'subscribe', args: [topics[type]] }));
+    connect();
+    return () => {
+      subs[type].delete(cb);
+      refCount--;
+      if (refCount <= 0 && ws) {
+        ws.close();
+        ws = null;
+      }
+    };
+  }
+
+  return { subscribe, symbol: norm };
+}
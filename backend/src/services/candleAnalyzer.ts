@@ -302,6 +302,13 @@ export class CandleAnalyzer {
     };
   }
 
+  /** EMA произвольного периода (конструктор правил: пересечения EMA) */
+  getEMAValue(closes: number[], period: number): number | null {
+    if (closes.length < period) return null;
+    const ema = EMA.calculate({ values: closes, period });
+    return ema[ema.length - 1] ?? null;
+  }
+
   /** PDF: ATR для SL/TP — TR = max(High-Low, |High-Close_prev|, |Low-Close_prev|), period 14 */
   getATR(candles: { high: number; low: number; close: number }[], period = 14): number | null {
     if (candles.length < period + 1) return null;
@@ -0,0 +1,265 @@
+/**
+ * Candle Store — постоянное хранилище свечей (SQLite, db/index.ts) поверх REST биржи (exchangeAdapters)
+ * - Чтение последних N свечей: свежая страница с биржи (write-through) + история из хранилища
+ * - Чтение диапазона from/to: недостающие участки догружаются с биржи
+ * - Backfill: пагинация истории назад (OKX history-candles — 100 баров на запрос, остальные биржи — больше)
+ * - Свечи OKX хранятся под символом (BTC-USDT), других бирж — с префиксом (binance:BTC-USDT)
+ * - Поиск и ремонт пропусков (gap detection / repair)
+ * Моки DataAggregator в хранилище не попадают: сохраняется только ответ биржи.
+ */
+
+import { OHLCVCandle } from '../types/candle';
+import { upsertCandles, listCandles, getCandleCoverage, listCandleTimestamps } from '../db';
+import { TIMEFRAME_MS, MtfTimeframe } from './analysisPipeline';
+import { logger } from '../lib/logger';
+
+/** Страница свечей с биржи: until — строго раньше (ms), без until — последние limit */
+export type CandlePageFetcher = (
+  symbol: string,
+  timeframe: string,
+  opts: { until?: number; limit: number }
+) => Promise<OHLCVCandle[]>;
+
+export interface CandleRange {
+  /** Время открытия первой свечи, ms (включительно) */
+  from?: number;
+  /** Время открытия последней свечи, ms (включительно) */
+  to?: number;
+}
+
+/** Пропуск: первая и последняя отсутствующие свечи */
+export interface CandleGap {
+  from: number;
+  to: number;
+  missing: number;
+}
+
+export interface CandleStoreOptions {
+  exchange?: string;
+  /** Баров на страницу истории */
+  pageLimit?: number;
+}
+
+export interface BackfillJob {
+  id: string;
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+  from: number;
+  to: number;
+  status: 'running' | 'done' | 'failed';
+  pages: number;
+  fetched: number;
+  gapsRepaired: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/** OKX history-candles: макс. 100 баров на запрос */
+const OKX_HISTORY_PAGE = 100;
+/** Биржа, свечи которой хранятся без префикса (данные до появления других бирж) */
+const UNPREFIXED_EXCHANGE = 'okx';
+/** Защита от бесконечной пагинации (≈ 200k баров за задачу) */
+const MAX_PAGES_PER_RUN = 2000;
+/** Макс. свечей в ответе чтения по диапазону */
+export const MAX_RANGE_CANDLES = 50000;
+
+const jobs = new Map<string, BackfillJob>();
+/** Пропуски, которых нет и на бирже (техработы): не перезапрашиваются при каждом чтении */
+const unrepairableGaps = new Set<string>();
+
+/** Таймфреймы, которые кэшируются (остальные читаются с биржи напрямую) */
+export function isStoredTimeframe(timeframe: string): boolean {
+  return timeframe in TIMEFRAME_MS;
+}
+
+export class CandleStore {
+  readonly exchange: string;
+  private pageLimit: number;
+
+  constructor(private fetchPage: CandlePageFetcher, opts: CandleStoreOptions = {}) {
+    this.exchange = opts.exchange ?? UNPREFIXED_EXCHANGE;
+    this.pageLimit = opts.pageLimit ?? OKX_HISTORY_PAGE;
+  }
+
+  /** Ключ символа в хранилище */
+  private key(symbol: string): string {
+    return this.exchange === UNPREFIXED_EXCHANGE ? symbol : `${this.exchange}:${symbol}`;
+  }
+
+  private tfMs(timeframe: string): number {
+    return TIMEFRAME_MS[timeframe as MtfTimeframe];
+  }
+
+  /**
+   * Пагинация назад от to до from (включительно). Участок, уже покрытый хранилищем, перескакивается;
+   * пропуски внутри него — через repairGaps. Возвращает число загруженных свечей.
+   */
+  async backfill(
+    symbol: string,
+    timeframe: string,
+    from: number,
+    to: number = Date.now(),
+    onPage?: (fetched: number) => void
+  ): Promise<number> {
+    const coverage = getCandleCoverage(this.key(symbol), timeframe);
+    let cursor = to + 1;
+    let fetched = 0;
+    for (let page = 0; page < MAX_PAGES_PER_RUN && cursor > from; page++) {
+      if (coverage && cursor > coverage.first && cursor - 1 <= coverage.last) {
+        cursor = coverage.first;
+        if (cursor <= from) break;
+      }
+      const rows = (await this.fetchPage(symbol, timeframe, { until: cursor, limit: this.pageLimit }))
+        .filter((c) => c.timestamp < cursor);
+      if (!rows.length) break;
+      upsertCandles(this.key(symbol), timeframe, rows);
+      fetched += rows.length;
+      onPage?.(rows.length);
+      cursor = Math.min(...rows.map((c) => c.timestamp));
+    }
+    return fetched;
+  }
+
+  /** Покрытие хранилища: первая/последняя свеча и количество */
+  getCoverage(symbol: string, timeframe: string) {
+    return getCandleCoverage(this.key(symbol), timeframe);
+  }
+
+  /** Пропуски в хранилище внутри [from, to] (по умолчанию — всё покрытие) */
+  detectGaps(symbol: string, timeframe: string, range: CandleRange = {}): CandleGap[] {
+    const coverage = getCandleCoverage(this.key(symbol), timeframe);
+    if (!coverage) return [];
+    const step = this.tfMs(timeframe);
+    const stamps = listCandleTimestamps(this.key(symbol), timeframe, range.from ?? coverage.first, range.to ?? coverage.last);
+    const gaps: CandleGap[] = [];
+    for (let k = 1; k < stamps.length; k++) {
+      const missing = Math.round((stamps[k] - stamps[k - 1]) / step) - 1;
+      if (missing > 0) gaps.push({ from: stamps[k - 1] + step, to: stamps[k] - step, missing });
+    }
+    return gaps;
+  }
+
+  /** Догрузка пропусков; возвращает число закрытых пропусков */
+  async repairGaps(symbol: string, timeframe: string, range: CandleRange = {}): Promise<number> {
+    const gaps = this.detectGaps(symbol, timeframe, range);
+    const step = this.tfMs(timeframe);
+    let repaired = 0;
+    for (const gap of gaps) {
+      const key = `${this.key(symbol)}|${timeframe}|${gap.from}|${gap.to}`;
+      if (unrepairableGaps.has(key)) continue;
+      let cursor = gap.to + step;
+      for (let page = 0; page < MAX_PAGES_PER_RUN && cursor > gap.from; page++) {
+        const rows = (await this.fetchPage(symbol, timeframe, { until: cursor, limit: this.pageLimit }))
+          .filter((c) => c.timestamp < cursor);
+        if (!rows.length) break;
+        upsertCandles(this.key(symbol), timeframe, rows);
+        cursor = Math.min(...rows.map((c) => c.timestamp));
+      }
+      // Биржа может не иметь баров (техработы) — пропуск остаётся, повторно не запрашиваем
+      if (!this.detectGaps(symbol, timeframe, { from: gap.from - step, to: gap.to + step }).length) repaired++;
+      else unrepairableGaps.add(key);
+    }
+    return repaired;
+  }
+
+  /**
+   * Последние limit свечей (range.to — верхняя граница) либо все свечи в [from, to].
+   * null — биржа недоступна и в хранилище пусто (вызывающий решает, что делать).
+   */
+  async getCandles(symbol: string, timeframe: string, limit: number, range: CandleRange = {}): Promise<OHLCVCandle[] | null> {
+    const step = this.tfMs(timeframe);
+    if (range.from != null || range.to != null) {
+      const to = Math.min(range.to ?? Date.now(), Date.now());
+      const from = range.from ?? to - (limit - 1) * step;
+      await this.ensureRange(symbol, timeframe, from, to);
+      const rows = listCandles(this.key(symbol), timeframe, { from, to, limit: Math.min(limit, MAX_RANGE_CANDLES) });
+      return rows.length ? rows : null;
+    }
+
+    let fresh: OHLCVCandle[] = [];
+    try {
+      fresh = await this.fetchPage(symbol, timeframe, { limit });
+      upsertCandles(this.key(symbol), timeframe, fresh);
+    } catch (e) {
+      logger.warn('CandleStore', 'Latest candles fetch failed, using store', { symbol, timeframe, error: (e as Error).message });
+    }
+    if (fresh.length >= limit) return fresh.slice(-limit);
+
+    const newest = fresh.length ? fresh[fresh.length - 1].timestamp : getCandleCoverage(this.key(symbol), timeframe)?.last;
+    // Без биржи — только если хранилище не устарело больше чем на limit баров
+    if (newest == null || (!fresh.length && newest < Date.now() - limit * step)) return null;
+    const from = newest - (limit - 1) * step;
+    if (fresh.length) {
+      try {
+        await this.ensureRange(symbol, timeframe, from, newest);
+      } catch (e) {
+        logger.warn('CandleStore', 'History backfill failed', { symbol, timeframe, error: (e as Error).message });
+      }
+    }
+    return listCandles(this.key(symbol), timeframe, { to: newest, limit });
+  }
+
+  /** Догрузить в хранилище то, чего не хватает для [from, to] */
+  private async ensureRange(symbol: string, timeframe: string, from: number, to: number): Promise<void> {
+    const step = this.tfMs(timeframe);
+    const coverage = getCandleCoverage(this.key(symbol), timeframe);
+    if (!coverage) {
+      await this.backfill(symbol, timeframe, from, to);
+      return;
+    }
+    if (from < coverage.first) await this.backfill(symbol, timeframe, from, coverage.first - step);
+    // Последняя сохранённая свеча могла быть незакрытой — перечитываем её
+    if (to > coverage.last) await this.backfill(symbol, timeframe, coverage.last, to);
+    const gaps = this.detectGaps(symbol, timeframe, { from, to });
+    if (gaps.length) await this.repairGaps(symbol, timeframe, { from, to });
+  }
+
+  /** Фоновая задача: backfill [from, to] + ремонт пропусков. Прогресс — getBackfillJob(id) */
+  startBackfillJob(symbol: string, timeframe: string, from: number, to: number = Date.now()): BackfillJob {
+    const running = [...jobs.values()].find(
+      (j) => j.status === 'running' && j.exchange === this.exchange && j.symbol === symbol && j.timeframe === timeframe
+    );
+    if (running) return running;
+    const job: BackfillJob = {
+      id: `bf_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      exchange: this.exchange,
+      symbol,
+      timeframe,
+      from,
+      to,
+      status: 'running',
+      pages: 0,
+      fetched: 0,
+      gapsRepaired: 0,
+      startedAt: new Date().toISOString()
+    };
+    jobs.set(job.id, job);
+    (async () => {
+      try {
+        await this.backfill(symbol, timeframe, from, to, (n) => {
+          job.pages++;
+          job.fetched += n;
+        });
+        job.gapsRepaired = await this.repairGaps(symbol, timeframe, { from, to });
+        job.status = 'done';
+      } catch (e) {
+        job.status = 'failed';
+        job.error = (e as Error).message;
+        logger.warn('CandleStore', 'Backfill failed', { exchange: this.exchange, symbol, timeframe, error: job.error });
+      } finally {
+        job.finishedAt = new Date().toISOString();
+      }
+    })();
+    return job;
+  }
+}
+
+export function getBackfillJob(id: string): BackfillJob | undefined {
+  return jobs.get(id);
+}
+
+export function listBackfillJobs(): BackfillJob[] {
+  return [...jobs.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
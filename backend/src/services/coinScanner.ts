@@ -10,7 +10,8 @@
  * - Funding Rate (опционально)
  */
 
-import { DataAggregator } from './dataAggregator';
+import { DataAggregator, getDataAggregator } from './dataAggregator';
+import { ExchangeId, DEFAULT_EXCHANGE } from './exchangeAdapters';
 import { CandleAnalyzer } from './candleAnalyzer';
 import { logger } from '../lib/logger';
 
@@ -52,8 +53,8 @@ export class CoinScanner {
   private dataAgg: DataAggregator;
   private analyzer: CandleAnalyzer;
 
-  constructor() {
-    this.dataAgg = new DataAggregator();
+  constructor(exchange: ExchangeId = DEFAULT_EXCHANGE) {
+    this.dataAgg = getDataAggregator(exchange);
     this.analyzer = new CandleAnalyzer();
   }
 
@@ -1,40 +1,36 @@
-import ccxt, { Exchange } from 'ccxt';
 import { OHLCVCandle } from '../types/candle';
 import { config } from '../config';
-import { toOkxCcxtSymbol } from '../lib/symbol';
 import { logger } from '../lib/logger';
+import { CandleStore, CandleRange, isStoredTimeframe, MAX_RANGE_CANDLES } from './candleStore';
+import { ExchangeAdapter, ExchangeId, DEFAULT_EXCHANGE, getExchangeAdapter } from './exchangeAdapters';
 
 /**
- * Data Aggregator — OKX REST API (публичные и приватные данные)
+ * Data Aggregator — рыночные данные биржи через адаптер (services/exchangeAdapters), по умолчанию OKX
  */
 export class DataAggregator {
-  private exchange: Exchange;
-
-  constructor() {
-    const { okx } = config;
-    const opts: Record<string, unknown> = {
-      apiKey: okx.hasCredentials ? okx.apiKey : undefined,
-      secret: okx.hasCredentials ? okx.secret : undefined,
-      password: okx.hasCredentials && okx.passphrase ? okx.passphrase : undefined,
-      enableRateLimit: true,
-      options: { defaultType: 'swap' },
-      timeout: 30000, // OKX /asset/currencies и др. могут отвечать медленно
-    };
-    const proxyUrl = config.proxy;
-    if (proxyUrl) {
-      opts.httpsProxy = proxyUrl;
-    }
-    this.exchange = new ccxt.okx(opts);
-    logger.info('DataAggregator', `OKX: public${okx.hasCredentials ? ' + trading' : ''}${proxyUrl ? ' [proxy]' : ''}`);
+  private adapter: ExchangeAdapter;
+  /** Кэш свечей в SQLite: getOHLCV читает через него прозрачно */
+  readonly candleStore: CandleStore;
+
+  constructor(exchange: ExchangeId = DEFAULT_EXCHANGE) {
+    this.adapter = getExchangeAdapter(exchange);
+    this.candleStore = new CandleStore((symbol, timeframe, opts) => this.fetchOHLCVPage(symbol, timeframe, opts), {
+      exchange: this.adapter.id,
+      pageLimit: this.adapter.historyPageLimit
+    });
+    logger.info('DataAggregator', `${this.adapter.name}: public${config.proxy ? ' [proxy]' : ''}`);
   }
 
-  getExchangeIds(): string[] {
-    return ['okx'];
+  get exchange(): ExchangeId {
+    return this.adapter.id;
+  }
+
+  get exchangeName(): string {
+    return this.adapter.name;
   }
 
-  private toCcxtSymbol(symbol: string): string {
-    const s = toOkxCcxtSymbol(symbol);
-    return s || 'BTC/USDT:USDT';
+  getExchangeIds(): string[] {
+    return [this.adapter.id];
   }
 
   async getOHLCV(symbol: string, timeframe = '15m', limit = 100, _exchangeId?: string): Promise<OHLCVCandle[]> {
@@ -42,28 +38,48 @@ export class DataAggregator {
   }
 
   async getOHLCVByExchange(symbol: string, timeframe: string, limit: number): Promise<OHLCVCandle[]> {
-    const ccxtSymbol = this.toCcxtSymbol(symbol);
+    if (isStoredTimeframe(timeframe)) {
+      const stored = await this.candleStore.getCandles(symbol, timeframe, limit);
+      if (stored?.length) return stored;
+      return this.getMockCandles(symbol, timeframe, limit);
+    }
     try {
-      const data = await this.exchange.fetchOHLCV(ccxtSymbol, timeframe, undefined, limit);
-      if (data?.length) {
-        return data.map((row) => ({
-          timestamp: Number(row[0]),
-          open: Number(row[1]),
-          high: Number(row[2]),
-          low: Number(row[3]),
-          close: Number(row[4]),
-          volume: Number(row[5] ?? 0)
-        }));
-      }
+      const data = await this.fetchOHLCVPage(symbol, timeframe, { limit });
+      if (data.length) return data;
+    } catch {}
+    return this.getMockCandles(symbol, timeframe, limit);
+  }
+
+  /**
+   * Свечи за период [from, to] (ms, время открытия) из хранилища с догрузкой истории биржи.
+   * Без моков: если данных нет — пустой массив.
+   */
+  async getOHLCVRange(symbol: string, timeframe: string, range: CandleRange, limit = MAX_RANGE_CANDLES): Promise<OHLCVCandle[]> {
+    if (!isStoredTimeframe(timeframe)) return [];
+    try {
+      return (await this.candleStore.getCandles(symbol, timeframe, limit, range)) ?? [];
+    } catch (e) {
+      logger.warn(this.adapter.name, 'OHLCV range fetch failed', { symbol, timeframe, error: (e as Error).message });
+      return [];
+    }
+  }
+
+  /**
+   * Одна страница биржи: без until — последние limit, с until — история строго раньше until
+   * (OKX history-candles — до 100). Ошибки пробрасываются, моков нет — для CandleStore.
+   */
+  async fetchOHLCVPage(symbol: string, timeframe: string, opts: { until?: number; limit: number }): Promise<OHLCVCandle[]> {
+    try {
+      return await this.adapter.fetchOHLCVPage(symbol, timeframe, opts);
     } catch (e) {
       const msg = (e as Error).message;
       if (!msg?.includes('does not have market symbol')) {
-        logger.warn('OKX', 'OHLCV fetch failed', { symbol, error: msg });
+        logger.warn(this.adapter.name, 'OHLCV fetch failed', { symbol, error: msg });
       } else {
-        logger.debug('OKX', 'OHLCV symbol not on OKX', { symbol });
+        logger.debug(this.adapter.name, `OHLCV symbol not on ${this.adapter.name}`, { symbol });
       }
+      throw e;
     }
-    return this.getMockCandles(symbol, timeframe, limit);
   }
 
   async getOrderBook(symbol: string, limit = 20, _exchangeId?: string): Promise<{ bids: [number, number][]; asks: [number, number][] }> {
@@ -71,25 +87,18 @@ export class DataAggregator {
   }
 
   async getOrderBookByExchange(symbol: string, limit: number): Promise<{ bids: [number, number][]; asks: [number, number][] }> {
-    const ccxtSymbol = this.toCcxtSymbol(symbol);
-    const okxLimit = Math.min(limit, config.limits.orderBook);
     try {
-      const ob = await this.exchange.fetchOrderBook(ccxtSymbol, okxLimit);
-      const bids = (ob.bids || []).slice(0, okxLimit).map(([p, a]) => [Number(p), Number(a)] as [number, number]);
-      const asks = (ob.asks || []).slice(0, okxLimit).map(([p, a]) => [Number(p), Number(a)] as [number, number]);
-      return { bids, asks };
+      return await this.adapter.fetchOrderBook(symbol, Math.min(limit, config.limits.orderBook));
     } catch (e) {
-      logger.warn('OKX', 'OrderBook fetch failed', { symbol, error: (e as Error).message });
+      logger.warn(this.adapter.name, 'OrderBook fetch failed', { symbol, error: (e as Error).message });
       return this.getMockOrderBook(symbol, limit);
     }
   }
 
   async getCurrentPrice(symbol: string): Promise<number> {
-    const ccxtSymbol = this.toCcxtSymbol(symbol);
     try {
-      const ticker = await this.exchange.fetchTicker(ccxtSymbol);
-      const last = ticker?.last ?? ticker?.close;
-      if (typeof last === 'number' && last > 0) return last;
+      const last = await this.adapter.fetchPrice(symbol);
+      if (last != null) return last;
     } catch {}
     try {
       const ob = await this.getOrderBookByExchange(symbol, 5);
@@ -103,24 +112,10 @@ export class DataAggregator {
   }
 
   async getTrades(symbol: string, limit = 100, _exchangeId?: string): Promise<{ price: number; amount: number; time: number; isBuy: boolean; quoteQuantity?: number }[]> {
-    const ccxtSymbol = this.toCcxtSymbol(symbol);
-    const okxLimit = Math.min(limit, config.limits.trades);
     try {
-      const rows = await this.exchange.fetchTrades(ccxtSymbol, undefined, okxLimit);
-      return rows.map((t: any) => {
-        const price = Number(t.price ?? (t.cost && t.amount ? t.cost / t.amount : 0));
-        const amount = Number(t.amount ?? (t.cost && t.price ? t.cost / t.price : 0));
-        const cost = t.cost ?? (price * amount);
-        return {
-          price,
-          amount,
-          time: Number(t.timestamp ?? t.time ?? Date.now()),
-          isBuy: t.side === 'buy' || t.buy === true,
-          quoteQuantity: Number(cost)
-        };
-      }).sort((a, b) => a.time - b.time); // OKX: oldest first для CVD
+      return await this.adapter.fetchTrades(symbol, Math.min(limit, config.limits.trades));
     } catch (e) {
-      logger.warn('OKX', 'Trades fetch failed', { symbol, error: (e as Error).message });
+      logger.warn(this.adapter.name, 'Trades fetch failed', { symbol, error: (e as Error).message });
       return this.getMockTrades(symbol, limit);
     }
   }
@@ -195,3 +190,15 @@ export class DataAggregator {
     return m[tf] ?? 900000;
   }
 }
+
+const aggregators = new Map<ExchangeId, DataAggregator>();
+
+/** Общий агрегатор биржи (один CandleStore и клиент ccxt на биржу) */
+export function getDataAggregator(exchange: ExchangeId = DEFAULT_EXCHANGE): DataAggregator {
+  let aggregator = aggregators.get(exchange);
+  if (!aggregator) {
+    aggregator = new DataAggregator(exchange);
+    aggregators.set(exchange, aggregator);
+  }
+  return aggregator;
+}
@@ -0,0 +1,359 @@
+/**
+ * Dataset import — офлайн-данные для бэктеста из CSV/JSON (экспорт Binance / OKX)
+ * Свечи кладутся в хранилище свечей (db candles) под ключом ds:<id>, лента сделок — в dataset_trades.
+ * Проверки: монотонность времени, выравнивание по таймфрейму, корректность OHLC.
+ *
+ * Свечи (CSV без заголовка и JSON-массивы): ts, open, high, low, close, volume, ... —
+ * общий порядок Binance klines и OKX candles. CSV с заголовком и JSON-объекты — по именам колонок.
+ * Сделки: Binance trades (id, price, qty, quote_qty, time, is_buyer_maker),
+ * Binance aggTrades (id, price, qty, first_id, last_id, time, is_buyer_maker),
+ * OKX trades (trade_id, side, size, price, created_time) или по заголовку.
+ */
+
+import { OHLCVCandle } from '../types/candle';
+import { TradeInput } from './marketAnalysis';
+import { TIMEFRAME_MS, MtfTimeframe, MTF_ORDER } from './analysisPipeline';
+import {
+  upsertCandles,
+  listCandles,
+  deleteCandles,
+  insertDataset,
+  getDataset,
+  deleteDataset,
+  replaceDatasetTrades,
+  listDatasetTrades,
+  DatasetRow
+} from '../db';
+
+export type DatasetFormat = 'auto' | 'binance' | 'okx';
+
+export interface DatasetImportInput {
+  name?: string;
+  symbol: string;
+  /** Таймфрейм свечей; если не задан — по медианному шагу */
+  timeframe?: string;
+  format?: DatasetFormat;
+  /** Содержимое файла свечей (CSV или JSON) */
+  candles: string;
+  /** Содержимое файла сделок (CSV или JSON), опционально */
+  trades?: string;
+}
+
+export type DatasetImportResult = { dataset: DatasetRow } | { errors: string[] };
+
+/** Макс. сообщений об ошибках в ответе */
+const MAX_ERRORS = 20;
+
+/** Ключ набора в хранилище свечей */
+export function datasetCandleKey(id: string): string {
+  return `ds:${id}`;
+}
+
+/** Binance с 2025 отдаёт время в микросекундах, иногда — секунды */
+function normalizeTime(raw: unknown): number {
+  const s = String(raw ?? '').trim();
+  let t = /^\d+(\.\d+)?$/.test(s) ? Number(s) : Date.parse(s);
+  if (!Number.isFinite(t)) return NaN;
+  if (t > 1e17) t = t / 1e6; // нс
+  else if (t > 1e14) t = t / 1e3; // мкс
+  else if (t < 1e11) t = t * 1e3; // с
+  return Math.floor(t);
+}
+
+function parseBool(raw: unknown): boolean {
+  const s = String(raw ?? '').trim().toLowerCase();
+  return s === 'true' || s === '1';
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(/[,;\t]/).map((c) => c.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+/** Табличное представление файла: заголовок (если есть) + строки */
+function readTable(content: string): { header: string[] | null; rows: unknown[][] | Record<string, unknown>[] } {
+  const text = content.replace(/^﻿/, '').trim();
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const parsed = JSON.parse(text) as unknown;
+    // OKX API: { code, data: [[...]] }; произвольный объект-обёртка с массивом data
+    const list = Array.isArray(parsed) ? parsed : (parsed as { data?: unknown }).data;
+    if (!Array.isArray(list)) throw new Error('JSON must be an array or { data: [...] }');
+    if (list.length && !Array.isArray(list[0]) && typeof list[0] === 'object') {
+      const rows = (list as Record<string, unknown>[]).map((o) =>
+        Object.fromEntries(Object.entries(o).map(([k, v]) => [k.toLowerCase(), v]))
+      );
+      return { header: null, rows };
+    }
+    return { header: null, rows: list as unknown[][] };
+  }
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (!lines.length) return { header: null, rows: [] };
+  const first = splitCsvLine(lines[0]);
+  // Заголовок — если в первой строке есть нечисловая ячейка, не являющаяся датой/флагом
+  const hasHeader = first.some(
+    (c) => c !== '' && !/^-?\d+(\.\d+)?(e-?\d+)?$/i.test(c) && !/^(true|false|buy|sell)$/i.test(c) && !Number.isFinite(Date.parse(c))
+  );
+  const header = hasHeader ? first.map((c) => c.toLowerCase()) : null;
+  const rows = (hasHeader ? lines.slice(1) : lines).map(splitCsvLine);
+  if (!header) return { header: null, rows };
+  return {
+    header,
+    rows: rows.map((r) => Object.fromEntries(header.map((h, k) => [h, r[k]])))
+  };
+}
+
+function pick(row: Record<string, unknown>, names: string[]): unknown {
+  for (const n of names) {
+    if (row[n] != null && row[n] !== '') return row[n];
+  }
+  return undefined;
+}
+
+const TIME_KEYS = ['timestamp', 'time', 'ts', 'open_time', 'opentime', 'open time', 'date', 'datetime'];
+const VOLUME_KEYS = ['volume', 'vol', 'base_volume', 'vol_ccy'];
+
+export function parseCandles(content: string): { candles: OHLCVCandle[]; errors: string[] } {
+  const { rows } = readTable(content);
+  const errors: string[] = [];
+  const candles: OHLCVCandle[] = [];
+  rows.forEach((row, idx) => {
+    const r = Array.isArray(row)
+      ? { t: row[0], o: row[1], h: row[2], l: row[3], c: row[4], v: row[5] }
+      : {
+          t: pick(row, TIME_KEYS),
+          o: pick(row, ['open', 'o']),
+          h: pick(row, ['high', 'h']),
+          l: pick(row, ['low', 'l']),
+          c: pick(row, ['close', 'c']),
+          v: pick(row, VOLUME_KEYS)
+        };
+    const candle: OHLCVCandle = {
+      timestamp: normalizeTime(r.t),
+      open: Number(r.o),
+      high: Number(r.h),
+      low: Number(r.l),
+      close: Number(r.c),
+      volume: r.v != null ? Number(r.v) : 0
+    };
+    const values = [candle.timestamp, candle.open, candle.high, candle.low, candle.close, candle.volume];
+    if (values.some((v) => !Number.isFinite(v))) {
+      if (errors.length < MAX_ERRORS) errors.push(`candles row ${idx + 1}: non-numeric value`);
+      return;
+    }
+    candles.push(candle);
+  });
+  return { candles, errors };
+}
+
+export function parseTrades(content: string, format: DatasetFormat = 'auto'): { trades: TradeInput[]; errors: string[] } {
+  const { rows } = readTable(content);
+  const errors: string[] = [];
+  const trades: TradeInput[] = [];
+  rows.forEach((row, idx) => {
+    let price: unknown;
+    let amount: unknown;
+    let time: unknown;
+    let isBuy: boolean;
+    if (Array.isArray(row)) {
+      const okx = format === 'okx' || (format === 'auto' && /^(buy|sell)$/i.test(String(row[1] ?? '')));
+      if (okx) {
+        // trade_id, side, size, price, created_time
+        [, , amount, price, time] = row;
+        isBuy = String(row[1]).toLowerCase() === 'buy';
+      } else if (row.length >= 7) {
+        // aggTrades: id, price, qty, first_id, last_id, time, is_buyer_maker
+        [, price, amount, , , time] = row;
+        isBuy = !parseBool(row[6]);
+      } else {
+        // trades: id, price, qty, quote_qty, time, is_buyer_maker
+        [, price, amount, , time] = row;
+        isBuy = !parseBool(row[5]);
+      }
+    } else {
+      price = pick(row, ['price', 'px', 'p']);
+      amount = pick(row, ['amount', 'qty', 'quantity', 'size', 'sz', 'q']);
+      time = pick(row, ['time', 'timestamp', 'transact_time', 'created_time', 'ts', 't']);
+      const side = pick(row, ['side']);
+      const maker = pick(row, ['is_buyer_maker', 'isbuyermaker', 'm']);
+      const buyFlag = pick(row, ['isbuy', 'is_buy']);
+      isBuy = side != null
+        ? String(side).toLowerCase() === 'buy'
+        : buyFlag != null
+          ? parseBool(buyFlag)
+          : !parseBool(maker);
+    }
+    const trade: TradeInput = { price: Number(price), amount: Number(amount), time: normalizeTime(time), isBuy };
+    if (![trade.price, trade.amount, trade.time].every(Number.isFinite) || trade.price <= 0 || trade.amount < 0) {
+      if (errors.length < MAX_ERRORS) errors.push(`trades row ${idx + 1}: invalid price/amount/time`);
+      return;
+    }
+    trades.push(trade);
+  });
+  return { trades, errors };
+}
+
+/** Медианный шаг между свечами → таймфрейм из TIMEFRAME_MS */
+export function inferTimeframe(candles: OHLCVCandle[]): string | null {
+  if (candles.length < 2) return null;
+  const deltas = candles.slice(1).map((c, k) => Math.abs(c.timestamp - candles[k].timestamp)).sort((a, b) => a - b);
+  const median = deltas[Math.floor(deltas.length / 2)];
+  return MTF_ORDER.find((tf) => TIMEFRAME_MS[tf] === median) ?? null;
+}
+
+/**
+ * Проверка свечей: строго возрастающее время (OKX отдаёт по убыванию — разворачивается до проверки),
+ * выравнивание по таймфрейму, high/low охватывают open/close.
+ */
+export function validateCandles(candles: OHLCVCandle[], timeframe: string): string[] {
+  const errors: string[] = [];
+  const tfMs = TIMEFRAME_MS[timeframe as MtfTimeframe];
+  const add = (msg: string) => {
+    if (errors.length < MAX_ERRORS) errors.push(msg);
+  };
+  if (!candles.length) add('no candles');
+  candles.forEach((c, k) => {
+    if (k > 0 && c.timestamp <= candles[k - 1].timestamp) {
+      add(`row ${k + 1}: timestamp ${c.timestamp} is not after previous ${candles[k - 1].timestamp}`);
+    }
+    if (tfMs && c.timestamp % tfMs !== 0) add(`row ${k + 1}: timestamp ${c.timestamp} is not aligned to ${timeframe}`);
+    if (c.high < Math.max(c.open, c.close) || c.low > Math.min(c.open, c.close) || c.low <= 0) {
+      add(`row ${k + 1}: inconsistent OHLC`);
+    }
+  });
+  return errors;
+}
+
+/** Сделки: неубывающее время (несколько сделок в одну мс допустимы) */
+export function validateTrades(trades: TradeInput[]): string[] {
+  const errors: string[] = [];
+  for (let k = 1; k < trades.length && errors.length < MAX_ERRORS; k++) {
+    if (trades[k].time < trades[k - 1].time) errors.push(`trades row ${k + 1}: time goes backwards`);
+  }
+  return errors;
+}
+
+function descendingToAscending<T>(list: T[], time: (x: T) => number): T[] {
+  return list.length > 1 && time(list[0]) > time(list[list.length - 1]) ? [...list].reverse() : list;
+}
+
+export function importDataset(input: DatasetImportInput): DatasetImportResult {
+  let parsedCandles: { candles: OHLCVCandle[]; errors: string[] };
+  try {
+    parsedCandles = parseCandles(input.candles);
+  } catch (e) {
+    return { errors: [`candles: ${(e as Error).message}`] };
+  }
+  if (parsedCandles.errors.length) return { errors: parsedCandles.errors };
+  const candles = descendingToAscending(parsedCandles.candles, (c) => c.timestamp);
+
+  const timeframe = input.timeframe || inferTimeframe(candles);
+  if (!timeframe || !(timeframe in TIMEFRAME_MS)) {
+    return { errors: [`timeframe must be one of ${MTF_ORDER.join(', ')} (could not infer from data)`] };
+  }
+  const candleErrors = validateCandles(candles, timeframe);
+  if (candleErrors.length) return { errors: candleErrors };
+
+  let trades: TradeInput[] = [];
+  if (input.trades?.trim()) {
+    let parsedTrades: { trades: TradeInput[]; errors: string[] };
+    try {
+      parsedTrades = parseTrades(input.trades, input.format ?? 'auto');
+    } catch (e) {
+      return { errors: [`trades: ${(e as Error).message}`] };
+    }
+    if (parsedTrades.errors.length) return { errors: parsedTrades.errors };
+    trades = descendingToAscending(parsedTrades.trades, (t) => t.time);
+    const tradeErrors = validateTrades(trades);
+    if (tradeErrors.length) return { errors: tradeErrors };
+  }
+
+  const id = `ds_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  upsertCandles(datasetCandleKey(id), timeframe, candles);
+  if (trades.length) replaceDatasetTrades(id, trades);
+  const row = {
+    id,
+    name: input.name?.trim() || `${input.symbol} ${timeframe}`,
+    symbol: input.symbol,
+    timeframe,
+    source: input.format ?? 'auto',
+    candle_count: candles.length,
+    trade_count: trades.length,
+    first_ts: candles[0].timestamp,
+    last_ts: candles[candles.length - 1].timestamp
+  };
+  insertDataset(row);
+  return { dataset: getDataset(id) ?? { ...row, created_at: new Date().toISOString() } };
+}
+
+/** Добавить/заменить ленту сделок существующего набора */
+export function importDatasetTrades(id: string, content: string, format: DatasetFormat = 'auto'): DatasetImportResult {
+  const dataset = getDataset(id);
+  if (!dataset) return { errors: ['dataset not found'] };
+  let parsed: { trades: TradeInput[]; errors: string[] };
+  try {
+    parsed = parseTrades(content, format);
+  } catch (e) {
+    return { errors: [`trades: ${(e as Error).message}`] };
+  }
+  if (parsed.errors.length) return { errors: parsed.errors };
+  const trades = descendingToAscending(parsed.trades, (t) => t.time);
+  const tradeErrors = validateTrades(trades);
+  if (tradeErrors.length) return { errors: tradeErrors };
+  replaceDatasetTrades(id, trades);
+  const { created_at: _createdAt, ...row } = dataset;
+  insertDataset({ ...row, trade_count: trades.length });
+  return { dataset: getDataset(id) ?? { ...dataset, trade_count: trades.length } };
+}
+
+export function removeDataset(id: string): boolean {
+  if (!getDataset(id)) return false;
+  deleteCandles(datasetCandleKey(id));
+  deleteDataset(id);
+  return true;
+}
+
+/** Свечи старшего TF из младшего (только полные интервалы) */
+export function resampleCandles(candles: OHLCVCandle[], tfMs: number, baseMs: number): OHLCVCandle[] {
+  const perBucket = Math.round(tfMs / baseMs);
+  const out: OHLCVCandle[] = [];
+  let cur: OHLCVCandle | null = null;
+  let count = 0;
+  for (const c of candles) {
+    const bucket = Math.floor(c.timestamp / tfMs) * tfMs;
+    if (!cur || cur.timestamp !== bucket) {
+      if (cur && count === perBucket) out.push(cur);
+      cur = { ...c, timestamp: bucket };
+      count = 1;
+      continue;
+    }
+    cur.high = Math.max(cur.high, c.high);
+    cur.low = Math.min(cur.low, c.low);
+    cur.close = c.close;
+    cur.volume += c.volume;
+    count++;
+  }
+  if (cur && count === perBucket) out.push(cur);
+  return out;
+}
+
+/**
+ * Данные набора для бэктеста: свечи базового TF, старшие TF — ресемплингом, лента сделок.
+ * Младшие TF (например 1m для набора 5m) недоступны — конвейер работает без них.
+ */
+export function loadDatasetForBacktest(id: string): {
+  dataset: DatasetRow;
+  candles: OHLCVCandle[];
+  mtfCandles: Partial<Record<MtfTimeframe, OHLCVCandle[]>>;
+  trades: TradeInput[];
+} | null {
+  const dataset = getDataset(id);
+  if (!dataset) return null;
+  const candles = listCandles(datasetCandleKey(id), dataset.timeframe);
+  const baseMs = TIMEFRAME_MS[dataset.timeframe as MtfTimeframe];
+  const mtfCandles: Partial<Record<MtfTimeframe, OHLCVCandle[]>> = {};
+  for (const tf of MTF_ORDER) {
+    const tfMs = TIMEFRAME_MS[tf];
+    if (tf === dataset.timeframe || !baseMs || tfMs < baseMs) continue;
+    mtfCandles[tf] = resampleCandles(candles, tfMs, baseMs);
+  }
+  return { dataset, candles, mtfCandles, trades: dataset.trade_count ? listDatasetTrades(id) : [] };
+}
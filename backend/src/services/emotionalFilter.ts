@@ -38,12 +38,16 @@ export class EmotionalFilter {
   private cooldownMs = DEFAULT_COOLDOWN_MS;
   private maxLossStreak = DEFAULT_MAX_LOSS_STREAK;
   private maxDailyDrawdownPct = DEFAULT_MAX_DAILY_DRAWDOWN_PCT;
+  /** Источник времени (ms): Date.now, в бэктесте — время бара */
+  private now: () => number = Date.now;
 
   constructor(options?: {
     cooldownMs?: number;
     maxLossStreak?: number;
     maxDailyDrawdownPct?: number;
+    now?: () => number;
   }) {
+    if (options?.now) this.now = options.now;
     if (options?.cooldownMs != null) this.cooldownMs = options.cooldownMs;
     if (options?.maxLossStreak != null) this.maxLossStreak = options.maxLossStreak;
     if (options?.maxDailyDrawdownPct != null) this.maxDailyDrawdownPct = options.maxDailyDrawdownPct;
@@ -51,7 +55,7 @@ export class EmotionalFilter {
   }
 
   private dayKeyNow(): string {
-    return new Date().toISOString().slice(0, 10);
+    return new Date(this.now()).toISOString().slice(0, 10);
   }
 
   private ensureDayKey(): void {
@@ -72,7 +76,7 @@ export class EmotionalFilter {
   /** Можно ли открывать новую сделку */
   canOpenTrade(): { allowed: boolean; reason?: string } {
     this.ensureDayKey();
-    const now = Date.now();
+    const now = this.now();
     if (this.state.dailyStopActive) {
       return { allowed: false, reason: 'Daily drawdown limit reached. Trading paused until next day.' };
     }
@@ -94,7 +98,7 @@ export class EmotionalFilter {
       this.state.lossStreak += 1;
       this.state.winStreak = 0;
       if (this.state.lossStreak >= this.maxLossStreak) {
-        this.state.cooldownUntil = Date.now() + this.cooldownMs;
+        this.state.cooldownUntil = this.now() + this.cooldownMs;
       }
     }
     const drawdownPct =
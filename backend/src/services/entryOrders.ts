@@ -0,0 +1,569 @@
+/**
+ * Entry Orders — лимитный / post-only вход autoTrader в зоне пробоя (signal.entry_zone)
+ * - Лесенка: ladderSteps ордеров от optimal к границе зоны со стороны уровня (ретест), равными долями
+ * - Невзятые ордера снимаются по signal.expires_at или при пересечении invalidation_price (марк-цена биржи)
+ * - Исполненная ступень сразу закрывается reduce-only стопом сигнала; по завершении входа весь объём
+ *   передаётся в positionManager (стоп, TP1–TP3, трейлинг), стопы ступеней снимаются
+ * - Отчёт: доля исполнения и цена входа относительно цены сигнала — в сравнении с market-входами
+ */
+
+import { Exchange } from 'ccxt';
+import { listEntryOrders, saveEntryOrder, EntryOrderRow } from '../db';
+import { getTradingExchange, hasAccountCredentials } from './tradingExchange';
+import { ExchangeId, DEFAULT_EXCHANGE, getExchangeAdapter } from './exchangeAdapters';
+import { positionManager } from './positionManager';
+import { normalizeSymbol } from '../lib/symbol';
+import { EntryZoneSignal, TradingSignal } from '../types/signal';
+import { logger } from '../lib/logger';
+
+export type EntryMode = 'market' | 'limit' | 'post_only';
+
+export type EntryOutcome = 'filled' | 'partial' | 'expired' | 'invalidated' | 'rejected' | 'killed';
+
+export interface EntryLadderOrder {
+  id: string;
+  price: number;
+  amount: number;
+  filled: number;
+  average: number | null;
+  status: 'open' | 'closed' | 'canceled';
+  /** Защитный стоп на исполненный объём ступени, пока вход не передан в positionManager */
+  stopId?: string | null;
+  /** Объём, покрытый stopId */
+  stopAmount?: number;
+}
+
+export interface EntryOrder {
+  id: string;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  mode: EntryMode;
+  status: 'pending' | 'done';
+  outcome: EntryOutcome | null;
+  exchange: ExchangeId;
+  useTestnet: boolean;
+  /** Владелец счёта исполнения (null — серверный аккаунт) */
+  userId: string | null;
+  leverage: number;
+  orders: EntryLadderOrder[];
+  requested: number;
+  filled: number;
+  /** filled / requested */
+  fillRate: number;
+  avgPrice: number | null;
+  /** Цена сигнала на момент входа — база для сравнения с market */
+  refPrice: number;
+  /** Выигрыш к refPrice, б.п. (> 0 — вход лучше рынка) */
+  improvementBps: number | null;
+  invalidationPrice: number | null;
+  expiresAt: number | null;
+  signalId: string | null;
+  createdAt: number;
+  closedAt: number | null;
+}
+
+export interface EntryModeStats {
+  entries: number;
+  /** Входы хотя бы с частичным исполнением */
+  filledEntries: number;
+  /** Σ filled / Σ requested */
+  fillRate: number;
+  /** Средний выигрыш к цене сигнала, взвешенный по объёму, б.п. */
+  avgImprovementBps: number | null;
+}
+
+export type EntryStats = Record<EntryMode, EntryModeStats>;
+
+export interface PlaceLadderInput {
+  signal: TradingSignal;
+  /** Общий объём (контракты) */
+  amount: number;
+  leverage: number;
+  /** Биржа исполнения (по умолчанию OKX) */
+  exchange?: ExchangeId;
+  useTestnet: boolean;
+  /** Владелец счёта исполнения (null — серверный аккаунт) */
+  userId?: string | null;
+  mode: 'limit' | 'post_only';
+  ladderSteps: number;
+}
+
+export interface MarketEntryInput {
+  orderId: string;
+  signal: TradingSignal;
+  amount: number;
+  avgPrice: number;
+  leverage: number;
+  exchange?: ExchangeId;
+  useTestnet: boolean;
+  userId?: string | null;
+}
+
+export type EntryResult = { ok: true; data: EntryOrder } | { ok: false; error: string };
+
+export const MAX_LADDER_STEPS = 5;
+const POLL_INTERVAL_MS = 5000;
+/** Сколько ждать завершения текущих операций со входами при приостановке (kill switch) */
+const SUSPEND_WAIT_MS = 10000;
+/** Сигнал без expires_at — снять невзятые ордера через 15 мин */
+const DEFAULT_TTL_MS = 15 * 60 * 1000;
+/** Доля объёма, начиная с которой вход считается полностью исполненным */
+const FULL_FILL_RATIO = 0.999;
+const STATS_WINDOW = 500;
+
+/** Цены лесенки: от optimal к границе зоны у пробитого уровня (LONG — min, SHORT — max) */
+export function ladderPrices(direction: 'LONG' | 'SHORT', zone: EntryZoneSignal, steps: number): number[] {
+  const edge = direction === 'LONG' ? zone.min : zone.max;
+  const n = Math.max(1, Math.min(MAX_LADDER_STEPS, Math.floor(steps)));
+  if (n === 1 || edge === zone.optimal) return [zone.optimal];
+  return Array.from({ length: n }, (_, i) => zone.optimal + ((edge - zone.optimal) * i) / (n - 1));
+}
+
+function improvementBps(direction: 'LONG' | 'SHORT', refPrice: number, avgPrice: number | null): number | null {
+  if (avgPrice == null || !(refPrice > 0)) return null;
+  const diff = direction === 'LONG' ? refPrice - avgPrice : avgPrice - refPrice;
+  return (diff / refPrice) * 10000;
+}
+
+function parseOrders(raw: string): EntryLadderOrder[] {
+  try {
+    const arr = JSON.parse(raw);
+    return Array.isArray(arr) ? arr : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseSignal(raw: string): TradingSignal | null {
+  try {
+    return JSON.parse(raw) as TradingSignal;
+  } catch {
+    return null;
+  }
+}
+
+/** Биржа строки (старые записи без exchange — OKX) */
+function rowExchange(row: EntryOrderRow): ExchangeId {
+  return getExchangeAdapter(row.exchange).id;
+}
+
+function toEntry(row: EntryOrderRow): EntryOrder {
+  const signal = parseSignal(row.signal);
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    direction: row.direction,
+    mode: row.mode,
+    status: row.status,
+    outcome: row.outcome as EntryOutcome | null,
+    exchange: rowExchange(row),
+    useTestnet: row.use_testnet === 1,
+    userId: row.user_id ?? null,
+    leverage: row.leverage,
+    orders: parseOrders(row.orders),
+    requested: row.requested,
+    filled: row.filled,
+    fillRate: row.requested > 0 ? row.filled / row.requested : 0,
+    avgPrice: row.avg_price,
+    refPrice: row.ref_price,
+    improvementBps: improvementBps(row.direction, row.ref_price, row.avg_price),
+    invalidationPrice: row.invalidation_price,
+    expiresAt: row.expires_at,
+    signalId: signal?.id ?? null,
+    createdAt: row.created_at,
+    closedAt: row.closed_at
+  };
+}
+
+/** Пересчитать filled / avg_price строки по ордерам лесенки */
+function applyFills(row: EntryOrderRow, orders: EntryLadderOrder[]): void {
+  const filled = orders.reduce((s, o) => s + o.filled, 0);
+  const notional = orders.reduce((s, o) => s + o.filled * (o.average ?? o.price), 0);
+  row.orders = JSON.stringify(orders);
+  row.filled = filled;
+  row.avg_price = filled > 0 ? notional / filled : null;
+}
+
+/** Стоп сигнала для защиты исполненных ступеней (как у positionManager.track) */
+function signalStop(row: EntryOrderRow): number {
+  const signal = parseSignal(row.signal);
+  return signal?.trailing_stop_config?.initial_stop ?? signal?.stop_loss ?? 0;
+}
+
+async function cancelRungStop(exchange: Exchange, ccxtSymbol: string, stopId: string): Promise<void> {
+  try {
+    await exchange.cancelOrder(stopId, ccxtSymbol, { trigger: true });
+  } catch {
+    // уже исполнен или отменён
+  }
+}
+
+export class EntryOrderManager {
+  private pending = new Map<string, EntryOrderRow>();
+  private streams = new Map<string, () => void>();
+  private busy = new Set<string>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private suspended = false;
+
+  init(): void {
+    if (this.timer) return;
+    for (const row of listEntryOrders({ status: 'pending', limit: Number.MAX_SAFE_INTEGER })) {
+      this.pending.set(row.id, row);
+      this.ensureStream(row);
+    }
+    this.timer = setInterval(() => {
+      this.poll().catch((e) => logger.warn('EntryOrders', 'poll failed', { error: (e as Error).message }));
+    }, POLL_INTERVAL_MS);
+    this.timer.unref?.();
+    if (this.pending.size) logger.info('EntryOrders', `Restored ${this.pending.size} pending entries`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const unsub of this.streams.values()) unsub();
+    this.streams.clear();
+  }
+
+  /** Входы, ожидающие исполнения (учитываются в лимите позиций) */
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Приостановить опрос и отмену по инвалидации (kill switch): ордера на бирже не трогаются.
+   * Ждёт завершения текущих операций и возвращает ожидающие входы
+   */
+  async suspend(): Promise<EntryOrder[]> {
+    this.suspended = true;
+    const deadline = Date.now() + SUSPEND_WAIT_MS;
+    while (this.busy.size > 0 && Date.now() < deadline) await new Promise((r) => setTimeout(r, 100));
+    return [...this.pending.values()].map(toEntry);
+  }
+
+  /** Возобновить: оставшиеся входы доводятся обычным порядком (исполненный объём — в positionManager) */
+  resume(): void {
+    this.suspended = false;
+  }
+
+  /**
+   * Снять вход без передачи в positionManager (kill switch уже отменил ордера и закрыл исполненный объём).
+   * orders — состояние лесенки после отмены
+   */
+  abandon(id: string, orders: EntryLadderOrder[]): boolean {
+    const row = this.pending.get(id);
+    if (!row) return false;
+    applyFills(row, orders);
+    row.status = 'done';
+    row.outcome = 'killed';
+    row.closed_at = Date.now();
+    saveEntryOrder(row);
+    this.pending.delete(id);
+    this.releaseStream(row);
+    logger.warn('EntryOrders', `Abandoned ${row.symbol} ${row.direction} entry (kill switch)`, { id, filled: row.filled });
+    return true;
+  }
+
+  /** Символы ожидающих входов счёта (повторяются, если входов по символу несколько) */
+  pendingSymbols(userId: string | null = null, exchange: ExchangeId = DEFAULT_EXCHANGE): string[] {
+    return [...this.pending.values()]
+      .filter((row) => (row.user_id ?? null) === userId && rowExchange(row) === exchange)
+      .map((row) => row.symbol);
+  }
+
+  list(opts: { status?: 'pending' | 'done'; userId?: string | null; limit?: number } = {}): EntryOrder[] {
+    return listEntryOrders(opts).map(toEntry);
+  }
+
+  /** Доля исполнения и цена входа по режимам (последние STATS_WINDOW завершённых входов) */
+  stats(): EntryStats {
+    const empty = (): { entries: number; filledEntries: number; requested: number; filled: number; weighted: number } =>
+      ({ entries: 0, filledEntries: 0, requested: 0, filled: 0, weighted: 0 });
+    const acc: Record<EntryMode, ReturnType<typeof empty>> = { market: empty(), limit: empty(), post_only: empty() };
+    for (const row of listEntryOrders({ status: 'done', limit: STATS_WINDOW })) {
+      const a = acc[row.mode];
+      a.entries++;
+      a.requested += row.requested;
+      if (row.filled > 0) {
+        a.filledEntries++;
+        a.filled += row.filled;
+        a.weighted += (improvementBps(row.direction, row.ref_price, row.avg_price) ?? 0) * row.filled;
+      }
+    }
+    const result = {} as EntryStats;
+    for (const mode of Object.keys(acc) as EntryMode[]) {
+      const a = acc[mode];
+      result[mode] = {
+        entries: a.entries,
+        filledEntries: a.filledEntries,
+        fillRate: a.requested > 0 ? a.filled / a.requested : 0,
+        avgImprovementBps: a.filled > 0 ? a.weighted / a.filled : null
+      };
+    }
+    return result;
+  }
+
+  /** Записать market-вход (для сравнения с лимитными) */
+  recordMarket(input: MarketEntryInput): void {
+    const { signal } = input;
+    const now = Date.now();
+    saveEntryOrder({
+      id: input.orderId,
+      symbol: normalizeSymbol(signal.symbol),
+      direction: signal.direction,
+      mode: 'market',
+      status: 'done',
+      outcome: 'filled',
+      use_testnet: input.useTestnet ? 1 : 0,
+      leverage: input.leverage,
+      orders: JSON.stringify([{ id: input.orderId, price: input.avgPrice, amount: input.amount, filled: input.amount, average: input.avgPrice, status: 'closed' }]),
+      requested: input.amount,
+      filled: input.amount,
+      avg_price: input.avgPrice,
+      ref_price: signal.entry_price,
+      invalidation_price: null,
+      expires_at: null,
+      signal: JSON.stringify(signal),
+      created_at: now,
+      closed_at: now,
+      user_id: input.userId ?? null,
+      exchange: input.exchange ?? DEFAULT_EXCHANGE
+    });
+  }
+
+  /** Выставить лимитную / post-only лесенку в зоне входа; без entry_zone — один ордер по цене сигнала */
+  async place(input: PlaceLadderInput): Promise<EntryResult> {
+    const { signal } = input;
+    const symbol = normalizeSymbol(signal.symbol);
+    const adapter = getExchangeAdapter(input.exchange);
+    const ccxtSymbol = adapter.toCcxtSymbol(symbol);
+    const zone = signal.entry_zone ?? { optimal: signal.entry_price, min: signal.entry_price, max: signal.entry_price };
+    const exchange = await getTradingExchange(input.useTestnet, input.userId ?? null, adapter.id);
+    const minAmount = exchange.market(ccxtSymbol)?.limits?.amount?.min ?? 0;
+
+    let prices = ladderPrices(signal.direction, zone, input.ladderSteps);
+    let rungAmount = Number(exchange.amountToPrecision(ccxtSymbol, input.amount / prices.length));
+    if (rungAmount < minAmount || !(rungAmount > 0)) {
+      prices = [zone.optimal];
+      rungAmount = Number(exchange.amountToPrecision(ccxtSymbol, input.amount));
+    }
+    if (!(rungAmount > 0) || rungAmount < minAmount) {
+      return { ok: false, error: 'Position size below exchange minimum' };
+    }
+
+    const side = signal.direction === 'LONG' ? 'buy' : 'sell';
+    const orders: EntryLadderOrder[] = [];
+    let lastError = '';
+    for (const raw of prices) {
+      const price = Number(exchange.priceToPrecision(ccxtSymbol, raw));
+      try {
+        const order = await exchange.createOrder(ccxtSymbol, 'limit', side, rungAmount, price, {
+          ...adapter.orderParams(),
+          postOnly: input.mode === 'post_only'
+        });
+        orders.push({ id: String((order as any).id), price, amount: rungAmount, filled: 0, average: null, status: 'open' });
+      } catch (e) {
+        lastError = (e as Error).message;
+        logger.warn('EntryOrders', 'limit order rejected', { symbol, price, mode: input.mode, error: lastError });
+      }
+    }
+    if (orders.length === 0) return { ok: false, error: lastError || 'No entry orders placed' };
+
+    const expiresAt = Date.parse(signal.expires_at);
+    const row: EntryOrderRow = {
+      id: `entry-${orders[0].id}`,
+      symbol,
+      direction: signal.direction,
+      mode: input.mode,
+      status: 'pending',
+      outcome: null,
+      use_testnet: input.useTestnet ? 1 : 0,
+      leverage: input.leverage,
+      orders: JSON.stringify(orders),
+      requested: rungAmount * orders.length,
+      filled: 0,
+      avg_price: null,
+      ref_price: signal.entry_price,
+      invalidation_price: signal.invalidation_price ?? (signal.stop_loss > 0 ? signal.stop_loss : null),
+      expires_at: Number.isFinite(expiresAt) ? expiresAt : Date.now() + DEFAULT_TTL_MS,
+      signal: JSON.stringify(signal),
+      created_at: Date.now(),
+      closed_at: null,
+      user_id: input.userId ?? null,
+      exchange: adapter.id
+    };
+    saveEntryOrder(row);
+    this.pending.set(row.id, row);
+    this.ensureStream(row);
+    logger.info('EntryOrders', `Ladder placed: ${symbol} ${signal.direction} ${input.mode}`, {
+      id: row.id,
+      prices: orders.map((o) => o.price),
+      amount: rungAmount
+    });
+    return { ok: true, data: toEntry(row) };
+  }
+
+  /** Поток марк-цены на биржу + символ */
+  private streamKey(row: EntryOrderRow): string {
+    return `${rowExchange(row)}:${row.symbol}`;
+  }
+
+  private ensureStream(row: EntryOrderRow): void {
+    const key = this.streamKey(row);
+    if (this.streams.has(key)) return;
+    const unsub = getExchangeAdapter(row.exchange).getStream(row.symbol).subscribe('mark', (data) => {
+      const mark = data as { price: number };
+      this.onMark(key, mark.price);
+    });
+    this.streams.set(key, unsub);
+  }
+
+  private releaseStream(row: EntryOrderRow): void {
+    const key = this.streamKey(row);
+    if ([...this.pending.values()].some((r) => this.streamKey(r) === key)) return;
+    this.streams.get(key)?.();
+    this.streams.delete(key);
+  }
+
+  /** Цена вернулась за уровень пробоя — снять невзятые ордера */
+  private onMark(key: string, price: number): void {
+    if (this.suspended) return;
+    for (const row of this.pending.values()) {
+      if (this.streamKey(row) !== key || row.invalidation_price == null || this.busy.has(row.id)) continue;
+      const crossed = row.direction === 'LONG' ? price <= row.invalidation_price : price >= row.invalidation_price;
+      if (crossed) this.run(row, (exchange) => this.finish(exchange, row, 'invalidated'));
+    }
+  }
+
+  private run(row: EntryOrderRow, fn: (exchange: Exchange) => Promise<void>): void {
+    this.busy.add(row.id);
+    getTradingExchange(row.use_testnet === 1, row.user_id, rowExchange(row))
+      .then(fn)
+      .catch((e) => logger.warn('EntryOrders', 'update failed', { id: row.id, error: (e as Error).message }))
+      .finally(() => this.busy.delete(row.id));
+  }
+
+  private async poll(): Promise<void> {
+    if (this.pending.size === 0 || this.suspended) return;
+    const now = Date.now();
+    for (const row of [...this.pending.values()]) {
+      if (this.busy.has(row.id) || !hasAccountCredentials(row.use_testnet === 1, row.user_id, rowExchange(row))) continue;
+      this.run(row, async (exchange) => {
+        const orders = await this.refresh(exchange, row);
+        if (orders.every((o) => o.status !== 'open')) {
+          await this.finish(exchange, row, null);
+        } else if (row.expires_at != null && now >= row.expires_at) {
+          await this.finish(exchange, row, 'expired');
+        } else {
+          await this.protectFills(exchange, row, orders);
+          saveEntryOrder(row);
+        }
+      });
+    }
+  }
+
+  /** Обновить статус и исполнение открытых ордеров лесенки */
+  private async refresh(exchange: Exchange, row: EntryOrderRow): Promise<EntryLadderOrder[]> {
+    const ccxtSymbol = getExchangeAdapter(row.exchange).toCcxtSymbol(row.symbol);
+    const orders = parseOrders(row.orders);
+    for (const o of orders) {
+      if (o.status !== 'open') continue;
+      const fresh = await exchange.fetchOrder(o.id, ccxtSymbol);
+      o.filled = Number(fresh.filled) || 0;
+      o.average = Number(fresh.average) > 0 ? Number(fresh.average) : null;
+      o.status = fresh.status === 'open' ? 'open' : fresh.status === 'closed' ? 'closed' : 'canceled';
+    }
+    applyFills(row, orders);
+    return orders;
+  }
+
+  /**
+   * Исполненный объём ступеней — под reduce-only стоп сразу, не дожидаясь конца лесенки.
+   * При доисполнении ступени новый стоп на весь её объём ставится до отмены прежнего; неудача — повтор при следующем опросе
+   */
+  private async protectFills(exchange: Exchange, row: EntryOrderRow, orders: EntryLadderOrder[]): Promise<void> {
+    const stop = signalStop(row);
+    if (!(stop > 0)) return;
+    const adapter = getExchangeAdapter(row.exchange);
+    const ccxtSymbol = adapter.toCcxtSymbol(row.symbol);
+    for (const o of orders) {
+      if (!(o.filled > (o.stopAmount ?? 0))) continue;
+      try {
+        const order = await exchange.createOrder(ccxtSymbol, 'market', row.direction === 'LONG' ? 'sell' : 'buy', o.filled, undefined, {
+          ...adapter.orderParams(),
+          stopLossPrice: Number(exchange.priceToPrecision(ccxtSymbol, stop)),
+          reduceOnly: true
+        });
+        const stopId = String((order as any).id ?? '') || null;
+        if (!stopId) continue;
+        if (o.stopId) await cancelRungStop(exchange, ccxtSymbol, o.stopId);
+        o.stopId = stopId;
+        o.stopAmount = o.filled;
+      } catch (e) {
+        logger.warn('EntryOrders', 'rung stop failed', { id: row.id, order: o.id, filled: o.filled, error: (e as Error).message });
+      }
+    }
+    applyFills(row, orders);
+  }
+
+  /** Снять стопы ступеней (объём уже под стопом positionManager) */
+  private async releaseStops(exchange: Exchange, row: EntryOrderRow): Promise<void> {
+    const orders = parseOrders(row.orders);
+    if (!orders.some((o) => o.stopId)) return;
+    const ccxtSymbol = getExchangeAdapter(row.exchange).toCcxtSymbol(row.symbol);
+    for (const o of orders) {
+      if (!o.stopId) continue;
+      await cancelRungStop(exchange, ccxtSymbol, o.stopId);
+      o.stopId = null;
+    }
+    applyFills(row, orders);
+    saveEntryOrder(row);
+  }
+
+  /** Снять невзятые ордера, зафиксировать итог и передать исполненный объём в positionManager */
+  private async finish(exchange: Exchange, row: EntryOrderRow, reason: 'expired' | 'invalidated' | null): Promise<void> {
+    if (!this.pending.has(row.id)) return;
+    const ccxtSymbol = getExchangeAdapter(row.exchange).toCcxtSymbol(row.symbol);
+    for (const o of parseOrders(row.orders)) {
+      if (o.status !== 'open') continue;
+      try {
+        await exchange.cancelOrder(o.id, ccxtSymbol);
+      } catch {
+        // уже исполнен или снят
+      }
+    }
+    await this.refresh(exchange, row);
+
+    const full = row.filled >= row.requested * FULL_FILL_RATIO;
+    const outcome: EntryOutcome = full ? 'filled' : reason ?? (row.filled > 0 ? 'partial' : 'rejected');
+    row.status = 'done';
+    row.outcome = outcome;
+    row.closed_at = Date.now();
+    saveEntryOrder(row);
+    this.pending.delete(row.id);
+    this.releaseStream(row);
+    logger.info('EntryOrders', `Entry ${outcome}: ${row.symbol} ${row.direction}`, {
+      id: row.id,
+      filled: row.filled,
+      requested: row.requested,
+      avgPrice: row.avg_price
+    });
+
+    const signal = parseSignal(row.signal);
+    if (row.filled > 0 && row.avg_price != null && signal) {
+      await positionManager.track({
+        orderId: row.id,
+        signal,
+        amount: row.filled,
+        entryPrice: row.avg_price,
+        leverage: row.leverage,
+        exchange: rowExchange(row),
+        useTestnet: row.use_testnet === 1,
+        userId: row.user_id
+      });
+      await this.releaseStops(exchange, row);
+    }
+  }
+}
+
+export const entryOrders = new EntryOrderManager();
@@ -0,0 +1,435 @@
+/**
+ * Адаптеры бирж (USDT-M perpetual): OKX, BingX, Binance USDT-M, Bybit
+ * - Символы: внутренний BTC-USDT ↔ ccxt BTC/USDT:USDT ↔ символ биржи (BTC-USDT-SWAP, BTCUSDT…) с переименованиями базы
+ * - Рыночные данные через ccxt REST: свечи (страницы истории), стакан, сделки, цена, тикер, фандинг, открытый интерес, спот
+ * - Потоки стакана / сделок / марк-цены — WebSocket биржи (okxStream, bingxStream, binanceStream, bybitStream)
+ * - Торговля: клиент ccxt с ключами (демо-счёт), изолированная маржа и плечо, параметры ордеров
+ */
+
+import ccxt, { Exchange } from 'ccxt';
+import { OHLCVCandle } from '../types/candle';
+import { config } from '../config';
+import { normalizeSymbol, toCcxtSwapSymbol, toOkxInstId, OKX_SYMBOL_MAP } from '../lib/symbol';
+import { getOkxStream } from './okxStream';
+import { getBingXStream } from './bingxStream';
+import { createBinanceStream } from './binanceStream';
+import { createBybitStream } from './bybitStream';
+import { ExchangeCredentials } from './exchangeCredentials';
+
+export const EXCHANGE_IDS = ['okx', 'bingx', 'binance', 'bybit'] as const;
+export type ExchangeId = (typeof EXCHANGE_IDS)[number];
+
+export const DEFAULT_EXCHANGE: ExchangeId = 'okx';
+
+export type MarketStreamType = 'orderbook' | 'trade' | 'mark';
+
+/** Поток рынка: orderbook — { bids, asks }, trade — { price, amount, time, isBuy }, mark — { price, time } */
+export interface MarketStream {
+  symbol: string;
+  subscribe(type: MarketStreamType, cb: (data: any) => void): () => void;
+}
+
+export interface MarketTrade {
+  price: number;
+  amount: number;
+  time: number;
+  isBuy: boolean;
+  quoteQuantity?: number;
+}
+
+export interface FundingRate {
+  rate: number;
+  nextFundingTime?: number;
+  markPrice?: number;
+  indexPrice?: number;
+}
+
+/** Тикер контракта; null — биржа поле не отдаёт */
+export interface MarketTicker {
+  last: number | null;
+  bid: number | null;
+  ask: number | null;
+  markPrice: number | null;
+  indexPrice: number | null;
+  /** Оборот за 24 ч в USDT */
+  quoteVolume: number | null;
+  timestamp: number;
+}
+
+/** Открытый интерес: amount — в базовой валюте / контрактах, value — в USDT */
+export interface OpenInterest {
+  amount: number | null;
+  value: number | null;
+}
+
+export interface ExchangeClientOptions {
+  /** Без ключей — публичный клиент */
+  credentials?: ExchangeCredentials | null;
+  useTestnet?: boolean;
+  timeout?: number;
+}
+
+export interface ExchangeAdapter {
+  readonly id: ExchangeId;
+  readonly name: string;
+  /** Нужен ли passphrase для приватного API (OKX) */
+  readonly requiresPassphrase: boolean;
+  /** Макс. свечей на страницу истории (пагинация CandleStore) */
+  readonly historyPageLimit: number;
+  /** ccxt-символ BTC/USDT:USDT; '' — символ не распознан */
+  toCcxtSymbol(symbol: string): string;
+  /** Символ биржи: BTC-USDT-SWAP (OKX), BTC-USDT (BingX), BTCUSDT (Binance, Bybit) */
+  toExchangeSymbol(symbol: string): string;
+  createClient(opts?: ExchangeClientOptions): Exchange;
+  /** Без until — последние limit, с until — история строго раньше until. Ошибки пробрасываются */
+  fetchOHLCVPage(symbol: string, timeframe: string, opts: { until?: number; limit: number }): Promise<OHLCVCandle[]>;
+  fetchOrderBook(symbol: string, limit: number): Promise<{ bids: [number, number][]; asks: [number, number][] }>;
+  /** Сделки от старых к новым */
+  fetchTrades(symbol: string, limit: number): Promise<MarketTrade[]>;
+  fetchPrice(symbol: string): Promise<number | null>;
+  fetchTicker(symbol: string): Promise<MarketTicker>;
+  fetchFundingRate(symbol: string): Promise<FundingRate>;
+  /** null — биржа не поддерживает запрос в ccxt */
+  fetchOpenInterest(symbol: string): Promise<OpenInterest | null>;
+  /** Цена спота той же монеты (для базиса perp − spot) */
+  fetchSpotPrice(symbol: string): Promise<number | null>;
+  /** Множитель цены контракта к споту: 1000 для 1000PEPE и т.п., иначе 1 */
+  priceScale(symbol: string): number;
+  getStream(symbol: string): MarketStream;
+  /** Изолированная маржа и плечо по символу перед входом */
+  prepareSymbol(client: Exchange, ccxtSymbol: string, leverage: number): Promise<void>;
+  /** Параметры createOrder для изолированной маржи (OKX — tdMode) */
+  orderParams(): Record<string, unknown>;
+}
+
+interface AdapterSpec {
+  id: ExchangeId;
+  name: string;
+  createCcxt(opts: Record<string, unknown>): Exchange;
+  /** Клиент спота (у Binance — отдельный класс ccxt) */
+  createSpotCcxt(opts: Record<string, unknown>): Exchange;
+  /** Переименования базы на споте (только OKX: MATIC → POL) */
+  spotBaseMap: Record<string, string>;
+  requiresPassphrase: boolean;
+  historyPageLimit: number;
+  /** Переименования базы на бирже (MATIC → POL, PEPE → 1000PEPE) */
+  baseMap: Record<string, string>;
+  exchangeSymbol(base: string, quote: string): string;
+  /** Демо-счёт: sandbox (OKX, BingX VST) или demo trading (Binance, Bybit) */
+  demo: 'sandbox' | 'demoTrading';
+  historyParams(until: number): Record<string, unknown>;
+  createStream(symbol: string, exchangeSymbol: string): MarketStream;
+  prepareSymbol(client: Exchange, ccxtSymbol: string, leverage: number): Promise<void>;
+  orderParams: Record<string, unknown>;
+}
+
+function toCandle(row: (number | string | undefined)[]): OHLCVCandle {
+  return {
+    timestamp: Number(row[0]),
+    open: Number(row[1]),
+    high: Number(row[2]),
+    low: Number(row[3]),
+    close: Number(row[4]),
+    volume: Number(row[5] ?? 0)
+  };
+}
+
+function positiveOrNull(value: unknown): number | null {
+  const n = Number(value);
+  return value != null && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** Изолированная маржа (ошибка «уже установлено» не мешает) и плечо */
+async function setIsolatedLeverage(client: Exchange, ccxtSymbol: string, leverage: number, leverageParams: Record<string, unknown>[] = [{}]) {
+  try {
+    await client.setMarginMode('isolated', ccxtSymbol);
+  } catch {
+    // режим уже isolated или есть открытая позиция
+  }
+  for (const params of leverageParams) await client.setLeverage(leverage, ccxtSymbol, params);
+}
+
+/** BingX не отдаёт марк-цену в публичном потоке — цена последней сделки */
+function bingxStream(symbol: string): MarketStream {
+  const stream = getBingXStream(symbol);
+  return {
+    symbol: stream.symbol,
+    subscribe: (type, cb) =>
+      type === 'mark'
+        ? stream.subscribe('trade', (t: { price: number; time: number }) => cb({ price: t.price, time: t.time }))
+        : stream.subscribe(type, cb)
+  };
+}
+
+const SPECS: Record<ExchangeId, AdapterSpec> = {
+  okx: {
+    id: 'okx',
+    name: 'OKX',
+    createCcxt: (opts) => new ccxt.okx(opts),
+    createSpotCcxt: (opts) => new ccxt.okx(opts),
+    spotBaseMap: OKX_SYMBOL_MAP,
+    requiresPassphrase: true,
+    historyPageLimit: 100,
+    baseMap: OKX_SYMBOL_MAP,
+    exchangeSymbol: (base, quote) => toOkxInstId(`${base}-${quote}`),
+    demo: 'sandbox',
+    historyParams: (until) => ({ until, type: 'HistoryCandles' }),
+    createStream: (symbol) => getOkxStream(symbol),
+    // Режим маржи OKX задаётся в ордере (tdMode) и при установке плеча
+    prepareSymbol: async (client, ccxtSymbol, leverage) => {
+      await client.setLeverage(leverage, ccxtSymbol, { marginMode: 'isolated' });
+    },
+    orderParams: { tdMode: 'isolated' }
+  },
+  bingx: {
+    id: 'bingx',
+    name: 'BingX',
+    createCcxt: (opts) => new ccxt.bingx(opts),
+    createSpotCcxt: (opts) => new ccxt.bingx(opts),
+    spotBaseMap: {},
+    requiresPassphrase: false,
+    historyPageLimit: 1440,
+    baseMap: {},
+    exchangeSymbol: (base, quote) => `${base}-${quote}`,
+    demo: 'sandbox',
+    historyParams: (until) => ({ until }),
+    createStream: (symbol) => bingxStream(symbol),
+    // Hedge mode: плечо задаётся отдельно для LONG и SHORT
+    prepareSymbol: (client, ccxtSymbol, leverage) =>
+      setIsolatedLeverage(client, ccxtSymbol, leverage, [{ side: 'LONG' }, { side: 'SHORT' }]),
+    orderParams: {}
+  },
+  binance: {
+    id: 'binance',
+    name: 'Binance USDT-M',
+    createCcxt: (opts) => new ccxt.binanceusdm(opts),
+    createSpotCcxt: (opts) => new ccxt.binance(opts),
+    spotBaseMap: {},
+    requiresPassphrase: false,
+    historyPageLimit: 1500,
+    baseMap: { PEPE: '1000PEPE', SHIB: '1000SHIB', BONK: '1000BONK', FLOKI: '1000FLOKI' },
+    exchangeSymbol: (base, quote) => `${base}${quote}`,
+    demo: 'demoTrading',
+    historyParams: (until) => ({ until }),
+    createStream: (symbol, id) => createBinanceStream(symbol, id),
+    prepareSymbol: (client, ccxtSymbol, leverage) => setIsolatedLeverage(client, ccxtSymbol, leverage),
+    orderParams: {}
+  },
+  bybit: {
+    id: 'bybit',
+    name: 'Bybit',
+    createCcxt: (opts) => new ccxt.bybit(opts),
+    createSpotCcxt: (opts) => new ccxt.bybit(opts),
+    spotBaseMap: {},
+    requiresPassphrase: false,
+    historyPageLimit: 1000,
+    baseMap: { PEPE: '1000PEPE', BONK: '1000BONK', FLOKI: '1000FLOKI' },
+    exchangeSymbol: (base, quote) => `${base}${quote}`,
+    demo: 'demoTrading',
+    historyParams: (until) => ({ until }),
+    createStream: (symbol, id) => createBybitStream(symbol, id),
+    prepareSymbol: (client, ccxtSymbol, leverage) => setIsolatedLeverage(client, ccxtSymbol, leverage),
+    orderParams: {}
+  }
+};
+
+class CcxtExchangeAdapter implements ExchangeAdapter {
+  readonly id: ExchangeId;
+  readonly name: string;
+  readonly requiresPassphrase: boolean;
+  readonly historyPageLimit: number;
+  private publicClient: Exchange | null = null;
+  private spotClient: Exchange | null = null;
+  private streams = new Map<string, MarketStream>();
+
+  constructor(private spec: AdapterSpec) {
+    this.id = spec.id;
+    this.name = spec.name;
+    this.requiresPassphrase = spec.requiresPassphrase;
+    this.historyPageLimit = spec.historyPageLimit;
+  }
+
+  toCcxtSymbol(symbol: string): string {
+    return toCcxtSwapSymbol(symbol, this.spec.baseMap);
+  }
+
+  toExchangeSymbol(symbol: string): string {
+    const ccxtSymbol = this.toCcxtSymbol(symbol);
+    if (!ccxtSymbol) return '';
+    const [base, quote] = ccxtSymbol.replace(/:USDT$/, '').split('/');
+    return this.spec.exchangeSymbol(base, quote);
+  }
+
+  createClient(opts: ExchangeClientOptions = {}): Exchange {
+    const { credentials } = opts;
+    const params: Record<string, unknown> = {
+      enableRateLimit: true,
+      options: { defaultType: 'swap', warnOnFetchOpenOrdersWithoutSymbol: false },
+      timeout: opts.timeout ?? 20000
+    };
+    if (credentials) {
+      params.apiKey = credentials.apiKey;
+      params.secret = credentials.secret;
+      if (this.requiresPassphrase) params.password = credentials.passphrase;
+    }
+    if (config.proxy) params.httpsProxy = config.proxy;
+    const client = this.spec.createCcxt(params);
+    if (opts.useTestnet) {
+      if (this.spec.demo === 'sandbox') client.setSandboxMode(true);
+      else (client as Exchange & { enableDemoTrading(enable: boolean): void }).enableDemoTrading(true);
+    }
+    return client;
+  }
+
+  /** Общий публичный клиент (OKX — с ключами .env, как раньше в DataAggregator) */
+  private client(): Exchange {
+    if (!this.publicClient) {
+      const { okx } = config;
+      this.publicClient = this.createClient({
+        credentials: this.id === 'okx' && okx.hasCredentials ? { apiKey: okx.apiKey, secret: okx.secret, passphrase: okx.passphrase } : null,
+        timeout: 30000
+      });
+    }
+    return this.publicClient;
+  }
+
+  private spot(): Exchange {
+    if (!this.spotClient) {
+      const params: Record<string, unknown> = { enableRateLimit: true, options: { defaultType: 'spot' }, timeout: 20000 };
+      if (config.proxy) params.httpsProxy = config.proxy;
+      this.spotClient = this.spec.createSpotCcxt(params);
+    }
+    return this.spotClient;
+  }
+
+  private ccxtSymbolOrDefault(symbol: string): string {
+    return this.toCcxtSymbol(symbol) || 'BTC/USDT:USDT';
+  }
+
+  async fetchOHLCVPage(symbol: string, timeframe: string, opts: { until?: number; limit: number }): Promise<OHLCVCandle[]> {
+    const params = opts.until != null ? this.spec.historyParams(opts.until) : {};
+    const data = await this.client().fetchOHLCV(this.ccxtSymbolOrDefault(symbol), timeframe, undefined, opts.limit, params);
+    return (data ?? []).map(toCandle);
+  }
+
+  async fetchOrderBook(symbol: string, limit: number): Promise<{ bids: [number, number][]; asks: [number, number][] }> {
+    const ob = await this.client().fetchOrderBook(this.ccxtSymbolOrDefault(symbol), limit);
+    const bids = (ob.bids || []).slice(0, limit).map(([p, a]) => [Number(p), Number(a)] as [number, number]);
+    const asks = (ob.asks || []).slice(0, limit).map(([p, a]) => [Number(p), Number(a)] as [number, number]);
+    return { bids, asks };
+  }
+
+  async fetchTrades(symbol: string, limit: number): Promise<MarketTrade[]> {
+    const rows = await this.client().fetchTrades(this.ccxtSymbolOrDefault(symbol), undefined, limit);
+    return rows
+      .map((t: any) => {
+        const price = Number(t.price ?? (t.cost && t.amount ? t.cost / t.amount : 0));
+        const amount = Number(t.amount ?? (t.cost && t.price ? t.cost / t.price : 0));
+        const cost = t.cost ?? price * amount;
+        return {
+          price,
+          amount,
+          time: Number(t.timestamp ?? t.time ?? Date.now()),
+          isBuy: t.side === 'buy' || t.buy === true,
+          quoteQuantity: Number(cost)
+        };
+      })
+      .sort((a, b) => a.time - b.time); // oldest first для CVD
+  }
+
+  async fetchPrice(symbol: string): Promise<number | null> {
+    const ticker = await this.client().fetchTicker(this.ccxtSymbolOrDefault(symbol));
+    const last = ticker?.last ?? ticker?.close;
+    return typeof last === 'number' && last > 0 ? last : null;
+  }
+
+  async fetchTicker(symbol: string): Promise<MarketTicker> {
+    const t = await this.client().fetchTicker(this.ccxtSymbolOrDefault(symbol));
+    return {
+      last: positiveOrNull(t.last ?? t.close),
+      bid: positiveOrNull(t.bid),
+      ask: positiveOrNull(t.ask),
+      markPrice: positiveOrNull(t.markPrice),
+      indexPrice: positiveOrNull(t.indexPrice),
+      quoteVolume: positiveOrNull(t.quoteVolume),
+      timestamp: Number(t.timestamp ?? Date.now())
+    };
+  }
+
+  async fetchFundingRate(symbol: string): Promise<FundingRate> {
+    const data = await this.client().fetchFundingRate(this.ccxtSymbolOrDefault(symbol));
+    const nextTime = data.fundingTimestamp ?? data.nextFundingTimestamp;
+    return {
+      rate: Number(data.fundingRate ?? data.nextFundingRate ?? 0),
+      nextFundingTime: nextTime != null ? Number(nextTime) : undefined,
+      markPrice: positiveOrNull(data.markPrice) ?? undefined,
+      indexPrice: positiveOrNull(data.indexPrice) ?? undefined
+    };
+  }
+
+  async fetchOpenInterest(symbol: string): Promise<OpenInterest | null> {
+    const client = this.client();
+    if (!client.has.fetchOpenInterest) return null;
+    const oi = await client.fetchOpenInterest(this.ccxtSymbolOrDefault(symbol));
+    return { amount: positiveOrNull(oi.openInterestAmount), value: positiveOrNull(oi.openInterestValue) };
+  }
+
+  async fetchSpotPrice(symbol: string): Promise<number | null> {
+    const spotSymbol = toCcxtSwapSymbol(symbol, this.spec.spotBaseMap).replace(/:USDT$/, '');
+    if (!spotSymbol) return null;
+    const t = await this.spot().fetchTicker(spotSymbol);
+    return positiveOrNull(t.last ?? t.close);
+  }
+
+  priceScale(symbol: string): number {
+    const base = (normalizeSymbol(symbol) || '').split('-')[0];
+    return base && this.spec.baseMap[base] === `1000${base}` ? 1000 : 1;
+  }
+
+  getStream(symbol: string): MarketStream {
+    const key = normalizeSymbol(symbol) || 'BTC-USDT';
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = this.spec.createStream(key, this.toExchangeSymbol(key));
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+
+  prepareSymbol(client: Exchange, ccxtSymbol: string, leverage: number): Promise<void> {
+    return this.spec.prepareSymbol(client, ccxtSymbol, leverage);
+  }
+
+  orderParams(): Record<string, unknown> {
+    return { ...this.spec.orderParams };
+  }
+}
+
+const adapters = new Map<ExchangeId, ExchangeAdapter>();
+
+export function isExchangeId(raw: unknown): raw is ExchangeId {
+  return typeof raw === 'string' && (EXCHANGE_IDS as readonly string[]).includes(raw);
+}
+
+/** Параметр exchange запроса: пусто — OKX, регистр не важен */
+export function parseExchangeId(raw: unknown): { ok: true; data: ExchangeId } | { ok: false; error: string } {
+  if (raw == null || raw === '') return { ok: true, data: DEFAULT_EXCHANGE };
+  const id = String(raw).trim().toLowerCase();
+  if (!isExchangeId(id)) return { ok: false, error: `Unknown exchange: ${raw} (${EXCHANGE_IDS.join(', ')})` };
+  return { ok: true, data: id };
+}
+
+/** Адаптер биржи; null / неизвестная (старые записи без exchange) — OKX */
+export function getExchangeAdapter(id: string | null | undefined = DEFAULT_EXCHANGE): ExchangeAdapter {
+  const exchangeId = isExchangeId(id) ? id : DEFAULT_EXCHANGE;
+  let adapter = adapters.get(exchangeId);
+  if (!adapter) {
+    adapter = new CcxtExchangeAdapter(SPECS[exchangeId]);
+    adapters.set(exchangeId, adapter);
+  }
+  return adapter;
+}
+
+export function listExchangeAdapters(): ExchangeAdapter[] {
+  return EXCHANGE_IDS.map((id) => getExchangeAdapter(id));
+}
@@ -0,0 +1,109 @@
+/**
+ * Ключи бирж пользователей: шифрование (lib/secretBox) и хранение в exchange_credentials.
+ * Счёт исполнения — пользователь + биржа + демо/реальный; секреты наружу не отдаются (только key_hint).
+ */
+
+import {
+  saveExchangeCredentials,
+  getExchangeCredentials,
+  listExchangeCredentials,
+  deleteExchangeCredentials,
+  ExchangeCredentialRow
+} from '../db/authDb';
+import { encryptSecret, decryptSecret, isSecretBoxConfigured } from '../lib/secretBox';
+import { logger } from '../lib/logger';
+import { EXCHANGE_IDS, ExchangeId, getExchangeAdapter } from './exchangeAdapters';
+
+export const CREDENTIAL_EXCHANGES = EXCHANGE_IDS;
+export type CredentialExchange = ExchangeId;
+
+export interface ExchangeCredentials {
+  apiKey: string;
+  secret: string;
+  passphrase: string;
+}
+
+/** Сохранённый счёт без секретов — для UI */
+export interface CredentialAccount {
+  exchange: string;
+  useTestnet: boolean;
+  keyHint: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function toAccount(row: ExchangeCredentialRow): CredentialAccount {
+  return {
+    exchange: row.exchange,
+    useTestnet: row.use_testnet === 1,
+    keyHint: row.key_hint,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/** Проверка тела PUT: apiKey, secret обязательны, passphrase — для бирж, где он есть (OKX) */
+export function parseCredentials(
+  body: unknown,
+  exchange: CredentialExchange
+): { ok: true; data: ExchangeCredentials } | { ok: false; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const apiKey = typeof b.apiKey === 'string' ? b.apiKey.trim() : '';
+  const secret = typeof b.secret === 'string' ? b.secret.trim() : '';
+  const passphrase = typeof b.passphrase === 'string' ? b.passphrase : '';
+  if (!apiKey || !secret) return { ok: false, error: 'apiKey and secret required' };
+  const adapter = getExchangeAdapter(exchange);
+  if (adapter.requiresPassphrase && !passphrase) return { ok: false, error: `passphrase required for ${adapter.name}` };
+  if (apiKey.length > 256 || secret.length > 256 || passphrase.length > 256) return { ok: false, error: 'Credentials too long' };
+  return { ok: true, data: { apiKey, secret, passphrase: adapter.requiresPassphrase ? passphrase : '' } };
+}
+
+export function saveUserCredentials(
+  userId: string,
+  exchange: CredentialExchange,
+  useTestnet: boolean,
+  creds: ExchangeCredentials
+): { ok: true; data: CredentialAccount } | { ok: false; error: string } {
+  if (!isSecretBoxConfigured()) return { ok: false, error: 'CREDENTIALS_SECRET not set on server' };
+  const now = Date.now();
+  const row: ExchangeCredentialRow = {
+    user_id: userId,
+    exchange,
+    use_testnet: useTestnet ? 1 : 0,
+    api_key: encryptSecret(creds.apiKey),
+    secret: encryptSecret(creds.secret),
+    passphrase: creds.passphrase ? encryptSecret(creds.passphrase) : null,
+    key_hint: `…${creds.apiKey.slice(-4)}`,
+    created_at: now,
+    updated_at: now
+  };
+  saveExchangeCredentials(row);
+  logger.info('Credentials', `Saved ${exchange} ${useTestnet ? 'demo' : 'live'} keys`, { userId });
+  return { ok: true, data: toAccount(getExchangeCredentials(userId, exchange, useTestnet) ?? row) };
+}
+
+/** Расшифрованные ключи; null — нет ключей или не удалось расшифровать (сменился CREDENTIALS_SECRET) */
+export function getUserCredentials(userId: string, exchange: CredentialExchange, useTestnet: boolean): ExchangeCredentials | null {
+  const row = getExchangeCredentials(userId, exchange, useTestnet);
+  if (!row || !isSecretBoxConfigured()) return null;
+  try {
+    return {
+      apiKey: decryptSecret(row.api_key),
+      secret: decryptSecret(row.secret),
+      passphrase: row.passphrase ? decryptSecret(row.passphrase) : ''
+    };
+  } catch (e) {
+    logger.warn('Credentials', 'decrypt failed', { userId, exchange, error: (e as Error).message });
+    return null;
+  }
+}
+
+export function listUserCredentials(userId: string): CredentialAccount[] {
+  return listExchangeCredentials(userId).map(toAccount);
+}
+
+export function removeUserCredentials(userId: string, exchange: CredentialExchange, useTestnet: boolean): boolean {
+  const removed = deleteExchangeCredentials(userId, exchange, useTestnet);
+  if (removed) logger.info('Credentials', `Removed ${exchange} ${useTestnet ? 'demo' : 'live'} keys`, { userId });
+  return removed;
+}
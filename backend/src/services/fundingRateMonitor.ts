@@ -4,11 +4,9 @@
  * High negative = много шортов → осторожно с short.
  */
 
-import ccxt, { Exchange } from 'ccxt';
-import { config } from '../config';
-import { toOkxCcxtSymbol } from '../lib/symbol';
 import { normalizeSymbol } from '../lib/symbol';
 import { logger } from '../lib/logger';
+import { ExchangeAdapter, ExchangeId, DEFAULT_EXCHANGE, getExchangeAdapter } from './exchangeAdapters';
 
 export interface FundingRateResult {
   symbol: string;
@@ -23,41 +21,27 @@ const FUNDING_HIGH_POSITIVE = 0.0005;   // 0.05% — осторожно с long
 const FUNDING_HIGH_NEGATIVE = -0.0005;  // -0.05% — осторожно с short
 
 export class FundingRateMonitor {
-  private exchange: Exchange;
+  private adapter: ExchangeAdapter;
 
-  constructor() {
-    const opts: Record<string, unknown> = {
-      enableRateLimit: true,
-      options: { defaultType: 'swap' },
-      timeout: 15000
-    };
-    if (config.okx.hasCredentials) {
-      opts.apiKey = config.okx.apiKey;
-      opts.secret = config.okx.secret;
-      opts.password = config.okx.passphrase;
-    }
-    if (config.proxy) (opts as any).httpsProxy = config.proxy;
-    this.exchange = new ccxt.okx(opts);
+  constructor(exchange: ExchangeId = DEFAULT_EXCHANGE) {
+    this.adapter = getExchangeAdapter(exchange);
   }
 
   async getFundingRate(symbol: string): Promise<FundingRateResult | null> {
     const sym = normalizeSymbol(symbol);
-    const ccxtSymbol = toOkxCcxtSymbol(sym) || 'BTC/USDT:USDT';
     try {
-      const data = await this.exchange.fetchFundingRate(ccxtSymbol);
-      const rate = Number(data.fundingRate ?? data.nextFundingRate ?? 0);
-      const nextTime = data.fundingTimestamp ?? data.nextFundingTimestamp;
+      const { rate, nextFundingTime } = await this.adapter.fetchFundingRate(sym || symbol);
       const interpretation = this.interpretRate(rate);
       return {
         symbol: sym || symbol,
         rate,
-        nextFundingTime: nextTime != null ? Number(nextTime) : undefined,
+        nextFundingTime,
         interpretation,
         shouldAvoidLong: rate >= FUNDING_HIGH_POSITIVE,
         shouldAvoidShort: rate <= FUNDING_HIGH_NEGATIVE
       };
     } catch (e) {
-      logger.warn('FundingRateMonitor', 'fetch failed', { symbol: sym, error: (e as Error).message });
+      logger.warn('FundingRateMonitor', 'fetch failed', { exchange: this.adapter.id, symbol: sym, error: (e as Error).message });
       return null;
     }
   }
@@ -0,0 +1,504 @@
+/**
+ * Kill switch — экстренная остановка исполнения на всех биржах (exchangeAdapters)
+ * - Закрывается только то, что ведёт бот: ордера входов entryOrders отменяются, сопровождаемые позиции
+ *   (и исполненная часть входов) закрываются reduce-only маркетом; чужие позиции и ордера не трогаются
+ * - Весь счёт (все ордера и позиции) — только для счетов, явно переданных в engage (серверный OKX из админки)
+ * - На время процедуры сопровождение positionManager / entryOrders приостановлено; стоп (и стопы ступеней входа)
+ *   снимается и позиция снимается с сопровождения только после успешного закрытия, не закрытое сопровождается дальше со стопом
+ * - Исполнение (autoTrader.executeSignal) блокируется до ручного re-arm; состояние сохраняется в settings
+ * - Каждое срабатывание и re-arm — запись в audit_log и событие подписчикам (WebSocket)
+ */
+
+import { Exchange } from 'ccxt';
+import { getSetting, setSetting, insertAuditEntry, listAuditEntries } from '../db';
+import { getTradingExchange, ExecutionAccount } from './tradingExchange';
+import { getExchangeAdapter, ExchangeId } from './exchangeAdapters';
+import { positionManager, LivePosition } from './positionManager';
+import { entryOrders, EntryOrder, EntryLadderOrder } from './entryOrders';
+import { logger } from '../lib/logger';
+
+const SETTINGS_KEY = 'kill_switch';
+/** Типы algo-ордеров OKX, которые снимаются (стопы positionManager — conditional) */
+const ALGO_ORDER_TYPES = ['conditional', 'oco', 'trigger', 'move_order_stop'];
+
+/** Запросы условных ордеров: OKX — по типу algo, остальные биржи — trigger-ордера целиком */
+function triggerOrderQueries(account: ExecutionAccount): Record<string, unknown>[] {
+  return account.exchange === 'okx' ? ALGO_ORDER_TYPES.map((ordType) => ({ trigger: true, ordType })) : [{ trigger: true }];
+}
+
+export const KILL_SWITCH_ACTIONS = ['kill_switch.engage', 'kill_switch.rearm'];
+
+export interface KillSwitchState {
+  engaged: boolean;
+  engagedAt: number | null;
+  engagedBy: string | null;
+  reason: string | null;
+  rearmedAt: number | null;
+  rearmedBy: string | null;
+}
+
+export interface FlattenedPosition {
+  symbol: string;
+  side: 'long' | 'short';
+  contracts: number;
+}
+
+export interface FlattenAccountReport {
+  exchange: ExchangeId;
+  /** Владелец счёта (null — серверный аккаунт из .env) */
+  userId: string | null;
+  useTestnet: boolean;
+  canceledOrders: number;
+  canceledAlgoOrders: number;
+  closedPositions: FlattenedPosition[];
+  /** Позиции, оставшиеся открытыми после закрытия (повторная проверка; для сопровождаемых — не закрытые ботом) */
+  remainingPositions: number;
+  errors: string[];
+}
+
+export interface EmergencyReport {
+  state: KillSwitchState;
+  accounts: FlattenAccountReport[];
+  /** Снято с сопровождения: live-позиции positionManager и ожидающие входы */
+  abandonedPositions: number;
+  abandonedEntries: number;
+  durationMs: number;
+}
+
+export interface KillSwitchEvent {
+  state: KillSwitchState;
+  report?: EmergencyReport;
+}
+
+export interface KillSwitchAuditEntry {
+  id: number;
+  time: number;
+  action: string;
+  actor: string;
+  details: unknown;
+}
+
+const INITIAL_STATE: KillSwitchState = {
+  engaged: false,
+  engagedAt: null,
+  engagedBy: null,
+  reason: null,
+  rearmedAt: null,
+  rearmedBy: null
+};
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** Весь счёт: отменить обычные и algo-ордера, закрыть все позиции (только для явно переданных счетов) */
+async function flattenAccount(exchange: Exchange, account: ExecutionAccount): Promise<FlattenAccountReport> {
+  const report: FlattenAccountReport = {
+    ...account,
+    canceledOrders: 0,
+    canceledAlgoOrders: 0,
+    closedPositions: [],
+    remainingPositions: 0,
+    errors: []
+  };
+
+  // Сначала ордера: лимитные входы не должны исполниться во время закрытия
+  try {
+    for (const order of await exchange.fetchOpenOrders()) {
+      try {
+        await exchange.cancelOrder(order.id, order.symbol);
+        report.canceledOrders++;
+      } catch (e) {
+        report.errors.push(`cancel ${order.symbol} ${order.id}: ${errorMessage(e)}`);
+      }
+    }
+  } catch (e) {
+    report.errors.push(`fetch open orders: ${errorMessage(e)}`);
+  }
+
+  for (const query of triggerOrderQueries(account)) {
+    try {
+      for (const order of await exchange.fetchOpenOrders(undefined, undefined, undefined, query)) {
+        try {
+          await exchange.cancelOrder(order.id, order.symbol, { trigger: true });
+          report.canceledAlgoOrders++;
+        } catch (e) {
+          report.errors.push(`cancel algo ${order.symbol} ${order.id}: ${errorMessage(e)}`);
+        }
+      }
+    } catch (e) {
+      report.errors.push(`fetch ${query.ordType ?? 'trigger'} orders: ${errorMessage(e)}`);
+    }
+  }
+
+  try {
+    for (const p of await exchange.fetchPositions()) {
+      const contracts = Math.abs(Number(p.contracts) || 0);
+      if (!(contracts > 0) || (p.side !== 'long' && p.side !== 'short')) continue;
+      try {
+        await exchange.createOrder(p.symbol, 'market', p.side === 'long' ? 'sell' : 'buy', contracts, undefined, {
+          reduceOnly: true,
+          ...closeParams(account, p)
+        });
+        report.closedPositions.push({ symbol: p.symbol, side: p.side, contracts });
+      } catch (e) {
+        report.errors.push(`close ${p.symbol} ${p.side}: ${errorMessage(e)}`);
+      }
+    }
+    const remaining = await exchange.fetchPositions();
+    report.remainingPositions = remaining.filter((p) => Math.abs(Number(p.contracts) || 0) > 0).length;
+  } catch (e) {
+    report.errors.push(`positions: ${errorMessage(e)}`);
+  }
+  return report;
+}
+
+/** Параметры reduce-only закрытия: OKX — режим маржи и posSide позиции, остальные — параметры адаптера */
+function closeParams(account: ExecutionAccount, p: { marginMode?: string; info?: unknown }): Record<string, unknown> {
+  const posSide = (p.info as { posSide?: string } | undefined)?.posSide;
+  return account.exchange === 'okx'
+    ? { tdMode: p.marginMode ?? 'isolated', ...(posSide === 'long' || posSide === 'short' ? { posSide } : {}) }
+    : getExchangeAdapter(account.exchange).orderParams();
+}
+
+/**
+ * Снять ордера и закрыть позиции, которые ведёт бот на одном счёте: ордера лестниц входов (исполнение — свежее,
+ * fetchOrder после отмены), остаток позиций positionManager. Объём закрытия не больше позиции на бирже.
+ * Стоп снимается и позиция / вход снимаются с сопровождения только после успешного закрытия; при ошибке всё остаётся
+ * (стоп на бирже, сопровождение) — повторный engage закроет снова
+ */
+async function flattenTracked(
+  exchange: Exchange,
+  account: ExecutionAccount,
+  positions: LivePosition[],
+  entries: EntryOrder[]
+): Promise<{ report: FlattenAccountReport; abandonedPositions: number; abandonedEntries: number }> {
+  const report: FlattenAccountReport = {
+    ...account,
+    canceledOrders: 0,
+    canceledAlgoOrders: 0,
+    closedPositions: [],
+    remainingPositions: 0,
+    errors: []
+  };
+  const adapter = getExchangeAdapter(account.exchange);
+
+  // Сначала ордера входов: лимитные входы не должны исполниться во время закрытия; исполненное до отмены — с биржи
+  const freshEntries: { entry: EntryOrder; orders: EntryLadderOrder[]; ok: boolean }[] = [];
+  for (const entry of entries) {
+    const ccxtSymbol = adapter.toCcxtSymbol(entry.symbol);
+    let ok = true;
+    const orders: EntryLadderOrder[] = [];
+    for (const order of entry.orders) {
+      if (order.status !== 'open') {
+        orders.push(order);
+        continue;
+      }
+      try {
+        await exchange.cancelOrder(order.id, ccxtSymbol);
+        report.canceledOrders++;
+      } catch (e) {
+        // мог исполниться до отмены — итог покажет fetchOrder
+        report.errors.push(`cancel ${entry.symbol} ${order.id}: ${errorMessage(e)}`);
+      }
+      try {
+        const fresh = await exchange.fetchOrder(order.id, ccxtSymbol);
+        const status = fresh.status === 'open' ? 'open' : fresh.status === 'closed' ? 'closed' : 'canceled';
+        if (status === 'open') ok = false;
+        orders.push({ ...order, filled: Number(fresh.filled) || 0, average: Number(fresh.average) > 0 ? Number(fresh.average) : order.average, status });
+      } catch (e) {
+        ok = false;
+        orders.push(order);
+        report.errors.push(`fetch ${entry.symbol} ${order.id}: ${errorMessage(e)}`);
+      }
+    }
+    freshEntries.push({ entry, orders, ok });
+  }
+
+  // Объём бота по символу и стороне
+  const groups = new Map<string, { symbol: string; side: 'long' | 'short'; amount: number; positions: LivePosition[]; entries: typeof freshEntries }>();
+  const groupOf = (symbol: string, direction: 'LONG' | 'SHORT') => {
+    const ccxtSymbol = adapter.toCcxtSymbol(symbol);
+    const side = direction === 'LONG' ? 'long' : 'short';
+    const key = `${ccxtSymbol}:${side}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { symbol: ccxtSymbol, side, amount: 0, positions: [], entries: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+  for (const p of positions) {
+    const group = groupOf(p.symbol, p.direction);
+    group.amount += p.remaining;
+    group.positions.push(p);
+  }
+  // Вход, состояние которого не удалось выяснить, не закрывается: после процедуры он доводится обычным порядком
+  for (const fe of freshEntries.filter((x) => x.ok)) {
+    const group = groupOf(fe.entry.symbol, fe.entry.direction);
+    group.amount += fe.orders.reduce((sum, o) => sum + o.filled, 0);
+    group.entries.push(fe);
+  }
+
+  let abandonedPositions = 0;
+  let abandonedEntries = 0;
+  if (!groups.size) return { report, abandonedPositions, abandonedEntries };
+
+  const symbols = [...new Set([...groups.values()].map((g) => g.symbol))];
+  const contractsOf = (list: Awaited<ReturnType<Exchange['fetchPositions']>>, g: { symbol: string; side: string }) =>
+    list.filter((p) => p.symbol === g.symbol && p.side === g.side).reduce((sum, p) => sum + Math.abs(Number(p.contracts) || 0), 0);
+  try {
+    const before = await exchange.fetchPositions(symbols);
+    const expected = new Map<string, number>();
+    for (const [key, g] of groups) {
+      const open = contractsOf(before, g);
+      const amount = g.amount > 0 ? Number(exchange.amountToPrecision(g.symbol, Math.min(g.amount, open))) : 0;
+      expected.set(key, open - (amount > 0 ? amount : 0));
+      if (amount > 0) {
+        const p = before.find((x) => x.symbol === g.symbol && x.side === g.side);
+        try {
+          await exchange.createOrder(g.symbol, 'market', g.side === 'long' ? 'sell' : 'buy', amount, undefined, {
+            reduceOnly: true,
+            ...closeParams(account, p ?? {})
+          });
+          report.closedPositions.push({ symbol: g.symbol, side: g.side, contracts: amount });
+        } catch (e) {
+          report.errors.push(`close ${g.symbol} ${g.side}: ${errorMessage(e)}`);
+          continue;
+        }
+      }
+      // Закрыто (или на бирже уже нечего закрывать): снять стопы и сопровождение
+      for (const position of g.positions) {
+        if (position.stopOrderId) {
+          try {
+            await exchange.cancelOrder(position.stopOrderId, g.symbol, { trigger: true });
+            report.canceledAlgoOrders++;
+          } catch (e) {
+            report.errors.push(`cancel stop ${position.symbol} ${position.stopOrderId}: ${errorMessage(e)}`);
+          }
+        }
+        if (positionManager.abandon(position.id, 'kill_switch')) abandonedPositions++;
+      }
+      for (const fe of g.entries) {
+        for (const order of fe.orders) {
+          if (!order.stopId) continue;
+          try {
+            await exchange.cancelOrder(order.stopId, g.symbol, { trigger: true });
+            report.canceledAlgoOrders++;
+          } catch (e) {
+            report.errors.push(`cancel stop ${fe.entry.symbol} ${order.stopId}: ${errorMessage(e)}`);
+          }
+          order.stopId = null;
+        }
+        if (entryOrders.abandon(fe.entry.id, fe.orders)) abandonedEntries++;
+      }
+    }
+    const after = await exchange.fetchPositions(symbols);
+    report.remainingPositions = [...groups].filter(([key, g]) => contractsOf(after, g) > (expected.get(key) ?? 0) + 1e-9).length;
+  } catch (e) {
+    report.errors.push(`positions: ${errorMessage(e)}`);
+  }
+  return { report, abandonedPositions, abandonedEntries };
+}
+
+export class KillSwitch {
+  private state: KillSwitchState = { ...INITIAL_STATE };
+  private loaded = false;
+  private running: Promise<EmergencyReport> | null = null;
+  private listeners = new Set<(e: KillSwitchEvent) => void>();
+
+  /** Восстановить состояние из settings */
+  init(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    const raw = getSetting(SETTINGS_KEY);
+    if (!raw) return;
+    try {
+      this.state = { ...INITIAL_STATE, ...(JSON.parse(raw) as Partial<KillSwitchState>) };
+      if (this.state.engaged) logger.warn('KillSwitch', 'Restored engaged kill switch: execution disabled until re-armed');
+    } catch (e) {
+      logger.warn('KillSwitch', 'failed to restore state', { error: (e as Error).message });
+    }
+  }
+
+  isEngaged(): boolean {
+    this.init();
+    return this.state.engaged;
+  }
+
+  status(): KillSwitchState & { running: boolean } {
+    this.init();
+    return { ...this.state, running: this.running != null };
+  }
+
+  /** Журнал срабатываний и re-arm (новые первыми) */
+  audit(limit = 20): KillSwitchAuditEntry[] {
+    return listAuditEntries({ actions: KILL_SWITCH_ACTIONS, limit }).map((row) => {
+      let details: unknown = null;
+      try {
+        details = row.details ? JSON.parse(row.details) : null;
+      } catch {
+        details = row.details;
+      }
+      return { id: row.id, time: row.time, action: row.action, actor: row.actor, details };
+    });
+  }
+
+  onChange(listener: (e: KillSwitchEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Сработать: заблокировать исполнение, снять сопровождение, снять ордера и закрыть позиции бота.
+   * Повторный вызов при уже включённом kill switch повторяет закрытие (например, после ошибок биржи).
+   * Счета сопровождаемых позиций и входов — только ордера и позиции бота; accounts из вызова — весь счёт.
+   */
+  engage(opts: { actor: string; reason?: string; accounts?: ExecutionAccount[] }): Promise<EmergencyReport> {
+    this.init();
+    if (!this.running) {
+      this.running = this.run(opts).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /** Снова разрешить исполнение (авто-анализ не перезапускается) */
+  rearm(opts: { actor: string }): { ok: true; data: KillSwitchState } | { ok: false; error: string } {
+    this.init();
+    if (!this.state.engaged) return { ok: false, error: 'Kill switch is not engaged' };
+    if (this.running) return { ok: false, error: 'Emergency procedure is still running' };
+    this.state = { ...this.state, engaged: false, rearmedAt: Date.now(), rearmedBy: opts.actor };
+    this.persist();
+    insertAuditEntry({ time: Date.now(), action: 'kill_switch.rearm', actor: opts.actor, details: null });
+    logger.warn('KillSwitch', `Re-armed by ${opts.actor}`);
+    this.emit({ state: { ...this.state } });
+    return { ok: true, data: { ...this.state } };
+  }
+
+  private async run(opts: { actor: string; reason?: string; accounts?: ExecutionAccount[] }): Promise<EmergencyReport> {
+    const startedAt = Date.now();
+    if (!this.state.engaged) {
+      this.state = {
+        ...this.state,
+        engaged: true,
+        engagedAt: startedAt,
+        engagedBy: opts.actor,
+        reason: opts.reason ?? null
+      };
+      this.persist();
+    }
+    logger.error('KillSwitch', `Engaged by ${opts.actor}`, { reason: opts.reason });
+    this.emit({ state: { ...this.state } });
+
+    // Приостановить сопровождение до запросов к бирже, чтобы менеджеры не двигали стопы и не доводили входы;
+    // снимаются с сопровождения только закрытые позиции и входы, остальные после процедуры сопровождаются дальше
+    const positions = await positionManager.suspend();
+    const entries = await entryOrders.suspend();
+    const accountKey = (a: ExecutionAccount) => `${a.exchange}:${a.userId ?? ''}:${a.useTestnet}`;
+    const accounts = new Map<string, { account: ExecutionAccount; whole: boolean; positions: LivePosition[]; entries: EntryOrder[] }>();
+    const accountOf = (a: ExecutionAccount, whole = false) => {
+      const key = accountKey(a);
+      const existing = accounts.get(key);
+      if (existing) {
+        existing.whole ||= whole;
+        return existing;
+      }
+      const created = { account: { exchange: a.exchange, userId: a.userId, useTestnet: a.useTestnet }, whole, positions: [], entries: [] };
+      accounts.set(key, created);
+      return created;
+    };
+    (opts.accounts ?? []).forEach((a) => accountOf(a, true));
+    positions.forEach((p) => accountOf(p).positions.push(p));
+    entries.forEach((e) => accountOf(e).entries.push(e));
+
+    const reports: FlattenAccountReport[] = [];
+    let abandonedPositions = 0;
+    let abandonedEntries = 0;
+    try {
+      for (const { account, whole, positions: tracked, entries: pending } of accounts.values()) {
+        try {
+          const exchange = await getTradingExchange(account.useTestnet, account.userId, account.exchange);
+          if (whole) {
+            const report = await flattenAccount(exchange, account);
+            reports.push(report);
+            // Весь счёт закрыт — сопровождение счёта снимается (ордера входов уже отменены)
+            if (report.remainingPositions === 0 && report.errors.length === 0) {
+              abandonedPositions += tracked.filter((p) => positionManager.abandon(p.id, 'kill_switch')).length;
+              abandonedEntries += pending.filter((e) => entryOrders.abandon(e.id, e.orders)).length;
+            }
+          } else {
+            const result = await flattenTracked(exchange, account, tracked, pending);
+            reports.push(result.report);
+            abandonedPositions += result.abandonedPositions;
+            abandonedEntries += result.abandonedEntries;
+          }
+        } catch (e) {
+          reports.push({
+            ...account,
+            canceledOrders: 0,
+            canceledAlgoOrders: 0,
+            closedPositions: [],
+            remainingPositions: 0,
+            errors: [errorMessage(e)]
+          });
+        }
+      }
+    } finally {
+      positionManager.resume();
+      entryOrders.resume();
+    }
+
+    const report: EmergencyReport = {
+      state: { ...this.state },
+      accounts: reports,
+      abandonedPositions,
+      abandonedEntries,
+      durationMs: Date.now() - startedAt
+    };
+    insertAuditEntry({
+      time: Date.now(),
+      action: 'kill_switch.engage',
+      actor: opts.actor,
+      details: JSON.stringify({
+        reason: opts.reason ?? null,
+        accounts: reports,
+        abandonedPositions: report.abandonedPositions,
+        abandonedEntries: report.abandonedEntries,
+        durationMs: report.durationMs
+      })
+    });
+    const failed = reports.some((r) => r.errors.length > 0 || r.remainingPositions > 0);
+    const summary = reports.map((r) => ({
+      exchange: r.exchange,
+      userId: r.userId,
+      useTestnet: r.useTestnet,
+      canceledOrders: r.canceledOrders,
+      canceledAlgoOrders: r.canceledAlgoOrders,
+      closedPositions: r.closedPositions.length,
+      remainingPositions: r.remainingPositions,
+      errors: r.errors
+    }));
+    if (failed) logger.error('KillSwitch', 'Emergency procedure finished with errors', { accounts: summary });
+    else logger.warn('KillSwitch', 'Emergency procedure finished', { accounts: summary });
+    this.emit({ state: { ...this.state }, report });
+    return report;
+  }
+
+  private persist(): void {
+    setSetting(SETTINGS_KEY, JSON.stringify(this.state));
+  }
+
+  private emit(event: KillSwitchEvent): void {
+    this.listeners.forEach((cb) => {
+      try {
+        cb(event);
+      } catch (e) {
+        logger.warn('KillSwitch', 'Event listener failed', { error: (e as Error).message });
+      }
+    });
+  }
+}
+
+export const killSwitch = new KillSwitch();
@@ -0,0 +1,376 @@
+/**
+ * Market Compare — сравнение рынка символа между биржами (OKX, BingX, Binance USDT-M, Bybit)
+ * - Цена, лучший бид/аск, фандинг, открытый интерес, спот — ccxt через адаптеры бирж
+ * - Межбиржевой спред цены, разница фандинга, базис perp − spot; лидер — биржа с наибольшей премией к медиане
+ * - Алерты (Telegram / Discord) при расхождении выше порогов, с паузой по символу и типу
+ * - Пороги и наблюдаемые символы сохраняются в settings; наблюдение — периодическое сравнение с алертами
+ */
+
+import { getSetting, setSetting } from '../db';
+import { normalizeSymbol } from '../lib/symbol';
+import { logger } from '../lib/logger';
+import { ExchangeAdapter, ExchangeId, EXCHANGE_IDS, getExchangeAdapter } from './exchangeAdapters';
+import { notifyDivergenceAlert } from './notificationService';
+
+const SETTINGS_KEY = 'market_compare';
+const ALERTS_LIMIT = 100;
+const MAX_WATCH_SYMBOLS = 20;
+
+/** Данные одной биржи; цены приведены к споту (1000PEPE → PEPE) */
+export interface ExchangeQuote {
+  exchange: ExchangeId;
+  name: string;
+  price: number | null;
+  bid: number | null;
+  ask: number | null;
+  bidSize: number | null;
+  askSize: number | null;
+  /** (ask − bid) / mid, % */
+  bookSpreadPct: number | null;
+  markPrice: number | null;
+  indexPrice: number | null;
+  spotPrice: number | null;
+  /** (price − spot) / spot, % */
+  basisPct: number | null;
+  fundingRate: number | null;
+  nextFundingTime: number | null;
+  openInterestUsd: number | null;
+  volume24hUsd: number | null;
+  /** Запросы, завершившиеся ошибкой (остальные поля заполнены) */
+  errors: string[];
+}
+
+export type CompareAlertKind = 'price_spread' | 'funding_diff' | 'basis';
+
+export interface CompareAlert {
+  time: number;
+  symbol: string;
+  kind: CompareAlertKind;
+  value: number;
+  threshold: number;
+  message: string;
+  /** Отправлено в Telegram / Discord (false — пауза по cooldown или без notify) */
+  notified: boolean;
+}
+
+interface Extreme {
+  min: number;
+  max: number;
+  minExchange: ExchangeId;
+  maxExchange: ExchangeId;
+}
+
+export interface MarketComparison {
+  symbol: string;
+  time: number;
+  quotes: ExchangeQuote[];
+  /** Спред последних цен: (max − min) / min, % */
+  price: (Extreme & { median: number; spreadPct: number }) | null;
+  /** Лучший бид и аск по всем биржам; crossPct > 0 — бид одной биржи выше аска другой */
+  book: { bestBid: number; bestBidExchange: ExchangeId; bestAsk: number; bestAskExchange: ExchangeId; crossPct: number } | null;
+  /** Разница ставок фандинга (max − min), доля за период */
+  funding: (Extreme & { diff: number }) | null;
+  /** Наибольший по модулю базис perp − spot */
+  basis: { avgPct: number; maxAbsPct: number; exchange: ExchangeId } | null;
+  /** Биржа с наибольшим отклонением цены от медианы */
+  leader: { exchange: ExchangeId; premiumPct: number } | null;
+  alerts: CompareAlert[];
+}
+
+export interface CompareConfig {
+  /** Порог спреда цены между биржами, % */
+  priceSpreadPct: number;
+  /** Порог разницы фандинга (0.0005 = 0.05%) */
+  fundingDiff: number;
+  /** Порог базиса perp − spot по модулю, % */
+  basisPct: number;
+  /** Пауза между повторными уведомлениями по символу и типу, мин */
+  cooldownMinutes: number;
+  /** Символы для периодического сравнения; пусто — наблюдение выключено */
+  watchSymbols: string[];
+  watchIntervalSec: number;
+}
+
+export interface CompareStatus {
+  config: CompareConfig;
+  alerts: CompareAlert[];
+}
+
+const DEFAULT_CONFIG: CompareConfig = {
+  priceSpreadPct: 0.3,
+  fundingDiff: 0.0005,
+  basisPct: 0.5,
+  cooldownMinutes: 30,
+  watchSymbols: [],
+  watchIntervalSec: 60
+};
+
+/** Границы числовых полей для PUT /api/market/compare-alerts */
+const CONFIG_BOUNDS: Record<Exclude<keyof CompareConfig, 'watchSymbols'>, [number, number]> = {
+  priceSpreadPct: [0.01, 50],
+  fundingDiff: [0.00001, 0.05],
+  basisPct: [0.01, 50],
+  cooldownMinutes: [0, 1440],
+  watchIntervalSec: [10, 3600]
+};
+
+/** Проверка и нормализация частичного конфига */
+export function parseCompareConfig(body: unknown): { ok: true; data: Partial<CompareConfig> } | { ok: false; error: string } {
+  if (!body || typeof body !== 'object') return { ok: false, error: 'Body must be an object' };
+  const b = body as Record<string, unknown>;
+  const patch: Partial<CompareConfig> = {};
+  for (const [key, [min, max]] of Object.entries(CONFIG_BOUNDS) as [keyof typeof CONFIG_BOUNDS, [number, number]][]) {
+    if (b[key] === undefined) continue;
+    const n = Number(b[key]);
+    if (!Number.isFinite(n) || n < min || n > max) return { ok: false, error: `${key}: ${min}–${max}` };
+    patch[key] = key === 'cooldownMinutes' || key === 'watchIntervalSec' ? Math.round(n) : n;
+  }
+  if (b.watchSymbols !== undefined) {
+    if (!Array.isArray(b.watchSymbols)) return { ok: false, error: 'watchSymbols must be an array' };
+    const symbols = [...new Set(b.watchSymbols.map((s) => normalizeSymbol(String(s))).filter(Boolean))];
+    if (symbols.length > MAX_WATCH_SYMBOLS) return { ok: false, error: `watchSymbols: max ${MAX_WATCH_SYMBOLS}` };
+    patch.watchSymbols = symbols;
+  }
+  return { ok: true, data: patch };
+}
+
+function pct(a: number, b: number): number {
+  return ((a - b) / b) * 100;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function extreme(quotes: ExchangeQuote[], value: (q: ExchangeQuote) => number | null): Extreme | null {
+  const points = quotes
+    .map((q) => ({ exchange: q.exchange, v: value(q) }))
+    .filter((p): p is { exchange: ExchangeId; v: number } => p.v != null);
+  if (points.length < 2) return null;
+  const lo = points.reduce((a, b) => (b.v < a.v ? b : a));
+  const hi = points.reduce((a, b) => (b.v > a.v ? b : a));
+  return { min: lo.v, max: hi.v, minExchange: lo.exchange, maxExchange: hi.exchange };
+}
+
+const round = (n: number, digits = 4) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export class MarketCompare {
+  private config: CompareConfig = { ...DEFAULT_CONFIG };
+  private alerts: CompareAlert[] = [];
+  /** Время последнего уведомления: symbol:kind → ms */
+  private lastNotified = new Map<string, number>();
+  private watchTimer: ReturnType<typeof setInterval> | null = null;
+  private loaded = false;
+
+  /** Восстановить пороги из settings и запустить наблюдение */
+  init(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    const raw = getSetting(SETTINGS_KEY);
+    if (raw) {
+      try {
+        const parsed = parseCompareConfig(JSON.parse(raw));
+        if (parsed.ok) this.config = { ...this.config, ...parsed.data };
+      } catch (e) {
+        logger.warn('MarketCompare', 'failed to restore config', { error: (e as Error).message });
+      }
+    }
+    this.startWatch();
+  }
+
+  /**
+   * Сравнить символ на биржах (по умолчанию — на всех).
+   * notify — разослать алерты, превысившие пороги (с паузой cooldownMinutes)
+   */
+  async compare(symbol: string, opts: { exchanges?: ExchangeId[]; notify?: boolean } = {}): Promise<MarketComparison> {
+    this.init();
+    const sym = normalizeSymbol(symbol) || 'BTC-USDT';
+    const exchanges = opts.exchanges?.length ? opts.exchanges : [...EXCHANGE_IDS];
+    const quotes = await Promise.all(exchanges.map((id) => this.fetchQuote(getExchangeAdapter(id), sym)));
+    const comparison = this.summarize(sym, quotes);
+    comparison.alerts = this.detectAlerts(comparison, opts.notify === true);
+    return comparison;
+  }
+
+  status(): CompareStatus {
+    this.init();
+    return { config: { ...this.config, watchSymbols: [...this.config.watchSymbols] }, alerts: this.alerts.map((a) => ({ ...a })) };
+  }
+
+  updateConfig(patch: Partial<CompareConfig>): CompareStatus {
+    this.init();
+    this.config = { ...this.config, ...patch };
+    setSetting(SETTINGS_KEY, JSON.stringify(this.config));
+    this.startWatch();
+    return this.status();
+  }
+
+  /** Остановить наблюдение (тесты, завершение процесса) */
+  stop(): void {
+    if (this.watchTimer) clearInterval(this.watchTimer);
+    this.watchTimer = null;
+  }
+
+  private startWatch(): void {
+    this.stop();
+    const { watchSymbols, watchIntervalSec } = this.config;
+    if (!watchSymbols.length) return;
+    this.watchTimer = setInterval(() => {
+      void this.runWatch();
+    }, watchIntervalSec * 1000);
+    logger.info('MarketCompare', `Watching ${watchSymbols.join(', ')} every ${watchIntervalSec}s`);
+  }
+
+  private async runWatch(): Promise<void> {
+    for (const symbol of this.config.watchSymbols) {
+      try {
+        await this.compare(symbol, { notify: true });
+      } catch (e) {
+        logger.warn('MarketCompare', `watch ${symbol} failed`, { error: (e as Error).message });
+      }
+    }
+  }
+
+  /** Все запросы биржи параллельно; ошибка одного не отменяет остальные */
+  private async fetchQuote(adapter: ExchangeAdapter, symbol: string): Promise<ExchangeQuote> {
+    const scale = adapter.priceScale(symbol);
+    const [ticker, book, funding, oi, spot] = await Promise.allSettled([
+      adapter.fetchTicker(symbol),
+      adapter.fetchOrderBook(symbol, 5),
+      adapter.fetchFundingRate(symbol),
+      adapter.fetchOpenInterest(symbol),
+      adapter.fetchSpotPrice(symbol)
+    ]);
+    const errors: string[] = [];
+    const value = <T>(name: string, r: PromiseSettledResult<T>): T | null => {
+      if (r.status === 'fulfilled') return r.value;
+      errors.push(`${name}: ${(r.reason as Error)?.message ?? String(r.reason)}`);
+      return null;
+    };
+    const t = value('ticker', ticker);
+    const ob = value('orderbook', book);
+    const f = value('funding', funding);
+    const o = value('openInterest', oi);
+    const spotPrice = value('spot', spot);
+    if (errors.length) logger.debug('MarketCompare', `${adapter.name} ${symbol}: partial data`, { errors });
+
+    const scaled = (n: number | null | undefined) => (n != null ? n / scale : null);
+    const bid = scaled(ob?.bids[0]?.[0] ?? t?.bid);
+    const ask = scaled(ob?.asks[0]?.[0] ?? t?.ask);
+    const price = scaled(t?.last) ?? (bid != null && ask != null ? (bid + ask) / 2 : null);
+    const rawLast = t?.last ?? null;
+    return {
+      exchange: adapter.id,
+      name: adapter.name,
+      price,
+      bid,
+      ask,
+      bidSize: ob?.bids[0]?.[1] ?? null,
+      askSize: ob?.asks[0]?.[1] ?? null,
+      bookSpreadPct: bid != null && ask != null ? round(((ask - bid) / ((ask + bid) / 2)) * 100) : null,
+      markPrice: scaled(t?.markPrice ?? f?.markPrice),
+      indexPrice: scaled(t?.indexPrice ?? f?.indexPrice),
+      spotPrice,
+      basisPct: price != null && spotPrice != null ? round(pct(price, spotPrice)) : null,
+      fundingRate: f?.rate ?? null,
+      nextFundingTime: f?.nextFundingTime ?? null,
+      openInterestUsd: o ? o.value ?? (o.amount != null && rawLast != null ? o.amount * rawLast : null) : null,
+      volume24hUsd: t?.quoteVolume ?? null,
+      errors
+    };
+  }
+
+  private summarize(symbol: string, quotes: ExchangeQuote[]): MarketComparison {
+    const prices = extreme(quotes, (q) => q.price);
+    const med = median(quotes.map((q) => q.price).filter((p): p is number => p != null));
+    const bids = extreme(quotes, (q) => q.bid);
+    const asks = extreme(quotes, (q) => q.ask);
+    const funding = extreme(quotes, (q) => q.fundingRate);
+    const basis = quotes.filter((q) => q.basisPct != null) as (ExchangeQuote & { basisPct: number })[];
+    const widest = basis.reduce<(typeof basis)[number] | null>((a, b) => (!a || Math.abs(b.basisPct) > Math.abs(a.basisPct) ? b : a), null);
+    const leader = prices
+      ? quotes
+          .filter((q): q is ExchangeQuote & { price: number } => q.price != null)
+          .map((q) => ({ exchange: q.exchange, premiumPct: round(pct(q.price, med)) }))
+          .reduce((a, b) => (Math.abs(b.premiumPct) > Math.abs(a.premiumPct) ? b : a))
+      : null;
+    return {
+      symbol,
+      time: Date.now(),
+      quotes,
+      price: prices ? { ...prices, median: med, spreadPct: round(pct(prices.max, prices.min)) } : null,
+      book:
+        bids && asks
+          ? {
+              bestBid: bids.max,
+              bestBidExchange: bids.maxExchange,
+              bestAsk: asks.min,
+              bestAskExchange: asks.minExchange,
+              crossPct: round(pct(bids.max, asks.min))
+            }
+          : null,
+      funding: funding ? { ...funding, diff: funding.max - funding.min } : null,
+      basis: widest
+        ? {
+            avgPct: round(basis.reduce((s, q) => s + q.basisPct, 0) / basis.length),
+            maxAbsPct: widest.basisPct,
+            exchange: widest.exchange
+          }
+        : null,
+      leader,
+      alerts: []
+    };
+  }
+
+  /** Алерты по порогам; в журнал и рассылку попадают только с notify и вне паузы cooldown */
+  private detectAlerts(c: MarketComparison, notify: boolean): CompareAlert[] {
+    const { priceSpreadPct, fundingDiff, basisPct } = this.config;
+    const name = (id: ExchangeId) => getExchangeAdapter(id).name;
+    const found: Omit<CompareAlert, 'time' | 'symbol' | 'notified'>[] = [];
+    if (c.price && c.price.spreadPct >= priceSpreadPct) {
+      found.push({
+        kind: 'price_spread',
+        value: c.price.spreadPct,
+        threshold: priceSpreadPct,
+        message: `${name(c.price.maxExchange)} ${c.price.max} vs ${name(c.price.minExchange)} ${c.price.min}: spread ${c.price.spreadPct}%`
+      });
+    }
+    if (c.funding && c.funding.diff >= fundingDiff) {
+      found.push({
+        kind: 'funding_diff',
+        value: c.funding.diff,
+        threshold: fundingDiff,
+        message: `${name(c.funding.maxExchange)} ${(c.funding.max * 100).toFixed(4)}% vs ${name(c.funding.minExchange)} ${(c.funding.min * 100).toFixed(4)}%`
+      });
+    }
+    if (c.basis && Math.abs(c.basis.maxAbsPct) >= basisPct) {
+      found.push({
+        kind: 'basis',
+        value: c.basis.maxAbsPct,
+        threshold: basisPct,
+        message: `${name(c.basis.exchange)} perp vs spot ${c.basis.maxAbsPct > 0 ? '+' : ''}${c.basis.maxAbsPct}%`
+      });
+    }
+
+    const now = Date.now();
+    const cooldownMs = this.config.cooldownMinutes * 60_000;
+    return found.map((a) => {
+      const key = `${c.symbol}:${a.kind}`;
+      const last = this.lastNotified.get(key);
+      const notified = notify && (last == null || now - last >= cooldownMs);
+      const alert: CompareAlert = { ...a, time: now, symbol: c.symbol, notified };
+      if (notified) {
+        this.lastNotified.set(key, now);
+        this.alerts.unshift(alert);
+        this.alerts.splice(ALERTS_LIMIT);
+        logger.info('MarketCompare', `Divergence ${c.symbol} ${a.kind}`, { message: a.message });
+        notifyDivergenceAlert({ symbol: c.symbol, kind: a.kind, message: a.message }).catch(() => {});
+      }
+      return alert;
+    });
+  }
+}
+
+export const marketCompare = new MarketCompare();
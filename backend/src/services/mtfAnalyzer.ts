@@ -5,7 +5,8 @@
 
 import { OHLCVCandle } from '../types/candle';
 import { CandleAnalyzer } from './candleAnalyzer';
-import { DataAggregator } from './dataAggregator';
+import { getDataAggregator } from './dataAggregator';
+import { ExchangeId, DEFAULT_EXCHANGE } from './exchangeAdapters';
 import { logger } from '../lib/logger';
 
 const DEFAULT_TFS = ['1m', '5m', '15m', '1h'] as const;
@@ -62,9 +63,10 @@ function directionFromCandles(candles: OHLCVCandle[]): MTFResultItem {
  */
 export async function runMTFAnalysis(
   symbol: string,
-  timeframes: string[] = [...DEFAULT_TFS]
+  timeframes: string[] = [...DEFAULT_TFS],
+  exchange: ExchangeId = DEFAULT_EXCHANGE
 ): Promise<MTFAnalysisResult> {
-  const dataAgg = new DataAggregator();
+  const dataAgg = getDataAggregator(exchange);
   const validTfs = timeframes.filter((tf) => TF_LIMITS[tf] ?? 200);
   if (validTfs.length === 0) {
     return {
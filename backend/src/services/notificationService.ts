@@ -1,5 +1,5 @@
 /**
- * Notification Service — алерты при пробое/сигнале (Telegram, Discord)
+ * Notification Service — алерты при пробое/сигнале/расхождении бирж (Telegram, Discord)
  */
 
 import { logger } from '../lib/logger';
@@ -24,6 +24,12 @@ export interface SignalAlertPayload {
   reason?: string;
 }
 
+export interface DivergenceAlertPayload {
+  symbol: string;
+  kind: 'price_spread' | 'funding_diff' | 'basis';
+  message: string;
+}
+
 let config: NotificationConfig = {};
 
 export function setNotificationConfig(cfg: NotificationConfig): void {
@@ -93,3 +99,8 @@ export async function notifySignalAlert(payload: SignalAlertPayload): Promise<vo
   if (payload.reason) text += `\n${payload.reason}`;
   await broadcast(text);
 }
+
+export async function notifyDivergenceAlert(payload: DivergenceAlertPayload): Promise<void> {
+  const label = payload.kind === 'price_spread' ? 'Price spread' : payload.kind === 'funding_diff' ? 'Funding divergence' : 'Basis';
+  await broadcast(`⚖️ ${label}: ${payload.symbol}\n${payload.message}`);
+}
@@ -1,5 +1,5 @@
 /**
- * OKX WebSocket — стакан и сделки (публичные данные)
+ * OKX WebSocket — стакан, сделки и марк-цена (публичные данные)
  * С автопереподключением при разрыве
  */
 import WebSocket from 'ws';
@@ -11,12 +11,15 @@ const RECONNECT_DELAY_MS = 3000;
 const PING_INTERVAL_MS = 25000;
 
 type Handler = (data: unknown) => void;
+type StreamType = 'orderbook' | 'trade' | 'mark';
+
+const CHANNELS: Record<StreamType, string> = { orderbook: 'books5', trade: 'trades', mark: 'mark-price' };
 
 export function createOkxStream(symbol: string) {
   const norm = normalizeSymbol(symbol);
   const instId = toOkxInstId(symbol);
   let ws: WebSocket | null = null;
-  const subs = { orderbook: new Set<Handler>(), trade: new Set<Handler>() };
+  const subs: Record<StreamType, Set<Handler>> = { orderbook: new Set(), trade: new Set(), mark: new Set() };
   let refCount = 0;
   let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   let pingTimer: ReturnType<typeof setInterval> | null = null;
@@ -45,9 +48,9 @@ export function createOkxStream(symbol: string) {
 
     ws.on('open', () => {
       clearTimers();
-      const args: object[] = [];
-      if (subs.orderbook.size) args.push({ channel: 'books5', instId });
-      if (subs.trade.size) args.push({ channel: 'trades', instId });
+      const args = (Object.keys(subs) as StreamType[])
+        .filter((type) => subs[type].size)
+        .map((type) => ({ channel: CHANNELS[type], instId }));
       if (args.length) safeSend(ws, JSON.stringify({ op: 'subscribe', args }));
       pingTimer = setInterval(() => safeSend(ws, JSON.stringify({ op: 'ping' })), PING_INTERVAL_MS);
     });
@@ -73,6 +76,10 @@ export function createOkxStream(symbol: string) {
             };
             subs.trade.forEach((cb) => cb(trade));
           }
+        } else if (arg.channel === 'mark-price' && dataArr[0]) {
+          const d = dataArr[0];
+          const mark = { price: Number(d.markPx), time: Number(d.ts ?? Date.now()) };
+          if (mark.price > 0) subs.mark.forEach((cb) => cb(mark));
         }
       } catch {
         // ignore parse errors
@@ -94,9 +101,11 @@ export function createOkxStream(symbol: string) {
     });
   }
 
-  function subscribe(type: 'orderbook' | 'trade', cb: Handler): () => void {
+  function subscribe(type: StreamType, cb: Handler): () => void {
     subs[type].add(cb);
     refCount++;
+    // Сокет уже открыт другими подписчиками — досписаться на новый канал
+    if (subs[type].size === 1) safeSend(ws, JSON.stringify({ op: 'subscribe', args: [{ channel: CHANNELS[type], instId }] }));
     connect();
     return () => {
       subs[type].delete(cb);
@@ -0,0 +1,455 @@
+/**
+ * Сверка ордеров с OKX — реальные сделки настроенного аккаунта в таблице orders (source 'exchange', client_id 'okx')
+ * - История позиций OKX → закрытые сделки: цена выхода, realized PnL с комиссиями и фандингом
+ * - Открытые позиции → записи status 'open'; комиссии — по исполнениям (fills), фандинг — по выписке funding
+ * - История ордеров биржи → id ордеров сделки (по инструменту и времени исполнения)
+ * - Клиентские записи (POST /api/orders) сопоставляются со сделками OKX: recon_status / recon_note
+ */
+
+import { Exchange } from 'ccxt';
+import {
+  listOrders,
+  saveExchangeOrder,
+  setOrderRecon,
+  insertReconciliationRun,
+  listReconciliationRuns,
+  OrderRow,
+  OrderReconStatus,
+  ReconciliationRunRow
+} from '../db';
+import { getTradingExchange } from './tradingExchange';
+import { normalizeSymbol } from '../lib/symbol';
+import { config } from '../config';
+import { logger } from '../lib/logger';
+
+export const EXCHANGE_CLIENT_ID = 'okx';
+
+const RECON_INTERVAL_MS = 5 * 60_000;
+const FIRST_RUN_DELAY_MS = 10_000;
+const DAY_MS = 24 * 60 * 60_000;
+const DEFAULT_LOOKBACK_DAYS = 7;
+/** История позиций и выписка OKX хранятся 3 месяца */
+export const MAX_LOOKBACK_DAYS = 90;
+/** Перекрытие окна с прошлым прогоном — запись идемпотентна */
+const OVERLAP_MS = 60 * 60_000;
+/** Допуск по времени открытия при сопоставлении клиентской записи со сделкой OKX */
+const MATCH_WINDOW_MS = 2 * 60_000;
+const PRICE_TOLERANCE_BPS = 20;
+const PNL_TOLERANCE_PCT = 5;
+const PNL_TOLERANCE_ABS = 0.5;
+const PAGE_LIMIT = 100;
+const MAX_PAGES = 10;
+
+export interface ReconciliationSummary {
+  /** Закрытые позиции из истории OKX и открытые сейчас */
+  positions: number;
+  openPositions: number;
+  orders: number;
+  fills: number;
+  fundingEntries: number;
+  matched: number;
+  mismatched: number;
+  /** Клиентские записи без сделки на OKX и сделки OKX без клиентской записи */
+  unmatchedClient: number;
+  unmatchedExchange: number;
+  /** За окно прогона, USDT; fees и funding со знаком (минус — списано) */
+  realizedPnl: number;
+  fees: number;
+  funding: number;
+}
+
+export interface ReconciliationRun {
+  id: number;
+  startedAt: number;
+  finishedAt: number;
+  since: number;
+  ok: boolean;
+  error: string | null;
+  summary: ReconciliationSummary | null;
+}
+
+export interface ReconciliationIssue {
+  id: string;
+  source: 'client' | 'exchange';
+  clientId: string;
+  pair: string;
+  direction: 'LONG' | 'SHORT';
+  status: OrderReconStatus;
+  openTime: string;
+  openPrice: number;
+  closePrice: number | null;
+  pnl: number | null;
+  ref: string | null;
+  note: string | null;
+}
+
+export interface ReconciliationReport {
+  enabled: boolean;
+  running: boolean;
+  useTestnet: boolean;
+  lastRun: ReconciliationRun | null;
+  runs: ReconciliationRun[];
+  /** Закрытые сделки по источникам: OKX — реальные, client — заявленные клиентом */
+  totals: {
+    exchange: { trades: number; pnl: number; fees: number; funding: number };
+    client: { trades: number; pnl: number; matched: number; mismatched: number; unmatched: number };
+  };
+  issues: ReconciliationIssue[];
+}
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toRun(row: ReconciliationRunRow): ReconciliationRun {
+  let summary: ReconciliationSummary | null = null;
+  try {
+    summary = row.summary ? JSON.parse(row.summary) : null;
+  } catch {}
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    since: row.since,
+    ok: row.ok === 1,
+    error: row.error,
+    summary
+  };
+}
+
+function bps(a: number, b: number): number {
+  return b > 0 ? (Math.abs(a - b) / b) * 10000 : 0;
+}
+
+function round(n: number, digits = 8): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+/** Расхождения клиентской записи со сделкой OKX (пусто — совпадает) */
+function compare(client: OrderRow, exchange: OrderRow): string[] {
+  const notes: string[] = [];
+  if (bps(client.open_price, exchange.open_price) > PRICE_TOLERANCE_BPS) {
+    notes.push(`вход ${client.open_price} ≠ ${exchange.open_price}`);
+  }
+  if (client.status !== exchange.status) {
+    notes.push(`статус ${client.status} ≠ ${exchange.status}`);
+    return notes;
+  }
+  if (exchange.status === 'closed' && exchange.close_price != null) {
+    if (client.close_price == null || bps(client.close_price, exchange.close_price) > PRICE_TOLERANCE_BPS) {
+      notes.push(`выход ${client.close_price ?? '—'} ≠ ${exchange.close_price}`);
+    }
+    const pnl = exchange.pnl ?? 0;
+    const tolerance = Math.max(PNL_TOLERANCE_ABS, (Math.abs(pnl) * PNL_TOLERANCE_PCT) / 100);
+    if (client.pnl == null || Math.abs(client.pnl - pnl) > tolerance) {
+      notes.push(`PnL ${client.pnl != null ? client.pnl.toFixed(2) : '—'} ≠ ${pnl.toFixed(2)}`);
+    }
+  }
+  return notes;
+}
+
+/** Постраничная история позиций OKX, обновлённых не раньше since */
+async function fetchPositionsHistory(exchange: Exchange, since: number): Promise<any[]> {
+  const result: any[] = [];
+  let after: string | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const params: Record<string, string> = { instType: 'SWAP', before: String(since) };
+    if (after) params.after = after;
+    const batch = await exchange.fetchPositionsHistory(undefined, undefined, PAGE_LIMIT, params);
+    result.push(...batch);
+    if (batch.length < PAGE_LIMIT) break;
+    after = String(Math.min(...batch.map((p: any) => num(p.info?.uTime))));
+  }
+  return result;
+}
+
+export class OrderReconciler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  get useTestnet(): boolean {
+    return config.okx.sandbox;
+  }
+
+  init(): void {
+    if (this.timer || !config.okx.hasCredentials) return;
+    const tick = () => {
+      this.run().then((res) => {
+        if (!res.ok) logger.warn('Reconciliation', 'run failed', { error: res.error });
+      });
+    };
+    setTimeout(tick, FIRST_RUN_DELAY_MS).unref?.();
+    this.timer = setInterval(tick, RECON_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Прогон сверки; days — окно назад от текущего момента (по умолчанию — с прошлого успешного прогона) */
+  async run(opts: { days?: number } = {}): Promise<{ ok: true; data: ReconciliationRun } | { ok: false; error: string }> {
+    if (!config.okx.hasCredentials) return { ok: false, error: 'OKX API keys are not configured' };
+    if (this.running) return { ok: false, error: 'Reconciliation is already running' };
+    this.running = true;
+    const startedAt = Date.now();
+    const since = this.windowStart(startedAt, opts.days);
+    let summary: ReconciliationSummary | null = null;
+    let error: string | null = null;
+    try {
+      summary = await this.reconcile(since, startedAt);
+      logger.info('Reconciliation', `Reconciled ${summary.positions} OKX positions`, {
+        matched: summary.matched,
+        mismatched: summary.mismatched,
+        unmatchedClient: summary.unmatchedClient
+      });
+    } catch (e) {
+      error = (e as Error).message;
+    } finally {
+      this.running = false;
+    }
+    const row: Omit<ReconciliationRunRow, 'id'> = {
+      started_at: startedAt,
+      finished_at: Date.now(),
+      since,
+      ok: error ? 0 : 1,
+      error,
+      summary: summary ? JSON.stringify(summary) : null
+    };
+    const id = insertReconciliationRun(row);
+    if (error) return { ok: false, error };
+    return { ok: true, data: toRun({ id, ...row }) };
+  }
+
+  report(): ReconciliationReport {
+    const runs = listReconciliationRuns(20).map(toRun);
+    const exchange = listOrders({ source: 'exchange', status: 'closed', limit: 5000 });
+    const client = listOrders({ source: 'client', limit: 5000 });
+    const clientClosed = client.filter((o) => o.status === 'closed' && o.pnl != null);
+    const issues = [
+      ...client.filter((o) => o.recon_status === 'mismatch' || o.recon_status === 'unmatched'),
+      ...listOrders({ source: 'exchange', limit: 5000 }).filter((o) => o.recon_status === 'unmatched')
+    ]
+      .sort((a, b) => b.open_time.localeCompare(a.open_time))
+      .slice(0, 200)
+      .map((o) => ({
+        id: o.id,
+        source: o.source,
+        clientId: o.client_id,
+        pair: o.pair,
+        direction: o.direction,
+        status: o.recon_status as OrderReconStatus,
+        openTime: o.open_time,
+        openPrice: o.open_price,
+        closePrice: o.close_price,
+        pnl: o.pnl,
+        ref: o.recon_ref,
+        note: o.recon_note
+      }));
+    return {
+      enabled: config.okx.hasCredentials,
+      running: this.running,
+      useTestnet: this.useTestnet,
+      lastRun: runs[0] ?? null,
+      runs,
+      totals: {
+        exchange: {
+          trades: exchange.length,
+          pnl: round(exchange.reduce((s, o) => s + (o.pnl ?? 0), 0), 2),
+          fees: round(exchange.reduce((s, o) => s + (o.fee ?? 0), 0), 2),
+          funding: round(exchange.reduce((s, o) => s + (o.funding ?? 0), 0), 2)
+        },
+        client: {
+          trades: clientClosed.length,
+          pnl: round(clientClosed.reduce((s, o) => s + (o.pnl ?? 0), 0), 2),
+          matched: client.filter((o) => o.recon_status === 'matched').length,
+          mismatched: client.filter((o) => o.recon_status === 'mismatch').length,
+          unmatched: client.filter((o) => o.recon_status === 'unmatched').length
+        }
+      },
+      issues
+    };
+  }
+
+  private windowStart(now: number, days?: number): number {
+    const earliest = now - MAX_LOOKBACK_DAYS * DAY_MS;
+    if (days != null && Number.isFinite(days) && days > 0) return Math.max(earliest, now - days * DAY_MS);
+    const last = listReconciliationRuns(20).find((r) => r.ok === 1);
+    if (last) return Math.max(earliest, last.started_at - OVERLAP_MS);
+    return now - DEFAULT_LOOKBACK_DAYS * DAY_MS;
+  }
+
+  private async reconcile(since: number, now: number): Promise<ReconciliationSummary> {
+    const exchange = await getTradingExchange(this.useTestnet);
+    const paging = { instType: 'SWAP', paginate: true, paginationCalls: MAX_PAGES };
+    const history = await fetchPositionsHistory(exchange, since);
+    const openPositions = (await exchange.fetchPositions()).filter((p: any) => Math.abs(num(p.contracts)) > 0);
+    const orders = (await exchange.fetchClosedOrders(undefined, since, undefined, paging))
+      .filter((o: any) => num(o.filled) > 0);
+    const fills = await exchange.fetchMyTrades(undefined, since, undefined, paging);
+    const funding = await exchange.fetchFundingHistory(undefined, since, PAGE_LIMIT);
+
+    const contractSize = (symbol: string): number => {
+      try {
+        return exchange.market(symbol)?.contractSize ?? 1;
+      } catch {
+        return 1;
+      }
+    };
+    const orderIds = (symbol: string, from: number, to: number): string[] =>
+      orders
+        .filter((o: any) => {
+          const t = num(o.lastTradeTimestamp ?? o.timestamp);
+          return o.symbol === symbol && t >= from && t <= to;
+        })
+        .map((o: any) => String(o.id));
+    const feesOf = (symbol: string, from: number, to: number): number =>
+      fills
+        .filter((f: any) => f.symbol === symbol && num(f.timestamp) >= from && num(f.timestamp) <= to)
+        .reduce((s: number, f: any) => s - num(f.fee?.cost), 0);
+    const fundingOf = (symbol: string, from: number): number =>
+      funding
+        .filter((f: any) => f.symbol === symbol && num(f.timestamp) >= from)
+        .reduce((s: number, f: any) => s + num(f.amount), 0);
+
+    const rows = new Map<string, Omit<OrderRow, 'created_at' | 'source' | 'recon_status' | 'recon_ref' | 'recon_note'>>();
+    const build = (
+      p: any,
+      status: 'open' | 'closed',
+      fields: { contracts: number; openPrice: number; closePrice: number | null; pnl: number; fee: number; funding: number; closeTime: number | null }
+    ) => {
+      const info = p.info ?? {};
+      const openTime = num(info.cTime) || num(p.timestamp);
+      const leverage = Math.max(1, Math.round(num(info.lever ?? p.leverage)));
+      const size = (fields.contracts * contractSize(p.symbol) * fields.openPrice) / leverage;
+      const dir = String(info.direction ?? p.side).toLowerCase() === 'short' ? 'SHORT' : 'LONG';
+      const id = `okx-${info.posId ?? p.id ?? p.symbol}-${openTime}`;
+      rows.set(id, {
+        id,
+        client_id: EXCHANGE_CLIENT_ID,
+        pair: normalizeSymbol(p.symbol ?? info.instId ?? ''),
+        direction: dir,
+        size: round(size),
+        leverage,
+        open_price: fields.openPrice,
+        close_price: fields.closePrice,
+        stop_loss: null,
+        take_profit: null,
+        pnl: round(fields.pnl),
+        pnl_percent: size > 0 ? round((fields.pnl / size) * 100, 4) : null,
+        open_time: new Date(openTime).toISOString(),
+        close_time: fields.closeTime ? new Date(fields.closeTime).toISOString() : null,
+        status,
+        auto_opened: 0,
+        confidence_at_open: null,
+        fee: round(fields.fee),
+        funding: round(fields.funding),
+        exchange_orders: JSON.stringify(orderIds(p.symbol, openTime, fields.closeTime ?? now))
+      });
+    };
+
+    let realizedPnl = 0;
+    for (const p of history) {
+      const info = p.info ?? {};
+      const pnl = num(info.realizedPnl);
+      realizedPnl += pnl;
+      build(p, 'closed', {
+        contracts: num(info.openMaxPos) || num(info.closeTotalPos),
+        openPrice: num(info.openAvgPx),
+        closePrice: num(info.closeAvgPx) || null,
+        pnl,
+        fee: num(info.fee),
+        funding: num(info.fundingFee),
+        closeTime: num(info.uTime) || null
+      });
+    }
+    // Частично закрытая позиция есть и в истории, и среди открытых — открытая запись важнее
+    for (const p of openPositions) {
+      const info = p.info ?? {};
+      const openTime = num(info.cTime) || num(p.timestamp);
+      build(p, 'open', {
+        contracts: Math.abs(num(p.contracts)),
+        openPrice: num(p.entryPrice),
+        closePrice: null,
+        pnl: num(info.realizedPnl),
+        fee: feesOf(p.symbol, openTime, now),
+        funding: fundingOf(p.symbol, openTime),
+        closeTime: null
+      });
+    }
+    for (const row of rows.values()) saveExchangeOrder(row);
+
+    const match = this.match(since, [...rows.values()].map((r) => r.open_time), now);
+    return {
+      positions: history.length,
+      openPositions: openPositions.length,
+      orders: orders.length,
+      fills: fills.length,
+      fundingEntries: funding.length,
+      ...match,
+      realizedPnl: round(realizedPnl, 4),
+      fees: round(fills.reduce((s: number, f: any) => s - num(f.fee?.cost), 0), 4),
+      funding: round(funding.reduce((s: number, f: any) => s + num(f.amount), 0), 4)
+    };
+  }
+
+  /** Сопоставление клиентских записей со сделками OKX: та же пара и направление, ближайшее время открытия */
+  private match(
+    since: number,
+    upsertedOpenTimes: string[],
+    now: number
+  ): Pick<ReconciliationSummary, 'matched' | 'mismatched' | 'unmatchedClient' | 'unmatchedExchange'> {
+    const earliest = [new Date(since).toISOString(), ...upsertedOpenTimes].sort()[0];
+    const cutoff = new Date(new Date(earliest).getTime() - MATCH_WINDOW_MS).toISOString();
+    // Сделки OKX чуть раньше окна — только кандидаты для клиентских записей на его границе
+    const margin = new Date(new Date(cutoff).getTime() - MATCH_WINDOW_MS).toISOString();
+    const exchangeRows = listOrders({ source: 'exchange', since: margin, limit: Number.MAX_SAFE_INTEGER })
+      .sort((a, b) => a.open_time.localeCompare(b.open_time));
+    const clientRows = listOrders({ source: 'client', since: cutoff, limit: Number.MAX_SAFE_INTEGER });
+    const clientIds = new Set(clientRows.map((c) => c.id));
+    const paired = new Set<string>();
+    const result = { matched: 0, mismatched: 0, unmatchedClient: 0, unmatchedExchange: 0 };
+
+    for (const ex of exchangeRows) {
+      const inMargin = ex.open_time < cutoff;
+      if (inMargin && ex.recon_ref && !clientIds.has(ex.recon_ref)) continue;
+      const t = new Date(ex.open_time).getTime();
+      let best: OrderRow | null = null;
+      let bestDt = Infinity;
+      for (const c of clientRows) {
+        if (paired.has(c.id) || c.direction !== ex.direction || normalizeSymbol(c.pair) !== ex.pair) continue;
+        const dt = Math.abs(new Date(c.open_time).getTime() - t);
+        if (dt <= MATCH_WINDOW_MS && dt < bestDt) {
+          best = c;
+          bestDt = dt;
+        }
+      }
+      if (!best) {
+        if (inMargin) continue;
+        setOrderRecon(ex.id, { status: 'unmatched', ref: null, note: 'Нет записи клиента' });
+        result.unmatchedExchange++;
+        continue;
+      }
+      paired.add(best.id);
+      const notes = compare(best, ex);
+      const status: OrderReconStatus = notes.length ? 'mismatch' : 'matched';
+      const note = notes.length ? notes.join('; ') : null;
+      setOrderRecon(best.id, { status, ref: ex.id, note });
+      setOrderRecon(ex.id, { status, ref: best.id, note });
+      if (notes.length) result.mismatched++;
+      else result.matched++;
+    }
+    // Свежим записям клиента даём время появиться на бирже
+    for (const c of clientRows) {
+      if (paired.has(c.id) || new Date(c.open_time).getTime() > now - MATCH_WINDOW_MS) continue;
+      setOrderRecon(c.id, { status: 'unmatched', ref: null, note: 'Нет сделки на OKX' });
+      result.unmatchedClient++;
+    }
+    return result;
+  }
+}
+
+export const orderReconciler = new OrderReconciler();
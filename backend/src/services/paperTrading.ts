@@ -0,0 +1,839 @@
+/**
+ * Paper Trading — серверная демо-торговля (виртуальные позиции пользователя)
+ * - Счёт, позиции и исполнения — в SQLite (db/index.ts), по пользователю
+ * - Позиции открываются вручную (REST) или автоматически по сигналам (onSignal из websocket.ts)
+ * - SL / TP / trailing / ликвидация проверяются на каждой сделке потока OKX (okxStream.ts);
+ *   авто-закрытие по ROE и лимит времени — после minHoldSec
+ * - События (открытие, закрытие, изменение, марк-цены, счёт) — подписчикам через onEvent → WebSocket
+ */
+
+import {
+  getPaperAccount,
+  listPaperAccounts,
+  savePaperAccount,
+  savePaperPosition,
+  getPaperPosition,
+  listPaperPositions,
+  insertPaperFill,
+  listPaperFills,
+  deletePaperHistory,
+  insertOrder,
+  updateOrderClose,
+  PaperPositionRow,
+  PaperFillRow
+} from '../db';
+import { getOkxStream } from './okxStream';
+import { DataAggregator } from './dataAggregator';
+import { update as updateMlModel } from './onlineMLService';
+import { calcLiquidationPrice } from '../lib/liquidationPrice';
+import { calcPositionSizeFromRisk, MAX_SINGLE_ASSET_PCT } from '../lib/tradingPrinciples';
+import { normalizeSymbol } from '../lib/symbol';
+import { TradingSignal } from '../types/signal';
+import { logger } from '../lib/logger';
+
+export type PaperDirection = 'LONG' | 'SHORT';
+
+export type PaperCloseReason =
+  | 'manual'
+  | 'stop_loss'
+  | 'take_profit'
+  | 'trailing_stop'
+  | 'liquidation'
+  | 'auto_close_tp'
+  | 'auto_close_sl'
+  | 'max_duration'
+  | 'hard_stop';
+
+export interface PaperSettings {
+  /** Открывать позиции по входящим сигналам */
+  autoOpen: boolean;
+  /** Пары для авто-открытия; пусто — любые */
+  symbols: string[];
+  allowedDirections: PaperDirection[];
+  /** Мин. уверенность сигнала, % */
+  minConfidence: number;
+  /** Надбавка к minConfidence для LONG, % */
+  longConfidenceBonus: number;
+  /** Маржа позиции, % баланса */
+  sizePercent: number;
+  /** Риск до стопа, % баланса; 0 — фиксированный sizePercent */
+  riskPercent: number;
+  leverage: number;
+  /** Макс. открытых позиций (всего) */
+  maxPositions: number;
+  /** Суммарная маржа открытых позиций, макс. % баланса */
+  maxLockedPercent: number;
+  /** Пауза между авто-открытиями по одной паре; удваивается после 2 убытков подряд */
+  cooldownSec: number;
+  /** Брать SL/TP из сигнала */
+  useSignalSLTP: boolean;
+  /** Trailing stop: закрытие при откате от экстремума на %, 0 — выкл. */
+  trailingStopPercent: number;
+  /** Макс. время в позиции, часы; 0 — без лимита */
+  maxPositionDurationHours: number;
+  /** Авто-закрытие по ROE (% от маржи) */
+  autoClose: boolean;
+  autoCloseTp: number;
+  autoCloseSl: number;
+  /** Мин. время удержания до авто-закрытия по ROE и времени, сек */
+  minHoldSec: number;
+  /** Дневной убыток (реализованный + нереализованный), % начального баланса: закрыть всё и выключить autoOpen; 0 — выкл. */
+  maxDailyLossPercent: number;
+}
+
+export const DEFAULT_PAPER_SETTINGS: PaperSettings = {
+  autoOpen: false,
+  symbols: [],
+  allowedDirections: ['LONG', 'SHORT'],
+  minConfidence: 80,
+  longConfidenceBonus: 8,
+  sizePercent: 5,
+  riskPercent: 0,
+  leverage: 5,
+  maxPositions: 3,
+  maxLockedPercent: 50,
+  cooldownSec: 300,
+  useSignalSLTP: true,
+  trailingStopPercent: 0,
+  maxPositionDurationHours: 24,
+  autoClose: false,
+  autoCloseTp: 2,
+  autoCloseSl: 1.5,
+  minHoldSec: 60,
+  maxDailyLossPercent: 0
+};
+
+export const PAPER_INITIAL_BALANCE = 10000;
+export const PAPER_MAX_LEVERAGE = 100;
+
+export interface PaperPosition {
+  id: string;
+  symbol: string;
+  direction: PaperDirection;
+  status: 'open' | 'closed';
+  /** Маржа, USDT */
+  margin: number;
+  leverage: number;
+  entryPrice: number;
+  /** Объём в базовой валюте */
+  qty: number;
+  stopLoss: number | null;
+  takeProfit: number[];
+  trailingStopPct: number;
+  highWater: number;
+  lowWater: number;
+  lastPrice: number;
+  liquidationPrice: number;
+  /** Комиссии (открытие + закрытие), USDT */
+  fees: number;
+  signalId: string | null;
+  confidence: number | null;
+  autoOpened: boolean;
+  /** Нереализованный PnL по lastPrice (без комиссии закрытия) */
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  closePrice: number | null;
+  pnl: number | null;
+  pnlPercent: number | null;
+  closeReason: PaperCloseReason | null;
+  openTime: number;
+  closeTime: number | null;
+}
+
+export interface PaperAccount {
+  balance: number;
+  initialBalance: number;
+  /** balance + маржа + нереализованный PnL */
+  equity: number;
+  lockedMargin: number;
+  unrealizedPnl: number;
+  openPositions: number;
+  settings: PaperSettings;
+}
+
+export interface PaperFill {
+  id: number;
+  positionId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  price: number;
+  qty: number;
+  fee: number;
+  reason: string;
+  time: number;
+}
+
+export interface PaperMark {
+  id: string;
+  lastPrice: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+}
+
+export type PaperEvent =
+  | { type: 'paper_position_opened' | 'paper_position_updated' | 'paper_position_closed'; userId: string; data: PaperPosition }
+  | { type: 'paper_account'; userId: string; data: PaperAccount }
+  | { type: 'paper_marks'; userId: string; data: PaperMark[] }
+  | { type: 'paper_hard_stop'; userId: string; data: { lossPct: number; closed: number } };
+
+export interface OpenPaperPositionInput {
+  symbol: string;
+  direction: PaperDirection;
+  /** Маржа, USDT; иначе sizePercent от баланса */
+  margin?: number;
+  sizePercent?: number;
+  leverage?: number;
+  stopLoss?: number | null;
+  takeProfit?: number[] | null;
+  trailingStopPct?: number;
+  /** Цена, если нет потока (например entry_price сигнала) */
+  price?: number;
+  signal?: TradingSignal;
+  autoOpened?: boolean;
+}
+
+export type PaperResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+/** Taker fee OKX futures ~0.05% */
+const TAKER_FEE = 0.0005;
+const MARK_INTERVAL_MS = 1000;
+/** Водяные знаки / lastPrice пишутся в БД не чаще */
+const PERSIST_INTERVAL_MS = 5000;
+const LOSS_STREAK_FOR_LONG_COOLDOWN = 2;
+const LONG_COOLDOWN_MIN_SEC = 900;
+const MAX_LIST_LIMIT = 500;
+
+function parseSettings(raw: string | null | undefined): PaperSettings {
+  try {
+    return sanitizeSettings({ ...DEFAULT_PAPER_SETTINGS, ...(raw ? JSON.parse(raw) : {}) });
+  } catch {
+    return { ...DEFAULT_PAPER_SETTINGS };
+  }
+}
+
+function clampNum(v: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+/** Нормализация настроек (PUT /api/paper/settings присылает частичный объект) */
+export function sanitizeSettings(s: Partial<PaperSettings>): PaperSettings {
+  const d = DEFAULT_PAPER_SETTINGS;
+  const dirs = Array.isArray(s.allowedDirections)
+    ? s.allowedDirections.filter((x): x is PaperDirection => x === 'LONG' || x === 'SHORT')
+    : d.allowedDirections;
+  return {
+    autoOpen: s.autoOpen === true,
+    symbols: Array.isArray(s.symbols) ? [...new Set(s.symbols.map((x) => normalizeSymbol(String(x))).filter(Boolean))] : [],
+    allowedDirections: dirs.length ? [...new Set(dirs)] : d.allowedDirections,
+    minConfidence: clampNum(s.minConfidence, 0, 100, d.minConfidence),
+    longConfidenceBonus: clampNum(s.longConfidenceBonus, 0, 50, d.longConfidenceBonus),
+    sizePercent: clampNum(s.sizePercent, 0.1, 100, d.sizePercent),
+    riskPercent: clampNum(s.riskPercent, 0, 10, d.riskPercent),
+    leverage: Math.round(clampNum(s.leverage, 1, PAPER_MAX_LEVERAGE, d.leverage)),
+    maxPositions: Math.round(clampNum(s.maxPositions, 1, 50, d.maxPositions)),
+    maxLockedPercent: clampNum(s.maxLockedPercent, 1, 100, d.maxLockedPercent),
+    cooldownSec: clampNum(s.cooldownSec, 0, 86400, d.cooldownSec),
+    useSignalSLTP: s.useSignalSLTP !== false,
+    trailingStopPercent: clampNum(s.trailingStopPercent, 0, 50, d.trailingStopPercent),
+    maxPositionDurationHours: clampNum(s.maxPositionDurationHours, 0, 24 * 30, d.maxPositionDurationHours),
+    autoClose: s.autoClose === true,
+    autoCloseTp: clampNum(s.autoCloseTp, 0.1, 1000, d.autoCloseTp),
+    autoCloseSl: clampNum(s.autoCloseSl, 0.1, 1000, d.autoCloseSl),
+    minHoldSec: clampNum(s.minHoldSec, 0, 86400, d.minHoldSec),
+    maxDailyLossPercent: clampNum(s.maxDailyLossPercent, 0, 100, d.maxDailyLossPercent)
+  };
+}
+
+function parseLevels(raw: string | null): number[] {
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    return Array.isArray(arr) ? arr.map(Number).filter((n) => Number.isFinite(n) && n > 0) : [];
+  } catch {
+    return [];
+  }
+}
+
+function sideSign(direction: PaperDirection): number {
+  return direction === 'LONG' ? 1 : -1;
+}
+
+function grossPnl(p: PaperPositionRow, price: number): number {
+  return sideSign(p.direction) * (price - p.entry_price) * p.qty;
+}
+
+function toPosition(p: PaperPositionRow): PaperPosition {
+  const unrealized = p.status === 'open' ? grossPnl(p, p.last_price) : 0;
+  return {
+    id: p.id,
+    symbol: p.symbol,
+    direction: p.direction,
+    status: p.status,
+    margin: p.margin,
+    leverage: p.leverage,
+    entryPrice: p.entry_price,
+    qty: p.qty,
+    stopLoss: p.stop_loss,
+    takeProfit: parseLevels(p.take_profit),
+    trailingStopPct: p.trailing_stop_pct,
+    highWater: p.high_water,
+    lowWater: p.low_water,
+    lastPrice: p.last_price,
+    liquidationPrice: p.leverage > 1 ? calcLiquidationPrice(p.entry_price, p.leverage, p.direction) : 0,
+    fees: p.fees,
+    signalId: p.signal_id,
+    confidence: p.confidence,
+    autoOpened: p.auto_opened === 1,
+    unrealizedPnl: unrealized,
+    unrealizedPnlPercent: p.margin > 0 ? (unrealized / p.margin) * 100 : 0,
+    closePrice: p.close_price,
+    pnl: p.pnl,
+    pnlPercent: p.pnl_percent,
+    closeReason: p.close_reason as PaperCloseReason | null,
+    openTime: p.open_time,
+    closeTime: p.close_time
+  };
+}
+
+function toFill(f: PaperFillRow): PaperFill {
+  return {
+    id: f.id ?? 0,
+    positionId: f.position_id,
+    symbol: f.symbol,
+    side: f.side,
+    price: f.price,
+    qty: f.qty,
+    fee: f.fee,
+    reason: f.reason,
+    time: f.time
+  };
+}
+
+function startOfUtcDay(ts: number): number {
+  const d = new Date(ts);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+export class PaperTradingEngine {
+  /** Открытые позиции всех пользователей (кэш; источник истины — БД) */
+  private open = new Map<string, PaperPositionRow>();
+  private streams = new Map<string, () => void>();
+  private lastPrices = new Map<string, number>();
+  private listeners = new Set<(e: PaperEvent) => void>();
+  /** `${userId}:${symbol}` → время последнего авто-открытия */
+  private lastAutoOpen = new Map<string, number>();
+  private settingsByUser = new Map<string, { settings: PaperSettings; at: number }>();
+  /** Позиции с изменённой lastPrice — для марок и записи в БД */
+  private marked = new Set<string>();
+  private unsaved = new Set<string>();
+  private closing = new Set<string>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastPersist = 0;
+  private dataAgg: DataAggregator | null = null;
+
+  /** Восстановить открытые позиции и подписки на потоки (при старте сервера) */
+  init(): void {
+    if (this.timer) return;
+    for (const row of listPaperPositions({ status: 'open', limit: Number.MAX_SAFE_INTEGER })) {
+      this.open.set(row.id, row);
+      this.ensureStream(row.symbol);
+    }
+    this.timer = setInterval(() => this.tick(), MARK_INTERVAL_MS);
+    this.timer.unref?.();
+    if (this.open.size) logger.info('PaperTrading', `Restored ${this.open.size} open positions`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.persistMarks();
+    this.streams.forEach((unsub) => unsub());
+    this.streams.clear();
+  }
+
+  onEvent(listener: (e: PaperEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(event: PaperEvent): void {
+    this.listeners.forEach((cb) => {
+      try {
+        cb(event);
+      } catch (e) {
+        logger.warn('PaperTrading', 'Event listener failed', { error: (e as Error).message });
+      }
+    });
+  }
+
+  // ——— Счёт ———
+
+  private loadAccount(userId: string): { balance: number; initialBalance: number; settings: PaperSettings } {
+    const row = getPaperAccount(userId);
+    if (row) return { balance: row.balance, initialBalance: row.initial_balance, settings: parseSettings(row.settings) };
+    const fresh = { balance: PAPER_INITIAL_BALANCE, initialBalance: PAPER_INITIAL_BALANCE, settings: { ...DEFAULT_PAPER_SETTINGS } };
+    this.storeAccount(userId, fresh);
+    return fresh;
+  }
+
+  private storeAccount(userId: string, acc: { balance: number; initialBalance: number; settings: PaperSettings }): void {
+    savePaperAccount({
+      user_id: userId,
+      balance: acc.balance,
+      initial_balance: acc.initialBalance,
+      settings: JSON.stringify(acc.settings)
+    });
+  }
+
+  private userOpen(userId: string): PaperPositionRow[] {
+    return [...this.open.values()].filter((p) => p.user_id === userId);
+  }
+
+  getAccount(userId: string): PaperAccount {
+    const acc = this.loadAccount(userId);
+    const open = this.userOpen(userId);
+    const lockedMargin = open.reduce((s, p) => s + p.margin, 0);
+    const unrealizedPnl = open.reduce((s, p) => s + grossPnl(p, p.last_price), 0);
+    return {
+      balance: acc.balance,
+      initialBalance: acc.initialBalance,
+      equity: acc.balance + lockedMargin + unrealizedPnl,
+      lockedMargin,
+      unrealizedPnl,
+      openPositions: open.length,
+      settings: acc.settings
+    };
+  }
+
+  private emitAccount(userId: string): void {
+    this.emit({ type: 'paper_account', userId, data: this.getAccount(userId) });
+  }
+
+  updateSettings(userId: string, patch: Partial<PaperSettings>): PaperSettings {
+    const acc = this.loadAccount(userId);
+    acc.settings = sanitizeSettings({ ...acc.settings, ...patch });
+    this.storeAccount(userId, acc);
+    this.settingsByUser.delete(userId);
+    this.emitAccount(userId);
+    return acc.settings;
+  }
+
+  /** Сброс: открытые позиции снимаются без записи в историю, история и исполнения удаляются */
+  resetAccount(userId: string, initialBalance = PAPER_INITIAL_BALANCE): PaperAccount {
+    for (const p of this.userOpen(userId)) {
+      this.open.delete(p.id);
+      this.marked.delete(p.id);
+      this.unsaved.delete(p.id);
+      this.releaseStream(p.symbol);
+    }
+    deletePaperHistory(userId);
+    for (const key of [...this.lastAutoOpen.keys()]) if (key.startsWith(`${userId}:`)) this.lastAutoOpen.delete(key);
+    const acc = this.loadAccount(userId);
+    this.storeAccount(userId, { ...acc, balance: initialBalance, initialBalance });
+    this.emitAccount(userId);
+    return this.getAccount(userId);
+  }
+
+  // ——— Позиции ———
+
+  listPositions(userId: string, opts?: { status?: 'open' | 'closed'; limit?: number }): PaperPosition[] {
+    const limit = Math.min(Math.max(opts?.limit ?? 100, 1), MAX_LIST_LIMIT);
+    if (opts?.status === 'open') {
+      return this.userOpen(userId).sort((a, b) => b.open_time - a.open_time).slice(0, limit).map(toPosition);
+    }
+    return listPaperPositions({ userId, status: opts?.status, limit }).map((row) => toPosition(this.open.get(row.id) ?? row));
+  }
+
+  getPosition(userId: string, id: string): PaperPosition | null {
+    const row = this.open.get(id) ?? getPaperPosition(id);
+    return row && row.user_id === userId ? toPosition(row) : null;
+  }
+
+  listFills(userId: string, limit = 100): PaperFill[] {
+    return listPaperFills(userId, Math.min(Math.max(limit, 1), MAX_LIST_LIMIT)).map(toFill);
+  }
+
+  private async resolvePrice(symbol: string, fallback?: number): Promise<number> {
+    const live = this.lastPrices.get(symbol);
+    if (live && live > 0) return live;
+    if (fallback && Number.isFinite(fallback) && fallback > 0) return fallback;
+    if (!this.dataAgg) this.dataAgg = new DataAggregator();
+    try {
+      return await this.dataAgg.getCurrentPrice(symbol);
+    } catch {
+      return 0;
+    }
+  }
+
+  async openPosition(userId: string, input: OpenPaperPositionInput): Promise<PaperResult<PaperPosition>> {
+    const symbol = normalizeSymbol(input.symbol);
+    if (!symbol) return { ok: false, error: 'symbol is required' };
+    if (input.direction !== 'LONG' && input.direction !== 'SHORT') return { ok: false, error: 'direction must be LONG or SHORT' };
+    const acc = this.loadAccount(userId);
+    const leverage = Math.round(clampNum(input.leverage ?? acc.settings.leverage, 1, PAPER_MAX_LEVERAGE, 1));
+    const price = await this.resolvePrice(symbol, input.price);
+    if (!(price > 0)) return { ok: false, error: `No price for ${symbol}` };
+
+    const margin = input.margin != null ? Number(input.margin) : (acc.balance * (input.sizePercent ?? acc.settings.sizePercent)) / 100;
+    if (!Number.isFinite(margin) || margin <= 0) return { ok: false, error: 'Position size must be positive' };
+    const notional = margin * leverage;
+    const fee = notional * TAKER_FEE;
+    if (margin + fee > acc.balance) return { ok: false, error: 'Insufficient paper balance' };
+
+    const stopLoss = input.stopLoss != null && input.stopLoss > 0 ? input.stopLoss : null;
+    const takeProfit = (input.takeProfit ?? []).map(Number).filter((n) => Number.isFinite(n) && n > 0);
+    const now = Date.now();
+    const row: PaperPositionRow = {
+      id: `paper_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      user_id: userId,
+      symbol,
+      direction: input.direction,
+      status: 'open',
+      margin,
+      leverage,
+      entry_price: price,
+      qty: notional / price,
+      stop_loss: stopLoss,
+      take_profit: takeProfit.length ? JSON.stringify(takeProfit) : null,
+      trailing_stop_pct: clampNum(input.trailingStopPct ?? acc.settings.trailingStopPercent, 0, 50, 0),
+      high_water: price,
+      low_water: price,
+      last_price: price,
+      fees: fee,
+      signal_id: input.signal?.id ?? null,
+      confidence: typeof input.signal?.confidence === 'number' ? input.signal.confidence : null,
+      auto_opened: input.autoOpened ? 1 : 0,
+      close_price: null,
+      pnl: null,
+      pnl_percent: null,
+      close_reason: null,
+      open_time: now,
+      close_time: null
+    };
+
+    acc.balance -= margin + fee;
+    this.storeAccount(userId, acc);
+    savePaperPosition(row);
+    insertPaperFill({
+      position_id: row.id,
+      user_id: userId,
+      symbol,
+      side: row.direction === 'LONG' ? 'buy' : 'sell',
+      price,
+      qty: row.qty,
+      fee,
+      reason: input.autoOpened ? 'signal' : 'open',
+      time: now
+    });
+    try {
+      insertOrder({
+        id: row.id,
+        clientId: userId,
+        pair: symbol,
+        direction: row.direction,
+        size: margin,
+        leverage,
+        openPrice: price,
+        stopLoss: stopLoss ?? undefined,
+        takeProfit: takeProfit.length ? takeProfit : undefined,
+        openTime: new Date(now).toISOString(),
+        status: 'open',
+        autoOpened: Boolean(input.autoOpened),
+        confidenceAtOpen: row.confidence ?? undefined
+      });
+    } catch (e) {
+      logger.warn('PaperTrading', 'Order journal insert failed', { error: (e as Error).message });
+    }
+
+    this.open.set(row.id, row);
+    this.ensureStream(symbol);
+    const position = toPosition(row);
+    this.emit({ type: 'paper_position_opened', userId, data: position });
+    this.emitAccount(userId);
+    logger.info('PaperTrading', `Open ${symbol} ${row.direction} ${leverage}x margin=${margin.toFixed(2)} @ ${price}`, { userId });
+    return { ok: true, data: position };
+  }
+
+  /** Изменить SL / TP / trailing открытой позиции; null — снять */
+  updatePosition(
+    userId: string,
+    id: string,
+    patch: { stopLoss?: number | null; takeProfit?: number[] | null; trailingStopPct?: number }
+  ): PaperResult<PaperPosition> {
+    const row = this.open.get(id);
+    if (!row || row.user_id !== userId) return { ok: false, error: 'Open position not found' };
+    if (patch.stopLoss !== undefined) row.stop_loss = patch.stopLoss != null && patch.stopLoss > 0 ? patch.stopLoss : null;
+    if (patch.takeProfit !== undefined) {
+      const levels = (patch.takeProfit ?? []).map(Number).filter((n) => Number.isFinite(n) && n > 0);
+      row.take_profit = levels.length ? JSON.stringify(levels) : null;
+    }
+    if (patch.trailingStopPct !== undefined) row.trailing_stop_pct = clampNum(patch.trailingStopPct, 0, 50, 0);
+    savePaperPosition(row);
+    this.unsaved.delete(id);
+    const position = toPosition(row);
+    this.emit({ type: 'paper_position_updated', userId, data: position });
+    return { ok: true, data: position };
+  }
+
+  /** Ручное закрытие по последней цене потока */
+  closePositionById(userId: string, id: string): PaperResult<PaperPosition> {
+    const row = this.open.get(id);
+    if (!row || row.user_id !== userId) return { ok: false, error: 'Open position not found' };
+    const position = this.closePosition(row, this.lastPrices.get(row.symbol) ?? row.last_price, 'manual');
+    return position ? { ok: true, data: position } : { ok: false, error: 'Position is already closing' };
+  }
+
+  private closePosition(row: PaperPositionRow, price: number, reason: PaperCloseReason): PaperPosition | null {
+    if (this.closing.has(row.id) || !this.open.has(row.id)) return null;
+    this.closing.add(row.id);
+    try {
+      const now = Date.now();
+      const liquidated = reason === 'liquidation';
+      const gross = liquidated ? -row.margin : grossPnl(row, price);
+      const closeFee = liquidated ? 0 : price * row.qty * TAKER_FEE;
+      row.fees += closeFee;
+      row.status = 'closed';
+      row.last_price = price;
+      row.close_price = price;
+      row.pnl = gross - row.fees;
+      row.pnl_percent = row.margin > 0 ? (row.pnl / row.margin) * 100 : 0;
+      row.close_reason = reason;
+      row.close_time = now;
+
+      const acc = this.loadAccount(row.user_id);
+      acc.balance += Math.max(0, row.margin + gross - closeFee);
+      this.storeAccount(row.user_id, acc);
+      savePaperPosition(row);
+      insertPaperFill({
+        position_id: row.id,
+        user_id: row.user_id,
+        symbol: row.symbol,
+        side: row.direction === 'LONG' ? 'sell' : 'buy',
+        price,
+        qty: row.qty,
+        fee: closeFee,
+        reason,
+        time: now
+      });
+      try {
+        updateOrderClose({ id: row.id, closePrice: price, pnl: row.pnl, pnlPercent: row.pnl_percent, closeTime: new Date(now).toISOString() });
+      } catch (e) {
+        logger.warn('PaperTrading', 'Order journal update failed', { error: (e as Error).message });
+      }
+      this.learn(row);
+
+      this.open.delete(row.id);
+      this.marked.delete(row.id);
+      this.unsaved.delete(row.id);
+      this.releaseStream(row.symbol);
+      const position = toPosition(row);
+      this.emit({ type: 'paper_position_closed', userId: row.user_id, data: position });
+      this.emitAccount(row.user_id);
+      logger.info('PaperTrading', `Close ${row.symbol} ${row.direction} (${reason}) pnl=${row.pnl.toFixed(2)}`, { userId: row.user_id });
+      return position;
+    } finally {
+      this.closing.delete(row.id);
+    }
+  }
+
+  /** Исход сделки → онлайн-модель (как POST /api/ml/trade-outcome) */
+  private learn(row: PaperPositionRow): void {
+    if (row.confidence == null) return;
+    const tp = parseLevels(row.take_profit)[0];
+    const risk = row.stop_loss ? Math.abs(row.entry_price - row.stop_loss) : 0;
+    updateMlModel(
+      {
+        confidence: row.confidence,
+        direction: row.direction === 'LONG' ? 1 : 0,
+        riskReward: risk > 0 && tp ? Math.abs(tp - row.entry_price) / risk : 1,
+        triggersCount: 0
+      },
+      (row.pnl ?? 0) > 0
+    );
+  }
+
+  // ——— Сигналы ———
+
+  /** Авто-открытие по сигналу для всех счетов с autoOpen */
+  async onSignal(signal: TradingSignal, breakdown?: unknown): Promise<void> {
+    const symbol = normalizeSymbol(signal?.symbol ?? '');
+    if (!symbol || (signal.direction !== 'LONG' && signal.direction !== 'SHORT')) return;
+    const userIds = listAutoOpenUsers();
+    const isTestSignal = Array.isArray(signal.triggers) && signal.triggers.includes('test_signal');
+    const volMult = Number((breakdown as { volatilityMultiplier?: number } | undefined)?.volatilityMultiplier) || 1;
+    for (const userId of userIds) {
+      const acc = this.loadAccount(userId);
+      const s = acc.settings;
+      if (!s.autoOpen) continue;
+      if (s.symbols.length && !s.symbols.includes(symbol) && !isTestSignal) continue;
+      if (!s.allowedDirections.includes(signal.direction)) continue;
+      const minConf = s.minConfidence + (signal.direction === 'LONG' ? s.longConfidenceBonus : 0);
+      if ((signal.confidence ?? 0) * 100 < minConf) continue;
+
+      const open = this.userOpen(userId);
+      if (open.some((p) => p.symbol === symbol)) continue;
+      if (open.length >= s.maxPositions) continue;
+      const locked = open.reduce((sum, p) => sum + p.margin, 0);
+      if (locked >= acc.balance * (s.maxLockedPercent / 100)) continue;
+
+      const key = `${userId}:${symbol}`;
+      const now = Date.now();
+      if (!isTestSignal && now - (this.lastAutoOpen.get(key) ?? 0) < this.cooldownMs(userId, s)) continue;
+
+      let margin = (acc.balance * s.sizePercent) / 100;
+      if (s.riskPercent > 0 && signal.stop_loss > 0 && signal.entry_price > 0) {
+        const { sizeUsd } = calcPositionSizeFromRisk(acc.balance, signal.entry_price, signal.stop_loss, s.riskPercent / 100);
+        if (sizeUsd > 0) margin = sizeUsd;
+      }
+      margin = Math.min(margin * volMult, acc.balance * MAX_SINGLE_ASSET_PCT);
+
+      this.lastAutoOpen.set(key, now);
+      const result = await this.openPosition(userId, {
+        symbol,
+        direction: signal.direction,
+        margin,
+        leverage: s.leverage,
+        stopLoss: s.useSignalSLTP ? signal.stop_loss : null,
+        takeProfit: s.useSignalSLTP ? signal.take_profit : null,
+        price: signal.entry_price,
+        signal,
+        autoOpened: true
+      });
+      if (!result.ok) logger.debug('PaperTrading', `Auto-open skipped: ${result.error}`, { userId, symbol });
+    }
+  }
+
+  /** Пауза между авто-открытиями; после серии убытков — длиннее */
+  private cooldownMs(userId: string, s: PaperSettings): number {
+    const recent = listPaperPositions({ userId, status: 'closed', limit: LOSS_STREAK_FOR_LONG_COOLDOWN });
+    const streak = recent.length >= LOSS_STREAK_FOR_LONG_COOLDOWN && recent.every((p) => (p.pnl ?? 0) < 0);
+    const sec = streak ? Math.max(s.cooldownSec * 2, LONG_COOLDOWN_MIN_SEC) : s.cooldownSec;
+    return sec * 1000;
+  }
+
+  // ——— Цены ———
+
+  private ensureStream(symbol: string): void {
+    if (this.streams.has(symbol)) return;
+    const unsub = getOkxStream(symbol).subscribe('trade', (data) => {
+      const price = Number((data as { price?: number }).price);
+      if (price > 0) this.onPrice(symbol, price);
+    });
+    this.streams.set(symbol, unsub);
+  }
+
+  private releaseStream(symbol: string): void {
+    if ([...this.open.values()].some((p) => p.symbol === symbol)) return;
+    this.streams.get(symbol)?.();
+    this.streams.delete(symbol);
+  }
+
+  /** Сделка потока: обновить марк-цену и проверить условия выхода (публичный — для тестовых/офлайн лент) */
+  onPrice(symbol: string, price: number, time = Date.now()): void {
+    this.lastPrices.set(symbol, price);
+    for (const row of [...this.open.values()]) {
+      if (row.symbol !== symbol) continue;
+      row.last_price = price;
+      row.high_water = Math.max(row.high_water, price);
+      row.low_water = Math.min(row.low_water, price);
+      this.marked.add(row.id);
+      this.unsaved.add(row.id);
+      const exit = this.checkExit(row, price, time);
+      if (exit) this.closePosition(row, exit.price, exit.reason);
+    }
+  }
+
+  private checkExit(row: PaperPositionRow, price: number, time: number): { price: number; reason: PaperCloseReason } | null {
+    const isLong = row.direction === 'LONG';
+    const liq = row.leverage > 1 ? calcLiquidationPrice(row.entry_price, row.leverage, row.direction) : 0;
+    if (liq > 0 && (isLong ? price <= liq : price >= liq)) return { price: liq, reason: 'liquidation' };
+    if (row.stop_loss && (isLong ? price <= row.stop_loss : price >= row.stop_loss)) return { price, reason: 'stop_loss' };
+    const tps = parseLevels(row.take_profit);
+    if (tps.some((tp) => (isLong ? price >= tp : price <= tp))) return { price, reason: 'take_profit' };
+    if (row.trailing_stop_pct > 0) {
+      const trail = row.trailing_stop_pct / 100;
+      const hit = isLong
+        ? row.high_water > row.entry_price && (row.high_water - price) / row.high_water >= trail
+        : row.low_water < row.entry_price && (price - row.low_water) / row.low_water >= trail;
+      if (hit) return { price, reason: 'trailing_stop' };
+    }
+
+    const s = this.settingsCache(row.user_id);
+    const holdSec = (time - row.open_time) / 1000;
+    if (holdSec < s.minHoldSec) return null;
+    if (s.maxPositionDurationHours > 0 && holdSec / 3600 > s.maxPositionDurationHours) return { price, reason: 'max_duration' };
+    if (s.autoClose) {
+      const roe = row.margin > 0 ? (grossPnl(row, price) / row.margin) * 100 : 0;
+      if (roe >= s.autoCloseTp) return { price, reason: 'auto_close_tp' };
+      if (roe <= -s.autoCloseSl) return { price, reason: 'auto_close_sl' };
+    }
+    return null;
+  }
+
+  /** Настройки для проверки выходов на каждой сделке — без чтения БД на каждый тик */
+  private settingsCache(userId: string): PaperSettings {
+    const cached = this.settingsByUser.get(userId);
+    if (cached && Date.now() - cached.at < MARK_INTERVAL_MS) return cached.settings;
+    const settings = this.loadAccount(userId).settings;
+    this.settingsByUser.set(userId, { settings, at: Date.now() });
+    return settings;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const byUser = new Map<string, PaperMark[]>();
+    for (const id of this.marked) {
+      const row = this.open.get(id);
+      if (!row) continue;
+      const pos = toPosition(row);
+      const marks = byUser.get(row.user_id) ?? [];
+      marks.push({ id, lastPrice: pos.lastPrice, unrealizedPnl: pos.unrealizedPnl, unrealizedPnlPercent: pos.unrealizedPnlPercent });
+      byUser.set(row.user_id, marks);
+    }
+    this.marked.clear();
+    byUser.forEach((marks, userId) => {
+      this.emit({ type: 'paper_marks', userId, data: marks });
+      this.checkDailyLoss(userId, now);
+    });
+    if (now - this.lastPersist >= PERSIST_INTERVAL_MS) this.persistMarks();
+  }
+
+  private persistMarks(): void {
+    this.lastPersist = Date.now();
+    for (const id of this.unsaved) {
+      const row = this.open.get(id);
+      if (row) savePaperPosition(row);
+    }
+    this.unsaved.clear();
+  }
+
+  /** Hard stop: дневной убыток ≥ maxDailyLossPercent → закрыть всё, выключить autoOpen */
+  private checkDailyLoss(userId: string, now: number): void {
+    const s = this.settingsCache(userId);
+    if (s.maxDailyLossPercent <= 0) return;
+    const dayStart = startOfUtcDay(now);
+    const realized = listPaperPositions({ userId, status: 'closed', limit: MAX_LIST_LIMIT })
+      .filter((p) => (p.close_time ?? 0) >= dayStart)
+      .reduce((sum, p) => sum + (p.pnl ?? 0), 0);
+    const open = this.userOpen(userId);
+    const unrealized = open.reduce((sum, p) => sum + grossPnl(p, p.last_price), 0);
+    const acc = this.loadAccount(userId);
+    const lossPct = acc.initialBalance > 0 ? ((realized + unrealized) / acc.initialBalance) * 100 : 0;
+    if (lossPct > -s.maxDailyLossPercent) return;
+    for (const row of open) this.closePosition(row, row.last_price, 'hard_stop');
+    if (acc.settings.autoOpen) this.updateSettings(userId, { autoOpen: false });
+    this.emit({ type: 'paper_hard_stop', userId, data: { lossPct, closed: open.length } });
+    logger.warn('PaperTrading', `Hard stop: daily loss ${lossPct.toFixed(2)}%`, { userId });
+  }
+}
+
+/** Пользователи с включённым авто-открытием */
+function listAutoOpenUsers(): string[] {
+  return listPaperAccounts()
+    .filter((row) => parseSettings(row.settings).autoOpen)
+    .map((row) => row.user_id);
+}
+
+/** Общий экземпляр для API, WebSocket и сигналов */
+export const paperTrading = new PaperTradingEngine();
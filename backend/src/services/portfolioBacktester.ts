@@ -0,0 +1,292 @@
+/**
+ * Portfolio backtester — корзина символов на общем балансе
+ * Входы по каждому символу — как в runBacktest (prepareBacktest), но открытие позиции проходит
+ * те же фильтры, что и live: RiskController (maxPositionsTotal / maxPositionsPerSymbol / maxDailyTrades)
+ * и EmotionalFilter (cooldown после серии убытков, дневной drawdown). Часы обоих — время бара.
+ * Отчёт: общая кривая капитала, вклад каждого символа, корреляция дневных доходностей по символам.
+ */
+
+import { OHLCVCandle } from '../types/candle';
+import {
+  prepareBacktest,
+  simulateTrade,
+  tradeSharpe,
+  BacktestParams,
+  BacktestMarketData,
+  BacktestTrade,
+  BacktestSetup,
+  BacktestCostModel,
+  BacktestExitPolicy,
+  PipelineSignalCache
+} from './backtester';
+import { TIMEFRAME_MS, MtfTimeframe } from './analysisPipeline';
+import { RiskController, RiskConfig } from '../lib/riskController';
+import { EmotionalFilter } from './emotionalFilter';
+import { computeBacktestStats, BacktestStats } from './backtestRobustness';
+
+export interface PortfolioSymbolData {
+  symbol: string;
+  candles: OHLCVCandle[];
+  data?: BacktestMarketData;
+}
+
+export interface EmotionalFilterOptions {
+  cooldownMs?: number;
+  maxLossStreak?: number;
+  maxDailyDrawdownPct?: number;
+}
+
+export interface PortfolioBacktestParams extends Omit<Partial<BacktestParams>, 'symbol'> {
+  risk?: Partial<RiskConfig>;
+  emotional?: EmotionalFilterOptions;
+}
+
+export interface PortfolioTrade extends BacktestTrade {
+  symbol: string;
+}
+
+export interface SymbolContribution {
+  symbol: string;
+  trades: number;
+  wins: number;
+  winrate: number;
+  pnl: number;
+  /** Доля в общем PnL, % (знак — направление вклада) */
+  contributionPct: number;
+  fees: number;
+}
+
+export interface PortfolioBacktestResult {
+  symbols: string[];
+  timeframe: string;
+  strategy: string;
+  exitPolicy: BacktestExitPolicy;
+  costModel: BacktestCostModel;
+  risk: RiskConfig;
+  initialBalance: number;
+  finalBalance: number;
+  totalPnl: number;
+  totalPnlPct: number;
+  totalFees: number;
+  trades: PortfolioTrade[];
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winrate: number;
+  profitFactor: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+  stats: BacktestStats;
+  /** Максимум одновременно открытых позиций */
+  maxConcurrent: number;
+  /** Отклонённые сигналы по причине (risk / emotional / margin) */
+  skipped: Record<string, number>;
+  perSymbol: SymbolContribution[];
+  /** Корреляция Пирсона дневных PnL символов (в порядке symbols) */
+  correlation: { symbols: string[]; matrix: number[][] };
+  equityCurve: { time: number; balance: number }[];
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+function pearson(a: number[], b: number[]): number {
+  const n = a.length;
+  if (n < 2) return 0;
+  const ma = a.reduce((s, v) => s + v, 0) / n;
+  const mb = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0;
+  let va = 0;
+  let vb = 0;
+  for (let k = 0; k < n; k++) {
+    cov += (a[k] - ma) * (b[k] - mb);
+    va += (a[k] - ma) ** 2;
+    vb += (b[k] - mb) ** 2;
+  }
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : 0;
+}
+
+/** Причина отказа RiskController → ключ счётчика (без чисел) */
+function reasonKey(reason: string | undefined, fallback: string): string {
+  return (reason ?? fallback).split(/[:(.]/)[0].trim() || fallback;
+}
+
+export async function runPortfolioBacktest(
+  basket: PortfolioSymbolData[],
+  params: PortfolioBacktestParams = {},
+  signalCaches: Map<string, PipelineSignalCache> = new Map()
+): Promise<PortfolioBacktestResult> {
+  const initialBalance = params.initialBalance ?? 100;
+  let clock = 0;
+  const now = () => clock;
+  const risk = new RiskController(params.risk, now);
+  const riskConfig = risk.getConfig();
+  // По умолчанию маржа делится между maxPositionsTotal позициями
+  const costs = { sizePercent: 100 / Math.max(1, riskConfig.maxPositionsTotal), ...params.costs };
+
+  const setups: { symbol: string; setup: BacktestSetup }[] = basket
+    .filter((b) => b.candles.length)
+    .map((b) => ({
+      symbol: b.symbol,
+      setup: prepareBacktest(b.candles, { ...params, symbol: b.symbol, costs }, b.data ?? {}, signalCaches.get(b.symbol))
+    }));
+  if (!setups.length) throw new Error('Portfolio backtest: no candle data');
+  const first = setups[0].setup;
+  const timeframe = first.timeframe;
+  const tfMs = TIMEFRAME_MS[timeframe as MtfTimeframe] ?? 0;
+
+  // Единая шкала: закрытия баров всех символов
+  const events = new Map<number, { symbol: string; setup: BacktestSetup; i: number }[]>();
+  for (const { symbol, setup } of setups) {
+    for (let i = setup.startBar; i < setup.candles.length - 1; i++) {
+      const t = setup.candles[i].timestamp + tfMs;
+      const list = events.get(t) ?? [];
+      list.push({ symbol, setup, i });
+      events.set(t, list);
+    }
+  }
+  const times = [...events.keys()].sort((a, b) => a - b);
+
+  clock = times[0] ?? 0;
+  const emotional = new EmotionalFilter({ ...params.emotional, now });
+  emotional.setBalance(initialBalance);
+  emotional.reset();
+
+  let balance = initialBalance;
+  let open: PortfolioTrade[] = [];
+  let maxConcurrent = 0;
+  const trades: PortfolioTrade[] = [];
+  const skipped: Record<string, number> = {};
+  const equityCurve: { time: number; balance: number }[] = [{ time: clock, balance }];
+  const skip = (key: string) => {
+    skipped[key] = (skipped[key] ?? 0) + 1;
+  };
+
+  const closeUntil = (t: number) => {
+    const closing = open.filter((p) => p.exitTime <= t).sort((a, b) => a.exitTime - b.exitTime);
+    if (!closing.length) return;
+    open = open.filter((p) => p.exitTime > t);
+    for (const trade of closing) {
+      clock = trade.exitTime;
+      balance += trade.pnl;
+      emotional.recordTradeOutcome(trade.pnl);
+      equityCurve.push({ time: trade.exitTime, balance });
+    }
+  };
+
+  for (const t of times) {
+    closeUntil(t);
+    clock = t;
+    // Сильные сигналы первыми — при конкуренции за слоты
+    const candidates = events.get(t)!
+      .map((ev) => ({ ...ev, entry: ev.setup.findEntry(ev.i) }))
+      .filter((c) => c.entry != null)
+      .sort((a, b) => (b.entry!.confidence ?? 0) - (a.entry!.confidence ?? 0));
+
+    for (const { symbol, setup, i, entry } of candidates) {
+      const mood = emotional.canOpenTrade();
+      if (!mood.allowed) {
+        skip(mood.reason?.startsWith('Cooldown') ? 'emotional_cooldown' : 'emotional_daily_drawdown');
+        continue;
+      }
+      const limits = risk.checkPositionLimits(open.length, open.filter((p) => p.symbol === symbol).length, symbol);
+      if (!limits.ok) {
+        skip(reasonKey(limits.reason, 'position_limits'));
+        continue;
+      }
+      const daily = risk.checkDailyTradeLimit();
+      if (!daily.ok) {
+        skip(reasonKey(daily.reason, 'max_daily_trades'));
+        continue;
+      }
+      const used = open.reduce((s, p) => s + p.margin, 0);
+      const margin = Math.min(balance * setup.costModel.sizePercent / 100, balance - used);
+      if (margin <= 0) {
+        skip('insufficient_margin');
+        continue;
+      }
+      const trade = simulateTrade(setup.candles, i, entry!, setup.exitPolicy, margin, setup.costModel, setup.funding);
+      if (!trade) continue;
+      risk.recordTrade();
+      const pt: PortfolioTrade = { ...trade, symbol };
+      trades.push(pt);
+      open.push(pt);
+      maxConcurrent = Math.max(maxConcurrent, open.length);
+    }
+  }
+  closeUntil(Infinity);
+
+  let peak = initialBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const { balance: b } of equityCurve) {
+    if (b > peak) peak = b;
+    const dd = peak - b;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+    if (peak > 0 && (dd / peak) * 100 > maxDrawdownPct) maxDrawdownPct = (dd / peak) * 100;
+  }
+
+  const totalPnl = balance - initialBalance;
+  const wins = trades.filter((t) => t.win).length;
+  const grossProfit = trades.filter((t) => t.pnl > 0).reduce((s, t) => s + t.pnl, 0);
+  const grossLoss = Math.abs(trades.filter((t) => t.pnl < 0).reduce((s, t) => s + t.pnl, 0));
+  const symbols = setups.map((s) => s.symbol);
+
+  const perSymbol: SymbolContribution[] = symbols.map((symbol) => {
+    const own = trades.filter((t) => t.symbol === symbol);
+    const pnl = own.reduce((s, t) => s + t.pnl, 0);
+    const w = own.filter((t) => t.win).length;
+    return {
+      symbol,
+      trades: own.length,
+      wins: w,
+      winrate: own.length ? w / own.length : 0,
+      pnl,
+      contributionPct: totalPnl !== 0 ? (pnl / Math.abs(totalPnl)) * 100 : 0,
+      fees: own.reduce((s, t) => s + t.fees, 0)
+    };
+  });
+
+  // Дневной PnL каждого символа (по дню закрытия), пропуски — 0
+  const days = [...new Set(trades.map((t) => Math.floor(t.exitTime / DAY_MS)))].sort((a, b) => a - b);
+  const dayIndex = new Map(days.map((d, k) => [d, k]));
+  const daily = symbols.map((symbol) => {
+    const row = new Array(days.length).fill(0);
+    for (const t of trades) {
+      if (t.symbol === symbol) row[dayIndex.get(Math.floor(t.exitTime / DAY_MS))!] += t.pnl;
+    }
+    return row;
+  });
+  const matrix = symbols.map((_, a) => symbols.map((__, b) => (a === b ? 1 : pearson(daily[a], daily[b]))));
+
+  const span = equityCurve.length > 1 ? equityCurve[equityCurve.length - 1].time - equityCurve[0].time : 0;
+  const balances = equityCurve.map((p) => p.balance);
+  return {
+    symbols,
+    timeframe,
+    strategy: first.strategy,
+    exitPolicy: first.exitPolicy,
+    costModel: first.costModel,
+    risk: riskConfig,
+    initialBalance,
+    finalBalance: balance,
+    totalPnl,
+    totalPnlPct: initialBalance > 0 ? (totalPnl / initialBalance) * 100 : 0,
+    totalFees: trades.reduce((s, t) => s + t.fees, 0),
+    trades,
+    totalTrades: trades.length,
+    wins,
+    losses: trades.length - wins,
+    winrate: trades.length ? wins / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0,
+    maxDrawdown,
+    maxDrawdownPct,
+    sharpe: tradeSharpe(balances, span),
+    stats: computeBacktestStats({ trades, equityCurve: balances, initialBalance, finalBalance: balance, maxDrawdownPct, spanMs: span }),
+    maxConcurrent,
+    skipped,
+    perSymbol,
+    correlation: { symbols, matrix },
+    equityCurve
+  };
+}
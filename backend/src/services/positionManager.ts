@@ -0,0 +1,495 @@
+/**
+ * Position Manager — сопровождение live-позиций, открытых autoTrader.executeSignal (любая биржа exchangeAdapters)
+ * - Стоп — отдельный условный reduce-only ордер на бирже (sl_algo_id); OKX — amend-algos, остальные — отмена и новый
+ * - TP1/TP2/TP3 — частичное закрытие маркетом (TP_SCALE_OUT), после TP1 стоп в безубыток
+ * - Трейлинг (updateTrailingStop, trailing_stop_config сигнала) по марк-цене биржи (поток адаптера 'mark')
+ * - Сверка с биржей и лимит времени (RiskController.checkPositionDuration, общий с riskGate) — по таймеру
+ */
+
+import { Exchange } from 'ccxt';
+import { listLivePositions, saveLivePosition, LivePositionRow } from '../db';
+import { getTradingExchange, hasAccountCredentials } from './tradingExchange';
+import { ExchangeId, getExchangeAdapter } from './exchangeAdapters';
+import { updateTrailingStop, DEFAULT_TRAILING_CONFIG, TrailingStopConfig } from '../lib/trailingStop';
+import { RiskController } from '../lib/riskController';
+import { riskGate } from './riskGate';
+import { normalizeSymbol } from '../lib/symbol';
+import { TradingSignal } from '../types/signal';
+import { logger } from '../lib/logger';
+
+export type LiveCloseReason = 'take_profit' | 'stop_loss' | 'max_duration' | 'external' | 'sl_failed' | 'kill_switch';
+
+export interface LivePosition {
+  id: string;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  status: 'open' | 'closed';
+  exchange: ExchangeId;
+  useTestnet: boolean;
+  userId: string | null;
+  leverage: number;
+  entryPrice: number;
+  /** Объём входа и остаток (контракты) */
+  amount: number;
+  remaining: number;
+  stopLoss: number | null;
+  /** Условный стоп-ордер на бирже */
+  stopOrderId: string | null;
+  takeProfit: number[];
+  /** Сколько уровней TP уже исполнено */
+  tpFilled: number;
+  breakeven: boolean;
+  trailing: TrailingStopConfig;
+  lastPrice: number;
+  realizedPnl: number;
+  signalId: string | null;
+  closeReason: LiveCloseReason | null;
+  openTime: number;
+  closeTime: number | null;
+}
+
+export interface TrackInput {
+  orderId: string;
+  signal: TradingSignal;
+  /** Исполненный объём входа (контракты) */
+  amount: number;
+  entryPrice: number;
+  leverage: number;
+  /** Биржа исполнения (по умолчанию OKX) */
+  exchange?: ExchangeId;
+  useTestnet: boolean;
+  /** Владелец счёта исполнения (null — серверный аккаунт) */
+  userId?: string | null;
+}
+
+/** Доли начального объёма на TP1, TP2; последний уровень закрывает остаток */
+const TP_SCALE_OUT = [0.4, 0.3];
+const SYNC_INTERVAL_MS = 15000;
+/** Сколько ждать завершения текущих операций с позициями при приостановке (kill switch) */
+const SUSPEND_WAIT_MS = 10000;
+/** Не чаще одного изменения стоп-ордера на позицию (трейлинг) */
+const AMEND_MIN_INTERVAL_MS = 5000;
+/** Пауза после ошибки биржи перед повтором */
+const ERROR_BACKOFF_MS = 10000;
+
+function parseLevels(raw: string | null): number[] {
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    return Array.isArray(arr) ? arr.map(Number).filter((n) => Number.isFinite(n) && n > 0) : [];
+  } catch {
+    return [];
+  }
+}
+
+function sideSign(direction: 'LONG' | 'SHORT'): number {
+  return direction === 'LONG' ? 1 : -1;
+}
+
+/** Цена прошла уровень в сторону прибыли */
+function reached(row: LivePositionRow, level: number, price: number): boolean {
+  return row.direction === 'LONG' ? price >= level : price <= level;
+}
+
+/** Новый стоп лучше текущего (ближе к цене в сторону прибыли) */
+function improves(row: LivePositionRow, stop: number): boolean {
+  if (row.stop_loss == null) return true;
+  return row.direction === 'LONG' ? stop > row.stop_loss : stop < row.stop_loss;
+}
+
+/** Биржа строки (старые записи без exchange — OKX) */
+function rowExchange(row: LivePositionRow): ExchangeId {
+  return getExchangeAdapter(row.exchange).id;
+}
+
+function ccxtSymbolOf(row: LivePositionRow): string {
+  return getExchangeAdapter(row.exchange).toCcxtSymbol(row.symbol);
+}
+
+function toPosition(row: LivePositionRow): LivePosition {
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    direction: row.direction,
+    status: row.status,
+    exchange: rowExchange(row),
+    useTestnet: row.use_testnet === 1,
+    userId: row.user_id ?? null,
+    leverage: row.leverage,
+    entryPrice: row.entry_price,
+    amount: row.amount,
+    remaining: row.remaining,
+    stopLoss: row.stop_loss,
+    stopOrderId: row.sl_algo_id ?? null,
+    takeProfit: parseLevels(row.take_profit),
+    tpFilled: row.tp_filled,
+    breakeven: row.breakeven === 1,
+    trailing: {
+      initialStopPct: DEFAULT_TRAILING_CONFIG.initialStopPct,
+      trailStepPct: row.trail_step_pct,
+      activationProfitPct: row.activation_profit_pct
+    },
+    lastPrice: row.last_price,
+    realizedPnl: row.realized_pnl,
+    signalId: row.signal_id,
+    closeReason: row.close_reason as LiveCloseReason | null,
+    openTime: row.open_time,
+    closeTime: row.close_time
+  };
+}
+
+export class LivePositionManager {
+  private open = new Map<string, LivePositionRow>();
+  private streams = new Map<string, () => void>();
+  private busy = new Set<string>();
+  private lastAmend = new Map<string, number>();
+  private backoffUntil = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private suspended = false;
+
+  constructor(private risk: RiskController = new RiskController()) {}
+
+  init(): void {
+    if (this.timer) return;
+    for (const row of listLivePositions({ status: 'open', limit: Number.MAX_SAFE_INTEGER })) {
+      this.open.set(row.id, row);
+      this.ensureStream(row);
+    }
+    this.timer = setInterval(() => {
+      this.sync().catch((e) => logger.warn('PositionManager', 'sync failed', { error: (e as Error).message }));
+    }, SYNC_INTERVAL_MS);
+    this.timer.unref?.();
+    if (this.open.size) logger.info('PositionManager', `Restored ${this.open.size} live positions`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const unsub of this.streams.values()) unsub();
+    this.streams.clear();
+  }
+
+  /**
+   * Приостановить сопровождение (kill switch): TP, трейлинг и сверка не выполняются, стопы на бирже остаются.
+   * Ждёт завершения текущих операций и возвращает открытые позиции
+   */
+  async suspend(): Promise<LivePosition[]> {
+    this.suspended = true;
+    const deadline = Date.now() + SUSPEND_WAIT_MS;
+    while (this.busy.size > 0 && Date.now() < deadline) await new Promise((r) => setTimeout(r, 100));
+    return [...this.open.values()].map(toPosition);
+  }
+
+  /** Возобновить сопровождение оставшихся позиций (не закрытых kill switch) */
+  resume(): void {
+    this.suspended = false;
+  }
+
+  /** Снять позицию с сопровождения без запросов к бирже (kill switch уже закрыл её и снял стоп) */
+  abandon(id: string, reason: LiveCloseReason): boolean {
+    const row = this.open.get(id);
+    if (!row) return false;
+    row.status = 'closed';
+    row.close_reason = reason;
+    row.close_time = Date.now();
+    saveLivePosition(row);
+    this.open.delete(id);
+    this.lastAmend.delete(id);
+    this.backoffUntil.delete(id);
+    this.releaseStream(row);
+    logger.warn('PositionManager', `Abandoned ${row.symbol} ${row.direction} (${reason})`, { id });
+    return true;
+  }
+
+  list(opts: { status?: 'open' | 'closed'; userId?: string | null; limit?: number } = {}): LivePosition[] {
+    return listLivePositions(opts).map(toPosition);
+  }
+
+  /**
+   * Взять позицию под управление сразу после входа: выставить стоп-ордер на биржу.
+   * Если стоп не принят — позиция закрывается маркетом (null).
+   */
+  async track(input: TrackInput): Promise<LivePosition | null> {
+    const { signal } = input;
+    const symbol = normalizeSymbol(signal.symbol);
+    const tsc = signal.trailing_stop_config;
+    const stop = tsc?.initial_stop ?? signal.stop_loss;
+    const levels = Array.isArray(signal.take_profit) && signal.take_profit.length
+      ? signal.take_profit
+      : [input.entryPrice * (signal.direction === 'LONG' ? 1.02 : 0.98)];
+    const row: LivePositionRow = {
+      id: input.orderId,
+      symbol,
+      direction: signal.direction,
+      status: 'open',
+      use_testnet: input.useTestnet ? 1 : 0,
+      leverage: input.leverage,
+      entry_price: input.entryPrice,
+      amount: input.amount,
+      remaining: input.amount,
+      stop_loss: null,
+      take_profit: JSON.stringify(levels),
+      tp_filled: 0,
+      trail_step_pct: tsc?.trail_step_pct ?? DEFAULT_TRAILING_CONFIG.trailStepPct,
+      activation_profit_pct: tsc?.activation_profit_pct ?? DEFAULT_TRAILING_CONFIG.activationProfitPct,
+      breakeven: 0,
+      sl_algo_id: null,
+      last_price: input.entryPrice,
+      realized_pnl: 0,
+      signal_id: signal.id ?? null,
+      close_reason: null,
+      open_time: Date.now(),
+      close_time: null,
+      user_id: input.userId ?? null,
+      exchange: getExchangeAdapter(input.exchange).id
+    };
+    this.open.set(row.id, row);
+    saveLivePosition(row);
+
+    this.busy.add(row.id);
+    try {
+      const exchange = await getTradingExchange(input.useTestnet, row.user_id, rowExchange(row));
+      const placed = stop > 0 && (await this.placeStop(exchange, row, stop));
+      if (!placed) {
+        logger.error('PositionManager', `Stop order rejected, closing ${symbol} ${row.direction}`, { orderId: row.id });
+        await this.closeAll(exchange, row, row.last_price, 'sl_failed');
+        return null;
+      }
+    } finally {
+      this.busy.delete(row.id);
+    }
+    this.ensureStream(row);
+    logger.info('PositionManager', `Tracking ${symbol} ${row.direction}`, { orderId: row.id, stop, takeProfit: levels });
+    return toPosition(row);
+  }
+
+  /** Поток марк-цены на биржу + символ */
+  private streamKey(row: LivePositionRow): string {
+    return `${rowExchange(row)}:${row.symbol}`;
+  }
+
+  private ensureStream(row: LivePositionRow): void {
+    const key = this.streamKey(row);
+    if (this.streams.has(key)) return;
+    const unsub = getExchangeAdapter(row.exchange).getStream(row.symbol).subscribe('mark', (data) => {
+      const mark = data as { price: number };
+      this.onMark(key, mark.price);
+    });
+    this.streams.set(key, unsub);
+  }
+
+  private releaseStream(row: LivePositionRow): void {
+    const key = this.streamKey(row);
+    if ([...this.open.values()].some((r) => this.streamKey(r) === key)) return;
+    this.streams.get(key)?.();
+    this.streams.delete(key);
+  }
+
+  private onMark(key: string, price: number): void {
+    if (!(price > 0) || this.suspended) return;
+    const now = Date.now();
+    for (const row of this.open.values()) {
+      if (this.streamKey(row) !== key) continue;
+      row.last_price = price;
+      if (this.busy.has(row.id) || (this.backoffUntil.get(row.id) ?? 0) > now) continue;
+      this.busy.add(row.id);
+      this.manage(row, price)
+        .catch((e) => {
+          this.backoffUntil.set(row.id, Date.now() + ERROR_BACKOFF_MS);
+          logger.warn('PositionManager', 'manage failed', { id: row.id, error: (e as Error).message });
+        })
+        .finally(() => this.busy.delete(row.id));
+    }
+  }
+
+  /** TP (частичное закрытие) → безубыток → трейлинг стопа */
+  private async manage(row: LivePositionRow, price: number): Promise<void> {
+    const levels = parseLevels(row.take_profit);
+    let target = row.stop_loss;
+    let force = false;
+    let exchange: Exchange | null = null;
+
+    while (row.status === 'open' && row.tp_filled < levels.length && reached(row, levels[row.tp_filled], price)) {
+      exchange ??= await getTradingExchange(row.use_testnet === 1, row.user_id, rowExchange(row));
+      const isLast = row.tp_filled === levels.length - 1;
+      const qty = isLast ? row.remaining : row.amount * (TP_SCALE_OUT[row.tp_filled] ?? 0);
+      await this.reduce(exchange, row, qty, price);
+      row.tp_filled++;
+      saveLivePosition(row);
+      if (row.remaining <= 0) {
+        await this.finish(exchange, row, 'take_profit');
+        return;
+      }
+      if (!row.breakeven && (target == null || improves(row, row.entry_price))) {
+        target = row.entry_price;
+        row.breakeven = 1;
+      }
+      force = true;
+    }
+
+    const trailing = { ...DEFAULT_TRAILING_CONFIG, trailStepPct: row.trail_step_pct, activationProfitPct: row.activation_profit_pct };
+    if (target != null) target = updateTrailingStop(row.entry_price, price, row.direction, target, trailing);
+    if (target == null || (!force && !improves(row, target))) return;
+    if (!force && Date.now() - (this.lastAmend.get(row.id) ?? 0) < AMEND_MIN_INTERVAL_MS) return;
+    exchange ??= await getTradingExchange(row.use_testnet === 1, row.user_id, rowExchange(row));
+    if (await this.amendStop(exchange, row, target)) saveLivePosition(row);
+  }
+
+  /** Рыночное reduce-only закрытие части позиции; остаток ниже минимального лота закрывается целиком */
+  private async reduce(exchange: Exchange, row: LivePositionRow, qty: number, price: number): Promise<void> {
+    const ccxtSymbol = ccxtSymbolOf(row);
+    const market = exchange.market(ccxtSymbol);
+    const minAmount = market?.limits?.amount?.min ?? 0;
+    let amount = Number(exchange.amountToPrecision(ccxtSymbol, Math.min(qty, row.remaining)));
+    if (row.remaining - amount < minAmount || row.remaining - amount <= 0) amount = row.remaining;
+    if (!(amount > 0) || amount < minAmount) return;
+    await exchange.createOrder(ccxtSymbol, 'market', row.direction === 'LONG' ? 'sell' : 'buy', amount, undefined, {
+      ...getExchangeAdapter(row.exchange).orderParams(),
+      reduceOnly: true
+    });
+    const contractSize = market?.contractSize ?? 1;
+    row.realized_pnl += sideSign(row.direction) * (price - row.entry_price) * amount * contractSize;
+    row.remaining = Math.max(0, row.remaining - amount);
+    logger.info('PositionManager', `Reduced ${row.symbol} ${row.direction}`, { id: row.id, amount, price, remaining: row.remaining });
+  }
+
+  /** Условный стоп-ордер на весь остаток */
+  private async placeStop(exchange: Exchange, row: LivePositionRow, stop: number): Promise<boolean> {
+    const ccxtSymbol = ccxtSymbolOf(row);
+    try {
+      const order = await exchange.createOrder(ccxtSymbol, 'market', row.direction === 'LONG' ? 'sell' : 'buy', row.remaining, undefined, {
+        ...getExchangeAdapter(row.exchange).orderParams(),
+        stopLossPrice: Number(exchange.priceToPrecision(ccxtSymbol, stop)),
+        reduceOnly: true
+      });
+      row.sl_algo_id = String((order as any).id ?? '') || null;
+      row.stop_loss = stop;
+      this.lastAmend.set(row.id, Date.now());
+      saveLivePosition(row);
+      return row.sl_algo_id != null;
+    } catch (e) {
+      logger.warn('PositionManager', 'place stop failed', { id: row.id, error: (e as Error).message });
+      return false;
+    }
+  }
+
+  private async cancelStop(exchange: Exchange, row: LivePositionRow): Promise<void> {
+    if (!row.sl_algo_id) return;
+    try {
+      await exchange.cancelOrder(row.sl_algo_id, ccxtSymbolOf(row), { trigger: true });
+    } catch {
+      // уже исполнен или отменён
+    }
+    row.sl_algo_id = null;
+  }
+
+  /** Сдвинуть стоп (цена и объём = остаток): OKX amend-algos, при отказе и на других биржах — отмена и новый ордер */
+  private async amendStop(exchange: Exchange, row: LivePositionRow, stop: number): Promise<boolean> {
+    const ccxtSymbol = ccxtSymbolOf(row);
+    if (row.sl_algo_id && rowExchange(row) === 'okx') {
+      try {
+        await (exchange as any).privatePostTradeAmendAlgos({
+          instId: getExchangeAdapter(row.exchange).toExchangeSymbol(row.symbol),
+          algoId: row.sl_algo_id,
+          newSz: exchange.amountToPrecision(ccxtSymbol, row.remaining),
+          newSlTriggerPx: exchange.priceToPrecision(ccxtSymbol, stop),
+          newSlOrdPx: '-1'
+        });
+        row.stop_loss = stop;
+        this.lastAmend.set(row.id, Date.now());
+        logger.info('PositionManager', `Stop moved ${row.symbol} ${row.direction}`, { id: row.id, stop, remaining: row.remaining });
+        return true;
+      } catch (e) {
+        logger.warn('PositionManager', 'amend stop failed, replacing order', { id: row.id, error: (e as Error).message });
+      }
+    }
+    await this.cancelStop(exchange, row);
+    const placed = await this.placeStop(exchange, row, stop);
+    if (!placed) {
+      logger.error('PositionManager', `Stop order lost, closing ${row.symbol} ${row.direction}`, { id: row.id });
+      await this.closeAll(exchange, row, row.last_price, 'sl_failed');
+    }
+    return placed;
+  }
+
+  private async closeAll(exchange: Exchange, row: LivePositionRow, price: number, reason: LiveCloseReason): Promise<void> {
+    if (row.remaining > 0) {
+      try {
+        await this.reduce(exchange, row, row.remaining, price);
+      } catch (e) {
+        logger.error('PositionManager', 'market close failed', { id: row.id, error: (e as Error).message });
+        return;
+      }
+    }
+    await this.finish(exchange, row, reason);
+  }
+
+  private async finish(exchange: Exchange, row: LivePositionRow, reason: LiveCloseReason): Promise<void> {
+    await this.cancelStop(exchange, row);
+    row.status = 'closed';
+    row.close_reason = reason;
+    row.close_time = Date.now();
+    saveLivePosition(row);
+    this.open.delete(row.id);
+    this.lastAmend.delete(row.id);
+    this.backoffUntil.delete(row.id);
+    this.releaseStream(row);
+    logger.info('PositionManager', `Closed ${row.symbol} ${row.direction} (${reason})`, { id: row.id, realizedPnl: row.realized_pnl });
+  }
+
+  /** Сверка остатков с биржей (стоп сработал / закрыто вручную) и лимит времени в позиции */
+  private async sync(): Promise<void> {
+    if (this.open.size === 0 || this.suspended) return;
+    const accounts = new Map<string, LivePositionRow[]>();
+    for (const row of this.open.values()) {
+      if (this.busy.has(row.id) || !hasAccountCredentials(row.use_testnet === 1, row.user_id, rowExchange(row))) continue;
+      const key = `${rowExchange(row)}:${row.user_id ?? ''}:${row.use_testnet}`;
+      accounts.set(key, [...(accounts.get(key) ?? []), row]);
+    }
+    for (const [key, rows] of accounts) {
+      // Ошибка одного счёта (отозванные ключи, сеть) не останавливает сверку остальных
+      let exchange: Exchange;
+      let positions: Awaited<ReturnType<Exchange['fetchPositions']>>;
+      try {
+        exchange = await getTradingExchange(rows[0].use_testnet === 1, rows[0].user_id, rowExchange(rows[0]));
+        positions = await exchange.fetchPositions([...new Set(rows.map(ccxtSymbolOf))]);
+      } catch (e) {
+        logger.warn('PositionManager', 'sync skipped for account', { account: key, error: (e as Error).message });
+        continue;
+      }
+      for (const row of rows) {
+        if (this.busy.has(row.id)) continue;
+        this.busy.add(row.id);
+        try {
+          const side = row.direction === 'LONG' ? 'long' : 'short';
+          const onExchange = positions.find((p: any) => p.symbol === ccxtSymbolOf(row) && p.side === side);
+          const contracts = Math.abs(Number(onExchange?.contracts ?? 0));
+          if (contracts <= 0) {
+            const stopHit = row.stop_loss != null && !reached(row, row.stop_loss, row.last_price);
+            if (stopHit && row.stop_loss != null) {
+              const contractSize = exchange.market(ccxtSymbolOf(row))?.contractSize ?? 1;
+              row.realized_pnl += sideSign(row.direction) * (row.stop_loss - row.entry_price) * row.remaining * contractSize;
+            }
+            row.remaining = 0;
+            await this.finish(exchange, row, stopHit ? 'stop_loss' : 'external');
+            continue;
+          }
+          if (contracts < row.remaining) row.remaining = contracts;
+          const duration = this.risk.checkPositionDuration(new Date(row.open_time));
+          if (!duration.ok) {
+            logger.info('PositionManager', `Closing stale ${row.symbol} ${row.direction}`, { id: row.id, reason: duration.reason });
+            await this.closeAll(exchange, row, row.last_price, 'max_duration');
+            continue;
+          }
+          saveLivePosition(row);
+        } catch (e) {
+          logger.warn('PositionManager', 'sync failed for position', { id: row.id, error: (e as Error).message });
+        } finally {
+          this.busy.delete(row.id);
+        }
+      }
+    }
+  }
+}
+
+export const positionManager = new LivePositionManager(riskGate.controller);
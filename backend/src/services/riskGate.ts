@@ -0,0 +1,160 @@
+/**
+ * Risk Gate — обязательная проверка RiskController перед каждым исполнением на бирже (autoTrader.executeSignal)
+ * - Лимиты позиций (всего / на символ), дневной лимит сделок, критический баланс
+ * - Конфиг и дневные счётчики сохраняются в settings (переживают перезапуск)
+ * - Последние решения (пропуск / отказ с причиной) — для админки
+ */
+
+import { RiskController, RiskConfig, RiskControllerState } from '../lib/riskController';
+import { getSetting, setSetting } from '../db';
+import { logger } from '../lib/logger';
+
+const SETTINGS_KEY = 'risk_controller';
+const DECISIONS_LIMIT = 100;
+
+export type RiskDecisionSource = 'auto' | 'manual';
+
+export interface RiskDecision {
+  time: number;
+  source: RiskDecisionSource;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  allowed: boolean;
+  reason: string | null;
+  positions: number;
+  positionsForSymbol: number;
+  dailyTrades: number;
+  balance: number;
+  /** Баланс ниже minBalanceWarning — сделка разрешена, но с предупреждением */
+  balanceWarning: boolean;
+}
+
+export interface RiskCheckInput {
+  source: RiskDecisionSource;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  /** Открытые позиции и ожидающие входы — всего и по символу */
+  positions: number;
+  positionsForSymbol: number;
+  balance: number;
+}
+
+export interface RiskStatus {
+  config: RiskConfig;
+  dailyTrades: number;
+  lastTradeDate: string | null;
+  decisions: RiskDecision[];
+}
+
+/** Границы полей конфига для PUT /api/admin/trading/risk */
+const CONFIG_BOUNDS: Record<keyof RiskConfig, [number, number]> = {
+  maxPositionsTotal: [1, 50],
+  maxPositionsPerSymbol: [1, 10],
+  maxDailyTrades: [1, 1000],
+  maxPositionDurationHours: [0, 720],
+  minBalanceWarning: [0, 1_000_000],
+  minBalanceCritical: [0, 1_000_000]
+};
+
+/** Проверка и нормализация частичного конфига */
+export function parseRiskConfig(body: unknown): { ok: true; data: Partial<RiskConfig> } | { ok: false; error: string } {
+  if (!body || typeof body !== 'object') return { ok: false, error: 'Body must be an object' };
+  const patch: Partial<RiskConfig> = {};
+  for (const [key, [min, max]] of Object.entries(CONFIG_BOUNDS) as [keyof RiskConfig, [number, number]][]) {
+    const raw = (body as Record<string, unknown>)[key];
+    if (raw === undefined) continue;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < min || n > max) return { ok: false, error: `${key}: ${min}–${max}` };
+    patch[key] = key.startsWith('minBalance') ? n : Math.round(n);
+  }
+  return { ok: true, data: patch };
+}
+
+export class RiskGate {
+  readonly controller = new RiskController();
+  private decisions: RiskDecision[] = [];
+  private loaded = false;
+
+  /** Восстановить конфиг и счётчики из settings */
+  init(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    const raw = getSetting(SETTINGS_KEY);
+    if (!raw) return;
+    try {
+      const saved = JSON.parse(raw) as { config?: Partial<RiskConfig>; state?: Partial<RiskControllerState> };
+      const parsed = parseRiskConfig(saved.config ?? {});
+      if (parsed.ok) this.controller.updateConfig(parsed.data);
+      if (saved.state) this.controller.restoreState(saved.state);
+    } catch (e) {
+      logger.warn('RiskGate', 'failed to restore state', { error: (e as Error).message });
+    }
+  }
+
+  /** Решение перед сделкой; отказ возвращается с причиной и попадает в журнал */
+  check(input: RiskCheckInput): { ok: true } | { ok: false; error: string } {
+    this.init();
+    const daily = this.controller.checkDailyTradeLimit();
+    const limits = this.controller.checkPositionLimits(input.positions, input.positionsForSymbol, input.symbol);
+    const balance = this.controller.checkBalance(input.balance);
+    const reason = !daily.ok
+      ? daily.reason
+      : !limits.ok
+        ? limits.reason
+        : balance.level === 'critical'
+          ? `balance_critical: ${balance.reason}`
+          : undefined;
+    const decision: RiskDecision = {
+      time: Date.now(),
+      source: input.source,
+      symbol: input.symbol,
+      direction: input.direction,
+      allowed: !reason,
+      reason: reason ?? (balance.level === 'warning' ? `balance_warning: ${balance.reason}` : null),
+      positions: input.positions,
+      positionsForSymbol: input.positionsForSymbol,
+      dailyTrades: daily.count ?? 0,
+      balance: input.balance,
+      balanceWarning: balance.level === 'warning'
+    };
+    this.decisions.unshift(decision);
+    this.decisions.splice(DECISIONS_LIMIT);
+    if (reason) {
+      logger.info('RiskGate', `Blocked ${input.symbol} ${input.direction} (${input.source})`, { reason });
+      return { ok: false, error: `Risk: ${reason}` };
+    }
+    return { ok: true };
+  }
+
+  /** Учесть исполненную сделку в дневном лимите */
+  recordTrade(): void {
+    this.init();
+    this.controller.recordTrade();
+    this.persist();
+  }
+
+  updateConfig(patch: Partial<RiskConfig>): RiskStatus {
+    this.init();
+    this.controller.updateConfig(patch);
+    this.persist();
+    return this.status();
+  }
+
+  status(): RiskStatus {
+    this.init();
+    const state = this.controller.getState();
+    const today = new Date().toISOString().slice(0, 10);
+    return {
+      config: this.controller.getConfig(),
+      dailyTrades: state.dailyTradeCount[today] ?? 0,
+      lastTradeDate: state.lastTradeDate,
+      decisions: this.decisions.map((d) => ({ ...d }))
+    };
+  }
+
+  private persist(): void {
+    setSetting(SETTINGS_KEY, JSON.stringify({ config: this.controller.getConfig(), state: this.controller.getState() }));
+  }
+}
+
+export const riskGate = new RiskGate();
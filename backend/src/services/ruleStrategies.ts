@@ -0,0 +1,795 @@
+/**
+ * Rule Strategies — конструктор стратегий на JSON-DSL без TypeScript
+ * - Условия: индикаторы CandleAnalyzer по TF, свечные паттерны, стакан (DOM score), лента (delta), фандинг, согласие Multi-TF;
+ *   all / any / not; пересечения (crossAbove / crossBelow)
+ * - parseRuleDefinition проверяет определение и возвращает ошибки с путём (long.all[1].value)
+ * - compileRuleStrategy → Strategy реестра: live-анализ (runAnalysis), бэктест, сессии авто-торговли
+ * - Определения хранятся в rule_strategies и регистрируются при старте
+ */
+
+import { saveRuleStrategy, listRuleStrategies, deleteRuleStrategy, RuleStrategyRow } from '../db';
+import { CandlePattern, OHLCVCandle } from '../types/candle';
+import { CandleAnalyzer } from './candleAnalyzer';
+import { analyzeOrderBook, analyzeTape } from './marketAnalysis';
+import { analyzeTimeframe, detectPatterns, MtfTimeframe, MTF_ORDER } from './analysisPipeline';
+import {
+  Strategy,
+  StrategyContext,
+  StrategyInfo,
+  StrategyParamSpec,
+  atrStop,
+  buildSignal,
+  getStrategy,
+  isReservedStrategyId,
+  registerStrategy,
+  rrLadder,
+  strategyResult,
+  unregisterStrategy
+} from './strategies';
+import { logger } from '../lib/logger';
+
+const candleAnalyzer = new CandleAnalyzer();
+
+export type RuleOperator = '<' | '<=' | '>' | '>=' | '==' | '!=' | 'crossAbove' | 'crossBelow';
+
+/** Индикатор на TF или рыночная метрика; params — параметры индикатора (period, stdDev, …) */
+export interface RuleIndicatorRef {
+  indicator: string;
+  /** TF свечей; по умолчанию входной TF */
+  tf?: MtfTimeframe;
+  params?: Record<string, number>;
+}
+
+/** Правая часть сравнения: число, параметр стратегии ({ param }) или другой индикатор */
+export type RuleOperand = number | { param: string } | RuleIndicatorRef;
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { pattern: CandlePattern; tf?: MtfTimeframe }
+  | (RuleIndicatorRef & { op: RuleOperator; value: RuleOperand });
+
+/** Параметр правил: подставляется в { param } и настраивается в бэктесте (strategyParams) */
+export interface RuleParamSpec {
+  key: string;
+  description?: string;
+  min: number;
+  max: number;
+  default: number;
+  integer?: boolean;
+}
+
+export interface RuleStrategyDefinition {
+  /** a-z, 0-9, _ и -; не совпадает со встроенными стратегиями */
+  id: string;
+  name: string;
+  description?: string;
+  /** Входной TF: свечи входа, ATR и TF бэктеста по умолчанию */
+  timeframe?: MtfTimeframe;
+  params?: RuleParamSpec[];
+  long?: RuleCondition;
+  short?: RuleCondition;
+  /** Базовая уверенность (0–1) и надбавки за выполненные условия */
+  confidence?: number | { base: number; bonuses?: { when: RuleCondition; add: number }[] };
+  /** SL = stopAtr × ATR(atrPeriod), TP — лестница R:R (takeProfits штук) */
+  exit?: { stopAtr?: number; atrPeriod?: number; riskReward?: number; takeProfits?: number };
+}
+
+export interface RuleStrategyRecord {
+  id: string;
+  name: string;
+  definition: RuleStrategyDefinition;
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Ошибка проверки: путь в определении и сообщение */
+export interface RuleValidationError {
+  path: string;
+  message: string;
+}
+
+type RuleResult<T> = { ok: true; data: T } | { ok: false; error: string; errors: RuleValidationError[] };
+
+interface IndicatorParamSpec {
+  default: number;
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+type MarketData = 'orderBook' | 'trades' | 'funding' | 'mtf';
+
+interface IndicatorSpec {
+  description: string;
+  params?: Record<string, IndicatorParamSpec>;
+  /** Свечей входного TF для значения (на пересечение — на одну больше) */
+  minBars?: (p: Record<string, number>) => number;
+  /** Рыночная метрика (без TF и пересечений) и нужные ей данные */
+  market?: MarketData;
+  compute(src: IndicatorSource, p: Record<string, number>): number | null;
+}
+
+/** Данные для расчёта: свечи TF (для свечных индикаторов) и контекст среза */
+interface IndicatorSource {
+  candles: OHLCVCandle[];
+  ctx: StrategyContext;
+  direction: 'LONG' | 'SHORT';
+}
+
+const closesOf = (cs: OHLCVCandle[]) => cs.map((c) => c.close);
+const last = <T>(arr: T[]): T | undefined => arr[arr.length - 1];
+
+const BB_PARAMS = {
+  period: { default: 20, min: 5, max: 100, integer: true },
+  stdDev: { default: 2, min: 0.5, max: 4 }
+};
+
+/** Каталог операндов DSL */
+const INDICATORS: Record<string, IndicatorSpec> = {
+  close: { description: 'Цена закрытия', compute: ({ candles }) => last(candles)?.close ?? null },
+  volume: { description: 'Объём свечи', compute: ({ candles }) => last(candles)?.volume ?? null },
+  change_pct: {
+    description: 'Изменение цены за period свечей, %',
+    params: { period: { default: 1, min: 1, max: 100, integer: true } },
+    minBars: (p) => p.period + 1,
+    compute: ({ candles }, p) => {
+      const base = candles[candles.length - 1 - p.period]?.close;
+      const close = last(candles)?.close;
+      return base && close != null ? ((close - base) / base) * 100 : null;
+    }
+  },
+  volume_ratio: {
+    description: 'Объём свечи к среднему за period предыдущих',
+    params: { period: { default: 20, min: 2, max: 200, integer: true } },
+    minBars: (p) => p.period + 1,
+    compute: ({ candles }, p) => {
+      const prev = candles.slice(-1 - p.period, -1);
+      const avg = prev.reduce((s, c) => s + c.volume, 0) / (prev.length || 1);
+      const vol = last(candles)?.volume;
+      return prev.length === p.period && avg > 0 && vol != null ? vol / avg : null;
+    }
+  },
+  rsi: {
+    description: 'RSI',
+    params: { period: { default: 14, min: 2, max: 100, integer: true } },
+    minBars: (p) => p.period + 1,
+    compute: ({ candles }, p) => candleAnalyzer.getRSI(closesOf(candles), p.period)
+  },
+  macd: {
+    description: 'MACD (12, 26, 9): линия',
+    minBars: () => 34,
+    compute: ({ candles }) => candleAnalyzer.getMACD(closesOf(candles))?.MACD ?? null
+  },
+  macd_signal: {
+    description: 'MACD (12, 26, 9): сигнальная',
+    minBars: () => 34,
+    compute: ({ candles }) => candleAnalyzer.getMACD(closesOf(candles))?.signal ?? null
+  },
+  macd_hist: {
+    description: 'MACD (12, 26, 9): гистограмма',
+    minBars: () => 34,
+    compute: ({ candles }) => candleAnalyzer.getMACD(closesOf(candles))?.histogram ?? null
+  },
+  bb_upper: {
+    description: 'Bollinger: верхняя полоса',
+    params: BB_PARAMS,
+    minBars: (p) => p.period,
+    compute: ({ candles }, p) => candleAnalyzer.getBollingerBands(closesOf(candles), p.period, p.stdDev)?.upper ?? null
+  },
+  bb_middle: {
+    description: 'Bollinger: средняя',
+    params: BB_PARAMS,
+    minBars: (p) => p.period,
+    compute: ({ candles }, p) => candleAnalyzer.getBollingerBands(closesOf(candles), p.period, p.stdDev)?.middle ?? null
+  },
+  bb_lower: {
+    description: 'Bollinger: нижняя полоса',
+    params: BB_PARAMS,
+    minBars: (p) => p.period,
+    compute: ({ candles }, p) => candleAnalyzer.getBollingerBands(closesOf(candles), p.period, p.stdDev)?.lower ?? null
+  },
+  bb_width: {
+    description: 'Ширина Bollinger (upper − lower) / middle',
+    params: BB_PARAMS,
+    minBars: (p) => p.period + 20,
+    compute: ({ candles }, p) => candleAnalyzer.getBollingerBandsWidth(closesOf(candles), p.period, p.stdDev)?.width ?? null
+  },
+  bb_width_ratio: {
+    description: 'Ширина Bollinger к средней за 20 свечей (< 1 — сжатие)',
+    params: BB_PARAMS,
+    minBars: (p) => p.period + 20,
+    compute: ({ candles }, p) => {
+      const w = candleAnalyzer.getBollingerBandsWidth(closesOf(candles), p.period, p.stdDev);
+      return w && w.avgWidth > 0 ? w.width / w.avgWidth : null;
+    }
+  },
+  adx: {
+    description: 'ADX (> 25 — тренд)',
+    params: { period: { default: 14, min: 2, max: 100, integer: true } },
+    minBars: (p) => p.period + 15,
+    compute: ({ candles }, p) => candleAnalyzer.getADX(candles, p.period)
+  },
+  supertrend: {
+    description: 'Supertrend: 1 — вверх, −1 — вниз',
+    params: { period: { default: 10, min: 2, max: 100, integer: true }, multiplier: { default: 3, min: 0.5, max: 10 } },
+    minBars: (p) => p.period + 5,
+    compute: ({ candles }, p) => {
+      const trend = candleAnalyzer.getSupertrend(candles, p.multiplier, p.period);
+      return trend === 'up' ? 1 : trend === 'down' ? -1 : null;
+    }
+  },
+  ema: {
+    description: 'EMA',
+    params: { period: { default: 21, min: 2, max: 200, integer: true } },
+    minBars: (p) => p.period,
+    compute: ({ candles }, p) => candleAnalyzer.getEMAValue(closesOf(candles), p.period)
+  },
+  atr: {
+    description: 'ATR',
+    params: { period: { default: 14, min: 2, max: 100, integer: true } },
+    minBars: (p) => p.period + 1,
+    compute: ({ candles }, p) => candleAnalyzer.getATR(candles, p.period)
+  },
+  atr_pct: {
+    description: 'ATR к цене, %',
+    params: { period: { default: 14, min: 2, max: 100, integer: true } },
+    minBars: (p) => p.period + 1,
+    compute: ({ candles }, p) => {
+      const atr = candleAnalyzer.getATR(candles, p.period);
+      const close = last(candles)?.close;
+      return atr != null && close ? (atr / close) * 100 : null;
+    }
+  },
+  dom_score: {
+    description: 'DOM score стакана (−1…1, > 0 — перевес покупателей)',
+    market: 'orderBook',
+    compute: ({ ctx }) => (ctx.orderBook ? analyzeOrderBook(ctx.orderBook).domScore : null)
+  },
+  ob_imbalance: {
+    description: 'Дисбаланс объёмов стакана (−1…1)',
+    market: 'orderBook',
+    compute: ({ ctx }) => (ctx.orderBook ? analyzeOrderBook(ctx.orderBook).imbalance : null)
+  },
+  spread_pct: {
+    description: 'Спред, %',
+    market: 'orderBook',
+    compute: ({ ctx }) => (ctx.orderBook ? analyzeOrderBook(ctx.orderBook).spreadPct : null)
+  },
+  tape_delta: {
+    description: 'Дельта ленты (покупки − продажи)',
+    market: 'trades',
+    compute: ({ ctx }) => (ctx.trades?.length ? analyzeTape(ctx.trades).delta : null)
+  },
+  funding: {
+    description: 'Ставка фандинга (доля за 8ч)',
+    market: 'funding',
+    compute: ({ ctx }) => ctx.fundingRate
+  },
+  mtf_long: {
+    description: 'Multi-TF: число TF с направлением LONG',
+    market: 'mtf',
+    compute: ({ ctx }) => mtfDirections(ctx).filter((d) => d === 'LONG').length
+  },
+  mtf_short: {
+    description: 'Multi-TF: число TF с направлением SHORT',
+    market: 'mtf',
+    compute: ({ ctx }) => mtfDirections(ctx).filter((d) => d === 'SHORT').length
+  },
+  mtf_aligned: {
+    description: 'Multi-TF: число TF в направлении проверяемого входа (long / short)',
+    market: 'mtf',
+    compute: ({ ctx, direction }) => mtfDirections(ctx).filter((d) => d === direction).length
+  }
+};
+
+/** Паттерны detectPatterns и отдельные детекторы CandleAnalyzer */
+const RULE_PATTERNS: CandlePattern[] = [
+  'bullish_engulfing', 'bearish_engulfing', 'hammer', 'inverted_hammer', 'hanging_man', 'shooting_star',
+  'doji', 'dragonfly_doji', 'gravestone_doji', 'tweezer_tops', 'tweezer_bottoms', 'bullish_harami', 'bearish_harami',
+  'piercing_line', 'dark_cloud_cover', 'morning_star', 'evening_star', 'three_white_soldiers', 'three_black_crows',
+  'spinning_top', 'bull_marubozu', 'bear_marubozu', 'binhv45_lower_bb_reversal', 'cluc_low_volume_dip'
+];
+
+const OPERATORS: RuleOperator[] = ['<', '<=', '>', '>=', '==', '!=', 'crossAbove', 'crossBelow'];
+
+const ID_RE = /^[a-z0-9][a-z0-9_-]{1,39}$/;
+const MAX_DEPTH = 8;
+const MAX_NODES = 100;
+const MAX_PARAMS = 20;
+/** Параметры выхода — всегда в схеме параметров правиловой стратегии */
+const EXIT_PARAM_KEYS = ['stopAtr', 'riskReward', 'baseConfidence'];
+
+/** Направления всех TF среза (analyzeTimeframe) */
+function mtfDirections(ctx: StrategyContext): ('LONG' | 'SHORT' | 'NEUTRAL')[] {
+  return MTF_ORDER.flatMap((tf) => {
+    const cs = ctx.candles[tf];
+    return cs && cs.length >= 5 ? [analyzeTimeframe(tf, cs).direction] : [];
+  });
+}
+
+/** Каталог для редактора: операнды с параметрами, паттерны, операторы, TF */
+export function ruleCatalog() {
+  return {
+    indicators: Object.entries(INDICATORS).map(([id, spec]) => ({
+      id,
+      description: spec.description,
+      params: spec.params ?? {},
+      market: spec.market ?? null
+    })),
+    patterns: RULE_PATTERNS,
+    operators: OPERATORS,
+    timeframes: MTF_ORDER
+  };
+}
+
+/** Проверка определения: все ошибки с путями; в data — нормализованная копия */
+export function parseRuleDefinition(raw: unknown): RuleResult<RuleStrategyDefinition> {
+  const errors: RuleValidationError[] = [];
+  const fail = (path: string, message: string) => {
+    errors.push({ path, message });
+  };
+  const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+  const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  if (!isObject(raw)) return { ok: false, error: 'Definition must be an object', errors: [{ path: '', message: 'must be an object' }] };
+
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  if (!ID_RE.test(id)) fail('id', 'must be 2–40 chars: a-z, 0-9, _ or -');
+  else if (isReservedStrategyId(id)) fail('id', `${id} is a built-in strategy`);
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name || name.length > 80) fail('name', 'required, up to 80 chars');
+  if (raw.description != null && (typeof raw.description !== 'string' || raw.description.length > 500)) {
+    fail('description', 'must be a string up to 500 chars');
+  }
+  if (raw.timeframe != null && !MTF_ORDER.includes(raw.timeframe as MtfTimeframe)) fail('timeframe', `one of ${MTF_ORDER.join(', ')}`);
+
+  const params: RuleParamSpec[] = [];
+  if (raw.params != null) {
+    if (!Array.isArray(raw.params) || raw.params.length > MAX_PARAMS) fail('params', `must be an array of up to ${MAX_PARAMS}`);
+    else {
+      raw.params.forEach((p, k) => {
+        const path = `params[${k}]`;
+        if (!isObject(p)) return fail(path, 'must be an object');
+        const key = typeof p.key === 'string' ? p.key : '';
+        if (!/^[a-zA-Z][a-zA-Z0-9_]{0,39}$/.test(key)) return fail(`${path}.key`, 'must be an identifier');
+        if (EXIT_PARAM_KEYS.includes(key) || params.some((q) => q.key === key)) return fail(`${path}.key`, `duplicate key ${key}`);
+        if (!finite(p.min) || !finite(p.max) || !finite(p.default) || p.min > p.max || p.default < p.min || p.default > p.max) {
+          return fail(path, 'min ≤ default ≤ max (numbers) required');
+        }
+        params.push({
+          key,
+          description: typeof p.description === 'string' ? p.description : undefined,
+          min: p.min,
+          max: p.max,
+          default: p.default,
+          integer: p.integer === true || undefined
+        });
+      });
+    }
+  }
+
+  let nodes = 0;
+  const indicatorRef = (v: Record<string, unknown>, path: string): RuleIndicatorRef | null => {
+    const name = typeof v.indicator === 'string' ? v.indicator : '';
+    const spec = INDICATORS[name];
+    if (!spec) {
+      fail(`${path}.indicator`, `unknown indicator ${name || '(empty)'}`);
+      return null;
+    }
+    if (v.tf != null) {
+      if (spec.market) fail(`${path}.tf`, `${name} has no timeframe`);
+      else if (!MTF_ORDER.includes(v.tf as MtfTimeframe)) fail(`${path}.tf`, `one of ${MTF_ORDER.join(', ')}`);
+    }
+    const ip: Record<string, number> = {};
+    if (v.params != null) {
+      if (!isObject(v.params)) fail(`${path}.params`, 'must be an object');
+      else {
+        for (const [key, value] of Object.entries(v.params)) {
+          const ps = spec.params?.[key];
+          if (!ps) fail(`${path}.params.${key}`, `unknown parameter of ${name}`);
+          else if (!finite(value) || value < ps.min || value > ps.max) fail(`${path}.params.${key}`, `${ps.min}–${ps.max}`);
+          else ip[key] = ps.integer ? Math.round(value) : value;
+        }
+      }
+    }
+    return { indicator: name, ...(v.tf != null ? { tf: v.tf as MtfTimeframe } : {}), ...(Object.keys(ip).length ? { params: ip } : {}) };
+  };
+
+  const condition = (v: unknown, path: string, depth: number): RuleCondition | null => {
+    if (++nodes > MAX_NODES) {
+      if (nodes === MAX_NODES + 1) fail(path, `too many conditions (max ${MAX_NODES})`);
+      return null;
+    }
+    if (depth > MAX_DEPTH) {
+      fail(path, `nesting deeper than ${MAX_DEPTH}`);
+      return null;
+    }
+    if (!isObject(v)) {
+      fail(path, 'must be an object');
+      return null;
+    }
+    for (const group of ['all', 'any'] as const) {
+      if (!(group in v)) continue;
+      const items = v[group];
+      if (!Array.isArray(items) || !items.length) {
+        fail(`${path}.${group}`, 'must be a non-empty array');
+        return null;
+      }
+      const parsed = items.map((item, k) => condition(item, `${path}.${group}[${k}]`, depth + 1));
+      return parsed.every(Boolean) ? ({ [group]: parsed } as RuleCondition) : null;
+    }
+    if ('not' in v) {
+      const inner = condition(v.not, `${path}.not`, depth + 1);
+      return inner ? { not: inner } : null;
+    }
+    if ('pattern' in v) {
+      if (!RULE_PATTERNS.includes(v.pattern as CandlePattern)) {
+        fail(`${path}.pattern`, `unknown pattern ${String(v.pattern)}`);
+        return null;
+      }
+      if (v.tf != null && !MTF_ORDER.includes(v.tf as MtfTimeframe)) {
+        fail(`${path}.tf`, `one of ${MTF_ORDER.join(', ')}`);
+        return null;
+      }
+      return { pattern: v.pattern as CandlePattern, ...(v.tf != null ? { tf: v.tf as MtfTimeframe } : {}) };
+    }
+    if (!('indicator' in v)) {
+      fail(path, 'expected all | any | not | pattern | indicator');
+      return null;
+    }
+    const left = indicatorRef(v, path);
+    const op = v.op as RuleOperator;
+    if (!OPERATORS.includes(op)) fail(`${path}.op`, `one of ${OPERATORS.join(' ')}`);
+    const cross = op === 'crossAbove' || op === 'crossBelow';
+    if (cross && left && INDICATORS[left.indicator].market) fail(`${path}.op`, `${op} needs a candle indicator`);
+    let value: RuleOperand | null = null;
+    if (finite(v.value)) value = v.value;
+    else if (isObject(v.value) && 'param' in v.value) {
+      const key = v.value.param;
+      if (!params.some((p) => p.key === key)) fail(`${path}.value.param`, `unknown param ${String(key)}`);
+      else value = { param: key as string };
+    } else if (isObject(v.value) && 'indicator' in v.value) {
+      value = indicatorRef(v.value, `${path}.value`);
+      if (value && cross && INDICATORS[value.indicator].market) fail(`${path}.value`, `${op} needs a candle indicator`);
+    } else fail(`${path}.value`, 'number, { param } or { indicator }');
+    if (!left || value == null || !OPERATORS.includes(op)) return null;
+    return { ...left, op, value };
+  };
+
+  const long = raw.long != null ? condition(raw.long, 'long', 1) : undefined;
+  const short = raw.short != null ? condition(raw.short, 'short', 1) : undefined;
+  if (raw.long == null && raw.short == null) fail('long', 'long and/or short rules required');
+
+  let confidence: RuleStrategyDefinition['confidence'];
+  if (raw.confidence != null) {
+    if (finite(raw.confidence)) {
+      if (raw.confidence < 0 || raw.confidence > 1) fail('confidence', '0–1');
+      confidence = raw.confidence;
+    } else if (isObject(raw.confidence)) {
+      const { base, bonuses } = raw.confidence;
+      if (!finite(base) || base < 0 || base > 1) fail('confidence.base', '0–1');
+      const parsedBonuses: { when: RuleCondition; add: number }[] = [];
+      if (bonuses != null) {
+        if (!Array.isArray(bonuses)) fail('confidence.bonuses', 'must be an array');
+        else {
+          bonuses.forEach((b, k) => {
+            const path = `confidence.bonuses[${k}]`;
+            if (!isObject(b)) return fail(path, 'must be an object');
+            if (!finite(b.add) || b.add < -1 || b.add > 1) fail(`${path}.add`, '−1…1');
+            const when = condition(b.when, `${path}.when`, 1);
+            if (when && finite(b.add)) parsedBonuses.push({ when, add: b.add });
+          });
+        }
+      }
+      confidence = { base: finite(base) ? base : 0, ...(parsedBonuses.length ? { bonuses: parsedBonuses } : {}) };
+    } else fail('confidence', 'number or { base, bonuses }');
+  }
+
+  let exit: RuleStrategyDefinition['exit'];
+  if (raw.exit != null) {
+    if (!isObject(raw.exit)) fail('exit', 'must be an object');
+    else {
+      const bounds: Record<string, [number, number]> = { stopAtr: [0.2, 10], atrPeriod: [2, 100], riskReward: [0.5, 10], takeProfits: [1, 3] };
+      exit = {};
+      for (const [key, [min, max]] of Object.entries(bounds)) {
+        const v = raw.exit[key];
+        if (v == null) continue;
+        if (!finite(v) || v < min || v > max) fail(`exit.${key}`, `${min}–${max}`);
+        else (exit as Record<string, number>)[key] = key === 'atrPeriod' || key === 'takeProfits' ? Math.round(v) : v;
+      }
+    }
+  }
+
+  if (errors.length) {
+    return { ok: false, error: errors.map((e) => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; '), errors };
+  }
+  return {
+    ok: true,
+    data: {
+      id,
+      name,
+      ...(typeof raw.description === 'string' && raw.description ? { description: raw.description } : {}),
+      ...(raw.timeframe != null ? { timeframe: raw.timeframe as MtfTimeframe } : {}),
+      ...(params.length ? { params } : {}),
+      ...(long ? { long } : {}),
+      ...(short ? { short } : {}),
+      ...(confidence != null ? { confidence } : {}),
+      ...(exit && Object.keys(exit).length ? { exit } : {})
+    }
+  };
+}
+
+/** Обход условий: индикаторы (в т.ч. в правой части сравнения) и паттерны */
+function walkConditions(def: RuleStrategyDefinition, visit: (ref: RuleIndicatorRef | { pattern: CandlePattern; tf?: MtfTimeframe }, cross: boolean) => void): void {
+  const walk = (c: RuleCondition) => {
+    if ('all' in c) c.all.forEach(walk);
+    else if ('any' in c) c.any.forEach(walk);
+    else if ('not' in c) walk(c.not);
+    else if ('pattern' in c) visit(c, false);
+    else {
+      const cross = c.op === 'crossAbove' || c.op === 'crossBelow';
+      visit(c, cross);
+      if (typeof c.value === 'object' && 'indicator' in c.value) visit(c.value, cross);
+    }
+  };
+  if (def.long) walk(def.long);
+  if (def.short) walk(def.short);
+  if (typeof def.confidence === 'object') def.confidence.bonuses?.forEach((b) => walk(b.when));
+}
+
+const indicatorParams = (ref: RuleIndicatorRef): Record<string, number> => {
+  const spec = INDICATORS[ref.indicator];
+  return { ...Object.fromEntries(Object.entries(spec.params ?? {}).map(([k, p]) => [k, p.default])), ...ref.params };
+};
+
+/** Значения операндов на срезе; memo — по индикатору, параметрам, TF, сдвигу и направлению (для mtf_aligned) */
+class RuleEvaluator {
+  readonly values: Record<string, number | null> = {};
+  readonly matchedPatterns = new Set<CandlePattern>();
+  private readonly memo = new Map<string, number | null>();
+
+  constructor(private readonly ctx: StrategyContext) {}
+
+  condition(c: RuleCondition, direction: 'LONG' | 'SHORT'): boolean {
+    if ('all' in c) return c.all.every((x) => this.condition(x, direction));
+    if ('any' in c) return c.any.some((x) => this.condition(x, direction));
+    if ('not' in c) return !this.condition(c.not, direction);
+    if ('pattern' in c) return this.pattern(c.pattern, c.tf);
+    const left = this.operand(c, direction, 0);
+    const right = this.operand(c.value, direction, 0);
+    if (left == null || right == null) return false;
+    switch (c.op) {
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case '==': return left === right;
+      case '!=': return left !== right;
+      default: {
+        const prevLeft = this.operand(c, direction, 1);
+        const prevRight = this.operand(c.value, direction, 1);
+        if (prevLeft == null || prevRight == null) return false;
+        return c.op === 'crossAbove' ? prevLeft <= prevRight && left > right : prevLeft >= prevRight && left < right;
+      }
+    }
+  }
+
+  private candles(tf: MtfTimeframe | undefined, shift: number): OHLCVCandle[] {
+    const cs = this.ctx.candles[tf ?? this.ctx.entryTimeframe] ?? [];
+    return shift ? cs.slice(0, cs.length - shift) : cs;
+  }
+
+  private pattern(pattern: CandlePattern, tf?: MtfTimeframe): boolean {
+    const cs = this.candles(tf, 0);
+    let matched: boolean;
+    if (pattern === 'binhv45_lower_bb_reversal') matched = candleAnalyzer.detectBinHV45LowerBB(cs);
+    else if (pattern === 'cluc_low_volume_dip') matched = candleAnalyzer.detectClucLowVolumeDip(cs);
+    else matched = detectPatterns(cs, candleAnalyzer).includes(pattern);
+    if (matched) this.matchedPatterns.add(pattern);
+    return matched;
+  }
+
+  private operand(v: RuleOperand, direction: 'LONG' | 'SHORT', shift: number): number | null {
+    if (typeof v === 'number') return v;
+    if ('param' in v) return this.ctx.params[v.param] ?? null;
+    const spec = INDICATORS[v.indicator];
+    const p = indicatorParams(v);
+    const paramsLabel = Object.values(p).join(',');
+    const label = `${v.indicator}${paramsLabel ? `(${paramsLabel})` : ''}${spec.market ? '' : `@${v.tf ?? this.ctx.entryTimeframe}`}`;
+    const key = `${label}|${shift}|${v.indicator === 'mtf_aligned' ? direction : ''}`;
+    if (!this.memo.has(key)) {
+      const value = spec.compute({ candles: spec.market ? [] : this.candles(v.tf, shift), ctx: this.ctx, direction }, p);
+      const result = value != null && Number.isFinite(value) ? value : null;
+      this.memo.set(key, result);
+      if (!shift && v.indicator !== 'mtf_aligned') this.values[label] = result;
+    }
+    return this.memo.get(key) ?? null;
+  }
+}
+
+/** Стратегия реестра из проверенного определения */
+export function compileRuleStrategy(def: RuleStrategyDefinition): Strategy {
+  const timeframes = new Set<MtfTimeframe>();
+  const market = new Set<MarketData>();
+  let minBars = 30;
+  walkConditions(def, (ref, cross) => {
+    if ('pattern' in ref) {
+      if (ref.tf && ref.tf !== def.timeframe) timeframes.add(ref.tf);
+      return;
+    }
+    const spec = INDICATORS[ref.indicator];
+    if (spec.market) {
+      market.add(spec.market);
+      return;
+    }
+    if (ref.tf && ref.tf !== def.timeframe) timeframes.add(ref.tf);
+    else minBars = Math.max(minBars, (spec.minBars?.(indicatorParams(ref)) ?? 1) + (cross ? 1 : 0));
+  });
+  if (market.has('mtf')) MTF_ORDER.forEach((tf) => timeframes.add(tf));
+  if (def.timeframe) timeframes.delete(def.timeframe);
+
+  const exit = def.exit ?? {};
+  const baseConfidence = typeof def.confidence === 'number' ? def.confidence : def.confidence?.base ?? 0.7;
+  const bonuses = typeof def.confidence === 'object' ? def.confidence.bonuses ?? [] : [];
+  const params: StrategyParamSpec[] = [
+    ...(def.params ?? []).map((p) => ({ ...p, description: p.description ?? p.key })),
+    { key: 'stopAtr', description: 'SL = ATR ×', min: 0.2, max: 10, default: exit.stopAtr ?? 1.5 },
+    { key: 'riskReward', description: 'TP1 = риск × R:R', min: 0.5, max: 10, default: exit.riskReward ?? 2 },
+    { key: 'baseConfidence', description: 'Базовая уверенность', min: 0, max: 1, default: baseConfidence }
+  ];
+
+  return {
+    id: def.id,
+    name: def.name,
+    description: def.description ?? 'Правиловая стратегия (JSON-DSL)',
+    source: 'rule',
+    requires: {
+      timeframes: MTF_ORDER.filter((tf) => timeframes.has(tf)),
+      orderBook: market.has('orderBook'),
+      trades: market.has('trades'),
+      funding: market.has('funding'),
+      lookback: Math.max(300, minBars * 3),
+      minBars,
+      ...(def.timeframe ? { entryTimeframe: def.timeframe } : {})
+    },
+    params,
+    analyze(ctx) {
+      const evaluator = new RuleEvaluator(ctx);
+      const isLong = def.long ? evaluator.condition(def.long, 'LONG') : false;
+      const isShort = def.short ? evaluator.condition(def.short, 'SHORT') : false;
+      // Обе стороны сразу — противоречивые правила, входа нет
+      if (isLong === isShort) return null;
+      const direction = isLong ? 'LONG' : 'SHORT';
+      let confidence = ctx.params.baseConfidence;
+      const applied: number[] = [];
+      bonuses.forEach((b, k) => {
+        if (evaluator.condition(b.when, direction)) {
+          confidence += b.add;
+          applied.push(k);
+        }
+      });
+      const entry = ctx.candles[ctx.entryTimeframe] ?? [];
+      const atr = candleAnalyzer.getATR(entry, exit.atrPeriod ?? 14);
+      const stopLoss = atrStop(ctx, direction, atr, ctx.params.stopAtr);
+      const signal = buildSignal(ctx, {
+        direction,
+        confidence,
+        stopLoss,
+        takeProfits: rrLadder(ctx.entryPrice, stopLoss, direction, ctx.params.riskReward, exit.takeProfits ?? 3),
+        triggers: [`rule_${def.id}`, ...evaluator.matchedPatterns]
+      });
+      return strategyResult(ctx, def.id, signal, {
+        reason: `${direction === 'LONG' ? 'long' : 'short'} rules matched${applied.length ? `, bonuses ${applied.join(', ')}` : ''}`,
+        metrics: evaluator.values,
+        atr,
+        rsi: Object.entries(evaluator.values).find(([k]) => k.startsWith('rsi('))?.[1] ?? null
+      });
+    }
+  };
+}
+
+function toRecord(row: RuleStrategyRow): RuleStrategyRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    definition: JSON.parse(row.definition) as RuleStrategyDefinition,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class RuleStrategies {
+  private records = new Map<string, RuleStrategyRecord>();
+  private loaded = false;
+
+  /** Загрузить определения и зарегистрировать стратегии; неверные пропускаются с предупреждением */
+  init(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    for (const row of listRuleStrategies()) {
+      try {
+        const record = toRecord(row);
+        const parsed = parseRuleDefinition(record.definition);
+        if (!parsed.ok) {
+          logger.warn('RuleStrategies', `Rule strategy ${row.id} skipped: ${parsed.error}`);
+          continue;
+        }
+        registerStrategy(compileRuleStrategy(parsed.data));
+        this.records.set(row.id, { ...record, definition: parsed.data });
+      } catch (e) {
+        logger.warn('RuleStrategies', `Rule strategy ${row.id} skipped`, { error: (e as Error).message });
+      }
+    }
+    if (this.records.size) logger.info('RuleStrategies', `Registered ${this.records.size} rule strategies`);
+  }
+
+  list(): RuleStrategyRecord[] {
+    this.init();
+    return [...this.records.values()];
+  }
+
+  get(id: string): RuleStrategyRecord | null {
+    this.init();
+    return this.records.get(id) ?? null;
+  }
+
+  /** Проверка без сохранения: описание скомпилированной стратегии (требования к данным, параметры) */
+  validate(raw: unknown): RuleResult<StrategyInfo> {
+    const parsed = parseRuleDefinition(raw);
+    if (!parsed.ok) return parsed;
+    const { analyze: _analyze, ...info } = compileRuleStrategy(parsed.data);
+    return { ok: true, data: info };
+  }
+
+  /** Создать (create) или заменить существующую (update); стратегия в реестре обновляется сразу */
+  save(raw: unknown, opts: { userId: string | null; mode: 'create' | 'update' }): RuleResult<RuleStrategyRecord> {
+    this.init();
+    const parsed = parseRuleDefinition(raw);
+    if (!parsed.ok) return parsed;
+    const def = parsed.data;
+    const existing = this.records.get(def.id);
+    if (opts.mode === 'update' && !existing) return { ok: false, error: 'Rule strategy not found', errors: [] };
+    if (opts.mode === 'create' && (existing || getStrategy(def.id))) {
+      return { ok: false, error: `Strategy ${def.id} already exists`, errors: [{ path: 'id', message: 'already exists' }] };
+    }
+    const now = Date.now();
+    const record: RuleStrategyRecord = {
+      id: def.id,
+      name: def.name,
+      definition: def,
+      createdBy: existing?.createdBy ?? opts.userId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    const strategy = compileRuleStrategy(def);
+    saveRuleStrategy({
+      id: record.id,
+      name: record.name,
+      definition: JSON.stringify(def),
+      created_by: record.createdBy,
+      created_at: record.createdAt,
+      updated_at: record.updatedAt
+    });
+    if (existing) unregisterStrategy(def.id);
+    registerStrategy(strategy);
+    this.records.set(def.id, record);
+    logger.info('RuleStrategies', `Rule strategy ${def.id} ${existing ? 'updated' : 'created'}`);
+    return { ok: true, data: record };
+  }
+
+  /** Удалить; сессии с этой стратегией пропускают циклы до смены стратегии */
+  remove(id: string): boolean {
+    this.init();
+    if (!this.records.has(id)) return false;
+    deleteRuleStrategy(id);
+    unregisterStrategy(id);
+    this.records.delete(id);
+    logger.info('RuleStrategies', `Rule strategy ${id} removed`);
+    return true;
+  }
+}
+
+export const ruleStrategies = new RuleStrategies();
@@ -0,0 +1,137 @@
+/**
+ * Signal Gate — фильтр между SignalGenerator и сохранением / рассылкой сигнала (addSignal, broadcast)
+ * - Повтор того же символа и направления на той же бирже в окне windowMinutes подавляется,
+ *   если confidence и цена входа не изменились существенно
+ * - Сигнал противоположного направления сменяет прежние (signalTracker.supersede)
+ * - Подавленные сигналы с причиной — в таблице signal_suppressions; конфиг — в settings
+ */
+
+import { getSetting, setSetting, listSignalRows, insertSignalSuppression, listSignalSuppressions, SignalSuppressionRow } from '../db';
+import { TradingSignal } from '../types/signal';
+import { normalizeSymbol } from '../lib/symbol';
+import { logger } from '../lib/logger';
+import { signalTracker } from './signalTracker';
+
+const SETTINGS_KEY = 'signal_gate';
+const SUPPRESSIONS_LIMIT = 50;
+
+export interface SignalGateConfig {
+  /** false — сигналы проходят без фильтра */
+  enabled: boolean;
+  windowMinutes: number;
+  /** Повтор проходит, если confidence изменилась на столько (0–1) */
+  minConfidenceDelta: number;
+  /** …или цена входа сдвинулась на столько, % */
+  minEntryChangePct: number;
+}
+
+export interface SignalGateStatus {
+  config: SignalGateConfig;
+  suppressed: SignalSuppressionRow[];
+}
+
+const DEFAULT_CONFIG: SignalGateConfig = {
+  enabled: true,
+  windowMinutes: 30,
+  minConfidenceDelta: 0.05,
+  minEntryChangePct: 0.5
+};
+
+/** Границы числовых полей для PUT /api/signals/gate */
+const CONFIG_BOUNDS: Record<Exclude<keyof SignalGateConfig, 'enabled'>, [number, number]> = {
+  windowMinutes: [1, 1440],
+  minConfidenceDelta: [0, 1],
+  minEntryChangePct: [0, 50]
+};
+
+/** Проверка и нормализация частичного конфига */
+export function parseSignalGateConfig(body: unknown): { ok: true; data: Partial<SignalGateConfig> } | { ok: false; error: string } {
+  if (!body || typeof body !== 'object') return { ok: false, error: 'Body must be an object' };
+  const b = body as Record<string, unknown>;
+  const patch: Partial<SignalGateConfig> = {};
+  for (const [key, [min, max]] of Object.entries(CONFIG_BOUNDS) as [keyof typeof CONFIG_BOUNDS, [number, number]][]) {
+    if (b[key] === undefined) continue;
+    const n = Number(b[key]);
+    if (!Number.isFinite(n) || n < min || n > max) return { ok: false, error: `${key}: ${min}–${max}` };
+    patch[key] = key === 'windowMinutes' ? Math.round(n) : n;
+  }
+  if (b.enabled !== undefined) {
+    if (typeof b.enabled !== 'boolean') return { ok: false, error: 'enabled must be a boolean' };
+    patch.enabled = b.enabled;
+  }
+  return { ok: true, data: patch };
+}
+
+export class SignalGate {
+  private config: SignalGateConfig = { ...DEFAULT_CONFIG };
+  private loaded = false;
+
+  /** Восстановить конфиг из settings */
+  init(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    const raw = getSetting(SETTINGS_KEY);
+    if (!raw) return;
+    try {
+      const parsed = parseSignalGateConfig(JSON.parse(raw));
+      if (parsed.ok) this.config = { ...this.config, ...parsed.data };
+    } catch (e) {
+      logger.warn('SignalGate', 'failed to restore config', { error: (e as Error).message });
+    }
+  }
+
+  status(opts: { symbol?: string; limit?: number } = {}): SignalGateStatus {
+    this.init();
+    const pair = opts.symbol ? normalizeSymbol(opts.symbol) || undefined : undefined;
+    return { config: { ...this.config }, suppressed: listSignalSuppressions({ pair, limit: opts.limit ?? SUPPRESSIONS_LIMIT }) };
+  }
+
+  updateConfig(patch: Partial<SignalGateConfig>): SignalGateStatus {
+    this.init();
+    this.config = { ...this.config, ...patch };
+    setSetting(SETTINGS_KEY, JSON.stringify(this.config));
+    return this.status();
+  }
+
+  /**
+   * Решение перед публикацией сигнала. Подавление записывается с причиной;
+   * при пропуске сигналы другого направления по символу помечаются сменёнными (data.superseded)
+   */
+  admit(signal: TradingSignal, now = Date.now()): { ok: true; data: { superseded: string[] } } | { ok: false; error: string } {
+    this.init();
+    if (!this.config.enabled) return { ok: true, data: { superseded: [] } };
+    const pair = normalizeSymbol(signal.symbol) || signal.symbol;
+    const { windowMinutes, minConfidenceDelta, minEntryChangePct } = this.config;
+    const previous = listSignalRows({ pair, direction: signal.direction, since: now - windowMinutes * 60_000, limit: 20 }).find(
+      (r) => r.id !== signal.id && r.superseded_by == null && (r.exchange ?? null) === (signal.exchange ?? null)
+    );
+    if (previous) {
+      const confidenceDelta = Math.abs((signal.confidence ?? 0) - previous.confidence);
+      const entryChangePct = previous.entry_price > 0 ? (Math.abs(signal.entry_price - previous.entry_price) / previous.entry_price) * 100 : Infinity;
+      if (confidenceDelta < minConfidenceDelta && entryChangePct < minEntryChangePct) {
+        const minutesAgo = Math.max(0, Math.round((now - previous.created_at) / 60_000));
+        const reason =
+          `duplicate of ${previous.id} (${minutesAgo}m ago): ` +
+          `Δconfidence ${confidenceDelta.toFixed(3)} < ${minConfidenceDelta}, Δentry ${entryChangePct.toFixed(3)}% < ${minEntryChangePct}%`;
+        insertSignalSuppression({
+          time: now,
+          signal_id: signal.id,
+          pair,
+          exchange: signal.exchange ?? null,
+          direction: signal.direction,
+          confidence: signal.confidence ?? 0,
+          entry_price: signal.entry_price,
+          reason,
+          duplicate_of: previous.id
+        });
+        logger.info('SignalGate', `${pair} ${signal.direction} suppressed: ${reason}`);
+        return { ok: false, error: reason };
+      }
+    }
+    const superseded = signalTracker.supersede(signal, now);
+    if (superseded.length) logger.info('SignalGate', `${pair} ${signal.direction} ${signal.id} supersedes ${superseded.join(', ')}`);
+    return { ok: true, data: { superseded } };
+  }
+}
+
+export const signalGate = new SignalGate();
@@ -0,0 +1,501 @@
+/**
+ * Signal Tracker — сигналы в SQLite (таблица signals) с AnalysisBreakdown, жизненным циклом и исходом
+ * - Жизненный цикл: active → triggered (цена дошла до зоны входа; сигнал без зоны — сразу, вход по рынку)
+ *   / expired (expires_at без входа) / invalidated (цена отмены или стоп до входа)
+ * - Исход по минутным свечам биржи сигнала после входа: первый достигнутый уровень (SL или TP1–TP3),
+ *   итог — старший TP до стопа, sl — стоп до TP1, timeout — ни одного уровня за горизонт
+ * - Точность сигналов — независимо от того, торговал ли их кто-то (без трейлинга и безубытка)
+ * - Старый data/signals.json импортируется один раз, если таблица пуста
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { saveSignal, getSignalRow, listSignalRows, hasSignals, SignalRow, SignalQuery } from '../db';
+import { TradingSignal } from '../types/signal';
+import { OHLCVCandle } from '../types/candle';
+import { normalizeSymbol } from '../lib/symbol';
+import { parseTimestamp } from '../lib/timeRange';
+import { logger } from '../lib/logger';
+import { getDataAggregator } from './dataAggregator';
+import { ExchangeId, DEFAULT_EXCHANGE, listExchangeAdapters } from './exchangeAdapters';
+
+const TRACK_INTERVAL_MS = 60_000;
+const CANDLE_MS = 60_000;
+/** Сколько после входа ждать SL / TP */
+export const OUTCOME_HORIZON_MS = 48 * 60 * 60 * 1000;
+/** Срок сигнала без expires_at */
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const MAX_TRACKED_PER_TICK = 500;
+const MAX_PAGE_SIZE = 500;
+/** Сколько сигналов максимум учитывает статистика */
+const STATS_MAX_ROWS = 20_000;
+const STATUSES: SignalStatus[] = ['active', 'triggered', 'expired', 'invalidated'];
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+export type SignalStatus = SignalRow['status'];
+export type SignalOutcome = NonNullable<SignalRow['outcome']>;
+
+/** Сигнал с состоянием жизненного цикла и исходом */
+export interface TrackedSignal extends TradingSignal {
+  status: SignalStatus;
+  status_reason: string | null;
+  triggered_at: number | null;
+  /** null — исход ещё отслеживается */
+  outcome: SignalOutcome | null;
+  first_hit: string | null;
+  tp_reached: number;
+  outcome_at: number | null;
+  max_favorable_pct: number | null;
+  max_adverse_pct: number | null;
+  superseded_by: string | null;
+}
+
+/** Агрегат исходов группы сигналов; hitRate — доля TP среди отработавших (sl / tp / timeout) */
+export interface OutcomeStats {
+  total: number;
+  triggered: number;
+  wins: number;
+  losses: number;
+  timeouts: number;
+  /** Вход был, исход ещё отслеживается */
+  pending: number;
+  /** Без входа: expired / invalidated */
+  notTriggered: number;
+  hitRate: number | null;
+  avgFavorablePct: number | null;
+  avgAdversePct: number | null;
+}
+
+export interface SignalStats {
+  overall: OutcomeStats;
+  byTrigger: Record<string, OutcomeStats>;
+  bySymbol: Record<string, OutcomeStats>;
+  /** Полосы confidence по 0.1: «0.8-0.9» */
+  byConfidence: Record<string, OutcomeStats>;
+  /** Час создания сигнала, UTC: «00»…«23» */
+  byHourUtc: Record<string, OutcomeStats>;
+  /** Статистика обрезана по STATS_MAX_ROWS */
+  truncated: boolean;
+}
+
+export type SignalFilter = Omit<SignalQuery, 'tracking' | 'limit' | 'before'> & { cursor?: string; limit?: number };
+
+function encodeCursor(row: SignalRow): string {
+  return Buffer.from(`${row.created_at}:${row.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): SignalQuery['before'] | null {
+  const raw = Buffer.from(cursor, 'base64url').toString('utf-8');
+  const i = raw.indexOf(':');
+  const createdAt = Number(raw.slice(0, i));
+  return i > 0 && Number.isFinite(createdAt) && raw.length > i + 1 ? { createdAt, id: raw.slice(i + 1) } : null;
+}
+
+/**
+ * Фильтры из query: symbol, direction, minConfidence / maxConfidence (0–1), trigger, timeframe,
+ * from / to (ms или ISO), status (через запятую), cursor, limit
+ */
+export function parseSignalFilter(query: Record<string, unknown>): { ok: true; data: SignalFilter } | { ok: false; error: string } {
+  const str = (key: string) => (typeof query[key] === 'string' && (query[key] as string).trim() ? (query[key] as string).trim() : undefined);
+  const data: SignalFilter = {};
+  const symbol = str('symbol');
+  if (symbol) {
+    data.pair = normalizeSymbol(symbol);
+    if (!data.pair) return { ok: false, error: 'symbol: invalid' };
+  }
+  const direction = str('direction')?.toUpperCase();
+  if (direction) {
+    if (direction !== 'LONG' && direction !== 'SHORT') return { ok: false, error: 'direction: LONG | SHORT' };
+    data.direction = direction;
+  }
+  for (const key of ['minConfidence', 'maxConfidence'] as const) {
+    const raw = str(key);
+    if (raw == null) continue;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0 || n > 1) return { ok: false, error: `${key}: 0–1` };
+    data[key] = n;
+  }
+  data.trigger = str('trigger');
+  data.timeframe = str('timeframe');
+  for (const [key, field] of [['from', 'since'], ['to', 'until']] as const) {
+    const raw = str(key);
+    if (raw == null) continue;
+    const t = parseTimestamp(raw);
+    if (t == null) return { ok: false, error: `${key}: ms or ISO date` };
+    data[field] = t;
+  }
+  const status = str('status');
+  if (status) {
+    const list = status.split(',').map((v) => v.trim().toLowerCase());
+    const bad = list.find((v) => !STATUSES.includes(v as SignalStatus));
+    if (bad) return { ok: false, error: `status: ${STATUSES.join(' | ')}` };
+    data.status = list as SignalStatus[];
+  }
+  data.cursor = str('cursor');
+  if (data.cursor && !decodeCursor(data.cursor)) return { ok: false, error: 'cursor: invalid' };
+  const limit = str('limit');
+  if (limit != null) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_PAGE_SIZE) return { ok: false, error: `limit: 1–${MAX_PAGE_SIZE}` };
+    data.limit = n;
+  }
+  return { ok: true, data };
+}
+
+function emptyStats(): OutcomeStats {
+  return {
+    total: 0, triggered: 0, wins: 0, losses: 0, timeouts: 0, pending: 0, notTriggered: 0,
+    hitRate: null, avgFavorablePct: null, avgAdversePct: null
+  };
+}
+
+function addToStats(stats: OutcomeStats, row: SignalRow): void {
+  stats.total++;
+  if (row.triggered_at == null) {
+    if (row.outcome != null) stats.notTriggered++;
+    return;
+  }
+  stats.triggered++;
+  if (row.outcome == null) stats.pending++;
+  else if (row.outcome === 'sl') stats.losses++;
+  else if (row.outcome === 'timeout') stats.timeouts++;
+  else if (row.outcome.startsWith('tp')) stats.wins++;
+  // Средние копятся суммой, делятся в finalizeStats
+  stats.avgFavorablePct = (stats.avgFavorablePct ?? 0) + (row.max_favorable_pct ?? 0);
+  stats.avgAdversePct = (stats.avgAdversePct ?? 0) + (row.max_adverse_pct ?? 0);
+}
+
+function finalizeStats(stats: OutcomeStats): OutcomeStats {
+  const resolved = stats.wins + stats.losses + stats.timeouts;
+  stats.hitRate = resolved ? round(stats.wins / resolved) : null;
+  if (stats.triggered) {
+    stats.avgFavorablePct = round((stats.avgFavorablePct ?? 0) / stats.triggered);
+    stats.avgAdversePct = round((stats.avgAdversePct ?? 0) / stats.triggered);
+  }
+  return stats;
+}
+
+function confidenceBand(confidence: number): string {
+  const lo = Math.min(Math.floor(Math.max(confidence, 0) * 10), 9) / 10;
+  return `${lo.toFixed(1)}-${(lo + 0.1).toFixed(1)}`;
+}
+
+function getDataDir(): string {
+  if (process.env.DATA_DIR) return path.join(process.env.DATA_DIR, 'data');
+  try {
+    if (typeof process !== 'undefined' && (process as NodeJS.Process & { versions?: { electron?: string } }).versions?.electron) {
+      const { app } = require('electron');
+      return path.join(app.getPath('userData'), 'data');
+    }
+  } catch {}
+  return path.join(process.cwd(), 'data');
+}
+
+/** Биржа сигнала по названию (OKX, Binance USDT-M…) или id */
+function exchangeIdOf(name: string | null): ExchangeId {
+  const raw = (name ?? '').trim();
+  return listExchangeAdapters().find((a) => a.name === raw || a.id === raw.toLowerCase())?.id ?? DEFAULT_EXCHANGE;
+}
+
+function parseTime(value: string | undefined, fallback: number): number {
+  const t = value ? Date.parse(value) : NaN;
+  return Number.isFinite(t) ? t : fallback;
+}
+
+function toRow(signal: TradingSignal, breakdown: unknown, now: number): SignalRow {
+  const createdAt = parseTime(signal.timestamp, now);
+  // Без зоны входа — вход по рынку в момент сигнала
+  const market = !signal.entry_zone;
+  const triggers = Array.isArray(signal.triggers) ? signal.triggers : [];
+  return {
+    id: signal.id,
+    pair: normalizeSymbol(signal.symbol) || signal.symbol,
+    direction: signal.direction,
+    entry_price: signal.entry_price,
+    stop_loss: signal.stop_loss,
+    take_profits: JSON.stringify(signal.take_profit ?? []),
+    risk_reward: signal.risk_reward ?? null,
+    confidence: signal.confidence ?? 0,
+    timestamp: signal.timestamp,
+    trigger_type: triggers[0] ?? null,
+    exchange: signal.exchange ?? null,
+    timeframe: signal.timeframe ?? null,
+    status: market ? 'triggered' : 'active',
+    analysis_data: breakdown != null ? JSON.stringify(breakdown) : null,
+    triggers: JSON.stringify(triggers),
+    signal: JSON.stringify(signal),
+    created_at: createdAt,
+    expires_at: parseTime(signal.expires_at, createdAt + DEFAULT_TTL_MS),
+    status_reason: market ? 'market_entry' : null,
+    status_at: market ? createdAt : null,
+    triggered_at: market ? createdAt : null,
+    outcome: null,
+    first_hit: null,
+    tp_reached: 0,
+    outcome_at: null,
+    max_favorable_pct: null,
+    max_adverse_pct: null,
+    checked_until: null,
+    superseded_by: null
+  };
+}
+
+function toTracked(row: SignalRow): TrackedSignal {
+  return {
+    ...(JSON.parse(row.signal) as TradingSignal),
+    status: row.status,
+    status_reason: row.status_reason,
+    triggered_at: row.triggered_at,
+    outcome: row.outcome,
+    first_hit: row.first_hit,
+    tp_reached: row.tp_reached ?? 0,
+    outcome_at: row.outcome_at,
+    max_favorable_pct: row.max_favorable_pct,
+    max_adverse_pct: row.max_adverse_pct,
+    superseded_by: row.superseded_by ?? null
+  };
+}
+
+function setOutcome(row: SignalRow, outcome: SignalOutcome, at: number): void {
+  row.outcome = outcome;
+  row.outcome_at = at;
+}
+
+/** Итог по достигнутым TP: tp1…tp3 или fallback (sl / timeout) */
+function reachedOutcome(tpReached: number, fallback: SignalOutcome): SignalOutcome {
+  return tpReached > 0 ? (`tp${Math.min(tpReached, 3)}` as SignalOutcome) : fallback;
+}
+
+/**
+ * Провести сигнал по закрытым и текущей свечам (от старых к новым). Меняет row.
+ * В одной свече со стопом и TP считается, что первым был стоп (консервативно).
+ */
+export function advanceSignal(row: SignalRow, signal: TradingSignal, candles: OHLCVCandle[], now: number): void {
+  const long = row.direction === 'LONG';
+  const tps = (JSON.parse(row.take_profits) as number[]).filter((p) => Number.isFinite(p) && p > 0);
+  const entry = row.entry_price;
+  const zone = signal.entry_zone ?? { min: entry, max: entry, optimal: entry };
+  const cancelPrice = signal.invalidation_price ?? row.stop_loss;
+
+  for (const c of candles) {
+    if (row.outcome != null) break;
+    if (c.timestamp < row.created_at || (row.checked_until != null && c.timestamp < row.checked_until)) continue;
+
+    if (row.status === 'active') {
+      if (row.expires_at != null && c.timestamp >= row.expires_at) {
+        row.status = 'expired';
+        row.status_reason = 'not_triggered';
+        row.status_at = row.expires_at;
+        setOutcome(row, 'none', row.expires_at);
+        break;
+      }
+      if (c.low <= zone.max && c.high >= zone.min) {
+        row.status = 'triggered';
+        row.status_reason = 'entry_zone';
+        row.status_at = c.timestamp;
+        row.triggered_at = c.timestamp;
+      } else if (long ? c.low <= cancelPrice : c.high >= cancelPrice) {
+        row.status = 'invalidated';
+        row.status_reason = signal.invalidation_price != null ? 'invalidation_price' : 'stop_loss';
+        row.status_at = c.timestamp;
+        setOutcome(row, 'none', c.timestamp);
+        break;
+      } else {
+        continue;
+      }
+    }
+
+    const favorable = ((long ? c.high - entry : entry - c.low) / entry) * 100;
+    const adverse = ((long ? entry - c.low : c.high - entry) / entry) * 100;
+    row.max_favorable_pct = round(Math.max(row.max_favorable_pct ?? 0, favorable));
+    row.max_adverse_pct = round(Math.max(row.max_adverse_pct ?? 0, adverse));
+
+    if (long ? c.low <= row.stop_loss : c.high >= row.stop_loss) {
+      row.first_hit = row.first_hit ?? 'sl';
+      setOutcome(row, reachedOutcome(row.tp_reached, 'sl'), c.timestamp);
+      break;
+    }
+    let reached = row.tp_reached;
+    while (reached < tps.length && (long ? c.high >= tps[reached] : c.low <= tps[reached])) reached++;
+    if (reached > row.tp_reached) {
+      row.first_hit = row.first_hit ?? `tp${Math.min(reached, 3)}`;
+      row.tp_reached = reached;
+      if (reached >= tps.length) {
+        setOutcome(row, reachedOutcome(reached, 'timeout'), c.timestamp);
+        break;
+      }
+    }
+    if (row.triggered_at != null && c.timestamp >= row.triggered_at + OUTCOME_HORIZON_MS) {
+      setOutcome(row, reachedOutcome(row.tp_reached, 'timeout'), c.timestamp);
+      break;
+    }
+  }
+
+  if (candles.length) row.checked_until = Math.max(row.checked_until ?? 0, candles[candles.length - 1].timestamp);
+
+  // Свечей нет (символ снят, биржа недоступна) — сроки всё равно истекают
+  if (row.outcome == null && row.status === 'active' && row.expires_at != null && now >= row.expires_at + CANDLE_MS) {
+    row.status = 'expired';
+    row.status_reason = 'not_triggered';
+    row.status_at = row.expires_at;
+    setOutcome(row, 'none', row.expires_at);
+  }
+  if (row.outcome == null && row.triggered_at != null && now >= row.triggered_at + OUTCOME_HORIZON_MS + CANDLE_MS) {
+    setOutcome(row, reachedOutcome(row.tp_reached, 'timeout'), now);
+  }
+}
+
+export class SignalTracker {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private busy = false;
+
+  /** Импорт signals.json (однократно) и запуск отслеживания */
+  init(): void {
+    if (this.timer) return;
+    this.importLegacy();
+    this.timer = setInterval(() => {
+      this.tick().catch((e) => logger.warn('SignalTracker', 'tick failed', { error: (e as Error).message }));
+    }, TRACK_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Сохранить сигнал; повторный вызов с тем же id только дополняет разбор анализа */
+  record(signal: TradingSignal, breakdown?: unknown): void {
+    const existing = getSignalRow(signal.id);
+    if (existing) {
+      if (breakdown != null && !existing.analysis_data) saveSignal({ ...existing, analysis_data: JSON.stringify(breakdown) });
+      return;
+    }
+    saveSignal(toRow(signal, breakdown, Date.now()));
+  }
+
+  /**
+   * Смена направления: отслеживаемые сигналы символа на той же бирже с другим направлением помечаются superseded_by.
+   * Ещё не сработавшие снимаются (invalidated), у сработавших исход отслеживается дальше
+   */
+  supersede(signal: TradingSignal, now = Date.now()): string[] {
+    const pair = normalizeSymbol(signal.symbol) || signal.symbol;
+    const exchange = exchangeIdOf(signal.exchange);
+    const rows = listSignalRows({ pair, tracking: true, limit: MAX_TRACKED_PER_TICK }).filter(
+      (r) => r.direction !== signal.direction && r.superseded_by == null && exchangeIdOf(r.exchange) === exchange
+    );
+    for (const row of rows) {
+      row.superseded_by = signal.id;
+      if (row.status === 'active') {
+        row.status = 'invalidated';
+        row.status_reason = 'superseded';
+        row.status_at = now;
+        setOutcome(row, 'none', now);
+      }
+      saveSignal(row);
+    }
+    return rows.map((r) => r.id);
+  }
+
+  get(id: string): (TrackedSignal & { breakdown: unknown }) | null {
+    const row = getSignalRow(id);
+    if (!row) return null;
+    return { ...toTracked(row), breakdown: row.analysis_data ? JSON.parse(row.analysis_data) : null };
+  }
+
+  list(opts: { since?: number; limit?: number } = {}): TrackedSignal[] {
+    return listSignalRows(opts).map(toTracked);
+  }
+
+  /** Страница сигналов по фильтрам; nextCursor — null на последней странице */
+  query(filter: SignalFilter): { signals: TrackedSignal[]; nextCursor: string | null } {
+    const { cursor, limit = 50, ...query } = filter;
+    const rows = listSignalRows({ ...query, before: cursor ? decodeCursor(cursor) ?? undefined : undefined, limit: limit + 1 });
+    const page = rows.slice(0, limit);
+    return { signals: page.map(toTracked), nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null };
+  }
+
+  /** Точность сигналов по триггерам, символам, полосам confidence и часу суток */
+  stats(filter: SignalFilter = {}): SignalStats {
+    const { cursor: _cursor, limit: _limit, ...query } = filter;
+    const rows = listSignalRows({ ...query, limit: STATS_MAX_ROWS + 1 });
+    const result: SignalStats = {
+      overall: emptyStats(), byTrigger: {}, bySymbol: {}, byConfidence: {}, byHourUtc: {},
+      truncated: rows.length > STATS_MAX_ROWS
+    };
+    const bucket = (map: Record<string, OutcomeStats>, key: string) => (map[key] ??= emptyStats());
+    for (const row of rows.slice(0, STATS_MAX_ROWS)) {
+      addToStats(result.overall, row);
+      for (const trigger of new Set(JSON.parse(row.triggers) as string[])) addToStats(bucket(result.byTrigger, trigger), row);
+      addToStats(bucket(result.bySymbol, row.pair), row);
+      addToStats(bucket(result.byConfidence, confidenceBand(row.confidence)), row);
+      addToStats(bucket(result.byHourUtc, String(new Date(row.created_at).getUTCHours()).padStart(2, '0')), row);
+    }
+    finalizeStats(result.overall);
+    for (const map of [result.byTrigger, result.bySymbol, result.byConfidence, result.byHourUtc]) Object.values(map).forEach(finalizeStats);
+    return result;
+  }
+
+  /** Один проход: свечи 1m по каждой паре биржа+символ, продвижение отслеживаемых сигналов */
+  async tick(now = Date.now()): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      const rows = listSignalRows({ tracking: true, limit: MAX_TRACKED_PER_TICK });
+      const groups = new Map<string, SignalRow[]>();
+      for (const row of rows) {
+        const key = `${exchangeIdOf(row.exchange)}:${row.pair}`;
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+      }
+      for (const [key, group] of groups) {
+        const [exchange, symbol] = key.split(':') as [ExchangeId, string];
+        const from = Math.min(...group.map((r) => r.checked_until ?? Math.ceil(r.created_at / CANDLE_MS) * CANDLE_MS));
+        let candles: OHLCVCandle[] = [];
+        try {
+          candles = await getDataAggregator(exchange).getOHLCVRange(symbol, '1m', { from, to: now });
+        } catch (e) {
+          logger.debug('SignalTracker', `candles ${key} failed`, { error: (e as Error).message });
+        }
+        for (const row of group) {
+          const before = JSON.stringify(row);
+          advanceSignal(row, JSON.parse(row.signal) as TradingSignal, candles, now);
+          if (JSON.stringify(row) === before) continue;
+          saveSignal(row);
+          if (row.outcome != null) {
+            logger.info('SignalTracker', `${row.pair} ${row.direction} ${row.id}: ${row.status} → ${row.outcome}`);
+          }
+        }
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /** Сигналы из старого data/signals.json; старше горизонта — без отслеживания */
+  private importLegacy(): void {
+    const file = path.join(getDataDir(), 'signals.json');
+    if (!fs.existsSync(file) || hasSignals()) return;
+    try {
+      const arr = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (!Array.isArray(arr)) return;
+      const now = Date.now();
+      for (const signal of arr as TradingSignal[]) {
+        if (!signal?.id || !signal.symbol) continue;
+        const row = toRow(signal, null, now);
+        if (row.created_at < now - OUTCOME_HORIZON_MS) {
+          row.status = row.status === 'active' ? 'expired' : row.status;
+          row.status_reason = 'imported';
+          row.outcome = 'none';
+          row.outcome_at = now;
+        }
+        saveSignal(row);
+      }
+      logger.info('SignalTracker', `Imported ${arr.length} signals from ${file}`);
+    } catch (e) {
+      logger.warn('SignalTracker', 'signals.json import failed', { error: (e as Error).message });
+    }
+  }
+}
+
+export const signalTracker = new SignalTracker();
@@ -0,0 +1,487 @@
+/**
+ * Strategies — подключаемые стратегии генерации сигнала
+ * - Strategy: какие данные нужны (TF, стакан, лента, фандинг), схема параметров с границами, analyze(контекст) → сигнал | null
+ * - Контекст собирают runAnalysis (live) и бэктест (срез без заглядывания вперёд); сетевых запросов в analyze нет
+ * - default — конвейер analysisPipeline (прежняя логика runAnalysis), константы решения — параметры стратегии
+ * - Реестр: выбор по id в сессиях авто-торговли, бэктесте и сравнении стратегий;
+ *   правиловые стратегии (services/ruleStrategies) регистрируются и снимаются во время работы
+ */
+
+import { TradingSignal } from '../types/signal';
+import { SignalGenerator } from './signalGenerator';
+import { CandleAnalyzer } from './candleAnalyzer';
+import { LevelDetector } from './levelDetector';
+import { BreakoutDetector } from './breakoutDetector';
+import { AnalysisBreakdown } from './marketAnalysis';
+import {
+  evaluateMarket,
+  MarketSnapshot,
+  MtfTimeframe,
+  MTF_ORDER,
+  MTF_LIMITS,
+  TimeframeResult,
+  PipelineTuning,
+  DEFAULT_PIPELINE_TUNING
+} from './analysisPipeline';
+import { volatilitySizeMultiplier } from '../lib/tradingPrinciples';
+
+export const DEFAULT_STRATEGY_ID = 'default';
+/** Прежние названия: strategy: "pipeline" в бэктесте */
+const STRATEGY_ALIASES: Record<string, string> = { pipeline: DEFAULT_STRATEGY_ID };
+
+/** Числовой параметр стратегии (границы — для проверки запросов) */
+export interface StrategyParamSpec {
+  key: string;
+  description: string;
+  min: number;
+  max: number;
+  default: number;
+  integer?: boolean;
+}
+
+export type StrategyParams = Record<string, number>;
+
+/** Данные, которые стратегия читает из контекста */
+export interface StrategyRequirements {
+  /** TF свечей помимо входного */
+  timeframes: MtfTimeframe[];
+  orderBook: boolean;
+  trades: boolean;
+  funding: boolean;
+  /** Свечей входного TF в срезе и прогрев бэктеста; по умолчанию MTF_LIMITS */
+  lookback?: number;
+  /** Меньше свечей входного TF — данных недостаточно */
+  minBars: number;
+  /** Live: фиксированный TF входа (иначе — TF анализа) */
+  entryTimeframe?: MtfTimeframe;
+}
+
+/** Срез рынка для analyze: закрытые свечи, стакан, лента, фандинг на момент now */
+export interface StrategyContext extends MarketSnapshot {
+  entryTimeframe: MtfTimeframe;
+  /** Ставка фандинга (доля за 8ч); null — нет данных */
+  fundingRate: number | null;
+  /** Параметры с подставленными значениями по умолчанию */
+  params: StrategyParams;
+  signalGenerator: SignalGenerator;
+  /** Кэш результатов по TF между вызовами (бэктест) */
+  tfCache?: Map<string, TimeframeResult>;
+}
+
+export interface StrategyResult {
+  signal: TradingSignal;
+  /** Разбор решения: AnalysisBreakdown у default, у остальных — { strategy, reason, metrics } */
+  breakdown: AnalysisBreakdown | Record<string, unknown>;
+  atr: number | null;
+  rsi: number | null;
+  patterns: string[];
+  volumeConfirm: boolean;
+  /** Анализ выполнен, вход запрещён (default: спред / ликвидность) */
+  blocked?: string;
+}
+
+export interface Strategy {
+  id: string;
+  name: string;
+  description: string;
+  /** rule — собрана из JSON-правил (services/ruleStrategies); по умолчанию builtin */
+  source?: 'builtin' | 'rule';
+  requires: StrategyRequirements;
+  params: StrategyParamSpec[];
+  /** null — нет сетапа на этом срезе */
+  analyze(ctx: StrategyContext): StrategyResult | null;
+}
+
+/** Описание стратегии для API (без analyze) */
+export type StrategyInfo = Omit<Strategy, 'analyze'>;
+
+const candleAnalyzer = new CandleAnalyzer();
+const levelDetector = new LevelDetector();
+const breakoutDetector = new BreakoutDetector();
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/** TP1..TPn: R:R, +1.2R, +2.5R — как лестница SignalGenerator */
+export function rrLadder(entry: number, stop: number, direction: 'LONG' | 'SHORT', rr: number, count = 3): number[] {
+  const risk = Math.abs(entry - stop);
+  const sign = direction === 'LONG' ? 1 : -1;
+  return [0, 1.2, 2.5].slice(0, count).map((extra) => entry + sign * risk * (rr + extra));
+}
+
+/** Сигнал с уровнями стратегии: id, срок и трейлинг — от SignalGenerator */
+export function buildSignal(
+  ctx: StrategyContext,
+  opts: {
+    direction: 'LONG' | 'SHORT';
+    confidence: number;
+    stopLoss: number;
+    takeProfits: number[];
+    triggers: string[];
+    entryZone?: TradingSignal['entry_zone'];
+    invalidationPrice?: number;
+  }
+): TradingSignal {
+  const base = ctx.signalGenerator.generateSignal({
+    symbol: ctx.symbol.replace('-', '/'),
+    exchange: ctx.exchange ?? 'OKX',
+    direction: opts.direction,
+    entryPrice: ctx.entryPrice,
+    patterns: ['none'],
+    confidence: opts.confidence,
+    timeframe: ctx.timeframe,
+    mode: ctx.mode
+  });
+  const risk = Math.abs(ctx.entryPrice - opts.stopLoss);
+  const lastTp = opts.takeProfits[opts.takeProfits.length - 1] ?? ctx.entryPrice;
+  return {
+    ...base,
+    stop_loss: opts.stopLoss,
+    take_profit: opts.takeProfits,
+    risk_reward: risk > 0 ? round(Math.abs(lastTp - ctx.entryPrice) / risk, 1) : 0,
+    confidence: round(Math.max(0, Math.min(1, opts.confidence))),
+    triggers: opts.triggers,
+    trailing_stop_config: base.trailing_stop_config ? { ...base.trailing_stop_config, initial_stop: opts.stopLoss } : undefined,
+    ...(opts.entryZone ? { entry_zone: opts.entryZone, invalidation_price: opts.invalidationPrice } : {})
+  };
+}
+
+/** Результат стратегии без конвейера: breakdown { strategy, reason, metrics } + множитель размера по ATR */
+export function strategyResult(
+  ctx: StrategyContext,
+  strategyId: string,
+  signal: TradingSignal,
+  extra: { reason: string; metrics: Record<string, unknown>; atr: number | null; rsi?: number | null; volumeConfirm?: boolean }
+): StrategyResult {
+  const entry = ctx.candles[ctx.entryTimeframe] ?? [];
+  const volatilityMultiplier = volatilitySizeMultiplier(extra.atr, candleAnalyzer.getATRAvg(entry) ?? null);
+  return {
+    signal,
+    breakdown: { strategy: strategyId, reason: extra.reason, metrics: extra.metrics, volatilityMultiplier },
+    atr: extra.atr,
+    rsi: extra.rsi ?? null,
+    patterns: signal.triggers,
+    volumeConfirm: extra.volumeConfirm ?? false
+  };
+}
+
+/** Стоп на atrMult × ATR от входа (без ATR — 1%) */
+export function atrStop(ctx: StrategyContext, direction: 'LONG' | 'SHORT', atr: number | null, atrMult: number): number {
+  const dist = atr != null && atr > 0 ? atr * atrMult : ctx.entryPrice * 0.01;
+  return direction === 'LONG' ? ctx.entryPrice - dist : ctx.entryPrice + dist;
+}
+
+const MTF_WEIGHT_KEYS: Record<MtfTimeframe, string> = {
+  '1d': 'mtfWeight1d', '4h': 'mtfWeight4h', '1h': 'mtfWeight1h', '15m': 'mtfWeight15m', '5m': 'mtfWeight5m', '1m': 'mtfWeight1m'
+};
+
+/** default — конвейер analysisPipeline; параметры — PipelineTuning */
+const defaultStrategy: Strategy = {
+  id: DEFAULT_STRATEGY_ID,
+  name: 'Multi-TF confluence',
+  description: 'Стакан, лента, Multi-TF (HTF-first), паттерны и freqtrade-индикаторы; SL/TP — лестница SignalGenerator',
+  requires: { timeframes: [...MTF_ORDER], orderBook: true, trades: true, funding: false, minBars: 50, entryTimeframe: '5m' },
+  params: [
+    ...MTF_ORDER.map((tf) => ({
+      key: MTF_WEIGHT_KEYS[tf],
+      description: `Вес ${tf} в направлении Multi-TF`,
+      min: 0,
+      max: 1,
+      default: DEFAULT_PIPELINE_TUNING.mtfWeights[tf]
+    })),
+    { key: 'mtfDirectionMargin', description: 'Перевес весов TF для направления', min: 0, max: 1, default: DEFAULT_PIPELINE_TUNING.mtfDirectionMargin },
+    { key: 'alignBonus5', description: 'Бонус confidence: 5+ TF согласны', min: 0, max: 0.3, default: DEFAULT_PIPELINE_TUNING.alignBonus5 },
+    { key: 'alignBonus4', description: 'Бонус confidence: 4 TF согласны', min: 0, max: 0.3, default: DEFAULT_PIPELINE_TUNING.alignBonus4 },
+    { key: 'alignBonus3', description: 'Бонус confidence: 3 TF согласны', min: 0, max: 0.3, default: DEFAULT_PIPELINE_TUNING.alignBonus3 },
+    { key: 'weakAlignPenalty', description: 'Штраф: согласны < 3 TF', min: 0, max: 0.3, default: DEFAULT_PIPELINE_TUNING.weakAlignPenalty },
+    { key: 'counterHtfPenalty', description: 'Штраф: против тренда 1d / 4h', min: 0, max: 0.5, default: DEFAULT_PIPELINE_TUNING.counterHtfPenalty }
+  ],
+  analyze(ctx) {
+    const p = ctx.params;
+    const tuning: PipelineTuning = {
+      mtfWeights: Object.fromEntries(MTF_ORDER.map((tf) => [tf, p[MTF_WEIGHT_KEYS[tf]]])) as Record<MtfTimeframe, number>,
+      mtfDirectionMargin: p.mtfDirectionMargin,
+      alignBonus5: p.alignBonus5,
+      alignBonus4: p.alignBonus4,
+      alignBonus3: p.alignBonus3,
+      weakAlignPenalty: p.weakAlignPenalty,
+      counterHtfPenalty: p.counterHtfPenalty
+    };
+    const result = evaluateMarket(ctx, ctx.signalGenerator, { tfCache: ctx.tfCache, tuning });
+    return {
+      signal: result.signal,
+      breakdown: result.breakdown,
+      atr: result.atr,
+      rsi: result.rsi,
+      patterns: result.patterns,
+      volumeConfirm: result.volumeConfirm,
+      ...(result.faBlocked ? { blocked: 'spread/liquidity' } : {})
+    };
+  }
+};
+
+/** rsi — RSI-экстремум + направление последней свечи (прежняя стратегия rsi бэктеста) */
+const rsiStrategy: Strategy = {
+  id: 'rsi',
+  name: 'RSI reversal',
+  description: 'RSI ниже oversold / выше overbought и свеча в сторону разворота; SL — ATR, один TP по R:R',
+  requires: { timeframes: [], orderBook: false, trades: false, funding: false, lookback: 500, minBars: 30 },
+  params: [
+    { key: 'rsiPeriod', description: 'Период RSI', min: 2, max: 50, default: 14, integer: true },
+    { key: 'oversold', description: 'RSI для LONG ниже', min: 5, max: 50, default: 35 },
+    { key: 'overbought', description: 'RSI для SHORT выше', min: 50, max: 95, default: 65 },
+    { key: 'atrSlMultiplier', description: 'SL = ATR ×', min: 0.2, max: 10, default: 1.5 },
+    { key: 'riskReward', description: 'TP = риск × R:R', min: 0.5, max: 10, default: 2 }
+  ],
+  analyze(ctx) {
+    const candles = ctx.candles[ctx.entryTimeframe] ?? [];
+    const { rsiPeriod, oversold, overbought, atrSlMultiplier, riskReward } = ctx.params;
+    const rsi = candleAnalyzer.getRSI(candles.map((c) => c.close), rsiPeriod);
+    const last = candles[candles.length - 1];
+    if (rsi == null || !last) return null;
+    let direction: 'LONG' | 'SHORT' | null = null;
+    let score = 0;
+    if (rsi < oversold) {
+      direction = 'LONG';
+      score = 1 - rsi / oversold;
+    } else if (rsi > overbought) {
+      direction = 'SHORT';
+      score = (rsi - overbought) / (100 - overbought);
+    }
+    if (!direction) return null;
+    if (direction === 'LONG' && last.close < last.open) return null;
+    if (direction === 'SHORT' && last.close > last.open) return null;
+    const atr = candleAnalyzer.getATR(candles, 14);
+    const stopLoss = atrStop(ctx, direction, atr, atrSlMultiplier);
+    const signal = buildSignal(ctx, {
+      direction,
+      confidence: score,
+      stopLoss,
+      takeProfits: rrLadder(ctx.entryPrice, stopLoss, direction, riskReward, 1),
+      triggers: [direction === 'LONG' ? 'rsi_oversold_reversal' : 'rsi_overbought_reversal']
+    });
+    return strategyResult(ctx, 'rsi', signal, { reason: `RSI ${rsi.toFixed(1)}`, metrics: { rsi }, atr, rsi });
+  }
+};
+
+/** breakout — пробой уровня 15m (LevelDetector + BreakoutDetector), вход из зоны отката */
+const breakoutStrategy: Strategy = {
+  id: 'breakout',
+  name: 'Level breakout',
+  description: 'Пробой ближайшего уровня 15m с подтверждением объёмом, стаканом и лентой; SL — цена отмены пробоя',
+  requires: { timeframes: ['15m'], orderBook: true, trades: true, funding: false, lookback: 200, minBars: 20 },
+  params: [
+    { key: 'levelDistancePct', description: 'Макс. расстояние до уровня, %', min: 0.1, max: 10, default: 2 },
+    { key: 'riskReward', description: 'TP1 = риск × R:R', min: 0.5, max: 10, default: 2 }
+  ],
+  analyze(ctx) {
+    const levelCandles = ctx.candles['15m'] ?? [];
+    if (levelCandles.length < 20) return null;
+    const level = levelDetector.findNearestLevel(
+      ctx.entryPrice,
+      levelDetector.detectLevels(levelCandles, 'medium'),
+      ctx.params.levelDistancePct / 100
+    );
+    if (!level) return null;
+    const breakout = breakoutDetector.detectBreakout(
+      ctx.entryPrice,
+      level,
+      ctx.orderBook ?? { bids: [], asks: [] },
+      ctx.trades ?? [],
+      levelCandles
+    );
+    if (!breakout) return null;
+    const { direction, invalidationPrice } = breakout;
+    const validStop = direction === 'LONG' ? invalidationPrice < ctx.entryPrice : invalidationPrice > ctx.entryPrice;
+    if (!validStop) return null;
+    const atr = candleAnalyzer.getATR(ctx.candles[ctx.entryTimeframe] ?? [], 14);
+    const signal = buildSignal(ctx, {
+      direction,
+      confidence: breakout.confidence,
+      stopLoss: invalidationPrice,
+      takeProfits: rrLadder(ctx.entryPrice, invalidationPrice, direction, ctx.params.riskReward),
+      triggers: ['level_breakout', ...(breakout.volumeConfirmation ? ['breakout_volume'] : [])],
+      entryZone: breakout.entryZone,
+      invalidationPrice
+    });
+    return strategyResult(ctx, 'breakout', signal, {
+      reason: breakout.reasons.join('; ') || `Breakout ${level.price}`,
+      metrics: { level: level.price, levelStrength: level.strength, ...breakout.metrics, falseBreakoutRisk: breakout.falseBreakoutRisk },
+      atr,
+      volumeConfirm: breakout.volumeConfirmation
+    });
+  }
+};
+
+/** mean_reversion — закрытие за полосой Боллинджера при экстремуме RSI, цель — средняя */
+const meanReversionStrategy: Strategy = {
+  id: 'mean_reversion',
+  name: 'Mean reversion',
+  description: 'Закрытие за полосой Боллинджера при RSI в зоне перепроданности / перекупленности; TP1 — средняя, TP2 — противоположная полоса',
+  requires: { timeframes: [], orderBook: false, trades: false, funding: false, lookback: 300, minBars: 40 },
+  params: [
+    { key: 'bbPeriod', description: 'Период полос Боллинджера', min: 5, max: 100, default: 20, integer: true },
+    { key: 'bbStdDev', description: 'Ширина полос, σ', min: 1, max: 4, default: 2 },
+    { key: 'oversold', description: 'RSI для LONG ниже', min: 5, max: 50, default: 30 },
+    { key: 'overbought', description: 'RSI для SHORT выше', min: 50, max: 95, default: 70 },
+    { key: 'atrSlMultiplier', description: 'SL = ATR ×', min: 0.2, max: 10, default: 1.5 }
+  ],
+  analyze(ctx) {
+    const candles = ctx.candles[ctx.entryTimeframe] ?? [];
+    const closes = candles.map((c) => c.close);
+    const { bbPeriod, bbStdDev, oversold, overbought, atrSlMultiplier } = ctx.params;
+    const bb = candleAnalyzer.getBollingerBands(closes, bbPeriod, bbStdDev) as { upper?: number; middle?: number; lower?: number } | undefined;
+    const rsi = candleAnalyzer.getRSI(closes, 14);
+    const close = closes[closes.length - 1];
+    if (!bb?.upper || !bb.lower || !bb.middle || rsi == null || close == null) return null;
+    const width = bb.upper - bb.lower;
+    if (width <= 0) return null;
+    let direction: 'LONG' | 'SHORT' | null = null;
+    let stretch = 0;
+    if (close < bb.lower && rsi < oversold) {
+      direction = 'LONG';
+      stretch = (bb.lower - close) / width + (oversold - rsi) / 100;
+    } else if (close > bb.upper && rsi > overbought) {
+      direction = 'SHORT';
+      stretch = (close - bb.upper) / width + (rsi - overbought) / 100;
+    }
+    if (!direction) return null;
+    const takeProfits = direction === 'LONG' ? [bb.middle, bb.upper] : [bb.middle, bb.lower];
+    const beyondEntry = direction === 'LONG' ? takeProfits.every((tp) => tp > ctx.entryPrice) : takeProfits.every((tp) => tp < ctx.entryPrice);
+    if (!beyondEntry) return null;
+    const atr = candleAnalyzer.getATR(candles, 14);
+    const signal = buildSignal(ctx, {
+      direction,
+      confidence: Math.min(0.9, 0.6 + stretch),
+      stopLoss: atrStop(ctx, direction, atr, atrSlMultiplier),
+      takeProfits,
+      triggers: [direction === 'LONG' ? 'bb_lower_reversion' : 'bb_upper_reversion']
+    });
+    return strategyResult(ctx, 'mean_reversion', signal, {
+      reason: `Close ${direction === 'LONG' ? 'below lower' : 'above upper'} BB, RSI ${rsi.toFixed(1)}`,
+      metrics: { rsi, bbUpper: bb.upper, bbMiddle: bb.middle, bbLower: bb.lower },
+      atr,
+      rsi
+    });
+  }
+};
+
+/** funding_fade — против перекоса позиций: высокий фандинг → SHORT, отрицательный → LONG, с разворотной свечой */
+const fundingFadeStrategy: Strategy = {
+  id: 'funding_fade',
+  name: 'Funding fade',
+  description: 'Ставка фандинга за порогом — вход против толпы после свечи в сторону разворота; SL — ATR',
+  requires: { timeframes: [], orderBook: false, trades: false, funding: true, lookback: 100, minBars: 20 },
+  params: [
+    { key: 'fundingThreshold', description: 'Порог |ставки| за 8ч (0.0005 = 0.05%)', min: 0.00005, max: 0.01, default: 0.0005 },
+    { key: 'atrSlMultiplier', description: 'SL = ATR ×', min: 0.2, max: 10, default: 2 },
+    { key: 'riskReward', description: 'TP1 = риск × R:R', min: 0.5, max: 10, default: 2 }
+  ],
+  analyze(ctx) {
+    const rate = ctx.fundingRate;
+    const { fundingThreshold, atrSlMultiplier, riskReward } = ctx.params;
+    if (rate == null || Math.abs(rate) < fundingThreshold) return null;
+    const candles = ctx.candles[ctx.entryTimeframe] ?? [];
+    const last = candles[candles.length - 1];
+    if (!last) return null;
+    const direction: 'LONG' | 'SHORT' = rate > 0 ? 'SHORT' : 'LONG';
+    // Подтверждение: свеча уже против толпы
+    if (direction === 'SHORT' ? last.close >= last.open : last.close <= last.open) return null;
+    const atr = candleAnalyzer.getATR(candles, 14);
+    const stopLoss = atrStop(ctx, direction, atr, atrSlMultiplier);
+    const signal = buildSignal(ctx, {
+      direction,
+      confidence: Math.min(0.9, 0.6 + (Math.abs(rate) / fundingThreshold - 1) * 0.1),
+      stopLoss,
+      takeProfits: rrLadder(ctx.entryPrice, stopLoss, direction, riskReward),
+      triggers: [rate > 0 ? 'funding_crowded_long' : 'funding_crowded_short']
+    });
+    return strategyResult(ctx, 'funding_fade', signal, {
+      reason: `Funding ${(rate * 100).toFixed(4)}% / 8h`,
+      metrics: { fundingRate: rate },
+      atr
+    });
+  }
+};
+
+const registry = new Map<string, Strategy>();
+
+/** Добавить стратегию в реестр (id уникален) */
+export function registerStrategy(strategy: Strategy): void {
+  if (registry.has(strategy.id) || STRATEGY_ALIASES[strategy.id]) throw new Error(`Strategy ${strategy.id} already registered`);
+  registry.set(strategy.id, strategy);
+}
+
+const BUILTIN_STRATEGIES = [defaultStrategy, rsiStrategy, breakoutStrategy, meanReversionStrategy, fundingFadeStrategy];
+for (const s of BUILTIN_STRATEGIES) registerStrategy(s);
+
+/** Снять стратегию с реестра (встроенные не снимаются) */
+export function unregisterStrategy(id: string): boolean {
+  if (BUILTIN_STRATEGIES.some((s) => s.id === id)) return false;
+  return registry.delete(id);
+}
+
+/** id занят встроенной стратегией или прежним названием */
+export function isReservedStrategyId(id: string): boolean {
+  return BUILTIN_STRATEGIES.some((s) => s.id === id) || id in STRATEGY_ALIASES;
+}
+
+/** Стратегия по id (без id — default); null — неизвестный id */
+export function getStrategy(id?: string | null): Strategy | null {
+  if (!id) return registry.get(DEFAULT_STRATEGY_ID)!;
+  return registry.get(STRATEGY_ALIASES[id] ?? id) ?? null;
+}
+
+export function listStrategies(): StrategyInfo[] {
+  return [...registry.values()].map(({ analyze: _analyze, ...info }) => ({
+    ...info,
+    source: info.source ?? 'builtin',
+    requires: { ...info.requires, timeframes: [...info.requires.timeframes] },
+    params: info.params.map((p) => ({ ...p }))
+  }));
+}
+
+/** Свечей входного TF в срезе (и прогрев бэктеста) */
+export function strategyLookback(strategy: Strategy, entryTimeframe: string): number {
+  return strategy.requires.lookback ?? MTF_LIMITS[entryTimeframe] ?? 500;
+}
+
+/** Стратегиям с другими TF нужен входной TF из MTF_ORDER (для среза по времени) */
+export function supportsTimeframe(strategy: Strategy, timeframe: string): boolean {
+  return !strategy.requires.timeframes.length || MTF_ORDER.includes(timeframe as MtfTimeframe);
+}
+
+/** Параметры по умолчанию, поверх — сохранённые переопределения */
+export function resolveStrategyParams(strategy: Strategy, overrides: StrategyParams = {}): StrategyParams {
+  return Object.fromEntries(strategy.params.map((p) => [p.key, overrides[p.key] ?? p.default]));
+}
+
+/**
+ * Выбор стратегии из запроса: id (по умолчанию default) и переопределения параметров в границах схемы.
+ * В data.params — только переданные ключи (значения по умолчанию не фиксируются)
+ */
+export function parseStrategySelection(
+  rawId: unknown,
+  rawParams: unknown
+): { ok: true; data: { strategy: Strategy; params: StrategyParams } } | { ok: false; error: string } {
+  if (rawId != null && typeof rawId !== 'string') return { ok: false, error: 'strategy must be a string' };
+  const strategy = getStrategy(rawId || null);
+  if (!strategy) return { ok: false, error: `Unknown strategy ${rawId}. Available: ${[...registry.keys()].join(', ')}` };
+  if (rawParams == null) return { ok: true, data: { strategy, params: {} } };
+  if (typeof rawParams !== 'object' || Array.isArray(rawParams)) return { ok: false, error: 'strategyParams must be an object' };
+  const params: StrategyParams = {};
+  for (const [key, raw] of Object.entries(rawParams as Record<string, unknown>)) {
+    const spec = strategy.params.find((p) => p.key === key);
+    if (!spec) return { ok: false, error: `strategyParams.${key}: unknown parameter of ${strategy.id}` };
+    const n = Number(raw);
+    if (raw === null || raw === '' || !Number.isFinite(n) || n < spec.min || n > spec.max) {
+      return { ok: false, error: `strategyParams.${key}: ${spec.min}–${spec.max}` };
+    }
+    params[key] = spec.integer ? Math.round(n) : n;
+  }
+  return { ok: true, data: { strategy, params } };
+}
+
+/** Свечи среза: входной TF и TF стратегии (одинаковые TF не дублируются) */
+export function strategyTimeframes(strategy: Strategy, entryTimeframe: MtfTimeframe): MtfTimeframe[] {
+  return [...new Set<MtfTimeframe>([entryTimeframe, ...strategy.requires.timeframes])];
+}
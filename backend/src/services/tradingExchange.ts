@@ -0,0 +1,73 @@
+/**
+ * Биржа (ccxt через exchangeAdapters) с приватным доступом — для исполнения ордеров (autoTrader, positionManager)
+ * Счёт исполнения: биржа + серверный (ключи OKX из .env, userId = null) или пользователя (exchange_credentials)
+ */
+
+import { Exchange } from 'ccxt';
+import { config } from '../config';
+import { getUserCredentials, ExchangeCredentials } from './exchangeCredentials';
+import { ExchangeId, DEFAULT_EXCHANGE, EXCHANGE_IDS, getExchangeAdapter } from './exchangeAdapters';
+
+/** Счёт исполнения: биржа, владелец (null — серверный аккаунт из .env) и демо/реальный */
+export interface ExecutionAccount {
+  exchange: ExchangeId;
+  userId: string | null;
+  useTestnet: boolean;
+}
+
+function envCredentials(): ExchangeCredentials {
+  return { apiKey: config.okx.apiKey, secret: config.okx.secret, passphrase: config.okx.passphrase };
+}
+
+export function buildExchange(
+  useTestnet: boolean,
+  credentials: ExchangeCredentials = envCredentials(),
+  exchange: ExchangeId = DEFAULT_EXCHANGE
+): Exchange {
+  return getExchangeAdapter(exchange).createClient({ credentials, useTestnet });
+}
+
+/** Ключи счёта: .env для серверного (только OKX), расшифрованные ключи пользователя — для userId */
+export function getAccountCredentials(
+  useTestnet: boolean,
+  userId: string | null = null,
+  exchange: ExchangeId = DEFAULT_EXCHANGE
+): ExchangeCredentials | null {
+  if (!userId) return exchange === 'okx' && config.okx.hasCredentials ? envCredentials() : null;
+  return getUserCredentials(userId, exchange, useTestnet);
+}
+
+export function hasAccountCredentials(useTestnet: boolean, userId: string | null = null, exchange: ExchangeId = DEFAULT_EXCHANGE): boolean {
+  return getAccountCredentials(useTestnet, userId, exchange) != null;
+}
+
+const cache = new Map<string, Exchange>();
+
+function accountKey(exchange: ExchangeId, useTestnet: boolean, userId: string | null): string {
+  return `${exchange}:${userId ?? ''}:${useTestnet ? 'demo' : 'live'}`;
+}
+
+/** Долгоживущий экземпляр на счёт (кэш рынков для amountToPrecision / priceToPrecision) */
+export async function getTradingExchange(
+  useTestnet: boolean,
+  userId: string | null = null,
+  exchange: ExchangeId = DEFAULT_EXCHANGE
+): Promise<Exchange> {
+  const key = accountKey(exchange, useTestnet, userId);
+  let client = cache.get(key);
+  if (!client) {
+    const credentials = getAccountCredentials(useTestnet, userId, exchange);
+    if (!credentials) throw new Error(`${getExchangeAdapter(exchange).name} credentials not set`);
+    client = buildExchange(useTestnet, credentials, exchange);
+    cache.set(key, client);
+  }
+  await client.loadMarkets();
+  return client;
+}
+
+/** Сбросить экземпляры пользователя после смены или удаления ключей */
+export function dropTradingExchanges(userId: string): void {
+  for (const exchange of EXCHANGE_IDS) {
+    for (const useTestnet of [true, false]) cache.delete(accountKey(exchange, useTestnet, userId));
+  }
+}
@@ -8,6 +8,13 @@ export interface TrailingStopConfigSignal {
   activation_profit_pct: number; // 0.01 = 1%
 }
 
+/** Зона входа после пробоя уровня (BreakoutDetector.entryZone) */
+export interface EntryZoneSignal {
+  optimal: number;
+  min: number;
+  max: number;
+}
+
 export interface TradingSignal {
   id: string;
   timestamp: string;
@@ -24,6 +31,10 @@ export interface TradingSignal {
   expires_at: string;
   /** Трейлинг-стоп: активация после TP1 или +1% прибыли */
   trailing_stop_config?: TrailingStopConfigSignal;
+  /** Пробой уровня в направлении сигнала: зона для лимитного входа */
+  entry_zone?: EntryZoneSignal;
+  /** Цена отмены пробоя — невзятые лимитные ордера снимаются */
+  invalidation_price?: number;
 }
 
 export type ConfidenceLevel = 'high' | 'medium' | 'low';
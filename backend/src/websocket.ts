@@ -2,10 +2,19 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { TradingSignal } from './types/signal';
 import { addSignal } from './routes/signals';
 import { subscribeCandle } from './services/realtimeStream';
-import { getOkxStream } from './services/okxStream';
+import { getExchangeAdapter } from './services/exchangeAdapters';
+import { paperTrading } from './services/paperTrading';
+import { killSwitch } from './services/killSwitch';
+import { autoTradingSessions } from './services/autoTradingSessions';
+import { findSessionUserId } from './db/authDb';
 import { logger } from './lib/logger';
 
-type ExtWebSocket = WebSocket & { unsubCandles?: Map<string, () => void>; unsubStream?: () => void };
+type ExtWebSocket = WebSocket & {
+  unsubCandles?: Map<string, () => void>;
+  unsubStream?: () => void;
+  paperUserId?: string;
+  autoSessionIds?: Set<string>;
+};
 
 export function createWebSocketServer(server: import('http').Server) {
   const wss = new WebSocketServer({ server, path: '/ws' });
@@ -30,7 +39,8 @@ export function createWebSocketServer(server: import('http').Server) {
           ws.unsubCandles?.delete(key);
         } else if (msg.type === 'subscribe_market' && msg.symbol) {
           ws.unsubStream?.();
-          const stream = getOkxStream(msg.symbol);
+          // msg.exchange: okx (по умолчанию) | bingx | binance | bybit
+          const stream = getExchangeAdapter(typeof msg.exchange === 'string' ? msg.exchange : undefined).getStream(msg.symbol);
           const unsubOb = stream.subscribe('orderbook', (ob) => {
             if (ws.readyState === 1) ws.send(JSON.stringify({ type: 'orderbook', data: ob }));
           });
@@ -44,6 +54,28 @@ export function createWebSocketServer(server: import('http').Server) {
         } else if (msg.type === 'unsubscribe_market') {
           ws.unsubStream?.();
           ws.unsubStream = undefined;
+        } else if (msg.type === 'subscribe_paper' && typeof msg.token === 'string') {
+          const userId = findSessionUserId(msg.token);
+          if (!userId) {
+            ws.send(JSON.stringify({ type: 'paper_error', data: { error: 'Недействительный токен' } }));
+            return;
+          }
+          ws.paperUserId = userId;
+          ws.send(JSON.stringify({ type: 'paper_account', data: paperTrading.getAccount(userId) }));
+        } else if (msg.type === 'unsubscribe_paper') {
+          ws.paperUserId = undefined;
+        } else if (msg.type === 'subscribe_auto_session' && typeof msg.sessionId === 'string') {
+          // Сессии пользователя — только с его токеном; анонимные — без токена
+          const userId = typeof msg.token === 'string' ? findSessionUserId(msg.token) : null;
+          const session = autoTradingSessions.get(msg.sessionId, userId);
+          if (!session) {
+            ws.send(JSON.stringify({ type: 'auto_session_error', data: { sessionId: msg.sessionId, error: 'Session not found' } }));
+            return;
+          }
+          (ws.autoSessionIds ??= new Set()).add(session.id);
+          ws.send(JSON.stringify({ type: 'auto_session', data: { sessionId: session.id, type: 'status', data: session } }));
+        } else if (msg.type === 'unsubscribe_auto_session' && typeof msg.sessionId === 'string') {
+          ws.autoSessionIds?.delete(msg.sessionId);
         }
       } catch {
         // ignore
@@ -58,8 +90,38 @@ export function createWebSocketServer(server: import('http').Server) {
     });
   });
 
+  // Paper trading: события счёта — только подписанным клиентам этого пользователя
+  paperTrading.onEvent((event) => {
+    const msg = JSON.stringify({ type: event.type, data: event.data });
+    wss.clients.forEach((c) => {
+      if (c.readyState === 1 && (c as ExtWebSocket).paperUserId === event.userId) c.send(msg);
+    });
+  });
+
+  // Сессии авто-торговли: статус, журнал и сигналы — подписанным на сессию клиентам
+  autoTradingSessions.onEvent((event) => {
+    const msg = JSON.stringify({ type: 'auto_session', data: event });
+    wss.clients.forEach((c) => {
+      const ws = c as ExtWebSocket;
+      if (c.readyState === 1 && ws.autoSessionIds?.has(event.sessionId)) c.send(msg);
+      if (event.type === 'removed') ws.autoSessionIds?.delete(event.sessionId);
+    });
+  });
+
+  // Kill switch: срабатывание и re-arm — всем клиентам, только состояние; отчёт по счетам — GET /api/admin/trading/kill-switch
+  killSwitch.onChange(({ state }) => {
+    const data = { active: state.engaged, reason: state.engaged ? state.reason : null, at: state.engaged ? state.engagedAt : state.rearmedAt };
+    const msg = JSON.stringify({ type: 'KILL_SWITCH', data });
+    wss.clients.forEach((c) => {
+      if (c.readyState === 1) c.send(msg);
+    });
+  });
+
   const broadcastSignal = (signal: TradingSignal, breakdown?: unknown) => {
-    addSignal(signal);
+    addSignal(signal, breakdown);
+    paperTrading.onSignal(signal, breakdown).catch((e) => {
+      logger.warn('WS', 'Paper auto-open failed', { error: (e as Error).message });
+    });
     const payload = breakdown ? { signal, breakdown } : signal;
     const msg = JSON.stringify({ type: 'signal', data: payload });
     wss.clients.forEach((c) => {
@@ -7,6 +7,7 @@ import AutoTradingPage from './pages/AutoTradingPage';
 import SettingsPage from './pages/SettingsPage';
 import PnlCalculatorPage from './pages/PnlCalculatorPage';
 import ScannerPage from './pages/ScannerPage';
+import BacktestPage from './pages/BacktestPage';
 import ActivatePage from './pages/ActivatePage';
 import AdminPanel from './pages/AdminPanel';
 import AuthPage from './pages/AuthPage';
@@ -18,7 +19,7 @@ import { useNotifications } from './contexts/NotificationContext';
 import { useAuth } from './contexts/AuthContext';
 import { getSettings } from './store/settingsStore';
 
-type Page = 'dashboard' | 'signals' | 'chart' | 'demo' | 'autotrade' | 'scanner' | 'pnl' | 'settings' | 'activate' | 'admin' | 'profile' | 'privacy' | 'terms';
+type Page = 'dashboard' | 'signals' | 'chart' | 'demo' | 'autotrade' | 'scanner' | 'backtest' | 'pnl' | 'settings' | 'activate' | 'admin' | 'profile' | 'privacy' | 'terms';
 
 const PAGE_PATHS: Record<Page, string> = {
   dashboard: '/',
@@ -27,6 +28,7 @@ const PAGE_PATHS: Record<Page, string> = {
   demo: '/demo',
   autotrade: '/auto',
   scanner: '/scanner',
+  backtest: '/backtest',
   pnl: '/pnl',
   settings: '/settings',
   activate: '/activate',
@@ -70,6 +72,7 @@ const ALL_PAGES: { id: Page; label: string; icon: string }[] = [
   { id: 'demo', label: 'Демо', icon: '◆' },
   { id: 'autotrade', label: 'Авто', icon: '◇' },
   { id: 'scanner', label: 'Скринер', icon: '▤' },
+  { id: 'backtest', label: 'Бэктест', icon: '▥' },
   { id: 'pnl', label: 'PNL', icon: '💰' },
   { id: 'settings', label: 'Настройки', icon: '⚙' },
   { id: 'activate', label: 'Активировать', icon: '🔑' },
@@ -395,6 +398,9 @@ export default function App() {
         <div className={safePage === 'scanner' ? 'block' : 'hidden'}>
           <ScannerPage />
         </div>
+        <div className={safePage === 'backtest' ? 'block' : 'hidden'}>
+          {safePage === 'backtest' && <BacktestPage />}
+        </div>
         <div className={safePage === 'pnl' ? 'block' : 'hidden'}>
           <PnlCalculatorPage />
         </div>
@@ -0,0 +1,89 @@
+import { useEffect, useRef } from 'react';
+import { createChart, LineData, UTCTimestamp } from 'lightweight-charts';
+
+export interface EquityPoint {
+  time: number;
+  balance: number;
+  drawdownPct: number;
+}
+
+export interface EquitySeries {
+  id: string;
+  label: string;
+  points: EquityPoint[];
+}
+
+interface EquityChartProps {
+  series: EquitySeries[];
+  height?: number;
+}
+
+export const EQUITY_COLORS = ['#40DDFF', '#47A663', '#F5A524', '#C084FC', '#ef4444'];
+
+/** Время в секундах; несколько сделок в одну секунду — остаётся последняя точка */
+function toLineData(points: EquityPoint[], pick: (p: EquityPoint) => number): LineData[] {
+  const out: LineData[] = [];
+  for (const p of [...points].sort((a, b) => a.time - b.time)) {
+    const time = Math.floor(p.time / 1000) as UTCTimestamp;
+    const value = pick(p);
+    if (out.length && out[out.length - 1].time === time) out[out.length - 1] = { time, value };
+    else out.push({ time, value });
+  }
+  return out;
+}
+
+/** Кривая капитала (правая шкала) и просадка, % (нижняя часть графика) для одного или нескольких прогонов */
+export default function EquityChart({ series, height = 320 }: EquityChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current || !series.length) return;
+    const el = containerRef.current;
+    const chart = createChart(el, {
+      layout: { background: { color: 'transparent' }, textColor: 'rgba(255,255,255,0.6)' },
+      grid: { vertLines: { color: 'rgba(255,255,255,0.04)' }, horzLines: { color: 'rgba(255,255,255,0.04)' } },
+      rightPriceScale: { scaleMargins: { top: 0.05, bottom: 0.35 }, borderVisible: false },
+      timeScale: { visible: true, timeVisible: true, rightOffset: 4, borderVisible: false },
+      handleScale: { axisPressedMouseMove: false },
+      handleScroll: { vertTouchDrag: false }
+    });
+
+    series.forEach((s, k) => {
+      const color = EQUITY_COLORS[k % EQUITY_COLORS.length];
+      const equity = chart.addLineSeries({ color, lineWidth: 2, title: s.label });
+      equity.setData(toLineData(s.points, (p) => p.balance));
+      const drawdown = chart.addAreaSeries({
+        priceScaleId: 'drawdown',
+        lineColor: color,
+        topColor: 'rgba(239,68,68,0.05)',
+        bottomColor: 'rgba(239,68,68,0.3)',
+        lineWidth: 1,
+        priceFormat: { type: 'custom', formatter: (v: number) => `${v.toFixed(1)}%` }
+      });
+      drawdown.setData(toLineData(s.points, (p) => -p.drawdownPct));
+    });
+    chart.priceScale('drawdown').applyOptions({ scaleMargins: { top: 0.7, bottom: 0 }, borderVisible: false });
+    chart.timeScale().fitContent();
+
+    const resize = () => {
+      const w = el.offsetWidth;
+      if (w > 0) chart.resize(w, height);
+    };
+    const ro = new ResizeObserver(resize);
+    ro.observe(el);
+    resize();
+
+    return () => {
+      ro.disconnect();
+      chart.remove();
+    };
+  }, [series, height]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="rounded-lg overflow-hidden w-full"
+      style={{ height, background: 'var(--bg-elevated)' }}
+    />
+  );
+}
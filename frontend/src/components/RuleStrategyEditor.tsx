@@ -0,0 +1,254 @@
+/**
+ * Редактор правиловых стратегий (JSON-DSL): проверка с ошибками по путям, сохранение, справочник операндов.
+ * Сохранённая стратегия сразу доступна в бэктесте и сессиях авто-торговли; сохранять и удалять — после входа (свои правила)
+ */
+
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+
+interface RuleRecord {
+  id: string;
+  name: string;
+  createdBy: string | null;
+  definition: { id: string; name: string; description?: string } & Record<string, unknown>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface RuleCatalog {
+  indicators: { id: string; description: string; params: Record<string, { default: number; min: number; max: number }>; market: string | null }[];
+  patterns: string[];
+  operators: string[];
+  timeframes: string[];
+}
+
+interface ValidatedStrategy {
+  requires: { timeframes: string[]; orderBook: boolean; trades: boolean; funding: boolean; minBars: number; entryTimeframe?: string };
+  params: { key: string; default: number }[];
+}
+
+interface RuleStrategyEditorProps {
+  /** После сохранения / удаления — обновить список стратегий */
+  onChange?: () => void;
+}
+
+const TEMPLATE = {
+  id: 'rsi_pullback',
+  name: 'RSI откат по тренду',
+  timeframe: '15m',
+  params: [{ key: 'oversold', min: 10, max: 50, default: 35 }],
+  long: {
+    all: [
+      { indicator: 'rsi', op: '<', value: { param: 'oversold' } },
+      { indicator: 'ema', params: { period: 21 }, op: '>', value: { indicator: 'ema', params: { period: 50 } } },
+      { indicator: 'supertrend', tf: '1h', op: '==', value: 1 }
+    ]
+  },
+  short: {
+    all: [
+      { indicator: 'macd_hist', op: 'crossBelow', value: 0 },
+      { not: { pattern: 'hammer' } },
+      { indicator: 'dom_score', op: '<', value: -0.2 }
+    ]
+  },
+  confidence: { base: 0.6, bonuses: [{ when: { indicator: 'mtf_aligned', op: '>=', value: 4 }, add: 0.15 }] },
+  exit: { stopAtr: 1.5, riskReward: 2, takeProfits: 3 }
+};
+
+const toText = (v: unknown) => JSON.stringify(v, null, 2);
+
+export default function RuleStrategyEditor({ onChange }: RuleStrategyEditorProps) {
+  const { token, user } = useAuth();
+  const auth: RequestInit = { headers: token ? { Authorization: `Bearer ${token}` } : {} };
+  const [rules, setRules] = useState<RuleRecord[]>([]);
+  const [catalog, setCatalog] = useState<RuleCatalog | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [text, setText] = useState(() => toText(TEMPLATE));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [validated, setValidated] = useState<ValidatedStrategy | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchRules = () => {
+    api
+      .get<RuleRecord[]>('/strategies/rules')
+      .then((data) => setRules(Array.isArray(data) ? data : []))
+      .catch(() => setRules([]));
+  };
+
+  useEffect(() => {
+    fetchRules();
+    api.get<RuleCatalog>('/strategies/rules/catalog').then(setCatalog).catch(() => setCatalog(null));
+  }, []);
+
+  /** Ошибки сервера приходят одной строкой «path: message; …» */
+  const showError = (e: Error) => {
+    setValidated(null);
+    setErrors(e.message.split('; '));
+  };
+
+  const parseText = (): unknown | null => {
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      setValidated(null);
+      setErrors([`JSON: ${(e as Error).message}`]);
+      return null;
+    }
+  };
+
+  const validate = () => {
+    const body = parseText();
+    if (body == null) return;
+    setBusy(true);
+    api
+      .post<ValidatedStrategy>('/strategies/rules/validate', body)
+      .then((data) => {
+        setErrors([]);
+        setValidated(data);
+      })
+      .catch(showError)
+      .finally(() => setBusy(false));
+  };
+
+  const save = () => {
+    const body = parseText();
+    if (body == null) return;
+    setBusy(true);
+    const request = editingId
+      ? api.put<RuleRecord>(`/strategies/rules/${encodeURIComponent(editingId)}`, body, auth)
+      : api.post<RuleRecord>('/strategies/rules', body, auth);
+    request
+      .then((saved) => {
+        setErrors([]);
+        setValidated(null);
+        setEditingId(saved.id);
+        setText(toText(saved.definition));
+        fetchRules();
+        onChange?.();
+      })
+      .catch(showError)
+      .finally(() => setBusy(false));
+  };
+
+  const edit = (r: RuleRecord) => {
+    setEditingId(r.id);
+    setText(toText(r.definition));
+    setErrors([]);
+    setValidated(null);
+  };
+
+  const startNew = () => {
+    setEditingId(null);
+    setText(toText(TEMPLATE));
+    setErrors([]);
+    setValidated(null);
+  };
+
+  const remove = (id: string) => {
+    if (!window.confirm(`Удалить стратегию ${id}? Сессии с ней перестанут давать сигналы.`)) return;
+    api
+      .delete(`/strategies/rules/${encodeURIComponent(id)}`, auth)
+      .then(() => {
+        if (editingId === id) startNew();
+        fetchRules();
+        onChange?.();
+      })
+      .catch(showError);
+  };
+
+  const inputStyle = { background: 'var(--bg-input)', borderColor: 'var(--border)', color: 'var(--text-primary)' };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold mb-2">Стратегии из правил</h3>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+        {rules.map((r) => (
+          <span key={r.id} className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => edit(r)}
+              className="hover:underline"
+              style={{ color: editingId === r.id ? 'var(--text-primary)' : 'var(--accent)' }}
+              title={r.definition.description}
+            >
+              {r.name}
+            </button>
+            {user && r.createdBy === user.id && (
+              <button type="button" onClick={() => remove(r.id)} className="text-xs" style={{ color: 'var(--danger)' }}>
+                ✕
+              </button>
+            )}
+          </span>
+        ))}
+        <button type="button" onClick={startNew} className="btn-secondary text-sm">
+          Новая
+        </button>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        rows={20}
+        className="w-full rounded border px-3 py-2 text-xs font-mono"
+        style={inputStyle}
+      />
+      <div className="flex flex-wrap items-center gap-3 mt-3">
+        <button type="button" onClick={validate} disabled={busy} className="btn-secondary text-sm">
+          Проверить
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy || !token || (editingId != null && rules.find((r) => r.id === editingId)?.createdBy !== user?.id)}
+          className="btn-primary text-sm"
+          title={token ? undefined : 'Войдите, чтобы сохранять правила'}
+        >
+          {editingId ? `Сохранить ${editingId}` : 'Создать'}
+        </button>
+      </div>
+      {errors.length > 0 && (
+        <ul className="text-sm mt-3 space-y-1" style={{ color: 'var(--danger)' }}>
+          {errors.map((e, k) => (
+            <li key={k} className="font-mono">{e}</li>
+          ))}
+        </ul>
+      )}
+      {validated && (
+        <p className="text-sm mt-3" style={{ color: 'var(--success)' }}>
+          Правила корректны · вход {validated.requires.entryTimeframe ?? 'TF запуска'}
+          {validated.requires.timeframes.length > 0 && ` · TF ${validated.requires.timeframes.join(', ')}`}
+          {validated.requires.orderBook && ' · стакан'}
+          {validated.requires.trades && ' · лента'}
+          {validated.requires.funding && ' · фандинг'}
+          {` · от ${validated.requires.minBars} свечей · параметры ${validated.params.map((p) => `${p.key}=${p.default}`).join(', ')}`}
+        </p>
+      )}
+      {catalog && (
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer" style={{ color: 'var(--text-muted)' }}>Справочник</summary>
+          <p className="mt-2" style={{ color: 'var(--text-muted)' }}>
+            Условие: {'{ all: [...] }'}, {'{ any: [...] }'}, {'{ not: … }'}, {'{ pattern, tf? }'} или{' '}
+            {'{ indicator, tf?, params?, op, value }'}; value — число, {'{ param }'} или {'{ indicator, tf?, params? }'}.
+            Операторы: {catalog.operators.join(' ')}. TF: {catalog.timeframes.join(', ')}.
+          </p>
+          <table className="w-full mt-2 text-xs">
+            <tbody>
+              {catalog.indicators.map((i) => (
+                <tr key={i.id} className="border-b" style={{ borderColor: 'var(--border)' }}>
+                  <td className="py-1 pr-3 font-mono">{i.id}</td>
+                  <td className="py-1 pr-3">{i.description}</td>
+                  <td className="py-1 font-mono" style={{ color: 'var(--text-muted)' }}>
+                    {Object.entries(i.params).map(([k, p]) => `${k}=${p.default} (${p.min}–${p.max})`).join(', ')}
+                    {i.market && `без TF · ${i.market}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 font-mono text-xs" style={{ color: 'var(--text-muted)' }}>{catalog.patterns.join(', ')}</p>
+        </details>
+      )}
+    </div>
+  );
+}
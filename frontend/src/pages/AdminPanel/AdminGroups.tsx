@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { adminApi, clearAdminToken } from '../../utils/adminApi';
 
-const TAB_IDS = ['dashboard', 'signals', 'chart', 'demo', 'autotrade', 'scanner', 'pnl', 'settings', 'admin'] as const;
+const TAB_IDS = ['dashboard', 'signals', 'chart', 'demo', 'autotrade', 'scanner', 'backtest', 'pnl', 'settings', 'admin'] as const;
 const TAB_LABELS: Record<string, string> = {
   dashboard: 'Обзор',
   signals: 'Сигналы',
@@ -9,6 +9,7 @@ const TAB_LABELS: Record<string, string> = {
   demo: 'Демо',
   autotrade: 'Авто',
   scanner: 'Скринер',
+  backtest: 'Бэктест',
   pnl: 'PNL',
   settings: 'Настройки',
   admin: 'Админ'
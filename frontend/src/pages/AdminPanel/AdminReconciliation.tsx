@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { adminApi } from '../../utils/adminApi';
+
+interface ReconciliationSummary {
+  positions: number;
+  openPositions: number;
+  orders: number;
+  fills: number;
+  fundingEntries: number;
+  matched: number;
+  mismatched: number;
+  unmatchedClient: number;
+  unmatchedExchange: number;
+  realizedPnl: number;
+  fees: number;
+  funding: number;
+}
+
+interface ReconciliationRun {
+  id: number;
+  startedAt: number;
+  finishedAt: number;
+  since: number;
+  ok: boolean;
+  error: string | null;
+  summary: ReconciliationSummary | null;
+}
+
+interface ReconciliationIssue {
+  id: string;
+  source: 'client' | 'exchange';
+  clientId: string;
+  pair: string;
+  direction: 'LONG' | 'SHORT';
+  status: 'matched' | 'mismatch' | 'unmatched';
+  openTime: string;
+  openPrice: number;
+  closePrice: number | null;
+  pnl: number | null;
+  ref: string | null;
+  note: string | null;
+}
+
+interface ReconciliationReport {
+  enabled: boolean;
+  running: boolean;
+  useTestnet: boolean;
+  lastRun: ReconciliationRun | null;
+  runs: ReconciliationRun[];
+  totals: {
+    exchange: { trades: number; pnl: number; fees: number; funding: number };
+    client: { trades: number; pnl: number; matched: number; mismatched: number; unmatched: number };
+  };
+  issues: ReconciliationIssue[];
+}
+
+const LOOKBACK_OPTIONS = [1, 7, 30, 90];
+
+function signed(n: number): string {
+  return (n >= 0 ? '+' : '') + n.toFixed(2);
+}
+
+function pnlClass(n: number): string {
+  return n >= 0 ? 'text-[var(--success)]' : 'text-[var(--danger)]';
+}
+
+export default function AdminReconciliation() {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [days, setDays] = useState(7);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    try {
+      setReport(await adminApi.get<ReconciliationReport>('/admin/reconciliation'));
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Ошибка загрузки');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const runNow = async () => {
+    setRunning(true);
+    setError('');
+    try {
+      await adminApi.post('/admin/reconciliation/run', { days });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Ошибка');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) return <p style={{ color: 'var(--text-muted)' }}>Загрузка…</p>;
+  if (!report) return <p style={{ color: 'var(--danger)' }}>{error}</p>;
+
+  const { exchange, client } = report.totals;
+  const last = report.lastRun;
+
+  return (
+    <div className="space-y-8">
+      <h2 className="text-xl font-bold tracking-tight">Сверка с OKX</h2>
+      {error && <p className="text-sm" style={{ color: 'var(--danger)' }}>{error}</p>}
+
+      <section className="rounded-xl border p-6" style={{ background: 'var(--bg-card-solid)', borderColor: 'var(--border)' }}>
+        <div className="flex flex-wrap items-center gap-4">
+          <select className="input-field w-32" value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            {LOOKBACK_OPTIONS.map((d) => (
+              <option key={d} value={d}>{d} дн.</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={runNow}
+            disabled={running || report.running || !report.enabled}
+            className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+            style={{ background: 'var(--accent-dim)', color: 'var(--accent)' }}
+          >
+            {running || report.running ? '…' : '🔄 Сверить сейчас'}
+          </button>
+          <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+            {report.enabled
+              ? `Аккаунт OKX ${report.useTestnet ? '(демо)' : '(реальный)'} — авто-сверка каждые 5 минут`
+              : 'Ключи OKX не настроены — сверка отключена'}
+          </span>
+        </div>
+        {last && (
+          <div className="mt-4 text-sm space-y-1">
+            <div>
+              <span style={{ color: 'var(--text-muted)' }}>Последний прогон:</span>{' '}
+              {new Date(last.finishedAt).toLocaleString('ru-RU')} (с {new Date(last.since).toLocaleString('ru-RU')}){' '}
+              {last.ok ? '✅' : <span style={{ color: 'var(--danger)' }}>❌ {last.error}</span>}
+            </div>
+            {last.summary && (
+              <div style={{ color: 'var(--text-muted)' }}>
+                Позиций: {last.summary.positions} закрытых, {last.summary.openPositions} открытых • ордеров: {last.summary.orders} • исполнений: {last.summary.fills} • фандинг: {last.summary.fundingEntries}
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-xl border p-6" style={{ background: 'var(--bg-card-solid)', borderColor: 'var(--border)' }}>
+        <h3 className="text-lg font-semibold mb-4">📊 OKX vs клиент (закрытые сделки)</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div><span style={{ color: 'var(--text-muted)' }}>Сделок OKX:</span> {exchange.trades}</div>
+          <div><span style={{ color: 'var(--text-muted)' }}>PnL OKX:</span> <span className={pnlClass(exchange.pnl)}>{signed(exchange.pnl)}</span></div>
+          <div><span style={{ color: 'var(--text-muted)' }}>Комиссии:</span> {signed(exchange.fees)}</div>
+          <div><span style={{ color: 'var(--text-muted)' }}>Фандинг:</span> {signed(exchange.funding)}</div>
+          <div><span style={{ color: 'var(--text-muted)' }}>Записей клиента:</span> {client.trades}</div>
+          <div><span style={{ color: 'var(--text-muted)' }}>PnL клиента:</span> <span className={pnlClass(client.pnl)}>{signed(client.pnl)}</span></div>
+          <div><span style={{ color: 'var(--text-muted)' }}>Совпало / расхождения:</span> {client.matched} / {client.mismatched}</div>
+          <div><span style={{ color: 'var(--text-muted)' }}>Нет на OKX:</span> {client.unmatched}</div>
+        </div>
+      </section>
+
+      <section className="rounded-xl border overflow-hidden" style={{ background: 'var(--bg-card-solid)', borderColor: 'var(--border)' }}>
+        <h3 className="text-lg font-semibold p-4 border-b" style={{ borderColor: 'var(--border)' }}>⚠️ Расхождения</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b" style={{ borderColor: 'var(--border)', color: 'var(--text-muted)', background: 'var(--bg-hover)' }}>
+                <th className="text-left py-3 px-2">Источник</th>
+                <th className="text-left py-3 px-2">Клиент</th>
+                <th className="text-left py-3 px-2">Пара</th>
+                <th className="text-left py-3 px-2">Направление</th>
+                <th className="text-right py-3 px-2">Вход</th>
+                <th className="text-right py-3 px-2">Выход</th>
+                <th className="text-right py-3 px-2">P&L</th>
+                <th className="text-left py-3 px-2">Открыта</th>
+                <th className="text-left py-3 px-2">Расхождение</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.issues.length === 0 ? (
+                <tr><td colSpan={9} className="py-6 text-center" style={{ color: 'var(--text-muted)' }}>Расхождений нет</td></tr>
+              ) : (
+                report.issues.map((row) => (
+                  <tr key={row.id} className="border-b" style={{ borderColor: 'var(--border)' }}>
+                    <td className="py-2 px-2">{row.source === 'exchange' ? 'OKX' : 'Клиент'}</td>
+                    <td className="py-2 px-2 text-xs" style={{ color: 'var(--text-muted)' }}>{row.clientId}</td>
+                    <td className="py-2 px-2">{row.pair}</td>
+                    <td className="py-2 px-2">{row.direction}</td>
+                    <td className="text-right py-2 px-2 tabular-nums">{row.openPrice}</td>
+                    <td className="text-right py-2 px-2 tabular-nums">{row.closePrice ?? '—'}</td>
+                    <td className={`text-right py-2 px-2 tabular-nums ${pnlClass(row.pnl ?? 0)}`}>{row.pnl != null ? signed(row.pnl) : '—'}</td>
+                    <td className="py-2 px-2 text-xs" style={{ color: 'var(--text-muted)' }}>{new Date(row.openTime).toLocaleString('ru-RU')}</td>
+                    <td className="py-2 px-2 text-xs" style={{ color: row.status === 'mismatch' ? 'var(--danger)' : 'var(--warning)' }}>{row.note ?? '—'}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -1,10 +1,196 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { adminApi } from '../../utils/adminApi';
 import { api } from '../../utils/api';
 
+interface RiskConfig {
+  maxPositionsTotal: number;
+  maxPositionsPerSymbol: number;
+  maxDailyTrades: number;
+  maxPositionDurationHours: number;
+  minBalanceWarning?: number;
+  minBalanceCritical?: number;
+}
+
+interface RiskDecision {
+  time: number;
+  source: 'auto' | 'manual';
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  allowed: boolean;
+  reason: string | null;
+  positions: number;
+  positionsForSymbol: number;
+  dailyTrades: number;
+  balance: number;
+  balanceWarning: boolean;
+}
+
+interface RiskStatus {
+  config: RiskConfig;
+  dailyTrades: number;
+  lastTradeDate: string | null;
+  decisions: RiskDecision[];
+}
+
+interface KillSwitchState {
+  engaged: boolean;
+  engagedAt: number | null;
+  engagedBy: string | null;
+  reason: string | null;
+  rearmedAt: number | null;
+  rearmedBy: string | null;
+  running?: boolean;
+}
+
+interface FlattenAccountReport {
+  /** okx | bingx | binance | bybit; в старых записях журнала отсутствует */
+  exchange?: string;
+  /** null — серверный аккаунт из .env */
+  userId: string | null;
+  useTestnet: boolean;
+  canceledOrders: number;
+  canceledAlgoOrders: number;
+  closedPositions: { symbol: string; side: 'long' | 'short'; contracts: number }[];
+  remainingPositions: number;
+  errors: string[];
+}
+
+interface KillSwitchAuditEntry {
+  id: number;
+  time: number;
+  action: string;
+  actor: string;
+  details: { reason?: string | null; accounts?: FlattenAccountReport[] } | null;
+}
+
+interface KillSwitchStatus {
+  state: KillSwitchState;
+  audit: KillSwitchAuditEntry[];
+}
+
+function describeAccounts(accounts: FlattenAccountReport[] | undefined): string {
+  if (!accounts?.length) return '—';
+  return accounts
+    .map((a) => {
+      const parts = [
+        `${(a.exchange ?? 'okx').toUpperCase()} ${a.userId ? `пользователь ${a.userId.slice(0, 8)}` : 'сервер'} (${a.useTestnet ? 'демо' : 'реальный'}): ордеров снято ${a.canceledOrders + a.canceledAlgoOrders}`,
+        `позиций закрыто ${a.closedPositions.length}`
+      ];
+      if (a.remainingPositions > 0) parts.push(`осталось ${a.remainingPositions}`);
+      if (a.errors.length) parts.push(`ошибок ${a.errors.length}: ${a.errors.join('; ')}`);
+      return parts.join(', ');
+    })
+    .join(' | ');
+}
+
+interface AutoSession {
+  id: string;
+  userId: string | null;
+  name: string;
+  status: 'running' | 'paused' | 'stopped';
+  config: {
+    exchange?: string;
+    symbols: string[];
+    timeframe: string;
+    mode: string;
+    intervalMs: number;
+    fullAuto: boolean;
+    execution: { executeOrders: boolean; useTestnet: boolean; leverage: number };
+  };
+  createdAt: number;
+  lastRunAt: number | null;
+  lastError: string | null;
+}
+
+const SESSION_STATUS_LABEL: Record<AutoSession['status'], { label: string; color: string }> = {
+  running: { label: 'работает', color: 'var(--success)' },
+  paused: { label: 'пауза', color: 'var(--warning)' },
+  stopped: { label: 'остановлена', color: 'var(--text-muted)' }
+};
+
+const RISK_FIELDS: { key: keyof RiskConfig; label: string; step: number }[] = [
+  { key: 'maxPositionsTotal', label: 'Макс. позиций всего', step: 1 },
+  { key: 'maxPositionsPerSymbol', label: 'Макс. позиций на символ', step: 1 },
+  { key: 'maxDailyTrades', label: 'Сделок в день', step: 1 },
+  { key: 'maxPositionDurationHours', label: 'Макс. время в позиции, ч (0 — без лимита)', step: 1 },
+  { key: 'minBalanceWarning', label: 'Баланс: предупреждение, USDT', step: 10 },
+  { key: 'minBalanceCritical', label: 'Баланс: стоп, USDT', step: 10 }
+];
+
 export default function AdminTrading() {
   const [loading, setLoading] = useState<string | null>(null);
   const [message, setMessage] = useState('');
+  const [risk, setRisk] = useState<RiskStatus | null>(null);
+  const [riskDraft, setRiskDraft] = useState<RiskConfig | null>(null);
+  const [kill, setKill] = useState<KillSwitchStatus | null>(null);
+  const [sessions, setSessions] = useState<AutoSession[]>([]);
+
+  const loadSessions = async () => {
+    try {
+      const data = await adminApi.get<{ sessions: AutoSession[] }>('/admin/trading/sessions');
+      setSessions(data.sessions);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Ошибка загрузки сессий');
+    }
+  };
+
+  const loadKillSwitch = async () => {
+    try {
+      setKill(await adminApi.get<KillSwitchStatus>('/admin/trading/kill-switch'));
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Ошибка загрузки kill switch');
+    }
+  };
+
+  const loadRisk = async () => {
+    try {
+      const status = await api.get<RiskStatus>('/trading/risk');
+      setRisk(status);
+      setRiskDraft((prev) => prev ?? status.config);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Ошибка загрузки RiskController');
+    }
+  };
+
+  useEffect(() => {
+    loadRisk();
+    loadKillSwitch();
+    loadSessions();
+    const id = setInterval(() => {
+      loadRisk();
+      loadKillSwitch();
+      loadSessions();
+    }, 15000);
+    return () => clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    const wsUrl = (location.protocol === 'https:' ? 'wss:' : 'ws:') + '//' + location.host + '/ws';
+    const ws = new WebSocket(wsUrl);
+    ws.onmessage = (e) => {
+      try {
+        const msg = JSON.parse(e.data);
+        if (msg.type === 'KILL_SWITCH') loadKillSwitch();
+      } catch {}
+    };
+    return () => ws.close();
+  }, []);
+
+  const saveRisk = async () => {
+    if (!riskDraft) return;
+    setLoading('risk');
+    setMessage('');
+    try {
+      const status = await adminApi.put<RiskStatus>('/admin/trading/risk', riskDraft);
+      setRisk(status);
+      setRiskDraft(status.config);
+      setMessage('Лимиты RiskController сохранены.');
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Ошибка');
+    } finally {
+      setLoading(null);
+    }
+  };
 
   const stopTrading = async () => {
     setLoading('stop');
@@ -12,6 +198,7 @@ export default function AdminTrading() {
     try {
       await adminApi.post('/admin/trading/stop');
       setMessage('Авто-торговля остановлена.');
+      await loadSessions();
     } catch (e) {
       setMessage(e instanceof Error ? e.message : 'Ошибка');
     } finally {
@@ -19,12 +206,39 @@ export default function AdminTrading() {
     }
   };
 
+  const stopSession = async (id: string) => {
+    try {
+      await adminApi.post(`/admin/trading/sessions/${encodeURIComponent(id)}/stop`);
+      await loadSessions();
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Ошибка');
+    }
+  };
+
   const emergencyStop = async () => {
+    if (!confirm('Снять ордера и закрыть маркетом позиции, которые ведёт бот? Исполнение будет заблокировано до re-arm.')) return;
     setLoading('emergency');
     setMessage('');
     try {
-      await adminApi.post('/admin/trading/emergency');
-      setMessage('Экстренная остановка выполнена.');
+      const res = await adminApi.post<{ report: { accounts: FlattenAccountReport[] } }>('/admin/trading/emergency', {
+        reason: 'admin panel'
+      });
+      setMessage(`Kill switch сработал. ${describeAccounts(res.report.accounts)}`);
+      await loadKillSwitch();
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Ошибка');
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const rearm = async () => {
+    setLoading('rearm');
+    setMessage('');
+    try {
+      await adminApi.post('/admin/trading/rearm');
+      setMessage('Исполнение снова разрешено. Авто-торговлю нужно запустить вручную.');
+      await loadKillSwitch();
     } catch (e) {
       setMessage(e instanceof Error ? e.message : 'Ошибка');
     } finally {
@@ -91,10 +305,182 @@ export default function AdminTrading() {
             {loading === 'emergency' ? '…' : '🛑 EMERGENCY STOP'}
           </button>
         </div>
+        {kill?.state.engaged && (
+          <div className="mt-4 p-4 rounded-lg text-sm flex flex-wrap items-center gap-4" style={{ background: 'var(--danger-dim)', color: 'var(--danger)' }}>
+            <span>
+              🛑 Kill switch включён{kill.state.engagedAt ? ` ${new Date(kill.state.engagedAt).toLocaleString('ru-RU')}` : ''}
+              {kill.state.engagedBy ? ` (${kill.state.engagedBy})` : ''} — исполнение на OKX заблокировано
+              {kill.state.running ? ', выполняется закрытие…' : ''}
+            </span>
+            <button
+              type="button"
+              onClick={rearm}
+              disabled={!!loading || kill.state.running}
+              className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+              style={{ background: 'var(--success-dim)', color: 'var(--success)' }}
+            >
+              {loading === 'rearm' ? '…' : '🔓 Re-arm'}
+            </button>
+          </div>
+        )}
         <p className="text-xs mt-4" style={{ color: 'var(--text-muted)' }}>
+          EMERGENCY STOP отменяет все ордера (включая стопы) и закрывает все позиции OKX reduce-only маркетом.
           Полные настройки авто-торговли (символы, плечо, TP/SL) — в разделе «Авто» главного приложения.
         </p>
       </section>
+
+      <section className="rounded-xl border overflow-hidden" style={{ background: 'var(--bg-card-solid)', borderColor: 'var(--border)' }}>
+        <h3 className="text-lg font-semibold p-4 border-b" style={{ borderColor: 'var(--border)' }}>🤖 Сессии авто-торговли</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b" style={{ borderColor: 'var(--border)', color: 'var(--text-muted)', background: 'var(--bg-hover)' }}>
+                <th className="text-left py-3 px-2">Сессия</th>
+                <th className="text-left py-3 px-2">Владелец</th>
+                <th className="text-left py-3 px-2">Пары</th>
+                <th className="text-left py-3 px-2">Режим</th>
+                <th className="text-left py-3 px-2">Статус</th>
+                <th className="text-left py-3 px-2">Последний цикл</th>
+                <th className="py-3 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.length === 0 ? (
+                <tr><td colSpan={7} className="py-6 text-center" style={{ color: 'var(--text-muted)' }}>Сессий нет</td></tr>
+              ) : (
+                sessions.map((s) => (
+                  <tr key={s.id} className="border-b" style={{ borderColor: 'var(--border)' }}>
+                    <td className="py-2 px-2">{s.name}</td>
+                    <td className="py-2 px-2 text-xs" style={{ color: 'var(--text-muted)' }}>{s.userId ? s.userId.slice(0, 8) : 'аноним'}</td>
+                    <td className="py-2 px-2 text-xs">{s.config.symbols.join(', ')} · {s.config.timeframe}</td>
+                    <td className="py-2 px-2 text-xs">
+                      {s.config.fullAuto
+                        ? `полный автомат${s.config.execution.executeOrders ? ` · ${(s.config.exchange ?? 'okx').toUpperCase()} ${s.config.execution.useTestnet ? 'демо' : 'реальный'} ${s.config.execution.leverage}x` : ''}`
+                        : s.config.mode}
+                    </td>
+                    <td className="py-2 px-2" style={{ color: SESSION_STATUS_LABEL[s.status].color }}>{SESSION_STATUS_LABEL[s.status].label}</td>
+                    <td className="py-2 px-2 text-xs" style={{ color: s.lastError ? 'var(--danger)' : 'var(--text-muted)' }}>
+                      {s.lastRunAt ? new Date(s.lastRunAt).toLocaleString('ru-RU') : '—'}
+                      {s.lastError ? ` · ${s.lastError}` : ''}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {s.status !== 'stopped' && (
+                        <button type="button" onClick={() => stopSession(s.id)} className="text-xs hover:underline" style={{ color: 'var(--danger)' }}>
+                          Остановить
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {kill && kill.audit.length > 0 && (
+        <section className="rounded-xl border overflow-hidden" style={{ background: 'var(--bg-card-solid)', borderColor: 'var(--border)' }}>
+          <h3 className="text-lg font-semibold p-4 border-b" style={{ borderColor: 'var(--border)' }}>🧾 Журнал kill switch</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b" style={{ borderColor: 'var(--border)', color: 'var(--text-muted)', background: 'var(--bg-hover)' }}>
+                  <th className="text-left py-3 px-2">Время</th>
+                  <th className="text-left py-3 px-2">Действие</th>
+                  <th className="text-left py-3 px-2">Кто</th>
+                  <th className="text-left py-3 px-2">Итог</th>
+                </tr>
+              </thead>
+              <tbody>
+                {kill.audit.map((a) => (
+                  <tr key={a.id} className="border-b" style={{ borderColor: 'var(--border)' }}>
+                    <td className="py-2 px-2 text-xs" style={{ color: 'var(--text-muted)' }}>{new Date(a.time).toLocaleString('ru-RU')}</td>
+                    <td className="py-2 px-2" style={{ color: a.action === 'kill_switch.engage' ? 'var(--danger)' : 'var(--success)' }}>
+                      {a.action === 'kill_switch.engage' ? 'Срабатывание' : 'Re-arm'}
+                    </td>
+                    <td className="py-2 px-2 text-xs">{a.actor}</td>
+                    <td className="py-2 px-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+                      {a.action === 'kill_switch.engage' ? describeAccounts(a.details?.accounts) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      <section className="rounded-xl border p-6" style={{ background: 'var(--bg-card-solid)', borderColor: 'var(--border)' }}>
+        <h3 className="text-lg font-semibold mb-1">🛡 Risk Controller</h3>
+        <p className="text-xs mb-4" style={{ color: 'var(--text-muted)' }}>
+          Проверяется перед каждым исполнением на OKX (авто и ручным). Сделок сегодня: {risk?.dailyTrades ?? '—'}
+          {risk ? ` / ${risk.config.maxDailyTrades}` : ''}
+        </p>
+        {riskDraft && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            {RISK_FIELDS.map((f) => (
+              <label key={f.key} className="flex flex-col gap-1">
+                <span style={{ color: 'var(--text-muted)' }}>{f.label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={f.step}
+                  value={riskDraft[f.key] ?? 0}
+                  onChange={(e) => setRiskDraft({ ...riskDraft, [f.key]: Number(e.target.value) })}
+                  className="input-field"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={saveRisk}
+          disabled={!!loading || !riskDraft}
+          className="mt-4 px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+          style={{ background: 'var(--accent-dim)', color: 'var(--accent)' }}
+        >
+          {loading === 'risk' ? '…' : 'Сохранить лимиты'}
+        </button>
+      </section>
+
+      <section className="rounded-xl border overflow-hidden" style={{ background: 'var(--bg-card-solid)', borderColor: 'var(--border)' }}>
+        <h3 className="text-lg font-semibold p-4 border-b" style={{ borderColor: 'var(--border)' }}>📋 Решения перед сделкой</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b" style={{ borderColor: 'var(--border)', color: 'var(--text-muted)', background: 'var(--bg-hover)' }}>
+                <th className="text-left py-3 px-2">Время</th>
+                <th className="text-left py-3 px-2">Источник</th>
+                <th className="text-left py-3 px-2">Пара</th>
+                <th className="text-left py-3 px-2">Решение</th>
+                <th className="text-right py-3 px-2">Позиции (символ)</th>
+                <th className="text-right py-3 px-2">Сделок сегодня</th>
+                <th className="text-right py-3 px-2">Баланс</th>
+                <th className="text-left py-3 px-2">Причина</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!risk || risk.decisions.length === 0 ? (
+                <tr><td colSpan={8} className="py-6 text-center" style={{ color: 'var(--text-muted)' }}>Решений пока нет</td></tr>
+              ) : (
+                risk.decisions.map((d) => (
+                  <tr key={`${d.time}-${d.symbol}`} className="border-b" style={{ borderColor: 'var(--border)' }}>
+                    <td className="py-2 px-2 text-xs" style={{ color: 'var(--text-muted)' }}>{new Date(d.time).toLocaleString('ru-RU')}</td>
+                    <td className="py-2 px-2">{d.source === 'auto' ? 'Авто' : 'Ручное'}</td>
+                    <td className="py-2 px-2">{d.symbol} {d.direction}</td>
+                    <td className="py-2 px-2" style={{ color: d.allowed ? 'var(--success)' : 'var(--danger)' }}>{d.allowed ? 'Разрешено' : 'Отказ'}</td>
+                    <td className="text-right py-2 px-2 tabular-nums">{d.positions} ({d.positionsForSymbol})</td>
+                    <td className="text-right py-2 px-2 tabular-nums">{d.dailyTrades}</td>
+                    <td className="text-right py-2 px-2 tabular-nums" style={{ color: d.balanceWarning ? 'var(--warning)' : undefined }}>{d.balance.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-xs" style={{ color: 'var(--text-muted)' }}>{d.reason ?? '—'}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
     </div>
   );
 }
@@ -4,17 +4,19 @@ import AdminLogin from './AdminLogin';
 import AdminDashboard from './AdminDashboard';
 import AdminTrading from './AdminTrading';
 import AdminAnalytics from './AdminAnalytics';
+import AdminReconciliation from './AdminReconciliation';
 import AdminLogs from './AdminLogs';
 import AdminUsers from './AdminUsers';
 import AdminGroups from './AdminGroups';
 import AdminActivationKeys from './AdminActivationKeys';
 
-type AdminTab = 'dashboard' | 'trading' | 'analytics' | 'logs' | 'users' | 'groups' | 'keys';
+type AdminTab = 'dashboard' | 'trading' | 'analytics' | 'reconciliation' | 'logs' | 'users' | 'groups' | 'keys';
 
 const TABS: { id: AdminTab; label: string }[] = [
   { id: 'dashboard', label: 'Dashboard' },
   { id: 'trading', label: 'Торговля' },
   { id: 'analytics', label: 'Аналитика' },
+  { id: 'reconciliation', label: 'Сверка' },
   { id: 'logs', label: 'Логи' },
   { id: 'users', label: 'Пользователи' },
   { id: 'groups', label: 'Группы' },
@@ -72,6 +74,7 @@ export default function AdminPanel() {
       {tab === 'dashboard' && <AdminDashboard />}
       {tab === 'trading' && <AdminTrading />}
       {tab === 'analytics' && <AdminAnalytics />}
+      {tab === 'reconciliation' && <AdminReconciliation />}
       {tab === 'logs' && <AdminLogs />}
       {tab === 'users' && <AdminUsers />}
       {tab === 'groups' && <AdminGroups />}
@@ -1,35 +1,38 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { TradingSignal } from '../types/signal';
-import { notifyTelegram } from '../utils/notifyTelegram';
-import { fetchPrice, normSymbol } from '../utils/fetchPrice';
-import { getPositionSize } from '../utils/positionSizing';
+import { PaperSettings } from '../types/paper';
+import { normSymbol } from '../utils/fetchPrice';
+import { RISK_PCT_PER_TRADE } from '../utils/positionSizing';
 import { api } from '../utils/api';
+import { usePaperTrading, notifyPaperEvent } from '../store/paperStore';
+import { useAuth } from '../contexts/AuthContext';
 import AnalysisBreakdown, { AnalysisBreakdown as BreakdownType } from '../components/AnalysisBreakdown';
 import PositionChart from '../components/PositionChart';
-import TradingAnalytics from '../components/TradingAnalytics';
+import TradingAnalytics, { HistoryEntry } from '../components/TradingAnalytics';
 
 const API = '/api';
 const QUICK_SYMBOLS = ['BTC-USDT', 'ETH-USDT', 'SOL-USDT', 'RIVER-USDT', 'DOGE-USDT', 'XRP-USDT'];
 const MAX_SYMBOLS = 5;
 const STORAGE_KEY = 'autoTradingSettings';
-const STORAGE_KEY_STATE = 'autoTradingState';
-const STORAGE_KEY_CLIENT_ID = 'orders_client_id';
-
-function getClientId(): string {
-  try {
-    let id = localStorage.getItem(STORAGE_KEY_CLIENT_ID);
-    if (!id) {
-      id = 'client_' + Date.now() + '_' + Math.random().toString(36).slice(2, 11);
-      localStorage.setItem(STORAGE_KEY_CLIENT_ID, id);
-    }
-    return id;
-  } catch {
-    return 'default';
-  }
-}
 
 const LEVERAGE_MIN = 1;
 const LEVERAGE_MAX = 100;
+const LADDER_STEPS_MAX = 5;
+/** Риск на сделку при исполнении — не выше RISK_MAX_PCT сервера (3%) */
+const RISK_PERCENT_MAX = 3;
+const SIZING_MODES = [
+  { id: 'fixed', label: 'Фикс. % баланса' },
+  { id: 'risk', label: 'Риск % на стоп' },
+  { id: 'volatility', label: 'По волатильности' },
+  { id: 'kelly', label: 'Келли (доля)' }
+] as const;
+/** Биржа анализа и исполнения (ключи — в настройках) */
+const EXCHANGES = [
+  { id: 'okx', label: 'OKX' },
+  { id: 'bingx', label: 'BingX' },
+  { id: 'binance', label: 'Binance USDT-M' },
+  { id: 'bybit', label: 'Bybit' }
+] as const;
 const INTERVALS = [
   { ms: 200, label: '0.2 сек' },
   { ms: 1000, label: '1 сек' },
@@ -87,10 +90,24 @@ interface AutoTradingSettings {
   fullAuto: boolean;
   /** Полный автомат: брать топ монет из скринера (волатильность, объём, BB squeeze) вместо выбранных пар */
   useScanner: boolean;
-  /** Полный автомат: исполнение ордеров через OKX (нужен AUTO_TRADING_EXECUTION_ENABLED на сервере) */
+  /** Биржа данных и исполнения */
+  exchange: (typeof EXCHANGES)[number]['id'];
+  /** Полный автомат: исполнение ордеров на бирже (нужен AUTO_TRADING_EXECUTION_ENABLED на сервере) */
   executeOrders: boolean;
-  /** При исполнении: использовать testnet (демо-счёт OKX) */
+  /** При исполнении: использовать testnet (демо-счёт биржи) */
   useTestnet: boolean;
+  /** При исполнении: вход маркетом или лимитной / post-only лесенкой в зоне пробоя */
+  entryMode: 'market' | 'limit' | 'post_only';
+  /** Ордеров в лесенке (1 — только оптимальная цена зоны) */
+  ladderSteps: number;
+  /** При исполнении: расчёт размера — фикс. %, риск % на дистанцию стопа, с поправкой на волатильность, доля Келли */
+  sizingMode: 'fixed' | 'risk' | 'volatility' | 'kelly';
+  /** Риск на сделку, % депозита (режим risk) */
+  riskPercent: number;
+  /** Доля Келли 0–1 (режим kelly) */
+  kellyFraction: number;
+  /** Стратегия сигналов сессии (GET /api/strategies) */
+  signalStrategy: string;
 }
 
 const DEFAULT_SETTINGS: AutoTradingSettings = {
@@ -114,13 +131,26 @@ const DEFAULT_SETTINGS: AutoTradingSettings = {
   maxPositionDurationHours: 24,
   fullAuto: false,
   useScanner: true,
+  exchange: 'okx',
   executeOrders: false,
-  useTestnet: true
+  useTestnet: true,
+  entryMode: 'market',
+  ladderSteps: 1,
+  sizingMode: 'fixed',
+  riskPercent: 1,
+  kellyFraction: 0.5,
+  signalStrategy: 'default'
 };
 
 /** Аналитика: SHORT в плюсе, LONG в минусе — для LONG требуем +8% уверенности */
 const LONG_MIN_CONFIDENCE_BONUS = 8;
 
+/** Мин. время удержания до авто-закрытия по ROE / времени (SL/TP сервер проверяет сразу) */
+const MIN_HOLD_BEFORE_CLOSE_SEC = 120;
+
+/** Суммарная маржа открытых позиций — не более 50% баланса (Risk Manager) */
+const MAX_LOCKED_PERCENT = 50;
+
 /** Настройки для полного автомата — система подбирает лучший результат */
 const FULL_AUTO_DEFAULTS = {
   sizePercent: 5,
@@ -145,6 +175,10 @@ function formatPrice(price: number): string {
   return price.toFixed(7);
 }
 
+function validClosePrice(h: { closePrice?: number | null }): boolean {
+  return typeof h.closePrice === 'number' && Number.isFinite(h.closePrice) && h.closePrice > 0;
+}
+
 function loadSettings(): AutoTradingSettings {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
@@ -160,8 +194,15 @@ function loadSettings(): AutoTradingSettings {
       s.strategy = s.strategy || 'default';
       s.fullAuto = Boolean(s.fullAuto);
       s.useScanner = s.useScanner !== false;
+      if (!EXCHANGES.some((e) => e.id === s.exchange)) s.exchange = 'okx';
       s.executeOrders = Boolean(s.executeOrders);
       s.useTestnet = s.useTestnet !== false;
+      if (!['market', 'limit', 'post_only'].includes(s.entryMode)) s.entryMode = 'market';
+      s.ladderSteps = Math.max(1, Math.min(LADDER_STEPS_MAX, Math.round(Number(s.ladderSteps) || 1)));
+      if (!SIZING_MODES.some((m) => m.id === s.sizingMode)) s.sizingMode = 'fixed';
+      s.riskPercent = Math.max(0.1, Math.min(RISK_PERCENT_MAX, Number(s.riskPercent) || 1));
+      s.signalStrategy = typeof s.signalStrategy === 'string' && s.signalStrategy ? s.signalStrategy : 'default';
+      s.kellyFraction = Math.max(0.05, Math.min(1, Number(s.kellyFraction) || 0.5));
       if ((s.minConfidence ?? 80) > 90) s.minConfidence = 90;
       return s;
     }
@@ -177,209 +218,35 @@ function saveSettings(s: Partial<AutoTradingSettings>) {
   } catch {}
 }
 
-interface StoredPosition {
-  id: string;
-  signal: TradingSignal;
-  size: number;
-  leverage: number;
-  openPrice: number;
-  currentPrice: number;
-  highSinceOpen?: number;
-  lowSinceOpen?: number;
-  pnl: number;
-  pnlPercent: number;
-  openTime: string;
-  autoOpened?: boolean;
-  stopLoss?: number;
-  takeProfit?: number[];
-}
-
-interface StoredHistoryEntry {
-  id: string;
-  pair: string;
-  direction: 'LONG' | 'SHORT';
-  size: number;
-  leverage: number;
-  openPrice: number;
-  closePrice: number;
-  pnl: number;
-  pnlPercent: number;
-  openTime: string;
-  closeTime: string;
-  autoOpened?: boolean;
-  confidenceAtOpen?: number;
-  stopLoss?: number;
-  takeProfit?: number[];
-}
-
-function num(v: unknown, fallback: number): number {
-  const n = typeof v === 'number' && Number.isFinite(v) ? v : fallback;
-  return Number.isFinite(n) ? n : fallback;
-}
-
-function validClosePrice(h: { closePrice?: number }): boolean {
-  return typeof h.closePrice === 'number' && Number.isFinite(h.closePrice) && h.closePrice > 0;
-}
-
-function loadTradingState(): { balance: number; initialBalance: number; positions: DemoPosition[]; history: HistoryEntry[] } {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY_STATE);
-    if (raw) {
-      const p = JSON.parse(raw) as { balance?: number; initialBalance?: number; positions?: StoredPosition[]; history?: StoredHistoryEntry[] };
-      const positions: DemoPosition[] = (p.positions ?? [])
-        .filter((x) => num(x.openPrice, 0) > 0)
-        .map((x) => {
-          const openPrice = num(x.openPrice, 0);
-          const currentPrice = num(x.currentPrice, 0) > 0 ? num(x.currentPrice, 0) : openPrice;
-          return {
-            ...x,
-            openPrice,
-            currentPrice,
-            size: num(x.size, 0),
-            openTime: new Date(x.openTime || Date.now())
-          };
-        });
-      const history: HistoryEntry[] = (p.history ?? []).map((x) => {
-        const openPrice = num(x.openPrice, 0);
-        const closePrice = num(x.closePrice, 0);
-        const size = num(x.size, 0);
-        const leverage = num(x.leverage, 1);
-        const hasValidClose = closePrice > 0;
-        const pnl = hasValidClose ? num(x.pnl, 0) : 0;
-        const pnlPercent = hasValidClose ? num(x.pnlPercent, 0) : 0;
-        const stopLoss = typeof x.stopLoss === 'number' && x.stopLoss > 0 ? x.stopLoss : undefined;
-        const takeProfit = Array.isArray(x.takeProfit) && x.takeProfit.length ? x.takeProfit : undefined;
-        return {
-          ...x,
-          openPrice,
-          closePrice,
-          size,
-          leverage,
-          pnl,
-          pnlPercent,
-          stopLoss,
-          takeProfit,
-          openTime: new Date(x.openTime || Date.now()),
-          closeTime: new Date(x.closeTime || Date.now())
-        };
-      });
-      return {
-        balance: num(p.balance, 10000),
-        initialBalance: num(p.initialBalance, 10000),
-        positions,
-        history: history.slice(0, 100)
-      };
-    }
-  } catch {}
-  return { balance: 10000, initialBalance: 10000, positions: [], history: [] };
-}
-
-function sanitizeNum(n: number): number {
-  return typeof n === 'number' && Number.isFinite(n) ? n : 0;
-}
-
-function saveTradingState(state: { balance: number; initialBalance: number; positions: DemoPosition[]; history: HistoryEntry[] }) {
-  try {
-    const toSave = {
-      balance: sanitizeNum(state.balance),
-      initialBalance: sanitizeNum(state.initialBalance),
-      positions: state.positions.map((p) => ({
-        ...p,
-        openPrice: sanitizeNum(p.openPrice),
-        currentPrice: sanitizeNum(p.currentPrice),
-        size: sanitizeNum(p.size),
-        openTime: p.openTime instanceof Date ? p.openTime.toISOString() : String(p.openTime)
-      })),
-      history: state.history.map((h) => ({
-        ...h,
-        openPrice: sanitizeNum(h.openPrice),
-        closePrice: sanitizeNum(h.closePrice),
-        size: sanitizeNum(h.size),
-        pnl: sanitizeNum(h.pnl),
-        pnlPercent: sanitizeNum(h.pnlPercent),
-        stopLoss: h.stopLoss != null && h.stopLoss > 0 ? sanitizeNum(h.stopLoss) : undefined,
-        takeProfit: Array.isArray(h.takeProfit) && h.takeProfit.length ? h.takeProfit.map(sanitizeNum) : undefined,
-        openTime: h.openTime instanceof Date ? h.openTime.toISOString() : String(h.openTime),
-        closeTime: h.closeTime instanceof Date ? h.closeTime.toISOString() : String(h.closeTime),
-        confidenceAtOpen: h.confidenceAtOpen
-      }))
-    };
-    localStorage.setItem(STORAGE_KEY_STATE, JSON.stringify(toSave));
-  } catch {}
-}
-
-interface DemoPosition {
-  id: string;
-  signal: TradingSignal;
-  size: number;
-  leverage: number;
-  openPrice: number;
-  currentPrice: number;
-  highSinceOpen?: number;   // для trailing (LONG)
-  lowSinceOpen?: number;    // для trailing (SHORT)
-  pnl: number;
-  pnlPercent: number;
-  openTime: Date;
-  autoOpened?: boolean;
-  stopLoss?: number;
-  takeProfit?: number[];
-}
-
-function getSL(pos: DemoPosition): number {
-  return pos.stopLoss ?? pos.signal.stop_loss ?? 0;
-}
-function getTP(pos: DemoPosition): number[] {
-  const tp = pos.takeProfit ?? pos.signal.take_profit;
-  return Array.isArray(tp) && tp.length ? tp : [];
-}
-
-interface HistoryEntry {
-  id: string;
-  pair: string;
-  direction: 'LONG' | 'SHORT';
-  size: number;
-  leverage: number;
-  openPrice: number;
-  closePrice: number;
-  pnl: number;
-  pnlPercent: number;
-  openTime: Date;
-  closeTime: Date;
-  autoOpened?: boolean;
-  confidenceAtOpen?: number;
-  stopLoss?: number;
-  takeProfit?: number[];
-}
-
-function getInitialTradingState() {
-  const s = loadTradingState();
-  return { balance: s.balance, initialBalance: s.initialBalance, positions: s.positions, history: s.history };
-}
-
 export default function AutoTradingPage() {
   const [settings, setSettings] = useState<AutoTradingSettings>(loadSettings);
+  const exchangeLabel = EXCHANGES.find((e) => e.id === settings.exchange)?.label ?? 'OKX';
   const [enabled, setEnabled] = useState(false);
-  const [tradingState, setTradingState] = useState(getInitialTradingState);
-  const { balance, initialBalance, positions, history } = tradingState;
-  const setBalance = (v: number | ((prev: number) => number)) => setTradingState((s) => ({ ...s, balance: typeof v === 'function' ? v(s.balance) : v }));
-  const setInitialBalance = (v: number | ((prev: number) => number)) => setTradingState((s) => ({ ...s, initialBalance: typeof v === 'function' ? v(s.initialBalance) : v }));
-  const setPositions = (v: DemoPosition[] | ((prev: DemoPosition[]) => DemoPosition[])) => setTradingState((s) => ({ ...s, positions: typeof v === 'function' ? v(s.positions) : v }));
-  const setHistory = (v: HistoryEntry[] | ((prev: HistoryEntry[]) => HistoryEntry[])) => setTradingState((s) => ({ ...s, history: typeof v === 'function' ? v(s.history) : v }));
   const [lastSignal, setLastSignal] = useState<TradingSignal | null>(null);
   const [lastBreakdown, setLastBreakdown] = useState<BreakdownType | null>(null);
   const [status, setStatus] = useState<'idle' | 'running' | 'error' | 'stopped_daily_loss'>('idle');
+  const [startError, setStartError] = useState<string | null>(null);
+  const [signalStrategies, setSignalStrategies] = useState<{ id: string; name: string; description: string }[]>([]);
   const [okxData, setOkxData] = useState<{ positions: Array<{ symbol: string; side: string; contracts: number; entryPrice: number; markPrice?: number; unrealizedPnl?: number }>; balance: number; openCount: number; useTestnet: boolean } | null>(null);
-  const closePositionRef = useRef<(pos: DemoPosition, price?: number) => void>(() => {});
-  const positionsRef = useRef<DemoPosition[]>([]);
-  const closingIdsRef = useRef<Set<string>>(new Set());
-  const lastOpenTimeRef = useRef<Record<string, number>>({});
-  const historyRef = useRef<HistoryEntry[]>([]);
-  historyRef.current = history;
   const settingsRef = useRef(settings);
   settingsRef.current = settings;
-  positionsRef.current = positions;
-  const enabledRef = useRef(enabled);
-  enabledRef.current = enabled;
+  // Сессия авто-анализа и исполнение — на счёте пользователя (ключи из настроек, /api/accounts)
+  const { token } = useAuth();
+  const authHeaders = useMemo(
+    (): Record<string, string> => ({ 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) }),
+    [token]
+  );
+
+  // Позиции, SL/TP, trailing и Hard Stop ведёт сервер (services/paperTrading.ts)
+  const { account, positions, history, error: paperError, closePosition, updateSettings, reset } = usePaperTrading((event) => {
+    notifyPaperEvent(event);
+    if (event.type === 'hard_stop') {
+      setEnabled(false);
+      setStatus('stopped_daily_loss');
+    }
+  });
+  const balance = account?.balance ?? 0;
+  const initialBalance = account?.initialBalance ?? 0;
 
   const symbols = settings.symbols;
   const mode = settings.mode;
@@ -394,8 +261,49 @@ export default function AutoTradingPage() {
   };
 
   useEffect(() => {
-    saveTradingState(tradingState);
-  }, [tradingState.balance, tradingState.initialBalance, tradingState.positions, tradingState.history]);
+    fetch(`${API}/strategies`)
+      .then((r) => r.json())
+      .then((data) => setSignalStrategies(Array.isArray(data) ? data : []))
+      .catch(() => setSignalStrategies([]));
+  }, []);
+
+  // Авто-открытие продолжает работать на сервере после перезагрузки страницы
+  const [synced, setSynced] = useState(false);
+  useEffect(() => {
+    if (!account || synced) return;
+    setEnabled(account.settings.autoOpen);
+    setSynced(true);
+  }, [account, synced]);
+
+  const paperSettings = useMemo((): Partial<PaperSettings> => {
+    const fullAuto = settings.fullAuto;
+    return {
+      autoOpen: enabled,
+      symbols: fullAuto ? [] : settings.symbols,
+      allowedDirections: settings.allowedDirections,
+      minConfidence: fullAuto ? FULL_AUTO_DEFAULTS.minConfidence : settings.minConfidence,
+      longConfidenceBonus: LONG_MIN_CONFIDENCE_BONUS,
+      sizePercent: fullAuto ? FULL_AUTO_DEFAULTS.sizePercent : settings.sizePercent,
+      riskPercent: fullAuto ? RISK_PCT_PER_TRADE * 100 : 0,
+      leverage: fullAuto ? FULL_AUTO_DEFAULTS.leverage : leverage,
+      maxPositions: fullAuto ? FULL_AUTO_DEFAULTS.maxPositions : settings.maxPositions,
+      maxLockedPercent: MAX_LOCKED_PERCENT,
+      cooldownSec: fullAuto ? FULL_AUTO_DEFAULTS.cooldownSec : settings.cooldownSec,
+      useSignalSLTP: fullAuto || settings.useSignalSLTP,
+      trailingStopPercent: settings.trailingStopPercent,
+      maxPositionDurationHours: settings.maxPositionDurationHours,
+      autoClose: fullAuto ? FULL_AUTO_DEFAULTS.autoClose : settings.autoClose,
+      autoCloseTp: fullAuto ? FULL_AUTO_DEFAULTS.autoCloseTp : settings.autoCloseTp,
+      autoCloseSl: fullAuto ? FULL_AUTO_DEFAULTS.autoCloseSl : settings.autoCloseSl,
+      minHoldSec: MIN_HOLD_BEFORE_CLOSE_SEC,
+      maxDailyLossPercent: settings.maxDailyLossPercent
+    };
+  }, [enabled, settings, leverage]);
+
+  useEffect(() => {
+    if (!synced) return;
+    updateSettings(paperSettings);
+  }, [synced, paperSettings, updateSettings]);
 
   useEffect(() => {
     if (!enabled || !settings.fullAuto || !settings.executeOrders) {
@@ -404,14 +312,14 @@ export default function AutoTradingPage() {
     }
     const useTestnet = settings.useTestnet !== false;
     const fetchOkx = () => {
-      api.get<{ positions: any[]; balance: number; openCount: number; useTestnet: boolean }>(`/trading/positions?useTestnet=${useTestnet}`)
+      api.get<{ positions: any[]; balance: number; openCount: number; useTestnet: boolean }>(`/trading/positions?useTestnet=${useTestnet}&exchange=${settings.exchange}`, { headers: authHeaders })
         .then((data) => setOkxData(data))
         .catch(() => setOkxData(null));
     };
     fetchOkx();
     const id = setInterval(fetchOkx, 15000);
     return () => clearInterval(id);
-  }, [enabled, settings.fullAuto, settings.executeOrders, settings.useTestnet]);
+  }, [enabled, settings.fullAuto, settings.executeOrders, settings.useTestnet, settings.exchange, authHeaders]);
 
   useEffect(() => {
     if (!enabled) return;
@@ -423,38 +331,53 @@ export default function AutoTradingPage() {
     const isFullAuto = settings.fullAuto;
     const payload = isFullAuto
       ? {
+          exchange: settings.exchange,
           symbols: syms,
           timeframe: tf,
           fullAuto: true,
+          strategy: settings.signalStrategy,
           intervalMs: FULL_AUTO_DEFAULTS.intervalMs,
           useScanner: settings.useScanner !== false,
           executeOrders: settings.executeOrders === true,
           useTestnet: settings.useTestnet !== false,
+          entryMode: settings.entryMode,
+          ladderSteps: settings.ladderSteps,
+          sizingMode: settings.sizingMode,
+          riskPercent: settings.riskPercent,
+          kellyFraction: settings.kellyFraction,
           maxPositions: FULL_AUTO_DEFAULTS.maxPositions,
           sizePercent: FULL_AUTO_DEFAULTS.sizePercent,
           leverage: FULL_AUTO_DEFAULTS.leverage
         }
       : {
+          exchange: settings.exchange,
           symbols: syms,
           timeframe: tf,
           intervalMs: settings.intervalMs,
+          strategy: settings.signalStrategy,
           mode: settings.strategy === 'futures25x' ? 'futures25x' : settings.scalpingMode ? 'scalping' : 'default'
         };
     fetch(`${API}/market/auto-analyze/start`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: authHeaders,
       body: JSON.stringify(payload)
     })
       .then((r) => r.json())
       .then((data) => {
+        if (data?.error) {
+          setStartError(data.error);
+          setStatus('error');
+          return;
+        }
+        setStartError(null);
         setStatus(data?.status === 'started' || data?.status === 'already_running' ? 'running' : 'idle');
       })
       .catch(() => setStatus('error'));
     return () => {
-      fetch(`${API}/market/auto-analyze/stop`, { method: 'POST', headers: { 'Content-Type': 'application/json' } }).catch(() => {});
+      fetch(`${API}/market/auto-analyze/stop`, { method: 'POST', headers: authHeaders }).catch(() => {});
       setStatus('idle');
     };
-  }, [enabled, symbols, settings.intervalMs, settings.scalpingMode, settings.strategy, settings.fullAuto, settings.useScanner]);
+  }, [authHeaders, enabled, symbols, settings.intervalMs, settings.scalpingMode, settings.strategy, settings.fullAuto, settings.useScanner, settings.executeOrders, settings.useTestnet, settings.exchange, settings.entryMode, settings.ladderSteps, settings.sizingMode, settings.riskPercent, settings.kellyFraction, settings.signalStrategy]);
 
   useEffect(() => {
     const wsUrl = (location.protocol === 'https:' ? 'wss:' : 'ws:') + '//' + location.host + '/ws';
@@ -474,301 +397,31 @@ export default function AutoTradingPage() {
           const useFullAuto = st.fullAuto;
           if (isSelected || isTestSignal || useFullAuto) setLastSignal(s);
           if (bd && typeof (bd as { forecast?: { confidence?: number } })?.forecast?.confidence === 'number') setLastBreakdown(bd);
-          if (!enabledRef.current || !s?.symbol) return;
-          if (!useFullAuto && !isSelected && !isTestSignal) return;
-          const minConfBase = useFullAuto ? FULL_AUTO_DEFAULTS.minConfidence : st.minConfidence;
-          const minConf = s.direction === 'LONG' ? minConfBase + LONG_MIN_CONFIDENCE_BONUS : minConfBase;
-          const sizePct = useFullAuto ? FULL_AUTO_DEFAULTS.sizePercent : st.sizePercent;
-          const lev = useFullAuto ? FULL_AUTO_DEFAULTS.leverage : (st.mode === 'spot' ? 1 : st.leverage);
-          if (!st.allowedDirections?.includes(s.direction)) return;
-          const confPct = (s.confidence ?? 0) * 100;
-          if (confPct < minConf) return;
-
-          const hasPosition = positionsRef.current.some((p) => normSymbol(p.signal.symbol) === sigNorm);
-          if (hasPosition) return;
-
-          const maxPos = useFullAuto ? FULL_AUTO_DEFAULTS.maxPositions : (st.maxPositions ?? 3);
-          const count = positionsRef.current.filter((p) => normSymbol(p.signal.symbol) === sigNorm).length;
-          if (count >= maxPos) return;
-
-          // Risk Manager (generate-pdf.js): сумма позиций не более 50% баланса
-          const totalLocked = positionsRef.current.reduce((s, p) => s + p.size, 0);
-          const maxLocked = balanceRef.current * 0.5;
-          if (totalLocked >= maxLocked) return;
-
-          const now = Date.now();
-          let cooldown = useFullAuto ? FULL_AUTO_DEFAULTS.cooldownSec : (st.cooldownSec ?? 300);
-          const recentHistory = historyRef.current.slice(-5);
-          const consecutiveLosses = (() => {
-            let n = 0;
-            for (let i = recentHistory.length - 1; i >= 0; i--) {
-              if (recentHistory[i].pnl < 0) n++; else break;
-            }
-            return n;
-          })();
-          if (consecutiveLosses >= 2) cooldown = Math.max(cooldown * 2, 900);
-          const lastOpen = lastOpenTimeRef.current[sigNorm] ?? 0;
-          if (!isTestSignal && now - lastOpen < cooldown * 1000) return;
-
-          lastOpenTimeRef.current[sigNorm] = now;
-          const volMult = (bd as any)?.volatilityMultiplier ?? 1; // Sinclair: при высокой волатильности — меньше размер
-          openPositionRef.current(s, sizePct, lev, { fullAuto: useFullAuto, volatilityMultiplier: volMult });
         }
       } catch {}
     };
     return () => ws.close();
-  }, [enabled, symbols]);
-
-  const balanceRef = useRef(balance);
-  balanceRef.current = balance;
-
-  const openPosition = (signal: TradingSignal, sizePct: number, lev: number, opts?: { fullAuto?: boolean; volatilityMultiplier?: number }) => {
-    const entry = typeof signal.entry_price === 'number' && Number.isFinite(signal.entry_price) && signal.entry_price > 0 ? signal.entry_price : 0;
-    if (entry <= 0) return;
-    const b = balanceRef.current;
-    let size: number;
-    if (opts?.fullAuto && signal.stop_loss > 0) {
-      size = getPositionSize(b, entry, signal.stop_loss, { riskPct: 0.02, fallbackPct: sizePct / 100 });
-    } else {
-      size = (b * sizePct) / 100;
-    }
-    const volMult = opts?.volatilityMultiplier ?? 1; // Sinclair: при высокой волатильности × 0.7
-    size = size * volMult;
-    size = Math.min(size, b * 0.25);
-    if (size > b || size <= 0) return;
-    const pos: DemoPosition = {
-      id: `pos-${Date.now()}`,
-      signal,
-      size,
-      leverage: lev,
-      openPrice: entry,
-      currentPrice: entry,
-      pnl: 0,
-      pnlPercent: 0,
-      openTime: new Date(),
-      autoOpened: true,
-      stopLoss: signal.stop_loss > 0 ? signal.stop_loss : undefined,
-      takeProfit: Array.isArray(signal.take_profit) && signal.take_profit.length ? signal.take_profit : undefined
-    };
-    setPositions((p) => [...p, pos]);
-    setBalance((prev) => prev - size);
-    api.post(`${API}/orders`, {
-      id: pos.id,
-      clientId: getClientId(),
-      pair: signal.symbol,
-      direction: signal.direction,
-      size: pos.size,
-      leverage: lev,
-      openPrice: entry,
-      stopLoss: pos.stopLoss,
-      takeProfit: pos.takeProfit,
-      openTime: pos.openTime.toISOString(),
-      autoOpened: true,
-      confidenceAtOpen: typeof signal.confidence === 'number' ? signal.confidence : undefined
-    }).catch(() => {});
-    notifyTelegram(
-      `📈 <b>Позиция открыта</b>\n` +
-      `${signal.symbol} ${signal.direction} | $${size.toFixed(2)} | ${lev}x\n` +
-      `Вход: ${entry.toLocaleString('ru-RU')}`
-    );
-  };
-  const openPositionRef = useRef(openPosition);
-  openPositionRef.current = openPosition;
-
-  const closePosition = (pos: DemoPosition, usePrice?: number) => {
-    let price = usePrice ?? pos.currentPrice;
-    if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
-      price = pos.openPrice;
-    }
-    const lev = pos.leverage || 1;
-    const pnl = pos.signal.direction === 'LONG'
-      ? ((price - pos.openPrice) / pos.openPrice) * pos.size * lev
-      : ((pos.openPrice - price) / pos.openPrice) * pos.size * lev;
-    const pnlPercent = (pnl / pos.size) * 100;
-    const sl = getSL(pos);
-    const tp = getTP(pos);
-    const entry: HistoryEntry = {
-      id: pos.id,
-      pair: pos.signal.symbol,
-      direction: pos.signal.direction,
-      size: pos.size,
-      leverage: lev,
-      openPrice: pos.openPrice,
-      closePrice: price,
-      pnl,
-      pnlPercent,
-      openTime: pos.openTime,
-      closeTime: new Date(),
-      autoOpened: pos.autoOpened,
-      confidenceAtOpen: typeof pos.signal.confidence === 'number' ? pos.signal.confidence : undefined,
-      stopLoss: sl > 0 ? sl : undefined,
-      takeProfit: tp.length > 0 ? tp : undefined
-    };
-    setBalance((b) => b + pos.size + pnl);
-    setPositions((p) => p.filter((x) => x.id !== pos.id));
-    setHistory((h) => {
-      const without = h.filter((x) => x.id !== entry.id);
-      return [entry, ...without].slice(0, 100);
-    });
-    api.patch(`${API}/orders/${pos.id}`, {
-      closePrice: price,
-      pnl,
-      pnlPercent,
-      closeTime: entry.closeTime.toISOString()
-    }).catch(() => {});
-    fetch(`${API}/ml/trade-outcome`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        symbol: pos.signal.symbol,
-        direction: pos.signal.direction,
-        confidence: pos.signal.confidence ?? 0,
-        riskReward: pos.signal.risk_reward ?? 1,
-        triggers: pos.signal.triggers ?? [],
-        pnl
-      })
-    }).catch(() => {});
-    notifyTelegram(
-      `📉 <b>Позиция закрыта</b>\n` +
-      `${pos.signal.symbol} ${pos.signal.direction}\n` +
-      `P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)} (${pnlPercent >= 0 ? '+' : ''}${pnlPercent.toFixed(2)}%)`
-    );
-  };
-  closePositionRef.current = closePosition;
+  }, []);
 
-  useEffect(() => {
-    if (positions.length === 0) return;
-    const syms = [...new Set(positions.map((p) => normSymbol(p.signal.symbol)))].filter(Boolean);
-    if (syms.length === 0) return;
-    const fetchPrices = async () => {
-      for (const sym of syms) {
-        const price = await fetchPrice(sym);
-        if (typeof price !== 'number' || price <= 0) continue;
-        setPositions((prev) => {
-          const next = prev.map((p) => {
-            if (normSymbol(p.signal.symbol) !== sym) return p;
-            const highSince = p.signal.direction === 'LONG' ? Math.max(p.highSinceOpen ?? p.openPrice, price) : undefined;
-            const lowSince = p.signal.direction === 'SHORT' ? Math.min(p.lowSinceOpen ?? p.openPrice, price) : undefined;
-            const updated = { ...p, currentPrice: price, highSinceOpen: highSince ?? p.highSinceOpen, lowSinceOpen: lowSince ?? p.lowSinceOpen };
-            const openTs = p.openTime instanceof Date ? p.openTime.getTime() : new Date(p.openTime as string).getTime();
-            const holdSec = (Date.now() - openTs) / 1000;
-            const minHoldBeforeCloseSec = 120;
-            let shouldClose = false;
-            let closeAt = price;
-
-            if (holdSec < minHoldBeforeCloseSec) {
-              return updated;
-            }
-
-            const sl = getSL(p);
-            const useSignalSLTP = settings.fullAuto || settings.useSignalSLTP;
-            const tpLevels = useSignalSLTP ? getTP(p) : [];
-
-            if (useSignalSLTP && (sl > 0 || tpLevels.length > 0)) {
-              if (p.signal.direction === 'LONG') {
-                if (price <= sl) {
-                  shouldClose = true;
-                  closeAt = sl;
-                } else {
-                  const hit = tpLevels.filter((t) => price >= t).sort((a, b) => a - b)[0];
-                  if (hit != null) {
-                    shouldClose = true;
-                    closeAt = hit;
-                  }
-                }
-              } else {
-                if (price >= sl) {
-                  shouldClose = true;
-                  closeAt = sl;
-                } else {
-                  const hit = tpLevels.filter((t) => price <= t).sort((a, b) => b - a)[0];
-                  if (hit != null) {
-                    shouldClose = true;
-                    closeAt = hit;
-                  }
-                }
-              }
-            }
-            if (!shouldClose && settings.trailingStopPercent > 0 && (updated.highSinceOpen != null || updated.lowSinceOpen != null)) {
-              const trail = settings.trailingStopPercent / 100;
-              if (p.signal.direction === 'LONG' && updated.highSinceOpen != null) {
-                const dropFromHigh = (updated.highSinceOpen - price) / updated.highSinceOpen;
-                if (dropFromHigh >= trail) {
-                  shouldClose = true;
-                  closeAt = price;
-                }
-              } else if (p.signal.direction === 'SHORT' && updated.lowSinceOpen != null) {
-                const riseFromLow = (price - updated.lowSinceOpen) / updated.lowSinceOpen;
-                if (riseFromLow >= trail) {
-                  shouldClose = true;
-                  closeAt = price;
-                }
-              }
-            }
-            const maxDurationHours = settings.maxPositionDurationHours ?? 24;
-            if (!shouldClose && maxDurationHours > 0) {
-              const hoursOpen = holdSec / 3600;
-              if (hoursOpen > maxDurationHours) {
-                shouldClose = true;
-                closeAt = price;
-              }
-            }
-            const autoCloseTp = settings.fullAuto ? FULL_AUTO_DEFAULTS.autoCloseTp : settings.autoCloseTp;
-            const autoCloseSl = settings.fullAuto ? FULL_AUTO_DEFAULTS.autoCloseSl : settings.autoCloseSl;
-            if (!shouldClose && (settings.fullAuto ? FULL_AUTO_DEFAULTS.autoClose : settings.autoClose)) {
-              if (holdSec >= 60) {
-                const pnlPct = p.signal.direction === 'LONG'
-                  ? ((price - p.openPrice) / p.openPrice) * 100 * (p.leverage || 1)
-                  : ((p.openPrice - price) / p.openPrice) * 100 * (p.leverage || 1);
-                if (pnlPct >= autoCloseTp || pnlPct <= -autoCloseSl) {
-                  shouldClose = true;
-                  closeAt = price;
-                }
-              }
-            }
-            if (shouldClose && holdSec >= minHoldBeforeCloseSec) {
-              if (closingIdsRef.current.has(p.id)) return null;
-              closingIdsRef.current.add(p.id);
-              setTimeout(() => {
-                closePositionRef.current(updated, closeAt);
-                closingIdsRef.current.delete(p.id);
-              }, 0);
-              return null;
-            }
-            return updated;
-          });
-          return next.filter((x): x is DemoPosition => x != null);
-        });
-      }
-    };
-    fetchPrices();
-    const id = setInterval(fetchPrices, 1200);
-    return () => clearInterval(id);
-  }, [positions.length, settings.autoClose, settings.autoCloseTp, settings.autoCloseSl, settings.useSignalSLTP, settings.trailingStopPercent, settings.fullAuto, settings.maxPositionDurationHours]);
-
-  const totalPnl = balance - initialBalance;
+  const totalPnl = (account?.equity ?? 0) - initialBalance;
   const totalPnlPercent = initialBalance > 0 ? (totalPnl / initialBalance) * 100 : 0;
 
-  const hardStopTriggeredRef = useRef(false);
-
-  // Hard Stop (generate-pdf.js): при критической просадке закрыть все позиции, затем остановить
-  useEffect(() => {
-    if (!enabled || settings.maxDailyLossPercent <= 0) return;
-    if (totalPnlPercent > -settings.maxDailyLossPercent) {
-      hardStopTriggeredRef.current = false;
-      return;
-    }
-    if (hardStopTriggeredRef.current) return;
-    hardStopTriggeredRef.current = true;
-    const toClose = [...positionsRef.current];
-    if (toClose.length > 0) {
-      notifyTelegram(`🛑 <b>Hard Stop</b>\nПросадка ${totalPnlPercent.toFixed(2)}% — закрытие ${toClose.length} позиций`);
-      toClose.forEach((pos) => setTimeout(() => closePositionRef.current(pos), 0));
-    }
-    setEnabled(false);
-    setStatus('stopped_daily_loss');
-  }, [enabled, totalPnlPercent, settings.maxDailyLossPercent]);
-  const validHistory = history.filter(validClosePrice);
+  const validHistory = useMemo(
+    (): HistoryEntry[] =>
+      history.filter(validClosePrice).map((h) => ({
+        pair: h.symbol,
+        direction: h.direction,
+        pnl: h.pnl ?? 0,
+        pnlPercent: h.pnlPercent ?? 0,
+        openPrice: h.entryPrice,
+        closePrice: h.closePrice ?? 0,
+        openTime: new Date(h.openTime),
+        closeTime: new Date(h.closeTime ?? h.openTime),
+        confidenceAtOpen: h.confidence ?? undefined,
+        autoOpened: h.autoOpened
+      })),
+    [history]
+  );
   const winTrades = validHistory.filter((h) => h.pnl > 0).length;
   const lossTrades = validHistory.filter((h) => h.pnl < 0).length;
   const totalTrades = validHistory.length;
@@ -826,6 +479,14 @@ export default function AutoTradingPage() {
           )}
           {settings.fullAuto && (
             <>
+              <div className="flex items-center gap-3 p-4 rounded-xl border shrink-0" style={{ borderColor: 'var(--border)', background: 'var(--bg-card-solid)' }}>
+                <span className="font-medium">Биржа</span>
+                <select value={settings.exchange} onChange={(e) => updateSetting('exchange', e.target.value as AutoTradingSettings['exchange'])} className="input-field w-40">
+                  {EXCHANGES.map((e) => (
+                    <option key={e.id} value={e.id}>{e.label}</option>
+                  ))}
+                </select>
+              </div>
               <label className="flex items-center gap-3 p-4 rounded-xl border cursor-pointer transition hover:border-[var(--accent)]/50 shrink-0" style={{ borderColor: settings.executeOrders ? 'var(--accent)' : 'var(--border)', background: settings.executeOrders ? 'var(--accent-dim)' : 'var(--bg-card-solid)' }}>
                 <input
                   type="checkbox"
@@ -833,7 +494,7 @@ export default function AutoTradingPage() {
                   onChange={(e) => updateSetting('executeOrders', e.target.checked)}
                   className="rounded w-5 h-5 accent-[var(--accent)]"
                 />
-                <span className="font-medium">Исполнение через OKX (реальные ордера)</span>
+                <span className="font-medium">Исполнение через {exchangeLabel} (реальные ордера)</span>
               </label>
               {settings.executeOrders && (
                 <label className="flex items-center gap-3 p-4 rounded-xl border cursor-pointer transition hover:border-[var(--accent)]/50 shrink-0" style={{ borderColor: settings.useTestnet ? 'var(--accent)' : 'var(--border)', background: settings.useTestnet ? 'var(--accent-dim)' : 'var(--bg-card-solid)' }}>
@@ -843,9 +504,55 @@ export default function AutoTradingPage() {
                     onChange={(e) => updateSetting('useTestnet', e.target.checked)}
                     className="rounded w-5 h-5 accent-[var(--accent)]"
                   />
-                  <span className="font-medium">Testnet (демо-счёт OKX)</span>
+                  <span className="font-medium">Testnet (демо-счёт {exchangeLabel})</span>
                 </label>
               )}
+              {settings.executeOrders && (
+                <div className="flex items-center gap-3 p-4 rounded-xl border shrink-0" style={{ borderColor: 'var(--border)', background: 'var(--bg-card-solid)' }}>
+                  <span className="font-medium">Вход</span>
+                  <select value={settings.entryMode} onChange={(e) => updateSetting('entryMode', e.target.value as AutoTradingSettings['entryMode'])} className="input-field w-32">
+                    <option value="market">Маркет</option>
+                    <option value="limit">Лимит</option>
+                    <option value="post_only">Post-only</option>
+                  </select>
+                  {settings.entryMode !== 'market' && (
+                    <select value={settings.ladderSteps} onChange={(e) => updateSetting('ladderSteps', Number(e.target.value))} className="input-field w-28" title="Ордеров в зоне входа">
+                      {Array.from({ length: LADDER_STEPS_MAX }, (_, i) => i + 1).map((n) => (
+                        <option key={n} value={n}>{n === 1 ? '1 ордер' : n < 5 ? `${n} ордера` : `${n} ордеров`}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+              {settings.executeOrders && (
+                <div className="flex items-center gap-3 p-4 rounded-xl border shrink-0" style={{ borderColor: 'var(--border)', background: 'var(--bg-card-solid)' }}>
+                  <span className="font-medium">Размер</span>
+                  <select value={settings.sizingMode} onChange={(e) => updateSetting('sizingMode', e.target.value as AutoTradingSettings['sizingMode'])} className="input-field w-44">
+                    {SIZING_MODES.map((m) => (
+                      <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                  </select>
+                  {settings.sizingMode === 'risk' && (
+                    <input
+                      type="number"
+                      min={0.1}
+                      max={RISK_PERCENT_MAX}
+                      step={0.1}
+                      value={settings.riskPercent}
+                      onChange={(e) => updateSetting('riskPercent', Math.max(0.1, Math.min(RISK_PERCENT_MAX, Number(e.target.value) || 1)))}
+                      className="input-field w-20"
+                      title="Риск на сделку, % депозита"
+                    />
+                  )}
+                  {settings.sizingMode === 'kelly' && (
+                    <select value={settings.kellyFraction} onChange={(e) => updateSetting('kellyFraction', Number(e.target.value))} className="input-field w-28" title="Доля Келли">
+                      {[0.25, 0.5, 1].map((f) => (
+                        <option key={f} value={f}>{f === 1 ? 'Полный' : `${f * 100}%`}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
             </>
           )}
         </div>
@@ -969,6 +676,21 @@ export default function AutoTradingPage() {
             </p>
           </div>
           )}
+          {signalStrategies.length > 1 && (
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wider block mb-2" style={{ color: 'var(--text-muted)' }}>Сигналы</label>
+            <select
+              value={settings.signalStrategy}
+              onChange={(e) => updateSetting('signalStrategy', e.target.value)}
+              className="input-field w-56"
+              title={signalStrategies.find((s) => s.id === settings.signalStrategy)?.description}
+            >
+              {signalStrategies.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+          </div>
+          )}
         </div>
 
         {/* Douglas (Trading in the Zone): принятие риска, правота ≠ прибыль */}
@@ -988,14 +710,14 @@ export default function AutoTradingPage() {
         {settings.fullAuto && settings.executeOrders && okxData && (
           <div className="mb-6 p-4 rounded-xl border" style={{ borderColor: 'var(--border)', background: 'var(--bg-card-solid)' }}>
             <p className="text-sm font-medium mb-2">
-              Позиции OKX {okxData.useTestnet ? '(Testnet)' : '(Real)'}
+              Позиции {exchangeLabel} {okxData.useTestnet ? '(Testnet)' : '(Real)'}
             </p>
             <p className="text-xs mb-2" style={{ color: 'var(--text-muted)' }}>
               Баланс: ${(okxData.balance ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2 })} · Открыто: {okxData.openCount ?? 0}
             </p>
             {(okxData.balance ?? 0) === 0 && (
               <p className="text-xs mb-2" style={{ color: 'var(--warning)' }}>
-                Для исполнения ордеров пополните счёт OKX {okxData.useTestnet ? '(демо на okx.com)' : ''}.
+                Для исполнения ордеров пополните счёт {exchangeLabel} {okxData.useTestnet ? '(демо-счёт)' : ''}.
               </p>
             )}
             {okxData.positions && okxData.positions.length > 0 && (
@@ -1183,6 +905,9 @@ export default function AutoTradingPage() {
             }`}>
               {enabled ? status === 'running' ? '● Анализ запущен' : status === 'error' ? '● Ошибка' : status === 'stopped_daily_loss' ? '● Дневной лимит' : '● Запуск...' : '○ Выключено'}
             </span>
+            {enabled && status === 'error' && startError && (
+              <span className="text-xs text-[var(--danger)]">{startError}</span>
+            )}
             <span className="text-sm px-3 py-1 rounded-lg font-medium" style={{ background: 'var(--bg-card-solid)', color: 'var(--text-muted)' }}>{mode === 'spot' ? 'SPOT 1x' : `Futures ${leverage}x`}</span>
           </div>
         </div>
@@ -1222,8 +947,11 @@ export default function AutoTradingPage() {
               <span className="text-xs" style={{ color: 'var(--text-muted)' }}>Лучшая / Худшая</span>
               <span className="text-sm font-medium"><span className="text-[var(--success)]">+${bestTrade.toFixed(2)}</span> / <span className="text-[var(--danger)]">${worstTrade.toFixed(2)}</span></span>
             </div>
+            {paperError && (
+              <p className="col-span-2 text-xs text-[var(--danger)]">{paperError}</p>
+            )}
             <div className="col-span-2 pt-2">
-              <button onClick={() => { setBalance(10000); setInitialBalance(10000); setPositions([]); setHistory([]); lastOpenTimeRef.current = {}; }} className="btn-secondary text-sm px-6 py-2.5 rounded-xl">
+              <button onClick={() => { reset(); }} className="btn-secondary text-sm px-6 py-2.5 rounded-xl">
                 Сбросить счёт
               </button>
             </div>
@@ -1293,7 +1021,7 @@ export default function AutoTradingPage() {
         </section>
       </div>
 
-      <TradingAnalytics history={history} minConfidence={settings.minConfidence} />
+      <TradingAnalytics history={validHistory} minConfidence={settings.minConfidence} />
 
       <section className="card p-6 md:p-8">
         <h3 className="text-lg font-bold mb-6 tracking-tight">Открытые позиции ({positions.length})</h3>
@@ -1303,13 +1031,10 @@ export default function AutoTradingPage() {
           <div className="space-y-4">
             {positions.map((pos) => {
               const lev = pos.leverage || 1;
-              const rawPct = pos.signal.direction === 'LONG'
-                ? ((pos.currentPrice - pos.openPrice) / pos.openPrice) * 100
-                : ((pos.openPrice - pos.currentPrice) / pos.openPrice) * 100;
-              const pnlPct = rawPct * lev;
-              const pnl = (pos.size * pnlPct) / 100;
-              const sl = getSL(pos);
-              const tp = getTP(pos);
+              const pnl = pos.unrealizedPnl;
+              const pnlPct = pos.unrealizedPnlPercent;
+              const sl = pos.stopLoss ?? 0;
+              const tp = pos.takeProfit;
               return (
                 <div
                   key={pos.id}
@@ -1317,12 +1042,12 @@ export default function AutoTradingPage() {
                   style={{ borderColor: 'var(--border)', background: 'var(--bg-card-solid)' }}
                 >
                   <div className="shrink-0">
-                    <span className="font-bold">{pos.signal.symbol} {pos.signal.direction}</span>
+                    <span className="font-bold">{pos.symbol} {pos.direction}</span>
                     <span className="ml-2 text-amber-400 text-sm">{lev}x</span>
                     <div className="grid grid-cols-2 gap-x-8 gap-y-2 mt-3 text-sm">
-                      <p><span style={{ color: 'var(--text-muted)' }}>Размер: </span><span>${pos.size.toFixed(2)}</span></p>
-                      <p><span style={{ color: 'var(--text-muted)' }}>Вход: </span><span>{pos.openPrice.toLocaleString('ru-RU')}</span></p>
-                      <p><span style={{ color: 'var(--text-muted)' }}>Текущая: </span><span>{pos.currentPrice.toLocaleString('ru-RU')}</span></p>
+                      <p><span style={{ color: 'var(--text-muted)' }}>Размер: </span><span>${pos.margin.toFixed(2)}</span></p>
+                      <p><span style={{ color: 'var(--text-muted)' }}>Вход: </span><span>{pos.entryPrice.toLocaleString('ru-RU')}</span></p>
+                      <p><span style={{ color: 'var(--text-muted)' }}>Текущая: </span><span>{pos.lastPrice.toLocaleString('ru-RU')}</span></p>
                       <p><span style={{ color: 'var(--text-muted)' }}>P&L: </span><span className={pnl >= 0 ? 'text-[var(--success)]' : 'text-[var(--danger)]'}>{pnl >= 0 ? '+' : ''}{pnl.toFixed(2)} ({pnlPct >= 0 ? '+' : ''}{pnlPct.toFixed(2)}%)</span></p>
                       {sl > 0 && <p className="col-span-2"><span style={{ color: 'var(--text-muted)' }}>SL: </span><span style={{ color: 'var(--danger)' }}>{sl.toLocaleString('ru-RU')}</span></p>}
                       {tp.length > 0 && <p className="col-span-2"><span style={{ color: 'var(--text-muted)' }}>TP: </span><span style={{ color: 'var(--success)' }}>{tp.map((t) => t.toLocaleString('ru-RU')).join(' / ')}</span></p>}
@@ -1333,7 +1058,7 @@ export default function AutoTradingPage() {
                       <PositionChart
                         key={`position-chart-${pos.id}`}
                         symbol={(() => {
-                          const s = pos.signal.symbol || '';
+                          const s = pos.symbol || '';
                           const base = s.replace(/[-:\/]USDT$/i, '').replace(/\//g, '-');
                           return base ? base + '-USDT' : 'BTC-USDT';
                         })()}
@@ -1344,7 +1069,7 @@ export default function AutoTradingPage() {
                     </div>
                     <div className="flex justify-end">
                       <button
-                        onClick={() => closePositionRef.current(pos)}
+                        onClick={() => { closePosition(pos.id); }}
                         className="px-5 py-2.5 rounded-xl bg-[var(--danger)]/20 text-[var(--danger)] hover:bg-[var(--danger)] hover:text-white text-sm font-semibold shrink-0 transition"
                       >
                         Закрыть
@@ -1380,14 +1105,14 @@ export default function AutoTradingPage() {
               <tbody>
                 {history.slice(0, 20).map((h) => (
                   <tr key={h.id} className="border-b" style={{ borderColor: 'var(--border)' }}>
-                    <td className="py-3 px-2">{h.pair}</td>
+                    <td className="py-3 px-2">{h.symbol}</td>
                     <td className="py-3 px-2">{h.direction}</td>
-                    <td className="text-right py-3 px-2 tabular-nums">${(h.size ?? 0).toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-                    <td className="text-right py-3 px-2 tabular-nums">{formatPrice(h.openPrice)} / {validClosePrice(h) ? formatPrice(h.closePrice) : '—'}</td>
+                    <td className="text-right py-3 px-2 tabular-nums">${h.margin.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="text-right py-3 px-2 tabular-nums">{formatPrice(h.entryPrice)} / {validClosePrice(h) ? formatPrice(h.closePrice ?? 0) : '—'}</td>
                     <td className="text-right py-3 px-2 tabular-nums" style={{ color: 'var(--danger)' }}>{h.stopLoss != null && h.stopLoss > 0 ? formatPrice(h.stopLoss) : '—'}</td>
-                    <td className="text-right py-3 px-2 tabular-nums" style={{ color: 'var(--success)' }}>{Array.isArray(h.takeProfit) && h.takeProfit.length ? h.takeProfit.map(formatPrice).join(' / ') : '—'}</td>
-                    <td className={`text-right py-3 px-2 font-medium ${validClosePrice(h) ? (h.pnl >= 0 ? 'text-[var(--success)]' : 'text-[var(--danger)]') : ''}`}>{validClosePrice(h) ? (h.pnl >= 0 ? '+' : '') + h.pnl.toFixed(2) : '—'}</td>
-                    <td className="py-3 px-2" style={{ color: 'var(--text-muted)' }}>{new Date(h.closeTime).toLocaleString('ru-RU')}</td>
+                    <td className="text-right py-3 px-2 tabular-nums" style={{ color: 'var(--success)' }}>{h.takeProfit.length ? h.takeProfit.map(formatPrice).join(' / ') : '—'}</td>
+                    <td className={`text-right py-3 px-2 font-medium ${validClosePrice(h) ? ((h.pnl ?? 0) >= 0 ? 'text-[var(--success)]' : 'text-[var(--danger)]') : ''}`}>{validClosePrice(h) ? ((h.pnl ?? 0) >= 0 ? '+' : '') + (h.pnl ?? 0).toFixed(2) : '—'}</td>
+                    <td className="py-3 px-2" style={{ color: 'var(--text-muted)' }}>{new Date(h.closeTime ?? h.openTime).toLocaleString('ru-RU')}</td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,412 @@
+/**
+ * Backtest — запуск бэктеста, сохранённые прогоны, кривая капитала / просадка, сравнение прогонов и стратегий,
+ * редактор стратегий из правил
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { api } from '../utils/api';
+import EquityChart, { EquityPoint, EquitySeries, EQUITY_COLORS } from '../components/EquityChart';
+import RuleStrategyEditor from '../components/RuleStrategyEditor';
+
+interface RunMetrics {
+  totalTrades: number;
+  winrate: number;
+  totalPnl: number;
+  totalPnlPct: number;
+  profitFactor: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+  sortino?: number;
+  calmar?: number;
+  sqn?: number;
+  expectancy?: number;
+  totalFees: number;
+  finalBalance: number;
+}
+
+interface RunSummary {
+  id: string;
+  kind: 'run' | 'portfolio';
+  symbol: string;
+  timeframe: string;
+  strategy: string;
+  params: Record<string, unknown>;
+  codeVersion: string | null;
+  datasetId: string | null;
+  range: { from: number | null; to: number | null };
+  metrics: RunMetrics;
+  createdAt: string;
+}
+
+interface RunDetail extends RunSummary {
+  equity: EquityPoint[];
+}
+
+interface StrategyInfo {
+  id: string;
+  name: string;
+  description: string;
+  requires: { entryTimeframe?: string };
+}
+
+interface Comparison {
+  baseId: string;
+  runs: RunSummary[];
+  equity: { id: string; points: EquityPoint[] }[];
+  deltas: { id: string; metrics: RunMetrics }[];
+}
+
+const METRIC_ROWS: { key: keyof RunMetrics; label: string; format: (v: number) => string }[] = [
+  { key: 'totalTrades', label: 'Сделок', format: (v) => v.toFixed(0) },
+  { key: 'winrate', label: 'Winrate', format: (v) => `${(v * 100).toFixed(1)}%` },
+  { key: 'totalPnl', label: 'PnL', format: (v) => v.toFixed(2) },
+  { key: 'totalPnlPct', label: 'PnL %', format: (v) => `${v.toFixed(2)}%` },
+  { key: 'profitFactor', label: 'Profit factor', format: (v) => v.toFixed(2) },
+  { key: 'maxDrawdownPct', label: 'Max DD', format: (v) => `${v.toFixed(2)}%` },
+  { key: 'sharpe', label: 'Sharpe', format: (v) => v.toFixed(2) },
+  { key: 'sortino', label: 'Sortino', format: (v) => v.toFixed(2) },
+  { key: 'calmar', label: 'Calmar', format: (v) => v.toFixed(2) },
+  { key: 'sqn', label: 'SQN', format: (v) => v.toFixed(2) },
+  { key: 'expectancy', label: 'Ожидание / сделка', format: (v) => v.toFixed(2) },
+  { key: 'totalFees', label: 'Комиссии', format: (v) => v.toFixed(2) },
+  { key: 'finalBalance', label: 'Итоговый баланс', format: (v) => v.toFixed(2) }
+];
+
+const MAX_COMPARE = 5;
+
+function runLabel(r: RunSummary): string {
+  return `${r.symbol} ${r.timeframe} ${r.strategy} · ${new Date(r.createdAt).toLocaleString('ru-RU')}`;
+}
+
+function signed(v: number, format: (v: number) => string): string {
+  return (v > 0 ? '+' : '') + format(v);
+}
+
+export default function BacktestPage() {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [detail, setDetail] = useState<RunDetail | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [form, setForm] = useState({ symbol: 'BTC-USDT', strategy: 'default', timeframe: '5m', limit: 500 });
+  const [strategies, setStrategies] = useState<StrategyInfo[]>([]);
+  const [compareStrategies, setCompareStrategies] = useState<string[]>([]);
+
+  const fetchRuns = () => {
+    setLoading(true);
+    api
+      .get<RunSummary[]>('/backtest/runs?limit=100')
+      .then((data) => setRuns(Array.isArray(data) ? data : []))
+      .catch(() => setRuns([]))
+      .finally(() => setLoading(false));
+  };
+
+  const fetchStrategies = () => {
+    api
+      .get<StrategyInfo[]>('/strategies')
+      .then((data) => setStrategies(Array.isArray(data) ? data : []))
+      .catch(() => setStrategies([]));
+  };
+
+  useEffect(() => {
+    fetchRuns();
+    fetchStrategies();
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    setDetail(null);
+    setComparison(null);
+    if (selected.length === 1) {
+      api
+        .get<RunDetail>(`/backtest/runs/${encodeURIComponent(selected[0])}`)
+        .then(setDetail)
+        .catch((e: Error) => setError(e.message));
+    } else if (selected.length > 1) {
+      api
+        .get<Comparison>(`/backtest/runs/compare?ids=${selected.map(encodeURIComponent).join(',')}`)
+        .then(setComparison)
+        .catch((e: Error) => setError(e.message));
+    }
+  }, [selected]);
+
+  const chartSeries: EquitySeries[] = useMemo(() => {
+    if (detail) return [{ id: detail.id, label: detail.symbol, points: detail.equity }];
+    if (!comparison) return [];
+    return comparison.equity.map((e, k) => {
+      const run = comparison.runs.find((r) => r.id === e.id);
+      return { id: e.id, label: run ? `#${k + 1} ${run.symbol}` : e.id, points: e.points };
+    });
+  }, [detail, comparison]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : prev.length >= MAX_COMPARE ? prev : [...prev, id]
+    );
+  };
+
+  const startRun = () => {
+    setRunning(true);
+    setError(null);
+    api
+      .post<{ runId: string | null }>('/backtest/run', form)
+      .then((data) => {
+        fetchRuns();
+        if (data.runId) setSelected([data.runId]);
+      })
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setRunning(false));
+  };
+
+  /** Отмеченные стратегии на одних свечах: прогоны сохраняются и выбираются для сравнения */
+  const startStrategyCompare = () => {
+    setRunning(true);
+    setError(null);
+    const { strategy: _strategy, ...base } = form;
+    api
+      .post<Comparison>('/backtest/strategies/compare', { ...base, strategies: compareStrategies.map((id) => ({ id })) })
+      .then((data) => {
+        fetchRuns();
+        setSelected(data.runs.map((r) => r.id));
+      })
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setRunning(false));
+  };
+
+  const toggleCompareStrategy = (id: string) => {
+    setCompareStrategies((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : prev.length >= MAX_COMPARE ? prev : [...prev, id]
+    );
+  };
+
+  const removeRun = (id: string) => {
+    api
+      .delete(`/backtest/runs/${encodeURIComponent(id)}`)
+      .then(() => {
+        setSelected((prev) => prev.filter((x) => x !== id));
+        fetchRuns();
+      })
+      .catch((e: Error) => setError(e.message));
+  };
+
+  const inputStyle = { background: 'var(--bg-input)', borderColor: 'var(--border)', color: 'var(--text-primary)' };
+
+  return (
+    <div className="space-y-6 max-w-6xl mx-auto">
+      <div className="card p-6">
+        <h2 className="text-xl font-semibold mb-4">Бэктест</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            value={form.symbol}
+            onChange={(e) => setForm({ ...form, symbol: e.target.value.toUpperCase() })}
+            className="rounded border px-2 py-1 text-sm w-32"
+            style={inputStyle}
+          />
+          <select
+            value={form.strategy}
+            onChange={(e) => {
+              const next = strategies.find((s) => s.id === e.target.value);
+              setForm({ ...form, strategy: e.target.value, timeframe: next?.requires.entryTimeframe ?? form.timeframe });
+            }}
+            className="rounded border px-2 py-1 text-sm"
+            style={inputStyle}
+            title={strategies.find((s) => s.id === form.strategy)?.description}
+          >
+            {(strategies.length ? strategies : [{ id: 'default', name: 'default' }]).map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+          <select
+            value={form.timeframe}
+            onChange={(e) => setForm({ ...form, timeframe: e.target.value })}
+            className="rounded border px-2 py-1 text-sm"
+            style={inputStyle}
+          >
+            {['1m', '5m', '15m', '1h', '4h', '1d'].map((tf) => (
+              <option key={tf} value={tf}>{tf}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            <span className="text-sm" style={{ color: 'var(--text-muted)' }}>Свечей</span>
+            <select
+              value={form.limit}
+              onChange={(e) => setForm({ ...form, limit: Number(e.target.value) })}
+              className="rounded border px-2 py-1 text-sm"
+              style={inputStyle}
+            >
+              {[300, 500, 1000, 2000].map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          <button type="button" onClick={startRun} disabled={running} className="btn-primary text-sm">
+            {running ? 'Расчёт…' : 'Запустить'}
+          </button>
+        </div>
+        {strategies.length > 1 && (
+          <div className="flex flex-wrap items-center gap-3 mt-4 text-sm">
+            <span style={{ color: 'var(--text-muted)' }}>Сравнить стратегии:</span>
+            {strategies.map((s) => (
+              <label key={s.id} className="flex items-center gap-1" title={s.description}>
+                <input
+                  type="checkbox"
+                  checked={compareStrategies.includes(s.id)}
+                  onChange={() => toggleCompareStrategy(s.id)}
+                />
+                {s.name}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={startStrategyCompare}
+              disabled={running || compareStrategies.length < 2}
+              className="btn-secondary text-sm"
+            >
+              Сравнить
+            </button>
+          </div>
+        )}
+        {error && <p className="text-sm mt-3" style={{ color: 'var(--danger)' }}>{error}</p>}
+      </div>
+
+      {chartSeries.length > 0 && (
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold mb-2">Капитал и просадка</h3>
+          <div className="flex flex-wrap gap-4 mb-3 text-xs">
+            {chartSeries.map((s, k) => (
+              <span key={s.id} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5" style={{ background: EQUITY_COLORS[k % EQUITY_COLORS.length] }} />
+                {s.label}
+              </span>
+            ))}
+          </div>
+          <EquityChart series={chartSeries} />
+          {comparison && (
+            <div className="overflow-x-auto mt-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr style={{ borderColor: 'var(--border)' }}>
+                    <th className="text-left py-2 px-2">Метрика</th>
+                    {comparison.runs.map((r, k) => (
+                      <th key={r.id} className="text-right py-2 px-2" title={runLabel(r)}>
+                        #{k + 1} {r.symbol} {r.strategy}{r.id === comparison.baseId ? ' (база)' : ''}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRIC_ROWS.map((m) => (
+                    <tr key={m.key} className="border-b" style={{ borderColor: 'var(--border)' }}>
+                      <td className="py-1 px-2">{m.label}</td>
+                      {comparison.runs.map((r) => {
+                        const delta = comparison.deltas.find((d) => d.id === r.id)?.metrics[m.key] ?? 0;
+                        return (
+                          <td key={r.id} className="text-right py-1 px-2 font-mono">
+                            {m.format(r.metrics[m.key] ?? 0)}
+                            {r.id !== comparison.baseId && (
+                              <span className="ml-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+                                {signed(delta, m.format)}
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Сохранённые прогоны</h3>
+          <span className="text-sm" style={{ color: 'var(--text-muted)' }}>
+            Отметьте до {MAX_COMPARE} прогонов для сравнения
+          </span>
+        </div>
+        {loading ? (
+          <p className="text-sm" style={{ color: 'var(--text-muted)' }}>Загрузка…</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm" style={{ color: 'var(--text-muted)' }}>Прогонов пока нет</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr style={{ borderColor: 'var(--border)' }}>
+                  <th className="py-2 px-2" />
+                  <th className="text-left py-2 px-2">Дата</th>
+                  <th className="text-left py-2 px-2">Символ</th>
+                  <th className="text-left py-2 px-2">TF / стратегия</th>
+                  <th className="text-left py-2 px-2">Версия</th>
+                  <th className="text-right py-2 px-2">Сделок</th>
+                  <th className="text-right py-2 px-2">PnL %</th>
+                  <th className="text-right py-2 px-2">PF</th>
+                  <th className="text-right py-2 px-2">Max DD</th>
+                  <th className="text-right py-2 px-2">Sharpe</th>
+                  <th className="text-left py-2 px-2">Экспорт</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((r) => (
+                  <tr key={r.id} className="border-b" style={{ borderColor: 'var(--border)' }}>
+                    <td className="py-2 px-2">
+                      <input type="checkbox" checked={selected.includes(r.id)} onChange={() => toggle(r.id)} />
+                    </td>
+                    <td className="py-2 px-2">{new Date(r.createdAt).toLocaleString('ru-RU')}</td>
+                    <td className="py-2 px-2 font-medium">
+                      {r.symbol}
+                      {r.datasetId && <span className="ml-1 text-xs" style={{ color: 'var(--text-muted)' }}>(набор)</span>}
+                    </td>
+                    <td className="py-2 px-2">{r.timeframe} / {r.strategy}{r.kind === 'portfolio' ? ' (портфель)' : ''}</td>
+                    <td className="py-2 px-2 font-mono text-xs">{r.codeVersion ?? '—'}</td>
+                    <td className="text-right py-2 px-2">{r.metrics.totalTrades}</td>
+                    <td
+                      className="text-right py-2 px-2"
+                      style={{ color: r.metrics.totalPnlPct >= 0 ? 'var(--success)' : 'var(--danger)' }}
+                    >
+                      {r.metrics.totalPnlPct.toFixed(2)}%
+                    </td>
+                    <td className="text-right py-2 px-2">{r.metrics.profitFactor.toFixed(2)}</td>
+                    <td className="text-right py-2 px-2">{r.metrics.maxDrawdownPct.toFixed(2)}%</td>
+                    <td className="text-right py-2 px-2">{r.metrics.sharpe.toFixed(2)}</td>
+                    <td className="py-2 px-2 whitespace-nowrap">
+                      <a
+                        href={`/api/backtest/runs/${encodeURIComponent(r.id)}/trades?format=csv`}
+                        className="mr-2 text-xs hover:underline"
+                        style={{ color: 'var(--accent)' }}
+                      >
+                        CSV
+                      </a>
+                      <a
+                        href={`/api/backtest/runs/${encodeURIComponent(r.id)}/trades?format=json`}
+                        className="mr-2 text-xs hover:underline"
+                        style={{ color: 'var(--accent)' }}
+                      >
+                        JSON
+                      </a>
+                      <button
+                        type="button"
+                        onClick={() => removeRun(r.id)}
+                        className="text-xs hover:underline"
+                        style={{ color: 'var(--danger)' }}
+                      >
+                        Удалить
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <RuleStrategyEditor onChange={fetchStrategies} />
+    </div>
+  );
+}
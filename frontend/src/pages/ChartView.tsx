@@ -289,7 +289,8 @@ export default function ChartView() {
   useEffect(() => {
     fetch(`${API}/signals?limit=5`)
       .then((r) => r.json())
-      .then((list) => {
+      .then((page) => {
+        const list = page?.signals;
         const sym = symbol.replace(/-/g, '/');
         const match =
           Array.isArray(list) &&
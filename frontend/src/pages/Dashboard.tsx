@@ -36,8 +36,8 @@ export default function Dashboard() {
   }, []);
 
   useEffect(() => {
-    api.get<TradingSignal[]>('/signals?limit=10')
-      .then(setSignals)
+    api.get<{ signals: TradingSignal[] }>('/signals?limit=10')
+      .then((page) => setSignals(Array.isArray(page?.signals) ? page.signals : []))
       .catch(() => {});
 
     const wsUrl = (location.protocol === 'https:' ? 'wss:' : 'ws:') + '//' + location.host + '/ws';
@@ -1,69 +1,27 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { TradingSignal } from '../types/signal';
-import { notifyTelegram } from '../utils/notifyTelegram';
-import { fetchPrice, normSymbol } from '../utils/fetchPrice';
+import { usePaperTrading, notifyPaperEvent } from '../store/paperStore';
+import { PaperPosition, PAPER_CLOSE_REASON_LABELS } from '../types/paper';
 
 const API = '/api';
 
 const LEVERAGES = [3, 5, 10, 20] as const;
 
-interface DemoPosition {
-  id: string;
-  signal: TradingSignal;
-  size: number;
-  leverage: number;
-  openPrice: number;
-  currentPrice: number;
-  pnl: number;
-  pnlPercent: number;
-  openTime: Date;
-  autoOpened?: boolean;
-  stopLoss?: number;
-  takeProfit?: number[];
-}
-
-function getSL(pos: DemoPosition): number {
-  return pos.stopLoss ?? pos.signal.stop_loss ?? 0;
-}
-function getTP(pos: DemoPosition): number[] {
-  const tp = pos.takeProfit ?? pos.signal.take_profit;
-  return Array.isArray(tp) && tp.length ? tp : [];
-}
-
-interface HistoryEntry {
-  id: string;
-  pair: string;
-  direction: 'LONG' | 'SHORT';
-  size: number;
-  leverage: number;
-  openPrice: number;
-  closePrice: number;
-  pnl: number;
-  pnlPercent: number;
-  openTime: Date;
-  closeTime: Date;
-  autoOpened?: boolean;
-}
-
 export default function DemoPage() {
-  const [balance, setBalance] = useState(10000);
-  const [initialBalance] = useState(10000);
-  const [positions, setPositions] = useState<DemoPosition[]>([]);
+  const { account, positions, history, error, openPosition, closePosition, updatePosition, updateSettings, reset } = usePaperTrading(notifyPaperEvent);
   const [signals, setSignals] = useState<TradingSignal[]>([]);
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [analyzeSymbol, setAnalyzeSymbol] = useState('BTC-USDT');
   const [analyzing, setAnalyzing] = useState(false);
-  const [autoOpen, setAutoOpen] = useState(false);
-  const [autoOpenSize, setAutoOpenSize] = useState(5);
-  const [autoOpenLeverage, setAutoOpenLeverage] = useState(5);
   const [leverage, setLeverage] = useState(5);
   const [autoAnalyze, setAutoAnalyze] = useState(false);
-  const [autoClose, setAutoClose] = useState(false);
-  const [autoCloseTp, setAutoCloseTp] = useState(2);
-  const [autoCloseSl, setAutoCloseSl] = useState(1.5);
-  const [pendingAutoOpen, setPendingAutoOpen] = useState<TradingSignal | null>(null);
-  const closePositionRef = useRef<(pos: DemoPosition, price?: number) => void>(() => {});
-  const closingIdsRef = useRef<Set<string>>(new Set());
+  /** Черновики SL/TP: отправляются на сервер при потере фокуса */
+  const [drafts, setDrafts] = useState<Record<string, { sl?: string; tp?: string }>>({});
+
+  const settings = account?.settings;
+  const balance = account?.balance ?? 0;
+  const initialBalance = account?.initialBalance ?? 0;
+  const autoOpen = settings?.autoOpen ?? false;
+  const autoClose = settings?.autoClose ?? false;
 
   useEffect(() => {
     const wsUrl = (location.protocol === 'https:' ? 'wss:' : 'ws:') + '//' + location.host + '/ws';
@@ -72,21 +30,14 @@ export default function DemoPage() {
       try {
         const msg = JSON.parse(e.data);
         if (msg.type === 'signal' && msg.data) {
-          const s = msg.data as TradingSignal;
+          const s = ('signal' in msg.data ? msg.data.signal : msg.data) as TradingSignal;
           const norm = (x: TradingSignal) => x.symbol?.replace('/', '-') || '';
           setSignals((prev) => [s, ...prev.filter((x) => norm(x) !== norm(s))]);
-          if (autoOpen) setPendingAutoOpen(s);
         }
       } catch {}
     };
     return () => ws.close();
-  }, [autoOpen]);
-
-  useEffect(() => {
-    if (!pendingAutoOpen || !autoOpen) return;
-    openPositionRef.current(pendingAutoOpen, autoOpenSize, autoOpenLeverage, true);
-    setPendingAutoOpen(null);
-  }, [pendingAutoOpen, autoOpen, autoOpenSize, autoOpenLeverage]);
+  }, []);
 
   const getSignal = () => {
     if (analyzing) return;
@@ -111,27 +62,28 @@ export default function DemoPage() {
   useEffect(() => {
     fetch(`${API}/signals?limit=20`)
       .then((r) => r.json())
-      .then(setSignals)
+      .then((page) => setSignals(Array.isArray(page?.signals) ? page.signals : []))
       .catch(() => {});
   }, []);
 
-  const totalPnl = balance - initialBalance;
+  const closedPnl = (h: PaperPosition) => h.pnl ?? 0;
+  const totalPnl = (account?.equity ?? 0) - initialBalance;
   const totalPnlPercent = initialBalance > 0 ? (totalPnl / initialBalance) * 100 : 0;
   const totalTrades = history.length;
-  const winTrades = history.filter((h) => h.pnl > 0).length;
-  const lossTrades = history.filter((h) => h.pnl < 0).length;
+  const winTrades = history.filter((h) => closedPnl(h) > 0).length;
+  const lossTrades = history.filter((h) => closedPnl(h) < 0).length;
   const winRate = totalTrades > 0 ? (winTrades / totalTrades) * 100 : 0;
-  const grossProfit = history.filter((h) => h.pnl > 0).reduce((s, h) => s + h.pnl, 0);
-  const grossLoss = Math.abs(history.filter((h) => h.pnl < 0).reduce((s, h) => s + h.pnl, 0));
+  const grossProfit = history.filter((h) => closedPnl(h) > 0).reduce((s, h) => s + closedPnl(h), 0);
+  const grossLoss = Math.abs(history.filter((h) => closedPnl(h) < 0).reduce((s, h) => s + closedPnl(h), 0));
   const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0;
   const avgWin = winTrades > 0 ? grossProfit / winTrades : 0;
   const avgLoss = lossTrades > 0 ? grossLoss / lossTrades : 0;
-  const bestTrade = history.length ? Math.max(...history.map((h) => h.pnl), 0) : 0;
-  const worstTrade = history.length ? Math.min(...history.map((h) => h.pnl), 0) : 0;
+  const bestTrade = history.length ? Math.max(...history.map(closedPnl), 0) : 0;
+  const worstTrade = history.length ? Math.min(...history.map(closedPnl), 0) : 0;
   const longTrades = history.filter((h) => h.direction === 'LONG');
   const shortTrades = history.filter((h) => h.direction === 'SHORT');
-  const longWins = longTrades.filter((h) => h.pnl > 0).length;
-  const shortWins = shortTrades.filter((h) => h.pnl > 0).length;
+  const longWins = longTrades.filter((h) => closedPnl(h) > 0).length;
+  const shortWins = shortTrades.filter((h) => closedPnl(h) > 0).length;
   const autoOpenedCount = history.filter((h) => h.autoOpened).length;
 
   const startAutoAnalyze = () => {
@@ -151,158 +103,36 @@ export default function DemoPage() {
       .catch(() => {});
   };
 
-  const balanceRef = useRef(balance);
-  balanceRef.current = balance;
-  const openPositionRef = useRef<(s: TradingSignal, p: number, lev: number, auto?: boolean) => void>(() => {});
-
-  const openPosition = (signal: TradingSignal, sizePercent: number, lev: number, isAuto = false) => {
-    const b = balanceRef.current;
-    const size = (b * sizePercent) / 100;
-    if (size > b || size <= 0) return;
-    const pos: DemoPosition = {
-      id: `pos-${Date.now()}`,
-      signal,
-      size,
-      leverage: lev,
-      openPrice: signal.entry_price,
-      currentPrice: signal.entry_price,
-      pnl: 0,
-      pnlPercent: 0,
-      openTime: new Date(),
-      autoOpened: isAuto
-    };
-    setPositions((p) => [...p, pos]);
-    setBalance((prev) => prev - size);
-    setSignals((prev) => prev.filter((s) => s.id !== signal.id));
-    notifyTelegram(
-      `📈 <b>Позиция открыта</b>\n` +
-      `${signal.symbol} ${signal.direction} | $${size.toFixed(2)} | ${lev}x\n` +
-      `Вход: ${signal.entry_price?.toLocaleString('ru-RU')}`
-    );
-  };
-  openPositionRef.current = openPosition;
-
-  const closePosition = (pos: DemoPosition, usePrice?: number) => {
-    const price = usePrice ?? pos.currentPrice;
-    const lev = pos.leverage || 1;
-    const pnl = pos.signal.direction === 'LONG'
-      ? ((price - pos.openPrice) / pos.openPrice) * pos.size * lev
-      : ((pos.openPrice - price) / pos.openPrice) * pos.size * lev;
-    const pnlPercent = (pnl / pos.size) * 100;
-    const entry: HistoryEntry = {
-      id: pos.id,
-      pair: pos.signal.symbol,
-      direction: pos.signal.direction,
-      size: pos.size,
+  const openFromSignal = (signal: TradingSignal, sizePercent: number, lev: number) => {
+    openPosition({
+      symbol: signal.symbol,
+      direction: signal.direction,
+      sizePercent,
       leverage: lev,
-      openPrice: pos.openPrice,
-      closePrice: price,
-      pnl,
-      pnlPercent,
-      openTime: pos.openTime,
-      closeTime: new Date(),
-      autoOpened: pos.autoOpened
-    };
-    setBalance((b) => b + pos.size + pnl);
-    setPositions((p) => p.filter((x) => x.id !== pos.id));
-    setHistory((h) => {
-      const without = h.filter((x) => x.id !== entry.id);
-      return [entry, ...without].slice(0, 100);
+      stopLoss: signal.stop_loss > 0 ? signal.stop_loss : null,
+      takeProfit: Array.isArray(signal.take_profit) && signal.take_profit.length ? signal.take_profit : null
+    }).then((pos) => {
+      if (pos) setSignals((prev) => prev.filter((s) => s.id !== signal.id));
     });
-    notifyTelegram(
-      `📉 <b>Позиция закрыта</b>\n` +
-      `${pos.signal.symbol} ${pos.signal.direction}\n` +
-      `P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)} (${pnlPercent >= 0 ? '+' : ''}${pnlPercent.toFixed(2)}%)`
-    );
   };
-  closePositionRef.current = closePosition;
 
-  const updatePositionSLTP = (posId: string, stopLoss?: number | null, takeProfit?: number[] | null) => {
-    setPositions((prev) =>
-      prev.map((p) => {
-        if (p.id !== posId) return p;
-        const next = { ...p };
-        if (stopLoss !== undefined) next.stopLoss = stopLoss && stopLoss > 0 ? stopLoss : undefined;
-        if (takeProfit !== undefined) next.takeProfit = takeProfit && takeProfit.length ? takeProfit : undefined;
-        return next;
-      })
-    );
-  };
+  const setDraft = (id: string, patch: { sl?: string; tp?: string }) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
 
-  useEffect(() => {
-    if (positions.length === 0) return;
-    const syms = [...new Set(positions.map((p) => normSymbol(p.signal.symbol)))].filter(Boolean);
-    if (syms.length === 0) return;
-    const fetchPrices = async () => {
-      for (const sym of syms) {
-        const price = await fetchPrice(sym);
-        if (typeof price !== 'number' || price <= 0) continue;
-        setPositions((prev) => {
-          const next = prev.map((p) => {
-            if (normSymbol(p.signal.symbol) !== sym) return p;
-            const updated = { ...p, currentPrice: price };
-                const sl = getSL(p);
-                const tpLevels = getTP(p);
-                let shouldClose = false;
-                let closeAt = price;
-                if (p.signal.direction === 'LONG') {
-                  if (sl > 0 && price <= sl) {
-                    shouldClose = true;
-                    closeAt = sl;
-                  } else if (tpLevels.length) {
-                    const hit = tpLevels.filter((t) => price >= t).sort((a, b) => a - b)[0];
-                    if (hit != null) {
-                      shouldClose = true;
-                      closeAt = hit;
-                    }
-                  }
-                } else {
-                  if (sl > 0 && price >= sl) {
-                    shouldClose = true;
-                    closeAt = sl;
-                  } else if (tpLevels.length) {
-                    const hit = tpLevels.filter((t) => price <= t).sort((a, b) => b - a)[0];
-                    if (hit != null) {
-                      shouldClose = true;
-                      closeAt = hit;
-                    }
-                  }
-                }
-                if (!shouldClose && autoClose) {
-                  const holdSec = (Date.now() - new Date(p.openTime).getTime()) / 1000;
-                  if (holdSec >= 60) {
-                    const lev = p.leverage || 1;
-                    const pnlPct = p.signal.direction === 'LONG'
-                      ? ((price - p.openPrice) / p.openPrice) * 100 * lev
-                      : ((p.openPrice - price) / p.openPrice) * 100 * lev;
-                    if (pnlPct >= autoCloseTp || pnlPct <= -autoCloseSl) {
-                      shouldClose = true;
-                      closeAt = price;
-                    }
-                  }
-                }
-                if (shouldClose) {
-                  const holdSec = (Date.now() - new Date(p.openTime).getTime()) / 1000;
-                  if (holdSec >= 45) {
-                    if (closingIdsRef.current.has(p.id)) return null;
-                    closingIdsRef.current.add(p.id);
-                    setTimeout(() => {
-                      closePositionRef.current(updated, closeAt);
-                      closingIdsRef.current.delete(p.id);
-                    }, 0);
-                    return null;
-                  }
-                }
-                return updated;
-              });
-          return next.filter((x): x is DemoPosition => x != null);
-        });
-      }
-    };
-    fetchPrices();
-    const id = setInterval(fetchPrices, 1200);
-    return () => clearInterval(id);
-  }, [positions.length, autoClose, autoCloseTp, autoCloseSl]);
+  const commitDraft = (pos: PaperPosition) => {
+    const draft = drafts[pos.id];
+    if (!draft) return;
+    const patch: { stopLoss?: number | null; takeProfit?: number[] | null } = {};
+    if (draft.sl !== undefined) {
+      const v = parseFloat(draft.sl.trim());
+      patch.stopLoss = Number.isFinite(v) && v > 0 ? v : null;
+    }
+    if (draft.tp !== undefined) {
+      const vals = draft.tp.split(/[\s,;]+/).map((s) => parseFloat(s)).filter((n) => !Number.isNaN(n) && n > 0);
+      patch.takeProfit = vals.length ? vals : null;
+    }
+    updatePosition(pos.id, patch).finally(() => setDrafts(({ [pos.id]: _done, ...rest }) => rest));
+  };
 
   return (
     <div className="space-y-6 max-w-6xl mx-auto">
@@ -321,17 +151,14 @@ export default function DemoPage() {
           </div>
           <div className="col-span-2 sm:col-span-1 pt-2">
             <button
-              onClick={() => {
-                setBalance(10000);
-                setPositions([]);
-                setHistory([]);
-              }}
+              onClick={() => reset()}
               className="btn-secondary text-sm px-6 py-2.5"
             >
               Сбросить счёт
             </button>
           </div>
         </div>
+        {error && <p className="text-sm mt-4" style={{ color: 'var(--danger)' }}>{error}</p>}
       </section>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -343,32 +170,29 @@ export default function DemoPage() {
             <div className="space-y-3">
               {positions.map((pos) => {
                 const lev = pos.leverage || 1;
-                const rawPct = pos.signal.direction === 'LONG'
-                  ? ((pos.currentPrice - pos.openPrice) / pos.openPrice) * 100
-                  : ((pos.openPrice - pos.currentPrice) / pos.openPrice) * 100;
-                const pnlPct = rawPct * lev;
-                const pnl = pos.size * (rawPct / 100) * lev;
-                const sl = getSL(pos);
-                const tp = getTP(pos);
+                const pnlPct = pos.unrealizedPnlPercent;
+                const pnl = pos.unrealizedPnl;
+                const draft = drafts[pos.id];
                 return (
                   <div
                     key={pos.id}
-                    className={`rounded-xl border p-5 ${pos.signal.direction === 'LONG' ? 'border-[var(--success)]/30 bg-[var(--success-bg)]' : 'border-[var(--danger)]/30 bg-[var(--danger-bg)]'}`}
+                    className={`rounded-xl border p-5 ${pos.direction === 'LONG' ? 'border-[var(--success)]/30 bg-[var(--success-bg)]' : 'border-[var(--danger)]/30 bg-[var(--danger-bg)]'}`}
                   >
                     <div className="flex justify-between items-start mb-2">
-                      <span className="font-bold">{pos.signal.symbol} {pos.signal.direction}</span>
+                      <span className="font-bold">{pos.symbol} {pos.direction}</span>
                       <button
-                        onClick={() => closePosition(pos)}
+                        onClick={() => closePosition(pos.id)}
                         className="text-sm text-red-400 hover:text-red-300"
                       >
                         Закрыть
                       </button>
                     </div>
                     <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
-                      <p><span style={{ color: 'var(--text-muted)' }}>Размер: </span><span>${pos.size.toFixed(2)}</span></p>
+                      <p><span style={{ color: 'var(--text-muted)' }}>Размер: </span><span>${pos.margin.toFixed(2)}</span></p>
                       <p><span style={{ color: 'var(--text-muted)' }}>Плечо: </span><span style={{ color: 'var(--warning)' }}>{lev}x</span></p>
-                      <p><span style={{ color: 'var(--text-muted)' }}>Вход: </span><span>{pos.openPrice.toLocaleString('ru-RU')}</span></p>
-                      <p><span style={{ color: 'var(--text-muted)' }}>Текущая: </span><span>{pos.currentPrice.toLocaleString('ru-RU')}</span></p>
+                      <p><span style={{ color: 'var(--text-muted)' }}>Вход: </span><span>{pos.entryPrice.toLocaleString('ru-RU')}</span></p>
+                      <p><span style={{ color: 'var(--text-muted)' }}>Текущая: </span><span>{pos.lastPrice.toLocaleString('ru-RU')}</span></p>
+                      {pos.liquidationPrice > 0 && <p className="col-span-2"><span style={{ color: 'var(--text-muted)' }}>Ликвидация: </span><span style={{ color: 'var(--danger)' }}>{pos.liquidationPrice.toLocaleString('ru-RU')}</span></p>}
                       <p><span style={{ color: 'var(--text-muted)' }}>P&L: </span><span className={pnl >= 0 ? 'text-[var(--success)]' : 'text-[var(--danger)]'}>
                         {pnl >= 0 ? '+' : ''}{pnl.toFixed(2)} ({pnlPct >= 0 ? '+' : ''}{pnlPct.toFixed(2)}%)
                       </span></p>
@@ -376,12 +200,10 @@ export default function DemoPage() {
                         <span className="text-sm" style={{ color: 'var(--danger)' }}>Stop-Loss:</span>
                         <input
                           type="number"
-                          value={pos.stopLoss !== undefined ? pos.stopLoss : sl || ''}
-                          onChange={(e) => {
-                            const v = e.target.value.trim();
-                            updatePositionSLTP(pos.id, v === '' ? null : parseFloat(v), undefined);
-                          }}
-                          placeholder={sl ? String(sl) : '—'}
+                          value={draft?.sl ?? pos.stopLoss ?? ''}
+                          onChange={(e) => setDraft(pos.id, { sl: e.target.value })}
+                          onBlur={() => commitDraft(pos)}
+                          placeholder="—"
                           className="input-field flex-1 max-w-[130px] text-sm py-1 text-red-300"
                           step={0.01}
                         />
@@ -390,12 +212,10 @@ export default function DemoPage() {
                         <span className="text-sm" style={{ color: 'var(--success)' }}>Take-Profit:</span>
                         <input
                           type="text"
-                          value={(pos.takeProfit ?? tp).length ? (pos.takeProfit ?? tp).join(', ') : ''}
-                          onChange={(e) => {
-                            const vals = e.target.value.split(/[\s,;]+/).map((s) => parseFloat(s.replace(/\s/g, ''))).filter((n) => !Number.isNaN(n) && n > 0);
-                            updatePositionSLTP(pos.id, undefined, vals.length ? vals : null);
-                          }}
-                          placeholder={tp.length ? tp.join(', ') : '76500, 77000, 77500'}
+                          value={draft?.tp ?? pos.takeProfit.join(', ')}
+                          onChange={(e) => setDraft(pos.id, { tp: e.target.value })}
+                          onBlur={() => commitDraft(pos)}
+                          placeholder="76500, 77000, 77500"
                           className="input-field flex-1 min-w-[160px] text-sm py-1 text-[var(--primary)]"
                         />
                       </p>
@@ -475,6 +295,7 @@ export default function DemoPage() {
                   <th className="py-3 px-3">Вход</th>
                   <th className="py-3 px-3">Выход</th>
                   <th className="py-3 px-3">P&L</th>
+                  <th className="py-3 px-3">Причина</th>
                   <th className="py-3 px-3">Время</th>
                   <th className="py-3 px-3">Авто</th>
                 </tr>
@@ -482,15 +303,16 @@ export default function DemoPage() {
               <tbody>
                 {history.slice(0, 20).map((h) => (
                   <tr key={h.id} className="border-b" style={{ borderColor: 'var(--border)' }}>
-                    <td className="py-3 px-3 font-medium">{h.pair}</td>
+                    <td className="py-3 px-3 font-medium">{h.symbol}</td>
                     <td className={`py-3 px-3 ${h.direction === 'LONG' ? 'text-[var(--success)]' : 'text-[var(--danger)]'}`}>{h.direction}</td>
                     <td className="py-3 px-3 text-[var(--warning)]">{(h.leverage ?? 1)}x</td>
-                    <td className="py-3 px-3">{h.openPrice.toLocaleString('ru-RU')}</td>
-                    <td className="py-3 px-3">{h.closePrice.toLocaleString('ru-RU')}</td>
-                    <td className={`py-3 px-3 ${h.pnl >= 0 ? 'text-[var(--success)]' : 'text-[var(--danger)]'}`}>
-                      {h.pnl >= 0 ? '+' : ''}{h.pnl.toFixed(2)} ({h.pnlPercent >= 0 ? '+' : ''}{h.pnlPercent.toFixed(2)}%)
+                    <td className="py-3 px-3">{h.entryPrice.toLocaleString('ru-RU')}</td>
+                    <td className="py-3 px-3">{(h.closePrice ?? 0).toLocaleString('ru-RU')}</td>
+                    <td className={`py-3 px-3 ${closedPnl(h) >= 0 ? 'text-[var(--success)]' : 'text-[var(--danger)]'}`}>
+                      {closedPnl(h) >= 0 ? '+' : ''}{closedPnl(h).toFixed(2)} ({(h.pnlPercent ?? 0) >= 0 ? '+' : ''}{(h.pnlPercent ?? 0).toFixed(2)}%)
                     </td>
-                    <td className="py-3 px-3" style={{ color: 'var(--text-muted)' }}>{new Date(h.closeTime).toLocaleString('ru-RU')}</td>
+                    <td className="py-3 px-3" style={{ color: 'var(--text-muted)' }}>{h.closeReason ? PAPER_CLOSE_REASON_LABELS[h.closeReason] : '-'}</td>
+                    <td className="py-3 px-3" style={{ color: 'var(--text-muted)' }}>{new Date(h.closeTime ?? h.openTime).toLocaleString('ru-RU')}</td>
                     <td className="py-3 px-3">{h.autoOpened ? '✓' : '-'}</td>
                   </tr>
                 ))}
@@ -507,7 +329,7 @@ export default function DemoPage() {
             <input
               type="checkbox"
               checked={autoOpen}
-              onChange={(e) => setAutoOpen(e.target.checked)}
+              onChange={(e) => updateSettings({ autoOpen: e.target.checked })}
               className="rounded"
             />
             <span className="text-sm">Авто-открытие</span>
@@ -515,16 +337,16 @@ export default function DemoPage() {
           {autoOpen && (
             <>
               <select
-                value={autoOpenSize}
-                onChange={(e) => setAutoOpenSize(Number(e.target.value))}
+                value={settings?.sizePercent ?? 5}
+                onChange={(e) => updateSettings({ sizePercent: Number(e.target.value) })}
                 className="input-field w-20 text-sm py-1"
               >
                 <option value={5}>5%</option>
                 <option value={10}>10%</option>
               </select>
               <select
-                value={autoOpenLeverage}
-                onChange={(e) => setAutoOpenLeverage(Number(e.target.value))}
+                value={settings?.leverage ?? 5}
+                onChange={(e) => updateSettings({ leverage: Number(e.target.value) })}
                 className="input-field w-16 text-sm py-1"
                 title="Плечо"
               >
@@ -547,7 +369,7 @@ export default function DemoPage() {
             <input
               type="checkbox"
               checked={autoClose}
-              onChange={(e) => setAutoClose(e.target.checked)}
+              onChange={(e) => updateSettings({ autoClose: e.target.checked })}
               className="rounded"
             />
             <span>Авто-закрытие</span>
@@ -557,8 +379,8 @@ export default function DemoPage() {
               <span className="text-sm" style={{ color: 'var(--text-muted)' }}>TP:</span>
               <input
                 type="number"
-                value={autoCloseTp}
-                onChange={(e) => setAutoCloseTp(Math.max(0.1, Number(e.target.value)))}
+                value={settings?.autoCloseTp ?? 2}
+                onChange={(e) => updateSettings({ autoCloseTp: Math.max(0.1, Number(e.target.value)) })}
                 className="input-field w-16 text-sm py-1"
                 min={0.1}
                 step={0.5}
@@ -566,8 +388,8 @@ export default function DemoPage() {
               <span className="text-sm" style={{ color: 'var(--text-muted)' }}>SL:</span>
               <input
                 type="number"
-                value={autoCloseSl}
-                onChange={(e) => setAutoCloseSl(Math.max(0.1, Number(e.target.value)))}
+                value={settings?.autoCloseSl ?? 1.5}
+                onChange={(e) => updateSettings({ autoCloseSl: Math.max(0.1, Number(e.target.value)) })}
                 className="input-field w-16 text-sm py-1"
                 min={0.1}
                 step={0.5}
@@ -623,13 +445,13 @@ export default function DemoPage() {
                 <p className="text-sm mb-3" style={{ color: 'var(--text-muted)' }}>Вход: {(s.entry_price ?? 0).toLocaleString('ru-RU')}</p>
                 <div className="flex gap-2">
                   <button
-                    onClick={() => openPosition(s, 5, leverage)}
+                    onClick={() => openFromSignal(s, 5, leverage)}
                     className="flex-1 btn-primary text-sm py-1.5"
                   >
                     5%
                   </button>
                   <button
-                    onClick={() => openPosition(s, 10, leverage)}
+                    onClick={() => openFromSignal(s, 10, leverage)}
                     className="flex-1 btn-secondary text-sm py-1.5"
                   >
                     10%
@@ -14,12 +14,59 @@ const TABS: { id: SettingsTab; label: string; icon: string }[] = [
 
 const API = '/api';
 
+interface ExchangeAccount {
+  exchange: string;
+  useTestnet: boolean;
+  keyHint: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface AccountsInfo {
+  encryptionConfigured: boolean;
+  executionEnabled: boolean;
+  accounts: ExchangeAccount[];
+}
+
+type ExchangeId = 'okx' | 'bingx' | 'binance' | 'bybit';
+
+/** Биржи для ключей; passphrase есть только у OKX */
+const EXCHANGES: { id: ExchangeId; name: string; passphrase: boolean }[] = [
+  { id: 'okx', name: 'OKX', passphrase: true },
+  { id: 'bingx', name: 'BingX', passphrase: false },
+  { id: 'binance', name: 'Binance USDT-M', passphrase: false },
+  { id: 'bybit', name: 'Bybit', passphrase: false }
+];
+
+const exchangeName = (id: string) => EXCHANGES.find((e) => e.id === id)?.name ?? id.toUpperCase();
+
+const EMPTY_KEY_FORM = { exchange: 'okx' as ExchangeId, apiKey: '', apiSecret: '', passphrase: '', useTestnet: true };
+
 export default function SettingsPage() {
-  const { user, updateProxy } = useAuth();
+  const { user, token, updateProxy } = useAuth();
   const [activeTab, setActiveTab] = useState<SettingsTab>('connections');
   const [settings, setSettings] = useState<Settings>(getSettings);
   const [connStatus, setConnStatus] = useState<Record<string, { ok?: boolean; msg?: string; checking?: boolean }>>({});
   const [tgTestStatus, setTgTestStatus] = useState<{ ok?: boolean; msg?: string; testing?: boolean }>({});
+  const [keyForm, setKeyForm] = useState(EMPTY_KEY_FORM);
+  const [accountsInfo, setAccountsInfo] = useState<AccountsInfo | null>(null);
+  const [accountStatus, setAccountStatus] = useState<{ ok?: boolean; msg?: string; saving?: boolean }>({});
+
+  const needsPassphrase = EXCHANGES.find((e) => e.id === keyForm.exchange)?.passphrase ?? false;
+
+  const authHeaders = (): Record<string, string> => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${token ?? ''}` });
+
+  const loadAccounts = async () => {
+    if (!token) return;
+    try {
+      const res = await fetch(`${API}/accounts`, { headers: authHeaders() });
+      if (res.ok) setAccountsInfo(await res.json());
+    } catch {}
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, [token]);
 
   useEffect(() => {
     const s = getSettings();
@@ -45,16 +92,16 @@ export default function SettingsPage() {
   const checkConnection = async () => {
     setConnStatus((s) => ({ ...s, okx: { checking: true } }));
     try {
-      const conn = settings.connections.okx;
       const proxy = (settings.connections.proxy ?? user?.proxyUrl ?? '').trim() || undefined;
       const res = await fetch(`${API}/connections/check`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          exchange: 'OKX',
-          apiKey: conn.apiKey,
-          apiSecret: conn.apiSecret,
-          passphrase: conn.passphrase,
+          exchange: keyForm.exchange,
+          apiKey: keyForm.apiKey,
+          useTestnet: keyForm.useTestnet,
+          apiSecret: keyForm.apiSecret,
+          passphrase: keyForm.passphrase,
           proxy
         })
       });
@@ -65,6 +112,48 @@ export default function SettingsPage() {
     }
   };
 
+  /** Ключи сохраняются на сервере в зашифрованном виде; сервер проверяет их запросом баланса */
+  const saveKeys = async () => {
+    if (!keyForm.apiKey.trim() || !keyForm.apiSecret.trim() || (needsPassphrase && !keyForm.passphrase.trim())) {
+      setAccountStatus({ ok: false, msg: needsPassphrase ? 'Введите API Key, Secret и Passphrase' : 'Введите API Key и Secret' });
+      return;
+    }
+    setAccountStatus({ saving: true });
+    try {
+      const res = await fetch(`${API}/accounts/${keyForm.exchange}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          apiKey: keyForm.apiKey.trim(),
+          secret: keyForm.apiSecret.trim(),
+          passphrase: needsPassphrase ? keyForm.passphrase.trim() : undefined,
+          useTestnet: keyForm.useTestnet
+        })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setAccountStatus({ ok: false, msg: data?.error || 'Ошибка сохранения' });
+        return;
+      }
+      setKeyForm((f) => ({ ...EMPTY_KEY_FORM, exchange: f.exchange, useTestnet: f.useTestnet }));
+      setAccountStatus({ ok: true, msg: 'Ключи сохранены на сервере' });
+      loadAccounts();
+    } catch (e: any) {
+      setAccountStatus({ ok: false, msg: e?.message || 'Ошибка сети' });
+    }
+  };
+
+  const removeKeys = async (exchange: string, useTestnet: boolean) => {
+    if (!confirm(`Удалить ключи ${exchangeName(exchange)} (${useTestnet ? 'демо' : 'реальный'} счёт)?`)) return;
+    try {
+      await fetch(`${API}/accounts/${exchange}?useTestnet=${useTestnet}`, { method: 'DELETE', headers: authHeaders() });
+      setAccountStatus({});
+      loadAccounts();
+    } catch (e: any) {
+      setAccountStatus({ ok: false, msg: e?.message || 'Ошибка сети' });
+    }
+  };
+
   const testTelegram = async () => {
     const tg = settings.notifications.telegram;
     if (!tg?.botToken?.trim() || !tg?.chatId?.trim()) {
@@ -128,13 +217,13 @@ export default function SettingsPage() {
             <div className="mb-6 p-4 rounded-xl border" style={{ borderColor: 'var(--accent)', background: 'var(--accent-dim)' }}>
               <p className="text-sm font-medium mb-1">Sovereignty Check (Antonopoulos)</p>
               <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
-                API ключи — только права «Trading». Отключите «Withdraw» (вывод средств) на бирже. Храните ключи в .env, не в коде.
+                API ключи — только права «Trading». Отключите «Withdraw» (вывод средств) на бирже. Ключи шифруются на сервере и не хранятся в браузере.
               </p>
             </div>
             <div className="space-y-6">
               <div className="card p-5 md:p-6">
                 <div className="flex justify-between items-center mb-3">
-                  <span className="font-medium">OKX</span>
+                  <span className="font-medium">Биржи: OKX, BingX, Binance, Bybit</span>
                   <label className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -145,15 +234,47 @@ export default function SettingsPage() {
                     <span className="text-sm">Включено</span>
                   </label>
                 </div>
-                <p className="text-xs mb-2" style={{ color: 'var(--text-muted)' }}>Ключи из .env используются автоматически. Можно переопределить здесь.</p>
+                <p className="text-xs mb-2" style={{ color: 'var(--text-muted)' }}>
+                  Ключи хранятся на сервере в зашифрованном виде и используются для исполнения ордеров вашим авто-трейдингом.
+                </p>
+                {accountsInfo && !accountsInfo.encryptionConfigured && (
+                  <p className="text-xs mb-2" style={{ color: 'var(--warning)' }}>На сервере не задан CREDENTIALS_SECRET — сохранение ключей недоступно.</p>
+                )}
+                {accountsInfo && accountsInfo.accounts.length > 0 && (
+                  <div className="mb-3 space-y-1 text-sm">
+                    {accountsInfo.accounts.map((a) => (
+                      <div key={`${a.exchange}-${a.useTestnet}`} className="flex items-center justify-between gap-2">
+                        <span>
+                          {exchangeName(a.exchange)} {a.useTestnet ? '(демо)' : '(реальный)'} — ключ {a.keyHint}
+                          <span className="text-xs ml-2" style={{ color: 'var(--text-muted)' }}>{new Date(a.updatedAt).toLocaleString('ru-RU')}</span>
+                        </span>
+                        <button onClick={() => removeKeys(a.exchange, a.useTestnet)} className="text-xs hover:underline" style={{ color: 'var(--danger)' }}>
+                          Удалить
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="space-y-2 text-sm">
+                  <div>
+                    <label className="block mb-1" style={{ color: 'var(--text-muted)' }}>Биржа</label>
+                    <select
+                      value={keyForm.exchange}
+                      onChange={(e) => setKeyForm((f) => ({ ...f, exchange: e.target.value as ExchangeId, passphrase: '' }))}
+                      className="input-field"
+                    >
+                      {EXCHANGES.map((e) => (
+                        <option key={e.id} value={e.id}>{e.name}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div>
                     <label className="block mb-1" style={{ color: 'var(--text-muted)' }}>API Key</label>
                     <input
                       type="password"
-                      value={settings.connections.okx.apiKey}
-                      onChange={(e) => update({ connections: { ...settings.connections, okx: { ...settings.connections.okx, apiKey: e.target.value } } })}
-                      placeholder="Или из .env"
+                      value={keyForm.apiKey}
+                      onChange={(e) => setKeyForm((f) => ({ ...f, apiKey: e.target.value }))}
+                      autoComplete="off"
                       className="input-field"
                     />
                   </div>
@@ -161,22 +282,46 @@ export default function SettingsPage() {
                     <label className="block mb-1" style={{ color: 'var(--text-muted)' }}>Secret</label>
                     <input
                       type="password"
-                      value={settings.connections.okx.apiSecret}
-                      onChange={(e) => update({ connections: { ...settings.connections, okx: { ...settings.connections.okx, apiSecret: e.target.value } } })}
-                      placeholder="Или из .env"
+                      value={keyForm.apiSecret}
+                      onChange={(e) => setKeyForm((f) => ({ ...f, apiSecret: e.target.value }))}
+                      autoComplete="off"
                       className="input-field"
                     />
                   </div>
+                  {needsPassphrase && (
                   <div>
                     <label className="block mb-1" style={{ color: 'var(--text-muted)' }}>Passphrase</label>
                     <input
                       type="password"
-                      value={settings.connections.okx.passphrase}
-                      onChange={(e) => update({ connections: { ...settings.connections, okx: { ...settings.connections.okx, passphrase: e.target.value } } })}
+                      value={keyForm.passphrase}
+                      onChange={(e) => setKeyForm((f) => ({ ...f, passphrase: e.target.value }))}
                       placeholder="Задаётся при создании ключа"
+                      autoComplete="off"
                       className="input-field"
                     />
                   </div>
+                  )}
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={keyForm.useTestnet}
+                      onChange={(e) => setKeyForm((f) => ({ ...f, useTestnet: e.target.checked }))}
+                      className="rounded"
+                    />
+                    <span>Демо-счёт (testnet)</span>
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={saveKeys}
+                      disabled={accountStatus.saving || !token}
+                      className="btn-primary px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      {accountStatus.saving ? 'Проверка...' : 'Сохранить на сервере'}
+                    </button>
+                  </div>
+                  {accountStatus.msg && (
+                    <p className={`text-sm ${accountStatus.ok ? 'text-[var(--primary)]' : 'text-[var(--danger)]'}`}>{accountStatus.msg}</p>
+                  )}
                   <div>
                     <label className="block mb-1" style={{ color: 'var(--text-muted)' }}>Прокси (для каждого пользователя)</label>
                     <input
@@ -11,7 +11,7 @@ export default function SignalFeed() {
   useEffect(() => {
     fetch(`${API}/signals?limit=50`)
       .then((r) => r.json())
-      .then(setSignals)
+      .then((page) => setSignals(Array.isArray(page?.signals) ? page.signals : []))
       .finally(() => setLoading(false));
 
     const wsUrl = (location.protocol === 'https:' ? 'wss:' : 'ws:') + '//' + location.host + '/ws';
@@ -0,0 +1,180 @@
+/**
+ * Paper trading — состояние демо-счёта с сервера (/api/paper + WebSocket subscribe_paper).
+ * Позиции ведёт backend (SL/TP/trailing по потоку OKX), страница — только отображение.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { api } from '../utils/api';
+import { notifyTelegram } from '../utils/notifyTelegram';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PaperAccount,
+  PaperMark,
+  PaperPosition,
+  PaperSettings,
+  OpenPaperPositionRequest,
+  PAPER_CLOSE_REASON_LABELS
+} from '../types/paper';
+
+const HISTORY_LIMIT = 100;
+
+export type PaperEventHandler = (
+  event:
+    | { type: 'opened' | 'closed'; position: PaperPosition }
+    | { type: 'hard_stop'; lossPct: number; closed: number }
+) => void;
+
+/** Уведомления о сделках счёта (Telegram — из настроек браузера) */
+export const notifyPaperEvent: PaperEventHandler = (event) => {
+  if (event.type === 'hard_stop') {
+    notifyTelegram(`🛑 <b>Hard Stop</b>\nПросадка ${event.lossPct.toFixed(2)}% — закрыто позиций: ${event.closed}`);
+    return;
+  }
+  const p = event.position;
+  if (event.type === 'opened') {
+    notifyTelegram(
+      `📈 <b>Позиция открыта</b>\n` +
+      `${p.symbol} ${p.direction} | $${p.margin.toFixed(2)} | ${p.leverage}x\n` +
+      `Вход: ${p.entryPrice.toLocaleString('ru-RU')}`
+    );
+    return;
+  }
+  const pnl = p.pnl ?? 0;
+  const pnlPercent = p.pnlPercent ?? 0;
+  notifyTelegram(
+    `📉 <b>Позиция закрыта</b>\n` +
+    `${p.symbol} ${p.direction}${p.closeReason ? ` (${PAPER_CLOSE_REASON_LABELS[p.closeReason]})` : ''}\n` +
+    `P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)} (${pnlPercent >= 0 ? '+' : ''}${pnlPercent.toFixed(2)}%)`
+  );
+};
+
+export function usePaperTrading(onEvent?: PaperEventHandler) {
+  const { token } = useAuth();
+  const [account, setAccount] = useState<PaperAccount | null>(null);
+  const [positions, setPositions] = useState<PaperPosition[]>([]);
+  const [history, setHistory] = useState<PaperPosition[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const auth = useCallback((): RequestInit => ({ headers: { Authorization: `Bearer ${token ?? ''}` } }), [token]);
+
+  const reload = useCallback(async () => {
+    if (!token) return;
+    try {
+      const [acc, open, closed] = await Promise.all([
+        api.get<PaperAccount>('/paper/account', auth()),
+        api.get<PaperPosition[]>('/paper/positions?status=open', auth()),
+        api.get<PaperPosition[]>(`/paper/positions?status=closed&limit=${HISTORY_LIMIT}`, auth())
+      ]);
+      setAccount(acc);
+      setPositions(open);
+      setHistory(closed);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }, [token, auth]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    if (!token) return;
+    const wsUrl = (location.protocol === 'https:' ? 'wss:' : 'ws:') + '//' + location.host + '/ws';
+    const ws = new WebSocket(wsUrl);
+    ws.onopen = () => ws.send(JSON.stringify({ type: 'subscribe_paper', token }));
+    ws.onmessage = (e) => {
+      try {
+        const msg = JSON.parse(e.data);
+        switch (msg.type) {
+          case 'paper_account':
+            setAccount(msg.data as PaperAccount);
+            break;
+          case 'paper_position_opened': {
+            const pos = msg.data as PaperPosition;
+            setPositions((prev) => [pos, ...prev.filter((p) => p.id !== pos.id)]);
+            onEventRef.current?.({ type: 'opened', position: pos });
+            break;
+          }
+          case 'paper_position_updated': {
+            const pos = msg.data as PaperPosition;
+            setPositions((prev) => prev.map((p) => (p.id === pos.id ? pos : p)));
+            break;
+          }
+          case 'paper_position_closed': {
+            const pos = msg.data as PaperPosition;
+            setPositions((prev) => prev.filter((p) => p.id !== pos.id));
+            setHistory((prev) => [pos, ...prev.filter((p) => p.id !== pos.id)].slice(0, HISTORY_LIMIT));
+            onEventRef.current?.({ type: 'closed', position: pos });
+            break;
+          }
+          case 'paper_marks': {
+            const marks = new Map((msg.data as PaperMark[]).map((m) => [m.id, m]));
+            setPositions((prev) => prev.map((p) => {
+              const m = marks.get(p.id);
+              return m ? { ...p, ...m } : p;
+            }));
+            break;
+          }
+          case 'paper_hard_stop':
+            onEventRef.current?.({ type: 'hard_stop', lossPct: msg.data.lossPct, closed: msg.data.closed });
+            break;
+          case 'paper_error':
+            setError(msg.data?.error ?? 'Ошибка подписки');
+            break;
+        }
+      } catch {}
+    };
+    return () => ws.close();
+  }, [token]);
+
+  const run = useCallback(async <T>(fn: () => Promise<T>): Promise<T | null> => {
+    try {
+      const res = await fn();
+      setError(null);
+      return res;
+    } catch (e) {
+      setError((e as Error).message);
+      return null;
+    }
+  }, []);
+
+  const openPosition = useCallback(
+    (req: OpenPaperPositionRequest) => run(() => api.post<PaperPosition>('/paper/positions', req, auth())),
+    [run, auth]
+  );
+
+  const closePosition = useCallback(
+    (id: string) => run(() => api.post<PaperPosition>(`/paper/positions/${encodeURIComponent(id)}/close`, {}, auth())),
+    [run, auth]
+  );
+
+  const updatePosition = useCallback(
+    (id: string, patch: { stopLoss?: number | null; takeProfit?: number[] | null; trailingStopPct?: number }) =>
+      run(() => api.patch<PaperPosition>(`/paper/positions/${encodeURIComponent(id)}`, patch, auth())),
+    [run, auth]
+  );
+
+  const updateSettings = useCallback(
+    async (patch: Partial<PaperSettings>) => {
+      const settings = await run(() => api.put<PaperSettings>('/paper/settings', patch, auth()));
+      if (settings) setAccount((prev) => (prev ? { ...prev, settings } : prev));
+      return settings;
+    },
+    [run, auth]
+  );
+
+  const reset = useCallback(async () => {
+    const acc = await run(() => api.post<PaperAccount>('/paper/reset', {}, auth()));
+    if (acc) {
+      setAccount(acc);
+      setPositions([]);
+      setHistory([]);
+    }
+    return acc;
+  }, [run, auth]);
+
+  return { account, positions, history, error, reload, openPosition, closePosition, updatePosition, updateSettings, reset };
+}
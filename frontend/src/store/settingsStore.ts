@@ -2,7 +2,8 @@ const STORAGE_KEY = 'cryptosignal-settings';
 
 export interface Settings {
   connections: {
-    okx: { enabled: boolean; apiKey: string; apiSecret: string; passphrase: string };
+    /** Ключи OKX хранятся на сервере в зашифрованном виде (PUT /api/accounts/okx), не в localStorage */
+    okx: { enabled: boolean };
     /** Прокси для OKX: http://user:pass@ip:port */
     proxy?: string;
     tradingview: { enabled: boolean };
@@ -41,7 +42,7 @@ export interface Settings {
 
 const defaults: Settings = {
   connections: {
-    okx: { enabled: true, apiKey: '', apiSecret: '', passphrase: '' },
+    okx: { enabled: true },
     proxy: '',
     tradingview: { enabled: true },
     scalpboard: { enabled: false, apiKey: '' }
@@ -90,7 +91,8 @@ function load(): Settings {
         merged.connections = {
           ...defaults.connections,
           ...parsed.connections,
-          okx: { ...defaults.connections.okx, ...parsed.connections.okx },
+          // Ключи из старых версий (apiKey/apiSecret/passphrase) не переносятся
+          okx: { enabled: parsed.connections.okx?.enabled ?? defaults.connections.okx.enabled },
           proxy: parsed.connections?.proxy ?? defaults.connections.proxy ?? '',
           tradingview: { ...defaults.connections.tradingview, ...parsed.connections.tradingview },
           scalpboard: { ...defaults.connections.scalpboard, ...parsed.connections.scalpboard }
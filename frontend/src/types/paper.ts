@@ -0,0 +1,106 @@
+/** Paper trading — типы ответа /api/paper и WebSocket-событий (backend services/paperTrading.ts) */
+
+export type PaperDirection = 'LONG' | 'SHORT';
+
+export type PaperCloseReason =
+  | 'manual'
+  | 'stop_loss'
+  | 'take_profit'
+  | 'trailing_stop'
+  | 'liquidation'
+  | 'auto_close_tp'
+  | 'auto_close_sl'
+  | 'max_duration'
+  | 'hard_stop';
+
+export interface PaperSettings {
+  autoOpen: boolean;
+  symbols: string[];
+  allowedDirections: PaperDirection[];
+  minConfidence: number;
+  longConfidenceBonus: number;
+  sizePercent: number;
+  riskPercent: number;
+  leverage: number;
+  maxPositions: number;
+  maxLockedPercent: number;
+  cooldownSec: number;
+  useSignalSLTP: boolean;
+  trailingStopPercent: number;
+  maxPositionDurationHours: number;
+  autoClose: boolean;
+  autoCloseTp: number;
+  autoCloseSl: number;
+  minHoldSec: number;
+  maxDailyLossPercent: number;
+}
+
+export interface PaperPosition {
+  id: string;
+  symbol: string;
+  direction: PaperDirection;
+  status: 'open' | 'closed';
+  margin: number;
+  leverage: number;
+  entryPrice: number;
+  qty: number;
+  stopLoss: number | null;
+  takeProfit: number[];
+  trailingStopPct: number;
+  highWater: number;
+  lowWater: number;
+  lastPrice: number;
+  liquidationPrice: number;
+  fees: number;
+  signalId: string | null;
+  confidence: number | null;
+  autoOpened: boolean;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  closePrice: number | null;
+  pnl: number | null;
+  pnlPercent: number | null;
+  closeReason: PaperCloseReason | null;
+  openTime: number;
+  closeTime: number | null;
+}
+
+export interface PaperAccount {
+  balance: number;
+  initialBalance: number;
+  equity: number;
+  lockedMargin: number;
+  unrealizedPnl: number;
+  openPositions: number;
+  settings: PaperSettings;
+}
+
+export interface PaperMark {
+  id: string;
+  lastPrice: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+}
+
+export interface OpenPaperPositionRequest {
+  symbol: string;
+  direction: PaperDirection;
+  margin?: number;
+  sizePercent?: number;
+  leverage?: number;
+  stopLoss?: number | null;
+  takeProfit?: number[] | null;
+  trailingStopPct?: number;
+}
+
+export const PAPER_CLOSE_REASON_LABELS: Record<PaperCloseReason, string> = {
+  manual: 'Вручную',
+  stop_loss: 'Stop-Loss',
+  take_profit: 'Take-Profit',
+  trailing_stop: 'Trailing',
+  liquidation: 'Ликвидация',
+  auto_close_tp: 'Авто TP',
+  auto_close_sl: 'Авто SL',
+  max_duration: 'Время',
+  hard_stop: 'Hard Stop'
+};
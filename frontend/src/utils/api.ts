@@ -45,5 +45,24 @@ export const api = {
       body: body != null ? JSON.stringify(body) : (options?.body ?? undefined)
     });
     return handleResponse<T>(res);
+  },
+
+  async put<T>(path: string, body?: unknown, options?: RequestInit): Promise<T> {
+    const res = await fetch(`${API_BASE}${path}`, {
+      ...options,
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...options?.headers },
+      body: body != null ? JSON.stringify(body) : (options?.body ?? undefined)
+    });
+    return handleResponse<T>(res);
+  },
+
+  async delete<T>(path: string, options?: RequestInit): Promise<T> {
+    const res = await fetch(`${API_BASE}${path}`, {
+      ...options,
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json', ...options?.headers }
+    });
+    return handleResponse<T>(res);
   }
 };